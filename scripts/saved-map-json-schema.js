@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import fs from 'fs';
+import {resolve} from 'path';
+import {logSuccess} from './log';
+
+import KeplerGlSchema from '@kepler.gl/schemas';
+
+// write JSON Schema of kepler.gl saved map, e.g.
+// babel-node ./scripts/saved-map-json-schema.js dist/saved-map.schema.json
+const outputPath = resolve(process.argv[2] || 'saved-map.schema.json');
+
+fs.writeFileSync(outputPath, `${JSON.stringify(KeplerGlSchema.getJSONSchema(), null, 2)}\n`);
+logSuccess(`Saved map JSON Schema written to ${outputPath}`);
@@ -48,6 +48,7 @@ export const ActionTypes = {
   APPLY_FILTER_CONFIG: `${ACTION_PREFIX}APPLY_FILTER_CONFIG`,
   APPLY_LAYER_CONFIG: `${ACTION_PREFIX}APPLY_LAYER_CONFIG`,
   DUPLICATE_LAYER: `${ACTION_PREFIX}DUPLICATE_LAYER`,
+  CREATE_DATASET_FROM_LAYER: `${ACTION_PREFIX}CREATE_DATASET_FROM_LAYER`,
   INTERACTION_CONFIG_CHANGE: `${ACTION_PREFIX}INTERACTION_CONFIG_CHANGE`,
   LAYER_CONFIG_CHANGE: `${ACTION_PREFIX}LAYER_CONFIG_CHANGE`,
   LAYER_SET_IS_VALID: `${ACTION_PREFIX}LAYER_SET_IS_VALID`,
@@ -89,6 +90,9 @@ export const ActionTypes = {
   TOGGLE_FILTER_FEATURE: `${ACTION_PREFIX}TOGGLE_FILTER_FEATURE`,
   TOGGLE_LAYER_FOR_MAP: `${ACTION_PREFIX}TOGGLE_LAYER_FOR_MAP`,
   SET_FILTER_PLOT: `${ACTION_PREFIX}SET_FILTER_PLOT`,
+  ADD_FILTER_GROUP: `${ACTION_PREFIX}ADD_FILTER_GROUP`,
+  REMOVE_FILTER_GROUP: `${ACTION_PREFIX}REMOVE_FILTER_GROUP`,
+  SET_FILTER_GROUP_OPERATOR: `${ACTION_PREFIX}SET_FILTER_GROUP_OPERATOR`,
   LOAD_FILES: `${ACTION_PREFIX}LOAD_FILES`,
   LOAD_NEXT_FILE: `${ACTION_PREFIX}LOAD_NEXT_FILE`,
   LOAD_BATCH_DATA_SUCCESS: `${ACTION_PREFIX}LOAD_BATCH_DATA_SUCCESS`,
@@ -103,6 +107,9 @@ export const ActionTypes = {
   PIN_TABLE_COLUMN: `${ACTION_PREFIX}PIN_TABLE_COLUMN`,
   COPY_TABLE_COLUMN: `${ACTION_PREFIX}COPY_TABLE_COLUMN`,
   SET_COLUMN_DISPLAY_FORMAT: `${ACTION_PREFIX}SET_COLUMN_DISPLAY_FORMAT`,
+  ADD_DERIVED_FIELD: `${ACTION_PREFIX}ADD_DERIVED_FIELD`,
+  REMOVE_DERIVED_FIELD: `${ACTION_PREFIX}REMOVE_DERIVED_FIELD`,
+  SPATIAL_JOIN: `${ACTION_PREFIX}SPATIAL_JOIN`,
   NEXT_FILE_BATCH: `${ACTION_PREFIX}NEXT_FILE_BATCH`,
   PROCESS_FILE_CONTENT: `${ACTION_PREFIX}PROCESS_FILE_CONTENT`,
   UPDATE_TABLE_COLOR: `${ACTION_PREFIX}UPDATE_TABLE_COLOR`,
@@ -148,10 +155,13 @@ export const ActionTypes = {
   REMOVE_NOTIFICATION: `${ACTION_PREFIX}REMOVE_NOTIFICATION`,
   SET_LOCALE: `${ACTION_PREFIX}SET_LOCALE`,
   LAYER_FILTERED_ITEMS_CHANGE: `${ACTION_PREFIX}LAYER_FILTERED_ITEMS_CHANGE`,
+  LAYER_TILE_STATS_CHANGE: `${ACTION_PREFIX}LAYER_TILE_STATS_CHANGE`,
   SYNC_TIME_FILTER_WITH_LAYER_TIMELINE: `${ACTION_PREFIX}SYNC_TIME_FILTER_WITH_LAYER_TIMELINE`,
   SYNC_TIME_FILTER_TIMELINE_MODE: `${ACTION_PREFIX}SYNC_TIME_FILTER_TIMELINE_MODE`,
   TOGGLE_PANEL_LIST_VIEW: `${ACTION_PREFIX}TOGGLE_PANEL_LIST_VIEW`,
   SET_LOADING_INDICATOR: `${ACTION_PREFIX}SET_LOADING_INDICATOR`,
+  UNDO: `${ACTION_PREFIX}UNDO`,
+  REDO: `${ACTION_PREFIX}REDO`,
 
   // uiState > export image
   SET_EXPORT_IMAGE_SETTING: `${ACTION_PREFIX}SET_EXPORT_IMAGE_SETTING`,
@@ -160,8 +170,9 @@ export const ActionTypes = {
   SET_EXPORT_IMAGE_ERROR: `${ACTION_PREFIX}SET_EXPORT_IMAGE_ERROR`,
   CLEANUP_EXPORT_IMAGE: `${ACTION_PREFIX}CLEANUP_EXPORT_IMAGE`,
 
-  // uiState > export video (state only, via hubble.gl)
+  // uiState > export video
   SET_EXPORT_VIDEO_SETTING: `${ACTION_PREFIX}SET_EXPORT_VIDEO_SETTING`,
+  CLEANUP_EXPORT_VIDEO: `${ACTION_PREFIX}CLEANUP_EXPORT_VIDEO`,
 
   // uiState > export data
   SET_EXPORT_SELECTED_DATASET: `${ACTION_PREFIX}SET_EXPORT_SELECTED_DATASET`,
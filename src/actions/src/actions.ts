@@ -49,6 +49,8 @@ export type ActionHandlers<T extends {[k: string]: Handler}> = {
  * @param {boolean} data.options.readOnly `default: false` if `readOnly` is set to `true`
  * the left setting panel will be hidden
  * @param {boolean} data.options.keepExistingConfig whether to keep exiting map data and associated layer filter  interaction config `default: false`.
+ * @param {boolean} data.options.strict `default: false` if `strict` is set to `true`, `config` has to be a valid saved config,
+ * otherwise the entire payload is rejected with an error notification, instead of dropping the invalid parts of the config.
  * @param {Object} data.config this object will contain the full kepler.gl instance configuration {mapState, mapStyle, visState}
  * @public
  * @example
@@ -4,7 +4,7 @@
 import {createAction} from '@reduxjs/toolkit';
 import {default as ActionTypes} from './action-types';
 import {Merge} from '@kepler.gl/types';
-import {ExportImage} from '@kepler.gl/constants';
+import {ExportImage, ExportVideo} from '@kepler.gl/constants';
 
 /** TOGGLE_SIDE_PANEL */
 export type ToggleSidePanelUpdaterAction = {
@@ -315,6 +315,36 @@ export const cleanupExportImage: () => {
   type: typeof ActionTypes.CLEANUP_EXPORT_IMAGE;
 } = createAction(ActionTypes.CLEANUP_EXPORT_IMAGE);
 
+/** SET_EXPORT_VIDEO_SETTING */
+export type SetExportVideoSettingUpdaterAction = {
+  payload: Partial<ExportVideo>;
+};
+/**
+ * Set `exportVideo` settings: format, animation source, ratio, resolution, frame rate and duration.
+ * Set `exporting` to `true` to start rendering frames
+ * @memberof uiStateActions
+ * @param newSetting - {format: 'WEBM', frameRate: 30, duration: 5}
+ * @public
+ */
+export const setExportVideoSetting: (
+  newSetting: SetExportVideoSettingUpdaterAction['payload']
+) => Merge<
+  SetExportVideoSettingUpdaterAction,
+  {type: typeof ActionTypes.SET_EXPORT_VIDEO_SETTING}
+> = createAction(
+  ActionTypes.SET_EXPORT_VIDEO_SETTING,
+  (newSetting: SetExportVideoSettingUpdaterAction['payload']) => ({payload: newSetting})
+);
+
+/**
+ * Reset export video progress and error
+ * @memberof uiStateActions
+ * @public
+ */
+export const cleanupExportVideo: () => {
+  type: typeof ActionTypes.CLEANUP_EXPORT_VIDEO;
+} = createAction(ActionTypes.CLEANUP_EXPORT_VIDEO);
+
 /** SET_EXPORT_SELECTED_DATASET */
 export type SetExportSelectedDatasetUpdaterAction = {
   payload: string;
@@ -19,12 +19,14 @@ import {
   FeatureSelectionContext,
   InteractionConfig,
   Filter,
+  FilterGroupOperator,
   ParsedConfig,
   ParsedLayer,
   EffectPropsPartial,
   SyncTimelineMode,
   AnimationConfig,
-  FilterAnimationConfig
+  FilterAnimationConfig,
+  SpatialJoinOptions
 } from '@kepler.gl/types';
 import {createAction} from '@reduxjs/toolkit';
 
@@ -463,6 +465,78 @@ export function addFilter(
   };
 }
 
+export type AddFilterGroupUpdaterAction = {
+  operator?: FilterGroupOperator;
+  parentId?: string | null;
+  id?: string;
+};
+/**
+ * Add a new boolean group to compose filters
+ * @memberof visStateActions
+ * @param operator - `and`, `or` or `not`, used to combine filters and groups inside this group
+ * @param parentId - `id` of the parent group, top level groups are combined using `and`
+ * @param id - `id` for the new filter group
+ * @returns action
+ * @public
+ */
+export function addFilterGroup(
+  operator?: FilterGroupOperator,
+  parentId?: string | null,
+  id?: string
+): Merge<AddFilterGroupUpdaterAction, {type: typeof ActionTypes.ADD_FILTER_GROUP}> {
+  return {
+    type: ActionTypes.ADD_FILTER_GROUP,
+    operator,
+    parentId,
+    id
+  };
+}
+
+export type RemoveFilterGroupUpdaterAction = {
+  id: string;
+};
+/**
+ * Remove a filter group, filters and groups inside it are moved to its parent group
+ * @memberof visStateActions
+ * @param id - `id` of the filter group to be removed
+ * @returns action
+ * @public
+ */
+export function removeFilterGroup(
+  id: string
+): Merge<RemoveFilterGroupUpdaterAction, {type: typeof ActionTypes.REMOVE_FILTER_GROUP}> {
+  return {
+    type: ActionTypes.REMOVE_FILTER_GROUP,
+    id
+  };
+}
+
+export type SetFilterGroupOperatorUpdaterAction = {
+  id: string;
+  operator: FilterGroupOperator;
+};
+/**
+ * Change the boolean operator of a filter group
+ * @memberof visStateActions
+ * @param id - `id` of the filter group
+ * @param operator - `and`, `or` or `not`
+ * @returns action
+ * @public
+ */
+export function setFilterGroupOperator(
+  id: string,
+  operator: FilterGroupOperator
+): Merge<
+  SetFilterGroupOperatorUpdaterAction,
+  {type: typeof ActionTypes.SET_FILTER_GROUP_OPERATOR}
+> {
+  return {
+    type: ActionTypes.SET_FILTER_GROUP_OPERATOR,
+    id,
+    operator
+  };
+}
+
 export type CreateOrUpdateFilterUpdaterAction = {
   id?: string;
   dataId?: string | string[];
@@ -596,6 +670,28 @@ export function duplicateLayer(
   };
 }
 
+export type CreateDatasetFromLayerUpdaterAction = {
+  id: string;
+};
+/**
+ * Add geometries generated by a layer, e.g. contours, to the map as a new dataset
+ * @memberof visStateActions
+ * @param id id of the layer
+ * @returns action
+ * @public
+ */
+export function createDatasetFromLayer(
+  id: string
+): Merge<
+  CreateDatasetFromLayerUpdaterAction,
+  {type: typeof ActionTypes.CREATE_DATASET_FROM_LAYER}
+> {
+  return {
+    type: ActionTypes.CREATE_DATASET_FROM_LAYER,
+    id
+  };
+}
+
 export type AddEffectUpdaterAction = {
   config: EffectPropsPartial;
 };
@@ -839,6 +935,90 @@ export function setColumnDisplayFormat(
   };
 }
 
+export type AddDerivedFieldUpdaterAction = {
+  dataId: string;
+  name: string;
+  expression: string;
+};
+
+/**
+ * Add a field computed from an expression to a dataset, e.g. `fare / distance` or `hour(pickup_time)`.
+ * The expression is saved in the map config and the field is rebuilt on load.
+ * @memberof visStateActions
+ * @param dataId id of the dataset
+ * @param name name of the new field
+ * @param expression expression evaluated on each row
+ * @returns action
+ * @public
+ */
+export function addDerivedField(
+  dataId: AddDerivedFieldUpdaterAction['dataId'],
+  name: AddDerivedFieldUpdaterAction['name'],
+  expression: AddDerivedFieldUpdaterAction['expression']
+): Merge<AddDerivedFieldUpdaterAction, {type: typeof ActionTypes.ADD_DERIVED_FIELD}> {
+  return {
+    type: ActionTypes.ADD_DERIVED_FIELD,
+    dataId,
+    name,
+    expression
+  };
+}
+
+export type RemoveDerivedFieldUpdaterAction = {
+  dataId: string;
+  name: string;
+};
+
+/**
+ * Remove a derived field from a dataset
+ * @memberof visStateActions
+ * @param dataId id of the dataset
+ * @param name name of the derived field
+ * @returns action
+ * @public
+ */
+export function removeDerivedField(
+  dataId: RemoveDerivedFieldUpdaterAction['dataId'],
+  name: RemoveDerivedFieldUpdaterAction['name']
+): Merge<RemoveDerivedFieldUpdaterAction, {type: typeof ActionTypes.REMOVE_DERIVED_FIELD}> {
+  return {
+    type: ActionTypes.REMOVE_DERIVED_FIELD,
+    dataId,
+    name
+  };
+}
+
+export type SpatialJoinUpdaterAction = {
+  pointDataId: string;
+  polygonDataId: string;
+  options: SpatialJoinOptions;
+};
+
+/**
+ * Spatial join between a point dataset and a polygon dataset.
+ * `polygonAttributes` adds fields of the polygon containing each point to the point dataset,
+ * `pointAggregation` adds the count of points in each polygon, and sums or averages of point fields,
+ * as new columns of the polygon dataset.
+ * @memberof visStateActions
+ * @param pointDataId id of the point dataset
+ * @param polygonDataId id of the polygon dataset
+ * @param options join type, fields and aggregations
+ * @returns action
+ * @public
+ */
+export function spatialJoin(
+  pointDataId: SpatialJoinUpdaterAction['pointDataId'],
+  polygonDataId: SpatialJoinUpdaterAction['polygonDataId'],
+  options: SpatialJoinUpdaterAction['options']
+): Merge<SpatialJoinUpdaterAction, {type: typeof ActionTypes.SPATIAL_JOIN}> {
+  return {
+    type: ActionTypes.SPATIAL_JOIN,
+    pointDataId,
+    polygonDataId,
+    options
+  };
+}
+
 export type AddDataToMapUpdaterOptions = {
   centerMap?: boolean;
   readOnly?: boolean;
@@ -1629,6 +1809,26 @@ export function layerFilteredItemsChange(
   };
 }
 
+export type LayerTileStatsChangeAction = {
+  layer: Layer;
+};
+
+/**
+ * Tile layer callback when tiles loaded in the viewport changed,
+ * used to update domains and histograms of filters on tiled datasets
+ * @memberof visStateActions
+ * @param layer
+ * @return action
+ */
+export function layerTileStatsChange(
+  layer: LayerTileStatsChangeAction['layer']
+): Merge<LayerTileStatsChangeAction, {type: typeof ActionTypes.LAYER_TILE_STATS_CHANGE}> {
+  return {
+    type: ActionTypes.LAYER_TILE_STATS_CHANGE,
+    layer
+  };
+}
+
 export type SyncTimeFilterWithLayerTimelineAction = {
   idx: number;
   enable: boolean;
@@ -1712,6 +1912,32 @@ export const setLoadingIndicator = createAction<SetLoadingIndicatorPayload>(
   ActionTypes.SET_LOADING_INDICATOR
 );
 
+export type UndoUpdaterAction = void;
+/**
+ * Revert the last layer, filter or interaction config change
+ * @memberof visStateActions
+ * @return action
+ * @public
+ */
+export function undo(): Merge<UndoUpdaterAction, {type: typeof ActionTypes.UNDO}> {
+  return {
+    type: ActionTypes.UNDO
+  };
+}
+
+export type RedoUpdaterAction = void;
+/**
+ * Re-apply the last config change reverted by `undo`
+ * @memberof visStateActions
+ * @return action
+ * @public
+ */
+export function redo(): Merge<RedoUpdaterAction, {type: typeof ActionTypes.REDO}> {
+  return {
+    type: ActionTypes.REDO
+  };
+}
+
 /**
  * This declaration is needed to group actions in docs
  */
@@ -72,3 +72,11 @@ export function validateUrl(str) {
  * @returns True if the URL includes '.pmtiles', otherwise false.
  */
 export const isPMTilesUrl = (url?: string | null) => url?.includes('.pmtiles');
+
+/**
+ * Checks whether a given URL points to a GeoTIFF file.
+ * @param url The URL to check.
+ * @returns True if the path of the URL ends with '.tif' or '.tiff', otherwise false.
+ */
+export const isCOGUrl = (url?: string | null) =>
+  Boolean(url && /\.tiff?$/i.test(url.split(/[?#]/)[0]));
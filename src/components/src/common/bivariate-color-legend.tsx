@@ -0,0 +1,140 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {useMemo} from 'react';
+import styled from 'styled-components';
+import {ColorRange} from '@kepler.gl/types';
+import {formatNumber} from '@kepler.gl/utils';
+
+const CELL_SIZE = 18;
+const GAP = 1;
+
+const StyledBivariateLegend = styled.div`
+  display: flex;
+  align-items: flex-end;
+  padding: 4px 0;
+  font-size: 10px;
+  color: ${props => props.theme.textColor};
+
+  .bivariate-legend__y-axis {
+    writing-mode: vertical-rl;
+    transform: rotate(180deg);
+    text-align: center;
+    margin-right: 4px;
+    white-space: nowrap;
+    overflow: hidden;
+    text-overflow: ellipsis;
+  }
+
+  .bivariate-legend__grid {
+    display: grid;
+    grid-gap: ${GAP}px;
+  }
+
+  .bivariate-legend__x-axis {
+    margin-top: 4px;
+    text-align: center;
+    white-space: nowrap;
+    overflow: hidden;
+    text-overflow: ellipsis;
+  }
+
+  .bivariate-legend__range {
+    display: flex;
+    justify-content: space-between;
+    color: ${props => props.theme.subtextColor};
+  }
+`;
+
+export type BivariateColorLegendProps = {
+  range: ColorRange;
+  domain: number[];
+  domain2: number[];
+  fieldName: string;
+  fieldName2: string;
+};
+
+function getDomainExtent(domain: number[]): [string, string] | null {
+  if (!Array.isArray(domain) || !domain.length) {
+    return null;
+  }
+  return [formatNumber(domain[0]), formatNumber(domain[domain.length - 1])];
+}
+
+/**
+ * Legend of a bivariate color matrix, the first field is mapped to the x axis
+ * and the second field to the y axis
+ */
+function BivariateColorLegendFactory() {
+  const BivariateColorLegend: React.FC<BivariateColorLegendProps> = ({
+    range,
+    domain,
+    domain2,
+    fieldName,
+    fieldName2
+  }) => {
+    const {cols = 0, rows = 0} = range?.bivariate || {};
+    // render rows top to bottom, from the highest class of the second field
+    const cells = useMemo(() => {
+      const result: {color: string; key: string}[] = [];
+      for (let row = rows - 1; row >= 0; row--) {
+        for (let col = 0; col < cols; col++) {
+          result.push({color: range.colors[row * cols + col], key: `${row}-${col}`});
+        }
+      }
+      return result;
+    }, [range, cols, rows]);
+
+    if (!cols || !rows) {
+      return null;
+    }
+    const extent = getDomainExtent(domain);
+    const extent2 = getDomainExtent(domain2);
+    const gridWidth = cols * (CELL_SIZE + GAP);
+
+    return (
+      <StyledBivariateLegend className="bivariate-legend">
+        <div
+          className="bivariate-legend__y-axis"
+          style={{maxHeight: rows * (CELL_SIZE + GAP)}}
+          title={fieldName2}
+        >
+          {fieldName2} →
+        </div>
+        {extent2 ? (
+          <div className="bivariate-legend__range" style={{flexDirection: 'column-reverse'}}>
+            <span>{extent2[0]}</span>
+            <span>{extent2[1]}</span>
+          </div>
+        ) : null}
+        <div style={{marginLeft: 4}}>
+          <div
+            className="bivariate-legend__grid"
+            style={{
+              gridTemplateColumns: `repeat(${cols}, ${CELL_SIZE}px)`,
+              gridAutoRows: `${CELL_SIZE}px`
+            }}
+          >
+            {cells.map(({color, key}) => (
+              <div key={key} style={{backgroundColor: color}} />
+            ))}
+          </div>
+          {extent ? (
+            <div className="bivariate-legend__range" style={{width: gridWidth}}>
+              <span>{extent[0]}</span>
+              <span>{extent[1]}</span>
+            </div>
+          ) : null}
+          <div className="bivariate-legend__x-axis" style={{maxWidth: gridWidth}} title={fieldName}>
+            {fieldName} →
+          </div>
+        </div>
+      </StyledBivariateLegend>
+    );
+  };
+
+  BivariateColorLegend.displayName = 'BivariateColorLegend';
+  return React.memo(BivariateColorLegend);
+}
+
+export default BivariateColorLegendFactory;
@@ -0,0 +1,141 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {useCallback, useMemo, useState} from 'react';
+import styled from 'styled-components';
+
+import {FormattedMessage} from '@kepler.gl/localization';
+import {validateExpression} from '@kepler.gl/utils';
+import {Field} from '@kepler.gl/types';
+
+import {Button, InputLight} from '../../common/styled-components';
+import {Trash} from '../../common/icons';
+
+const StyledConfigPanel = styled.div`
+  background-color: ${props => props.theme.headerCellBackground};
+  box-shadow: 0 10px 18px 0 rgb(0 0 0 / 36%);
+  flex-grow: 1;
+`;
+
+const StyledConfigPanelContent = styled.div`
+  padding: 20px;
+  width: 320px;
+  max-height: 400px;
+  overflow: overlay;
+
+  input {
+    width: 100%;
+    margin-bottom: 8px;
+  }
+`;
+
+const StyledTitle = styled.div`
+  font-size: 12px;
+  font-weight: 500;
+  margin-bottom: 10px;
+`;
+
+const StyledError = styled.div`
+  color: ${props => props.theme.errorColor};
+  font-size: 11px;
+  margin-bottom: 8px;
+  word-break: break-word;
+`;
+
+const StyledDerivedField = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  font-size: 11px;
+  padding: 4px 0;
+
+  .derived-field__expression {
+    color: ${props => props.theme.subtextColor};
+    margin-left: 8px;
+    flex-grow: 1;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  svg {
+    cursor: pointer;
+  }
+`;
+
+export type DerivedFieldConfigProps = {
+  fields: Field[];
+  addDerivedField: (name: string, expression: string) => void;
+  removeDerivedField: (name: string) => void;
+};
+
+function DerivedFieldConfigFactory() {
+  const DerivedFieldConfig: React.FC<DerivedFieldConfigProps> = ({
+    fields,
+    addDerivedField,
+    removeDerivedField
+  }) => {
+    const [name, setName] = useState('');
+    const [expression, setExpression] = useState('');
+
+    const derivedFields = useMemo(() => fields.filter(f => f.expression), [fields]);
+    const error = useMemo(
+      () =>
+        !expression
+          ? null
+          : fields.find(f => f.name === name)
+          ? `Field "${name}" already exists`
+          : validateExpression(expression, fields),
+      [expression, name, fields]
+    );
+
+    const onAdd = useCallback(() => {
+      addDerivedField(name, expression);
+      setName('');
+      setExpression('');
+    }, [addDerivedField, name, expression]);
+
+    return (
+      <StyledConfigPanel>
+        <StyledConfigPanelContent className="derived-field-config">
+          <StyledTitle>
+            <FormattedMessage id="derivedField.title" />
+          </StyledTitle>
+          <InputLight
+            id="derived-field-name"
+            type="text"
+            value={name}
+            placeholder="Field name"
+            onChange={e => setName(e.target.value)}
+          />
+          <InputLight
+            id="derived-field-expression"
+            type="text"
+            value={expression}
+            placeholder="fare / distance"
+            onChange={e => setExpression(e.target.value)}
+          />
+          {error ? (
+            <StyledError className="derived-field-config__error">{error}</StyledError>
+          ) : null}
+          <Button small disabled={!name || !expression || Boolean(error)} onClick={onAdd}>
+            <FormattedMessage id="derivedField.add" />
+          </Button>
+          {derivedFields.map(field => (
+            <StyledDerivedField key={field.name} className="derived-field">
+              <span className="derived-field__name">{field.name}</span>
+              <span className="derived-field__expression" title={field.expression}>
+                {field.expression}
+              </span>
+              <Trash height="12px" onClick={() => removeDerivedField(field.name)} />
+            </StyledDerivedField>
+          ))}
+        </StyledConfigPanelContent>
+      </StyledConfigPanel>
+    );
+  };
+
+  return DerivedFieldConfig;
+}
+
+export default DerivedFieldConfigFactory;
@@ -0,0 +1,203 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {useCallback, useMemo, useState} from 'react';
+import {useIntl} from 'react-intl';
+import styled from 'styled-components';
+
+import {ALL_FIELD_TYPES, SPATIAL_JOIN_AGGREGATIONS, SPATIAL_JOIN_TYPES} from '@kepler.gl/constants';
+import {FormattedMessage} from '@kepler.gl/localization';
+import KeplerTable, {Datasets} from '@kepler.gl/table';
+import {SpatialJoinOptions} from '@kepler.gl/types';
+
+import ItemSelector from '../item-selector/item-selector';
+import {Button, PanelLabel} from '../styled-components';
+
+const StyledConfigPanel = styled.div`
+  background-color: ${props => props.theme.headerCellBackground};
+  box-shadow: 0 10px 18px 0 rgb(0 0 0 / 36%);
+  flex-grow: 1;
+`;
+
+const StyledConfigPanelContent = styled.div`
+  padding: 20px;
+  width: 320px;
+  max-height: 400px;
+  overflow: overlay;
+
+  .item-selector {
+    margin-bottom: 8px;
+  }
+`;
+
+const StyledTitle = styled.div`
+  font-size: 12px;
+  font-weight: 500;
+  margin-bottom: 10px;
+`;
+
+const NUMERIC_FIELD_TYPES: string[] = [ALL_FIELD_TYPES.integer, ALL_FIELD_TYPES.real];
+
+const AGGREGATION_OPTIONS = [SPATIAL_JOIN_AGGREGATIONS.sum, SPATIAL_JOIN_AGGREGATIONS.average];
+
+const hasPoints = (dataset: KeplerTable) => dataset.fieldPairs.length > 0;
+const hasPolygons = (dataset: KeplerTable) =>
+  dataset.fields.some(f => f.type === ALL_FIELD_TYPES.geojson);
+
+export type SpatialJoinConfigProps = {
+  dataset: KeplerTable;
+  datasets: Datasets;
+  spatialJoin: (pointDataId: string, polygonDataId: string, options: SpatialJoinOptions) => void;
+};
+
+/**
+ * Join the active dataset with another dataset by location.
+ * Points get attributes of the polygon they are in, polygons get counts,
+ * sums and averages of the points they contain
+ */
+function SpatialJoinConfigFactory() {
+  const SpatialJoinConfig: React.FC<SpatialJoinConfigProps> = ({
+    dataset,
+    datasets,
+    spatialJoin
+  }) => {
+    const intl = useIntl();
+    const joinTypeOptions = useMemo(
+      () =>
+        [
+          ...(hasPoints(dataset) ? [SPATIAL_JOIN_TYPES.polygonAttributes] : []),
+          ...(hasPolygons(dataset) ? [SPATIAL_JOIN_TYPES.pointAggregation] : [])
+        ].map(id => ({id, label: intl.formatMessage({id: `spatialJoin.${id}`})})),
+      [dataset, intl]
+    );
+    const [joinType, setJoinType] = useState(joinTypeOptions[0]?.id);
+    const [otherDataId, setOtherDataId] = useState<string | null>(null);
+    const [fields, setFields] = useState<string[]>([]);
+    const [aggregations, setAggregations] = useState<string[]>([]);
+
+    const isPointDataset = joinType === SPATIAL_JOIN_TYPES.polygonAttributes;
+    const otherDatasets = useMemo(
+      () =>
+        Object.values(datasets).filter(
+          d => d.id !== dataset.id && (isPointDataset ? hasPolygons(d) : hasPoints(d))
+        ),
+      [datasets, dataset, isPointDataset]
+    );
+    const otherDataset = otherDataId ? datasets[otherDataId] : null;
+    const fieldOptions = useMemo(
+      () =>
+        (otherDataset?.fields || [])
+          .filter(f =>
+            isPointDataset
+              ? f.type !== ALL_FIELD_TYPES.geojson
+              : NUMERIC_FIELD_TYPES.includes(f.type)
+          )
+          .map(f => f.name),
+      [otherDataset, isPointDataset]
+    );
+
+    const onSelectJoinType = useCallback(option => {
+      setJoinType(option.id);
+      setOtherDataId(null);
+      setFields([]);
+    }, []);
+
+    const onSelectDataset = useCallback(option => {
+      setOtherDataId(option.id);
+      setFields([]);
+    }, []);
+
+    const onJoin = useCallback(() => {
+      if (!otherDataId) {
+        return;
+      }
+      const [pointDataId, polygonDataId] = isPointDataset
+        ? [dataset.id, otherDataId]
+        : [otherDataId, dataset.id];
+      spatialJoin(pointDataId, polygonDataId, {
+        joinType,
+        fields,
+        ...(isPointDataset ? {} : {aggregations})
+      });
+    }, [spatialJoin, dataset, otherDataId, isPointDataset, joinType, fields, aggregations]);
+
+    return (
+      <StyledConfigPanel>
+        <StyledConfigPanelContent className="spatial-join-config">
+          <StyledTitle>
+            <FormattedMessage id="spatialJoin.title" />
+          </StyledTitle>
+          {joinTypeOptions.length ? (
+            <>
+              <PanelLabel>
+                <FormattedMessage id="spatialJoin.joinType" />
+              </PanelLabel>
+              <ItemSelector
+                selectedItems={joinTypeOptions.find(({id}) => id === joinType)}
+                options={joinTypeOptions}
+                displayOption="label"
+                getOptionValue={option => option}
+                multiSelect={false}
+                searchable={false}
+                onChange={onSelectJoinType}
+              />
+              <PanelLabel>
+                <FormattedMessage
+                  id={isPointDataset ? 'spatialJoin.polygonDataset' : 'spatialJoin.pointDataset'}
+                />
+              </PanelLabel>
+              <ItemSelector
+                selectedItems={otherDatasets.find(({id}) => id === otherDataId) || null}
+                options={otherDatasets}
+                displayOption="label"
+                getOptionValue={option => option}
+                multiSelect={false}
+                searchable={false}
+                placeholder="placeholder.selectDataset"
+                onChange={onSelectDataset}
+              />
+              <PanelLabel>
+                <FormattedMessage
+                  id={isPointDataset ? 'spatialJoin.polygonFields' : 'spatialJoin.pointFields'}
+                />
+              </PanelLabel>
+              <ItemSelector
+                selectedItems={fields}
+                options={fieldOptions}
+                multiSelect
+                searchable
+                placeholder="placeholder.selectField"
+                onChange={items => setFields(items as string[])}
+              />
+              {isPointDataset ? null : (
+                <>
+                  <PanelLabel>
+                    <FormattedMessage id="spatialJoin.aggregations" />
+                  </PanelLabel>
+                  <ItemSelector
+                    selectedItems={aggregations}
+                    options={AGGREGATION_OPTIONS}
+                    multiSelect
+                    searchable={false}
+                    onChange={items => setAggregations(items as string[])}
+                  />
+                </>
+              )}
+              <Button small disabled={!otherDataId} onClick={onJoin}>
+                <FormattedMessage id="spatialJoin.join" />
+              </Button>
+            </>
+          ) : (
+            <PanelLabel>
+              <FormattedMessage id="spatialJoin.noGeometry" />
+            </PanelLabel>
+          )}
+        </StyledConfigPanelContent>
+      </StyledConfigPanel>
+    );
+  };
+
+  return SpatialJoinConfig;
+}
+
+export default SpatialJoinConfigFactory;
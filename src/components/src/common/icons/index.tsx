@@ -66,6 +66,7 @@ export {default as Pin} from './pin';
 export {default as PointerClick} from './pointer-click';
 export {default as Play} from './play';
 export {default as Reduce} from './reduce';
+export {default as Redo} from './redo';
 export {default as Reset} from './reset';
 export {default as Save} from './save';
 export {default as Save2} from './save2';
@@ -76,6 +77,7 @@ export {default as Settings} from './settings';
 export {default as Search} from './search';
 export {default as Split} from './split';
 export {default as Trash} from './trash';
+export {default as Undo} from './undo';
 export {default as VertDots} from './vert-dots';
 export {default as VertThreeDots} from './vert-three-dots';
 export {default as CodeAlt} from './code-alt';
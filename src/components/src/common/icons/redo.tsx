@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {Component} from 'react';
+import Base, {BaseProps} from './base';
+
+export default class Redo extends Component<Partial<BaseProps>> {
+  static defaultProps = {
+    height: '16px',
+    viewBox: '0 0 24 24',
+    predefinedClassName: 'data-ex-icons-redo'
+  };
+
+  render() {
+    return (
+      <Base
+        {...this.props}
+        style={{fill: 'none', stroke: 'currentcolor'}}
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      >
+        <path d="m15 14 5-5-5-5" />
+        <path d="M20 9H9.5a5.5 5.5 0 0 0 0 11H13" />
+      </Base>
+    );
+  }
+}
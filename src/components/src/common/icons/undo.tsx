@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {Component} from 'react';
+import Base, {BaseProps} from './base';
+
+export default class Undo extends Component<Partial<BaseProps>> {
+  static defaultProps = {
+    height: '16px',
+    viewBox: '0 0 24 24',
+    predefinedClassName: 'data-ex-icons-undo'
+  };
+
+  render() {
+    return (
+      <Base
+        {...this.props}
+        style={{fill: 'none', stroke: 'currentcolor'}}
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      >
+        <path d="M9 14 4 9l5-5" />
+        <path d="M4 9h10.5a5.5 5.5 0 0 1 0 11H11" />
+      </Base>
+    );
+  }
+}
@@ -4,9 +4,14 @@
 import {fetch} from 'global';
 import {useEffect, useState} from 'react';
 
-import {PMTilesSource, PMTilesMetadata} from '@loaders.gl/pmtiles';
+import {PMTilesMetadata} from '@loaders.gl/pmtiles';
 
-import {VectorTileMetadata} from '@kepler.gl/table';
+import {
+  COGMetadata,
+  getCOGMetadata,
+  getPMTilesMetadata,
+  VectorTileMetadata
+} from '@kepler.gl/table';
 import {JsonObjectOrArray, StacTypes} from '@kepler.gl/types';
 import {RasterTileType} from '@kepler.gl/constants';
 
@@ -17,7 +22,7 @@ export type FetchJsonProps = {
   rasterTileType: RasterTileType;
   options?: JsonObjectOrArray;
   process: (
-    json: PMTilesMetadata | JsonObjectOrArray,
+    json: PMTilesMetadata | COGMetadata | JsonObjectOrArray,
     options: {metadataUrl: string; rasterTileType: RasterTileType}
   ) => RasterMetadataResponse | Error;
 };
@@ -46,10 +51,12 @@ export default function useFetchJson({
         setLoading(true);
 
         try {
-          let rawMetadata: PMTilesMetadata | JsonObjectOrArray | null = null;
+          let rawMetadata: PMTilesMetadata | COGMetadata | JsonObjectOrArray | null = null;
           if (rasterTileType === RasterTileType.PMTILES) {
-            const tileSource = PMTilesSource.createDataSource(url, {});
-            rawMetadata = await tileSource.metadata;
+            rawMetadata = await getPMTilesMetadata(url);
+          } else if (rasterTileType === RasterTileType.COG) {
+            // read the GeoTIFF header and describe it as a STAC Item
+            rawMetadata = await getCOGMetadata(url);
           } else {
             const response = await fetch(url, options);
             if (!response.ok) {
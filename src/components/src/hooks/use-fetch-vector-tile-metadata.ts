@@ -4,10 +4,15 @@
 import {useEffect, useState} from 'react';
 
 import {TileJSON} from '@loaders.gl/mvt';
-import {PMTilesSource, PMTilesMetadata} from '@loaders.gl/pmtiles';
+import {PMTilesMetadata} from '@loaders.gl/pmtiles';
 
 import {RemoteTileFormat} from '@kepler.gl/constants';
-import {getMVTMetadata, VectorTileMetadata, getFieldsFromTile} from '@kepler.gl/table';
+import {
+  getMVTMetadata,
+  getPMTilesMetadata,
+  VectorTileMetadata,
+  getFieldsFromTile
+} from '@kepler.gl/table';
 
 type FetchVectorTileMetadataProps = {
   metadataUrl: string | null;
@@ -64,8 +69,7 @@ export default function useFetchVectorTileMetadata({
             //   }
             // })
           } else {
-            const tileSource = PMTilesSource.createDataSource(metadataUrl, {});
-            metadata = await tileSource.metadata;
+            metadata = await getPMTilesMetadata(metadataUrl);
           }
 
           // Since we switched to Source.createDataSource detailed response errors aren't available here...
@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import document from 'global/document';
+import {useCallback, useEffect} from 'react';
+import {KeyEvent} from '@kepler.gl/constants';
+
+function isEditableTarget(target): boolean {
+  if (!target) {
+    return false;
+  }
+  const tagName = (target.tagName || '').toLowerCase();
+  return tagName === 'input' || tagName === 'textarea' || Boolean(target.isContentEditable);
+}
+
+/**
+ * Call `onUndo` on Ctrl/Cmd + Z and `onRedo` on Ctrl/Cmd + Shift + Z or Ctrl/Cmd + Y.
+ * Shortcuts are ignored while typing in an input so the browser text undo still works
+ */
+export default function useUndoRedoShortcuts(
+  onUndo: () => void,
+  onRedo: () => void,
+  disabled = false
+): void {
+  const handleKeyDown = useCallback(
+    event => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target)) {
+        return;
+      }
+
+      switch (event.keyCode) {
+        case KeyEvent.DOM_VK_Z:
+          event.preventDefault();
+          if (event.shiftKey) {
+            onRedo();
+          } else {
+            onUndo();
+          }
+          break;
+        case KeyEvent.DOM_VK_Y:
+          event.preventDefault();
+          onRedo();
+          break;
+        default:
+          break;
+      }
+    },
+    [onUndo, onRedo]
+  );
+
+  useEffect(() => {
+    if (disabled) {
+      return;
+    }
+
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [handleKeyDown, disabled]);
+}
@@ -59,6 +59,7 @@ export {Attribution, default as MapContainerFactory} from './map-container';
 export {default as MapsLayoutFactory} from './maps-layout';
 export {default as ModalContainerFactory} from './modal-container';
 export {default as PlotContainerFactory} from './plot-container';
+export {default as VideoPlotContainerFactory} from './video-plot-container';
 export {default as SidePanelFactory} from './side-panel';
 export {default as PanelTitleFactory} from './side-panel/panel-title';
 
@@ -74,6 +75,10 @@ export {default as PanelHeaderActionFactory} from './side-panel/panel-header-act
 export {default as PanelTabFactory} from './side-panel/panel-tab';
 export {default as PanelToggleFactory} from './side-panel/panel-toggle';
 export {CollapseButtonFactory, default as SidebarFactory} from './side-panel/side-bar';
+export {default as BivariateColorSelectorFactory} from './side-panel/layer-panel/bivariate-color-selector';
+export {default as FieldColorsSelectorFactory} from './side-panel/layer-panel/field-colors-selector';
+export {default as LayerBlendModeConfigFactory} from './side-panel/layer-panel/layer-blend-mode-config';
+export {default as VectorTileTableJoinConfigFactory} from './side-panel/layer-panel/vector-tile-table-join-config';
 export {default as ColorScaleSelectorFactory} from './side-panel/layer-panel/color-scale-selector';
 
 export {LayerBlendingSelector, default as LayerManagerFactory} from './side-panel/layer-manager';
@@ -133,6 +138,7 @@ export {default as SourceDataSelectorFactory} from './side-panel/common/source-d
 export {default as FilterManagerFactory} from './side-panel/filter-manager';
 export {default as AddFilterButtonFactory} from './side-panel/filter-panel/add-filter-button';
 export {default as FilterPanelFactory} from './side-panel/filter-panel/filter-panel';
+export {default as FilterGroupPanelFactory} from './side-panel/filter-panel/filter-group-panel';
 
 export {default as InteractionManagerFactory} from './side-panel/interaction-manager';
 export {default as BrushConfigFactory} from './side-panel/interaction-panel/brush-config';
@@ -157,6 +163,7 @@ export {default as MapControlToolbarFactory} from './map/map-control-toolbar';
 export {default as MapControlTooltipFactory} from './map/map-control-tooltip';
 export {default as MapDrawPanelFactory} from './map/map-draw-panel';
 export {
+  FieldColorLegendFactory,
   LayerColorLegendFactory,
   LayerDefaultLegend,
   LayerLegendContentFactory,
@@ -183,6 +190,7 @@ export {
 export {default as DeleteDatasetModalFactory} from './modals/delete-data-modal';
 export {default as ExportDataModalFactory} from './modals/export-data-modal';
 export {default as ExportImageModalFactory} from './modals/export-image-modal';
+export {default as ExportVideoModalFactory} from './modals/export-video-modal';
 export {default as ExportHtmlMapFactory} from './modals/export-map-modal/export-html-map';
 export {default as ExportJsonMapFactory} from './modals/export-map-modal/export-json-map';
 export {default as ExportMapModalFactory} from './modals/export-map-modal/export-map-modal';
@@ -269,12 +277,15 @@ export {
   LegendRowFactory,
   ResetColorLabelFactory
 } from './common/color-legend';
+export {default as BivariateColorLegendFactory} from './common/bivariate-color-legend';
 export {default as CanvasHack} from './common/data-table/canvas';
 export {renderedSize} from './common/data-table/cell-size';
 export {
   default as DataTableConfigFactory,
   NumberFormatConfig
 } from './common/data-table/display-format';
+export {default as DerivedFieldConfigFactory} from './common/data-table/derived-field-config';
+export {default as SpatialJoinConfigFactory} from './common/data-table/spatial-join-config';
 export {default as HeaderCellFactory} from './common/data-table/header-cell';
 export {FormatterDropdown, default as OptionDropdown} from './common/data-table/option-dropdown';
 export {default as DatasetLabel} from './common/dataset-label';
@@ -496,3 +507,4 @@ export {default as useDndEffects} from './hooks/use-dnd-effects';
 export {default as useDndLayers} from './hooks/use-dnd-layers';
 export {default as useFeatureFlags} from './hooks/use-feature-flags';
 export {default as useLegendPosition} from './hooks/use-legend-position';
+export {default as useUndoRedoShortcuts} from './hooks/use-undo-redo-shortcuts';
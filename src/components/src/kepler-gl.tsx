@@ -54,6 +54,7 @@ import MapsLayoutFactory from './maps-layout';
 import BottomWidgetFactory from './bottom-widget';
 import ModalContainerFactory from './modal-container';
 import PlotContainerFactory from './plot-container';
+import VideoPlotContainerFactory from './video-plot-container';
 import NotificationPanelFactory from './notification-panel';
 import GeoCoderPanelFactory from './geocoder-panel';
 import EffectManagerFactory from './effects/effect-manager';
@@ -207,6 +208,7 @@ export const sidePanelSelector = (props: KeplerGLProps, availableProviders, filt
 
   datasets: filteredDatasets,
   filters: props.visState.filters,
+  filterGroups: props.visState.filterGroups,
   layers: props.visState.layers,
   layerOrder: props.visState.layerOrder,
   layerClasses: props.visState.layerClasses,
@@ -214,6 +216,7 @@ export const sidePanelSelector = (props: KeplerGLProps, availableProviders, filt
   mapInfo: props.visState.mapInfo,
   layerBlending: props.visState.layerBlending,
   overlayBlending: props.visState.overlayBlending,
+  undoHistory: props.visState.undoHistory,
 
   width: props.sidePanelWidth ? props.sidePanelWidth : DEFAULT_KEPLER_GL_PROPS.width,
   availableProviders,
@@ -232,6 +235,19 @@ export const plotContainerSelector = (props: KeplerGLProps) => ({
   splitMaps: props.visState.splitMaps
 });
 
+export const videoPlotContainerSelector = (props: KeplerGLProps) => ({
+  appName: props.appName ? props.appName : DEFAULT_KEPLER_GL_PROPS.appName,
+  exportVideoSetting: props.uiState.exportVideo,
+  mapFields: mapFieldsSelector(props),
+  addNotification: props.uiStateActions.addNotification,
+  setExportVideoSetting: props.uiStateActions.setExportVideoSetting,
+  cleanupExportVideo: props.uiStateActions.cleanupExportVideo,
+  setFilterAnimationTime: props.visStateActions.setFilterAnimationTime,
+  setLayerAnimationTime: props.visStateActions.setLayerAnimationTime,
+  toggleModal: props.uiStateActions.toggleModal,
+  splitMaps: props.visState.splitMaps
+});
+
 export const isSplitSelector = (props: KeplerGLProps) =>
   props.visState.splitMaps && props.visState.splitMaps.length > 1;
 
@@ -414,6 +430,7 @@ KeplerGlFactory.deps = [
   ModalContainerFactory,
   SidePanelFactory,
   PlotContainerFactory,
+  VideoPlotContainerFactory,
   NotificationPanelFactory,
   DndContextFactory,
   EffectManagerFactory
@@ -427,6 +444,7 @@ function KeplerGlFactory(
   ModalContainer: ReturnType<typeof ModalContainerFactory>,
   SidePanel: ReturnType<typeof SidePanelFactory>,
   PlotContainer: ReturnType<typeof PlotContainerFactory>,
+  VideoPlotContainer: ReturnType<typeof VideoPlotContainerFactory>,
   NotificationPanel: ReturnType<typeof NotificationPanelFactory>,
   DndContext: ReturnType<typeof DndContextFactory>
 ): React.ComponentType<KeplerGLBasicProps & {selector: (...args: any[]) => KeplerGlState}> {
@@ -560,11 +578,13 @@ function KeplerGlFactory(
       const theme = this.availableThemeSelector(this.props);
       const localeMessages = this.localeMessagesSelector(this.props);
       const isExportingImage = uiState.exportImage.exporting;
+      const isExportingVideo = uiState.exportVideo.exporting;
       const availableProviders = this.availableProviders(this.props);
 
       const filteredDatasets = this.filteredDatasetsSelector(this.props);
       const sideFields = sidePanelSelector(this.props, availableProviders, filteredDatasets);
       const plotContainerFields = plotContainerSelector(this.props);
+      const videoPlotContainerFields = videoPlotContainerSelector(this.props);
       const bottomWidgetFields = bottomWidgetSelector(this.props, theme);
       const modalContainerFields = modalContainerSelector(this.props, this.root.current);
       const geoCoderPanelFields = geoCoderPanelSelector(this.props, dimensions);
@@ -619,6 +639,7 @@ function KeplerGlFactory(
                         </MapsLayout>
                       </DndContext>
                       {isExportingImage && <PlotContainer {...plotContainerFields} />}
+                      {isExportingVideo && <VideoPlotContainer {...videoPlotContainerFields} />}
                       {/* 1 geocoder: single mode OR split mode and synced viewports */}
                       {!isViewportDisjointed(this.props) && interactionConfig.geocoder.enabled && (
                         <GeoCoderPanel
@@ -522,6 +522,10 @@ export default function MapContainerFactory(
       } as Partial<LayerBaseConfig>);
     };
 
+    _onLayerTileStatsChange = (idx: number) => {
+      this.props.visStateActions.layerTileStatsChange(this.props.visState.layers[idx]);
+    };
+
     _onLayerFilteredItemsChange = (idx, event) => {
       this.props.visStateActions.layerFilteredItemsChange(this.props.visState.layers[idx], event);
     };
@@ -823,6 +827,7 @@ export default function MapContainerFactory(
         {
           onLayerHover: this._onLayerHover,
           onSetLayerDomain: this._onLayerSetDomain,
+          onTileStatsChange: this._onLayerTileStatsChange,
           onFilteredItemsChange: this._onLayerFilteredItemsChange
         },
         deckGlProps
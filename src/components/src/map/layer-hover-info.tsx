@@ -3,13 +3,15 @@
 
 import React, {useMemo} from 'react';
 import styled from 'styled-components';
+import {rgb} from 'd3-color';
 import {CompareType, Field, Merge, TooltipField} from '@kepler.gl/types';
 import {CenterFlexbox} from '../common/styled-components';
 import {Layers} from '../common/icons';
 import PropTypes from 'prop-types';
 import {notNullorUndefined} from '@kepler.gl/common-utils';
-import {DataRow} from '@kepler.gl/utils';
-import {Layer} from '@kepler.gl/layers';
+import {DataRow, formatNumber} from '@kepler.gl/utils';
+import {LAYER_TYPES} from '@kepler.gl/constants';
+import {Layer, getGlyphSlices} from '@kepler.gl/layers';
 import {
   AggregationLayerHoverData,
   LayerHoverProp,
@@ -59,6 +61,13 @@ const StyledDivider = styled.div`
   border-bottom: 1px solid ${props => props.theme.panelBorderColor};
 `;
 
+const StyledSwatch = styled.span`
+  display: inline-block;
+  width: 8px;
+  height: 8px;
+  margin-right: 6px;
+`;
+
 interface RowProps {
   name: string;
   value: string;
@@ -226,6 +235,42 @@ const CellInfo = ({
   );
 };
 
+type GlyphInfoProps = {
+  data: LayerHoverProp['data'];
+  fields: Field[];
+  layer: Layer;
+};
+
+/**
+ * Value and share of each slice of a glyph
+ */
+const GlyphInfo: React.FC<GlyphInfoProps> = ({data, fields, layer}) => {
+  const {glyphFields = []} = layer.config.visConfig;
+  const slices = useMemo(() => {
+    const values = glyphFields.map(({name}) => {
+      const fieldIdx = fields.findIndex(f => f.name === name);
+      return fieldIdx > -1 && data instanceof DataRow ? data.valueAt(fieldIdx) : null;
+    });
+    return getGlyphSlices(glyphFields, values);
+  }, [glyphFields, fields, data]);
+
+  return (
+    <tbody>
+      {slices.map(({name, color, value, share}) => (
+        <tr className="layer-hover-info__row" key={name}>
+          <td className="row__name">
+            <StyledSwatch style={{backgroundColor: rgb(...color).toString()}} />
+            {name}
+          </td>
+          <td className="row__value">
+            {value === null ? '-' : `${formatNumber(value)} (${(share * 100).toFixed(1)}%)`}
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  );
+};
+
 const LayerHoverInfoFactory = () => {
   const LayerHoverInfo = props => {
     const {data, layer} = props;
@@ -248,8 +293,8 @@ const LayerHoverInfoFactory = () => {
         <StyledTable>
           {data.fieldValues ? (
             <tbody>
-              {data.fieldValues.map(({labelMessage, value}, i) => (
-                <Row key={i} name={intl.formatMessage({id: labelMessage})} value={value} />
+              {data.fieldValues.map(({label, labelMessage, value}, i) => (
+                <Row key={i} name={label ?? intl.formatMessage({id: labelMessage})} value={value} />
               ))}
             </tbody>
           ) : props.layer.isAggregated ? (
@@ -258,6 +303,14 @@ const LayerHoverInfoFactory = () => {
             <EntryInfo {...props} />
           )}
         </StyledTable>
+        {props.layer.type === LAYER_TYPES.glyph && !data.fieldValues ? (
+          <>
+            <StyledDivider />
+            <StyledTable>
+              <GlyphInfo data={data} fields={props.fields} layer={props.layer} />
+            </StyledTable>
+          </>
+        ) : null}
         {hasFieldsToShow && <StyledDivider />}
       </div>
     );
@@ -7,11 +7,13 @@ import {rgb} from 'd3-color';
 import {format as d3Format} from 'd3-format';
 import {useIntl} from 'react-intl';
 import ColorLegendFactory, {LegendRowFactory} from '../common/color-legend';
+import BivariateColorLegendFactory from '../common/bivariate-color-legend';
 import RadiusLegend from '../common/radius-legend';
-import {CHANNEL_SCALES, DIMENSIONS} from '@kepler.gl/constants';
+import {CHANNEL_SCALES, DIMENSIONS, LAYER_TYPES} from '@kepler.gl/constants';
 import {FormattedMessage} from '@kepler.gl/localization';
 import {Layer, LayerBaseConfig, VisualChannel, VisualChannelDescription} from '@kepler.gl/layers';
-import {LayerVisConfig, MapState, RGBColor} from '@kepler.gl/types';
+import {FieldColor, LayerVisConfig, MapState, RGBColor} from '@kepler.gl/types';
+import {formatNumber} from '@kepler.gl/utils';
 import {getDistanceScales} from 'viewport-mercator-project';
 import {ArrowDown, ArrowRight} from '../common/icons';
 import PanelHeaderActionFactory from '../side-panel/panel-header-action';
@@ -120,6 +122,46 @@ export function SingleColorLegendFactory(LegendRow: ReturnType<typeof LegendRowF
   return React.memo(SingleColorLegend);
 }
 
+export type DotValueLegendProps = {
+  layer: Layer;
+};
+
+export const DotValueLegend: React.FC<DotValueLegendProps> = ({layer}) => {
+  // dots per unit is lowered when there are too many dots
+  const unit = layer.meta.dotsPerUnit ?? layer.config.visConfig.dotsPerUnit;
+  return unit > 0 ? (
+    <div className="legend--layer_by">
+      <FormattedMessage
+        id="mapLegend.layers.dotDensity.dotValue"
+        values={{value: formatNumber(1 / unit)}}
+      />
+    </div>
+  ) : null;
+};
+
+export type FieldColorLegendProps = {
+  fieldColors: FieldColor[];
+};
+
+FieldColorLegendFactory.deps = [LegendRowFactory];
+
+/**
+ * Legend of a layer colored by several fields, e.g. dot density or glyph layers
+ */
+export function FieldColorLegendFactory(LegendRow: ReturnType<typeof LegendRowFactory>) {
+  const FieldColorLegend: React.FC<FieldColorLegendProps> = ({fieldColors}) => (
+    <div className="legend--layer_color-legend">
+      {fieldColors.map(({name, color}) => (
+        <LegendRow key={name} label={name} displayLabel color={rgb(...color).toString()} />
+      ))}
+    </div>
+  );
+
+  FieldColorLegend.displayName = 'FieldColorLegend';
+
+  return React.memo(FieldColorLegend);
+}
+
 export type LayerColorLegendProps = {
   description: VisualChannelDescription;
   config: LayerBaseConfig;
@@ -135,12 +177,14 @@ export type LayerColorLegendProps = {
 LayerColorLegendFactory.deps = [
   ColorLegendFactory,
   SingleColorLegendFactory,
-  PanelHeaderActionFactory
+  PanelHeaderActionFactory,
+  BivariateColorLegendFactory
 ];
 export function LayerColorLegendFactory(
   ColorLegend: ReturnType<typeof ColorLegendFactory>,
   SingleColorLegend: ReturnType<typeof SingleColorLegendFactory>,
-  PanelHeaderAction: ReturnType<typeof PanelHeaderActionFactory>
+  PanelHeaderAction: ReturnType<typeof PanelHeaderActionFactory>,
+  BivariateColorLegend: ReturnType<typeof BivariateColorLegendFactory>
 ) {
   const LayerColorLegend: React.FC<LayerColorLegendProps> = ({
     description,
@@ -158,6 +202,8 @@ export function LayerColorLegendFactory(
     const {scale, field, domain, range, property, fixed} = colorChannel;
     const [colorScale, colorField, colorDomain] = [scale, field, domain].map(k => config[k]);
     const isFixed = fixed && config.visConfig[fixed];
+    const bivariateField = colorChannel.bivariate && config[colorChannel.bivariate.field];
+    const isBivariate = Boolean(bivariateField) && layer.isBivariateChannel(colorChannel);
 
     const colorRange = config.visConfig[range];
     const onUpdateColorLegend = useCallback(
@@ -192,7 +238,15 @@ export function LayerColorLegendFactory(
               </div>
             ) : null}
             <div className="legend--layer_color-legend">
-              {enableColorBy ? (
+              {enableColorBy && isBivariate && colorChannel.bivariate ? (
+                <BivariateColorLegend
+                  range={colorRange}
+                  domain={colorDomain}
+                  domain2={config[colorChannel.bivariate.domain]}
+                  fieldName={colorField.displayName || colorField.name}
+                  fieldName2={bivariateField.displayName || bivariateField.name}
+                />
+              ) : enableColorBy ? (
                 <ColorLegend
                   layer={layer}
                   isExpanded={isExpanded}
@@ -329,10 +383,11 @@ export type LayerLegendContentProps = {
   actionIcons: MapLegendIcons;
 };
 
-LayerLegendContentFactory.deps = [LayerColorLegendFactory];
+LayerLegendContentFactory.deps = [LayerColorLegendFactory, FieldColorLegendFactory];
 
 export function LayerLegendContentFactory(
-  LayerColorLegend: ReturnType<typeof LayerColorLegendFactory>
+  LayerColorLegend: ReturnType<typeof LayerColorLegendFactory>,
+  FieldColorLegend: ReturnType<typeof FieldColorLegendFactory>
 ) {
   const LayerLegendContent: React.FC<LayerLegendContentProps> = ({
     layer,
@@ -343,6 +398,9 @@ export function LayerLegendContentFactory(
     onLayerVisConfigChange,
     actionIcons
   }) => {
+    const fieldColorsProperty = Object.keys(layer.visConfigSettings).find(
+      key => layer.visConfigSettings[key]?.type === 'field-colors'
+    );
     const visualChannels = layer.getLegendVisualChannels();
     const channelKeys = Object.values(visualChannels);
     const colorChannels = channelKeys.filter(isColorChannel) as VisualChannel[];
@@ -363,6 +421,10 @@ export function LayerLegendContentFactory(
     }
     return (
       <>
+        {layer.type === LAYER_TYPES.dotDensity ? <DotValueLegend layer={layer} /> : null}
+        {fieldColorsProperty ? (
+          <FieldColorLegend fieldColors={layer.config.visConfig[fieldColorsProperty] || []} />
+        ) : null}
         {colorChannelToRender.map(colorChannel => (
           <LayerColorLegend
             key={colorChannel.key}
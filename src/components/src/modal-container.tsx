@@ -14,7 +14,14 @@ import {
   MapStyle,
   ProviderState
 } from '@kepler.gl/reducers';
-import {exportHtml, exportMap, exportJson, exportImage} from '@kepler.gl/utils';
+import {
+  errorNotification,
+  exportHtml,
+  exportMap,
+  exportJson,
+  exportImage,
+  exportImageError
+} from '@kepler.gl/utils';
 
 import ModalDialogFactory from './modals/modal-dialog';
 
@@ -24,6 +31,7 @@ import OverWriteMapModalFactory from './modals/overwrite-map-modal';
 import DataTableModalFactory from './modals/data-table-modal';
 import LoadDataModalFactory from './modals/load-data-modal';
 import ExportImageModalFactory from './modals/export-image-modal';
+import ExportVideoModalFactory from './modals/export-video-modal';
 import ExportDataModalFactory from './modals/export-data-modal';
 import ExportMapModalFactory from './modals/export-map-modal/export-map-modal';
 import AddMapStyleModalFactory from './modals/add-map-style-modal';
@@ -43,6 +51,8 @@ import {
   DELETE_DATA_ID,
   EXPORT_DATA_ID,
   EXPORT_IMAGE_ID,
+  EXPORT_IMG_FORMAT_OPTIONS,
+  EXPORT_VIDEO_ID,
   EXPORT_MAP_ID,
   ADD_MAP_STYLE_ID,
   SAVE_MAP_ID,
@@ -118,6 +128,7 @@ ModalContainerFactory.deps = [
   DataTableModalFactory,
   LoadDataModalFactory,
   ExportImageModalFactory,
+  ExportVideoModalFactory,
   ExportDataModalFactory,
   ExportMapModalFactory,
   AddMapStyleModalFactory,
@@ -132,6 +143,7 @@ export default function ModalContainerFactory(
   DataTableModal: ReturnType<typeof DataTableModalFactory>,
   LoadDataModal: ReturnType<typeof LoadDataModalFactory>,
   ExportImageModal: ReturnType<typeof ExportImageModalFactory>,
+  ExportVideoModal: ReturnType<typeof ExportVideoModalFactory>,
   ExportDataModal: ReturnType<typeof ExportDataModalFactory>,
   ExportMapModal: ReturnType<typeof ExportMapModalFactory>,
   AddMapStyleModal: ReturnType<typeof AddMapStyleModalFactory>,
@@ -203,14 +215,37 @@ export default function ModalContainerFactory(
 
     _onExportImage = () => {
       if (!this.props.uiState.exportImage.processing) {
-        exportImage(this.props.uiState.exportImage, `${this.props.appName}.png`);
+        const {format} = this.props.uiState.exportImage;
+        const extension =
+          EXPORT_IMG_FORMAT_OPTIONS.find(op => op.id === format)?.extension || 'png';
+        exportImage(this.props.uiState.exportImage, `${this.props.appName}.${extension}`, err =>
+          this.props.uiStateActions.addNotification(exportImageError({err}))
+        );
         this.props.uiStateActions.cleanupExportImage();
         this._closeModal();
       }
     };
 
+    _onExportVideo = () => {
+      if (!this.props.uiState.exportVideo.exporting) {
+        // attach the video plot container, modal is closed when the video is downloaded
+        this.props.uiStateActions.setExportVideoSetting({
+          exporting: true,
+          progress: 0,
+          error: false
+        });
+      }
+    };
+
     _onExportData = () => {
-      exportData(this.props, this.props.uiState.exportData);
+      exportData(this.props, this.props.uiState.exportData, err =>
+        this.props.uiStateActions.addNotification(
+          errorNotification({
+            message: `Failed to export data: ${err?.message || err}`,
+            id: 'export-data-error'
+          })
+        )
+      );
       this._closeModal();
     };
 
@@ -313,6 +348,9 @@ export default function ModalContainerFactory(
                 pinTableColumn={visStateActions.pinTableColumn}
                 copyTableColumn={visStateActions.copyTableColumn}
                 setColumnDisplayFormat={visStateActions.setColumnDisplayFormat}
+                addDerivedField={visStateActions.addDerivedField}
+                removeDerivedField={visStateActions.removeDerivedField}
+                spatialJoin={visStateActions.spatialJoin}
                 uiStateActions={uiStateActions}
                 uiState={uiState}
               />
@@ -394,6 +432,31 @@ export default function ModalContainerFactory(
               }
             };
             break;
+          case EXPORT_VIDEO_ID:
+            template = (
+              <ExportVideoModal
+                exportVideo={uiState.exportVideo}
+                filters={visState.filters}
+                animationConfig={visState.animationConfig}
+                mapW={containerW}
+                mapH={containerH}
+                onUpdateVideoSetting={uiStateActions.setExportVideoSetting}
+                cleanupExportVideo={uiStateActions.cleanupExportVideo}
+              />
+            );
+            modalProps = {
+              title: 'modal.title.exportVideo',
+              cssStyle: '',
+              footer: true,
+              onCancel: this._closeModal,
+              onConfirm: this._onExportVideo,
+              confirmButton: {
+                large: true,
+                disabled: uiState.exportVideo.exporting,
+                children: 'modal.button.download'
+              }
+            };
+            break;
           case EXPORT_DATA_ID:
             template = (
               <ExportDataModal
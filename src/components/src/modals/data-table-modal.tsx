@@ -10,10 +10,12 @@ import {renderedSize} from '../common/data-table/cell-size';
 import CanvasHack from '../common/data-table/canvas';
 import KeplerTable, {Datasets} from '@kepler.gl/table';
 import {UIStateActions} from '@kepler.gl/actions';
-import {UiState} from '@kepler.gl/types';
-import {Gear} from '../common/icons';
+import {SpatialJoinOptions, UiState} from '@kepler.gl/types';
+import {Add, Gear, Polygon} from '../common/icons';
 import Portaled from '../common/portaled';
 import DataTableConfigFactory from '../common/data-table/display-format';
+import DerivedFieldConfigFactory from '../common/data-table/derived-field-config';
+import SpatialJoinConfigFactory from '../common/data-table/spatial-join-config';
 import {BaseComponentProps} from '../types';
 
 const MIN_STATS_CELL_SIZE = 122;
@@ -78,6 +80,14 @@ const StyledConfigureButton = styled.div`
   cursor: pointer;
 `;
 
+const StyledDerivedFieldButton = styled(StyledConfigureButton)`
+  right: 76px;
+`;
+
+const StyledSpatialJoinButton = styled(StyledConfigureButton)`
+  right: 104px;
+`;
+
 interface DatasetTabsUnmemoizedProps {
   activeDataset: KeplerTable;
   datasets: Datasets;
@@ -109,7 +119,12 @@ export const DatasetTabs = React.memo(DatasetTabsUnmemoized);
 
 DatasetTabs.displayName = 'DatasetTabs';
 
-DataTableModalFactory.deps = [DataTableFactory, DataTableConfigFactory];
+DataTableModalFactory.deps = [
+  DataTableFactory,
+  DataTableConfigFactory,
+  DerivedFieldConfigFactory,
+  SpatialJoinConfigFactory
+];
 
 const TableContainer = styled.div`
   display: flex;
@@ -136,17 +151,24 @@ interface DataTableModalProps {
       displayFormat: string;
     }
   ) => void;
+  addDerivedField?: (dataId: string, name: string, expression: string) => void;
+  removeDerivedField?: (dataId: string, name: string) => void;
+  spatialJoin?: (pointDataId: string, polygonDataId: string, options: SpatialJoinOptions) => void;
   uiStateActions: typeof UIStateActions;
   uiState: UiState;
 }
 
 function DataTableModalFactory(
   DataTable: ReturnType<typeof DataTableFactory>,
-  DataTableConfig: ReturnType<typeof DataTableConfigFactory>
+  DataTableConfig: ReturnType<typeof DataTableConfigFactory>,
+  DerivedFieldConfig: ReturnType<typeof DerivedFieldConfigFactory>,
+  SpatialJoinConfig: ReturnType<typeof SpatialJoinConfigFactory>
 ): React.ComponentType<Omit<DataTableModalProps, 'theme'>> {
   class DataTableModal extends React.Component<DataTableModalProps> {
     state = {
-      showConfig: false
+      showConfig: false,
+      showDerivedFieldConfig: false,
+      showSpatialJoinConfig: false
     };
 
     datasetCellSizeCache = {};
@@ -236,6 +258,32 @@ function DataTableModalFactory(
       if (dataId) setColumnDisplayFormat(dataId, formats);
     };
 
+    addDerivedField = (name: string, expression: string) => {
+      const {dataId, addDerivedField} = this.props;
+      if (dataId && addDerivedField) addDerivedField(dataId, name, expression);
+    };
+
+    removeDerivedField = (name: string) => {
+      const {dataId, removeDerivedField} = this.props;
+      if (dataId && removeDerivedField) removeDerivedField(dataId, name);
+    };
+
+    onOpenDerivedFieldConfig = () => {
+      this.setState({showDerivedFieldConfig: true});
+    };
+
+    onCloseDerivedFieldConfig = () => {
+      this.setState({showDerivedFieldConfig: false});
+    };
+
+    onOpenSpatialJoinConfig = () => {
+      this.setState({showSpatialJoinConfig: true});
+    };
+
+    onCloseSpatialJoinConfig = () => {
+      this.setState({showSpatialJoinConfig: false});
+    };
+
     onOpenConfig = () => {
       this.setState({showConfig: true});
     };
@@ -281,6 +329,41 @@ function DataTableModalFactory(
                 />
               </Portaled>
             </StyledConfigureButton>
+            {this.props.addDerivedField && activeDataset ? (
+              <StyledDerivedFieldButton className="derived-field-button">
+                <Add onClick={this.onOpenDerivedFieldConfig} />
+                <Portaled
+                  right={240}
+                  top={20}
+                  isOpened={this.state.showDerivedFieldConfig}
+                  onClose={this.onCloseDerivedFieldConfig}
+                >
+                  <DerivedFieldConfig
+                    fields={activeDataset.fields}
+                    addDerivedField={this.addDerivedField}
+                    removeDerivedField={this.removeDerivedField}
+                  />
+                </Portaled>
+              </StyledDerivedFieldButton>
+            ) : null}
+            {this.props.spatialJoin && activeDataset ? (
+              <StyledSpatialJoinButton className="spatial-join-button">
+                <Polygon onClick={this.onOpenSpatialJoinConfig} />
+                <Portaled
+                  right={240}
+                  top={20}
+                  isOpened={this.state.showSpatialJoinConfig}
+                  onClose={this.onCloseSpatialJoinConfig}
+                >
+                  <SpatialJoinConfig
+                    key={dataId}
+                    dataset={activeDataset}
+                    datasets={datasets}
+                    spatialJoin={this.props.spatialJoin}
+                  />
+                </Portaled>
+              </StyledSpatialJoinButton>
+            ) : null}
             {datasets[dataId] ? (
               <DataTable
                 key={dataId}
@@ -7,6 +7,8 @@ import ImagePreview from '../common/image-preview';
 import {SetExportImageSettingUpdaterAction} from '@kepler.gl/actions';
 
 import {
+  EXPORT_IMG_FORMAT_OPTIONS,
+  EXPORT_IMG_FORMATS,
   EXPORT_IMG_RATIO_OPTIONS,
   EXPORT_IMG_RESOLUTION_OPTIONS,
   ExportImage
@@ -59,7 +61,7 @@ const ExportImageModalFactory = () => {
     cleanupExportImage,
     intl
   }) => {
-    const {legend, ratio, resolution} = exportImage;
+    const {legend, ratio, resolution, format = EXPORT_IMG_FORMATS.PNG} = exportImage;
 
     useEffect(() => {
       onUpdateImageSetting({
@@ -80,6 +82,24 @@ const ExportImageModalFactory = () => {
     return (
       <StyledModalContent className="export-image-modal">
         <ImageOptionList>
+          <div className="image-option-section">
+            <div className="image-option-section-title">
+              <FormattedMessage id={'modal.exportImage.formatTitle'} />
+            </div>
+            <FormattedMessage id={'modal.exportImage.formatDescription'} />
+            <div className="button-list" id="export-image-modal__option_format">
+              {EXPORT_IMG_FORMAT_OPTIONS.map(op => (
+                <SelectionButton
+                  key={op.id}
+                  selected={format === op.id}
+                  onClick={() => onUpdateImageSetting({format: op.id})}
+                >
+                  {op.label}
+                  {format === op.id && <CheckMark />}
+                </SelectionButton>
+              ))}
+            </div>
+          </div>
           <div className="image-option-section">
             <div className="image-option-section-title">
               <FormattedMessage id={'modal.exportImage.ratioTitle'} />
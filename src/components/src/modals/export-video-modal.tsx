@@ -0,0 +1,250 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {useEffect, useMemo} from 'react';
+import styled, {withTheme} from 'styled-components';
+import {SetExportVideoSettingUpdaterAction} from '@kepler.gl/actions';
+
+import {
+  EXPORT_IMG_RATIO_OPTIONS,
+  EXPORT_IMG_RESOLUTION_OPTIONS,
+  EXPORT_VIDEO_DURATION_OPTIONS,
+  EXPORT_VIDEO_FORMAT_OPTIONS,
+  EXPORT_VIDEO_FRAME_RATE_OPTIONS,
+  EXPORT_VIDEO_SOURCES,
+  ExportVideo
+} from '@kepler.gl/constants';
+import {AnimationConfig, Filter} from '@kepler.gl/types';
+import {getVideoAnimationFilters, isVideoExportSupported} from '@kepler.gl/utils';
+
+import {StyledModalContent, SelectionButton, CheckMark} from '../common/styled-components';
+import ProgressBar from '../common/progress-bar';
+import {FormattedMessage} from '@kepler.gl/localization';
+
+const VideoOptionList = styled.div`
+  display: flex;
+  flex-direction: column;
+  justify-content: space-around;
+  width: 100%;
+
+  .video-option-section {
+    margin-bottom: 12px;
+
+    .video-option-section-title {
+      font-weight: 500;
+      font-size: 14px;
+    }
+  }
+
+  .button-list {
+    display: flex;
+    flex-direction: row;
+    flex-wrap: wrap;
+    padding: 8px 0px;
+  }
+
+  .video-option-error {
+    color: ${props => props.theme.errorColor};
+  }
+`;
+
+export interface ExportVideoModalProps {
+  exportVideo: ExportVideo;
+  filters: Filter[];
+  animationConfig: AnimationConfig;
+  mapW: number;
+  mapH: number;
+  onUpdateVideoSetting: (payload: SetExportVideoSettingUpdaterAction['payload']) => void;
+  cleanupExportVideo: () => void;
+  theme: any;
+}
+
+const ExportVideoModalFactory = () => {
+  const ExportVideoModal: React.FC<ExportVideoModalProps> = ({
+    mapW,
+    mapH,
+    exportVideo,
+    filters,
+    animationConfig,
+    onUpdateVideoSetting,
+    cleanupExportVideo,
+    theme
+  }) => {
+    const {format, source, filterId, ratio, resolution, frameRate, duration, exporting} =
+      exportVideo;
+
+    const timeFilters = useMemo(() => getVideoAnimationFilters(filters), [filters]);
+    const sourceOptions = useMemo(
+      () => [
+        ...timeFilters.map(f => ({
+          id: f.id,
+          source: EXPORT_VIDEO_SOURCES.FILTER,
+          label: f.name.join(', ')
+        })),
+        ...(animationConfig.domain
+          ? [{id: 'layer', source: EXPORT_VIDEO_SOURCES.LAYER, label: 'modal.exportVideo.layer'}]
+          : [])
+      ],
+      [timeFilters, animationConfig.domain]
+    );
+
+    useEffect(() => cleanupExportVideo, [cleanupExportVideo]);
+
+    useEffect(() => {
+      if (mapH !== exportVideo.mapH || mapW !== exportVideo.mapW) {
+        onUpdateVideoSetting({
+          mapH,
+          mapW
+        });
+      }
+    }, [mapH, mapW, exportVideo, onUpdateVideoSetting]);
+
+    const isSelectedSource = op =>
+      op.source === source &&
+      (op.source === EXPORT_VIDEO_SOURCES.LAYER || (filterId || timeFilters[0]?.id) === op.id);
+
+    return (
+      <StyledModalContent className="export-video-modal">
+        <VideoOptionList>
+          <div className="video-option-section">
+            <div className="video-option-section-title">
+              <FormattedMessage id={'modal.exportVideo.sourceTitle'} />
+            </div>
+            <FormattedMessage id={'modal.exportVideo.sourceDescription'} />
+            <div className="button-list" id="export-video-modal__option_source">
+              {sourceOptions.length ? (
+                sourceOptions.map(op => (
+                  <SelectionButton
+                    key={op.id}
+                    selected={isSelectedSource(op)}
+                    onClick={() =>
+                      onUpdateVideoSetting({
+                        source: op.source,
+                        filterId: op.source === EXPORT_VIDEO_SOURCES.FILTER ? op.id : null
+                      })
+                    }
+                  >
+                    {op.source === EXPORT_VIDEO_SOURCES.LAYER ? (
+                      <FormattedMessage id={op.label} />
+                    ) : (
+                      op.label
+                    )}
+                    {isSelectedSource(op) && <CheckMark />}
+                  </SelectionButton>
+                ))
+              ) : (
+                <div className="video-option-error">
+                  <FormattedMessage id={'modal.exportVideo.noAnimation'} />
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="video-option-section">
+            <div className="video-option-section-title">
+              <FormattedMessage id={'modal.exportVideo.formatTitle'} />
+            </div>
+            <div className="button-list" id="export-video-modal__option_format">
+              {EXPORT_VIDEO_FORMAT_OPTIONS.map(op => (
+                <SelectionButton
+                  key={op.id}
+                  selected={format === op.id}
+                  onClick={() =>
+                    isVideoExportSupported(op.id) && onUpdateVideoSetting({format: op.id})
+                  }
+                >
+                  {op.label}
+                  {format === op.id && <CheckMark />}
+                </SelectionButton>
+              ))}
+            </div>
+          </div>
+          <div className="video-option-section">
+            <div className="video-option-section-title">
+              <FormattedMessage id={'modal.exportImage.ratioTitle'} />
+            </div>
+            <div className="button-list" id="export-video-modal__option_ratio">
+              {EXPORT_IMG_RATIO_OPTIONS.filter(op => !op.hidden).map(op => (
+                <SelectionButton
+                  key={op.id}
+                  selected={ratio === op.id}
+                  onClick={() => onUpdateVideoSetting({ratio: op.id})}
+                >
+                  <FormattedMessage id={op.label} />
+                  {ratio === op.id && <CheckMark />}
+                </SelectionButton>
+              ))}
+            </div>
+          </div>
+          <div className="video-option-section">
+            <div className="video-option-section-title">
+              <FormattedMessage id={'modal.exportImage.resolutionTitle'} />
+            </div>
+            <div className="button-list" id="export-video-modal__option_resolution">
+              {EXPORT_IMG_RESOLUTION_OPTIONS.map(op => (
+                <SelectionButton
+                  key={op.id}
+                  selected={resolution === op.id}
+                  onClick={() => op.available && onUpdateVideoSetting({resolution: op.id})}
+                >
+                  {op.label}
+                  {resolution === op.id && <CheckMark />}
+                </SelectionButton>
+              ))}
+            </div>
+          </div>
+          <div className="video-option-section">
+            <div className="video-option-section-title">
+              <FormattedMessage id={'modal.exportVideo.frameRateTitle'} />
+            </div>
+            <div className="button-list" id="export-video-modal__option_frame_rate">
+              {EXPORT_VIDEO_FRAME_RATE_OPTIONS.map(fps => (
+                <SelectionButton
+                  key={fps}
+                  selected={frameRate === fps}
+                  onClick={() => onUpdateVideoSetting({frameRate: fps})}
+                >
+                  {`${fps} fps`}
+                  {frameRate === fps && <CheckMark />}
+                </SelectionButton>
+              ))}
+            </div>
+          </div>
+          <div className="video-option-section">
+            <div className="video-option-section-title">
+              <FormattedMessage id={'modal.exportVideo.durationTitle'} />
+            </div>
+            <div className="button-list" id="export-video-modal__option_duration">
+              {EXPORT_VIDEO_DURATION_OPTIONS.map(seconds => (
+                <SelectionButton
+                  key={seconds}
+                  selected={duration === seconds}
+                  onClick={() => onUpdateVideoSetting({duration: seconds})}
+                >
+                  {`${seconds}s`}
+                  {duration === seconds && <CheckMark />}
+                </SelectionButton>
+              ))}
+            </div>
+          </div>
+          {exporting ? (
+            <div className="video-option-section">
+              <div className="video-option-section-title">
+                <FormattedMessage id={'modal.exportVideo.rendering'} />
+              </div>
+              <ProgressBar
+                percent={`${Math.round(exportVideo.progress * 100)}%`}
+                barColor={theme.activeColorLT}
+                isLoading
+                theme={theme}
+              />
+            </div>
+          ) : null}
+        </VideoOptionList>
+      </StyledModalContent>
+    );
+  };
+
+  return withTheme(ExportVideoModal) as React.FC<Omit<ExportVideoModalProps, 'theme'>>;
+};
+
+export default ExportVideoModalFactory;
@@ -6,10 +6,15 @@ import styled from 'styled-components';
 
 import {PMTilesMetadata} from '@loaders.gl/pmtiles';
 
-import {isPMTilesUrl, validateUrl} from '@kepler.gl/common-utils';
+import {isCOGUrl, isPMTilesUrl, validateUrl} from '@kepler.gl/common-utils';
 import {DatasetType, RasterTileType, PMTilesType} from '@kepler.gl/constants';
 import {JsonObjectOrArray} from '@kepler.gl/types';
-import {parseRasterMetadata, parseVectorMetadata} from '@kepler.gl/table';
+import {
+  COGMetadata,
+  isCOGMetadata,
+  parseRasterMetadata,
+  parseVectorMetadata
+} from '@kepler.gl/table';
 import {getApplicationConfig} from '@kepler.gl/utils';
 
 import {default as useFetchJson} from '../../hooks/use-fetch-raster-tile-metadata';
@@ -55,7 +60,7 @@ type RasterTileFormProps = {
 };
 
 const parseMetadataAllowCollections = (
-  metadata: JsonObjectOrArray | PMTilesMetadata,
+  metadata: JsonObjectOrArray | PMTilesMetadata | COGMetadata,
   {metadataUrl, rasterTileType}: {metadataUrl: string; rasterTileType: RasterTileType}
 ) => {
   return rasterTileType === RasterTileType.PMTILES
@@ -65,6 +70,13 @@ const parseMetadataAllowCollections = (
     : parseRasterMetadata(metadata as JsonObjectOrArray, {allowCollections: true});
 };
 
+function getRasterTileType(url: string): RasterTileType {
+  if (isPMTilesUrl(url)) {
+    return RasterTileType.PMTILES;
+  }
+  return isCOGUrl(url) ? RasterTileType.COG : RasterTileType.STAC;
+}
+
 const RasterTileForm: React.FC<RasterTileFormProps> = ({setResponse}) => {
   const [tileName, setTileName] = useState<string>('');
   const [tileNameWasModified, setTileNameWasModified] = useState<boolean>(false);
@@ -112,7 +124,7 @@ const RasterTileForm: React.FC<RasterTileFormProps> = ({setResponse}) => {
     error: metaError
   } = useFetchJson({
     url: clearedMetadataUrl,
-    rasterTileType: isPMTilesUrl(clearedMetadataUrl) ? RasterTileType.PMTILES : RasterTileType.STAC,
+    rasterTileType: getRasterTileType(clearedMetadataUrl),
     process: parseMetadataAllowCollections
   });
 
@@ -145,8 +157,8 @@ const RasterTileForm: React.FC<RasterTileFormProps> = ({setResponse}) => {
           rasterTileServers.length < 1 ||
           !rasterTileServers.every(server => validateUrl(server))
         ) {
-          if (pmtilesType) {
-            // For raster tiles elevation support is optional
+          if (pmtilesType || isCOGMetadata(metadata)) {
+            // For raster tiles and COGs read directly elevation support is optional
             // TODO display a warning, but not a blocking error
             rasterTileServers = [];
           } else {
@@ -207,7 +219,8 @@ const RasterTileForm: React.FC<RasterTileFormProps> = ({setResponse}) => {
           onChange={onMetadataUrlChange}
         />
         <TilesetInputDescription>
-          Supports raster .pmtiles. Limited support for STAC Items and Collections.
+          Supports raster .pmtiles and Cloud Optimized GeoTIFF (.tif) files. Limited support for
+          STAC Items and Collections.
         </TilesetInputDescription>
       </div>
       <div>
@@ -12,14 +12,16 @@ import {
   scaleMapStyleByResolution,
   getCenterAndZoomFromBounds,
   convertToPng,
-  getScaleFromImageSize
+  getScaleFromImageSize,
+  svgToDataUri
 } from '@kepler.gl/utils';
 import {findMapBounds} from '@kepler.gl/reducers';
+import {getMapSvg, isVectorExportLayer} from '@kepler.gl/layers';
 import MapContainerFactory from './map-container';
 import MapsLayoutFactory from './maps-layout';
 import {MapViewStateContextProvider} from './map-view-state-context';
 
-import {GEOCODER_LAYER_ID, ExportImage} from '@kepler.gl/constants';
+import {GEOCODER_LAYER_ID, EXPORT_IMG_FORMATS, ExportImage} from '@kepler.gl/constants';
 import {Effect, SplitMap} from '@kepler.gl/types';
 import {
   ActionHandler,
@@ -113,7 +115,7 @@ export default function PlotContainerFactory(
 
     componentDidUpdate(prevProps) {
       // re-fetch the new screenshot only when ratio legend or resolution changes
-      const checks = ['ratio', 'resolution', 'legend'];
+      const checks = ['ratio', 'resolution', 'legend', 'format'];
       const shouldRetrieveScreenshot = checks.some(
         item => this.props.exportImageSetting[item] !== prevProps.exportImageSetting[item]
       );
@@ -153,6 +155,78 @@ export default function PlotContainerFactory(
       })
     );
 
+    /**
+     * Svg and pdf export write point, line, arc and geojson layers as vector paths,
+     * the rest are rendered into the raster background. Split maps are exported as raster.
+     */
+    isVectorExport = () => {
+      const {exportImageSetting, splitMaps = []} = this.props;
+      return (
+        (exportImageSetting.format === EXPORT_IMG_FORMATS.SVG ||
+          exportImageSetting.format === EXPORT_IMG_FORMATS.PDF) &&
+        splitMaps.length < 2
+      );
+    };
+
+    getExportMapState = () => {
+      const {exportImageSetting, mapFields, splitMaps = []} = this.props;
+      const {mapState, visState} = mapFields;
+      const {layers, layerData} = visState;
+      const {imageSize} = exportImageSetting;
+
+      const isSplit = splitMaps && splitMaps.length > 1;
+
+      const width = (imageSize?.imageW || 1) / (isSplit ? 2 : 1);
+      const height = imageSize?.imageH || 1;
+      const scale = this.mapScaleSelector(this.props);
+      const newMapState = {
+        ...mapState,
+        width,
+        height,
+        zoom: mapState.zoom + (Math.log2(scale) || 0)
+      };
+
+      // center and all layer bounds
+      if (exportImageSetting.center) {
+        const renderedLayers = layers.filter(
+          (layer, idx) => layer.id !== GEOCODER_LAYER_ID && layer.shouldRenderLayer(layerData[idx])
+        );
+        const bounds = findMapBounds(renderedLayers);
+        const centerAndZoom = getCenterAndZoomFromBounds(bounds, {width, height});
+        if (centerAndZoom) {
+          const zoom = Number.isFinite(centerAndZoom.zoom) ? centerAndZoom.zoom : mapState.zoom;
+
+          newMapState.longitude = centerAndZoom.center[0];
+          newMapState.latitude = centerAndZoom.center[1];
+          newMapState.zoom = zoom + Number(Math.log2(scale) || 0);
+        }
+      }
+
+      return newMapState;
+    };
+
+    _getMapSvgDataUri = (backgroundDataUri: string) => {
+      const {exportImageSetting, mapFields} = this.props;
+      const {layers, layerData, layerOrder, datasets, mapInfo} = mapFields.visState;
+      const filterRanges = Object.keys(datasets).reduce(
+        (accu, dataId) => ({...accu, [dataId]: datasets[dataId].gpuFilter?.filterRange}),
+        {}
+      );
+
+      return svgToDataUri(
+        getMapSvg({
+          layers,
+          layerData,
+          layerOrder,
+          filterRanges,
+          mapState: this.getExportMapState(),
+          backgroundDataUri,
+          title: mapInfo?.title,
+          legend: exportImageSetting.legend
+        })
+      );
+    };
+
     _onMapRender = map => {
       if (map.isStyleLoaded()) {
         this._retrieveNewScreenshot();
@@ -168,7 +242,11 @@ export default function PlotContainerFactory(
           height: imageSize.imageH,
           escapeXhtmlForWebpack
         })
-          .then(this.props.setExportImageDataUri)
+          .then(dataUri =>
+            this.props.setExportImageDataUri(
+              this.isVectorExport() ? this._getMapSvgDataUri(dataUri) : dataUri
+            )
+          )
           .catch(err => {
             this.props.setExportImageError(err);
             if (this.props.enableErrorNotification) {
@@ -180,41 +258,18 @@ export default function PlotContainerFactory(
 
     render() {
       const {exportImageSetting, mapFields, splitMaps = []} = this.props;
-      const {mapState, visState} = mapFields;
+      const {visState} = mapFields;
       const {layers, layerData} = visState;
       const {imageSize, legend} = exportImageSetting;
 
       const isSplit = splitMaps && splitMaps.length > 1;
+      const isVectorExport = this.isVectorExport();
 
       const size = {
         width: imageSize?.imageW || 1,
         height: imageSize?.imageH || 1
       };
-      const width = size.width / (isSplit ? 2 : 1);
-      const height = size.height;
-      const scale = this.mapScaleSelector(this.props);
-      const newMapState = {
-        ...mapState,
-        width,
-        height,
-        zoom: mapState.zoom + (Math.log2(scale) || 0)
-      };
-
-      // center and all layer bounds
-      if (exportImageSetting.center) {
-        const renderedLayers = layers.filter(
-          (layer, idx) => layer.id !== GEOCODER_LAYER_ID && layer.shouldRenderLayer(layerData[idx])
-        );
-        const bounds = findMapBounds(renderedLayers);
-        const centerAndZoom = getCenterAndZoomFromBounds(bounds, {width, height});
-        if (centerAndZoom) {
-          const zoom = Number.isFinite(centerAndZoom.zoom) ? centerAndZoom.zoom : mapState.zoom;
-
-          newMapState.longitude = centerAndZoom.center[0];
-          newMapState.latitude = centerAndZoom.center[1];
-          newMapState.zoom = zoom + Number(Math.log2(scale) || 0);
-        }
-      }
+      const newMapState = this.getExportMapState();
 
       const mapProps = {
         ...mapFields,
@@ -225,7 +280,8 @@ export default function PlotContainerFactory(
         mapControls: {
           // override map legend visibility
           mapLegend: {
-            show: legend,
+            // vector export draws its own legend
+            show: legend && !isVectorExport,
             active: true
           }
         },
@@ -242,7 +298,11 @@ export default function PlotContainerFactory(
         visState: {
           ...mapFields.visState,
           // Make sure to use effects not associated with a different WebGL context
-          effects: this.state.plotEffects
+          effects: this.state.plotEffects,
+          // vector layers are not rendered in the raster background
+          ...(isVectorExport
+            ? {layerData: layerData.map((d, idx) => (isVectorExportLayer(layers[idx]) ? {} : d))}
+            : {})
         }
       };
 
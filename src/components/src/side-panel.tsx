@@ -11,6 +11,7 @@ import {
   OVERWRITE_MAP_ID,
   SAVE_MAP_ID,
   EXPORT_IMAGE_ID,
+  EXPORT_VIDEO_ID,
   ADD_DATA_ID,
   ADD_MAP_STYLE_ID
 } from '@kepler.gl/constants';
@@ -27,6 +28,7 @@ import MapManagerFactory from './side-panel/map-manager';
 import CustomPanelsFactory from './side-panel/custom-panel';
 
 import styled from 'styled-components';
+import useUndoRedoShortcuts from './hooks/use-undo-redo-shortcuts';
 import {SidePanelProps, SidePanelItem} from './types';
 
 export const StyledSidePanelContent = styled.div`
@@ -103,6 +105,7 @@ export default function SidePanelFactory(
       availableProviders = {},
       datasets,
       filters,
+      filterGroups,
       layers,
       layerBlending,
       overlayBlending,
@@ -118,13 +121,14 @@ export default function SidePanelFactory(
       onSaveMap,
       uiState,
       uiStateActions,
+      undoHistory,
       visStateActions,
       version,
       width
     } = props;
     const {openDeleteModal, toggleModal, toggleSidePanel} = uiStateActions;
     const {activeSidePanel} = uiState;
-    const {setMapInfo, showDatasetTable, updateTableColor} = visStateActions;
+    const {setMapInfo, showDatasetTable, updateTableColor, undo, redo} = visStateActions;
     const {hasShare, hasStorage} = availableProviders;
 
     const {title} = mapInfo;
@@ -137,6 +141,7 @@ export default function SidePanelFactory(
     );
 
     const onClickExportImage = useCallback(() => toggleModal(EXPORT_IMAGE_ID), [toggleModal]);
+    const onClickExportVideo = useCallback(() => toggleModal(EXPORT_VIDEO_ID), [toggleModal]);
     const onClickExportData = useCallback(() => toggleModal(EXPORT_DATA_ID), [toggleModal]);
     const onClickExportMap = useCallback(() => toggleModal(EXPORT_MAP_ID), [toggleModal]);
     const onClickSaveToStorage = useCallback(
@@ -159,6 +164,10 @@ export default function SidePanelFactory(
     const onShowAddDataModal = useCallback(() => toggleModal(ADD_DATA_ID), [toggleModal]);
     const onShowAddMapStyleModal = useCallback(() => toggleModal(ADD_MAP_STYLE_ID), [toggleModal]);
     const onRemoveDataset = useCallback(dataId => openDeleteModal(dataId), [openDeleteModal]);
+    const onUndo = useCallback(() => undo(), [undo]);
+    const onRedo = useCallback(() => redo(), [redo]);
+
+    useUndoRedoShortcuts(onUndo, onRedo);
 
     const currentPanel = useMemo(
       () => panels.find(({id}) => id === activeSidePanel) || null,
@@ -187,12 +196,17 @@ export default function SidePanelFactory(
           showExportDropdown={uiStateActions.showExportDropdown}
           hideExportDropdown={uiStateActions.hideExportDropdown}
           onExportImage={onClickExportImage}
+          onExportVideo={onClickExportVideo}
           onExportData={onClickExportData}
           onExportMap={onClickExportMap}
           onSaveMap={hasStorage ? onSaveMap : undefined}
           onSaveToStorage={hasStorage ? onClickSaveToStorage : null}
           onSaveAsToStorage={hasStorage && mapSaved ? onClickSaveAsToStorage : null}
           onShareMap={hasShare ? onClickShareMap : null}
+          onUndo={onUndo}
+          onRedo={onRedo}
+          canUndo={Boolean(undoHistory?.past.length)}
+          canRedo={Boolean(undoHistory?.future.length)}
         />
         {/* the next two components should be moved into one */}
         {/* but i am keeping them because of backward compatibility */}
@@ -207,6 +221,7 @@ export default function SidePanelFactory(
               <PanelComponent
                 datasets={datasets}
                 filters={filters}
+                filterGroups={filterGroups}
                 layers={layers}
                 layerClasses={layerClasses}
                 layerOrder={layerOrder}
@@ -3,11 +3,13 @@
 
 import React, {useCallback, useMemo} from 'react';
 import {useIntl} from 'react-intl';
-import {SidePanelDivider, SidePanelSection} from '../common/styled-components';
+import {Button, SidePanelDivider, SidePanelSection} from '../common/styled-components';
+import {Add} from '../common/icons';
+import {FormattedMessage} from '@kepler.gl/localization';
 import SourceDataCatalogFactory from './common/source-data-catalog';
 import FilterPanelFactory from './filter-panel/filter-panel';
 import {FILTER_VIEW_TYPES, PANEL_VIEW_TOGGLES} from '@kepler.gl/constants';
-import {Filter} from '@kepler.gl/types';
+import {Filter, FilterGroup} from '@kepler.gl/types';
 import {Layer} from '@kepler.gl/layers';
 import {isSideFilter} from '@kepler.gl/utils';
 import {VisStateActions, ActionHandler, UIStateActions, ActionHandlers} from '@kepler.gl/actions';
@@ -16,6 +18,7 @@ import {Datasets} from '@kepler.gl/table';
 import PanelViewListToggleFactory from './panel-view-list-toggle';
 import PanelTitleFactory from './panel-title';
 import AddFilterButtonFactory from './filter-panel/add-filter-button';
+import FilterGroupPanelFactory from './filter-panel/filter-group-panel';
 import DatasetSectionFactory from './layer-panel/dataset-section';
 import {PanelMeta} from './common/types';
 
@@ -24,6 +27,7 @@ export type UiStateActionHandlers = ActionHandlers<typeof UIStateActions>;
 
 export type FilterManagerProps = {
   filters: Filter[];
+  filterGroups?: FilterGroup[];
   datasets: Datasets;
   layers: Layer[];
   showDatasetTable: ActionHandler<typeof VisStateActions.showDatasetTable>;
@@ -49,13 +53,20 @@ type FilterListProps = {
   visStateActions: VisStateActionHandlers;
 };
 
+type FilterGroupListProps = Omit<FilterListProps, 'filtersByIndex'> & {
+  filterGroups: FilterGroup[];
+  parentId: string | null;
+  filtersByIndex: FilterListProps['filtersByIndex'];
+};
+
 FilterManagerFactory.deps = [
   DatasetSectionFactory,
   FilterPanelFactory,
   PanelTitleFactory,
   AddFilterButtonFactory,
   PanelViewListToggleFactory,
-  SourceDataCatalogFactory
+  SourceDataCatalogFactory,
+  FilterGroupPanelFactory
 ];
 
 function FilterManagerFactory(
@@ -64,7 +75,8 @@ function FilterManagerFactory(
   PanelTitle: ReturnType<typeof PanelTitleFactory>,
   AddFilterButton: ReturnType<typeof AddFilterButtonFactory>,
   PanelViewListToggle: ReturnType<typeof PanelViewListToggleFactory>,
-  SourceDataCatalog: ReturnType<typeof SourceDataCatalogFactory>
+  SourceDataCatalog: ReturnType<typeof SourceDataCatalogFactory>,
+  FilterGroupPanel: ReturnType<typeof FilterGroupPanelFactory>
 ) {
   const FilterList = ({
     filtersByIndex,
@@ -127,6 +139,57 @@ function FilterManagerFactory(
     );
   };
 
+  const FilterGroupList = ({
+    filterGroups,
+    parentId,
+    filtersByIndex,
+    filters,
+    ...filterListProps
+  }: FilterGroupListProps) => {
+    const {setFilter, addFilterGroup, removeFilterGroup, setFilterGroupOperator} =
+      filterListProps.visStateActions;
+    const groupIds = useMemo(() => filterGroups.map(g => g.id), [filterGroups]);
+    // groups pointing to a missing parent are shown at the top level
+    const childGroups = useMemo(
+      () =>
+        filterGroups.filter(g =>
+          parentId === null
+            ? g.parentId === null || !groupIds.includes(g.parentId)
+            : g.parentId === parentId
+        ),
+      [filterGroups, groupIds, parentId]
+    );
+
+    return (
+      <>
+        {childGroups.map(group => (
+          <FilterGroupPanel
+            key={group.id}
+            filterGroup={group}
+            filters={filters}
+            setFilter={setFilter}
+            addFilterGroup={addFilterGroup}
+            removeFilterGroup={removeFilterGroup}
+            setFilterGroupOperator={setFilterGroupOperator}
+          >
+            <FilterGroupList
+              filterGroups={filterGroups}
+              parentId={group.id}
+              filtersByIndex={filtersByIndex}
+              filters={filters}
+              {...filterListProps}
+            />
+            <FilterList
+              filtersByIndex={filtersByIndex.filter(({filter}) => filter.groupId === group.id)}
+              filters={filters}
+              {...filterListProps}
+            />
+          </FilterGroupPanel>
+        ))}
+      </>
+    );
+  };
+
   const DatasetFilterSection = ({
     filtersByIndex,
     filters,
@@ -167,6 +230,7 @@ function FilterManagerFactory(
 
   const FilterManager: React.FC<FilterManagerProps> = ({
     filters = [],
+    filterGroups = [],
     datasets,
     layers,
     showDatasetTable,
@@ -178,10 +242,11 @@ function FilterManagerFactory(
     visStateActions,
     uiStateActions
   }) => {
-    const {addFilter} = visStateActions;
+    const {addFilter, addFilterGroup} = visStateActions;
     const {togglePanelListView} = uiStateActions;
     const isAnyFilterAnimating = filters.some(f => f.isAnimating);
     const onClickAddFilter = useCallback(dataset => addFilter(dataset), [addFilter]);
+    const onClickAddFilterGroup = useCallback(() => addFilterGroup(), [addFilterGroup]);
     const isSortByDatasetMode = panelListView === PANEL_VIEW_TOGGLES.byDataset;
     const filtersByIndex = useMemo(
       () =>
@@ -191,6 +256,12 @@ function FilterManagerFactory(
         })),
       [filters]
     );
+    const ungroupedFiltersByIndex = useMemo(() => {
+      const groupIds = filterGroups.map(g => g.id);
+      return filtersByIndex.filter(
+        ({filter}) => !filter.groupId || !groupIds.includes(filter.groupId)
+      );
+    }, [filtersByIndex, filterGroups]);
     const filtersByDatasets = useMemo(
       () =>
         Object.keys(datasets).reduce(
@@ -246,6 +317,17 @@ function FilterManagerFactory(
             title={intl.formatMessage({id: panelMetadata.label})}
           >
             <AddFilterButton datasets={datasets} onAdd={onClickAddFilter} />
+            {filters.length ? (
+              <Button
+                className="add-filter-group-button"
+                tabIndex={-1}
+                secondary
+                onClick={onClickAddFilterGroup}
+              >
+                <Add height="12px" />
+                <FormattedMessage id="filterManager.addFilterGroup" />
+              </Button>
+            ) : null}
           </PanelTitle>
         </SidePanelSection>
         <SidePanelSection>
@@ -260,7 +342,15 @@ function FilterManagerFactory(
               />
             ))
           ) : (
-            <FilterList filtersByIndex={filtersByIndex} {...filterListProps} />
+            <>
+              <FilterGroupList
+                filterGroups={filterGroups}
+                parentId={null}
+                filtersByIndex={filtersByIndex}
+                {...filterListProps}
+              />
+              <FilterList filtersByIndex={ungroupedFiltersByIndex} {...filterListProps} />
+            </>
           )}
         </SidePanelSection>
       </div>
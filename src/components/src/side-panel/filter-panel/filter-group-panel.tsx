@@ -0,0 +1,153 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {useCallback, useMemo} from 'react';
+import styled from 'styled-components';
+import {FILTER_GROUP_OPERATORS} from '@kepler.gl/constants';
+import {FormattedMessage} from '@kepler.gl/localization';
+import {Filter, FilterGroup, FilterGroupOperator} from '@kepler.gl/types';
+
+import ItemSelector from '../../common/item-selector/item-selector';
+import PanelHeaderActionFactory from '../panel-header-action';
+import {Add, Trash} from '../../common/icons';
+import {Button, PanelLabel} from '../../common/styled-components';
+
+const StyledFilterGroupPanel = styled.div`
+  margin-bottom: 12px;
+  padding-left: 8px;
+  border-left: 1px dashed ${props => props.theme.panelBorderColor};
+`;
+
+const StyledFilterGroupHeader = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 8px;
+
+  .side-panel-panel__label {
+    margin-bottom: 0;
+  }
+`;
+
+const StyledOperatorSelector = styled.div`
+  display: flex;
+  flex: 1;
+  margin-left: 8px;
+
+  .button {
+    margin-right: 4px;
+    padding: 4px 8px;
+  }
+`;
+
+const StyledFilterGroupContent = styled.div`
+  margin-top: 8px;
+`;
+
+export type FilterGroupPanelProps = {
+  filterGroup: FilterGroup;
+  filters: Filter[];
+  setFilter: (idx: number, prop: string, value: any) => void;
+  addFilterGroup: (operator?: FilterGroupOperator, parentId?: string | null) => void;
+  removeFilterGroup: (id: string) => void;
+  setFilterGroupOperator: (id: string, operator: FilterGroupOperator) => void;
+  children?: React.ReactNode;
+};
+
+/**
+ * Get a short label of a filter to show in the filter group selector
+ */
+export const getFilterDisplayName = (filter: Filter): string =>
+  filter.name.filter(Boolean).join(', ') || filter.type || filter.id;
+
+FilterGroupPanelFactory.deps = [PanelHeaderActionFactory];
+
+function FilterGroupPanelFactory(PanelHeaderAction: ReturnType<typeof PanelHeaderActionFactory>) {
+  const FilterGroupPanel: React.FC<FilterGroupPanelProps> = ({
+    filterGroup,
+    filters,
+    setFilter,
+    addFilterGroup,
+    removeFilterGroup,
+    setFilterGroupOperator,
+    children
+  }) => {
+    const {id, operator, parentId} = filterGroup;
+
+    const groupFilters = useMemo(() => filters.filter(f => f.groupId === id), [filters, id]);
+
+    const onChangeGroupFilters = useCallback(
+      selected => {
+        const selectedIds = (selected || []).map(f => f.id);
+        filters.forEach((f, idx) => {
+          if (selectedIds.includes(f.id) && f.groupId !== id) {
+            // move filter into this group
+            setFilter(idx, 'groupId', id);
+          } else if (!selectedIds.includes(f.id) && f.groupId === id) {
+            // move filter back to the parent group
+            setFilter(idx, 'groupId', parentId);
+          }
+        });
+      },
+      [filters, id, parentId, setFilter]
+    );
+
+    const onAddSubGroup = useCallback(() => addFilterGroup(undefined, id), [addFilterGroup, id]);
+    const onRemove = useCallback(() => removeFilterGroup(id), [removeFilterGroup, id]);
+
+    return (
+      <StyledFilterGroupPanel className="filter-group-panel">
+        <StyledFilterGroupHeader className="filter-group-panel__header">
+          <PanelLabel>
+            <FormattedMessage id="filterManager.filterGroup" />
+          </PanelLabel>
+          <StyledOperatorSelector className="filter-group-panel__operator">
+            {Object.keys(FILTER_GROUP_OPERATORS).map(op => (
+              <Button
+                key={op}
+                small
+                secondary={op !== operator}
+                onClick={() => setFilterGroupOperator(id, op as FilterGroupOperator)}
+              >
+                <FormattedMessage id={`filterManager.operators.${op}`} />
+              </Button>
+            ))}
+          </StyledOperatorSelector>
+          <PanelHeaderAction
+            id={`${id}-add-group`}
+            tooltip="filterManager.addFilterGroup"
+            onClick={onAddSubGroup}
+            IconComponent={Add}
+          />
+          <PanelHeaderAction
+            id={`${id}-remove-group`}
+            tooltip="tooltip.delete"
+            tooltipType="error"
+            hoverColor="errorColor"
+            onClick={onRemove}
+            IconComponent={Trash}
+          />
+        </StyledFilterGroupHeader>
+        <ItemSelector
+          options={filters}
+          selectedItems={groupFilters}
+          onChange={onChangeGroupFilters}
+          multiSelect={true}
+          searchable={false}
+          getOptionValue={(f: Filter) => f.id}
+          displayOption={getFilterDisplayName}
+          placeholder="placeholder.selectFilters"
+        />
+        <StyledFilterGroupContent className="filter-group-panel__content">
+          {children}
+        </StyledFilterGroupContent>
+      </StyledFilterGroupPanel>
+    );
+  };
+
+  FilterGroupPanel.displayName = 'FilterGroupPanel';
+
+  return FilterGroupPanel;
+}
+
+export default FilterGroupPanelFactory;
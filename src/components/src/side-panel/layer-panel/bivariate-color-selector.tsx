@@ -0,0 +1,209 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {useCallback, useMemo} from 'react';
+import styled from 'styled-components';
+
+import {
+  BIVARIATE_COLOR_PALETTES,
+  BIVARIATE_FIELD_TYPES,
+  BivariatePalette,
+  bivariatePaletteToColorRange
+} from '@kepler.gl/constants';
+import {FormattedMessage} from '@kepler.gl/localization';
+import {Layer, VisualChannel} from '@kepler.gl/layers';
+import {ColorRange, Field, LayerVisConfig} from '@kepler.gl/types';
+
+import ItemSelector from '../../common/item-selector/item-selector';
+import {PanelLabel, SidePanelSection} from '../../common/styled-components';
+import VisConfigByFieldSelectorFactory from './vis-config-by-field-selector';
+
+const SWATCH_SIZE = 36;
+
+const BIVARIATE_CLASS_OPTIONS = [
+  {id: 2, label: '2 x 2'},
+  {id: 3, label: '3 x 3'},
+  {id: 4, label: '4 x 4'}
+];
+
+const StyledPaletteList = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 8px;
+`;
+
+const StyledPalette = styled.div<{selected: boolean}>`
+  display: grid;
+  width: ${SWATCH_SIZE}px;
+  height: ${SWATCH_SIZE}px;
+  padding: 2px;
+  cursor: pointer;
+  border: 1px solid
+    ${props => (props.selected ? props.theme.activeColor : props.theme.panelBorderColor)};
+
+  :hover {
+    border-color: ${props => props.theme.activeColor};
+  }
+`;
+
+type BivariateColorSelectorProps = {
+  layer: Layer;
+  channel: VisualChannel;
+  fields: Field[];
+  onChange: (
+    newConfig: {[key: string]: Field | null | string},
+    key: string,
+    newVisConfig?: Partial<LayerVisConfig>
+  ) => void;
+  onChangeVisConfig: (newVisConfig: Partial<LayerVisConfig>) => void;
+};
+
+type BivariatePaletteSwatchProps = {
+  palette: BivariatePalette;
+  cols: number;
+  rows: number;
+  selected: boolean;
+  onSelect: (palette: BivariatePalette) => void;
+};
+
+const BivariatePaletteSwatch: React.FC<BivariatePaletteSwatchProps> = ({
+  palette,
+  cols,
+  rows,
+  selected,
+  onSelect
+}) => {
+  const colors = useMemo(() => palette.colors(cols, rows), [palette, cols, rows]);
+  // highest class of the second field on top
+  const cells = useMemo(
+    () =>
+      Array.from({length: rows}, (_, i) => rows - 1 - i).flatMap(row =>
+        colors.slice(row * cols, (row + 1) * cols)
+      ),
+    [colors, cols, rows]
+  );
+  const onClick = useCallback(() => onSelect(palette), [onSelect, palette]);
+
+  return (
+    <StyledPalette
+      className="bivariate-palette"
+      selected={selected}
+      title={palette.name}
+      onClick={onClick}
+      style={{gridTemplateColumns: `repeat(${cols}, 1fr)`}}
+    >
+      {cells.map((color, i) => (
+        <div key={i} style={{backgroundColor: color}} />
+      ))}
+    </StyledPalette>
+  );
+};
+
+BivariateColorSelectorFactory.deps = [VisConfigByFieldSelectorFactory];
+
+/**
+ * Select a second field and a color matrix to color a layer by two fields
+ */
+function BivariateColorSelectorFactory(
+  VisConfigByFieldSelector: ReturnType<typeof VisConfigByFieldSelectorFactory>
+) {
+  const BivariateColorSelector: React.FC<BivariateColorSelectorProps> = ({
+    layer,
+    channel,
+    fields,
+    onChange,
+    onChangeVisConfig
+  }) => {
+    const {bivariate, key, range} = channel;
+    const numericFields = useMemo(
+      () => fields.filter(({type}) => BIVARIATE_FIELD_TYPES.includes(type)),
+      [fields]
+    );
+    const updateField = useCallback(
+      val => {
+        if (bivariate) {
+          onChange({[bivariate.field]: val}, key);
+        }
+      },
+      [onChange, bivariate, key]
+    );
+
+    const colorRange: ColorRange = layer.config.visConfig[range];
+    const {cols, rows} = colorRange?.bivariate || {cols: 3, rows: 3};
+    const onSelectPalette = useCallback(
+      (palette: BivariatePalette) =>
+        onChangeVisConfig({[range]: bivariatePaletteToColorRange(palette, {cols, rows})}),
+      [onChangeVisConfig, range, cols, rows]
+    );
+    const selectedPalette =
+      BIVARIATE_COLOR_PALETTES.find(({name}) => name === colorRange?.name) ||
+      BIVARIATE_COLOR_PALETTES[0];
+    const onSelectClasses = useCallback(
+      option =>
+        onChangeVisConfig({
+          [range]: bivariatePaletteToColorRange(selectedPalette, {cols: option.id, rows: option.id})
+        }),
+      [onChangeVisConfig, range, selectedPalette]
+    );
+
+    const selectedField = bivariate ? layer.config[bivariate.field] : null;
+    if (!bivariate || !BIVARIATE_FIELD_TYPES.includes(layer.config[channel.field]?.type)) {
+      return null;
+    }
+
+    return (
+      <div className="bivariate-color-selector">
+        <VisConfigByFieldSelector
+          id={layer.id}
+          property="bivariateColorField"
+          label="layerVisConfigs.bivariateColorField"
+          description="layerVisConfigs.bivariateColorFieldDescription"
+          fields={numericFields}
+          placeholder="placeholder.selectField"
+          selectedField={selectedField}
+          updateField={updateField}
+        />
+        {selectedField && colorRange?.bivariate ? (
+          <>
+            <SidePanelSection>
+              <PanelLabel>
+                <FormattedMessage id="layerVisConfigs.bivariateColorRange" />
+              </PanelLabel>
+              <StyledPaletteList>
+                {BIVARIATE_COLOR_PALETTES.map(palette => (
+                  <BivariatePaletteSwatch
+                    key={palette.name}
+                    palette={palette}
+                    cols={cols}
+                    rows={rows}
+                    selected={palette === selectedPalette}
+                    onSelect={onSelectPalette}
+                  />
+                ))}
+              </StyledPaletteList>
+            </SidePanelSection>
+            <SidePanelSection>
+              <PanelLabel>
+                <FormattedMessage id="layerVisConfigs.bivariateClasses" />
+              </PanelLabel>
+              <ItemSelector
+                selectedItems={BIVARIATE_CLASS_OPTIONS.find(({id}) => id === cols)}
+                options={BIVARIATE_CLASS_OPTIONS}
+                displayOption="label"
+                getOptionValue={option => option}
+                multiSelect={false}
+                searchable={false}
+                onChange={onSelectClasses}
+              />
+            </SidePanelSection>
+          </>
+        ) : null}
+      </div>
+    );
+  };
+
+  BivariateColorSelector.displayName = 'BivariateColorSelector';
+  return BivariateColorSelector;
+}
+
+export default BivariateColorSelectorFactory;
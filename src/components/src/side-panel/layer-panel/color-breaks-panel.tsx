@@ -113,6 +113,7 @@ export type ColorBreaksPanelProps = {
   dataset: KeplerTable | undefined;
   colorField: Field;
   isCustomBreaks: boolean;
+  onEditBreaks?: (() => void) | null;
   allBins: Bin[];
   filteredBins: Bin[];
   isFiltered: boolean;
@@ -137,6 +138,7 @@ function ColorBreaksPanelFactory(
     dataset,
     colorField,
     isCustomBreaks,
+    onEditBreaks,
     allBins,
     filteredBins,
     isFiltered,
@@ -229,7 +231,7 @@ function ColorBreaksPanelFactory(
           ) : currentBreaks && allBins.length > 1 && notOrdinalColorBreaks(colorBreaks) ? (
             <ColorBreaksDisplay
               currentBreaks={currentBreaks}
-              onEdit={isCustomBreaks ? onClickEditCustomBreaks : null}
+              onEdit={isCustomBreaks ? onClickEditCustomBreaks : onEditBreaks || null}
             />
           ) : customPalette.colorMap &&
             customPalette.type === 'customOrdinal' &&
@@ -4,7 +4,7 @@
 import React, {useCallback, useMemo, useState} from 'react';
 import styled from 'styled-components';
 
-import {ALL_FIELD_TYPES, SCALE_TYPES} from '@kepler.gl/constants';
+import {ALL_FIELD_TYPES, CLASSIFICATION_SCALE_TYPES, SCALE_TYPES} from '@kepler.gl/constants';
 import {AggregatedBin, Layer, VisualChannelDomain} from '@kepler.gl/layers';
 import {KeplerTable} from '@kepler.gl/table';
 import {ColorRange, ColorUI, Field} from '@kepler.gl/types';
@@ -218,26 +218,31 @@ function ColorScaleSelectorFactory(
       );
     }, [dataset, fieldValueAccessor, allBins, isFiltered]);
 
+    // switch to custom breaks, initialized from current color breaks
+    const onEditCustomBreaks = useCallback(() => {
+      const customPalette = initCustomPaletteByCustomScale({
+        scale: SCALE_TYPES.custom,
+        field,
+        range,
+        colorBreaks
+      });
+      setColorUI({
+        showColorChart: true,
+        colorRangeConfig: {
+          customBreaks: true
+        },
+        customPalette
+      });
+      onSelect(SCALE_TYPES.custom, customPalette);
+    }, [field, range, colorBreaks, setColorUI, onSelect]);
+
     const onSelectScale = useCallback(
       val => {
         // highlight selected option
         if (!val || isEditingColorBreaks) return;
         const selectedScale = getOptionValue(val);
         if (selectedScale === SCALE_TYPES.custom) {
-          const customPalette = initCustomPaletteByCustomScale({
-            scale: selectedScale,
-            field,
-            range,
-            colorBreaks
-          });
-          setColorUI({
-            showColorChart: true,
-            colorRangeConfig: {
-              customBreaks: true
-            },
-            customPalette
-          });
-          onSelect(selectedScale, customPalette);
+          onEditCustomBreaks();
         } else if (hasColorMap(range) && selectedScale !== SCALE_TYPES.customOrdinal) {
           // not custom
           // remove colorMap
@@ -248,7 +253,7 @@ function ColorScaleSelectorFactory(
           onSelect(selectedScale);
         }
       },
-      [isEditingColorBreaks, field, setColorUI, onSelect, range, getOptionValue, colorBreaks]
+      [isEditingColorBreaks, onEditCustomBreaks, onSelect, range, getOptionValue]
     );
 
     const onApply = useCallback(() => {
@@ -262,6 +267,8 @@ function ColorScaleSelectorFactory(
 
     const isCustomBreaks =
       scaleType === SCALE_TYPES.custom || scaleType === SCALE_TYPES.customOrdinal;
+    // breaks computed by jenks, equal interval or standard deviation can be adjusted by hand
+    const isClassificationBreaks = CLASSIFICATION_SCALE_TYPES.includes(scaleType);
 
     return (
       <DropdownPropContext.Provider
@@ -272,6 +279,7 @@ function ColorScaleSelectorFactory(
           colorUIConfig,
           colorBreaks,
           isCustomBreaks,
+          onEditBreaks: isClassificationBreaks ? onEditCustomBreaks : null,
           allBins,
           filteredBins,
           isFiltered,
@@ -0,0 +1,115 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {useCallback, useMemo} from 'react';
+
+import {FormattedMessage} from '@kepler.gl/localization';
+import {Layer, layerColors} from '@kepler.gl/layers';
+import {ColorRange, Field, FieldColor, RGBAColor, RGBColor} from '@kepler.gl/types';
+
+import FieldSelectorFactory from '../../common/field-selector';
+import {PanelLabel, SidePanelSection} from '../../common/styled-components';
+import ColorSelectorFactory from './color-selector';
+
+const NUMERIC_FIELD_TYPES = ['integer', 'real'];
+
+type FieldColorsSelectorProps = {
+  layer: Layer;
+  fields: Field[];
+  /** vis config property holding the list of fields and colors */
+  property: string;
+  label: string;
+  /** max number of fields that can be selected */
+  maxFields?: number;
+  onChange: (newVisConfig: {[property: string]: FieldColor[]}) => void;
+};
+
+FieldColorsSelectorFactory.deps = [FieldSelectorFactory, ColorSelectorFactory];
+
+/**
+ * Select several numeric fields of a layer and a color for each field
+ */
+function FieldColorsSelectorFactory(
+  FieldSelector: ReturnType<typeof FieldSelectorFactory>,
+  ColorSelector: ReturnType<typeof ColorSelectorFactory>
+) {
+  const FieldColorsSelector: React.FC<FieldColorsSelectorProps> = ({
+    layer,
+    fields,
+    property,
+    label,
+    maxFields,
+    onChange
+  }) => {
+    const fieldColors: FieldColor[] = layer.config.visConfig[property];
+    const numericFields = useMemo(
+      () => fields.filter(({type}) => NUMERIC_FIELD_TYPES.includes(type)),
+      [fields]
+    );
+
+    const onSelectFields = useCallback(
+      selected => {
+        const usedColors = fieldColors.map(({color}) => color.join(','));
+        const freeColors = layerColors.filter(color => !usedColors.includes(color.join(',')));
+        const newFieldColors = (Array.isArray(selected) ? selected : [])
+          .slice(0, maxFields)
+          .map((field, i) => {
+            const name = typeof field === 'string' ? field : field.name;
+            // keep the colors of fields that are already selected
+            const current = fieldColors.find(fc => fc.name === name);
+            const color =
+              current?.color || freeColors.shift() || layerColors[i % layerColors.length];
+            return {name, color};
+          });
+        onChange({[property]: newFieldColors});
+      },
+      [fieldColors, property, maxFields, onChange]
+    );
+
+    const colorSets = useMemo(
+      () =>
+        fieldColors.map(({name, color}, i) => ({
+          selectedColor: color,
+          label: name,
+          setColor: (v: RGBColor | RGBAColor | ColorRange) => {
+            // color ranges are not picked for single fields
+            if (Array.isArray(v)) {
+              onChange({
+                [property]: fieldColors.map((fc, j) =>
+                  j === i ? {...fc, color: v.slice(0, 3) as RGBColor} : fc
+                )
+              });
+            }
+          }
+        })),
+      [fieldColors, property, onChange]
+    );
+
+    return (
+      <>
+        <SidePanelSection>
+          <PanelLabel>
+            <FormattedMessage id={label} />
+          </PanelLabel>
+          <FieldSelector
+            fields={numericFields}
+            value={fieldColors.map(({name}) => name)}
+            onSelect={onSelectFields}
+            placeholder="placeholder.selectField"
+            multiSelect
+          />
+        </SidePanelSection>
+        {colorSets.length ? (
+          <SidePanelSection>
+            <ColorSelector colorSets={colorSets} />
+          </SidePanelSection>
+        ) : null}
+      </>
+    );
+  };
+
+  FieldColorsSelector.displayName = 'FieldColorsSelector';
+  return FieldColorsSelector;
+}
+
+export default FieldColorsSelectorFactory;
@@ -0,0 +1,107 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {useCallback, useMemo} from 'react';
+import {useIntl} from 'react-intl';
+
+import {LAYER_BLEND_MODES} from '@kepler.gl/constants';
+import {FormattedMessage} from '@kepler.gl/localization';
+import {Layer, LayerBaseConfig, isValidMaskLayer} from '@kepler.gl/layers';
+
+import ItemSelector from '../../common/item-selector/item-selector';
+import {PanelLabel, SidePanelSection} from '../../common/styled-components';
+import LayerConfigGroupFactory from './layer-config-group';
+
+type LayerBlendModeConfigProps = {
+  layer: Layer;
+  /** all layers of the map, used to pick the mask layer */
+  layers: Layer[];
+  updateLayerConfig: (newConfig: Partial<LayerBaseConfig>) => void;
+};
+
+type Option = {id: string | null; label: string};
+
+LayerBlendModeConfigFactory.deps = [LayerConfigGroupFactory];
+
+/**
+ * Set the blend mode of a layer and the layer used to mask it
+ */
+function LayerBlendModeConfigFactory(LayerConfigGroup: ReturnType<typeof LayerConfigGroupFactory>) {
+  const LayerBlendModeConfig: React.FC<LayerBlendModeConfigProps> = ({
+    layer,
+    layers,
+    updateLayerConfig
+  }) => {
+    const intl = useIntl();
+    const {blendMode, maskLayerId} = layer.config;
+
+    const blendModeOptions: Option[] = useMemo(
+      () => [
+        {id: null, label: intl.formatMessage({id: 'layerBlending.default'})},
+        ...Object.keys(LAYER_BLEND_MODES).map(id => ({
+          id,
+          label: intl.formatMessage({id: LAYER_BLEND_MODES[id].label})
+        }))
+      ],
+      [intl]
+    );
+
+    const maskLayerOptions: Option[] = useMemo(
+      () => [
+        {id: null, label: intl.formatMessage({id: 'layerBlending.noMask'})},
+        ...layers
+          .filter(l => isValidMaskLayer(l, layer))
+          .map(({id, config}) => ({id, label: config.label}))
+      ],
+      [intl, layers, layer]
+    );
+
+    const onSelectBlendMode = useCallback(
+      option => updateLayerConfig({blendMode: option.id}),
+      [updateLayerConfig]
+    );
+
+    const onSelectMaskLayer = useCallback(
+      option => updateLayerConfig({maskLayerId: option.id}),
+      [updateLayerConfig]
+    );
+
+    return (
+      <LayerConfigGroup label={'layerBlending.blendingAndMask'} collapsible>
+        <SidePanelSection>
+          <PanelLabel>
+            <FormattedMessage id="layerBlending.blendMode" />
+          </PanelLabel>
+          <ItemSelector
+            selectedItems={blendModeOptions.find(({id}) => id === (blendMode || null))}
+            options={blendModeOptions}
+            displayOption="label"
+            getOptionValue={option => option}
+            multiSelect={false}
+            searchable={false}
+            onChange={onSelectBlendMode}
+          />
+        </SidePanelSection>
+        <SidePanelSection>
+          <PanelLabel>
+            <FormattedMessage id="layerBlending.maskLayer" />
+          </PanelLabel>
+          <ItemSelector
+            selectedItems={maskLayerOptions.find(({id}) => id === (maskLayerId || null))}
+            options={maskLayerOptions}
+            displayOption="label"
+            getOptionValue={option => option}
+            multiSelect={false}
+            searchable={false}
+            onChange={onSelectMaskLayer}
+          />
+        </SidePanelSection>
+      </LayerConfigGroup>
+    );
+  };
+
+  LayerBlendModeConfig.displayName = 'LayerBlendModeConfig';
+  return LayerBlendModeConfig;
+}
+
+export default LayerBlendModeConfigFactory;
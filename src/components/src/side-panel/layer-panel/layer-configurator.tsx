@@ -7,11 +7,14 @@ import React, {Component, Fragment} from 'react';
 import styled from 'styled-components';
 
 import ItemSelector from '../../common/item-selector/item-selector';
-import {Input, PanelLabel, SidePanelSection} from '../../common/styled-components';
+import {Button, Input, PanelLabel, SidePanelSection} from '../../common/styled-components';
 
 import SourceDataSelectorFactory from '../common/source-data-selector';
 import AggrScaleSelectorFactory from './aggr-scale-selector';
+import BivariateColorSelectorFactory from './bivariate-color-selector';
 import ChannelByValueSelectorFactory from './channel-by-value-selector';
+import FieldColorsSelectorFactory from './field-colors-selector';
+import LayerBlendModeConfigFactory from './layer-blend-mode-config';
 import HowToButton from './how-to-button';
 import {
   ArcLayerColorSelectorFactory,
@@ -30,8 +33,20 @@ import RasterTileLayerConfiguratorFactory from './raster-tile-layer-configurator
 import VectorTileLayerConfiguratorFactory from './vector-tile-layer-configurator';
 
 import {ActionHandler, toggleModal} from '@kepler.gl/actions';
-import {AGGREGATION_TYPE_OPTIONS, LAYER_TYPES} from '@kepler.gl/constants';
-import {AggregationLayer, Layer, LayerBaseConfig, VisualChannel} from '@kepler.gl/layers';
+import {
+  AGGREGATION_TYPE_OPTIONS,
+  GLYPH_TYPE_OPTIONS,
+  LAYER_TYPES,
+  MAX_GLYPH_FIELDS,
+  VORONOI_CLIP_OPTIONS
+} from '@kepler.gl/constants';
+import {
+  AggregationLayer,
+  Layer,
+  LayerBaseConfig,
+  OVERLAY_TYPE_CONST,
+  VisualChannel
+} from '@kepler.gl/layers';
 
 import {matchDatasetType, Datasets} from '@kepler.gl/table';
 import {ColorUI, LayerVisConfig, NestedPartial} from '@kepler.gl/types';
@@ -40,6 +55,8 @@ import {capitalizeFirstLetter} from '@kepler.gl/utils';
 type LayerConfiguratorProps = {
   layer: Layer;
   datasets: Datasets;
+  /** all layers of the map, used to select the mask layer */
+  layers?: Layer[];
   layerTypeOptions: {
     id: string;
     label: string;
@@ -58,6 +75,7 @@ type LayerConfiguratorProps = {
   updateLayerColorUI: (prop: string, newConfig: NestedPartial<ColorUI>) => void;
   updateLayerTextLabel: (idx: number | 'all', prop: string, value: any) => void;
   disableTypeSelect?: boolean;
+  createDatasetFromLayer?: () => void;
 };
 
 type AggregationSelectorProps = {
@@ -131,7 +149,10 @@ LayerConfiguratorFactory.deps = [
   ArcLayerColorSelectorFactory,
   AggrScaleSelectorFactory,
   VectorTileLayerConfiguratorFactory,
-  RasterTileLayerConfiguratorFactory
+  RasterTileLayerConfiguratorFactory,
+  BivariateColorSelectorFactory,
+  FieldColorsSelectorFactory,
+  LayerBlendModeConfigFactory
 ];
 
 export default function LayerConfiguratorFactory(
@@ -148,7 +169,10 @@ export default function LayerConfiguratorFactory(
   ArcLayerColorSelector: ReturnType<typeof ArcLayerColorSelectorFactory>,
   AggrScaleSelector: ReturnType<typeof AggrScaleSelectorFactory>,
   VectorTileLayerConfigurator: ReturnType<typeof VectorTileLayerConfiguratorFactory>,
-  RasterTileLayerConfigurator: ReturnType<typeof RasterTileLayerConfiguratorFactory>
+  RasterTileLayerConfigurator: ReturnType<typeof RasterTileLayerConfiguratorFactory>,
+  BivariateColorSelector: ReturnType<typeof BivariateColorSelectorFactory>,
+  FieldColorsSelector: ReturnType<typeof FieldColorsSelectorFactory>,
+  LayerBlendModeConfig: ReturnType<typeof LayerBlendModeConfigFactory>
 ): React.ComponentType<LayerConfiguratorProps> {
   class LayerConfigurator extends Component<LayerConfiguratorProps> {
     _renderPointLayerConfig(props) {
@@ -183,8 +207,15 @@ export default function LayerConfiguratorFactory(
               channel={layer.visualChannels.color}
               {...layerChannelConfigProps}
             />
+            <BivariateColorSelector
+              channel={layer.visualChannels.color}
+              {...layerChannelConfigProps}
+              onChangeVisConfig={visConfiguratorProps.onChange}
+            />
             {layer.config.colorField ? (
-              <LayerColorRangeSelector {...visConfiguratorProps} />
+              layer.isBivariateChannel(layer.visualChannels.color) ? null : (
+                <LayerColorRangeSelector {...visConfiguratorProps} />
+              )
             ) : (
               <LayerColorSelector {...layerConfiguratorProps} />
             )}
@@ -318,6 +349,316 @@ export default function LayerConfiguratorFactory(
       );
     }
 
+    _renderFlowLayerConfig({layer, visConfiguratorProps, layerChannelConfigProps}) {
+      return (
+        <StyledLayerVisualConfigurator>
+          {/* Color */}
+          <LayerConfigGroup label={'layer.color'} collapsible>
+            <LayerColorRangeSelector {...visConfiguratorProps} />
+            <AggrScaleSelector {...layerChannelConfigProps} channel={layer.visualChannels.color} />
+            <ChannelByValueSelector
+              channel={layer.visualChannels.color}
+              {...layerChannelConfigProps}
+            />
+            <ConfigGroupCollapsibleContent>
+              {layer.visConfigSettings.colorAggregation.condition(layer.config) ? (
+                <AggregationTypeSelector
+                  {...layer.visConfigSettings.colorAggregation}
+                  {...layerChannelConfigProps}
+                  channel={layer.visualChannels.color}
+                />
+              ) : null}
+              <VisConfigSlider {...layer.visConfigSettings.opacity} {...visConfiguratorProps} />
+            </ConfigGroupCollapsibleContent>
+          </LayerConfigGroup>
+
+          {/* Stroke */}
+          <LayerConfigGroup label={'layer.stroke'} collapsible>
+            <VisConfigSlider
+              {...layer.visConfigSettings.sizeRange}
+              {...visConfiguratorProps}
+              label={false}
+            />
+            <ConfigGroupCollapsibleContent>
+              <ChannelByValueSelector
+                channel={layer.visualChannels.size}
+                {...layerChannelConfigProps}
+              />
+              {layer.visConfigSettings.sizeAggregation.condition(layer.config) ? (
+                <AggregationTypeSelector
+                  {...layer.visConfigSettings.sizeAggregation}
+                  {...layerChannelConfigProps}
+                  channel={layer.visualChannels.size}
+                />
+              ) : null}
+              <AggrScaleSelector {...layerChannelConfigProps} channel={layer.visualChannels.size} />
+              <VisConfigSlider
+                {...layer.visConfigSettings.flowCurveness}
+                {...visConfiguratorProps}
+              />
+              <VisConfigSwitch {...layer.visConfigSettings.flowArrows} {...visConfiguratorProps} />
+            </ConfigGroupCollapsibleContent>
+          </LayerConfigGroup>
+
+          {/* Locations */}
+          <LayerConfigGroup label={'layer.radius'} collapsible>
+            <VisConfigSlider {...layer.visConfigSettings.clusterRadius} {...visConfiguratorProps} />
+            <ConfigGroupCollapsibleContent>
+              <VisConfigSlider {...layer.visConfigSettings.radiusRange} {...visConfiguratorProps} />
+              <VisConfigSwitch
+                {...layer.visConfigSettings.flowLocations}
+                {...visConfiguratorProps}
+              />
+            </ConfigGroupCollapsibleContent>
+          </LayerConfigGroup>
+        </StyledLayerVisualConfigurator>
+      );
+    }
+
+    _renderContourLayerConfig({
+      layer,
+      visConfiguratorProps,
+      layerChannelConfigProps,
+      createDatasetFromLayer
+    }) {
+      return (
+        <StyledLayerVisualConfigurator>
+          {/* Color */}
+          <LayerConfigGroup label={'layer.color'} collapsible>
+            <LayerColorRangeSelector {...visConfiguratorProps} />
+            <AggrScaleSelector {...layerChannelConfigProps} channel={layer.visualChannels.color} />
+            <ChannelByValueSelector
+              channel={layer.visualChannels.color}
+              {...layerChannelConfigProps}
+            />
+            <ConfigGroupCollapsibleContent>
+              {layer.visConfigSettings.colorAggregation.condition(layer.config) ? (
+                <AggregationTypeSelector
+                  {...layer.visConfigSettings.colorAggregation}
+                  {...layerChannelConfigProps}
+                  channel={layer.visualChannels.color}
+                />
+              ) : null}
+              <VisConfigSlider {...layer.visConfigSettings.opacity} {...visConfiguratorProps} />
+            </ConfigGroupCollapsibleContent>
+          </LayerConfigGroup>
+
+          {/* Cell size */}
+          <LayerConfigGroup label={'layer.radius'} collapsible>
+            <VisConfigSlider {...layer.visConfigSettings.worldUnitSize} {...visConfiguratorProps} />
+          </LayerConfigGroup>
+
+          {/* Bands and lines */}
+          <LayerConfigGroup label={'layer.contours'} collapsible>
+            <VisConfigSwitch {...layer.visConfigSettings.contourBands} {...visConfiguratorProps} />
+            <VisConfigSwitch {...layer.visConfigSettings.contourLines} {...visConfiguratorProps} />
+            <VisConfigSlider
+              {...layer.visConfigSettings.thickness}
+              {...visConfiguratorProps}
+              disabled={!layer.config.visConfig.contourLines}
+            />
+          </LayerConfigGroup>
+
+          {createDatasetFromLayer ? (
+            <SidePanelSection>
+              <Button secondary small width="100%" onClick={createDatasetFromLayer}>
+                <FormattedMessage id="layer.createContourDataset" />
+              </Button>
+            </SidePanelSection>
+          ) : null}
+        </StyledLayerVisualConfigurator>
+      );
+    }
+
+    _renderVoronoiLayerConfig({
+      layer,
+      visConfiguratorProps,
+      layerConfiguratorProps,
+      layerChannelConfigProps
+    }) {
+      const {visConfig} = layer.config;
+
+      return (
+        <StyledLayerVisualConfigurator>
+          {/* Color */}
+          <LayerConfigGroup
+            {...layer.visConfigSettings.filled}
+            {...visConfiguratorProps}
+            label="layer.fillColor"
+            collapsible
+          >
+            {layer.config.colorField ? (
+              <LayerColorRangeSelector {...visConfiguratorProps} />
+            ) : (
+              <LayerColorSelector {...layerConfiguratorProps} />
+            )}
+            <ChannelByValueSelector
+              channel={layer.visualChannels.color}
+              {...layerChannelConfigProps}
+            />
+            <ConfigGroupCollapsibleContent>
+              <VisConfigSlider {...layer.visConfigSettings.opacity} {...visConfiguratorProps} />
+            </ConfigGroupCollapsibleContent>
+          </LayerConfigGroup>
+
+          {/* Stroke */}
+          <LayerConfigGroup
+            {...layer.visConfigSettings.stroked}
+            {...visConfiguratorProps}
+            label="layer.strokeColor"
+            collapsible
+          >
+            {layer.config.strokeColorField ? (
+              <LayerColorRangeSelector {...visConfiguratorProps} property="strokeColorRange" />
+            ) : (
+              <LayerColorSelector
+                {...visConfiguratorProps}
+                selectedColor={visConfig.strokeColor}
+                property="strokeColor"
+              />
+            )}
+            <ChannelByValueSelector
+              channel={layer.visualChannels.strokeColor}
+              {...layerChannelConfigProps}
+            />
+            <ConfigGroupCollapsibleContent>
+              <VisConfigSlider {...layer.visConfigSettings.thickness} {...visConfiguratorProps} />
+            </ConfigGroupCollapsibleContent>
+          </LayerConfigGroup>
+
+          {/* Cells */}
+          <LayerConfigGroup label={'layer.voronoiCells'} collapsible>
+            <SidePanelSection>
+              <PanelLabel>
+                <FormattedMessage id={layer.visConfigSettings.voronoiClip.label} />
+              </PanelLabel>
+              <ItemSelector
+                selectedItems={VORONOI_CLIP_OPTIONS.find(({id}) => id === visConfig.voronoiClip)}
+                options={VORONOI_CLIP_OPTIONS}
+                displayOption="label"
+                getOptionValue="id"
+                multiSelect={false}
+                searchable={false}
+                onChange={value => visConfiguratorProps.onChange({voronoiClip: value})}
+              />
+            </SidePanelSection>
+            <VisConfigSwitch
+              {...layer.visConfigSettings.voronoiDelaunay}
+              {...visConfiguratorProps}
+            />
+          </LayerConfigGroup>
+        </StyledLayerVisualConfigurator>
+      );
+    }
+
+    _renderDotDensityLayerConfig({layer, dataset, visConfiguratorProps}) {
+      return (
+        <StyledLayerVisualConfigurator>
+          {/* Color */}
+          <LayerConfigGroup label={'layer.color'} collapsible>
+            <FieldColorsSelector
+              layer={layer}
+              fields={dataset?.fields || []}
+              property="dotDensityFields"
+              label={layer.visConfigSettings.dotDensityFields.label}
+              onChange={visConfiguratorProps.onChange}
+            />
+            <ConfigGroupCollapsibleContent>
+              <VisConfigSlider {...layer.visConfigSettings.opacity} {...visConfiguratorProps} />
+            </ConfigGroupCollapsibleContent>
+          </LayerConfigGroup>
+
+          {/* Dots */}
+          <LayerConfigGroup label={'layer.dots'} collapsible>
+            <VisConfigSlider {...layer.visConfigSettings.dotsPerUnit} {...visConfiguratorProps} />
+            <ConfigGroupCollapsibleContent>
+              <VisConfigSlider {...layer.visConfigSettings.radius} {...visConfiguratorProps} />
+            </ConfigGroupCollapsibleContent>
+          </LayerConfigGroup>
+        </StyledLayerVisualConfigurator>
+      );
+    }
+
+    _renderGlyphLayerConfig({layer, dataset, visConfiguratorProps, layerChannelConfigProps}) {
+      const {visConfig} = layer.config;
+
+      return (
+        <StyledLayerVisualConfigurator>
+          {/* Glyph */}
+          <LayerConfigGroup label={'layer.glyph'} collapsible>
+            <SidePanelSection>
+              <PanelLabel>
+                <FormattedMessage id={layer.visConfigSettings.glyphType.label} />
+              </PanelLabel>
+              <ItemSelector
+                selectedItems={GLYPH_TYPE_OPTIONS.find(({id}) => id === visConfig.glyphType)}
+                options={GLYPH_TYPE_OPTIONS}
+                displayOption="label"
+                getOptionValue="id"
+                multiSelect={false}
+                searchable={false}
+                onChange={value => visConfiguratorProps.onChange({glyphType: value})}
+              />
+            </SidePanelSection>
+            <FieldColorsSelector
+              layer={layer}
+              fields={dataset?.fields || []}
+              property="glyphFields"
+              label={layer.visConfigSettings.glyphFields.label}
+              maxFields={MAX_GLYPH_FIELDS}
+              onChange={visConfiguratorProps.onChange}
+            />
+            <ConfigGroupCollapsibleContent>
+              <VisConfigSlider {...layer.visConfigSettings.opacity} {...visConfiguratorProps} />
+            </ConfigGroupCollapsibleContent>
+          </LayerConfigGroup>
+
+          {/* Radius */}
+          <LayerConfigGroup label={'layer.radius'} collapsible>
+            {!layer.config.sizeField ? (
+              <VisConfigSlider
+                {...layer.visConfigSettings.radius}
+                {...visConfiguratorProps}
+                label={false}
+              />
+            ) : (
+              <VisConfigSlider
+                {...layer.visConfigSettings.radiusRange}
+                {...visConfiguratorProps}
+                label={false}
+                disabled={visConfig.fixedRadius}
+              />
+            )}
+            <ConfigGroupCollapsibleContent>
+              <ChannelByValueSelector
+                channel={layer.visualChannels.size}
+                {...layerChannelConfigProps}
+              />
+              {layer.config.sizeField ? (
+                <VisConfigSwitch
+                  {...layer.visConfigSettings.fixedRadius}
+                  {...visConfiguratorProps}
+                />
+              ) : null}
+            </ConfigGroupCollapsibleContent>
+          </LayerConfigGroup>
+
+          {/* text label */}
+          <TextLabelPanel
+            id={layer.id}
+            fields={visConfiguratorProps.fields}
+            updateLayerTextLabel={this.props.updateLayerTextLabel}
+            textLabel={layer.config.textLabel}
+          />
+
+          {/* Interaction */}
+          <LayerConfigGroup label={'layer.interaction'} collapsible>
+            <VisConfigSwitch {...layer.visConfigSettings.allowHover} {...visConfiguratorProps} />
+          </LayerConfigGroup>
+        </StyledLayerVisualConfigurator>
+      );
+    }
+
     _renderHeatmapLayerConfig({layer, visConfiguratorProps, layerChannelConfigProps}) {
       return (
         <StyledLayerVisualConfigurator>
@@ -456,6 +797,100 @@ export default function LayerConfiguratorFactory(
       );
     }
 
+    _renderQuadkeyLayerConfig(props) {
+      return this._renderCellLayerConfig(props);
+    }
+
+    _renderGeohashLayerConfig(props) {
+      return this._renderCellLayerConfig(props);
+    }
+
+    _renderCellLayerConfig({layer, visConfiguratorProps, layerChannelConfigProps}) {
+      const {
+        visConfig: {enable3d, cellRollup}
+      } = layer.config;
+
+      return (
+        <StyledLayerVisualConfigurator>
+          {/* Color */}
+          <LayerConfigGroup label={'layer.color'} collapsible>
+            <ChannelByValueSelector
+              channel={layer.visualChannels.color}
+              {...layerChannelConfigProps}
+            />
+            <AggrScaleSelector {...layerChannelConfigProps} channel={layer.visualChannels.color} />
+            <LayerColorRangeSelector {...visConfiguratorProps} />
+            <ConfigGroupCollapsibleContent>
+              {layer.visConfigSettings.colorAggregation.condition(layer.config) ? (
+                <AggregationTypeSelector
+                  {...layer.visConfigSettings.colorAggregation}
+                  {...layerChannelConfigProps}
+                  description={'layer.colorByDescription'}
+                  channel={layer.visualChannels.color}
+                />
+              ) : null}
+              <VisConfigSlider {...layer.visConfigSettings.opacity} {...visConfiguratorProps} />
+            </ConfigGroupCollapsibleContent>
+          </LayerConfigGroup>
+
+          {/* Resolution rollup */}
+          <LayerConfigGroup
+            {...layer.visConfigSettings.cellRollup}
+            {...visConfiguratorProps}
+            collapsible
+          >
+            <VisConfigSlider
+              {...layer.visConfigSettings.resolution}
+              {...visConfiguratorProps}
+              disabled={!cellRollup}
+            />
+          </LayerConfigGroup>
+
+          {/* Elevation */}
+          <LayerConfigGroup
+            {...layer.visConfigSettings.enable3d}
+            {...visConfiguratorProps}
+            collapsible
+          >
+            <VisConfigSlider
+              {...layer.visConfigSettings.elevationScale}
+              {...visConfiguratorProps}
+              label={'layerVisConfigs.heightMultiplier'}
+            />
+            <ConfigGroupCollapsibleContent>
+              <ChannelByValueSelector
+                {...layerChannelConfigProps}
+                channel={layer.visualChannels.size}
+                description={'layer.elevationByDescription'}
+                disabled={!enable3d}
+              />
+              {layer.visConfigSettings.sizeAggregation.condition(layer.config) ? (
+                <AggregationTypeSelector
+                  {...layer.visConfigSettings.sizeAggregation}
+                  {...layerChannelConfigProps}
+                  channel={layer.visualChannels.size}
+                />
+              ) : null}
+              <AggrScaleSelector
+                {...layerChannelConfigProps}
+                channel={layer.visualChannels.size}
+                label={'Height Scale'}
+              />
+              <VisConfigSlider
+                {...layer.visConfigSettings.sizeRange}
+                {...visConfiguratorProps}
+                label={'layerVisConfigs.heightRange'}
+              />
+              <VisConfigSwitch
+                {...layer.visConfigSettings.enableElevationZoomFactor}
+                {...visConfiguratorProps}
+              />
+            </ConfigGroupCollapsibleContent>
+          </LayerConfigGroup>
+        </StyledLayerVisualConfigurator>
+      );
+    }
+
     // TODO: Shan move these into layer class
     _renderHexagonIdLayerConfig({
       layer,
@@ -476,8 +911,15 @@ export default function LayerConfiguratorFactory(
               channel={layer.visualChannels.color}
               {...layerChannelConfigProps}
             />
+            <BivariateColorSelector
+              channel={layer.visualChannels.color}
+              {...layerChannelConfigProps}
+              onChangeVisConfig={visConfiguratorProps.onChange}
+            />
             {layer.config.colorField ? (
-              <LayerColorRangeSelector {...visConfiguratorProps} />
+              layer.isBivariateChannel(layer.visualChannels.color) ? null : (
+                <LayerColorRangeSelector {...visConfiguratorProps} />
+              )
             ) : (
               <LayerColorSelector {...layerConfiguratorProps} />
             )}
@@ -751,8 +1193,15 @@ export default function LayerConfiguratorFactory(
                 channel={layer.visualChannels.color}
                 {...layerChannelConfigProps}
               />
+              <BivariateColorSelector
+                channel={layer.visualChannels.color}
+                {...layerChannelConfigProps}
+                onChangeVisConfig={visConfiguratorProps.onChange}
+              />
               {layer.config.colorField ? (
-                <LayerColorRangeSelector {...visConfiguratorProps} />
+                layer.isBivariateChannel(layer.visualChannels.color) ? null : (
+                  <LayerColorRangeSelector {...visConfiguratorProps} />
+                )
               ) : (
                 <LayerColorSelector {...layerConfiguratorProps} />
               )}
@@ -1037,7 +1486,9 @@ export default function LayerConfiguratorFactory(
         updateLayerConfig,
         layerTypeOptions,
         updateLayerType,
-        disableTypeSelect = false
+        disableTypeSelect = false,
+        createDatasetFromLayer,
+        layers = []
       } = this.props;
       const {fields = [], fieldPairs = undefined} = layer.config.dataId
         ? datasets[layer.config.dataId]
@@ -1098,10 +1549,19 @@ export default function LayerConfiguratorFactory(
             this[renderTemplate]({
               layer,
               dataset,
+              datasets,
               visConfiguratorProps,
               layerChannelConfigProps,
-              layerConfiguratorProps
+              layerConfiguratorProps,
+              createDatasetFromLayer
             })}
+          {layer.overlayType === OVERLAY_TYPE_CONST.deckgl ? (
+            <LayerBlendModeConfig
+              layer={layer}
+              layers={layers}
+              updateLayerConfig={updateLayerConfig}
+            />
+          ) : null}
         </StyledLayerConfigurator>
       );
     }
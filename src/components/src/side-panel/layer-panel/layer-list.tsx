@@ -167,6 +167,7 @@ function LayerListFactory(LayerPanel: ReturnType<typeof LayerPanelFactory>) {
         removeLayer: visStateActions.removeLayer,
         zoomToLayer: mapStateActions.fitBounds,
         duplicateLayer: visStateActions.duplicateLayer,
+        createDatasetFromLayer: visStateActions.createDatasetFromLayer,
         layerSetIsValid: visStateActions.layerSetIsValid
       }),
       [visStateActions, mapStateActions]
@@ -175,11 +176,12 @@ function LayerListFactory(LayerPanel: ReturnType<typeof LayerPanelFactory>) {
     const panelProps = useMemo(
       () => ({
         datasets,
+        layers,
         openModal,
         layerTypeOptions,
         splitMap
       }),
-      [datasets, openModal, layerTypeOptions, splitMap]
+      [datasets, layers, openModal, layerTypeOptions, splitMap]
     );
 
     return (
@@ -25,6 +25,7 @@ type LayerPanelProps = {
   onTouchStart?: TouchEventHandler;
   layer: Layer;
   datasets: Datasets;
+  layers?: Layer[];
   layerTypeOptions: {
     id: string;
     label: string;
@@ -46,6 +47,7 @@ type LayerPanelProps = {
   removeLayer: ActionHandler<typeof VisStateActions.removeLayer>;
   zoomToLayer: ActionHandler<typeof MapStateActions.fitBounds>;
   duplicateLayer: ActionHandler<typeof VisStateActions.duplicateLayer>;
+  createDatasetFromLayer?: ActionHandler<typeof VisStateActions.createDatasetFromLayer>;
   listeners?: React.ElementType;
   layerToggleVisibility: ActionHandler<typeof VisStateActions.layerToggleVisibility>;
   splitMap?: SplitMap;
@@ -137,6 +139,10 @@ function LayerPanelFactory(
       this.props.duplicateLayer(this.props.layer.id);
     };
 
+    _createDatasetFromLayer = () => {
+      this.props.createDatasetFromLayer?.(this.props.layer.id);
+    };
+
     render() {
       const {layer, datasets, isDraggable, layerTypeOptions, listeners, splitMap} = this.props;
       const {config, isValid} = layer;
@@ -176,6 +182,7 @@ function LayerPanelFactory(
             <LayerConfigurator
               layer={layer}
               datasets={datasets}
+              layers={this.props.layers}
               layerTypeOptions={layerTypeOptions}
               openModal={this.props.openModal}
               updateLayerColorUI={this.updateLayerColorUI}
@@ -184,6 +191,9 @@ function LayerPanelFactory(
               updateLayerType={this.updateLayerType}
               updateLayerTextLabel={this.updateLayerTextLabel}
               updateLayerVisConfig={this.updateLayerVisConfig}
+              createDatasetFromLayer={
+                this.props.createDatasetFromLayer ? this._createDatasetFromLayer : undefined
+              }
             />
           )}
         </PanelWrapper>
@@ -1,13 +1,14 @@
 // SPDX-License-Identifier: MIT
 // Copyright contributors to the kepler.gl project
 
-import React, {useEffect, useMemo} from 'react';
+import React, {useEffect, useMemo, useState} from 'react';
 import styled from 'styled-components';
 
 import {PMTilesType} from '@kepler.gl/constants';
 import {
   filterAvailablePresets,
   getEOBands,
+  getPixelHistogram,
   getRasterStatisticsMinMax,
   getSingleBandPresetOptions,
   isColormapAllowed,
@@ -19,24 +20,27 @@ import {
   DataSourceParams,
   PresetOption,
   RasterTileLayer,
+  AUTO_STRETCH_OPTIONS,
   CATEGORICAL_COLORMAP_ID,
   PRESET_OPTIONS,
   RASTER_COLOR_RESET_PARAMS,
   DATA_SOURCE_COLOR_DEFAULTS
 } from '@kepler.gl/layers';
 import {FormattedMessage} from '@kepler.gl/localization';
-import {capitalizeFirstLetter, getApplicationConfig} from '@kepler.gl/utils';
+import {capitalizeFirstLetter, getApplicationConfig, useDimensions} from '@kepler.gl/utils';
 import {KeplerTable as KeplerDataset} from '@kepler.gl/table';
 import type {StacTypes} from '@kepler.gl/types';
 
 import {getColorMapListItemComponent} from './raster-tile-colormap-list-item';
 
 import {
+  Button,
   Input,
   PanelLabel,
   PanelLabelWrapper,
   SidePanelSection
 } from '../../common/styled-components';
+import HistogramPlotFactory from '../../common/histogram-plot';
 import Switch from '../../common/switch';
 import InfoHelperFactory from '../../common/info-helper';
 import ItemSelector from '../../common/item-selector/item-selector';
@@ -50,6 +54,11 @@ type EOBand = StacTypes.Band;
 
 const STAC_SEARCH_UI_ENABLED = true;
 
+/** How often the viewport histogram checks for newly loaded tiles, in milliseconds */
+const VIEWPORT_SAMPLE_REFRESH_INTERVAL = 1000;
+const HISTOGRAM_HEIGHT = 50;
+const HISTOGRAM_MARGIN = {top: 0, bottom: 0, left: 0, right: 0};
+
 const StyledVisConfigSwitch = styled.div`
   display: flex;
   justify-content: space-between;
@@ -109,6 +118,33 @@ const DescriptionText = styled(PanelLabel)`
   }
 `;
 
+const StyledViewportHistogram = styled.div`
+  margin-bottom: 12px;
+`;
+
+const StyledStretchButtons = styled.div`
+  display: flex;
+  gap: 8px;
+  margin-top: 8px;
+`;
+
+/**
+ * Band values sampled from the tiles in the viewport. The layer updates the sample when
+ * tiles are loaded, outside of the redux state, so it is checked at a regular interval
+ */
+function useViewportPixelSample(layer: RasterTileLayer): Float32Array {
+  const [sample, setSample] = useState(layer.viewportPixelSample);
+  useEffect(() => {
+    setSample(layer.viewportPixelSample);
+    const interval = window.setInterval(
+      () => setSample(layer.viewportPixelSample),
+      VIEWPORT_SAMPLE_REFRESH_INTERVAL
+    );
+    return () => window.clearInterval(interval);
+  }, [layer]);
+  return sample;
+}
+
 // TODO: combine these two helpers into one
 function findVisConfigItemById(layer, prop) {
   return layer.visConfigSettings[prop].options.find(op => op.id === layer.config.visConfig[prop]);
@@ -209,19 +245,94 @@ type RasterTileLayerConfiguratorProps = {
   dataset: KeplerDataset;
 };
 
+type ViewportHistogramProps = {
+  layer: RasterTileLayer;
+  dataSourceParams: DataSourceParams | null;
+  onChange: (visConfig: Record<string, any>) => void;
+};
+
 RasterTileLayerConfiguratorFactory.deps = [
   LayerConfigGroupFactory,
   VisConfigSliderFactory,
   InfoHelperFactory,
-  VisConfigSwitchFactory
+  VisConfigSwitchFactory,
+  HistogramPlotFactory
 ];
 
 function RasterTileLayerConfiguratorFactory(
   LayerConfigGroup: ReturnType<typeof LayerConfigGroupFactory>,
   VisConfigSlider: ReturnType<typeof VisConfigSliderFactory>,
   InfoHelper: ReturnType<typeof InfoHelperFactory>,
-  VisConfigSwitch: ReturnType<typeof VisConfigSwitchFactory>
+  VisConfigSwitch: ReturnType<typeof VisConfigSwitchFactory>,
+  HistogramPlot: ReturnType<typeof HistogramPlotFactory>
 ): React.FC<RasterTileLayerConfiguratorProps> {
+  /**
+   * Histogram of the band values in the viewport, with presets to stretch them linearly
+   */
+  const ViewportHistogram = ({layer, dataSourceParams, onChange}: ViewportHistogramProps) => {
+    const sample = useViewportPixelSample(layer);
+    const [ref, size] = useDimensions<HTMLDivElement>();
+    const [minPixelValue, maxPixelValue] = layer.getPixelValueRange(dataSourceParams);
+    const {linearRescalingFactor, nonLinearRescaling} = layer.config.visConfig;
+
+    const histogramsByGroup = useMemo(
+      () => ({bins: getPixelHistogram(sample, [minPixelValue, maxPixelValue])}),
+      [sample, minPixelValue, maxPixelValue]
+    );
+    // highlight the values stretched to the full color range
+    const value = useMemo(() => {
+      const globalRange = maxPixelValue - minPixelValue;
+      return nonLinearRescaling
+        ? [minPixelValue, maxPixelValue]
+        : linearRescalingFactor.map(factor => minPixelValue + factor * globalRange);
+    }, [minPixelValue, maxPixelValue, linearRescalingFactor, nonLinearRescaling]);
+
+    if (!sample.length || !(maxPixelValue > minPixelValue)) {
+      return null;
+    }
+
+    return (
+      <SidePanelSection>
+        <PanelLabelWrapper>
+          <PanelLabel>Viewport Histogram</PanelLabel>
+        </PanelLabelWrapper>
+        <StyledViewportHistogram ref={ref}>
+          {size ? (
+            <HistogramPlot
+              histogramsByGroup={histogramsByGroup}
+              range={[minPixelValue, maxPixelValue]}
+              value={value}
+              isRanged
+              width={size.width}
+              height={HISTOGRAM_HEIGHT}
+              margin={HISTOGRAM_MARGIN}
+            />
+          ) : null}
+          <StyledStretchButtons>
+            {AUTO_STRETCH_OPTIONS.map(({id, label, percentiles}) => (
+              <Button
+                key={id}
+                secondary
+                small
+                onClick={() => {
+                  const stretch = layer.getAutoStretchVisConfig(
+                    [minPixelValue, maxPixelValue],
+                    percentiles
+                  );
+                  if (stretch) {
+                    onChange(stretch);
+                  }
+                }}
+              >
+                {label}
+              </Button>
+            ))}
+          </StyledStretchButtons>
+        </StyledViewportHistogram>
+      </SidePanelSection>
+    );
+  };
+
   /**
    * Wrapper around configurator to check for dataset.metadata being null/undefined
    */
@@ -319,6 +430,9 @@ function RasterTileLayerConfiguratorFactory(
         }),
       [categoricalColorMap, minCategoricalBandValue, maxCategoricalBandValue]
     );
+    const dataSourceParams = layer.getDataSourceParams(stac, preset, {
+      singleBand: singleBandPresetOptions
+    });
     const isDynamicColorsOnly = !isDataSourceColorRangeAvailable(
       layer,
       stac,
@@ -520,6 +634,12 @@ function RasterTileLayerConfiguratorFactory(
               label={nonLinearRescaling ? 'Non-Linear Rescaling' : 'Linear Rescaling'}
             />
 
+            <ViewportHistogram
+              layer={layer}
+              dataSourceParams={dataSourceParams}
+              onChange={visConfiguratorProps.onChange}
+            />
+
             {/* TODO: add sliders for red, green, blue, not a single slider */}
             {nonLinearRescaling ? (
               <div>
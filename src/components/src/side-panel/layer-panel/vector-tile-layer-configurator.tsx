@@ -6,7 +6,7 @@ import {connect} from 'react-redux';
 import styled from 'styled-components';
 
 import {VectorTileLayer} from '@kepler.gl/layers';
-import {KeplerTable as KeplerDataset} from '@kepler.gl/table';
+import {KeplerTable as KeplerDataset, Datasets} from '@kepler.gl/table';
 
 import SourceDataSelectorFactory from '../common/source-data-selector';
 import ChannelByValueSelectorFactory from './channel-by-value-selector';
@@ -15,6 +15,7 @@ import {LayerColorRangeSelectorFactory, LayerColorSelectorFactory} from './layer
 import VisConfigByZoomInput from './radius-by-zoom-input';
 import VisConfigSliderFactory from './vis-config-slider';
 import VisConfigSwitchFactory from './vis-config-switch';
+import VectorTileTableJoinConfigFactory from './vector-tile-table-join-config';
 
 const StyledLayerConfigurator = styled.div`
   margin-top: 12px;
@@ -25,6 +26,7 @@ type GetProps<T extends (...args: any[]) => React.FC<any>> = Parameters<ReturnTy
 type Props = {
   layer: VectorTileLayer;
   dataset?: KeplerDataset;
+  datasets: Datasets;
   visConfiguratorProps: any;
   layerChannelConfigProps: GetProps<typeof ChannelByValueSelectorFactory>;
   layerConfiguratorProps: any;
@@ -37,7 +39,8 @@ VectorTileLayerConfiguratorFactory.deps = [
   LayerConfigGroupFactory,
   VisConfigSliderFactory,
   VisConfigSwitchFactory,
-  SourceDataSelectorFactory
+  SourceDataSelectorFactory,
+  VectorTileTableJoinConfigFactory
 ];
 
 function VectorTileLayerConfiguratorFactory(
@@ -46,10 +49,14 @@ function VectorTileLayerConfiguratorFactory(
   LayerColorSelector: ReturnType<typeof LayerColorSelectorFactory>,
   LayerConfigGroup: ReturnType<typeof LayerConfigGroupFactory>,
   VisConfigSlider: ReturnType<typeof VisConfigSliderFactory>,
-  VisConfigSwitch: ReturnType<typeof VisConfigSwitchFactory>
+  VisConfigSwitch: ReturnType<typeof VisConfigSwitchFactory>,
+  SourceDataSelector: ReturnType<typeof SourceDataSelectorFactory>,
+  VectorTileTableJoinConfig: ReturnType<typeof VectorTileTableJoinConfigFactory>
 ): React.FC<Props> {
   const VectorTileLayerConfigurator = ({
     layer,
+    dataset,
+    datasets,
     visConfiguratorProps,
     layerChannelConfigProps,
     layerConfiguratorProps
@@ -190,6 +197,14 @@ function VectorTileLayerConfiguratorFactory(
             <VisConfigSwitch {...layer.visConfigSettings.radiusUnits} {...visConfiguratorProps} />
           </ConfigGroupCollapsibleContent>
         </LayerConfigGroup>
+
+        {/* Table join */}
+        <VectorTileTableJoinConfig
+          layer={layer}
+          dataset={dataset}
+          datasets={datasets}
+          updateLayerConfig={layerConfiguratorProps.onChange}
+        />
       </StyledLayerConfigurator>
     );
   };
@@ -0,0 +1,143 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {useCallback, useMemo} from 'react';
+import {useIntl} from 'react-intl';
+
+import {DatasetType} from '@kepler.gl/constants';
+import {VectorTileLayer, LayerBaseConfig} from '@kepler.gl/layers';
+import {FormattedMessage} from '@kepler.gl/localization';
+import KeplerTable, {Datasets} from '@kepler.gl/table';
+
+import ItemSelector from '../../common/item-selector/item-selector';
+import {PanelLabel, SidePanelSection} from '../../common/styled-components';
+import LayerConfigGroupFactory from './layer-config-group';
+
+type VectorTileTableJoinConfigProps = {
+  layer: VectorTileLayer;
+  /** tiled dataset of the layer */
+  dataset?: KeplerTable;
+  datasets: Datasets;
+  updateLayerConfig: (newConfig: Partial<LayerBaseConfig>) => void;
+};
+
+type Option = {id: string | null; label: string};
+
+const TILE_DATASET_TYPES: string[] = [DatasetType.VECTOR_TILE, DatasetType.RASTER_TILE];
+
+VectorTileTableJoinConfigFactory.deps = [LayerConfigGroupFactory];
+
+/**
+ * Join the features of a vector tile layer to the rows of a table by key,
+ * fields of the table can then be used in visual channels, tooltips and filters
+ */
+function VectorTileTableJoinConfigFactory(
+  LayerConfigGroup: ReturnType<typeof LayerConfigGroupFactory>
+) {
+  const VectorTileTableJoinConfig: React.FC<VectorTileTableJoinConfigProps> = ({
+    layer,
+    dataset,
+    datasets,
+    updateLayerConfig
+  }) => {
+    const intl = useIntl();
+    const tableJoin = useMemo(() => layer.config.tableJoin || {}, [layer.config.tableJoin]);
+    const table = tableJoin.dataId ? datasets[tableJoin.dataId] : null;
+
+    const tableOptions: Option[] = useMemo(
+      () => [
+        {id: null, label: intl.formatMessage({id: 'tableJoin.noTable'})},
+        ...Object.values(datasets)
+          .filter(d => !TILE_DATASET_TYPES.includes(d.type || ''))
+          .map(({id, label}) => ({id, label}))
+      ],
+      [intl, datasets]
+    );
+    const tileKeyOptions = useMemo(
+      () => (dataset?.fields || []).filter(f => !f.joinedFrom).map(f => f.name),
+      [dataset]
+    );
+    const tableKeyOptions = useMemo(() => (table?.fields || []).map(f => f.name), [table]);
+
+    const onSelectTable = useCallback(
+      option =>
+        updateLayerConfig({
+          tableJoin: option.id
+            ? {
+                dataId: option.id,
+                tileKey: tableJoin.tileKey,
+                // keep the key when the new table has the same field
+                tableKey: datasets[option.id].fields.some(f => f.name === tableJoin.tableKey)
+                  ? tableJoin.tableKey
+                  : undefined
+              }
+            : null
+        }),
+      [updateLayerConfig, tableJoin, datasets]
+    );
+
+    const onSelectTileKey = useCallback(
+      tileKey => updateLayerConfig({tableJoin: {...tableJoin, tileKey}}),
+      [updateLayerConfig, tableJoin]
+    );
+
+    const onSelectTableKey = useCallback(
+      tableKey => updateLayerConfig({tableJoin: {...tableJoin, tableKey}}),
+      [updateLayerConfig, tableJoin]
+    );
+
+    return (
+      <LayerConfigGroup label={'tableJoin.title'} collapsible>
+        <SidePanelSection>
+          <PanelLabel>
+            <FormattedMessage id="tableJoin.table" />
+          </PanelLabel>
+          <ItemSelector
+            selectedItems={tableOptions.find(({id}) => id === (tableJoin.dataId || null))}
+            options={tableOptions}
+            displayOption="label"
+            getOptionValue={option => option}
+            multiSelect={false}
+            searchable={false}
+            onChange={onSelectTable}
+          />
+        </SidePanelSection>
+        {table ? (
+          <>
+            <SidePanelSection>
+              <PanelLabel>
+                <FormattedMessage id="tableJoin.tileKey" />
+              </PanelLabel>
+              <ItemSelector
+                selectedItems={tableJoin.tileKey || null}
+                options={tileKeyOptions}
+                multiSelect={false}
+                searchable
+                placeholder="placeholder.selectField"
+                onChange={onSelectTileKey}
+              />
+            </SidePanelSection>
+            <SidePanelSection>
+              <PanelLabel>
+                <FormattedMessage id="tableJoin.tableKey" />
+              </PanelLabel>
+              <ItemSelector
+                selectedItems={tableJoin.tableKey || null}
+                options={tableKeyOptions}
+                multiSelect={false}
+                searchable
+                placeholder="placeholder.selectField"
+                onChange={onSelectTableKey}
+              />
+            </SidePanelSection>
+          </>
+        ) : null}
+      </LayerConfigGroup>
+    );
+  };
+
+  VectorTileTableJoinConfig.displayName = 'VectorTileTableJoinConfig';
+  return VectorTileTableJoinConfig;
+}
+
+export default VectorTileTableJoinConfigFactory;
@@ -7,7 +7,18 @@ import classnames from 'classnames';
 import {createSelector} from 'reselect';
 import {StyledPanelDropdown, Tooltip} from '../common/styled-components';
 import KeplerGlLogo from '../common/logo';
-import {Save, DataTable, Save2, Picture, Db, BaseMap, Share} from '../common/icons';
+import {
+  Save,
+  DataTable,
+  Save2,
+  Picture,
+  Play,
+  Db,
+  BaseMap,
+  Share,
+  Undo,
+  Redo
+} from '../common/icons';
 import Toolbar, {ToolbarProps} from '../common/toolbar';
 import ToolbarItem, {ToolbarItemProps} from '../common/toolbar-item';
 import {FormattedMessage} from '@kepler.gl/localization';
@@ -17,6 +28,7 @@ import useOnClickOutside from '../hooks/use-on-click-outside';
 
 type StyledPanelActionProps = {
   active?: boolean;
+  disabled?: boolean;
 };
 
 type ActionItem = {
@@ -29,6 +41,7 @@ type ActionItem = {
   iconComponentProps?: BaseProps;
   dropdownComponent?: React.ComponentType<DropdownComponentProps>;
   onClick?: () => void;
+  disabled?: boolean;
 };
 
 type PanelActionProps = {
@@ -52,6 +65,7 @@ type LogoComponentProps = {
 type DropdownCallbacks = {
   logoComponent?: React.FC<LogoComponentProps> | React.ComponentType<LogoComponentProps>;
   onExportImage: () => void;
+  onExportVideo?: () => void;
   onExportData: () => void;
   onExportConfig?: () => void;
   onExportMap: () => void;
@@ -82,6 +96,10 @@ export type PanelHeaderProps = {
   actionItems?: ActionItem[];
   showExportDropdown: (i: string) => void;
   hideExportDropdown: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
 } & DropdownCallbacks;
 
 const StyledPanelHeader = styled.div.attrs(props => ({
@@ -118,6 +136,7 @@ const StyledPanelAction = styled.div.attrs({
   margin-left: 4px;
   padding: 5px;
   font-weight: bold;
+  opacity: ${props => (props.disabled ? 0.4 : 1)};
   p {
     display: inline-block;
     margin-right: 6px;
@@ -127,11 +146,11 @@ const StyledPanelAction = styled.div.attrs({
   }
 
   &:hover {
-    cursor: pointer;
-    color: ${props => props.theme.textColorHl};
+    cursor: ${props => (props.disabled ? 'not-allowed' : 'pointer')};
+    color: ${props => (props.disabled ? props.theme.subtextColor : props.theme.textColorHl)};
 
     a {
-      color: ${props => props.theme.textColorHl};
+      color: ${props => (props.disabled ? props.theme.subtextColor : props.theme.textColorHl)};
     }
   }
 `;
@@ -142,6 +161,9 @@ const StyledToolbar = styled(Toolbar)<ToolbarProps>`
 
 const PanelAction: React.FC<PanelActionProps> = React.memo(({item, showExportDropdown}) => {
   const onClick = useCallback(() => {
+    if (item.disabled) {
+      return;
+    }
     if (item.dropdownComponent) {
       showExportDropdown(item.id);
     } else {
@@ -154,6 +176,7 @@ const PanelAction: React.FC<PanelActionProps> = React.memo(({item, showExportDro
       id={`${item.id}-action`}
       data-tip
       data-for={`${item.id}-action`}
+      disabled={item.disabled}
       onClick={onClick}
     >
       {item.label ? <p>{item.label}</p> : null}
@@ -221,6 +244,12 @@ export const SaveExportDropdownFactory = (
       key: 'image',
       onClick: props => props.onExportImage
     },
+    {
+      label: 'toolbar.exportVideo',
+      icon: Play,
+      key: 'video',
+      onClick: props => props.onExportVideo
+    },
     {
       label: 'toolbar.exportData',
       icon: DataTable,
@@ -341,10 +370,35 @@ function PanelHeaderFactory(
         visibleDropdown,
         showExportDropdown,
         hideExportDropdown,
+        onUndo,
+        onRedo,
+        canUndo,
+        canRedo,
         ...dropdownCallbacks
       } = this.props;
       let items = actionItems || [];
 
+      // render undo / redo buttons before other actions if the callbacks are provided
+      if (typeof onUndo === 'function' && typeof onRedo === 'function') {
+        items = [
+          {
+            id: 'undo',
+            iconComponent: Undo,
+            tooltip: 'tooltip.undo',
+            onClick: onUndo,
+            disabled: !canUndo
+          },
+          {
+            id: 'redo',
+            iconComponent: Redo,
+            tooltip: 'tooltip.redo',
+            onClick: onRedo,
+            disabled: !canRedo
+          },
+          ...items
+        ];
+      }
+
       // don't render cloud storage icon if onSaveToStorage is not provided
       if (typeof this.props.onSaveToStorage !== 'function') {
         items = items.filter(ai => ai.id !== 'storage');
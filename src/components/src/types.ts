@@ -4,7 +4,7 @@
 import React, {HTMLAttributes, PropsWithChildren} from 'react';
 import {MapStyle} from '@kepler.gl/reducers';
 import {Layer, LayerClassesType} from '@kepler.gl/layers';
-import {Filter, InteractionConfig, UiState} from '@kepler.gl/types';
+import {Filter, FilterGroup, InteractionConfig, UiState} from '@kepler.gl/types';
 
 import {
   MapStyleActions,
@@ -13,6 +13,7 @@ import {
   UIStateActions
 } from '@kepler.gl/actions';
 import {Datasets} from '@kepler.gl/table';
+import {UndoHistory} from '@kepler.gl/schemas';
 
 export type BaseComponentProps = PropsWithChildren<HTMLAttributes<unknown>>;
 
@@ -27,9 +28,11 @@ export type SidePanelProps = {
   appName: string;
   appWebsite: string;
   filters: Filter[];
+  filterGroups?: FilterGroup[];
   interactionConfig: InteractionConfig;
   layerBlending: string;
   overlayBlending?: string;
+  undoHistory?: UndoHistory;
   layers: Layer[];
   layerClasses: LayerClassesType;
   layerOrder: string[];
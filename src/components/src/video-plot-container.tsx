@@ -0,0 +1,278 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+// libraries
+import React, {Component, createRef} from 'react';
+import styled from 'styled-components';
+import {Map} from 'react-map-gl';
+import debounce from 'lodash/debounce';
+import {
+  captureMapCanvas,
+  createVideoEncoder,
+  downloadFile,
+  errorNotification,
+  getAnimationFrameValue,
+  getVideoAnimation,
+  getVideoFrameCount
+} from '@kepler.gl/utils';
+import MapContainerFactory from './map-container';
+import MapsLayoutFactory from './maps-layout';
+import {MapViewStateContextProvider} from './map-view-state-context';
+
+import {EXPORT_VIDEO_FORMATS, ExportVideo} from '@kepler.gl/constants';
+import {Effect, SplitMap} from '@kepler.gl/types';
+import {
+  ActionHandler,
+  addNotification,
+  cleanupExportVideo,
+  setExportVideoSetting,
+  setFilterAnimationTime,
+  setLayerAnimationTime,
+  toggleModal
+} from '@kepler.gl/actions';
+import {mapFieldsSelector} from './kepler-gl';
+
+const OUT_OF_SCREEN_POSITION = -9999;
+// number of animation frames to wait for deck.gl to redraw after updating the animation time
+const RENDER_WAIT_FRAMES = 3;
+// dispatch progress every n frames, to avoid re-rendering the modal on every frame
+const PROGRESS_UPDATE_INTERVAL = 5;
+
+const VIDEO_FILE_EXTENSIONS = {
+  [EXPORT_VIDEO_FORMATS.WEBM]: 'webm',
+  [EXPORT_VIDEO_FORMATS.GIF]: 'gif'
+};
+
+VideoPlotContainerFactory.deps = [MapContainerFactory, MapsLayoutFactory];
+
+const StyledVideoPlotContainer = styled.div`
+  .maplibregl-ctrl-bottom-left,
+  .maplibregl-ctrl-bottom-right,
+  .maplibre-attribution-container,
+  .mapboxgl-ctrl-bottom-left,
+  .mapboxgl-ctrl-bottom-right,
+  .mapbox-attribution-container,
+  .map-control__panel-split-viewport-tools {
+    display: none;
+  }
+
+  position: absolute;
+  top: ${OUT_OF_SCREEN_POSITION}px;
+  left: ${OUT_OF_SCREEN_POSITION}px;
+`;
+
+interface StyledMapContainerProps {
+  width?: number;
+  height?: number;
+}
+
+const StyledMapContainer = styled.div<StyledMapContainerProps>`
+  width: ${props => props.width}px;
+  height: ${props => props.height}px;
+  display: flex;
+`;
+
+interface VideoPlotContainerProps {
+  appName: string;
+  exportVideoSetting: ExportVideo;
+  mapFields: ReturnType<typeof mapFieldsSelector>;
+  addNotification: ActionHandler<typeof addNotification>;
+  setExportVideoSetting: ActionHandler<typeof setExportVideoSetting>;
+  cleanupExportVideo: ActionHandler<typeof cleanupExportVideo>;
+  setFilterAnimationTime: ActionHandler<typeof setFilterAnimationTime>;
+  setLayerAnimationTime: ActionHandler<typeof setLayerAnimationTime>;
+  toggleModal: ActionHandler<typeof toggleModal>;
+  splitMaps?: SplitMap[];
+}
+
+interface VideoPlotContainerState {
+  plotEffects: Effect[];
+}
+
+function waitForAnimationFrames(count: number): Promise<void> {
+  return new Promise(resolve => {
+    const next = remaining =>
+      remaining > 0 ? requestAnimationFrame(() => next(remaining - 1)) : resolve();
+    next(count);
+  });
+}
+
+export default function VideoPlotContainerFactory(
+  MapContainer: ReturnType<typeof MapContainerFactory>,
+  MapsLayout: ReturnType<typeof MapsLayoutFactory>
+): React.ComponentType<VideoPlotContainerProps> {
+  /**
+   * Offscreen map that renders the filter or layer animation frame by frame and encodes
+   * the frames into a video. The animation time is stepped deterministically, each frame
+   * is captured only after the map has been redrawn.
+   */
+  class VideoPlotContainer extends Component<VideoPlotContainerProps, VideoPlotContainerState> {
+    constructor(props) {
+      super(props);
+      this._onMapRender = debounce(this._onMapRender, 500);
+
+      this.state = {
+        plotEffects: this.props.mapFields.visState.effects.map(effect => effect.clone())
+      };
+    }
+
+    componentWillUnmount() {
+      this._unmounted = true;
+    }
+
+    plottingAreaRef = createRef<HTMLDivElement>();
+    _started = false;
+    _unmounted = false;
+
+    _onMapRender = map => {
+      if (!this._started && map.isStyleLoaded()) {
+        this._started = true;
+        this._renderVideo();
+      }
+    };
+
+    _setAnimationValue = (filterIdx: number | null, value) => {
+      if (filterIdx === null) {
+        this.props.setLayerAnimationTime(value);
+      } else {
+        this.props.setFilterAnimationTime(filterIdx, 'value', value);
+      }
+    };
+
+    _renderVideo = async () => {
+      const {exportVideoSetting, mapFields, appName} = this.props;
+      const {format, frameRate, duration, imageSize} = exportVideoSetting;
+      const animation = getVideoAnimation(mapFields.visState, exportVideoSetting);
+
+      if (!animation) {
+        this._onError(new Error('No time filter or layer animation to export'));
+        return;
+      }
+
+      const frameCount = getVideoFrameCount(duration, frameRate);
+      const canvas = document.createElement('canvas');
+
+      try {
+        const encoder = createVideoEncoder({
+          format,
+          width: imageSize.imageW,
+          height: imageSize.imageH,
+          frameRate
+        });
+
+        for (let i = 0; i < frameCount; i++) {
+          if (this._unmounted || !this.plottingAreaRef.current) {
+            // export is cancelled
+            this._setAnimationValue(animation.filterIdx, animation.value);
+            return;
+          }
+          this._setAnimationValue(
+            animation.filterIdx,
+            getAnimationFrameValue(i, frameCount, animation)
+          );
+          await waitForAnimationFrames(RENDER_WAIT_FRAMES);
+
+          captureMapCanvas(
+            this.plottingAreaRef.current,
+            imageSize.imageW,
+            imageSize.imageH,
+            canvas
+          );
+          encoder.addFrame(canvas, i);
+
+          if (i % PROGRESS_UPDATE_INTERVAL === 0) {
+            this.props.setExportVideoSetting({progress: (i + 1) / frameCount});
+          }
+        }
+
+        const blob = await encoder.finalize();
+        downloadFile(blob, `${appName}.${VIDEO_FILE_EXTENSIONS[format]}`);
+        this._setAnimationValue(animation.filterIdx, animation.value);
+        this.props.cleanupExportVideo();
+        this.props.toggleModal(null);
+      } catch (err) {
+        this._setAnimationValue(animation.filterIdx, animation.value);
+        this._onError(err);
+      }
+    };
+
+    _onError = err => {
+      this.props.setExportVideoSetting({exporting: false, progress: 0, error: err});
+      this.props.addNotification(
+        errorNotification({
+          message: `Failed to export video: ${err?.message || err}`,
+          id: 'export-video-error'
+        })
+      );
+    };
+
+    render() {
+      const {exportVideoSetting, mapFields, splitMaps = []} = this.props;
+      const {mapState} = mapFields;
+      const {imageSize} = exportVideoSetting;
+
+      const isSplit = splitMaps && splitMaps.length > 1;
+
+      const size = {
+        width: imageSize?.imageW || 1,
+        height: imageSize?.imageH || 1
+      };
+      const width = size.width / (isSplit ? 2 : 1);
+      const height = size.height;
+      const scale = imageSize.scale || 1;
+      const newMapState = {
+        ...mapState,
+        width,
+        height,
+        zoom: mapState.zoom + (Math.log2(scale) || 0)
+      };
+
+      const mapProps = {
+        ...mapFields,
+        // override viewport based on export settings
+        mapState: newMapState,
+        mapControls: {
+          mapLegend: {
+            show: false,
+            active: false
+          }
+        },
+        MapComponent: Map,
+        onMapRender: this._onMapRender,
+        isExport: true,
+        deckGlProps: {
+          ...mapFields.deckGlProps,
+          glOptions: {
+            preserveDrawingBuffer: true,
+            useDevicePixels: false
+          }
+        },
+        visState: {
+          ...mapFields.visState,
+          // Make sure to use effects not associated with a different WebGL context
+          effects: this.state.plotEffects
+        }
+      };
+
+      const mapContainers = !isSplit ? (
+        <MapContainer index={0} primary={true} {...mapProps} />
+      ) : (
+        <MapsLayout className="plot-container-maps" mapState={newMapState}>
+          {splitMaps.map((settings, index) => (
+            <MapContainer key={index} index={index} primary={index === 1} {...mapProps} />
+          ))}
+        </MapsLayout>
+      );
+      return (
+        <StyledVideoPlotContainer className="export-video-instance">
+          <StyledMapContainer ref={this.plottingAreaRef} width={size.width} height={size.height}>
+            <MapViewStateContextProvider mapState={newMapState}>
+              {mapContainers}
+            </MapViewStateContextProvider>
+          </StyledMapContainer>
+        </StyledVideoPlotContainer>
+      );
+    }
+  }
+  return VideoPlotContainer;
+}
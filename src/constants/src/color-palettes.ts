@@ -6,7 +6,7 @@ import {range} from 'd3-array';
 import chroma from 'chroma-js';
 import Console from 'global/console';
 import {color as d3Color} from 'd3-color';
-import {HexColor, MiniColorRange, ValueOf} from '@kepler.gl/types';
+import {ColorRange, HexColor, MiniColorRange, ValueOf} from '@kepler.gl/types';
 
 type GetColors = (steps: number) => HexColor[];
 // linear interpolator
@@ -35,6 +35,14 @@ export type SequentialPalette = {
 
 export type ColorPalette = CategoricalPalette | SequentialPalette;
 
+export type BivariatePalette = {
+  name: string;
+  type: 'bivariate';
+  colorBlindSafe: boolean;
+  // colors of a cols x rows matrix, row major starting from the lowest class of both fields
+  colors: (cols: number, rows: number) => HexColor[];
+};
+
 export const CATEGORIES = {
   COLORBREWER: 'ColorBrewer',
   D3: 'D3',
@@ -618,3 +626,74 @@ export function colorPaletteToColorRange(
     ...(reversed ? {reversed} : {})
   };
 }
+
+/**
+ * Build a bivariate palette by interpolating the colors at the 4 corners of the matrix
+ * in lab space
+ */
+function buildBivariatePalette({
+  name,
+  corners: [lowLow, highLow, lowHigh, highHigh],
+  colorBlindSafe
+}: {
+  name: string;
+  // colors of low - low, high first field - low second field, low - high, and high - high
+  corners: [HexColor, HexColor, HexColor, HexColor];
+  colorBlindSafe: boolean;
+}): BivariatePalette {
+  const getRatio = (i: number, n: number) => (n > 1 ? i / (n - 1) : 0);
+
+  return {
+    name,
+    type: 'bivariate',
+    colorBlindSafe,
+    colors: (cols, rows) =>
+      range(0, rows, 1).flatMap(row => {
+        const ty = getRatio(row, rows);
+        const left = chroma.mix(lowLow, lowHigh, ty, 'lab');
+        const right = chroma.mix(highLow, highHigh, ty, 'lab');
+        return range(0, cols, 1).map(col =>
+          _colorToUppercase(chroma.mix(left, right, getRatio(col, cols), 'lab').hex())
+        );
+      })
+  };
+}
+
+// corner colors of the bivariate palettes by Joshua Stevens and Teuling et al.
+export const BIVARIATE_COLOR_PALETTES: BivariatePalette[] = [
+  buildBivariatePalette({
+    name: 'Pink Blue',
+    corners: ['#E8E8E8', '#C85A5A', '#64ACBE', '#574249'],
+    colorBlindSafe: false
+  }),
+  buildBivariatePalette({
+    name: 'Green Blue',
+    corners: ['#E8E8E8', '#6C83B5', '#73AE80', '#2A5A5B'],
+    colorBlindSafe: false
+  }),
+  buildBivariatePalette({
+    name: 'Purple Teal',
+    corners: ['#E8E8E8', '#5AC8C8', '#BE64AC', '#3B4994'],
+    colorBlindSafe: true
+  }),
+  buildBivariatePalette({
+    name: 'Blue Orange',
+    corners: ['#FEF1E4', '#F3742D', '#18AEE5', '#5C473D'],
+    colorBlindSafe: true
+  })
+];
+
+/**
+ * create bivariate color range from palette, with number of classes of each field
+ */
+export function bivariatePaletteToColorRange(
+  palette: BivariatePalette,
+  {cols, rows}: {cols: number; rows: number}
+): ColorRange {
+  return {
+    name: palette.name,
+    type: palette.type,
+    colors: palette.colors(cols, rows),
+    bivariate: {cols, rows}
+  };
+}
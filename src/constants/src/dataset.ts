@@ -52,11 +52,14 @@ export type RasterTileRemoteMetadata = {
 
 export enum RasterTileType {
   STAC = 'stac',
-  PMTILES = 'pmtiles'
+  PMTILES = 'pmtiles',
+  /** Standalone Cloud-Optimized GeoTIFF, read by range requests without a STAC catalog */
+  COG = 'cog'
 }
 
 export type RasterTileMetadataSourceType = {
   pmtilesType?: PMTilesType;
+  rasterTileType?: RasterTileType;
 };
 
 /**
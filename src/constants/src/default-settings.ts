@@ -58,6 +58,13 @@ export const ADD_DATA_ID = 'addData';
  * @public
  */
 export const EXPORT_IMAGE_ID = 'exportImage';
+/**
+ * Modal id: export video modal
+ * @constant
+ * @type {string}
+ * @public
+ */
+export const EXPORT_VIDEO_ID = 'exportVideo';
 /**
  * Modal id: export data modal
  * @constant
@@ -437,6 +444,16 @@ export const FILTER_VIEW_TYPES = keyMirror({
 
 export const DEFAULT_FILTER_VIEW_TYPE = FILTER_VIEW_TYPES.side;
 
+/**
+ * Boolean operators used to compose filters in a filter group.
+ * Filters and groups without a parent group are always combined with `and`.
+ */
+export const FILTER_GROUP_OPERATORS = keyMirror({
+  and: null,
+  or: null,
+  not: null
+});
+
 export type SCALE_TYPES_DEF = {
   ordinal: 'ordinal';
   quantile: 'quantile';
@@ -448,6 +465,9 @@ export type SCALE_TYPES_DEF = {
   threshold: 'threshold';
   custom: 'custom';
   customOrdinal: 'customOrdinal';
+  jenks: 'jenks';
+  equalInterval: 'equalInterval';
+  stdDev: 'stdDev';
 };
 
 export const SCALE_TYPES: SCALE_TYPES_DEF = keyMirror({
@@ -461,7 +481,11 @@ export const SCALE_TYPES: SCALE_TYPES_DEF = keyMirror({
   custom: null,
   customOrdinal: null,
   // ordinal domain to linear range
-  point: null
+  point: null,
+  // classification of linear domain into threshold breaks
+  jenks: null,
+  equalInterval: null,
+  stdDev: null
 });
 export const SCALE_TYPE_NAMES: {[key in keyof SCALE_TYPES_DEF]: string} = {
   ordinal: 'Ordinal',
@@ -473,7 +497,10 @@ export const SCALE_TYPE_NAMES: {[key in keyof SCALE_TYPES_DEF]: string} = {
   threshold: 'Threshold',
   custom: 'Custom Breaks',
   customOrdinal: 'Custom Ordinal',
-  point: 'Point'
+  point: 'Point',
+  jenks: 'Jenks Natural Breaks',
+  equalInterval: 'Equal Interval',
+  stdDev: 'Standard Deviation'
 };
 
 export type SCALE_FUNC_TYPE = {
@@ -490,9 +517,21 @@ export const SCALE_FUNC = {
   [SCALE_TYPES.point]: scalePoint,
   [SCALE_TYPES.threshold]: scaleThreshold,
   [SCALE_TYPES.custom]: scaleThreshold,
-  [SCALE_TYPES.customOrdinal]: scaleOrdinal
+  [SCALE_TYPES.customOrdinal]: scaleOrdinal,
+  [SCALE_TYPES.jenks]: scaleThreshold,
+  [SCALE_TYPES.equalInterval]: scaleThreshold,
+  [SCALE_TYPES.stdDev]: scaleThreshold
 };
 
+/**
+ * Scales that classify a linear domain into threshold breaks by the number of colors
+ */
+export const CLASSIFICATION_SCALE_TYPES: string[] = [
+  SCALE_TYPES.jenks,
+  SCALE_TYPES.equalInterval,
+  SCALE_TYPES.stdDev
+];
+
 export const ALL_FIELD_TYPES = keyMirror({
   boolean: null,
   date: null,
@@ -691,7 +730,12 @@ export const AGGREGATION_TYPE_OPTIONS: {id: string; label: string}[] = Object.en
 }));
 
 export const linearFieldScaleFunctions = {
-  [CHANNEL_SCALES.color]: [SCALE_TYPES.quantize, SCALE_TYPES.quantile, SCALE_TYPES.custom],
+  [CHANNEL_SCALES.color]: [
+    SCALE_TYPES.quantize,
+    SCALE_TYPES.quantile,
+    SCALE_TYPES.custom,
+    ...CLASSIFICATION_SCALE_TYPES
+  ],
   [CHANNEL_SCALES.radius]: [SCALE_TYPES.sqrt],
   [CHANNEL_SCALES.size]: [SCALE_TYPES.linear, SCALE_TYPES.sqrt, SCALE_TYPES.log]
 };
@@ -969,6 +1013,49 @@ export const LAYER_BLENDINGS = {
   }
 };
 
+/**
+ * Blend modes that can be set on a single layer, overriding the global layer blending
+ */
+export const LAYER_BLEND_MODES = {
+  ...LAYER_BLENDINGS,
+  multiply: {
+    label: 'layerBlending.multiply',
+    blendFunc: ['DST_COLOR', 'ONE_MINUS_SRC_ALPHA', 'ONE', 'ONE_MINUS_SRC_ALPHA'],
+    blendEquation: ['FUNC_ADD', 'FUNC_ADD']
+  },
+  screen: {
+    label: 'layerBlending.screen',
+    blendFunc: ['ONE', 'ONE_MINUS_SRC_COLOR', 'ONE', 'ONE_MINUS_SRC_ALPHA'],
+    blendEquation: ['FUNC_ADD', 'FUNC_ADD']
+  },
+  lighten: {
+    label: 'layerBlending.lighten',
+    blendFunc: ['ONE', 'ONE'],
+    blendEquation: 'MAX'
+  },
+  darken: {
+    label: 'layerBlending.darken',
+    blendFunc: ['ONE', 'ONE'],
+    blendEquation: 'MIN'
+  }
+};
+
+/**
+ * Directions of a spatial join between a point and a polygon dataset
+ */
+export const SPATIAL_JOIN_TYPES = keyMirror({
+  // add attributes of the polygon containing each point to the point dataset
+  polygonAttributes: null,
+  // add counts, sums or averages of the points in each polygon to the polygon dataset
+  pointAggregation: null
+});
+
+export const SPATIAL_JOIN_AGGREGATIONS = keyMirror({
+  count: null,
+  sum: null,
+  average: null
+});
+
 export const MAX_DEFAULT_TOOLTIPS = 5;
 
 export const RESOLUTIONS = keyMirror({
@@ -983,7 +1070,15 @@ export const EXPORT_IMG_RATIOS = keyMirror({
   CUSTOM: null
 });
 
+export const EXPORT_IMG_FORMATS = keyMirror({
+  PNG: null,
+  SVG: null,
+  PDF: null
+});
+
 export type ExportImage = {
+  // png is a raster screenshot, svg and pdf write supported layers as vector paths
+  format?: keyof typeof EXPORT_IMG_FORMATS;
   ratio: keyof typeof EXPORT_IMG_RATIOS;
   resolution: keyof typeof RESOLUTIONS;
   legend: boolean;
@@ -1005,6 +1100,57 @@ export type ExportImage = {
   center: boolean;
 };
 
+export const EXPORT_IMG_FORMAT_OPTIONS = [
+  {id: EXPORT_IMG_FORMATS.PNG, label: 'png', extension: 'png'},
+  {id: EXPORT_IMG_FORMATS.SVG, label: 'svg', extension: 'svg'},
+  {id: EXPORT_IMG_FORMATS.PDF, label: 'pdf', extension: 'pdf'}
+];
+
+export const EXPORT_VIDEO_FORMATS = keyMirror({
+  WEBM: null,
+  GIF: null
+});
+
+// what drives the exported animation, a time range filter or the layer animation (trip layer)
+export const EXPORT_VIDEO_SOURCES = keyMirror({
+  FILTER: null,
+  LAYER: null
+});
+
+export type ExportVideo = {
+  format: keyof typeof EXPORT_VIDEO_FORMATS;
+  source: keyof typeof EXPORT_VIDEO_SOURCES;
+  // id of the time range filter to animate, when source is FILTER
+  filterId: string | null;
+  ratio: keyof typeof EXPORT_IMG_RATIOS;
+  resolution: keyof typeof RESOLUTIONS;
+  // frames per second
+  frameRate: number;
+  // video duration in seconds
+  duration: number;
+  mapH: number;
+  mapW: number;
+  imageSize: {
+    scale: number;
+    imageW: number;
+    imageH: number;
+  };
+  // exporting state
+  exporting: boolean;
+  // 0 - 1, progress of rendering and encoding frames
+  progress: number;
+  error: Error | false;
+};
+
+export const EXPORT_VIDEO_FORMAT_OPTIONS = [
+  {id: EXPORT_VIDEO_FORMATS.WEBM, label: 'webm'},
+  {id: EXPORT_VIDEO_FORMATS.GIF, label: 'gif'}
+];
+
+export const EXPORT_VIDEO_FRAME_RATE_OPTIONS = [10, 15, 24, 30];
+
+export const EXPORT_VIDEO_DURATION_OPTIONS = [3, 5, 10, 20];
+
 export type ImageRatioOption = {
   id: keyof typeof EXPORT_IMG_RATIOS;
   label: string;
@@ -1083,10 +1229,12 @@ export const EXPORT_IMG_RESOLUTION_OPTIONS: ReadonlyArray<ImageResolutionOption>
 ];
 
 export const EXPORT_DATA_TYPE = keyMirror({
-  CSV: null
+  CSV: null,
+  GEOJSON: null,
+  ARROW: null,
+  PARQUET: null
   // SHAPEFILE: null,
   // JSON: null,
-  // GEOJSON: null,
   // TOPOJSON: null
 });
 
@@ -1095,6 +1243,21 @@ export const EXPORT_DATA_TYPE_OPTIONS = [
     id: EXPORT_DATA_TYPE.CSV,
     label: EXPORT_DATA_TYPE.CSV.toLowerCase(),
     available: true
+  },
+  {
+    id: EXPORT_DATA_TYPE.GEOJSON,
+    label: 'geojson',
+    available: true
+  },
+  {
+    id: EXPORT_DATA_TYPE.ARROW,
+    label: 'arrow',
+    available: true
+  },
+  {
+    id: EXPORT_DATA_TYPE.PARQUET,
+    label: 'parquet',
+    available: true
   }
   // {
   //   id: EXPORT_DATA_TYPE.SHAPEFILE,
@@ -1107,11 +1270,6 @@ export const EXPORT_DATA_TYPE_OPTIONS = [
   //   available: false
   // },
   // {
-  //   id: EXPORT_DATA_TYPE.GEOJSON,
-  //   label: 'geojson',
-  //   available: false
-  // },
-  // {
   //   id: EXPORT_DATA_TYPE.TOPOJSON,
   //   label: 'topojson',
   //   available: false
@@ -1260,7 +1418,10 @@ export const DATASET_FORMATS = keyMirror({
   csv: null,
   keplergl: null,
   arrow: null,
-  duckdb: null
+  parquet: null,
+  duckdb: null,
+  shapefile: null,
+  geopackage: null
 });
 
 export const MAP_CONTROLS = keyMirror({
@@ -15,5 +15,7 @@ KeyEvent.DOM_VK_ENTER = KeyEvent.DOM_VK_ENTER || 14;
 KeyEvent.DOM_VK_ESCAPE = KeyEvent.DOM_VK_ESCAPE || 27;
 KeyEvent.DOM_VK_TAB = KeyEvent.DOM_VK_TAB || 9;
 KeyEvent.DOM_VK_DELETE = KeyEvent.DOM_VK_DELETE || 46;
+KeyEvent.DOM_VK_Y = KeyEvent.DOM_VK_Y || 89;
+KeyEvent.DOM_VK_Z = KeyEvent.DOM_VK_Z || 90;
 
 export default KeyEvent;
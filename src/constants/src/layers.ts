@@ -6,7 +6,9 @@ import keyMirror from 'keymirror';
 import {
   AGGREGATION_TYPES,
   DEFAULT_LAYER_COLOR_PALETTE,
-  DEFAULT_LAYER_COLOR_PALETTE_STEPS
+  ALL_FIELD_TYPES,
+  DEFAULT_LAYER_COLOR_PALETTE_STEPS,
+  SCALE_TYPES
 } from './default-settings';
 import {
   ColorRange,
@@ -16,7 +18,13 @@ import {
   LayerVisConfigSettings,
   RGBAColor
 } from '@kepler.gl/types';
-import {ColorPalette, KEPLER_COLOR_PALETTES, colorPaletteToColorRange} from './color-palettes';
+import {
+  BIVARIATE_COLOR_PALETTES,
+  ColorPalette,
+  KEPLER_COLOR_PALETTES,
+  bivariatePaletteToColorRange,
+  colorPaletteToColorRange
+} from './color-palettes';
 
 export type AggregationTypes = keyof typeof AGGREGATION_TYPES;
 
@@ -59,6 +67,19 @@ export const DEFAULT_COLOR_RANGE = colorPaletteToColorRange(DEFAULT_COLOR_PALETT
   steps: DEFAULT_LAYER_COLOR_PALETTE_STEPS
 });
 
+export const DEFAULT_BIVARIATE_COLOR_RANGE = bivariatePaletteToColorRange(
+  BIVARIATE_COLOR_PALETTES[0],
+  {cols: 3, rows: 3}
+);
+
+/** Config keys of the second field of a bivariate color channel */
+export const BIVARIATE_COLOR_CHANNEL = {field: 'colorField2', domain: 'colorDomain2'};
+
+/** Scales to classify each field of a bivariate color channel */
+export const BIVARIATE_SCALE_TYPES: string[] = [SCALE_TYPES.quantile, SCALE_TYPES.quantize];
+/** Field types that can be mapped to a bivariate color channel */
+export const BIVARIATE_FIELD_TYPES: string[] = [ALL_FIELD_TYPES.integer, ALL_FIELD_TYPES.real];
+
 export const DEFAULT_CUSTOM_PALETTE: ColorRange = {
   name: 'color.customPalette',
   type: 'custom',
@@ -88,6 +109,33 @@ export const DEFAULT_COLOR_UI: ColorUI = {
   }
 };
 
+export const VORONOI_CLIP_MODES = keyMirror({
+  bounds: null,
+  viewport: null,
+  polygon: null
+});
+
+export const VORONOI_CLIP_OPTIONS: {id: string; label: string}[] = [
+  {id: VORONOI_CLIP_MODES.bounds, label: 'Data extent'},
+  {id: VORONOI_CLIP_MODES.viewport, label: 'Viewport'},
+  {id: VORONOI_CLIP_MODES.polygon, label: 'Polygon filter'}
+];
+
+export const GLYPH_TYPES = keyMirror({
+  pie: null,
+  donut: null,
+  bar: null
+});
+
+export const GLYPH_TYPE_OPTIONS: {id: string; label: string}[] = [
+  {id: GLYPH_TYPES.pie, label: 'Pie'},
+  {id: GLYPH_TYPES.donut, label: 'Donut'},
+  {id: GLYPH_TYPES.bar, label: 'Bar'}
+];
+
+/** Max number of fields of a glyph, slice colors are passed to the shader in a fixed size array */
+export const MAX_GLYPH_FIELDS = 8;
+
 export const LAYER_VIS_CONFIGS: LayerVisConfigSettings = {
   thickness: {
     type: 'number',
@@ -504,6 +552,100 @@ export const LAYER_VIS_CONFIGS: LayerVisConfigSettings = {
     label: 'layerVisConfigs.showHighlightColor',
     group: PROPERTY_GROUPS.interaction,
     property: 'showHighlightColor'
+  },
+  flowCurveness: {
+    type: 'number',
+    defaultValue: 0.2,
+    label: 'layerVisConfigs.flowCurveness',
+    isRanged: false,
+    range: [0, 1],
+    step: 0.01,
+    group: PROPERTY_GROUPS.stroke,
+    property: 'flowCurveness'
+  },
+  flowArrows: {
+    type: 'boolean',
+    defaultValue: true,
+    label: 'layerVisConfigs.flowArrows',
+    group: PROPERTY_GROUPS.display,
+    property: 'flowArrows'
+  },
+  flowLocations: {
+    type: 'boolean',
+    defaultValue: true,
+    label: 'layerVisConfigs.flowLocations',
+    group: PROPERTY_GROUPS.display,
+    property: 'flowLocations'
+  },
+  contourBands: {
+    type: 'boolean',
+    defaultValue: true,
+    label: 'layerVisConfigs.contourBands',
+    group: PROPERTY_GROUPS.display,
+    property: 'contourBands'
+  },
+  contourLines: {
+    type: 'boolean',
+    defaultValue: true,
+    label: 'layerVisConfigs.contourLines',
+    group: PROPERTY_GROUPS.display,
+    property: 'contourLines'
+  },
+  voronoiClip: {
+    type: 'select',
+    defaultValue: VORONOI_CLIP_MODES.bounds,
+    label: 'layerVisConfigs.voronoiClip',
+    options: Object.keys(VORONOI_CLIP_MODES),
+    group: PROPERTY_GROUPS.display,
+    property: 'voronoiClip'
+  },
+  voronoiDelaunay: {
+    type: 'boolean',
+    defaultValue: false,
+    label: 'layerVisConfigs.voronoiDelaunay',
+    group: PROPERTY_GROUPS.display,
+    property: 'voronoiDelaunay'
+  },
+  cellRollup: {
+    type: 'boolean',
+    defaultValue: false,
+    label: 'layerVisConfigs.cellRollup',
+    group: PROPERTY_GROUPS.cell,
+    property: 'cellRollup',
+    description: 'layerVisConfigs.cellRollupDescription'
+  },
+  dotsPerUnit: {
+    type: 'number',
+    defaultValue: 0.1,
+    label: 'layerVisConfigs.dotsPerUnit',
+    isRanged: false,
+    range: [0.001, 1],
+    step: 0.001,
+    group: PROPERTY_GROUPS.display,
+    property: 'dotsPerUnit',
+    description: 'layerVisConfigs.dotsPerUnitDescription'
+  },
+  dotDensityFields: {
+    type: 'field-colors',
+    defaultValue: [],
+    label: 'layerVisConfigs.dotDensityFields',
+    group: PROPERTY_GROUPS.color,
+    property: 'dotDensityFields'
+  },
+  glyphType: {
+    type: 'select',
+    defaultValue: GLYPH_TYPES.pie,
+    label: 'layerVisConfigs.glyphType',
+    options: Object.keys(GLYPH_TYPES),
+    group: PROPERTY_GROUPS.display,
+    property: 'glyphType'
+  },
+  glyphFields: {
+    type: 'field-colors',
+    defaultValue: [],
+    label: 'layerVisConfigs.glyphFields',
+    group: PROPERTY_GROUPS.color,
+    property: 'glyphFields'
   }
 };
 
@@ -554,7 +696,14 @@ export const LAYER_TYPES = keyMirror({
   trip: null,
   s2: null,
   vectorTile: null,
-  rasterTile: null
+  rasterTile: null,
+  flow: null,
+  contour: null,
+  voronoi: null,
+  quadkey: null,
+  geohash: null,
+  dotDensity: null,
+  glyph: null
 });
 
 export const EDITOR_AVAILABLE_LAYERS: string[] = [
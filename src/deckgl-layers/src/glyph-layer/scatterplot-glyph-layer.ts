@@ -0,0 +1,174 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {ScatterplotLayer, ScatterplotLayerProps} from '@deck.gl/layers';
+import {Accessor} from '@deck.gl/core/typed';
+
+import {GLYPH_TYPES, MAX_GLYPH_FIELDS} from '@kepler.gl/constants';
+import {RGBColor} from '@kepler.gl/types';
+
+// inner radius of a donut, relative to the outer radius
+const DONUT_INNER_RADIUS = 0.5;
+
+const GLYPH_TYPE_INDEX = {
+  [GLYPH_TYPES.pie]: 0,
+  [GLYPH_TYPES.donut]: 1,
+  [GLYPH_TYPES.bar]: 2
+};
+
+const glyphVsDecl = `
+attribute vec4 instanceGlyphValues0;
+attribute vec4 instanceGlyphValues1;
+varying vec4 vGlyphValues0;
+varying vec4 vGlyphValues1;
+`;
+
+const glyphVsMainEnd = `
+vGlyphValues0 = instanceGlyphValues0;
+vGlyphValues1 = instanceGlyphValues1;
+`;
+
+const glyphFsDecl = `
+uniform vec4 glyphColors[${MAX_GLYPH_FIELDS}];
+uniform float glyphCount;
+uniform float glyphType;
+uniform float glyphInnerRadius;
+varying vec4 vGlyphValues0;
+varying vec4 vGlyphValues1;
+`;
+
+// pie and donut slices start at 12 o'clock and go clockwise,
+// bars fill the square inscribed in the circle
+const glyphFsFilterColor = `
+  vec2 glyphUV = geometry.uv;
+  float glyphPosition = 0.0;
+  float glyphBarHeight = 0.0;
+  if (glyphType > 1.5) {
+    vec2 barUV = (glyphUV / 0.70710678 + 1.0) / 2.0;
+    if (barUV.x < 0.0 || barUV.x > 1.0 || barUV.y < 0.0 || barUV.y > 1.0) {
+      discard;
+    }
+    glyphPosition = barUV.x * glyphCount;
+    glyphBarHeight = barUV.y;
+    // gap between bars
+    if (fract(glyphPosition) > 0.8) {
+      discard;
+    }
+  } else {
+    if (glyphType > 0.5 && length(glyphUV) < glyphInnerRadius) {
+      discard;
+    }
+    glyphPosition = fract(atan(glyphUV.x, glyphUV.y) / 6.28318530718 + 1.0);
+  }
+
+  vec4 glyphColor = vec4(0.0);
+  bool glyphFound = false;
+  float glyphCumulative = 0.0;
+  for (int i = 0; i < ${MAX_GLYPH_FIELDS}; i++) {
+    if (float(i) >= glyphCount || glyphFound) {
+      break;
+    }
+    float glyphIndex = float(i);
+    float glyphValue =
+      dot(vGlyphValues0, vec4(equal(vec4(glyphIndex), vec4(0.0, 1.0, 2.0, 3.0)))) +
+      dot(vGlyphValues1, vec4(equal(vec4(glyphIndex), vec4(4.0, 5.0, 6.0, 7.0))));
+    if (glyphType > 1.5) {
+      if (floor(glyphPosition) == glyphIndex && glyphBarHeight <= glyphValue) {
+        glyphColor = glyphColors[i];
+        glyphFound = true;
+      }
+    } else {
+      glyphCumulative += glyphValue;
+      if (glyphPosition < glyphCumulative) {
+        glyphColor = glyphColors[i];
+        glyphFound = true;
+      }
+    }
+  }
+  if (!glyphFound) {
+    discard;
+  }
+  if (!picking_uActive) {
+    color.rgb = glyphColor.rgb;
+  }
+`;
+
+export type ScatterplotGlyphLayerProps = ScatterplotLayerProps<any> & {
+  glyphType: string;
+  glyphColors: RGBColor[];
+  /** normalized values of a glyph, shares of the total for pie and donut, heights for bar */
+  getGlyphValues: Accessor<any, number[]>;
+};
+
+const defaultProps = {
+  ...ScatterplotLayer.defaultProps,
+  glyphType: GLYPH_TYPES.pie,
+  glyphColors: [],
+  getGlyphValues: {type: 'accessor', value: []}
+};
+
+function getValueChunk(values: number[], offset: number) {
+  return [0, 1, 2, 3].map(i => values?.[offset + i] || 0);
+}
+
+/**
+ * Scatterplot layer drawing each point as a pie, donut or bar chart of several values,
+ * the colors of the values are shared by all points
+ */
+export default class ScatterplotGlyphLayer extends ScatterplotLayer<
+  any,
+  ScatterplotGlyphLayerProps
+> {
+  getShaders() {
+    const shaders = super.getShaders(undefined);
+
+    return {
+      ...shaders,
+      inject: {
+        ...shaders.inject,
+        'vs:#decl': glyphVsDecl,
+        'vs:#main-end': glyphVsMainEnd,
+        'fs:#decl': glyphFsDecl,
+        'fs:DECKGL_FILTER_COLOR': glyphFsFilterColor
+      }
+    };
+  }
+
+  initializeState() {
+    super.initializeState(undefined);
+
+    this.getAttributeManager()?.addInstanced({
+      instanceGlyphValues0: {
+        size: 4,
+        accessor: 'getGlyphValues',
+        transform: values => getValueChunk(values, 0)
+      },
+      instanceGlyphValues1: {
+        size: 4,
+        accessor: 'getGlyphValues',
+        transform: values => getValueChunk(values, 4)
+      }
+    });
+  }
+
+  draw({uniforms}) {
+    const {glyphType, glyphColors} = this.props;
+    const colors = new Float32Array(MAX_GLYPH_FIELDS * 4);
+    glyphColors.slice(0, MAX_GLYPH_FIELDS).forEach((color, i) => {
+      colors.set([color[0] / 255, color[1] / 255, color[2] / 255, 1], i * 4);
+    });
+
+    super.draw({
+      uniforms: {
+        ...uniforms,
+        glyphColors: colors,
+        glyphCount: Math.min(glyphColors.length, MAX_GLYPH_FIELDS),
+        glyphType: GLYPH_TYPE_INDEX[glyphType] ?? 0,
+        glyphInnerRadius: DONUT_INNER_RADIUS
+      }
+    });
+  }
+}
+
+ScatterplotGlyphLayer.layerName = 'ScatterplotGlyphLayer';
+ScatterplotGlyphLayer.defaultProps = defaultProps;
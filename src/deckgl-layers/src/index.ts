@@ -11,6 +11,7 @@ export {default as EnhancedGridLayer} from './grid-layer/enhanced-cpu-grid-layer
 
 export {default as EnhancedHexagonLayer} from './hexagon-layer/enhanced-hexagon-layer';
 export {default as EnhancedLineLayer} from './line-layer/line-layer';
+export {default as ScatterplotGlyphLayer} from './glyph-layer/scatterplot-glyph-layer';
 export {default as SvgIconLayer} from './svg-icon-layer/svg-icon-layer';
 export {default as FilterArrowExtension} from './deckgl-extensions/filter-arrow-layer';
 
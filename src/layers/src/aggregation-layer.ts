@@ -10,15 +10,24 @@ import Layer, {
   VisualChannelDescription,
   VisualChannels
 } from './base-layer';
-import {hexToRgb, aggregate, DataContainerInterface} from '@kepler.gl/utils';
+import {hexToRgb, aggregate, unique, DataContainerInterface} from '@kepler.gl/utils';
 import {
+  SCALE_TYPES,
   HIGHLIGH_COLOR_3D,
   CHANNEL_SCALES,
   FIELD_OPTS,
   DEFAULT_AGGREGATION,
   AGGREGATION_TYPES
 } from '@kepler.gl/constants';
-import {ColorRange, Field, LayerColumn, Merge} from '@kepler.gl/types';
+import {
+  ColorRange,
+  ColumnPairs,
+  Field,
+  LayerColumn,
+  LayerColumns,
+  Merge,
+  VisualChannelScale
+} from '@kepler.gl/types';
 import {KeplerTable, Datasets} from '@kepler.gl/table';
 
 type AggregationLayerColumns = {
@@ -31,13 +40,12 @@ export type AggregationLayerData = {
 };
 
 export const pointPosAccessor =
-  ({lat, lng}: AggregationLayerColumns) =>
+  ({lat, lng}: LayerColumns) =>
   dc =>
   d =>
     [dc.valueAt(d.index, lng.fieldIdx), dc.valueAt(d.index, lat.fieldIdx)];
 
-export const pointPosResolver = ({lat, lng}: AggregationLayerColumns) =>
-  `${lat.fieldIdx}-${lng.fieldIdx}`;
+export const pointPosResolver = ({lat, lng}: LayerColumns) => `${lat.fieldIdx}-${lng.fieldIdx}`;
 
 export const getValueAggrFunc = getPointData => (field, aggregation) => points =>
   field
@@ -57,6 +65,27 @@ export const getFilterDataFunc =
       return typeof val === 'number' ? val >= filterRange[i][0] && val <= filterRange[i][1] : false;
     });
 
+/**
+ * Get domain of aggregated values computed on cpu based on scale type
+ */
+export function getAggregatedValueDomain(values: any[], scaleType: VisualChannelScale): any[] {
+  const validValues = values.filter(v => v !== null && v !== undefined);
+
+  if (scaleType === SCALE_TYPES.ordinal) {
+    return unique(validValues).sort();
+  }
+  if (scaleType === SCALE_TYPES.quantile) {
+    return validValues.sort((a, b) => a - b);
+  }
+  if (!validValues.length) {
+    return [0, 1];
+  }
+  return validValues.reduce(
+    ([min, max], v) => [Math.min(min, v), Math.max(max, v)],
+    [validValues[0], validValues[0]]
+  );
+}
+
 const getLayerColorRange = (colorRange: ColorRange) => colorRange.colors.map(hexToRgb);
 
 export const aggregateRequiredColumns: ['lat', 'lng'] = ['lat', 'lng'];
@@ -66,7 +95,8 @@ export type AggregationLayerConfig = Merge<LayerBaseConfig, {columns: Aggregatio
   AggregationLayerVisualChannelConfig;
 export default class AggregationLayer extends Layer {
   getColorRange: any;
-  declare config: AggregationLayerConfig;
+  // point aggregation layers declare lat / lng columns, other subclasses aggregate their own columns
+  declare config: LayerBaseConfig & AggregationLayerVisualChannelConfig;
   declare getPointData: (any) => any;
   declare gpuFilterGetIndex: (any) => number;
   declare gpuFilterGetData: (dataContainer, data, fieldIndex) => any;
@@ -95,11 +125,11 @@ export default class AggregationLayer extends Layer {
     return true;
   }
 
-  get requiredLayerColumns() {
+  get requiredLayerColumns(): string[] {
     return aggregateRequiredColumns;
   }
 
-  get columnPairs() {
+  get columnPairs(): ColumnPairs | null {
     return this.defaultPointColumnPairs;
   }
 
@@ -285,7 +315,7 @@ export default class AggregationLayer extends Layer {
     this.updateMeta({bounds});
   }
 
-  calculateDataAttribute({filteredIndex}: KeplerTable, getPosition) {
+  calculateDataAttribute({filteredIndex}: KeplerTable, getPosition): any {
     const data: AggregationLayerData[] = [];
 
     for (let i = 0; i < filteredIndex.length; i++) {
@@ -9,6 +9,7 @@ import {console as Console} from 'global/window';
 import keymirror from 'keymirror';
 import React from 'react';
 import * as arrow from 'apache-arrow';
+import {FeatureCollection} from 'geojson';
 import DefaultLayerIcon from './default-layer-icon';
 import {diffUpdateTriggers} from './layer-update';
 import {getSatisfiedColumnMode, FindDefaultLayerPropsReturnValue} from './layer-utils';
@@ -16,6 +17,11 @@ import {getSatisfiedColumnMode, FindDefaultLayerPropsReturnValue} from './layer-
 import {
   CHANNEL_SCALES,
   CHANNEL_SCALE_SUPPORTED_FIELDS,
+  BIVARIATE_FIELD_TYPES,
+  BIVARIATE_SCALE_TYPES,
+  CLASSIFICATION_SCALE_TYPES,
+  DEFAULT_BIVARIATE_COLOR_RANGE,
+  DEFAULT_COLOR_RANGE,
   DEFAULT_COLOR_UI,
   DEFAULT_HIGHLIGHT_COLOR,
   DEFAULT_LAYER_LABEL,
@@ -34,6 +40,7 @@ import {
 import {
   DataContainerInterface,
   DomainQuantiles,
+  getBivariateColorScale,
   getApplicationConfig,
   getLatLngBounds,
   getSampleContainerData,
@@ -102,6 +109,9 @@ export type LayerColorConfig = {
   colorField: VisualChannelField;
   colorDomain: VisualChannelDomain;
   colorScale: VisualChannelScale;
+  // second field of bivariate color
+  colorField2?: VisualChannelField;
+  colorDomain2?: VisualChannelDomain;
 };
 export type LayerSizeConfig = {
   // color by size, domain is set by filters, field, scale type
@@ -512,7 +522,9 @@ class Layer implements KeplerLayer {
         colorRange: DEFAULT_COLOR_UI
       },
       animation: {enabled: false},
-      ...(props.columnMode ? {columnMode: props.columnMode} : {})
+      ...(props.columnMode ? {columnMode: props.columnMode} : {}),
+      ...(props.blendMode ? {blendMode: props.blendMode} : {}),
+      ...(props.maskLayerId ? {maskLayerId: props.maskLayerId} : {})
     };
   }
 
@@ -528,10 +540,17 @@ class Layer implements KeplerLayer {
     const rangeSettings = this.visConfigSettings[channel.range];
     const fieldSettings = this.config[channel.field];
     const label = rangeSettings?.label;
+    const getFieldName = f => f.displayName || f.name;
+    const fieldSettings2 =
+      channel.bivariate && this.isBivariateChannel(channel)
+        ? this.config[channel.bivariate.field]
+        : null;
     return {
       label: typeof label === 'function' ? label(this.config) : label || '',
       measure: fieldSettings
-        ? fieldSettings.displayName || fieldSettings.name
+        ? fieldSettings2
+          ? `${getFieldName(fieldSettings)} × ${getFieldName(fieldSettings2)}`
+          : getFieldName(fieldSettings)
         : channel.defaultMeasure
     };
   }
@@ -652,6 +671,15 @@ class Layer implements KeplerLayer {
     return dataContainer.row(object.index);
   }
 
+  /**
+   * Layers generating new geometries, e.g. contours, can return them as GeoJSON
+   * to be added to the map as a new dataset
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  getExportFeatureCollection(layerData: any): FeatureCollection | null {
+    return null;
+  }
+
   getFilteredItemCount(): number | null {
     // use first layer
     if (Object.keys(this.filteredItemCount).length) {
@@ -1124,13 +1152,32 @@ class Layer implements KeplerLayer {
         defaultValue,
         getAttributeValue,
         nullValue,
-        channelScaleType
+        channelScaleType,
+        bivariate
       } = this.visualChannels[channel];
 
       if (accessor) {
         const shouldGetScale = this.config[field];
 
-        if (shouldGetScale) {
+        if (bivariate && this.isBivariateChannel(this.visualChannels[channel])) {
+          const bivariateScale = getBivariateColorScale(
+            this.config[scale],
+            this.config[domain],
+            this.config[bivariate.domain],
+            this.config.visConfig[range]
+          );
+          const getFieldValue = this.accessVSFieldValue(this.config[field], indexKey);
+          const getFieldValue2 = this.accessVSFieldValue(this.config[bivariate.field], indexKey);
+
+          attributeAccessors[accessor] = d => {
+            const data = dataAccessor(dataContainer)(d);
+            const value = getFieldValue(this.config[field], data);
+            const value2 = getFieldValue2(this.config[bivariate.field], data);
+            return bivariateScale && notNullorUndefined(value) && notNullorUndefined(value2)
+              ? bivariateScale(value, value2)
+              : nullValue;
+          };
+        } else if (shouldGetScale) {
           const isFixed = fixed && this.config.visConfig[fixed];
 
           const scaleFunction =
@@ -1231,6 +1278,11 @@ class Layer implements KeplerLayer {
       return getScale;
     }
 
+    if (CLASSIFICATION_SCALE_TYPES.includes(scale)) {
+      // breaks are computed by the number of colors
+      return getScaleFunction(scale, range, domain as number[], fixed);
+    }
+
     return SCALE_FUNC[fixed ? 'linear' : scale]()
       .domain(domain)
       .range(fixed ? domain : range);
@@ -1334,7 +1386,7 @@ class Layer implements KeplerLayer {
       this.filteredItemCount = {};
     }
 
-    let data = [];
+    let data: any = [];
 
     if (!(triggerChanged && triggerChanged.getData) && oldLayerData && oldLayerData.data) {
       // same data
@@ -1368,6 +1420,7 @@ class Layer implements KeplerLayer {
         const {domain} = channel;
         const updatedDomain = this.calculateLayerDomain(table, channel);
         this.updateLayerConfig({[domain]: updatedDomain});
+        this.updateBivariateDomain(table, channel);
       }
     });
 
@@ -1384,9 +1437,70 @@ class Layer implements KeplerLayer {
    */
   validateVisualChannel(channel: string) {
     this.validateFieldType(channel);
+    this.validateBivariateChannel(channel);
     this.validateScale(channel);
   }
 
+  /**
+   * Whether a color channel maps two fields to a bivariate color matrix
+   */
+  isBivariateChannel(visualChannel: VisualChannel): boolean {
+    const {bivariate, field, range} = visualChannel;
+    return Boolean(
+      bivariate &&
+        this.config[field] &&
+        BIVARIATE_FIELD_TYPES.includes(this.config[field].type) &&
+        this.config[bivariate.field] &&
+        this.config.visConfig[range]?.bivariate
+    );
+  }
+
+  /**
+   * Validate the second field of a bivariate color channel, and switch the color range to a
+   * color matrix when the second field is set, or back to a color palette when it is removed
+   */
+  validateBivariateChannel(channel: string) {
+    const {bivariate, field, range} = this.visualChannels[channel];
+    if (!bivariate) {
+      return;
+    }
+    const field2 = this.config[bivariate.field];
+    // both fields need to be numeric
+    if (
+      field2 &&
+      !(
+        BIVARIATE_FIELD_TYPES.includes(field2.type) &&
+        BIVARIATE_FIELD_TYPES.includes(this.config[field]?.type)
+      )
+    ) {
+      this.updateLayerConfig({[bivariate.field]: null});
+    }
+
+    const colorRange = this.config.visConfig[range];
+    if (this.config[bivariate.field] && colorRange && !colorRange.bivariate) {
+      this.updateLayerVisConfig({[range]: DEFAULT_BIVARIATE_COLOR_RANGE});
+    } else if (!this.config[bivariate.field] && colorRange?.bivariate) {
+      this.updateLayerVisConfig({
+        [range]: this.visConfigSettings[range]?.defaultValue || DEFAULT_COLOR_RANGE
+      });
+    }
+  }
+
+  /**
+   * Calculate domain of the second field of a bivariate color channel
+   */
+  updateBivariateDomain(dataset: KeplerTable, visualChannel: VisualChannel) {
+    const {bivariate} = visualChannel;
+    if (bivariate && this.config[bivariate.field]) {
+      this.updateLayerConfig({
+        [bivariate.domain]: this.calculateLayerDomain(dataset, {
+          ...visualChannel,
+          field: bivariate.field
+        })
+      });
+    }
+  }
+
   /**
    * Validate field type based on channelScaleType
    */
@@ -1434,6 +1548,13 @@ class Layer implements KeplerLayer {
     const visualChannel = this.visualChannels[channel];
     const {field, scale, channelScaleType} = visualChannel;
 
+    if (this.isBivariateChannel(visualChannel)) {
+      // each field of bivariate color is classified
+      return FIELD_OPTS[this.config[field].type].scale[channelScaleType].filter(s =>
+        BIVARIATE_SCALE_TYPES.includes(s)
+      );
+    }
+
     return this.config[field]
       ? FIELD_OPTS[this.config[field].type].scale[channelScaleType]
       : [this.getDefaultLayerConfig({dataId: ''})[scale]];
@@ -1445,13 +1566,14 @@ class Layer implements KeplerLayer {
     // calculate layer channel domain
     const updatedDomain = this.calculateLayerDomain(dataset, visualChannel);
     this.updateLayerConfig({[visualChannel.domain]: updatedDomain});
+    this.updateBivariateDomain(dataset, visualChannel);
   }
 
   getVisualChannelUpdateTriggers(): UpdateTriggers {
     const updateTriggers: UpdateTriggers = {};
     Object.values(this.visualChannels).forEach(visualChannel => {
       // field range scale domain
-      const {accessor, field, scale, domain, range, defaultValue, fixed} = visualChannel;
+      const {accessor, field, scale, domain, range, defaultValue, fixed, bivariate} = visualChannel;
 
       if (accessor) {
         updateTriggers[accessor] = {
@@ -1461,7 +1583,13 @@ class Layer implements KeplerLayer {
           [range]: this.config.visConfig[range],
           defaultValue:
             typeof defaultValue === 'function' ? defaultValue(this.config) : defaultValue,
-          ...(fixed ? {[fixed]: this.config.visConfig[fixed]} : {})
+          ...(fixed ? {[fixed]: this.config.visConfig[fixed]} : {}),
+          ...(bivariate && this.config[bivariate.field]
+            ? {
+                [bivariate.field]: this.config[bivariate.field],
+                [bivariate.domain]: this.config[bivariate.domain]
+              }
+            : {})
         };
       }
     });
@@ -0,0 +1,258 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {PolygonLayer} from '@deck.gl/layers';
+
+import AggregationLayer, {
+  AggregationLayerConfig,
+  getAggregatedValueDomain,
+  getFilterDataFunc,
+  getValueAggrFunc
+} from '../aggregation-layer';
+import {aggregateCells, CellDatum, CellIndexSystem} from './cell-utils';
+import {HIGHLIGH_COLOR_3D, NO_VALUE_COLOR, AggregationTypes} from '@kepler.gl/constants';
+import {notNullorUndefined} from '@kepler.gl/common-utils';
+import {createDataContainer, DataContainerInterface} from '@kepler.gl/utils';
+import {
+  ColorRange,
+  Field,
+  LayerColumn,
+  Merge,
+  VisConfigBoolean,
+  VisConfigColorRange,
+  VisConfigNumber,
+  VisConfigRange,
+  VisConfigSelection
+} from '@kepler.gl/types';
+import {Datasets, KeplerTable} from '@kepler.gl/table';
+
+export type CellLayerVisConfigSettings = {
+  opacity: VisConfigNumber;
+  colorRange: VisConfigColorRange;
+  colorAggregation: VisConfigSelection;
+  sizeAggregation: VisConfigSelection;
+  sizeRange: VisConfigRange;
+  enable3d: VisConfigBoolean;
+  elevationScale: VisConfigNumber;
+  enableElevationZoomFactor: VisConfigBoolean;
+  cellRollup: VisConfigBoolean;
+  resolution: VisConfigNumber;
+};
+
+export type CellLayerVisConfig = {
+  opacity: number;
+  colorRange: ColorRange;
+  colorAggregation: AggregationTypes;
+  sizeAggregation: AggregationTypes;
+  sizeRange: [number, number];
+  enable3d: boolean;
+  elevationScale: number;
+  enableElevationZoomFactor: boolean;
+  cellRollup: boolean;
+  resolution: number;
+};
+
+export type CellLayerConfig = Merge<
+  AggregationLayerConfig,
+  {columns: Record<string, LayerColumn>; visConfig: CellLayerVisConfig}
+>;
+
+/** A cell with its encoded values */
+export type CellRenderDatum = CellDatum & {
+  colorValue: any;
+  sizeValue: any;
+};
+
+export const cellVisConfigs: {
+  opacity: 'opacity';
+  colorRange: 'colorRange';
+  colorAggregation: 'colorAggregation';
+  sizeAggregation: 'sizeAggregation';
+  sizeRange: 'elevationRange';
+  enable3d: 'enable3d';
+  elevationScale: 'elevationScale';
+  enableElevationZoomFactor: 'enableElevationZoomFactor';
+  cellRollup: 'cellRollup';
+} = {
+  opacity: 'opacity',
+  colorRange: 'colorRange',
+  colorAggregation: 'colorAggregation',
+  sizeAggregation: 'sizeAggregation',
+  sizeRange: 'elevationRange',
+  enable3d: 'enable3d',
+  elevationScale: 'elevationScale',
+  enableElevationZoomFactor: 'enableElevationZoomFactor',
+  cellRollup: 'cellRollup'
+};
+
+/**
+ * Base class of layers rendering cells of a hierarchical cell index from an id column.
+ * Rows with the same cell id are aggregated, and with `cellRollup` on, cells finer than
+ * `resolution` are aggregated into their parent cell
+ */
+export default abstract class CellLayer extends AggregationLayer {
+  declare visConfigSettings: CellLayerVisConfigSettings;
+  declare config: CellLayerConfig;
+  dataToFeature: {centroids: ([number, number] | null)[]};
+
+  constructor(props) {
+    super(props);
+
+    this.dataToFeature = {centroids: []};
+    this.getPositionAccessor = (dataContainer: DataContainerInterface) => d => {
+      const value = dataContainer.valueAt(d.index, this.cellColumn.fieldIdx);
+      return notNullorUndefined(value) ? String(value).toLowerCase() : null;
+    };
+    this.getPointData = pt => pt;
+  }
+
+  /**
+   * Cell index system of the cell ids
+   */
+  abstract get cellIndexSystem(): CellIndexSystem;
+
+  get cellColumn(): LayerColumn {
+    return this.config.columns[this.requiredLayerColumns[0]];
+  }
+
+  get columnPairs() {
+    return null;
+  }
+
+  getDataUpdateTriggers(dataset: KeplerTable) {
+    const triggers = super.getDataUpdateTriggers(dataset);
+    const {cellRollup, resolution} = this.config.visConfig;
+    return {
+      ...triggers,
+      getData: {
+        ...triggers.getData,
+        filterRange: dataset.gpuFilter.filterRange,
+        cellRollup,
+        resolution
+      }
+    };
+  }
+
+  updateLayerMeta(dataset: KeplerTable, getCellId) {
+    const {dataContainer} = dataset;
+    const {isValid, getCentroid} = this.cellIndexSystem;
+
+    const centroids = dataContainer.map((d, index) => {
+      const id = getCellId({index});
+      return id && isValid(id) ? getCentroid(id) : null;
+    }, true);
+
+    const bounds = this.getPointsBounds(
+      createDataContainer(centroids),
+      (d: any, dc: DataContainerInterface) => [dc.valueAt(d.index, 0), dc.valueAt(d.index, 1)]
+    );
+    this.dataToFeature = {centroids};
+    this.updateMeta({bounds});
+  }
+
+  /**
+   * Group rows by cell, gpu filters are applied on cpu since rows are aggregated
+   */
+  calculateDataAttribute(
+    {dataContainer, filteredIndex, gpuFilter}: KeplerTable,
+    getCellId
+  ): CellDatum[] {
+    const hasFilter = Object.values(gpuFilter.filterRange).some((arr: any) =>
+      arr.some(v => v !== 0)
+    );
+    const filterData = hasFilter
+      ? getFilterDataFunc(gpuFilter.filterRange, gpuFilter.filterValueAccessor(dataContainer)())
+      : null;
+    const {cellRollup, resolution} = this.config.visConfig;
+
+    return aggregateCells(
+      filteredIndex,
+      getCellId,
+      this.cellIndexSystem,
+      cellRollup ? resolution : null,
+      filterData
+    );
+  }
+
+  formatLayerData(datasets: Datasets, oldLayerData) {
+    if (this.config.dataId === null) {
+      return {};
+    }
+    const {data} = this.updateData(datasets, oldLayerData);
+    const cells: CellDatum[] = data || [];
+
+    const aggregatePoints = getValueAggrFunc(this.getPointData);
+    const getColorValue = aggregatePoints(
+      this.config.colorField,
+      this.config.visConfig.colorAggregation
+    );
+    const getSizeValue = aggregatePoints(
+      this.config.sizeField,
+      this.config.visConfig.sizeAggregation
+    );
+    const renderData: CellRenderDatum[] = cells.map(cell => ({
+      ...cell,
+      colorValue: getColorValue(cell.points),
+      sizeValue: getSizeValue(cell.points)
+    }));
+
+    this.updateLayerConfig({
+      colorDomain: getAggregatedValueDomain(
+        renderData.map(d => d.colorValue),
+        this.config.colorScale
+      ),
+      sizeDomain: getAggregatedValueDomain(
+        renderData.map(d => d.sizeValue),
+        this.config.sizeScale
+      )
+    });
+
+    return {data: renderData};
+  }
+
+  /**
+   * Cell layers calculate visual channel domains in formatLayerData
+   */
+  updateLayerDomain(): CellLayer {
+    return this;
+  }
+
+  renderLayer(opts) {
+    const {data, mapState} = opts;
+    const {visConfig, colorScale, colorDomain, sizeScale, sizeDomain} = this.config;
+    const cScale = this.getColorScale(String(colorScale), colorDomain, visConfig.colorRange);
+    const sScale = this.getVisChannelScale(String(sizeScale), sizeDomain, visConfig.sizeRange);
+    const eleZoomFactor = this.getElevationZoomFactor(mapState);
+
+    return [
+      new PolygonLayer<CellRenderDatum>({
+        ...this.getDefaultDeckLayerProps(opts),
+        data: data.data,
+        getPolygon: d => d.polygon,
+        getFillColor: d =>
+          cScale && notNullorUndefined(d.colorValue) ? cScale(d.colorValue) : NO_VALUE_COLOR,
+        getElevation: d => (sScale && notNullorUndefined(d.sizeValue) ? sScale(d.sizeValue) : 0),
+        stroked: false,
+        extruded: visConfig.enable3d,
+        elevationScale: visConfig.elevationScale * eleZoomFactor,
+        highlightColor: HIGHLIGH_COLOR_3D,
+        autoHighlight: true,
+        updateTriggers: {
+          getFillColor: {colorScale, colorDomain, colorRange: visConfig.colorRange},
+          getElevation: {sizeScale, sizeDomain, sizeRange: visConfig.sizeRange}
+        }
+      })
+    ];
+  }
+
+  getHoverData(object: any, dataContainer: DataContainerInterface, fields: Field[]): any {
+    if (!object) {
+      return object;
+    }
+    return {
+      ...super.getHoverData(object, dataContainer, fields),
+      colorValue: object.colorValue,
+      elevationValue: object.sizeValue
+    };
+  }
+}
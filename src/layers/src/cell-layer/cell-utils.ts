@@ -0,0 +1,123 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {ALL_FIELD_TYPES} from '@kepler.gl/constants';
+import {Field} from '@kepler.gl/types';
+import {DataContainerInterface} from '@kepler.gl/utils';
+
+/** Number of rows sampled to check values of a candidate cell id field */
+const CELL_FIELD_SAMPLE_SIZE = 100;
+
+export type CellPoint = {index: number};
+
+/**
+ * A hierarchical index of rectangular cells, where the id of a parent cell is a prefix
+ * of the ids of its children, e.g. quadkey or geohash
+ */
+export type CellIndexSystem = {
+  maxResolution: number;
+  isValid: (id: string) => boolean;
+  getResolution: (id: string) => number;
+  /** id of the cell containing `id` at a coarser resolution */
+  getParent: (id: string, resolution: number) => string;
+  /** closed counterclockwise ring in lng lat */
+  getBoundary: (id: string) => [number, number][];
+  /** `[lng, lat]` of the cell center */
+  getCentroid: (id: string) => [number, number];
+};
+
+export type CellDatum = {
+  id: string;
+  /** rows in the cell */
+  points: CellPoint[];
+  polygon: [number, number][];
+};
+
+/**
+ * Closed counterclockwise ring of a `[west, south, east, north]` bounding box
+ */
+export function getBoundsRing([west, south, east, north]: number[]): [number, number][] {
+  return [
+    [west, south],
+    [east, south],
+    [east, north],
+    [west, north],
+    [west, south]
+  ];
+}
+
+/**
+ * Group rows by cell id. When a rollup resolution is set, cells finer than it are
+ * aggregated into their parent cell at that resolution
+ * @param filteredIndex - indexes of rows to aggregate
+ * @param getId - returns the cell id of a row
+ * @param indexSystem - cell index system of the ids
+ * @param rollupResolution - resolution to roll up cells to, null to keep cells as is
+ * @param filterData - rows to exclude, e.g. gpu filters applied on cpu
+ */
+export function aggregateCells(
+  filteredIndex: ArrayLike<number>,
+  getId: (d: CellPoint) => string | null,
+  indexSystem: CellIndexSystem,
+  rollupResolution: number | null,
+  filterData?: ((d: CellPoint) => boolean) | null
+): CellDatum[] {
+  const cells = new Map<string, CellPoint[]>();
+
+  for (let i = 0; i < filteredIndex.length; i++) {
+    const point = {index: filteredIndex[i]};
+    const rawId = getId(point);
+    if (!rawId || !indexSystem.isValid(rawId) || (filterData && !filterData(point))) {
+      continue;
+    }
+    const id =
+      rollupResolution !== null && indexSystem.getResolution(rawId) > rollupResolution
+        ? indexSystem.getParent(rawId, rollupResolution)
+        : rawId;
+    const points = cells.get(id);
+    if (points) {
+      points.push(point);
+    } else {
+      cells.set(id, [point]);
+    }
+  }
+
+  return Array.from(cells, ([id, points]) => ({
+    id,
+    points,
+    polygon: indexSystem.getBoundary(id)
+  }));
+}
+
+/**
+ * Find string fields that could be cell ids, by name and by checking a sample of
+ * their values. Values are not checked if the dataset has no data container
+ * @param fields - fields of the dataset
+ * @param dataContainer - data of the dataset
+ * @param names - lower case field names of the cell index, e.g. `['geohash', 'gh']`
+ * @param isValid - whether a value is a valid cell id
+ */
+export function findCellFields(
+  fields: Field[],
+  dataContainer: DataContainerInterface | undefined,
+  names: string[],
+  isValid: (id: string) => boolean
+): Field[] {
+  return fields.filter(field => {
+    if (field.type !== ALL_FIELD_TYPES.string || !names.includes(field.name.toLowerCase())) {
+      return false;
+    }
+    if (!dataContainer) {
+      return true;
+    }
+    const sample: unknown[] = [];
+    const numRows = dataContainer.numRows();
+    for (let i = 0; i < numRows && sample.length < CELL_FIELD_SAMPLE_SIZE; i++) {
+      const value = dataContainer.valueAt(i, field.fieldIdx);
+      if (value !== null && value !== undefined && value !== '') {
+        sample.push(value);
+      }
+    }
+    return sample.length > 0 && sample.every(v => isValid(String(v).toLowerCase()));
+  });
+}
@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {Component} from 'react';
+import PropTypes from 'prop-types';
+import {Base} from '../base';
+
+export default class ContourLayerIcon extends Component {
+  static propTypes = {
+    /** Set the height of the icon, ex. '16px' */
+    height: PropTypes.string,
+    colors: PropTypes.arrayOf(PropTypes.string)
+  };
+
+  static defaultProps = {
+    height: '16px',
+    predefinedClassName: 'contour-layer-icon',
+    totalColor: 3
+  };
+
+  render() {
+    return (
+      <Base {...this.props}>
+        <path
+          d="M33,9C18.6,9,8,18.2,8,31.5S18.8,55,32.5,55S57,45.5,57,32.5C57,18.7,46.9,9,33,9z"
+          className="cr1"
+          style={{opacity: 0.4}}
+        />
+        <path
+          d="M32.5,17C22.6,17,16,23.6,16,32s7,15,16.5,15S49,40.8,49,32.5C49,23.5,42.1,17,32.5,17z"
+          className="cr2"
+          style={{opacity: 0.7}}
+        />
+        <path
+          d="M32.5,25c-4.7,0-7.5,3-7.5,7s3.2,7,7.5,7S40,36,40,32S37.2,25,32.5,25z"
+          className="cr3"
+        />
+      </Base>
+    );
+  }
+}
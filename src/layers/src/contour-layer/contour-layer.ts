@@ -0,0 +1,273 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {GeoJsonLayer} from '@deck.gl/layers';
+import {Feature, FeatureCollection, MultiLineString, MultiPolygon} from 'geojson';
+
+import AggregationLayer, {
+  AggregationLayerConfig,
+  getAggregatedValueDomain,
+  getFilterDataFunc,
+  getValueAggrFunc
+} from '../aggregation-layer';
+import {VisualChannels} from '../base-layer';
+import ContourLayerIcon from './contour-layer-icon';
+import {
+  getContourBands,
+  getContourGrid,
+  getContourGridValues,
+  getContourLines,
+  getScaleThresholds,
+  ContourGrid
+} from './contour-utils';
+import {AggregationTypes, NO_VALUE_COLOR} from '@kepler.gl/constants';
+import {formatNumber} from '@kepler.gl/utils';
+import {
+  ColorRange,
+  Merge,
+  VisConfigBoolean,
+  VisConfigColorRange,
+  VisConfigNumber,
+  VisConfigSelection
+} from '@kepler.gl/types';
+import {Datasets, KeplerTable} from '@kepler.gl/table';
+
+export type ContourLayerVisConfigSettings = {
+  opacity: VisConfigNumber;
+  worldUnitSize: VisConfigNumber;
+  colorRange: VisConfigColorRange;
+  colorAggregation: VisConfigSelection;
+  thickness: VisConfigNumber;
+  contourBands: VisConfigBoolean;
+  contourLines: VisConfigBoolean;
+};
+
+export type ContourLayerVisConfig = {
+  opacity: number;
+  worldUnitSize: number;
+  colorRange: ColorRange;
+  colorAggregation: AggregationTypes;
+  thickness: number;
+  contourBands: boolean;
+  contourLines: boolean;
+};
+
+export type ContourLayerConfig = Merge<AggregationLayerConfig, {visConfig: ContourLayerVisConfig}>;
+
+export type ContourBandProperties = {
+  threshold: number;
+  upperThreshold: number | null;
+};
+
+export type ContourLayerData = {
+  data: Feature<MultiPolygon, ContourBandProperties>[];
+  lines: Feature<MultiLineString, {threshold: number}>[];
+};
+
+export const contourVisConfigs: {
+  opacity: 'opacity';
+  worldUnitSize: 'worldUnitSize';
+  colorRange: 'colorRange';
+  colorAggregation: 'colorAggregation';
+  thickness: 'thickness';
+  contourBands: 'contourBands';
+  contourLines: 'contourLines';
+} = {
+  opacity: 'opacity',
+  worldUnitSize: 'worldUnitSize',
+  colorRange: 'colorRange',
+  colorAggregation: 'colorAggregation',
+  thickness: 'thickness',
+  contourBands: 'contourBands',
+  contourLines: 'contourLines'
+};
+
+export default class ContourLayer extends AggregationLayer {
+  declare visConfigSettings: ContourLayerVisConfigSettings;
+  declare config: ContourLayerConfig;
+
+  constructor(props) {
+    super(props);
+
+    this.registerVisConfig(contourVisConfigs);
+    this.visConfigSettings.worldUnitSize.label = 'columns.grid.worldUnitSize';
+  }
+
+  get type(): 'contour' {
+    return 'contour';
+  }
+
+  get layerIcon() {
+    return ContourLayerIcon;
+  }
+
+  get noneLayerDataAffectingProps() {
+    // band thresholds depend on the number of colors
+    return [
+      ...super.noneLayerDataAffectingProps.filter(p => p !== 'colorRange'),
+      'thickness',
+      'contourBands',
+      'contourLines'
+    ];
+  }
+
+  get visualChannels(): VisualChannels {
+    return {color: super.visualChannels.color};
+  }
+
+  getDataUpdateTriggers(dataset: KeplerTable) {
+    const triggers = super.getDataUpdateTriggers(dataset);
+    return {
+      ...triggers,
+      getData: {
+        ...triggers.getData,
+        filterRange: dataset.gpuFilter.filterRange,
+        worldUnitSize: this.config.visConfig.worldUnitSize
+      }
+    };
+  }
+
+  /**
+   * Bin points into a grid, gpu filters are applied on cpu since contours are computed on cpu
+   */
+  calculateDataAttribute(
+    {dataContainer, filteredIndex, gpuFilter}: KeplerTable,
+    getPosition
+  ): ContourGrid | null {
+    const hasFilter = Object.values(gpuFilter.filterRange).some((arr: any) =>
+      arr.some(v => v !== 0)
+    );
+    const filterData = hasFilter
+      ? getFilterDataFunc(gpuFilter.filterRange, gpuFilter.filterValueAccessor(dataContainer)())
+      : null;
+    const points = filteredIndex.map(index => ({index}));
+
+    return getContourGrid(
+      filterData ? points.filter(filterData) : points,
+      getPosition,
+      this.config.visConfig.worldUnitSize * 1000
+    );
+  }
+
+  formatLayerData(datasets: Datasets, oldLayerData): ContourLayerData | Record<string, never> {
+    if (this.config.dataId === null) {
+      return {};
+    }
+    const {data: grid} = this.updateData(datasets, oldLayerData);
+    if (!grid) {
+      return {data: [], lines: []};
+    }
+
+    const {colorField, colorScale, visConfig} = this.config;
+    const values = getContourGridValues(
+      grid,
+      getValueAggrFunc(this.getPointData)(colorField, visConfig.colorAggregation)
+    );
+    const colorDomain = getAggregatedValueDomain(values, colorScale);
+    this.updateLayerConfig({colorDomain});
+
+    // a band for each color of the scale, the first band covers all cells with data
+    const min = Number(colorDomain[0]);
+    const breaks = getScaleThresholds(
+      this.getColorScale(String(colorScale), colorDomain, visConfig.colorRange)
+    );
+    const thresholds = [min, ...breaks.filter(t => t > min)].filter(Number.isFinite);
+
+    return {
+      data: getContourBands(grid, values, thresholds).map(({polygons, ...properties}) => ({
+        type: 'Feature',
+        geometry: {type: 'MultiPolygon', coordinates: polygons},
+        properties
+      })),
+      lines: getContourLines(grid, values, thresholds.slice(1)).map(({lines, threshold}) => ({
+        type: 'Feature',
+        geometry: {type: 'MultiLineString', coordinates: lines},
+        properties: {threshold}
+      }))
+    };
+  }
+
+  /**
+   * Contour layer calculates color domain in formatLayerData
+   */
+  updateLayerDomain(): ContourLayer {
+    return this;
+  }
+
+  /**
+   * Contour bands as GeoJSON polygons, used to create a new dataset from the layer
+   */
+  getExportFeatureCollection(layerData: ContourLayerData): FeatureCollection | null {
+    return layerData?.data ? {type: 'FeatureCollection', features: layerData.data} : null;
+  }
+
+  getDefaultDeckLayerProps(opts): any {
+    return {
+      ...super.getDefaultDeckLayerProps(opts),
+      highlightColor: this.config.highlightColor,
+      autoHighlight: true
+    };
+  }
+
+  renderLayer(opts) {
+    const {data} = opts;
+    const {visConfig, colorScale, colorDomain} = this.config;
+    const scale = this.getColorScale(String(colorScale), colorDomain, visConfig.colorRange);
+    const getColor = (f: Feature<any, {threshold: number}>) =>
+      scale ? scale(f.properties.threshold) : NO_VALUE_COLOR;
+    const defaultLayerProps = this.getDefaultDeckLayerProps(opts);
+    const updateTriggers = {
+      getFillColor: {colorScale, colorDomain, colorRange: visConfig.colorRange},
+      getLineColor: {colorScale, colorDomain, colorRange: visConfig.colorRange}
+    };
+
+    return [
+      ...(visConfig.contourBands
+        ? [
+            new GeoJsonLayer({
+              ...defaultLayerProps,
+              data: data.data,
+              filled: true,
+              stroked: false,
+              getFillColor: getColor,
+              updateTriggers
+            })
+          ]
+        : []),
+      ...(visConfig.contourLines
+        ? [
+            new GeoJsonLayer({
+              ...defaultLayerProps,
+              id: `${this.id}-lines`,
+              data: data.lines,
+              pickable: false,
+              filled: false,
+              stroked: true,
+              getLineColor: getColor,
+              getLineWidth: visConfig.thickness,
+              lineWidthUnits: 'pixels',
+              updateTriggers
+            })
+          ]
+        : [])
+    ];
+  }
+
+  getHoverData(object: any): any {
+    if (!object?.properties) {
+      return null;
+    }
+    const {threshold, upperThreshold} = object.properties;
+    return {
+      fieldValues: [
+        {
+          labelMessage: 'layer.contourRange',
+          value:
+            upperThreshold === null
+              ? `≥ ${formatNumber(threshold)}`
+              : `${formatNumber(threshold)} – ${formatNumber(upperThreshold)}`
+        }
+      ]
+    };
+  }
+}
@@ -0,0 +1,353 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {lngLatToWorld, worldToLngLat, WORLD_SIZE} from '../layer-utils';
+
+/** Max number of grid cells, cell size is increased to stay below it */
+export const MAX_CONTOUR_GRID_CELLS = 1000000;
+
+const EARTH_CIRCUMFERENCE = 40075016.686;
+
+export type ContourPoint = {index: number};
+
+export type ContourGrid = {
+  /** number of columns */
+  width: number;
+  /** number of rows */
+  height: number;
+  /** cell size in web mercator world units */
+  cellSize: number;
+  /** world coordinates of the south west corner of the grid */
+  origin: [number, number];
+  /** points in each cell, row major from the south west corner */
+  cells: ContourPoint[][];
+};
+
+type Ring = [number, number][];
+
+export type ContourBand = {
+  /** lower bound of the band, inclusive */
+  threshold: number;
+  /** upper bound of the band, exclusive. null for the last band */
+  upperThreshold: number | null;
+  /** polygons in lng lat, first ring of each polygon is the exterior ring */
+  polygons: Ring[][];
+};
+
+export type ContourLine = {
+  threshold: number;
+  /** closed lines in lng lat */
+  lines: Ring[];
+};
+
+/**
+ * Bin points into a square grid
+ * @param points - points to bin
+ * @param getPosition - returns `[lng, lat]` of a point
+ * @param cellSizeMeters - cell size in meters at the center of the points
+ */
+export function getContourGrid(
+  points: ContourPoint[],
+  getPosition: (d: ContourPoint) => number[],
+  cellSizeMeters: number
+): ContourGrid | null {
+  const positions: [number, number][] = [];
+  const validPoints: ContourPoint[] = [];
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  points.forEach(point => {
+    const pos = getPosition(point);
+    if (!Number.isFinite(pos[0]) || !Number.isFinite(pos[1])) {
+      return;
+    }
+    const world = lngLatToWorld(pos);
+    minX = Math.min(minX, world[0]);
+    minY = Math.min(minY, world[1]);
+    maxX = Math.max(maxX, world[0]);
+    maxY = Math.max(maxY, world[1]);
+    positions.push(world);
+    validPoints.push(point);
+  });
+
+  if (!validPoints.length || !(cellSizeMeters > 0)) {
+    return null;
+  }
+
+  const [, centerLat] = worldToLngLat([0, (minY + maxY) / 2]);
+  const unitsPerMeter = WORLD_SIZE / (EARTH_CIRCUMFERENCE * Math.cos((centerLat * Math.PI) / 180));
+  let cellSize = cellSizeMeters * unitsPerMeter;
+
+  const getGridSize = () => [
+    Math.floor((maxX - minX) / cellSize) + 1,
+    Math.floor((maxY - minY) / cellSize) + 1
+  ];
+  let [width, height] = getGridSize();
+  if (width * height > MAX_CONTOUR_GRID_CELLS) {
+    cellSize *= Math.sqrt((width * height) / MAX_CONTOUR_GRID_CELLS);
+    [width, height] = getGridSize();
+  }
+
+  const cells: ContourPoint[][] = Array.from({length: width * height}, () => []);
+  validPoints.forEach((point, i) => {
+    const col = Math.floor((positions[i][0] - minX) / cellSize);
+    const row = Math.floor((positions[i][1] - minY) / cellSize);
+    cells[row * width + col].push(point);
+  });
+
+  return {width, height, cellSize, origin: [minX, minY], cells};
+}
+
+/**
+ * Aggregate points of each grid cell, empty cells are null
+ */
+export function getContourGridValues(
+  grid: ContourGrid,
+  aggregatePoints: (points: ContourPoint[]) => any
+): (number | null)[] {
+  return grid.cells.map(points => {
+    const value = points.length ? aggregatePoints(points) : null;
+    return Number.isFinite(value) ? value : null;
+  });
+}
+
+/**
+ * Get band thresholds from a d3 color scale of quantize, quantile or threshold type
+ */
+export function getScaleThresholds(scale: any): number[] {
+  if (!scale) {
+    return [];
+  }
+  if (typeof scale.thresholds === 'function') {
+    return scale.thresholds();
+  }
+  if (typeof scale.quantiles === 'function') {
+    return scale.quantiles();
+  }
+  return (typeof scale.domain === 'function' ? scale.domain() : []).filter(Number.isFinite);
+}
+
+/**
+ * Marching squares on grid cell centers. The grid is padded with empty cells so all rings
+ * are closed. Rings around values >= threshold are clockwise, rings around holes are
+ * counterclockwise.
+ * @returns rings in grid coordinates, cell centers are at integer coordinates
+ */
+export function getContourRings(
+  values: (number | null)[],
+  width: number,
+  height: number,
+  threshold: number
+): Ring[] {
+  const valueAt = (x: number, y: number): number =>
+    x >= 0 && y >= 0 && x < width && y < height ? values[y * width + x] ?? NaN : NaN;
+  const isInside = (x: number, y: number) => valueAt(x, y) >= threshold;
+
+  const points = new Map<string, [number, number]>();
+  const next = new Map<string, string>();
+
+  // point where the contour crosses the edge between 2 cell centers
+  const getEdgePoint = (key: string, x0: number, y0: number, x1: number, y1: number) => {
+    if (!points.has(key)) {
+      const v0 = valueAt(x0, y0);
+      const v1 = valueAt(x1, y1);
+      const t =
+        Number.isFinite(v0) && Number.isFinite(v1) && v0 !== v1
+          ? Math.min(Math.max((threshold - v0) / (v1 - v0), 0), 1)
+          : 0.5;
+      points.set(key, [x0 + (x1 - x0) * t, y0 + (y1 - y0) * t]);
+    }
+    return key;
+  };
+
+  for (let y = -1; y < height; y++) {
+    for (let x = -1; x < width; x++) {
+      // corners and edges in the same winding order, edge k goes from corner k to k + 1
+      const corners = [
+        [x, y],
+        [x + 1, y],
+        [x + 1, y + 1],
+        [x, y + 1]
+      ];
+      const inside = corners.map(([cx, cy]) => isInside(cx, cy));
+      if (inside.every(Boolean) || !inside.some(Boolean)) {
+        continue;
+      }
+      const edgeKeys = [`h${x},${y}`, `v${x + 1},${y}`, `h${x},${y + 1}`, `v${x},${y}`];
+      const enter: number[] = [];
+      const exit: number[] = [];
+
+      for (let k = 0; k < 4; k++) {
+        const k1 = (k + 1) % 4;
+        if (inside[k] !== inside[k1]) {
+          const [x0, y0] = corners[k];
+          const [x1, y1] = corners[k1];
+          // use the same edge direction for both cells sharing the edge
+          const [ax, ay, bx, by] = x0 + y0 < x1 + y1 ? [x0, y0, x1, y1] : [x1, y1, x0, y0];
+          getEdgePoint(edgeKeys[k], ax, ay, bx, by);
+          (inside[k] ? exit : enter).push(k);
+        }
+      }
+
+      if (enter.length === 1) {
+        next.set(edgeKeys[enter[0]], edgeKeys[exit[0]]);
+      } else {
+        // saddle, connect inside corners if the cell center is inside
+        const center =
+          (valueAt(x, y) + valueAt(x + 1, y) + valueAt(x + 1, y + 1) + valueAt(x, y + 1)) / 4;
+        const offset = center >= threshold ? 3 : 1;
+        enter.forEach(k => next.set(edgeKeys[k], edgeKeys[(k + offset) % 4]));
+      }
+    }
+  }
+
+  const rings: Ring[] = [];
+  next.forEach((_, start) => {
+    if (!points.has(start)) {
+      return;
+    }
+    const ring: Ring = [];
+    let key: string | undefined = start;
+    while (key && points.has(key)) {
+      ring.push(points.get(key) as [number, number]);
+      points.delete(key);
+      key = next.get(key);
+    }
+    ring.push(ring[0]);
+    rings.push(ring);
+  });
+
+  return rings;
+}
+
+function ringArea(ring: Ring): number {
+  let area = 0;
+  for (let i = 0, n = ring.length - 1; i < n; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area / 2;
+}
+
+/**
+ * @returns 1 if point is inside ring, -1 if outside, 0 if on the ring
+ */
+function pointInRing([x, y]: [number, number], ring: Ring): number {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    const cross = (xj - xi) * (y - yi) - (yj - yi) * (x - xi);
+    if (
+      cross === 0 &&
+      x >= Math.min(xi, xj) &&
+      x <= Math.max(xi, xj) &&
+      y >= Math.min(yi, yj) &&
+      y <= Math.max(yi, yj)
+    ) {
+      return 0;
+    }
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside ? 1 : -1;
+}
+
+function ringContainsRing(outer: Ring, inner: Ring): boolean {
+  for (const point of inner) {
+    const inside = pointInRing(point, outer);
+    if (inside) {
+      return inside > 0;
+    }
+  }
+  return true;
+}
+
+/**
+ * Assign holes to the smallest exterior ring containing them
+ */
+function ringsToPolygons(exteriors: Ring[], holes: Ring[]): Ring[][] {
+  const sorted = exteriors
+    .map(ring => ({ring, area: Math.abs(ringArea(ring))}))
+    .sort((a, b) => a.area - b.area);
+  const polygons = new Map<Ring, Ring[]>(sorted.map(({ring}) => [ring, [ring]]));
+
+  holes.forEach(hole => {
+    const parent = sorted.find(({ring}) => ringContainsRing(ring, hole));
+    if (parent) {
+      polygons.get(parent.ring)?.push(hole);
+    }
+  });
+
+  return sorted.map(({ring}) => polygons.get(ring) as Ring[]);
+}
+
+/**
+ * Convert grid coordinates to lng lat, rings are reversed to be counterclockwise
+ * exterior rings and clockwise holes as per GeoJSON spec
+ */
+function gridRingToLngLat({origin, cellSize}: ContourGrid, ring: Ring): Ring {
+  return ring
+    .map(([x, y]) =>
+      worldToLngLat([origin[0] + (x + 0.5) * cellSize, origin[1] + (y + 0.5) * cellSize])
+    )
+    .reverse();
+}
+
+/**
+ * Isobands between consecutive thresholds, the last band includes all values above the
+ * last threshold
+ * @param grid
+ * @param values - grid values
+ * @param thresholds - sorted band lower bounds
+ */
+export function getContourBands(
+  grid: ContourGrid,
+  values: (number | null)[],
+  thresholds: number[]
+): ContourBand[] {
+  const ringsByThreshold = thresholds.map(threshold =>
+    getContourRings(values, grid.width, grid.height, threshold)
+  );
+
+  return thresholds
+    .map((threshold, i) => {
+      const lower = ringsByThreshold[i];
+      const upper = ringsByThreshold[i + 1] || [];
+      // band = values >= threshold minus values >= next threshold
+      const exteriors = [
+        ...lower.filter(r => ringArea(r) < 0),
+        ...upper.filter(r => ringArea(r) > 0)
+      ];
+      const holes = [...lower.filter(r => ringArea(r) > 0), ...upper.filter(r => ringArea(r) < 0)];
+
+      return {
+        threshold,
+        upperThreshold: i + 1 < thresholds.length ? thresholds[i + 1] : null,
+        polygons: ringsToPolygons(exteriors, holes).map(polygon =>
+          polygon.map(ring => gridRingToLngLat(grid, ring))
+        )
+      };
+    })
+    .filter(band => band.polygons.length);
+}
+
+/**
+ * Isolines at each threshold
+ */
+export function getContourLines(
+  grid: ContourGrid,
+  values: (number | null)[],
+  thresholds: number[]
+): ContourLine[] {
+  return thresholds
+    .map(threshold => ({
+      threshold,
+      lines: getContourRings(values, grid.width, grid.height, threshold).map(ring =>
+        gridRingToLngLat(grid, ring)
+      )
+    }))
+    .filter(line => line.lines.length);
+}
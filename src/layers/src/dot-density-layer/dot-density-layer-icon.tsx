@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {Component} from 'react';
+import PropTypes from 'prop-types';
+import {Base} from '../base';
+
+export default class DotDensityLayerIcon extends Component {
+  static propTypes = {
+    /** Set the height of the icon, ex. '16px' */
+    height: PropTypes.string,
+    colors: PropTypes.arrayOf(PropTypes.string)
+  };
+
+  static defaultProps = {
+    height: '16px',
+    predefinedClassName: 'dot-density-layer-icon',
+    totalColor: 3
+  };
+
+  render() {
+    return (
+      <Base {...this.props}>
+        <path d="M8,8H56V56H8Z" className="cr1" style={{opacity: 0.2}} />
+        <circle cx="16" cy="17" r="3" className="cr1" />
+        <circle cx="29" cy="13" r="3" className="cr2" />
+        <circle cx="44" cy="19" r="3" className="cr3" />
+        <circle cx="21" cy="31" r="3" className="cr2" />
+        <circle cx="38" cy="33" r="3" className="cr1" />
+        <circle cx="50" cy="40" r="3" className="cr2" />
+        <circle cx="14" cy="46" r="3" className="cr3" />
+        <circle cx="31" cy="48" r="3" className="cr1" />
+        <circle cx="45" cy="51" r="3" className="cr3" />
+      </Base>
+    );
+  }
+}
@@ -0,0 +1,214 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {ScatterplotLayer} from '@deck.gl/layers';
+
+import Layer, {LayerBaseConfig, VisualChannels} from '../base-layer';
+import {getFilterDataFunc} from '../aggregation-layer';
+import {featureAccessor} from '../geojson-layer/geojson-layer';
+import {
+  getGeojsonBounds,
+  getGeojsonDataMaps,
+  GeojsonDataMaps
+} from '../geojson-layer/geojson-utils';
+import DotDensityLayerIcon from './dot-density-layer-icon';
+import {DotDatum, generateDots} from './dot-density-utils';
+import {LAYER_VIS_CONFIGS} from '@kepler.gl/constants';
+import {DataContainerInterface, getGeometryPolygons} from '@kepler.gl/utils';
+import {
+  FieldColor,
+  LayerColumn,
+  Merge,
+  VisConfigFieldColors,
+  VisConfigNumber
+} from '@kepler.gl/types';
+import {Datasets, KeplerTable} from '@kepler.gl/table';
+
+export type DotDensityLayerVisConfigSettings = {
+  opacity: VisConfigNumber;
+  radius: VisConfigNumber;
+  dotsPerUnit: VisConfigNumber;
+  dotDensityFields: VisConfigFieldColors;
+};
+
+export type DotDensityLayerColumnsConfig = {
+  geojson: LayerColumn;
+};
+
+export type DotDensityLayerVisConfig = {
+  opacity: number;
+  radius: number;
+  dotsPerUnit: number;
+  dotDensityFields: FieldColor[];
+};
+
+export type DotDensityLayerConfig = Merge<
+  LayerBaseConfig,
+  {columns: DotDensityLayerColumnsConfig; visConfig: DotDensityLayerVisConfig}
+>;
+
+export const dotDensityRequiredColumns: ['geojson'] = ['geojson'];
+
+export const dotDensityVisConfigs: {
+  opacity: 'opacity';
+  radius: VisConfigNumber;
+  dotsPerUnit: 'dotsPerUnit';
+  dotDensityFields: 'dotDensityFields';
+} = {
+  opacity: 'opacity',
+  radius: {
+    ...LAYER_VIS_CONFIGS.radius,
+    defaultValue: 1.5,
+    range: [0.5, 10],
+    step: 0.1
+  },
+  dotsPerUnit: 'dotsPerUnit',
+  dotDensityFields: 'dotDensityFields'
+};
+
+/**
+ * Dot density map of a polygon dataset. Dots are placed randomly inside each polygon,
+ * in proportion to the values of one or more count fields, with a color per field
+ */
+export default class DotDensityLayer extends Layer {
+  declare visConfigSettings: DotDensityLayerVisConfigSettings;
+  declare config: DotDensityLayerConfig;
+
+  dataToFeature: GeojsonDataMaps = [];
+  // data container and column the features are parsed from
+  _featureSource: {dataContainer: DataContainerInterface; fieldIdx: number} | null = null;
+
+  constructor(props) {
+    super(props);
+
+    this.registerVisConfig(dotDensityVisConfigs);
+    this.getPositionAccessor = (dataContainer: DataContainerInterface) =>
+      featureAccessor(this.config.columns)(dataContainer);
+  }
+
+  get type(): 'dotDensity' {
+    return 'dotDensity';
+  }
+
+  get name(): 'Dot Density' {
+    return 'Dot Density';
+  }
+
+  get layerIcon() {
+    return DotDensityLayerIcon;
+  }
+
+  get requiredLayerColumns() {
+    return dotDensityRequiredColumns;
+  }
+
+  get noneLayerDataAffectingProps() {
+    return [...super.noneLayerDataAffectingProps, 'radius'];
+  }
+
+  get visualChannels(): VisualChannels {
+    // each count field has its own color
+    return {};
+  }
+
+  getDataUpdateTriggers(dataset: KeplerTable) {
+    const triggers = super.getDataUpdateTriggers(dataset);
+    const {dotsPerUnit, dotDensityFields} = this.config.visConfig;
+    return {
+      ...triggers,
+      getData: {
+        ...triggers.getData,
+        filterRange: dataset.gpuFilter.filterRange,
+        dotsPerUnit,
+        dotDensityFields: dotDensityFields.map(({name}) => name)
+      }
+    };
+  }
+
+  updateLayerMeta(dataset: KeplerTable, getFeature) {
+    const {dataContainer} = dataset;
+    const {fieldIdx} = this.config.columns.geojson;
+    const source = this._featureSource;
+    // features only need to be parsed again when the geojson column changes
+    if (!source || source.dataContainer !== dataContainer || source.fieldIdx !== fieldIdx) {
+      this.dataToFeature = getGeojsonDataMaps(dataContainer, getFeature);
+      this._featureSource = {dataContainer, fieldIdx};
+      this.updateMeta({bounds: getGeojsonBounds(this.dataToFeature)});
+    }
+  }
+
+  /**
+   * Generate dots of filtered polygons, gpu filters are applied on cpu
+   */
+  calculateDataAttribute({
+    dataContainer,
+    filteredIndex,
+    gpuFilter,
+    fields
+  }: KeplerTable): DotDatum[] {
+    const hasFilter = Object.values(gpuFilter.filterRange).some((arr: any) =>
+      arr.some(v => v !== 0)
+    );
+    const filterData = hasFilter
+      ? getFilterDataFunc(gpuFilter.filterRange, gpuFilter.filterValueAccessor(dataContainer)())
+      : null;
+    const countFields = this.config.visConfig.dotDensityFields.map(({name}) =>
+      fields.find(f => f.name === name)
+    );
+
+    const {dots, dotsPerUnit} = generateDots({
+      indexes: filterData ? filteredIndex.filter(index => filterData({index})) : filteredIndex,
+      getPolygons: index => {
+        const feature = this.dataToFeature[index];
+        return feature && 'geometry' in feature ? getGeometryPolygons(feature.geometry) : [];
+      },
+      getValue: (index, fieldIndex) => {
+        const field = countFields[fieldIndex];
+        return field ? Number(field.valueAccessor({index})) : null;
+      },
+      numFields: countFields.length,
+      dotsPerUnit: this.config.visConfig.dotsPerUnit
+    });
+    // dots per unit can be lowered to limit the number of dots
+    this.updateMeta({dotsPerUnit});
+    return dots;
+  }
+
+  formatLayerData(datasets: Datasets, oldLayerData) {
+    if (this.config.dataId === null) {
+      return {};
+    }
+    const {data} = this.updateData(datasets, oldLayerData);
+    return {data};
+  }
+
+  getDefaultDeckLayerProps(opts): any {
+    return {
+      ...super.getDefaultDeckLayerProps(opts),
+      // gpu filters are applied when generating dots
+      extensions: []
+    };
+  }
+
+  renderLayer(opts) {
+    const {data} = opts;
+    const {visConfig} = this.config;
+    const colors = visConfig.dotDensityFields.map(({color}) => color);
+
+    return [
+      new ScatterplotLayer<DotDatum>({
+        ...this.getDefaultDeckLayerProps(opts),
+        data: data.data,
+        getPosition: d => d.position,
+        getFillColor: d => colors[d.fieldIndex] || this.config.color,
+        getRadius: visConfig.radius,
+        radiusUnits: 'pixels',
+        stroked: false,
+        updateTriggers: {
+          getFillColor: colors,
+          getRadius: visConfig.radius
+        }
+      })
+    ];
+  }
+}
@@ -0,0 +1,143 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {PolygonRings, isPointInPolygon} from '@kepler.gl/utils';
+
+type Point = [number, number];
+
+export type DotDatum = {
+  /** index of the source row */
+  index: number;
+  /** index of the count field the dot represents */
+  fieldIndex: number;
+  /** `[lng, lat]` of the dot */
+  position: Point;
+};
+
+/** Fixed seed so dots stay in place when the layer is re-rendered or the map is reloaded */
+export const DOT_DENSITY_SEED = 20240917;
+
+/** Max number of dots of a layer, dots per unit is lowered to fit */
+export const MAX_DOT_COUNT = 1000000;
+
+/** Max number of rejected samples per dot, to bail out of thin or degenerate polygons */
+const MAX_ATTEMPTS_PER_DOT = 50;
+
+/**
+ * Seeded pseudo random number generator (mulberry32), returns numbers in [0, 1)
+ */
+export function createRandomGenerator(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Combine integers into a 32 bit seed
+ */
+export function hashSeed(...values: number[]): number {
+  let hash = 2166136261;
+  values.forEach(value => {
+    hash = Math.imul(hash ^ (value >>> 0), 16777619);
+  });
+  return hash >>> 0;
+}
+
+/**
+ * Random points inside polygons, sampled in the bounding box of the polygons
+ */
+export function getRandomPointsInPolygons(
+  polygons: PolygonRings[],
+  count: number,
+  random: () => number
+): Point[] {
+  const points: Point[] = [];
+  if (!polygons.length || count <= 0) {
+    return points;
+  }
+  let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+  polygons.forEach(([exterior]) =>
+    exterior.forEach(([x, y]) => {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    })
+  );
+  if (!(maxX > minX && maxY > minY)) {
+    return points;
+  }
+
+  const maxAttempts = count * MAX_ATTEMPTS_PER_DOT;
+  for (let attempt = 0; attempt < maxAttempts && points.length < count; attempt++) {
+    const point: Point = [minX + random() * (maxX - minX), minY + random() * (maxY - minY)];
+    if (polygons.some(rings => isPointInPolygon(point, rings))) {
+      points.push(point);
+    }
+  }
+  return points;
+}
+
+/**
+ * Generate dots inside polygons in proportion to the values of count fields.
+ * Each feature and field has its own seeded generator, so dots of a feature stay in place
+ * when other features are filtered, and increasing dots per unit only adds dots.
+ * The fractional part of the expected dot count is rounded randomly, so small counts aren't lost
+ */
+export function generateDots({
+  indexes,
+  getPolygons,
+  getValue,
+  numFields,
+  dotsPerUnit,
+  seed = DOT_DENSITY_SEED
+}: {
+  indexes: number[];
+  getPolygons: (index: number) => PolygonRings[];
+  getValue: (index: number, fieldIndex: number) => number | null;
+  numFields: number;
+  dotsPerUnit: number;
+  seed?: number;
+}): {dots: DotDatum[]; dotsPerUnit: number} {
+  let total = 0;
+  indexes.forEach(index => {
+    for (let f = 0; f < numFields; f++) {
+      const value = getValue(index, f);
+      total += Number.isFinite(value) && (value as number) > 0 ? (value as number) : 0;
+    }
+  });
+  const unit = total * dotsPerUnit > MAX_DOT_COUNT ? MAX_DOT_COUNT / total : dotsPerUnit;
+
+  const dots: DotDatum[] = [];
+  indexes.forEach(index => {
+    const polygons = getPolygons(index);
+    if (!polygons.length) {
+      return;
+    }
+    for (let fieldIndex = 0; fieldIndex < numFields; fieldIndex++) {
+      const value = getValue(index, fieldIndex);
+      if (!Number.isFinite(value) || (value as number) <= 0) {
+        continue;
+      }
+      const random = createRandomGenerator(hashSeed(seed, index, fieldIndex));
+      const expected = (value as number) * unit;
+      const count = Math.floor(expected) + (random() < expected - Math.floor(expected) ? 1 : 0);
+      getRandomPointsInPolygons(polygons, count, random).forEach(position =>
+        dots.push({index, fieldIndex, position})
+      );
+    }
+  });
+
+  // shuffle so dots of the last field don't cover the others
+  const random = createRandomGenerator(seed);
+  for (let i = dots.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [dots[i], dots[j]] = [dots[j], dots[i]];
+  }
+  return {dots, dotsPerUnit: unit};
+}
@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {Component} from 'react';
+import PropTypes from 'prop-types';
+import {Base} from '../base';
+
+export default class FlowLayerIcon extends Component {
+  static propTypes = {
+    /** Set the height of the icon, ex. '16px' */
+    height: PropTypes.string,
+    colors: PropTypes.arrayOf(PropTypes.string)
+  };
+
+  static defaultProps = {
+    height: '16px',
+    predefinedClassName: 'flow-layer-icon',
+    totalColor: 3
+  };
+
+  render() {
+    return (
+      <Base {...this.props}>
+        <path
+          d="M14.5,47.5c-0.6,0-1.1-0.3-1.4-0.9c-0.3-0.7,0-1.6,0.7-2c11.6-5.7,22.9-7.9,33.5-6.4c0.8,0.1,1.4,0.9,1.3,1.7
+          c-0.1,0.8-0.9,1.4-1.7,1.3c-10-1.4-20.6,0.7-31.8,6.1C14.9,47.5,14.7,47.5,14.5,47.5z"
+          className="cr1"
+        />
+        <path
+          d="M16.5,29.5c-0.4,0-0.8-0.2-1.1-0.5c-0.6-0.6-0.5-1.6,0.1-2.1c8.4-7.5,18.3-11.3,29.6-11.3c0.8,0,1.5,0.7,1.5,1.5
+          s-0.7,1.5-1.5,1.5c-10.5,0-19.7,3.5-27.6,10.5C17.2,29.4,16.9,29.5,16.5,29.5z"
+          className="cr2"
+        />
+        <path d="M44,10.5l10,6.3l-10,6.3V10.5z" className="cr2" />
+        <path d="M45.5,33.2l9.5,6.9l-10.4,5.4L45.5,33.2z" className="cr1" />
+        <circle cx="14" cy="28" r="5" className="cr3" />
+        <circle cx="13" cy="47" r="7" className="cr3" />
+      </Base>
+    );
+  }
+}
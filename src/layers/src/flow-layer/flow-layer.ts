@@ -0,0 +1,500 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {IconLayer, PathLayer, ScatterplotLayer} from '@deck.gl/layers';
+
+import AggregationLayer, {
+  AggregationLayerConfig,
+  getAggregatedValueDomain,
+  getFilterDataFunc,
+  getValueAggrFunc
+} from '../aggregation-layer';
+import {LayerBounds, VisualChannels} from '../base-layer';
+import {arcColumnLabels, arcRequiredColumns} from '../arc-layer/arc-layer';
+import FlowLayerIcon from './flow-layer-icon';
+import {
+  aggregateFlows,
+  getFlowClusterLevel,
+  getFlowClusterLevels,
+  getFlowCurve,
+  getFlowPoints,
+  getLocationTotal,
+  FlowClusterLevel,
+  FlowDatum,
+  FlowLocation
+} from './flow-utils';
+import {CHANNEL_SCALES, NO_VALUE_COLOR, AggregationTypes} from '@kepler.gl/constants';
+import {notNullorUndefined} from '@kepler.gl/common-utils';
+import {DataContainerInterface, maybeHexToGeo} from '@kepler.gl/utils';
+import {
+  ColorRange,
+  Field,
+  LayerColumn,
+  Merge,
+  VisConfigBoolean,
+  VisConfigColorRange,
+  VisConfigNumber,
+  VisConfigRange,
+  VisConfigSelection
+} from '@kepler.gl/types';
+import {Datasets, KeplerTable} from '@kepler.gl/table';
+
+export type FlowLayerVisConfigSettings = {
+  opacity: VisConfigNumber;
+  colorRange: VisConfigColorRange;
+  colorAggregation: VisConfigSelection;
+  sizeAggregation: VisConfigSelection;
+  sizeRange: VisConfigRange;
+  clusterRadius: VisConfigNumber;
+  radiusRange: VisConfigRange;
+  flowCurveness: VisConfigNumber;
+  flowArrows: VisConfigBoolean;
+  flowLocations: VisConfigBoolean;
+};
+
+export type FlowLayerColumnsConfig = {
+  lat0: LayerColumn;
+  lng0: LayerColumn;
+  lat1: LayerColumn;
+  lng1: LayerColumn;
+};
+
+export type FlowLayerVisConfig = {
+  opacity: number;
+  colorRange: ColorRange;
+  colorAggregation: AggregationTypes;
+  sizeAggregation: AggregationTypes;
+  sizeRange: [number, number];
+  clusterRadius: number;
+  radiusRange: [number, number];
+  flowCurveness: number;
+  flowArrows: boolean;
+  flowLocations: boolean;
+};
+
+export type FlowLayerConfig = Merge<
+  AggregationLayerConfig,
+  {columns: FlowLayerColumnsConfig; visConfig: FlowLayerVisConfig}
+>;
+
+export type FlowLayerMeta = {
+  bounds: LayerBounds;
+};
+
+/** A flow of the rendered cluster level, with its encoded values and curve */
+export type FlowRenderDatum = {
+  flow: FlowDatum;
+  colorValue: any;
+  sizeValue: any;
+  path: [number, number][];
+  midpoint: [number, number];
+  angle: number;
+};
+
+export type FlowLocationRenderDatum = {
+  location: FlowLocation;
+};
+
+export const flowVisConfigs: {
+  opacity: 'opacity';
+  colorRange: 'colorRange';
+  colorAggregation: 'colorAggregation';
+  sizeAggregation: 'sizeAggregation';
+  sizeRange: 'strokeWidthRange';
+  clusterRadius: 'clusterRadius';
+  radiusRange: 'clusterRadiusRange';
+  flowCurveness: 'flowCurveness';
+  flowArrows: 'flowArrows';
+  flowLocations: 'flowLocations';
+} = {
+  opacity: 'opacity',
+  colorRange: 'colorRange',
+  colorAggregation: 'colorAggregation',
+  sizeAggregation: 'sizeAggregation',
+  sizeRange: 'strokeWidthRange',
+  clusterRadius: 'clusterRadius',
+  radiusRange: 'clusterRadiusRange',
+  flowCurveness: 'flowCurveness',
+  flowArrows: 'flowArrows',
+  flowLocations: 'flowLocations'
+};
+
+const ARROW_ICON_SIZE = 64;
+const ARROW_ICON_ATLAS = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${ARROW_ICON_SIZE}" height="${ARROW_ICON_SIZE}"><path d="M0 8L64 32L0 56L16 32Z" fill="#fff"/></svg>`
+)}`;
+const ARROW_ICON_MAPPING = {
+  arrow: {x: 0, y: 0, width: ARROW_ICON_SIZE, height: ARROW_ICON_SIZE, mask: true}
+};
+
+export const flowPosAccessor =
+  ({lat0, lng0, lat1, lng1}: FlowLayerColumnsConfig) =>
+  (dc: DataContainerInterface) =>
+  d => {
+    // lat or lng column could be hex column
+    const startPos = maybeHexToGeo(dc, d, lat0, lng0);
+    const endPos = maybeHexToGeo(dc, d, lat1, lng1);
+    return [
+      startPos ? startPos[0] : dc.valueAt(d.index, lng0.fieldIdx),
+      startPos ? startPos[1] : dc.valueAt(d.index, lat0.fieldIdx),
+      0,
+      endPos ? endPos[0] : dc.valueAt(d.index, lng1.fieldIdx),
+      endPos ? endPos[1] : dc.valueAt(d.index, lat1.fieldIdx),
+      0
+    ];
+  };
+
+export const isFlowLocationDatum = (d: any): d is FlowLocationRenderDatum =>
+  Boolean(d && d.location);
+
+export default class FlowLayer extends AggregationLayer {
+  declare visConfigSettings: FlowLayerVisConfigSettings;
+  declare config: FlowLayerConfig;
+  declare meta: FlowLayerMeta;
+
+  // encoded flows of the last rendered cluster level
+  _renderCache: {
+    level: FlowClusterLevel;
+    curveness: number;
+    colorValues: any[];
+    flows: FlowRenderDatum[];
+    locations: FlowLocationRenderDatum[];
+  } | null = null;
+
+  constructor(props) {
+    super(props);
+    this.registerVisConfig(flowVisConfigs);
+
+    this.getPositionAccessor = (dataContainer: DataContainerInterface) =>
+      flowPosAccessor(this.config.columns)(dataContainer);
+    this.getPointData = pt => pt;
+  }
+
+  get type(): 'flow' {
+    return 'flow';
+  }
+
+  get layerIcon() {
+    return FlowLayerIcon;
+  }
+
+  get requiredLayerColumns() {
+    return arcRequiredColumns;
+  }
+
+  get columnLabels(): Record<string, string> {
+    return arcColumnLabels;
+  }
+
+  get columnPairs() {
+    return this.defaultLinkColumnPairs;
+  }
+
+  get noneLayerDataAffectingProps() {
+    return [
+      ...super.noneLayerDataAffectingProps,
+      'radiusRange',
+      'flowCurveness',
+      'flowArrows',
+      'flowLocations'
+    ];
+  }
+
+  get visualChannels(): VisualChannels {
+    return {
+      color: {
+        aggregation: 'colorAggregation',
+        channelScaleType: CHANNEL_SCALES.colorAggr,
+        defaultMeasure: 'property.pointCount',
+        domain: 'colorDomain',
+        field: 'colorField',
+        key: 'color',
+        property: 'color',
+        range: 'colorRange',
+        scale: 'colorScale'
+      },
+      size: {
+        aggregation: 'sizeAggregation',
+        channelScaleType: CHANNEL_SCALES.sizeAggr,
+        defaultMeasure: 'property.pointCount',
+        domain: 'sizeDomain',
+        field: 'sizeField',
+        key: 'size',
+        property: 'stroke',
+        range: 'sizeRange',
+        scale: 'sizeScale'
+      }
+    };
+  }
+
+  getDataUpdateTriggers(dataset: KeplerTable) {
+    const triggers = super.getDataUpdateTriggers(dataset);
+    return {
+      ...triggers,
+      getData: {
+        ...triggers.getData,
+        filterRange: dataset.gpuFilter.filterRange,
+        clusterRadius: this.config.visConfig.clusterRadius
+      }
+    };
+  }
+
+  updateLayerMeta(dataset: KeplerTable, getPosition) {
+    const {dataContainer} = dataset;
+    const sBounds = this.getPointsBounds(dataContainer, d => getPosition(d).slice(0, 2));
+    const tBounds = this.getPointsBounds(dataContainer, d => getPosition(d).slice(3, 5));
+
+    const bounds =
+      sBounds && tBounds
+        ? [
+            Math.min(sBounds[0], tBounds[0]),
+            Math.min(sBounds[1], tBounds[1]),
+            Math.max(sBounds[2], tBounds[2]),
+            Math.max(sBounds[3], tBounds[3])
+          ]
+        : sBounds || tBounds;
+
+    this.updateMeta({bounds});
+  }
+
+  /**
+   * Aggregate rows by origin and destination, then cluster locations for each zoom level.
+   * gpu filters are applied on cpu since rows are aggregated
+   */
+  calculateDataAttribute({dataContainer, filteredIndex, gpuFilter}: KeplerTable, getPosition) {
+    const hasFilter = Object.values(gpuFilter.filterRange).some((arr: any) =>
+      arr.some(v => v !== 0)
+    );
+    const filterData = hasFilter
+      ? getFilterDataFunc(gpuFilter.filterRange, gpuFilter.filterValueAccessor(dataContainer)())
+      : undefined;
+
+    return getFlowClusterLevels(
+      aggregateFlows(filteredIndex, getPosition, filterData),
+      this.config.visConfig.clusterRadius
+    );
+  }
+
+  formatLayerData(datasets: Datasets, oldLayerData) {
+    if (this.config.dataId === null) {
+      return {};
+    }
+    const {data} = this.updateData(datasets, oldLayerData);
+    const levels: FlowClusterLevel[] = data || [];
+
+    const aggregatePoints = getValueAggrFunc(this.getPointData);
+    const getColorValue = aggregatePoints(
+      this.config.colorField,
+      this.config.visConfig.colorAggregation
+    );
+    const getSizeValue = aggregatePoints(
+      this.config.sizeField,
+      this.config.visConfig.sizeAggregation
+    );
+
+    // encoded values of each flow in each cluster level
+    const colorValues = levels.map(level =>
+      level.flows.map(flow => getColorValue(getFlowPoints(flow)))
+    );
+    const sizeValues = levels.map(level =>
+      level.flows.map(flow => getSizeValue(getFlowPoints(flow)))
+    );
+
+    // domains cover all zoom levels so the legend does not change while zooming
+    this.updateLayerConfig({
+      colorDomain: getAggregatedValueDomain(colorValues.flat(), this.config.colorScale),
+      sizeDomain: getAggregatedValueDomain(sizeValues.flat(), this.config.sizeScale)
+    });
+
+    return {
+      data: levels,
+      colorValues,
+      sizeValues,
+      maxLocationTotal: levels.reduce(
+        (accu, level) =>
+          level.locations.reduce((max, l) => Math.max(max, getLocationTotal(l)), accu),
+        0
+      )
+    };
+  }
+
+  /**
+   * Flow layer calculates visual channel domains in formatLayerData
+   */
+  updateLayerDomain(): FlowLayer {
+    return this;
+  }
+
+  getRenderData(
+    levels: FlowClusterLevel[],
+    colorValues: any[][],
+    sizeValues: any[][],
+    zoom: number
+  ): {flows: FlowRenderDatum[]; locations: FlowLocationRenderDatum[]} {
+    const level = getFlowClusterLevel(levels, zoom);
+    if (!level) {
+      return {flows: [], locations: []};
+    }
+    const levelIdx = levels.indexOf(level);
+    const curveness = this.config.visConfig.flowCurveness;
+    const cache = this._renderCache;
+
+    if (
+      cache &&
+      cache.level === level &&
+      cache.curveness === curveness &&
+      cache.colorValues === colorValues[levelIdx]
+    ) {
+      return cache;
+    }
+
+    const flows = level.flows.map((flow, i) => ({
+      flow,
+      colorValue: colorValues[levelIdx][i],
+      sizeValue: sizeValues[levelIdx][i],
+      ...getFlowCurve(flow, curveness)
+    }));
+    const locations = level.locations.map(location => ({location}));
+
+    this._renderCache = {
+      level,
+      curveness,
+      colorValues: colorValues[levelIdx],
+      flows,
+      locations
+    };
+    return this._renderCache;
+  }
+
+  getDefaultDeckLayerProps(opts): any {
+    return {
+      ...super.getDefaultDeckLayerProps(opts),
+      highlightColor: this.config.highlightColor,
+      autoHighlight: true
+    };
+  }
+
+  renderLayer(opts) {
+    const {data, mapState, objectHovered} = opts;
+    const {visConfig, colorScale, colorDomain, sizeScale, sizeDomain, color} = this.config;
+    const {flows, locations} = this.getRenderData(
+      data.data,
+      data.colorValues,
+      data.sizeValues,
+      mapState.zoom
+    );
+
+    const cScale = this.getColorScale(String(colorScale), colorDomain, visConfig.colorRange);
+    const sScale = this.getVisChannelScale(String(sizeScale), sizeDomain, visConfig.sizeRange);
+    const getColor = (d: FlowRenderDatum) =>
+      cScale && notNullorUndefined(d.colorValue) ? cScale(d.colorValue) : NO_VALUE_COLOR;
+    const getWidth = (d: FlowRenderDatum) =>
+      sScale && notNullorUndefined(d.sizeValue) ? sScale(d.sizeValue) : 0;
+
+    const [minRadius, maxRadius] = visConfig.radiusRange;
+    const getRadius = ({location}: FlowLocationRenderDatum) =>
+      minRadius +
+      (maxRadius - minRadius) *
+        Math.sqrt(getLocationTotal(location) / Math.max(data.maxLocationTotal, 1));
+
+    const updateTriggers = {
+      getColor: {colorScale, colorDomain, colorRange: visConfig.colorRange},
+      getWidth: {sizeScale, sizeDomain, sizeRange: visConfig.sizeRange},
+      getSize: {sizeScale, sizeDomain, sizeRange: visConfig.sizeRange},
+      getRadius: {radiusRange: visConfig.radiusRange},
+      getFillColor: {color}
+    };
+
+    const defaultLayerProps = this.getDefaultDeckLayerProps(opts);
+    const hoveredObject = this.hasHoveredObject(objectHovered);
+
+    return [
+      ...(visConfig.flowLocations
+        ? [
+            new ScatterplotLayer<FlowLocationRenderDatum>({
+              ...defaultLayerProps,
+              id: `${this.id}-locations`,
+              data: locations,
+              getPosition: d => d.location.position,
+              getRadius,
+              getFillColor: color,
+              radiusUnits: 'pixels',
+              updateTriggers
+            })
+          ]
+        : []),
+      new PathLayer<FlowRenderDatum>({
+        ...defaultLayerProps,
+        data: flows,
+        getPath: d => d.path,
+        getColor,
+        getWidth,
+        widthUnits: 'pixels',
+        capRounded: true,
+        jointRounded: true,
+        updateTriggers
+      }),
+      ...(visConfig.flowArrows
+        ? [
+            new IconLayer<FlowRenderDatum>({
+              ...defaultLayerProps,
+              id: `${this.id}-arrows`,
+              pickable: false,
+              data: flows,
+              iconAtlas: ARROW_ICON_ATLAS,
+              iconMapping: ARROW_ICON_MAPPING,
+              getIcon: () => 'arrow',
+              getPosition: d => d.midpoint,
+              getAngle: d => d.angle,
+              getColor,
+              getSize: d => 2 * getWidth(d) + 6,
+              sizeUnits: 'pixels',
+              updateTriggers
+            })
+          ]
+        : []),
+      // hover layer
+      ...(hoveredObject && !isFlowLocationDatum(hoveredObject)
+        ? [
+            new PathLayer<FlowRenderDatum>({
+              ...this.getDefaultHoverLayerProps(),
+              visible: defaultLayerProps.visible,
+              data: [hoveredObject],
+              getPath: d => d.path,
+              getColor: this.config.highlightColor,
+              getWidth: d => getWidth(d) + 2,
+              widthUnits: 'pixels'
+            })
+          ]
+        : [])
+    ];
+  }
+
+  isLayerHovered(objectInfo): boolean {
+    return (
+      objectInfo?.picked && [this.id, `${this.id}-locations`].includes(objectInfo?.layer?.props?.id)
+    );
+  }
+
+  getHoverData(object: any, dataContainer: DataContainerInterface, fields: Field[]): any {
+    if (!object) {
+      return object;
+    }
+    if (isFlowLocationDatum(object)) {
+      const {incoming, outgoing, internal} = object.location;
+      return {
+        fieldValues: [
+          {labelMessage: 'layer.flowIncoming', value: String(incoming)},
+          {labelMessage: 'layer.flowOutgoing', value: String(outgoing)},
+          {labelMessage: 'layer.flowInternal', value: String(internal)}
+        ]
+      };
+    }
+
+    return {
+      ...super.getHoverData({points: getFlowPoints(object.flow)}, dataContainer, fields),
+      colorValue: object.colorValue,
+      elevationValue: object.sizeValue
+    };
+  }
+}
@@ -0,0 +1,304 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {lngLatToWorld, worldToLngLat} from '../layer-utils';
+
+export const FLOW_MAX_CLUSTER_ZOOM = 20;
+export const FLOW_CURVE_SEGMENTS = 16;
+
+export type FlowPoint = {index: number};
+
+export type FlowLocation = {
+  id: string;
+  position: [number, number];
+  /** number of rows ending at this location */
+  incoming: number;
+  /** number of rows starting from this location */
+  outgoing: number;
+  /** number of rows starting and ending within this location */
+  internal: number;
+};
+
+export type FlowDatum = {
+  source: string;
+  target: string;
+  sourcePosition: [number, number];
+  targetPosition: [number, number];
+  /** number of rows */
+  count: number;
+  /** rows of an origin-destination pair */
+  points?: FlowPoint[];
+  /** flows merged into a clustered flow */
+  children?: FlowDatum[];
+};
+
+export type FlowClusterLevel = {
+  zoom: number;
+  locations: FlowLocation[];
+  flows: FlowDatum[];
+};
+
+const getLocationId = ([lng, lat]: number[]) => `${lng},${lat}`;
+
+/**
+ * Aggregate rows into one flow per origin-destination pair
+ * @param filteredIndex - indices of rows to aggregate
+ * @param getPosition - returns `[lng0, lat0, z0, lng1, lat1, z1]` of a row
+ * @param filterData - optional predicate applied on top of filteredIndex, e.g. gpu filters
+ */
+export function aggregateFlows(
+  filteredIndex: number[],
+  getPosition: (d: FlowPoint) => number[],
+  filterData?: (d: FlowPoint) => boolean
+): {locations: FlowLocation[]; flows: FlowDatum[]} {
+  const locations = new Map<string, FlowLocation>();
+  const flows = new Map<string, FlowDatum>();
+
+  const getLocation = (position: [number, number]) => {
+    const id = getLocationId(position);
+    if (!locations.has(id)) {
+      locations.set(id, {id, position, incoming: 0, outgoing: 0, internal: 0});
+    }
+    return locations.get(id) as FlowLocation;
+  };
+
+  for (let i = 0; i < filteredIndex.length; i++) {
+    const point = {index: filteredIndex[i]};
+    const pos = getPosition(point);
+    if (!pos.every(Number.isFinite) || (filterData && !filterData(point))) {
+      continue;
+    }
+    const source = getLocation([pos[0], pos[1]]);
+    const target = getLocation([pos[3], pos[4]]);
+
+    if (source === target) {
+      source.internal += 1;
+      continue;
+    }
+    source.outgoing += 1;
+    target.incoming += 1;
+
+    const flowId = `${source.id}>${target.id}`;
+    const flow = flows.get(flowId);
+    if (flow) {
+      flow.count += 1;
+      flow.points?.push(point);
+    } else {
+      flows.set(flowId, {
+        source: source.id,
+        target: target.id,
+        sourcePosition: source.position,
+        targetPosition: target.position,
+        count: 1,
+        points: [point]
+      });
+    }
+  }
+
+  return {locations: Array.from(locations.values()), flows: Array.from(flows.values())};
+}
+
+/**
+ * Get rows of a flow, including rows of clustered flows
+ */
+export function getFlowPoints(flow: FlowDatum): FlowPoint[] {
+  if (flow.points) {
+    return flow.points;
+  }
+  const points: FlowPoint[] = [];
+  (flow.children || []).forEach(child => {
+    getFlowPoints(child).forEach(p => points.push(p));
+  });
+  return points;
+}
+
+export const getLocationTotal = (location: FlowLocation) =>
+  location.incoming + location.outgoing + location.internal;
+
+/**
+ * Merge locations within the same `clusterRadius` pixel grid cell at `zoom`.
+ * Cells at `zoom` contain exactly 4 cells of `zoom + 1`, so clusters are hierarchical.
+ */
+function clusterLocationsAtZoom(
+  locations: FlowLocation[],
+  worldPositions: Map<string, [number, number]>,
+  zoom: number,
+  clusterRadius: number
+): {locations: FlowLocation[]; clusterOf: Map<string, FlowLocation>} {
+  const cellSize = clusterRadius / Math.pow(2, zoom);
+  const cells = new Map<string, FlowLocation[]>();
+
+  locations.forEach(location => {
+    const [x, y] = worldPositions.get(location.id) as [number, number];
+    const cellId = `${Math.floor(x / cellSize)}-${Math.floor(y / cellSize)}`;
+    const cell = cells.get(cellId);
+    if (cell) {
+      cell.push(location);
+    } else {
+      cells.set(cellId, [location]);
+    }
+  });
+
+  const clusterOf = new Map<string, FlowLocation>();
+  const clusters: FlowLocation[] = [];
+
+  cells.forEach((members, cellId) => {
+    let cluster: FlowLocation;
+    if (members.length === 1) {
+      cluster = {...members[0], incoming: 0, outgoing: 0, internal: members[0].internal};
+    } else {
+      // weighted centroid of member locations
+      let weights = 0;
+      const sum = [0, 0];
+      members.forEach(m => {
+        const weight = getLocationTotal(m) || 1;
+        const [x, y] = worldPositions.get(m.id) as [number, number];
+        sum[0] += x * weight;
+        sum[1] += y * weight;
+        weights += weight;
+      });
+      cluster = {
+        id: `cluster-${zoom}-${cellId}`,
+        position: worldToLngLat([sum[0] / weights, sum[1] / weights]),
+        incoming: 0,
+        outgoing: 0,
+        internal: members.reduce((accu, m) => accu + m.internal, 0)
+      };
+    }
+    members.forEach(m => clusterOf.set(m.id, cluster));
+    clusters.push(cluster);
+  });
+
+  return {locations: clusters, clusterOf};
+}
+
+/**
+ * Merge flows between clustered locations, flows within a cluster are counted as internal
+ */
+function clusterFlowsAtZoom(flows: FlowDatum[], clusterOf: Map<string, FlowLocation>): FlowDatum[] {
+  const merged = new Map<string, FlowDatum>();
+
+  flows.forEach(flow => {
+    const source = clusterOf.get(flow.source) as FlowLocation;
+    const target = clusterOf.get(flow.target) as FlowLocation;
+
+    if (source === target) {
+      source.internal += flow.count;
+      return;
+    }
+    source.outgoing += flow.count;
+    target.incoming += flow.count;
+
+    const flowId = `${source.id}>${target.id}`;
+    const existing = merged.get(flowId);
+    if (existing) {
+      existing.count += flow.count;
+      existing.children?.push(flow);
+    } else {
+      merged.set(flowId, {
+        source: source.id,
+        target: target.id,
+        sourcePosition: source.position,
+        targetPosition: target.position,
+        count: flow.count,
+        children: [flow]
+      });
+    }
+  });
+
+  return Array.from(merged.values()).map(flow =>
+    // keep original flow if it is not merged with other flows
+    flow.children?.length === 1 &&
+    flow.source === flow.children[0].source &&
+    flow.target === flow.children[0].target
+      ? flow.children[0]
+      : flow
+  );
+}
+
+/**
+ * Cluster flow locations for each zoom level, starting from zoom 0 until locations no longer
+ * merge. The last level holds the unclustered flows.
+ * @param aggregation - result of `aggregateFlows`
+ * @param clusterRadius - cluster radius in pixels
+ * @returns levels indexed by zoom
+ */
+export function getFlowClusterLevels(
+  {locations, flows}: {locations: FlowLocation[]; flows: FlowDatum[]},
+  clusterRadius: number,
+  maxZoom = FLOW_MAX_CLUSTER_ZOOM
+): FlowClusterLevel[] {
+  if (!flows.length) {
+    return [];
+  }
+
+  const worldPositions = new Map<string, [number, number]>(
+    locations.map(l => [l.id, lngLatToWorld(l.position)])
+  );
+  const levels: FlowClusterLevel[] = [];
+
+  for (let zoom = 0; zoom < maxZoom && clusterRadius > 0; zoom++) {
+    const clustered = clusterLocationsAtZoom(locations, worldPositions, zoom, clusterRadius);
+    if (clustered.locations.length === locations.length) {
+      break;
+    }
+    levels.push({
+      zoom,
+      flows: clusterFlowsAtZoom(flows, clustered.clusterOf),
+      locations: clustered.locations
+    });
+  }
+
+  levels.push({zoom: levels.length, locations, flows});
+  return levels;
+}
+
+/**
+ * Get the cluster level to render at a map zoom
+ */
+export function getFlowClusterLevel(
+  levels: FlowClusterLevel[],
+  zoom: number
+): FlowClusterLevel | null {
+  if (!levels.length) {
+    return null;
+  }
+  return levels[Math.min(Math.max(Math.floor(zoom), 0), levels.length - 1)];
+}
+
+/**
+ * Curved path of a flow, a quadratic bezier curve bending to the right of the flow direction
+ * @param flow
+ * @param curveness - distance of the control point from the straight line, relative to length
+ * @returns path coordinates, position and angle of the arrow placed in the middle of the curve
+ */
+export function getFlowCurve(
+  {sourcePosition, targetPosition}: Pick<FlowDatum, 'sourcePosition' | 'targetPosition'>,
+  curveness: number,
+  segments = FLOW_CURVE_SEGMENTS
+): {path: [number, number][]; midpoint: [number, number]; angle: number} {
+  const [x0, y0] = lngLatToWorld(sourcePosition);
+  const [x2, y2] = lngLatToWorld(targetPosition);
+  const dx = x2 - x0;
+  const dy = y2 - y0;
+  const cx = (x0 + x2) / 2 + dy * curveness;
+  const cy = (y0 + y2) / 2 - dx * curveness;
+
+  const getPoint = (t: number) =>
+    worldToLngLat([
+      (1 - t) * (1 - t) * x0 + 2 * (1 - t) * t * cx + t * t * x2,
+      (1 - t) * (1 - t) * y0 + 2 * (1 - t) * t * cy + t * t * y2
+    ]);
+
+  const path: [number, number][] = [];
+  for (let i = 0; i <= segments; i++) {
+    path.push(getPoint(i / segments));
+  }
+
+  return {
+    path,
+    midpoint: getPoint(0.5),
+    // tangent of a quadratic curve at t = 0.5 is parallel to the source-target line
+    angle: (Math.atan2(dy, dx) * 180) / Math.PI
+  };
+}
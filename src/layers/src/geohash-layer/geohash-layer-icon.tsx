@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {Component} from 'react';
+import PropTypes from 'prop-types';
+import {Base} from '../base';
+
+export default class GeohashLayerIcon extends Component {
+  static propTypes = {
+    /** Set the height of the icon, ex. '16px' */
+    height: PropTypes.string,
+    colors: PropTypes.arrayOf(PropTypes.string)
+  };
+
+  static defaultProps = {
+    height: '16px',
+    predefinedClassName: 'geohash-layer-icon',
+    totalColor: 3
+  };
+
+  render() {
+    return (
+      <Base {...this.props}>
+        <rect x="8" y="14" width="15" height="17" className="cr1" style={{opacity: 0.4}} />
+        <rect x="24" y="14" width="15" height="17" className="cr2" style={{opacity: 0.7}} />
+        <rect x="40" y="14" width="16" height="17" className="cr3" />
+        <rect x="8" y="33" width="15" height="17" className="cr3" style={{opacity: 0.7}} />
+        <rect x="24" y="33" width="7" height="8" className="cr1" />
+        <rect x="32" y="33" width="7" height="8" className="cr2" />
+        <rect x="24" y="42" width="15" height="8" className="cr3" style={{opacity: 0.4}} />
+        <rect x="40" y="33" width="16" height="17" className="cr1" style={{opacity: 0.7}} />
+      </Base>
+    );
+  }
+}
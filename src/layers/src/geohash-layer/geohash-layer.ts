@@ -0,0 +1,74 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import CellLayer, {cellVisConfigs, CellLayerConfig} from '../cell-layer/cell-layer';
+import {findCellFields} from '../cell-layer/cell-utils';
+import GeohashLayerIcon from './geohash-layer-icon';
+import {
+  geohashIsValid,
+  GEOHASH_FIELDS,
+  GEOHASH_INDEX_SYSTEM,
+  GEOHASH_MAX_RESOLUTION
+} from './geohash-utils';
+import {LAYER_VIS_CONFIGS} from '@kepler.gl/constants';
+import {LayerColumn, Merge} from '@kepler.gl/types';
+import {KeplerTable} from '@kepler.gl/table';
+
+export type GeohashLayerColumnsConfig = {
+  geohash: LayerColumn;
+};
+
+export type GeohashLayerConfig = Merge<CellLayerConfig, {columns: GeohashLayerColumnsConfig}>;
+
+export const geohashRequiredColumns: ['geohash'] = ['geohash'];
+
+export const geohashVisConfigs = {
+  ...cellVisConfigs,
+  resolution: {
+    ...LAYER_VIS_CONFIGS.resolution,
+    defaultValue: 5,
+    range: [1, GEOHASH_MAX_RESOLUTION]
+  }
+};
+
+export default class GeohashLayer extends CellLayer {
+  declare config: GeohashLayerConfig;
+
+  constructor(props) {
+    super(props);
+    this.registerVisConfig(geohashVisConfigs);
+  }
+
+  get type(): 'geohash' {
+    return 'geohash';
+  }
+
+  get name(): 'Geohash' {
+    return 'Geohash';
+  }
+
+  get layerIcon() {
+    return GeohashLayerIcon;
+  }
+
+  get requiredLayerColumns() {
+    return geohashRequiredColumns;
+  }
+
+  get cellIndexSystem() {
+    return GEOHASH_INDEX_SYSTEM;
+  }
+
+  static findDefaultLayerProps({fields = [], dataContainer, label}: KeplerTable) {
+    const geohashFields = findCellFields(fields, dataContainer, GEOHASH_FIELDS, geohashIsValid);
+
+    return {
+      props: geohashFields.map(f => ({
+        isVisible: true,
+        // default layer name should be dataset name
+        label,
+        columns: {geohash: {value: f.name, fieldIdx: f.fieldIdx}}
+      }))
+    };
+  }
+}
@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {CellIndexSystem, getBoundsRing} from '../cell-layer/cell-utils';
+
+export const GEOHASH_MAX_RESOLUTION = 12;
+
+export const GEOHASH_FIELDS = ['geohash', 'geo_hash', 'gh', 'geohash_id'];
+
+const GEOHASH_BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const GEOHASH_REGEX = /^[0-9b-hjkmnp-z]{1,12}$/;
+
+export function geohashIsValid(geohash: unknown): boolean {
+  return typeof geohash === 'string' && GEOHASH_REGEX.test(geohash);
+}
+
+/**
+ * Decode a lower case geohash, bits alternate between longitude and latitude
+ * starting with longitude
+ * @returns `[west, south, east, north]` of the cell
+ */
+export function getGeohashBounds(geohash: string): [number, number, number, number] {
+  let west = -180;
+  let east = 180;
+  let south = -90;
+  let north = 90;
+  let isLng = true;
+
+  for (const char of geohash) {
+    const bits = GEOHASH_BASE32.indexOf(char);
+    for (let bit = 4; bit >= 0; bit--) {
+      const isHigh = (bits >> bit) & 1;
+      if (isLng) {
+        const mid = (west + east) / 2;
+        [west, east] = isHigh ? [mid, east] : [west, mid];
+      } else {
+        const mid = (south + north) / 2;
+        [south, north] = isHigh ? [mid, north] : [south, mid];
+      }
+      isLng = !isLng;
+    }
+  }
+  return [west, south, east, north];
+}
+
+export const GEOHASH_INDEX_SYSTEM: CellIndexSystem = {
+  maxResolution: GEOHASH_MAX_RESOLUTION,
+  isValid: geohashIsValid,
+  getResolution: geohash => geohash.length,
+  getParent: (geohash, resolution) => geohash.slice(0, Math.max(resolution, 1)),
+  getBoundary: geohash => getBoundsRing(getGeohashBounds(geohash)),
+  getCentroid: geohash => {
+    const [west, south, east, north] = getGeohashBounds(geohash);
+    return [(west + east) / 2, (south + north) / 2];
+  }
+};
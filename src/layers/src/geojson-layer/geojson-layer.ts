@@ -39,7 +39,8 @@ import {
   HIGHLIGH_COLOR_3D,
   CHANNEL_SCALES,
   LAYER_VIS_CONFIGS,
-  DEFAULT_COLOR_UI
+  DEFAULT_COLOR_UI,
+  BIVARIATE_COLOR_CHANNEL
 } from '@kepler.gl/constants';
 import {
   ColorRange,
@@ -322,7 +323,8 @@ export default class GeoJsonLayer extends Layer {
         nullValue: visualChannels.color.nullValue,
         getAttributeValue: config => d => d.properties.fillColor || config.color,
         // used this to get updateTriggers
-        defaultValue: config => config.color
+        defaultValue: config => config.color,
+        bivariate: BIVARIATE_COLOR_CHANNEL
       },
       strokeColor: {
         property: 'strokeColor',
@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {Component} from 'react';
+import PropTypes from 'prop-types';
+import {Base} from '../base';
+
+export default class GlyphLayerIcon extends Component {
+  static propTypes = {
+    /** Set the height of the icon, ex. '16px' */
+    height: PropTypes.string,
+    colors: PropTypes.arrayOf(PropTypes.string)
+  };
+
+  static defaultProps = {
+    height: '16px',
+    predefinedClassName: 'glyph-layer-icon',
+    totalColor: 3
+  };
+
+  render() {
+    return (
+      <Base {...this.props}>
+        <path d="M24,24V8A16,16,0,0,1,40,24Z" className="cr1" />
+        <path d="M24,24H40A16,16,0,0,1,12.7,35.3Z" className="cr2" />
+        <path d="M24,24L12.7,35.3A16,16,0,0,1,24,8Z" className="cr3" />
+        <path d="M46,46V36A10,10,0,0,1,55.5,49.1Z" className="cr1" />
+        <path d="M46,46L55.5,49.1A10,10,0,0,1,36,46Z" className="cr2" />
+        <path d="M46,46H36A10,10,0,0,1,46,36Z" className="cr3" />
+      </Base>
+    );
+  }
+}
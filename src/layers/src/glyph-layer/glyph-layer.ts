@@ -0,0 +1,215 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {ScatterplotLayer} from '@deck.gl/layers';
+
+import {ScatterplotGlyphLayer} from '@kepler.gl/deckgl-layers';
+import {GLYPH_TYPES} from '@kepler.gl/constants';
+import {Datasets, KeplerTable} from '@kepler.gl/table';
+import {FieldColor, Merge, VisConfigFieldColors, VisConfigSelection} from '@kepler.gl/types';
+
+import PointLayer, {
+  COLUMN_MODE_GEOARROW,
+  COLUMN_MODE_POINTS,
+  PointLayerConfig,
+  PointLayerData,
+  PointLayerVisConfig,
+  PointLayerVisConfigSettings
+} from '../point-layer/point-layer';
+import {getTextOffsetByRadius} from '../layer-text-label';
+import GlyphLayerIcon from './glyph-layer-icon';
+import {getGlyphValue, normalizeGlyphValues} from './glyph-utils';
+
+export type GlyphLayerVisConfigSettings = PointLayerVisConfigSettings & {
+  glyphType: VisConfigSelection;
+  glyphFields: VisConfigFieldColors;
+};
+
+export type GlyphLayerVisConfig = PointLayerVisConfig & {
+  glyphType: string;
+  glyphFields: FieldColor[];
+};
+
+export type GlyphLayerConfig = Merge<PointLayerConfig, {visConfig: GlyphLayerVisConfig}>;
+
+export const glyphVisConfigs: {
+  glyphType: 'glyphType';
+  glyphFields: 'glyphFields';
+} = {
+  glyphType: 'glyphType',
+  glyphFields: 'glyphFields'
+};
+
+/**
+ * Point layer drawing each row as a pie, donut or bar chart of several numeric fields,
+ * symbols can be sized by a field like the point layer
+ */
+export default class GlyphLayer extends PointLayer {
+  declare config: GlyphLayerConfig;
+  declare visConfigSettings: GlyphLayerVisConfigSettings;
+
+  constructor(props) {
+    super(props);
+
+    this.registerVisConfig(glyphVisConfigs);
+  }
+
+  get type(): 'glyph' {
+    return 'glyph';
+  }
+
+  get name(): 'Glyph' {
+    return 'Glyph';
+  }
+
+  get layerIcon() {
+    return GlyphLayerIcon;
+  }
+
+  get supportedColumnModes() {
+    // glyphs are rendered from rows, geoarrow tables are not supported
+    return super.supportedColumnModes.filter(({key}) => key !== COLUMN_MODE_GEOARROW);
+  }
+
+  get visualChannels() {
+    // slice colors are set per field, symbols can only be sized by a field
+    return {size: super.visualChannels.size};
+  }
+
+  static findDefaultLayerProps() {
+    // glyphs need fields to be selected, never created by default
+    return {props: [], altProps: []};
+  }
+
+  setInitialLayerConfig() {
+    return this;
+  }
+
+  calculateDataAttribute({filteredIndex}: KeplerTable, getPosition) {
+    const data: PointLayerData[] = [];
+
+    for (let i = 0; i < filteredIndex.length; i++) {
+      const index = filteredIndex[i];
+      const pos =
+        this.config.columnMode === COLUMN_MODE_POINTS
+          ? getPosition({index})
+          : // COLUMN_MODE_GEOJSON mode - multi points are drawn at their first point
+            (Array.isArray(this.dataToFeature[index]?.[0])
+              ? this.dataToFeature[index]?.[0]
+              : this.dataToFeature[index]) || [];
+
+      // deck.gl can't handle position = null
+      if (pos.length && pos.every(Number.isFinite)) {
+        data.push({position: pos, index, neighbors: []});
+      }
+    }
+
+    return data;
+  }
+
+  formatLayerData(datasets: Datasets, oldLayerData) {
+    if (this.config.dataId === null) {
+      return {};
+    }
+    const layerData: {data?: PointLayerData[]} = super.formatLayerData(datasets, oldLayerData);
+    if (!layerData.data) {
+      return layerData;
+    }
+    const {fields} = datasets[this.config.dataId];
+    const {glyphType, glyphFields} = this.config.visConfig;
+
+    const glyphFieldList = glyphFields.map(({name}) => fields.find(f => f.name === name));
+    const getValues = ({index}: {index: number}) =>
+      glyphFieldList.map(field => (field ? getGlyphValue(field.valueAccessor({index})) : 0));
+
+    // bars of all glyphs share the same scale
+    let maxValue = 0;
+    if (glyphType === GLYPH_TYPES.bar) {
+      layerData.data.forEach(d => {
+        maxValue = Math.max(maxValue, ...getValues(d));
+      });
+    }
+
+    return {
+      ...layerData,
+      getGlyphValues: d => normalizeGlyphValues(getValues(d), glyphType, maxValue)
+    };
+  }
+
+  renderLayer(opts) {
+    const {data, gpuFilter, objectHovered, mapState} = opts;
+    const {visConfig} = this.config;
+
+    // if no field size is defined we need to pass fixed radius = false
+    const fixedRadius = visConfig.fixedRadius && Boolean(this.config.sizeField);
+    const radiusScale = this.getRadiusScaleByZoom(mapState, fixedRadius);
+    const layerProps = {
+      billboard: visConfig.billboard,
+      radiusScale,
+      ...(visConfig.fixedRadius ? {} : {radiusMaxPixels: 500})
+    };
+
+    const updateTriggers = {
+      getPosition: this.config.columns,
+      getFilterValue: gpuFilter.filterValueUpdateTriggers,
+      getGlyphValues: {
+        glyphType: visConfig.glyphType,
+        glyphFields: visConfig.glyphFields.map(({name}) => name)
+      },
+      ...this.getVisualChannelUpdateTriggers()
+    };
+
+    const defaultLayerProps = this.getDefaultDeckLayerProps(opts);
+    const hoveredObject = this.hasHoveredObject(objectHovered);
+    const getPixelOffset = getTextOffsetByRadius(radiusScale, data.getRadius, mapState);
+
+    return [
+      new ScatterplotGlyphLayer({
+        ...defaultLayerProps,
+        ...layerProps,
+        ...data,
+        glyphType: visConfig.glyphType,
+        glyphColors: visConfig.glyphFields.map(({color}) => color),
+        filled: true,
+        stroked: false,
+        pickable: visConfig.allowHover,
+        autoHighlight: false,
+        updateTriggers
+      }),
+      // hover layer
+      ...(hoveredObject
+        ? [
+            new ScatterplotLayer({
+              ...this.getDefaultHoverLayerProps(),
+              ...layerProps,
+              visible: defaultLayerProps.visible,
+              data: [hoveredObject],
+              getPosition: data.getPosition,
+              getRadius: data.getRadius,
+              filled: false,
+              stroked: true,
+              lineWidthUnits: 'pixels',
+              getLineWidth: 2,
+              getLineColor: this.config.highlightColor
+            })
+          ]
+        : []),
+      // text label layer
+      ...this.renderTextLabelLayer(
+        {
+          getPosition: data.getPosition,
+          sharedProps: {
+            getFilterValue: data.getFilterValue,
+            extensions: defaultLayerProps.extensions,
+            filterRange: defaultLayerProps.filterRange,
+            visible: defaultLayerProps.visible
+          },
+          getPixelOffset,
+          updateTriggers,
+          getFiltered: data.getFiltered
+        },
+        opts
+      )
+    ];
+  }
+}
@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {GLYPH_TYPES} from '@kepler.gl/constants';
+import {FieldColor, RGBColor} from '@kepler.gl/types';
+
+export type GlyphSlice = {
+  name: string;
+  color: RGBColor;
+  /** value of the field, null when missing */
+  value: number | null;
+  /** share of the value in the total of the glyph, between 0 and 1 */
+  share: number;
+};
+
+/**
+ * Glyph values can't be negative, missing and negative values are drawn as 0
+ */
+export function getGlyphValue(value: unknown): number {
+  const num = Number(value);
+  return value !== null && Number.isFinite(num) && num > 0 ? num : 0;
+}
+
+/**
+ * Normalize the values of a glyph for rendering.
+ * Pie and donut values are shares of the total of the glyph,
+ * bar values are heights relative to the max value of all glyphs
+ */
+export function normalizeGlyphValues(
+  values: number[],
+  glyphType: string,
+  maxValue: number
+): number[] {
+  if (glyphType === GLYPH_TYPES.bar) {
+    return values.map(v => (maxValue > 0 ? v / maxValue : 0));
+  }
+  const total = values.reduce((sum, v) => sum + v, 0);
+  return values.map(v => (total > 0 ? v / total : 0));
+}
+
+/**
+ * Slices of a glyph, to show in the tooltip
+ */
+export function getGlyphSlices(fieldColors: FieldColor[], values: unknown[]): GlyphSlice[] {
+  const total = values.reduce<number>((sum, v) => sum + getGlyphValue(v), 0);
+  return fieldColors.map(({name, color}, i) => {
+    const num = Number(values[i]);
+    return {
+      name,
+      color,
+      value: values[i] !== null && Number.isFinite(num) ? num : null,
+      share: total > 0 ? getGlyphValue(values[i]) / total : 0
+    };
+  });
+}
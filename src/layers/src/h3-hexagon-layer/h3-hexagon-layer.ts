@@ -27,7 +27,8 @@ import {
   HIGHLIGH_COLOR_3D,
   DEFAULT_COLOR_UI,
   DEFAULT_TEXT_LABEL,
-  LAYER_VIS_CONFIGS
+  LAYER_VIS_CONFIGS,
+  BIVARIATE_COLOR_CHANNEL
 } from '@kepler.gl/constants';
 
 import {
@@ -204,7 +205,8 @@ export default class HexagonIdLayer extends Layer {
       color: {
         ...visualChannels.color,
         accessor: 'getFillColor',
-        condition: config => config.visConfig.filled
+        condition: config => config.visConfig.filled,
+        bivariate: BIVARIATE_COLOR_CHANNEL
       },
       strokeColor: {
         property: 'strokeColor',
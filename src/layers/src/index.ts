@@ -22,6 +22,44 @@ export {
   COLUMN_MODE_TABLE
 } from './geojson-layer/geojson-layer';
 import {default as ClusterLayer} from './cluster-layer/cluster-layer';
+import {default as FlowLayer} from './flow-layer/flow-layer';
+import {default as ContourLayer} from './contour-layer/contour-layer';
+export {
+  getContourBands,
+  getContourGrid,
+  getContourLines,
+  getContourRings
+} from './contour-layer/contour-utils';
+import {default as VoronoiLayer} from './voronoi-layer/voronoi-layer';
+export {getVoronoiDiagram} from './voronoi-layer/voronoi-utils';
+import {default as QuadkeyLayer} from './quadkey-layer/quadkey-layer';
+import {default as GeohashLayer} from './geohash-layer/geohash-layer';
+export {aggregateCells, findCellFields} from './cell-layer/cell-utils';
+export type {CellIndexSystem, CellDatum} from './cell-layer/cell-utils';
+export {
+  getQuadkeyBounds,
+  quadkeyIsValid,
+  quadkeyToTile,
+  QUADKEY_INDEX_SYSTEM
+} from './quadkey-layer/quadkey-utils';
+export {
+  getGeohashBounds,
+  geohashIsValid,
+  GEOHASH_INDEX_SYSTEM
+} from './geohash-layer/geohash-utils';
+export {
+  aggregateFlows,
+  getFlowClusterLevels,
+  getFlowClusterLevel,
+  getFlowCurve,
+  getFlowPoints
+} from './flow-layer/flow-utils';
+import {default as DotDensityLayer} from './dot-density-layer/dot-density-layer';
+export {generateDots} from './dot-density-layer/dot-density-utils';
+export type {DotDatum} from './dot-density-layer/dot-density-utils';
+import {default as GlyphLayer} from './glyph-layer/glyph-layer';
+export {getGlyphSlices, getGlyphValue, normalizeGlyphValues} from './glyph-layer/glyph-utils';
+export type {GlyphSlice} from './glyph-layer/glyph-utils';
 import {default as IconLayer} from './icon-layer/icon-layer';
 import {default as HeatmapLayer} from './heatmap-layer/heatmap-layer';
 export {MAX_ZOOM_LEVEL} from './heatmap-layer/heatmap-layer';
@@ -39,7 +77,7 @@ export {
 import {default as S2GeometryLayer} from './s2-geometry-layer/s2-geometry-layer';
 export {defaultElevation as s2DefaultElevation} from './s2-geometry-layer/s2-geometry-layer';
 export {getS2Center} from './s2-geometry-layer/s2-utils';
-export {default as AggregationLayer} from './aggregation-layer';
+export {default as AggregationLayer, getAggregatedValueDomain} from './aggregation-layer';
 import {default as VectorTileLayer} from './vector-tile/vector-tile-layer';
 
 export {default as VectorTileIcon} from './vector-tile/vector-tile-icon';
@@ -52,6 +90,7 @@ export {
   getNumRasterTilesBeingLoaded
 } from './raster-tile/raster-tile-layer';
 export {
+  AUTO_STRETCH_OPTIONS,
   CATEGORICAL_COLORMAP_ID,
   DATA_SOURCE_COLOR_DEFAULTS,
   RASTER_COLOR_RESET_PARAMS,
@@ -83,6 +122,13 @@ export const KeplerGlLayers = {
   HexagonLayer,
   GeojsonLayer,
   ClusterLayer,
+  FlowLayer,
+  ContourLayer,
+  VoronoiLayer,
+  QuadkeyLayer,
+  GeohashLayer,
+  DotDensityLayer,
+  GlyphLayer,
   IconLayer,
   HeatmapLayer,
   H3Layer,
@@ -102,6 +148,13 @@ export const LayerClasses = {
   [LAYER_TYPES.hexagon]: HexagonLayer,
   [LAYER_TYPES.geojson]: GeojsonLayer,
   [LAYER_TYPES.cluster]: ClusterLayer,
+  [LAYER_TYPES.flow]: FlowLayer,
+  [LAYER_TYPES.contour]: ContourLayer,
+  [LAYER_TYPES.voronoi]: VoronoiLayer,
+  [LAYER_TYPES.quadkey]: QuadkeyLayer,
+  [LAYER_TYPES.geohash]: GeohashLayer,
+  [LAYER_TYPES.dotDensity]: DotDensityLayer,
+  [LAYER_TYPES.glyph]: GlyphLayer,
   [LAYER_TYPES.icon]: IconLayer,
   [LAYER_TYPES.heatmap]: HeatmapLayer,
   [LAYER_TYPES.hexagonId]: H3Layer,
@@ -143,3 +196,5 @@ export {getFilterDataFunc} from './aggregation-layer';
 
 export * from './layer-update';
 export * from './layer-utils';
+export * from './layer-blend-utils';
+export * from './vector-export-utils';
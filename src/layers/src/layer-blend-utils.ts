@@ -0,0 +1,77 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {MaskExtension, MaskExtensionProps} from '@deck.gl/extensions/typed';
+import {Layer as DeckLayer, LayerProps} from '@deck.gl/core/typed';
+
+import {getLayerBlendModeParameters} from '@kepler.gl/utils';
+
+import Layer, {OVERLAY_TYPE_CONST} from './base-layer';
+
+const maskExtension = new MaskExtension();
+
+type MaskedLayerProps = Partial<LayerProps> & MaskExtensionProps;
+
+/**
+ * Id of the deck.gl mask layer created from a kepler.gl layer
+ */
+export function getMaskId(layerId: string): string {
+  return `${layerId}-mask`;
+}
+
+/**
+ * Whether a layer can be used as the mask of another layer.
+ * Only layers rendered by deck.gl can be drawn in the mask pass
+ */
+export function isValidMaskLayer(maskLayer: Layer, layer: Layer): boolean {
+  return (
+    maskLayer.id !== layer.id &&
+    maskLayer.overlayType === OVERLAY_TYPE_CONST.deckgl &&
+    // a mask layer can't be masked itself
+    !maskLayer.config.maskLayerId
+  );
+}
+
+/**
+ * Create the deck.gl mask layer from the rendered deck.gl layers of the mask kepler.gl layer.
+ * Only the main deck.gl layer is used, hover and text label layers are ignored
+ */
+export function getMaskDeckLayer(
+  maskLayerId: string,
+  deckLayers: DeckLayer | DeckLayer[] | null
+): DeckLayer | null {
+  const [deckLayer] = Array.isArray(deckLayers) ? deckLayers : deckLayers ? [deckLayers] : [];
+  const maskProps: Partial<LayerProps> = {
+    id: getMaskId(maskLayerId),
+    operation: 'mask',
+    // mask is applied even if the mask layer is hidden
+    visible: true,
+    pickable: false,
+    autoHighlight: false
+  };
+  return deckLayer ? deckLayer.clone(maskProps) : null;
+}
+
+/**
+ * Apply the blend mode and the mask of a kepler.gl layer to its rendered deck.gl layers
+ */
+export function applyLayerBlendModeAndMask(
+  deckLayers: DeckLayer | DeckLayer[] | null,
+  {blendMode, maskId}: {blendMode?: string | null; maskId?: string | null}
+): DeckLayer[] {
+  const layers = Array.isArray(deckLayers) ? deckLayers : deckLayers ? [deckLayers] : [];
+  const parameters = getLayerBlendModeParameters(blendMode);
+  if (!parameters && !maskId) {
+    return layers;
+  }
+
+  return layers.map(deckLayer => {
+    const props: MaskedLayerProps = {
+      ...(parameters ? {parameters: {...deckLayer.props.parameters, ...parameters}} : {}),
+      ...(maskId
+        ? {extensions: [...(deckLayer.props.extensions || []), maskExtension], maskId}
+        : {})
+    };
+    return deckLayer.clone(props);
+  });
+}
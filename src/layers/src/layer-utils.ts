@@ -490,3 +490,26 @@ export function getGeoArrowPointLayerProps(dataset: KeplerTable) {
   });
   return altProps;
 }
+
+/** Web mercator world size at zoom 0 */
+export const WORLD_SIZE = 512;
+
+/**
+ * Project lng lat to web mercator world coordinates, y increases northward
+ */
+export function lngLatToWorld([lng, lat]: number[]): [number, number] {
+  const phi = (lat * Math.PI) / 180;
+  return [
+    ((lng + 180) / 360) * WORLD_SIZE,
+    (WORLD_SIZE / (2 * Math.PI)) * (Math.PI + Math.log(Math.tan(Math.PI / 4 + phi / 2)))
+  ];
+}
+
+/**
+ * Unproject web mercator world coordinates to lng lat
+ */
+export function worldToLngLat([x, y]: number[]): [number, number] {
+  const lambda = (x / WORLD_SIZE) * 2 * Math.PI - Math.PI;
+  const phi = 2 * Math.atan(Math.exp((y / WORLD_SIZE) * 2 * Math.PI - Math.PI)) - Math.PI / 2;
+  return [(lambda * 180) / Math.PI, (phi * 180) / Math.PI];
+}
@@ -14,7 +14,8 @@ import Layer, {
   LayerBaseConfigPartial,
   LayerColorConfig,
   LayerSizeConfig,
-  LayerStrokeColorConfig
+  LayerStrokeColorConfig,
+  VisualChannels
 } from '../base-layer';
 import {
   hexToRgb,
@@ -29,7 +30,8 @@ import {
   LAYER_VIS_CONFIGS,
   DEFAULT_LAYER_COLOR,
   CHANNEL_SCALES,
-  DEFAULT_COLOR_UI
+  DEFAULT_COLOR_UI,
+  BIVARIATE_COLOR_CHANNEL
 } from '@kepler.gl/constants';
 import {getTextOffsetByRadius, formatTextLabelData} from '../layer-text-label';
 import {
@@ -251,7 +253,7 @@ export default class PointLayer extends Layer {
     };
   }
 
-  get type(): 'point' {
+  get type(): string {
     return 'point';
   }
 
@@ -279,13 +281,14 @@ export default class PointLayer extends Layer {
     return [...super.noneLayerDataAffectingProps, 'radius'];
   }
 
-  get visualChannels() {
+  get visualChannels(): VisualChannels {
     return {
       color: {
         ...super.visualChannels.color,
         accessor: 'getFillColor',
         condition: config => config.visConfig.filled,
-        defaultValue: config => config.color
+        defaultValue: config => config.color,
+        bivariate: BIVARIATE_COLOR_CHANNEL
       },
       strokeColor: {
         property: 'strokeColor',
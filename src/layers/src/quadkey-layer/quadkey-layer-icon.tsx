@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {Component} from 'react';
+import PropTypes from 'prop-types';
+import {Base} from '../base';
+
+export default class QuadkeyLayerIcon extends Component {
+  static propTypes = {
+    /** Set the height of the icon, ex. '16px' */
+    height: PropTypes.string,
+    colors: PropTypes.arrayOf(PropTypes.string)
+  };
+
+  static defaultProps = {
+    height: '16px',
+    predefinedClassName: 'quadkey-layer-icon',
+    totalColor: 3
+  };
+
+  render() {
+    return (
+      <Base {...this.props}>
+        <rect x="8" y="8" width="23" height="23" className="cr1" style={{opacity: 0.4}} />
+        <rect x="33" y="8" width="23" height="23" className="cr2" style={{opacity: 0.7}} />
+        <rect x="8" y="33" width="23" height="23" className="cr3" />
+        <rect x="33" y="33" width="11" height="11" className="cr1" />
+        <rect x="45" y="33" width="11" height="11" className="cr2" />
+        <rect x="33" y="45" width="11" height="11" className="cr3" style={{opacity: 0.7}} />
+        <rect x="45" y="45" width="11" height="11" className="cr1" style={{opacity: 0.4}} />
+      </Base>
+    );
+  }
+}
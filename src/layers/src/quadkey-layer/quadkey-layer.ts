@@ -0,0 +1,74 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import CellLayer, {cellVisConfigs, CellLayerConfig} from '../cell-layer/cell-layer';
+import {findCellFields} from '../cell-layer/cell-utils';
+import QuadkeyLayerIcon from './quadkey-layer-icon';
+import {
+  quadkeyIsValid,
+  QUADKEY_FIELDS,
+  QUADKEY_INDEX_SYSTEM,
+  QUADKEY_MAX_RESOLUTION
+} from './quadkey-utils';
+import {LAYER_VIS_CONFIGS} from '@kepler.gl/constants';
+import {LayerColumn, Merge} from '@kepler.gl/types';
+import {KeplerTable} from '@kepler.gl/table';
+
+export type QuadkeyLayerColumnsConfig = {
+  quadkey: LayerColumn;
+};
+
+export type QuadkeyLayerConfig = Merge<CellLayerConfig, {columns: QuadkeyLayerColumnsConfig}>;
+
+export const quadkeyRequiredColumns: ['quadkey'] = ['quadkey'];
+
+export const quadkeyVisConfigs = {
+  ...cellVisConfigs,
+  resolution: {
+    ...LAYER_VIS_CONFIGS.resolution,
+    defaultValue: 10,
+    range: [1, QUADKEY_MAX_RESOLUTION]
+  }
+};
+
+export default class QuadkeyLayer extends CellLayer {
+  declare config: QuadkeyLayerConfig;
+
+  constructor(props) {
+    super(props);
+    this.registerVisConfig(quadkeyVisConfigs);
+  }
+
+  get type(): 'quadkey' {
+    return 'quadkey';
+  }
+
+  get name(): 'Quadkey' {
+    return 'Quadkey';
+  }
+
+  get layerIcon() {
+    return QuadkeyLayerIcon;
+  }
+
+  get requiredLayerColumns() {
+    return quadkeyRequiredColumns;
+  }
+
+  get cellIndexSystem() {
+    return QUADKEY_INDEX_SYSTEM;
+  }
+
+  static findDefaultLayerProps({fields = [], dataContainer, label}: KeplerTable) {
+    const quadkeyFields = findCellFields(fields, dataContainer, QUADKEY_FIELDS, quadkeyIsValid);
+
+    return {
+      props: quadkeyFields.map(f => ({
+        isVisible: true,
+        // default layer name should be dataset name
+        label,
+        columns: {quadkey: {value: f.name, fieldIdx: f.fieldIdx}}
+      }))
+    };
+  }
+}
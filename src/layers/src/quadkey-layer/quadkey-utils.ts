@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {CellIndexSystem, getBoundsRing} from '../cell-layer/cell-utils';
+
+/** Max level of Bing Maps tiles */
+export const QUADKEY_MAX_RESOLUTION = 23;
+
+export const QUADKEY_FIELDS = ['quadkey', 'quad_key', 'qk', 'quadkey_id'];
+
+const QUADKEY_REGEX = /^[0-3]{1,23}$/;
+
+export function quadkeyIsValid(quadkey: unknown): boolean {
+  return typeof quadkey === 'string' && QUADKEY_REGEX.test(quadkey);
+}
+
+/**
+ * Tile coordinates of a quadkey, the level of detail is the number of digits
+ */
+export function quadkeyToTile(quadkey: string): {x: number; y: number; z: number} {
+  let x = 0;
+  let y = 0;
+  const z = quadkey.length;
+  for (let i = 0; i < z; i++) {
+    const mask = 1 << (z - i - 1);
+    const digit = Number(quadkey[i]);
+    if (digit & 1) {
+      x |= mask;
+    }
+    if (digit & 2) {
+      y |= mask;
+    }
+  }
+  return {x, y, z};
+}
+
+const tileToLng = (x: number, z: number) => (x / Math.pow(2, z)) * 360 - 180;
+
+const tileToLat = (y: number, z: number) => {
+  const n = Math.PI - (2 * Math.PI * y) / Math.pow(2, z);
+  return (180 / Math.PI) * Math.atan(Math.sinh(n));
+};
+
+/**
+ * @returns `[west, south, east, north]` of the tile
+ */
+export function getQuadkeyBounds(quadkey: string): [number, number, number, number] {
+  const {x, y, z} = quadkeyToTile(quadkey);
+  return [tileToLng(x, z), tileToLat(y + 1, z), tileToLng(x + 1, z), tileToLat(y, z)];
+}
+
+export const QUADKEY_INDEX_SYSTEM: CellIndexSystem = {
+  maxResolution: QUADKEY_MAX_RESOLUTION,
+  isValid: quadkeyIsValid,
+  getResolution: quadkey => quadkey.length,
+  getParent: (quadkey, resolution) => quadkey.slice(0, Math.max(resolution, 1)),
+  getBoundary: quadkey => getBoundsRing(getQuadkeyBounds(quadkey)),
+  getCentroid: quadkey => {
+    const {x, y, z} = quadkeyToTile(quadkey);
+    return [tileToLng(x + 0.5, z), tileToLat(y + 0.5, z)];
+  }
+};
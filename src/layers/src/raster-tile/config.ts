@@ -35,6 +35,14 @@ export const RASTER_COLOR_RESET_PARAMS = {
   dynamicColor: false
 };
 
+/**
+ * Linear rescaling presets, stretching the band values in the viewport between two percentiles
+ */
+export const AUTO_STRETCH_OPTIONS: {id: string; label: string; percentiles: [number, number]}[] = [
+  {id: 'minMax', label: 'Min / Max', percentiles: [0, 100]},
+  {id: 'percentile2to98', label: '2–98%', percentiles: [2, 98]}
+];
+
 const DEFAULT_SENTINEL_COLOR_DEFAULTS = {
   gammaContrastFactor: 2.2,
   sigmoidalContrastFactor: 23,
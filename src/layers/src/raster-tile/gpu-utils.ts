@@ -359,6 +359,30 @@ export async function loadNpyArray(
   return asset;
 }
 
+/**
+ * Wrap a raster band array with the WebGL2 texture parameters of its data type
+ * @param data band values, float64 values are coerced to float32 for the GPU
+ * @param width width of the band image
+ * @param height height of the band image
+ *
+ * @return image object to pass to Texture2D constructor
+ */
+export function getBandTexture(
+  data: NPYLoaderDataTypes,
+  width: number,
+  height: number
+): Texture2DProps {
+  const textureData = data instanceof Float64Array ? Float32Array.from(data) : data;
+  return {
+    data: textureData,
+    width,
+    height,
+    ...getWebGL2TextureParameters(textureData),
+    parameters: DEFAULT_HIGH_BIT_TEXTURE_PARAMETERS,
+    mipmaps: false
+  };
+}
+
 /**
  * Create texture data for categorical colormap scale
  * @param categoricalOptions - color map configuration and min-max values of categorical band
@@ -461,8 +485,9 @@ export function getModules({
       // Divide by local range * global range
       moduleProps.linearRescaleScaler = 1 / (localRange * globalRange);
 
-      // Subtract off the local min
-      moduleProps.linearRescaleOffset = -min;
+      // Subtract off the global min and the local min, so values between the local min and max
+      // are stretched to [0, 1]
+      moduleProps.linearRescaleOffset = -(minPixelValue / globalRange + min) / localRange;
 
       // Clamp to [0, 1] done automatically?
     } else {
@@ -11,23 +11,36 @@ import memoize from 'lodash/memoize';
 
 import {sleep} from '@kepler.gl/common-utils';
 import {getLoaderOptions} from '@kepler.gl/constants';
+import {
+  COG_ASSET_ID,
+  COG_TILE_SIZE,
+  COGMetadata,
+  lngLatBBoxToCOGBBox,
+  openCOG
+} from '@kepler.gl/table';
 import {getApplicationConfig} from '@kepler.gl/utils';
 
 import {CATEGORICAL_COLORMAP_ID} from './config';
 import {
   loadNpyArray,
   generateCategoricalColormapTexture,
+  getBandTexture,
   loadImage,
   COLORMAP_TEXTURE_PARAMETERS
 } from './gpu-utils';
-import {CATEGORICAL_TEXTURE_WIDTH, generateCategoricalBitmapArray} from './raster-tile-utils';
+import {
+  CATEGORICAL_TEXTURE_WIDTH,
+  generateCategoricalBitmapArray,
+  getCOGValidMask
+} from './raster-tile-utils';
 import {
   GetTileDataProps,
   ImageData,
   TerrainData,
   AssetRequestData,
   CategoricalColormapOptions,
-  ColormapImageData
+  ColormapImageData,
+  NPYLoaderDataTypes
 } from './types';
 import {
   getTitilerUrl,
@@ -93,20 +106,57 @@ export async function loadImages(
   categoricalOptions: CategoricalColormapOptions
 ): Promise<ImageData> {
   // We load image data (single or multi asset based on number of requests) and colormap in parallel
-  const [stacImages, colormap] = await Promise.all([
+  const [stacImages, imageColormap] = await Promise.all([
     loadSTACImageData(assetRequests),
-    (colormapId !== CATEGORICAL_COLORMAP_ID && memoizedLoadColormap(colormapId)) || null
+    loadColormapImage(colormapId, categoricalOptions)
   ]);
-  let imageColormap = colormap;
-  if (colormapId === CATEGORICAL_COLORMAP_ID) {
-    imageColormap = generateCategoricalColormapTexture(categoricalOptions);
-  }
   return {
     ...stacImages,
     imageColormap
   };
 }
 
+/**
+ * Load images required for a raster tile read from a standalone COG
+ * @param props - tile props, `stac` describes the COG
+ * @returns images map
+ */
+export async function loadCOGImages(props: GetTileDataProps): Promise<ImageData> {
+  const {
+    stac,
+    loadBandIndexes,
+    bbox: {west, south, east, north},
+    signal,
+    colormapId
+  } = props;
+
+  const [cogImages, imageColormap] = await Promise.all([
+    loadCOGImageData(stac as COGMetadata, loadBandIndexes, [west, south, east, north], signal),
+    loadColormapImage(colormapId, {
+      colorMap: props.categoricalColorMap,
+      minValue: props.minCategoricalBandValue,
+      maxValue: props.maxCategoricalBandValue
+    })
+  ]);
+  return {
+    ...cogImages,
+    imageColormap
+  };
+}
+
+/**
+ * Load the colormap image, categorical colormaps are generated from the color map
+ */
+async function loadColormapImage(
+  colormapId: string,
+  categoricalOptions: CategoricalColormapOptions
+): Promise<ColormapImageData | null> {
+  if (colormapId === CATEGORICAL_COLORMAP_ID) {
+    return generateCategoricalColormapTexture(categoricalOptions);
+  }
+  return (await memoizedLoadColormap(colormapId)) || null;
+}
+
 /**
  * Cache loading of colormap. Each colormap file is very small, on the order of a few hundred bytes,
  * so a global cache like this is not expected to eat up too much memory.
@@ -376,6 +426,51 @@ async function loadMultiAssetSTAC(requests: AssetRequestData[]): Promise<ImageDa
   return {imageBands, imageMask};
 }
 
+/**
+ * Read the bands of a tile from a COG, from the overview closest to the tile resolution.
+ * Pixels outside of the image or with no data values are masked
+ * @param cog - COG metadata
+ * @param bandIndexes - indexes of the bands to read
+ * @param bbox - [west, south, east, north] bounds of the tile
+ * @param signal - signal to abort the range requests
+ */
+async function loadCOGImageData(
+  cog: COGMetadata,
+  bandIndexes: number[],
+  bbox: number[],
+  signal: AbortSignal
+): Promise<ImageData> {
+  const {epsg} = cog;
+  const asset = cog.assets[COG_ASSET_ID];
+  const noData = asset['raster:bands']?.[0]?.nodata ?? null;
+  const tileBBox = lngLatBBoxToCOGBBox(bbox, epsg);
+
+  const tiff = await openCOG(asset.href);
+  const rasters = (await tiff.readRasters({
+    bbox: tileBBox,
+    width: COG_TILE_SIZE,
+    height: COG_TILE_SIZE,
+    samples: bandIndexes,
+    interleave: false,
+    resampleMethod: 'nearest',
+    fillValue: typeof noData === 'number' ? noData : 0,
+    signal
+  })) as NPYLoaderDataTypes[];
+
+  const mask = getCOGValidMask(rasters, {
+    noData: typeof noData === 'number' ? noData : null,
+    tileBBox,
+    imageBBox: lngLatBBoxToCOGBBox(cog.bbox, epsg),
+    width: COG_TILE_SIZE,
+    height: COG_TILE_SIZE
+  });
+
+  return {
+    imageBands: rasters.map(band => getBandTexture(band, COG_TILE_SIZE, COG_TILE_SIZE)),
+    imageMask: getBandTexture(mask, COG_TILE_SIZE, COG_TILE_SIZE)
+  };
+}
+
 /**
  * Iterate over two arrays simultaneously, similar to Python's zip builtin
  */
@@ -11,6 +11,8 @@ import {PathLayer} from '@deck.gl/layers/typed';
 import {DatasetType, PMTilesType, LAYER_TYPES} from '@kepler.gl/constants';
 import {RasterLayer, RasterMeshLayer} from '@kepler.gl/deckgl-layers';
 import {
+  AnimationConfig,
+  Field,
   LayerBaseConfig,
   LayerColorConfig,
   LayerHeightConfig,
@@ -24,12 +26,17 @@ import {
 } from '@kepler.gl/types';
 
 import {notNullorUndefined} from '@kepler.gl/common-utils';
-import {Datasets, KeplerTable as KeplerDataset, VectorTileMetadata} from '@kepler.gl/table';
-import {getApplicationConfig} from '@kepler.gl/utils';
+import {
+  Datasets,
+  KeplerTable as KeplerDataset,
+  VectorTileMetadata,
+  isCOGMetadata
+} from '@kepler.gl/table';
+import {DataContainerInterface, formatNumber, getApplicationConfig} from '@kepler.gl/utils';
 
 import {rasterVisConfigs, PRESET_OPTIONS, DATA_SOURCE_COLOR_DEFAULTS} from './config';
 import {getModules} from './gpu-utils';
-import {getSTACImageRequests, loadImages, loadTerrain} from './image';
+import {getSTACImageRequests, loadCOGImages, loadImages, loadTerrain} from './image';
 import RasterIcon from './raster-tile-icon';
 import {
   getDataSourceParams,
@@ -41,7 +48,13 @@ import {
   filterAvailablePresets,
   getSingleBandPresetOptions,
   getImageMinMax,
-  getMinMaxFromTile2DHeaders
+  getMinMaxFromTile2DHeaders,
+  getBandNames,
+  getPixelValues,
+  getBandCombinationValue,
+  getViewportPixelSample,
+  getPercentileRange,
+  getLinearRescalingFactor
 } from './raster-tile-utils';
 import {
   GetTileDataCustomProps,
@@ -53,7 +66,8 @@ import {
   KeplerRasterDataset,
   Tile2DHeader,
   PresetOption,
-  CompleteSTACObject
+  CompleteSTACObject,
+  HoveredRasterTile
 } from './types';
 
 import {FindDefaultLayerPropsReturnValue} from '../layer-utils';
@@ -75,6 +89,9 @@ export const getNumRasterTilesBeingLoaded = () => {
 
 export const LOAD_ELEVATION_AFTER_ZOOM = 8.9;
 
+/** Raster server tiles are requested in the WebMercatorQuad tile matrix set */
+const RASTER_SERVER_TILE_EPSG = 3857;
+
 const getShouldLoadTerrain = (stac, mapState, visConfig) => {
   return Boolean(
     // we need a raster tile server for elevations even when we user PMTiles
@@ -126,6 +143,8 @@ export default class RasterTileLayer extends KeplerLayer {
   minViewportPixelValue = Infinity;
   /** Max bands image data value, based on the current viewport */
   maxViewportPixelValue = -Infinity;
+  /** Sample of the valid band values of the tiles in the current viewport */
+  viewportPixelSample: Float32Array = new Float32Array(0);
   /** Memoized method that calculates data source params */
 
   getDataSourceParams: (
@@ -219,8 +238,41 @@ export default class RasterTileLayer extends KeplerLayer {
     };
   }
 
-  getHoverData() {
-    return null;
+  getHoverData(
+    _object: unknown,
+    _dataContainer: DataContainerInterface,
+    _fields?: Field[],
+    _animationConfig?: AnimationConfig,
+    hoverInfo?: {
+      index: number;
+      tile?: HoveredRasterTile;
+      coordinate?: number[];
+      layer?: {props?: {renderBandIndexes?: number[] | null}};
+    }
+  ) {
+    const pixelValues = getPixelValues(hoverInfo?.tile || null, hoverInfo?.coordinate || null);
+    if (!pixelValues) {
+      return null;
+    }
+    const fieldValues = pixelValues.map(({name, value}) => ({
+      label: name,
+      value: formatNumber(value)
+    }));
+
+    // spectral indices are computed from the bands in the order they are rendered
+    const preset = PRESET_OPTIONS[this.config.visConfig.preset];
+    const renderBandIndexes = hoverInfo?.layer?.props?.renderBandIndexes;
+    const bandValues = pixelValues.map(({value}) => value);
+    const indexValue = preset
+      ? getBandCombinationValue(
+          preset.bandCombination,
+          renderBandIndexes ? renderBandIndexes.map(i => bandValues[i]) : bandValues
+        )
+      : null;
+    if (indexValue !== null && Number.isFinite(indexValue)) {
+      fieldValues.push({label: preset.label, value: formatNumber(indexValue)});
+    }
+    return {fieldValues};
   }
 
   // We can render without columns, so we redefine this method
@@ -363,6 +415,42 @@ export default class RasterTileLayer extends KeplerLayer {
     const [min, max] = getMinMaxFromTile2DHeaders(tiles);
     this.minViewportPixelValue = min;
     this.maxViewportPixelValue = max;
+    this.viewportPixelSample = getViewportPixelSample(tiles);
+  }
+
+  /**
+   * Pixel value range used to rescale the image, from the data source statistics or
+   * from the current viewport when dynamic color is enabled
+   * @param dataSourceParams - params of the current preset
+   * @returns [min, max] pixel values
+   */
+  getPixelValueRange(dataSourceParams: DataSourceParams | null): [number, number] {
+    const {dynamicColor} = this.config.visConfig;
+    const {minPixelValue, maxPixelValue} = dataSourceParams || {};
+    return [
+      !dynamicColor && Number.isFinite(minPixelValue)
+        ? (minPixelValue as number)
+        : this.minViewportPixelValue,
+      !dynamicColor && Number.isFinite(maxPixelValue)
+        ? (maxPixelValue as number)
+        : this.maxViewportPixelValue
+    ];
+  }
+
+  /**
+   * Linear rescaling that stretches the band values in the current viewport between two
+   * percentiles to the full color range
+   * @param pixelValueRange - [min, max] pixel values used to rescale the image
+   * @param percentiles - [low, high] percentiles, [0, 100] for the min and max values
+   * @returns vis config to update, null when no tiles are loaded
+   */
+  getAutoStretchVisConfig(
+    pixelValueRange: [number, number],
+    percentiles: [number, number]
+  ): {linearRescalingFactor: [number, number]; nonLinearRescaling: boolean} | null {
+    const range = getPercentileRange(this.viewportPixelSample, percentiles);
+    const linearRescalingFactor = range && getLinearRescalingFactor(range, pixelValueRange);
+    return linearRescalingFactor ? {linearRescalingFactor, nonLinearRescaling: false} : null;
   }
 
   /**
@@ -409,7 +497,7 @@ export default class RasterTileLayer extends KeplerLayer {
     }
 
     const {visConfig} = this.config;
-    const {id, opacity, visible} = this.getDefaultDeckLayerProps(opts);
+    const {id, idx, opacity, visible} = this.getDefaultDeckLayerProps(opts);
 
     const hasShadowEffect = experimentalContext?.hasShadowEffect;
 
@@ -431,8 +519,7 @@ export default class RasterTileLayer extends KeplerLayer {
       endDate,
       _stacQuery,
       singleBandName,
-      colorRange: {colorMap: categoricalColorMap},
-      dynamicColor
+      colorRange: {colorMap: categoricalColorMap}
     } = visConfig;
 
     const shouldLoadTerrain = getShouldLoadTerrain(stac, mapState, visConfig);
@@ -460,20 +547,11 @@ export default class RasterTileLayer extends KeplerLayer {
       loadBandIndexes,
       renderBandIndexes,
       dataType,
-      minPixelValue: dsMinPixelValue,
-      maxPixelValue: dsMaxPixelValue,
       minCategoricalBandValue,
       maxCategoricalBandValue
     } = dataSourceParams;
 
-    const minPixelValue =
-      !dynamicColor && Number.isFinite(dsMinPixelValue)
-        ? dsMinPixelValue
-        : this.minViewportPixelValue;
-    const maxPixelValue =
-      !dynamicColor && Number.isFinite(dsMaxPixelValue)
-        ? dsMaxPixelValue
-        : this.maxViewportPixelValue;
+    const [minPixelValue, maxPixelValue] = this.getPixelValueRange(dataSourceParams);
 
     const getTileDataCustomProps: GetTileDataCustomProps = {
       stac,
@@ -504,6 +582,9 @@ export default class RasterTileLayer extends KeplerLayer {
       maxRequests: getMaxRequests(stac.rasterTileServerUrls || []),
       // Passing visible on to TileLayer is necessary for split view to work
       visible,
+      // pixel values are shown in the tooltip
+      idx,
+      pickable: true,
       updateTriggers: {
         getTileData: [
           shouldLoadTerrain,
@@ -622,9 +703,11 @@ export default class RasterTileLayer extends KeplerLayer {
       return null;
     }
 
-    const assetRequests = await getSTACImageRequests(props);
+    // standalone COGs are read directly instead of through the raster tile server
+    const isCOG = isCOGMetadata(props.stac);
+    const assetRequests = isCOG ? null : await getSTACImageRequests(props);
     // No assets to load, most likely due to props being invalid/unsupported
-    if (!assetRequests) {
+    if (!isCOG && !assetRequests) {
       // We still issue the loadTerrain request if applicable
       const terrain =
         shouldLoadTerrain &&
@@ -645,11 +728,13 @@ export default class RasterTileLayer extends KeplerLayer {
     // Note that since loading is async, try/catch will only work when awaited inside the try block
     try {
       const [images, terrain] = await Promise.all([
-        loadImages(assetRequests, props.colormapId, {
-          colorMap: props.categoricalColorMap,
-          minValue: props.minCategoricalBandValue,
-          maxValue: props.maxCategoricalBandValue
-        }),
+        assetRequests
+          ? loadImages(assetRequests, props.colormapId, {
+              colorMap: props.categoricalColorMap,
+              minValue: props.minCategoricalBandValue,
+              maxValue: props.maxCategoricalBandValue
+            })
+          : loadCOGImages(props),
         shouldLoadTerrain && LOAD_ELEVATION_AFTER_ZOOM < zoom
           ? loadTerrain({
               boundsForGeometry: [west, north, east, south],
@@ -667,6 +752,11 @@ export default class RasterTileLayer extends KeplerLayer {
       return {
         images,
         ...(terrain ? {terrain} : {}),
+        // raw band values are kept to show pixel values in the tooltip
+        pixels: {
+          epsg: isCOGMetadata(props.stac) ? props.stac.epsg : RASTER_SERVER_TILE_EPSG,
+          bandNames: getBandNames(props.stac, props.loadAssetIds, props.loadBandIndexes)
+        },
         minPixelValue: min,
         maxPixelValue: max
       };
@@ -8,7 +8,13 @@
 import {TypedArray} from '@loaders.gl/loader-utils/src/types';
 import {isArray} from '@math.gl/core';
 
-import {StacTypes} from '@kepler.gl/types';
+import {
+  COGMetadata,
+  isCOGMetadata,
+  lngLatBBoxToCOGBBox,
+  lngLatToCOGCoordinates
+} from '@kepler.gl/table';
+import {Bin, StacTypes} from '@kepler.gl/types';
 import {hexToRgb} from '@kepler.gl/utils';
 
 import {PRESET_OPTIONS, ZOOM_RANGES} from './config';
@@ -24,7 +30,8 @@ import {
   AssetRequestInfo,
   PresetOption,
   BandCombination,
-  CategoricalColormapOptions
+  CategoricalColormapOptions,
+  HoveredRasterTile
 } from './types';
 
 type Item = StacTypes.STACItem;
@@ -33,6 +40,9 @@ type EOBand = StacTypes.Band;
 type DataTypeOfTheBand = StacTypes.DataTypeOfTheBand;
 
 export const CATEGORICAL_TEXTURE_WIDTH = 256;
+/** Max number of band values sampled from the viewport tiles for the histogram and auto stretch */
+const MAX_VIEWPORT_PIXEL_SAMPLES = 100000;
+export const PIXEL_HISTOGRAM_BINS = 50;
 
 export function isColormapAllowed(bandCombination: BandCombination): boolean {
   return bandCombination !== BandCombination.Rgb;
@@ -86,11 +96,16 @@ export function isSearchableStac(stac: CompleteSTACObject): boolean {
   // );
 }
 
-function getZoomRange(stac: CompleteSTACObject): [number, number] {
+function getZoomRange(stac: CompleteSTACObject | COGMetadata): [number, number] {
   if (ZOOM_RANGES[stac.id]) {
     return ZOOM_RANGES[stac.id];
   }
 
+  // zoom range of a standalone COG is derived from its resolution and overviews
+  if (isCOGMetadata(stac)) {
+    return [stac.minZoom, stac.maxZoom];
+  }
+
   // For a single COG, having a full zoom range isn't really a problem.
   // the /cog/info endpoint doesn't describe zoom levels because it doesn't know the projection to serve the image in.
   // Default minzoom, maxzoom: [0, 20]
@@ -147,11 +162,7 @@ function getPixelRange(
   const minPixelValue = 0;
   const maxPixelValue = dtypeMaxValue[dtype];
 
-  // TODO check if this early return is expected
-  if (!maxPixelValue) {
-    return null;
-  }
-
+  // float data has no max value, use statistics of the band when available
   if (
     !Number.isFinite(maxPixelValue) &&
     typeof minRasterStatsValue === 'number' &&
@@ -160,6 +171,11 @@ function getPixelRange(
     return [minRasterStatsValue, maxRasterStatsValue];
   }
 
+  // TODO check if this early return is expected
+  if (!maxPixelValue) {
+    return null;
+  }
+
   return [minPixelValue, maxPixelValue];
 }
 
@@ -691,3 +707,230 @@ export function timeRangeToStacTemporalInterval(
     endDate: clippedEnd.toISOString().split('T')[0]
   };
 }
+
+/**
+ * Mask of valid pixels of a tile read from a COG, 255 for pixels inside of the image
+ * where no band has the no data value, 0 otherwise
+ * @param bands - band values of the tile
+ * @param options.noData - no data value of the COG
+ * @param options.tileBBox - bounds of the tile in the COG CRS
+ * @param options.imageBBox - bounds of the image in the COG CRS
+ * @param options.width - width of the tile in pixels
+ * @param options.height - height of the tile in pixels
+ * @returns mask to use as imageMask
+ */
+export function getCOGValidMask(
+  bands: ArrayLike<number>[],
+  options: {
+    noData: number | null;
+    tileBBox: number[];
+    imageBBox: number[];
+    width: number;
+    height: number;
+  }
+): Uint8Array {
+  const {noData, tileBBox, imageBBox, width, height} = options;
+  const [minX, minY, maxX, maxY] = tileBBox;
+  const pixelWidth = (maxX - minX) / width;
+  const pixelHeight = (maxY - minY) / height;
+  const mask = new Uint8Array(width * height);
+
+  for (let row = 0; row < height; row++) {
+    // rows go from north to south
+    const y = maxY - (row + 0.5) * pixelHeight;
+    if (y < imageBBox[1] || y > imageBBox[3]) {
+      continue;
+    }
+    for (let col = 0; col < width; col++) {
+      const x = minX + (col + 0.5) * pixelWidth;
+      const index = row * width + col;
+      if (
+        x >= imageBBox[0] &&
+        x <= imageBBox[2] &&
+        bands.every(band => band[index] !== noData && !Number.isNaN(band[index]))
+      ) {
+        mask[index] = 255;
+      }
+    }
+  }
+  return mask;
+}
+
+/**
+ * Names of the bands loaded in a tile, in the order of the band images
+ * @param stac - STAC object
+ * @param loadAssetIds - ids of the loaded assets, a single asset when all bands are in one asset
+ * @param loadBandIndexes - indexes of the loaded bands within their asset
+ */
+export function getBandNames(
+  stac: CompleteSTACObject,
+  loadAssetIds: AssetIds,
+  loadBandIndexes: BandIndexes
+): string[] {
+  const assets = getAssets(stac) || {};
+  return loadBandIndexes.map((bandIndex, i) => {
+    const assetId = loadAssetIds.length > 1 ? loadAssetIds[i] : loadAssetIds[0];
+    const eoBand: EOBand | undefined = assets[assetId]?.['eo:bands']?.[bandIndex];
+    return eoBand?.name || eoBand?.common_name || `${assetId}_${bandIndex + 1}`;
+  });
+}
+
+/**
+ * Raw band values of the pixel of a raster tile under a coordinate
+ * @param tile - deck.gl tile, its data has the band images and the `pixels` info
+ * @param coordinate - [longitude, latitude]
+ * @returns name and value of each loaded band, null outside of the image or for no data pixels
+ */
+export function getPixelValues(
+  tile: HoveredRasterTile | null,
+  coordinate: number[] | null
+): {name: string; value: number}[] | null {
+  const data = tile?.content;
+  const imageBands = data?.images?.imageBands;
+  if (!tile || !data?.pixels || !imageBands?.length || !coordinate) {
+    return null;
+  }
+  const {epsg, bandNames} = data.pixels;
+  const {west, south, east, north} = tile.bbox;
+  const [minX, minY, maxX, maxY] = lngLatBBoxToCOGBBox([west, south, east, north], epsg);
+  const [x, y] = lngLatToCOGCoordinates(coordinate, epsg);
+  const {width, height} = imageBands[0];
+
+  const col = Math.floor(((x - minX) / (maxX - minX)) * width);
+  const row = Math.floor(((maxY - y) / (maxY - minY)) * height);
+  if (col < 0 || col >= width || row < 0 || row >= height) {
+    return null;
+  }
+  const index = row * width + col;
+  if (data.images.imageMask && !data.images.imageMask.data[index]) {
+    return null;
+  }
+  return bandNames.map((name: string, i: number) => ({name, value: imageBands[i].data[index]}));
+}
+
+/**
+ * Compute a spectral index from band values the same way as the GPU modules
+ * @param bandCombination - band combination of the preset
+ * @param values - band values in the order of the rendered channels
+ * @returns index value, null for band combinations that are not an index
+ */
+export function getBandCombinationValue(
+  bandCombination: BandCombination,
+  values: number[]
+): number | null {
+  const [r, g, b] = values;
+  switch (bandCombination) {
+    case BandCombination.NormalizedDifference:
+      return (r - g) / (r + g);
+    case BandCombination.EnhancedVegetationIndex:
+      return 2.5 * ((r - g) / (r + 6 * g - 7.5 * b + 1));
+    case BandCombination.SoilAdjustedVegetationIndex:
+      return (r - g) / ((r + g + 0.5) * 1.5);
+    case BandCombination.ModifiedSoilAdjustedVegetationIndex:
+      return (2 * r + 1 - Math.sqrt((2 * r + 1) * (2 * r + 1) - 8 * (r - g))) / 2;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Sample the valid band values of the tiles in the viewport
+ * @param tiles - deck.gl tiles
+ * @param maxSamples - max number of values to return, tiles are sampled with a regular step above it
+ * @returns sampled band values
+ */
+export function getViewportPixelSample(
+  tiles: (Tile2DHeader | null)[],
+  maxSamples = MAX_VIEWPORT_PIXEL_SAMPLES
+): Float32Array {
+  const images = tiles.map(tile => tile?.data?.images).filter(images => images?.imageBands?.length);
+  const pixelCount = images.reduce(
+    (accu, {imageBands}) => accu + imageBands.length * imageBands[0].data.length,
+    0
+  );
+  const step = Math.max(1, Math.ceil(pixelCount / maxSamples));
+
+  const sample: number[] = [];
+  images.forEach(({imageBands, imageMask}) => {
+    const maskData = imageMask?.data;
+    for (let index = 0; index < imageBands[0].data.length; index += step) {
+      if (!maskData || maskData[index]) {
+        for (const band of imageBands) {
+          const value = band.data[index];
+          if (Number.isFinite(value)) {
+            sample.push(value);
+          }
+        }
+      }
+    }
+  });
+  return Float32Array.from(sample);
+}
+
+/**
+ * Histogram of pixel values
+ * @param values - pixel values
+ * @param domain - [min, max] of the histogram, values outside of it are counted in the first and last bins
+ * @param numBins - number of bins
+ * @returns bins with the count of values in each bin
+ */
+export function getPixelHistogram(
+  values: ArrayLike<number>,
+  domain: [number, number],
+  numBins = PIXEL_HISTOGRAM_BINS
+): Bin[] {
+  const [min, max] = domain;
+  const binWidth = (max - min) / numBins;
+  const bins: Bin[] = Array.from({length: numBins}, (_, i) => ({
+    x0: min + i * binWidth,
+    x1: min + (i + 1) * binWidth,
+    count: 0,
+    indexes: []
+  }));
+  if (!(binWidth > 0)) {
+    return bins;
+  }
+  for (let i = 0; i < values.length; i++) {
+    const binIndex = Math.floor((values[i] - min) / binWidth);
+    bins[Math.max(0, Math.min(numBins - 1, binIndex))].count++;
+  }
+  return bins;
+}
+
+/**
+ * Range of pixel values between two percentiles
+ * @param values - pixel values
+ * @param percentiles - [low, high] percentiles between 0 and 100
+ * @returns [low, high] pixel values, null without values
+ */
+export function getPercentileRange(
+  values: ArrayLike<number>,
+  [low, high]: [number, number]
+): [number, number] | null {
+  if (!values.length) {
+    return null;
+  }
+  const sorted = Float64Array.from(values).sort();
+  const getPercentile = (percentile: number) =>
+    sorted[Math.round((percentile / 100) * (sorted.length - 1))];
+  return [getPercentile(low), getPercentile(high)];
+}
+
+/**
+ * Convert a range of pixel values to the linear rescaling factor, which is relative to the pixel value range
+ * @param range - [low, high] pixel values to stretch to the full color range
+ * @param pixelValueRange - [min, max] pixel values used to rescale the image
+ * @returns linear rescaling factor between 0 and 1, null when it can't be computed
+ */
+export function getLinearRescalingFactor(
+  [low, high]: [number, number],
+  [minPixelValue, maxPixelValue]: [number, number]
+): [number, number] | null {
+  const globalRange = maxPixelValue - minPixelValue;
+  if (!(globalRange > 0) || !(high > low)) {
+    return null;
+  }
+  const toFactor = (value: number) =>
+    Math.max(0, Math.min(1, (value - minPixelValue) / globalRange));
+  return [toFactor(low), toFactor(high)];
+}
@@ -5,7 +5,7 @@ import {_Tile2DHeader} from '@deck.gl/geo-layers/typed';
 import {TypedArray} from '@loaders.gl/loader-utils/src/types';
 import {Texture2DProps} from '@luma.gl/webgl';
 
-import {KeplerTable as KeplerDataset} from '@kepler.gl/table';
+import {COGMetadata, KeplerTable as KeplerDataset} from '@kepler.gl/table';
 import type {ColorMap, StacTypes} from '@kepler.gl/types';
 
 export type STACObject = StacTypes.STACObject;
@@ -106,7 +106,7 @@ export type ExtendedKeplerSTAC = {rasterTileServerUrls?: []};
  * Anything required to know _what data to load_ should be passed in here.
  */
 export type GetTileDataCustomProps = Pick<AssetRequestInfo, 'loadAssetIds' | 'loadBandIndexes'> & {
-  stac: CompleteSTACObject & ExtendedKeplerSTAC;
+  stac: (CompleteSTACObject | COGMetadata) & ExtendedKeplerSTAC;
   colormapId: string;
   categoricalColorMap: ColorMap;
   minCategoricalBandValue?: number;
@@ -261,3 +261,9 @@ export interface Tile2DHeader {
   } | null;
   get data(): GetTileDataOutput;
 }
+
+/** Tile under the pointer, its content keeps the raw band values of the pixels */
+export type HoveredRasterTile = {
+  bbox: {west: number; south: number; east: number; north: number};
+  content?: GetTileDataOutput;
+};
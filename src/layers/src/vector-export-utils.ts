@@ -0,0 +1,414 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import WebMercatorViewport, {getDistanceScales} from 'viewport-mercator-project';
+import {PROJECTED_PIXEL_SIZE_MULTIPLIER} from '@kepler.gl/constants';
+import {MapState} from '@kepler.gl/types';
+
+import Layer from './base-layer';
+
+/**
+ * Layer types that can be written as svg paths. Other layers, e.g. heatmap, aggregation and
+ * raster tile layers, are kept in the raster background of a vector export
+ */
+export const VECTOR_EXPORT_LAYER_TYPES = ['point', 'arc', 'line', 'geojson'];
+
+const LEGEND_WIDTH = 180;
+const LEGEND_PADDING = 8;
+const LEGEND_ROW_HEIGHT = 16;
+const SCALE_BAR_MAX_WIDTH = 100;
+const FONT_FAMILY = 'ff-clan-web-pro, Helvetica Neue, Helvetica, sans-serif';
+
+type Position = number[];
+type Project = (position: Position) => number[];
+type FilterRange = number[][];
+
+export type MapSvgOptions = {
+  layers: Layer[];
+  layerData: any[];
+  layerOrder: string[];
+  // gpu filter range of each dataset, keyed by dataId
+  filterRanges?: {[dataId: string]: FilterRange | undefined};
+  // map state of the exported image, width and height should match the image size
+  mapState: MapState;
+  // raster image of the base map and the layers that can't be vectorized
+  backgroundDataUri?: string;
+  title?: string;
+  legend?: boolean;
+  scaleBar?: boolean;
+};
+
+/**
+ * Whether a layer can be written as svg paths
+ */
+export function isVectorExportLayer(layer: Layer): boolean {
+  return (
+    VECTOR_EXPORT_LAYER_TYPES.includes(layer.type as string) &&
+    // extruded polygons are 3d, keep them in the raster background
+    !(layer.type === 'geojson' && layer.config.visConfig.enable3d)
+  );
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function escapeXml(str: string): string {
+  return String(str)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function getAccessorValue(accessor, d) {
+  return typeof accessor === 'function' ? accessor(d) : accessor;
+}
+
+function toSvgColor(color?: number[] | null): string {
+  return Array.isArray(color) ? `rgb(${color[0]},${color[1]},${color[2]})` : 'none';
+}
+
+function getColorOpacity(color: number[] | null | undefined, opacity: number): number {
+  const alpha = Array.isArray(color) && color.length > 3 ? color[3] / 255 : 1;
+  return round(alpha * opacity);
+}
+
+/**
+ * Apply the same filters as the gpu filter extension and polygon filters
+ */
+function isDataVisible(d, layerData, filterRange?: FilterRange): boolean {
+  if (typeof layerData.getFiltered === 'function' && !layerData.getFiltered(d)) {
+    return false;
+  }
+  if (!filterRange || typeof layerData.getFilterValue !== 'function') {
+    return true;
+  }
+  const values = layerData.getFilterValue(d);
+  return (
+    !Array.isArray(values) ||
+    values.every(
+      (v, i) =>
+        Array.isArray(v) || !filterRange[i] || (v >= filterRange[i][0] && v <= filterRange[i][1])
+    )
+  );
+}
+
+function getLinePath(coordinates: Position[], project: Project, close = false): string {
+  const points = coordinates.map(project);
+  if (!points.length) {
+    return '';
+  }
+  return `${points.map((p, i) => `${i === 0 ? 'M' : 'L'}${round(p[0])} ${round(p[1])}`).join('')}${
+    close ? 'Z' : ''
+  }`;
+}
+
+function getGeometryPath(geometry, project: Project): string {
+  switch (geometry?.type) {
+    case 'LineString':
+      return getLinePath(geometry.coordinates, project);
+    case 'MultiLineString':
+      return geometry.coordinates.map(line => getLinePath(line, project)).join('');
+    case 'Polygon':
+      return geometry.coordinates.map(ring => getLinePath(ring, project, true)).join('');
+    case 'MultiPolygon':
+      return geometry.coordinates
+        .map(polygon => polygon.map(ring => getLinePath(ring, project, true)).join(''))
+        .join('');
+    default:
+      return '';
+  }
+}
+
+function getGeometryPoints(geometry): Position[] {
+  switch (geometry?.type) {
+    case 'Point':
+      return [geometry.coordinates];
+    case 'MultiPoint':
+      return geometry.coordinates;
+    default:
+      return [];
+  }
+}
+
+function getCircle([x, y]: number[], radius: number, style: string): string {
+  return `<circle cx="${round(x)}" cy="${round(y)}" r="${round(Math.max(radius, 0.5))}" ${style}/>`;
+}
+
+function getPointLayerElements(layer: Layer, layerData, project: Project, context) {
+  const {visConfig} = layer.config;
+  const {pixelsPerMeter, mapState, filterRange} = context;
+  const fixedRadius = visConfig.fixedRadius && Boolean(layer.config.sizeField);
+  const radiusScale = layer.getRadiusScaleByZoom(mapState, fixedRadius) * pixelsPerMeter;
+  const opacity = visConfig.opacity;
+
+  return layerData.data
+    .filter(d => isDataVisible(d, layerData, filterRange))
+    .map(d => {
+      const fillColor = getAccessorValue(layerData.getFillColor, d);
+      const lineColor = getAccessorValue(layerData.getLineColor, d);
+      const fill =
+        visConfig.filled === false
+          ? 'fill="none"'
+          : `fill="${toSvgColor(fillColor)}" fill-opacity="${getColorOpacity(fillColor, opacity)}"`;
+      const stroke = visConfig.outline
+        ? ` stroke="${toSvgColor(lineColor)}" stroke-width="${round(visConfig.thickness)}"`
+        : '';
+      return getCircle(
+        project(layerData.getPosition(d)),
+        getAccessorValue(layerData.getRadius, d) * radiusScale,
+        `${fill}${stroke}`
+      );
+    });
+}
+
+function getLinkLayerElements(layer: Layer, layerData, project: Project, context) {
+  const {visConfig} = layer.config;
+  const widthScale = visConfig.thickness * PROJECTED_PIXEL_SIZE_MULTIPLIER;
+  // line layer uses getColor as source color accessor
+  const getSourceColor = layerData.getSourceColor || layerData.getColor;
+
+  return layerData.data
+    .filter(d => isDataVisible(d, layerData, context.filterRange))
+    .map(d => {
+      const color = getAccessorValue(getSourceColor, d);
+      // arcs are drawn from top down, at pitch 0 they are straight lines
+      return `<path d="${getLinePath(
+        [d.sourcePosition, d.targetPosition],
+        project
+      )}" fill="none" stroke="${toSvgColor(color)}" stroke-opacity="${getColorOpacity(
+        color,
+        visConfig.opacity
+      )}" stroke-width="${round(
+        getAccessorValue(layerData.getWidth, d) * widthScale
+      )}" stroke-linecap="round"/>`;
+    });
+}
+
+function getGeojsonLayerElements(layer: Layer, layerData, project: Project, context) {
+  const {visConfig} = layer.config;
+  const {pixelsPerMeter, mapState, filterRange} = context;
+  const lineWidthScale = visConfig.thickness * layer.getZoomFactor(mapState) * 8 * pixelsPerMeter;
+  const radiusScale =
+    layer.getRadiusScaleByZoom(mapState, layer.meta?.fixedRadius) * pixelsPerMeter;
+
+  return layerData.data
+    .filter(d => d?.geometry && isDataVisible(d, layerData, filterRange))
+    .map(d => {
+      const fillColor = getAccessorValue(layerData.getFillColor, d);
+      const lineColor = getAccessorValue(layerData.getLineColor, d);
+      const lineWidth = getAccessorValue(layerData.getLineWidth, d) * lineWidthScale;
+      const isPolygon = ['Polygon', 'MultiPolygon'].includes(d.geometry.type);
+      const filled = isPolygon && visConfig.filled;
+      const stroked = !isPolygon || visConfig.stroked;
+
+      const style = [
+        filled
+          ? `fill="${toSvgColor(fillColor)}" fill-opacity="${getColorOpacity(
+              fillColor,
+              visConfig.opacity
+            )}" fill-rule="evenodd"`
+          : 'fill="none"',
+        stroked
+          ? `stroke="${toSvgColor(lineColor)}" stroke-opacity="${getColorOpacity(
+              lineColor,
+              visConfig.strokeOpacity ?? visConfig.opacity
+            )}" stroke-width="${round(Math.max(lineWidth, 0.5))}" stroke-linejoin="round"`
+          : ''
+      ].join(' ');
+
+      const points = getGeometryPoints(d.geometry);
+      if (points.length) {
+        const radius = getAccessorValue(layerData.getPointRadius, d) * radiusScale;
+        return points
+          .map(p =>
+            getCircle(
+              project(p),
+              radius,
+              `fill="${toSvgColor(fillColor)}" fill-opacity="${getColorOpacity(
+                fillColor,
+                visConfig.opacity
+              )}"`
+            )
+          )
+          .join('');
+      }
+
+      const path = getGeometryPath(d.geometry, project);
+      return path ? `<path d="${path}" ${style}/>` : '';
+    });
+}
+
+/**
+ * Convert a layer to svg elements, positions are projected with the map viewport
+ * @returns svg element strings, empty if the layer can't be vectorized
+ */
+export function getLayerSvgElements(
+  layer: Layer,
+  layerData,
+  mapState: MapState,
+  filterRange?: FilterRange
+): string[] {
+  if (!isVectorExportLayer(layer) || !Array.isArray(layerData?.data)) {
+    return [];
+  }
+  const viewport = new WebMercatorViewport(mapState);
+  const project: Project = position => viewport.project([position[0], position[1]]);
+  const context = {
+    mapState,
+    filterRange,
+    pixelsPerMeter: getDistanceScales(mapState).pixelsPerMeter[0]
+  };
+
+  switch (layer.type) {
+    case 'point':
+      return getPointLayerElements(layer, layerData, project, context);
+    case 'arc':
+    case 'line':
+      return getLinkLayerElements(layer, layerData, project, context);
+    case 'geojson':
+      return getGeojsonLayerElements(layer, layerData, project, context);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Get a distance of 1, 2 or 5 x 10^n meters that fits in maxWidth pixels
+ */
+export function getScaleBarDistance(
+  metersPerPixel: number,
+  maxWidth: number
+): {meters: number; width: number; label: string} {
+  const maxMeters = metersPerPixel * maxWidth;
+  const exponent = Math.pow(10, Math.floor(Math.log10(maxMeters)));
+  const base = [5, 2, 1].find(b => b * exponent <= maxMeters) || 1;
+  const meters = base * exponent;
+
+  return {
+    meters,
+    width: meters / metersPerPixel,
+    label: meters >= 1000 ? `${meters / 1000} km` : `${meters} m`
+  };
+}
+
+function getScaleBarSvg(mapState: MapState): string {
+  const metersPerPixel = 1 / getDistanceScales(mapState).pixelsPerMeter[0];
+  const {width, label} = getScaleBarDistance(metersPerPixel, SCALE_BAR_MAX_WIDTH);
+  const x = 16;
+  const y = mapState.height - 20;
+
+  return `<g class="scale-bar" font-family="${FONT_FAMILY}" font-size="11">
+<rect x="${x - 4}" y="${y - 18}" width="${round(
+    width + 8
+  )}" height="26" fill="#ffffff" fill-opacity="0.8"/>
+<path d="M${x} ${y - 4}L${x} ${y}L${round(x + width)} ${y}L${round(x + width)} ${
+    y - 4
+  }" fill="none" stroke="#29323C" stroke-width="1.5"/>
+<text x="${x}" y="${y - 7}" fill="#29323C">${label}</text>
+</g>`;
+}
+
+function getLegendColors(layer: Layer): number[][] | string[] {
+  const {config} = layer;
+  if (config.colorField && config.visConfig.colorRange?.colors) {
+    return config.visConfig.colorRange.colors;
+  }
+  return [config.color];
+}
+
+function getLegendSvg(layers: Layer[], mapState: MapState): string {
+  if (!layers.length) {
+    return '';
+  }
+  const x = mapState.width - LEGEND_WIDTH - 16;
+  const y = 16;
+  const height = layers.length * LEGEND_ROW_HEIGHT * 2 + LEGEND_PADDING * 2;
+
+  const rows = layers.map((layer, i) => {
+    const rowY = y + LEGEND_PADDING + i * LEGEND_ROW_HEIGHT * 2;
+    const colors = getLegendColors(layer);
+    const swatchW = (LEGEND_WIDTH - LEGEND_PADDING * 2) / colors.length;
+    const swatches = colors
+      .map(
+        (c, j) =>
+          `<rect x="${round(x + LEGEND_PADDING + j * swatchW)}" y="${
+            rowY + LEGEND_ROW_HEIGHT
+          }" width="${round(swatchW)}" height="8" fill="${
+            Array.isArray(c) ? toSvgColor(c) : escapeXml(c)
+          }"/>`
+      )
+      .join('');
+    return `<text x="${x + LEGEND_PADDING}" y="${rowY + 11}" fill="#29323C">${escapeXml(
+      layer.config.label
+    )}</text>${swatches}`;
+  });
+
+  return `<g class="map-legend" font-family="${FONT_FAMILY}" font-size="11">
+<rect x="${x}" y="${y}" width="${LEGEND_WIDTH}" height="${height}" fill="#ffffff" fill-opacity="0.9"/>
+${rows.join('\n')}
+</g>`;
+}
+
+/**
+ * Create an svg document of the map. Point, line, arc and geojson layers are written as vector
+ * paths on top of a raster background, which holds the base map and layers that can't be vectorized.
+ * Map title, legend and scale bar are drawn as svg text and shapes.
+ */
+export function getMapSvg({
+  layers,
+  layerData,
+  layerOrder,
+  filterRanges = {},
+  mapState,
+  backgroundDataUri,
+  title,
+  legend,
+  scaleBar = true
+}: MapSvgOptions): string {
+  const {width, height} = mapState;
+  const visibleLayers = layerOrder
+    .map(id => layers.findIndex(l => l.id === id))
+    .filter(idx => idx > -1 && layers[idx].config.isVisible)
+    // layerOrder starts with the top layer, svg draws the last element on top
+    .reverse();
+
+  const layerGroups = visibleLayers
+    .map(idx => {
+      const layer = layers[idx];
+      const elements = getLayerSvgElements(
+        layer,
+        layerData[idx],
+        mapState,
+        layer.config.dataId ? filterRanges[layer.config.dataId] : undefined
+      );
+      return elements.length
+        ? `<g class="layer" id="${escapeXml(layer.id)}">\n${elements.join('\n')}\n</g>`
+        : '';
+    })
+    .filter(Boolean);
+
+  const legendLayers = visibleLayers
+    .map(idx => layers[idx])
+    .filter(layer => layer.config.isVisible && !layer.config.hidden)
+    .reverse();
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    backgroundDataUri
+      ? `<image x="0" y="0" width="${width}" height="${height}" xlink:href="${backgroundDataUri}"/>`
+      : '',
+    ...layerGroups,
+    title
+      ? `<text x="16" y="32" font-family="${FONT_FAMILY}" font-size="18" font-weight="500" fill="#29323C">${escapeXml(
+          title
+        )}</text>`
+      : '',
+    legend ? getLegendSvg(legendLayers, mapState) : '',
+    scaleBar ? getScaleBarSvg(mapState) : '',
+    '</svg>'
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
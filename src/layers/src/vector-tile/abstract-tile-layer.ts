@@ -13,6 +13,7 @@ import {
 } from '@kepler.gl/table';
 import {
   AnimationConfig,
+  Bin,
   Field,
   BindedLayerCallbacks,
   VisConfigBoolean,
@@ -39,7 +40,7 @@ import {
   VisualChannelField
 } from '../base-layer';
 import TileDataset from './common-tile/tile-dataset';
-import {isIndexedField, isDomainQuantiles} from './common-tile/tile-utils';
+import {isIndexedField, isDomainQuantiles, getNumericFieldValue} from './common-tile/tile-utils';
 import {FindDefaultLayerPropsReturnValue} from '../layer-utils';
 
 const DEFAULT_ELEVATION = 500;
@@ -162,6 +163,7 @@ export default abstract class AbstractTileLayer<
 
   protected tileDataset: TileDataset<T, I>;
   protected setLayerDomain: BindedLayerCallbacks['onSetLayerDomain'] = undefined;
+  protected onTileStatsChange: BindedLayerCallbacks['onTileStatsChange'] = undefined;
 
   protected abstract initTileDataset(): TileDataset<T, I>;
 
@@ -219,8 +221,32 @@ export default abstract class AbstractTileLayer<
     if (this.config.visConfig.dynamicColor) {
       this.setDynamicColorDomain();
     }
+    this.updateTileStats();
   };
 
+  /**
+   * Notify that the tiles in the viewport changed, filters use their stats for domains and histograms
+   */
+  updateTileStats = throttle((): void => {
+    this.onTileStatsChange?.();
+  }, 500);
+
+  /**
+   * Get the min/max of a field in the tiles loaded in the viewport, null without any value
+   */
+  getTileFieldExtent(field: KeplerField): [number, number] | null {
+    const [min, max] = this.tileDataset.getExtent(field);
+    // getExtent falls back to [0, 0] when tiles have no value
+    return min === 0 && max === 0 ? null : [min, max];
+  }
+
+  /**
+   * Get the histogram of a field in the tiles loaded in the viewport
+   */
+  getTileFieldHistogram(field: KeplerField, thresholds: number[]): Bin[] {
+    return this.tileDataset.getHistogram(field, thresholds);
+  }
+
   abstract accessRowValue(
     field?: KeplerField,
     indexKey?: number | null
@@ -425,8 +451,11 @@ export default abstract class AbstractTileLayer<
 
   getGpuFilterValueAccessor({gpuFilter, animationConfig}: LayerOpts): any {
     const indexKey = this.config.animation.enabled ? animationConfig.currentTime : null;
-    const valueAccessor = (dataContainer: DataContainerInterface, d) => field =>
-      this.accessVSFieldValue(field, indexKey)(field, d);
+    const valueAccessor = (dataContainer: DataContainerInterface, d) => field => {
+      const value = this.accessVSFieldValue(field, indexKey)(field, d);
+      // time filters compare epoch milliseconds
+      return field.type === ALL_FIELD_TYPES.timestamp ? getNumericFieldValue(field, value) : value;
+    };
     return gpuFilter.filterValueAccessor(null as any)(undefined, valueAccessor);
   }
 }
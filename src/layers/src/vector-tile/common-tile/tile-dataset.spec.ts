@@ -0,0 +1,91 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {Field} from '@kepler.gl/types';
+
+import TileDataset from './tile-dataset';
+import {getThresholdBinIndex} from './tile-utils';
+
+type MockTile = {id: string; features: {properties: Record<string, unknown>}[]};
+
+const VALUE_FIELD = {name: 'value', type: 'real', format: ''} as Field;
+const TIME_FIELD = {name: 'time', type: 'timestamp', format: 'YYYY-MM-DD'} as Field;
+
+const TILES: MockTile[] = [
+  {
+    id: '0-0-1',
+    features: [
+      {properties: {value: 1, time: '2020-01-01'}},
+      {properties: {value: 4, time: '2020-01-02'}},
+      {properties: {value: null, time: null}}
+    ]
+  },
+  {
+    id: '1-0-1',
+    features: [
+      {properties: {value: 5, time: '2020-01-03'}},
+      {properties: {value: 10, time: '2020-01-03'}}
+    ]
+  }
+];
+
+const DAY = 24 * 60 * 60 * 1000;
+const JAN_1 = Date.UTC(2020, 0, 1);
+
+function createTileDataset(tiles: MockTile[]) {
+  return new TileDataset<MockTile, MockTile['features']>(
+    {
+      getTileId: tile => tile.id,
+      getIterable: tile => tile.features,
+      getRowCount: features => features.length,
+      getRowValue: () => (field, row) => row.properties[field.name] as number | string | null
+    },
+    tiles
+  );
+}
+
+describe('getThresholdBinIndex', () => {
+  it('should find the bin of a value', () => {
+    expect(getThresholdBinIndex([0, 5, 10], 0)).toEqual(0);
+    expect(getThresholdBinIndex([0, 5, 10], 4.9)).toEqual(0);
+    expect(getThresholdBinIndex([0, 5, 10], 5)).toEqual(1);
+  });
+
+  it('should include the upper threshold in the last bin', () => {
+    expect(getThresholdBinIndex([0, 5, 10], 10)).toEqual(1);
+  });
+
+  it('should return -1 for values outside of the thresholds', () => {
+    expect(getThresholdBinIndex([0, 5, 10], -1)).toEqual(-1);
+    expect(getThresholdBinIndex([0, 5, 10], 11)).toEqual(-1);
+    expect(getThresholdBinIndex([0], 0)).toEqual(-1);
+  });
+});
+
+describe('TileDataset', () => {
+  it('should get the extent of numeric and timestamp fields', () => {
+    const tileDataset = createTileDataset(TILES);
+    expect(tileDataset.getExtent(VALUE_FIELD)).toEqual([1, 10]);
+    expect(tileDataset.getExtent(TIME_FIELD)).toEqual([JAN_1, JAN_1 + 2 * DAY]);
+  });
+
+  it('should merge histograms of all tiles', () => {
+    const tileDataset = createTileDataset(TILES);
+    expect(tileDataset.getHistogram(VALUE_FIELD, [0, 5, 10])).toEqual([
+      {count: 2, indexes: [], x0: 0, x1: 5},
+      {count: 2, indexes: [], x0: 5, x1: 10}
+    ]);
+    expect(
+      tileDataset.getHistogram(TIME_FIELD, [JAN_1, JAN_1 + DAY, JAN_1 + 2 * DAY]).map(b => b.count)
+    ).toEqual([1, 3]);
+  });
+
+  it('should update histograms with the tiles in the viewport', () => {
+    const tileDataset = createTileDataset(TILES);
+    expect(tileDataset.getHistogram(VALUE_FIELD, [0, 5, 10]).map(b => b.count)).toEqual([2, 2]);
+
+    tileDataset.updateTiles([TILES[1]]);
+    expect(tileDataset.getHistogram(VALUE_FIELD, [0, 5, 10]).map(b => b.count)).toEqual([0, 2]);
+    expect(tileDataset.getHistogram(VALUE_FIELD, [0, 8, 16]).map(b => b.count)).toEqual([1, 1]);
+  });
+});
@@ -1,11 +1,11 @@
 // SPDX-License-Identifier: MIT
 // Copyright contributors to the kepler.gl project
 
-import {Field as KeplerField} from '@kepler.gl/types';
+import {Bin, Field as KeplerField} from '@kepler.gl/types';
 import {quickInsertionSort} from '@kepler.gl/utils';
 
 import IterableTileSet, {RowCountAccessor} from './iterable-tile-set';
-import {pruneQuantiles} from './tile-utils';
+import {getNumericFieldValue, getThresholdBinIndex, pruneQuantiles} from './tile-utils';
 
 export type Datum = number | string | null;
 
@@ -32,6 +32,7 @@ type TileFieldStats = {
   extent?: [number, number];
   sample?: Datum[];
   uniqueValues?: Set<Datum>;
+  histogram?: {thresholds: string; counts: number[]};
 };
 
 /**
@@ -101,6 +102,39 @@ export default class TileDataset<T, I extends Iterable<any> = T extends Iterable
     return Number.isFinite(min) && Number.isFinite(max) ? [min, max] : [0, 0];
   }
 
+  /**
+   * Get the histogram of a numeric or timestamp field, binned by the given thresholds
+   */
+  getHistogram(field: KeplerField, thresholds: number[]): Bin[] {
+    const {getRowValue, getIterable} = this.accessors;
+    const accessor = getRowValue(field);
+    const thresholdsKey = thresholds.join(',');
+    const counts: number[] = new Array(Math.max(thresholds.length - 1, 0)).fill(0);
+
+    for (const tile of this.tiles) {
+      // Check the cache, only the last thresholds are cached per tile
+      let histogram = this.getTileStat(tile, field, 'histogram');
+      if (!histogram || histogram.thresholds !== thresholdsKey) {
+        // Cache miss, calculate and cache
+        histogram = {
+          thresholds: thresholdsKey,
+          counts: getTileHistogram(getIterable(tile), field, accessor, thresholds)
+        };
+        this.setTileStat(tile, field, 'histogram', histogram);
+      }
+      histogram.counts.forEach((count, i) => {
+        counts[i] += count;
+      });
+    }
+
+    return counts.map((count, i) => ({
+      count,
+      indexes: [],
+      x0: thresholds[i],
+      x1: thresholds[i + 1]
+    }));
+  }
+
   /**
    * Get a sample of field values to use in estimating quantiles
    */
@@ -180,7 +214,7 @@ function getTileExtent<I extends Iterable<any>>(
   let min = Infinity;
   let max = -Infinity;
   for (const row of iterable) {
-    const val = accessor(field, row) as number | null;
+    const val = getNumericFieldValue(field, accessor(field, row));
     if (val === null) continue;
     if (val < min) min = val;
     if (val > max) max = val;
@@ -188,6 +222,25 @@ function getTileExtent<I extends Iterable<any>>(
   return Number.isFinite(min) && Number.isFinite(max) ? [min, max] : undefined;
 }
 
+/**
+ * Count values of a field in a given tile falling in each bin
+ */
+function getTileHistogram<I extends Iterable<any>>(
+  iterable: I,
+  field: KeplerField,
+  accessor: RowValueAccessor<I>,
+  thresholds: number[]
+): number[] {
+  const counts: number[] = new Array(Math.max(thresholds.length - 1, 0)).fill(0);
+  for (const row of iterable) {
+    const val = getNumericFieldValue(field, accessor(field, row));
+    if (val === null) continue;
+    const binIdx = getThresholdBinIndex(thresholds, val);
+    if (binIdx > -1) counts[binIdx]++;
+  }
+  return counts;
+}
+
 /**
  * Get unique values for a field in a given tile
  */
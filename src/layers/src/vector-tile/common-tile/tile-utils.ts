@@ -1,10 +1,11 @@
 // SPDX-License-Identifier: MIT
 // Copyright contributors to the kepler.gl project
 
-import {bisectLeft} from 'd3-array';
+import {bisectLeft, bisectRight} from 'd3-array';
 
+import {ALL_FIELD_TYPES} from '@kepler.gl/constants';
 import {DomainStops, Field as KeplerField, ZoomStopsConfig} from '@kepler.gl/types';
-import {DomainQuantiles} from '@kepler.gl/utils';
+import {DomainQuantiles, timeToUnixMilli} from '@kepler.gl/utils';
 
 // helper functions
 export function isDomainStops(domain: unknown): domain is DomainStops {
@@ -29,6 +30,28 @@ export function isIndexedField(field?: KeplerField | null): boolean {
   return Boolean(field && field.indexBy);
 }
 
+/**
+ * Convert a tile feature property to a number, timestamps are parsed to epoch milliseconds
+ */
+export function getNumericFieldValue(field: KeplerField, value: unknown): number | null {
+  if (field.type === ALL_FIELD_TYPES.timestamp) {
+    return timeToUnixMilli(value as string | number, field.format);
+  }
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Index of the bin containing the value, the last bin includes the upper threshold.
+ * Returns -1 for values outside of the thresholds
+ */
+export function getThresholdBinIndex(thresholds: number[], value: number): number {
+  const lastIdx = thresholds.length - 1;
+  if (lastIdx < 1 || value < thresholds[0] || value > thresholds[lastIdx]) {
+    return -1;
+  }
+  return Math.min(bisectRight(thresholds, value), lastIdx) - 1;
+}
+
 export function getPropertyByZoom(
   config: ZoomStopsConfig | undefined,
   defaultValue: number
@@ -27,7 +27,8 @@ import {
   KeplerTable as KeplerDataset,
   Datasets as KeplerDatasets,
   GpuFilter,
-  VectorTileMetadata
+  VectorTileMetadata,
+  getTableKeyIndex
 } from '@kepler.gl/table';
 import {
   AnimationConfig,
@@ -216,6 +217,9 @@ export default class VectorTileLayer extends AbstractTileLayer<VectorTile, Featu
 
   meta = {};
 
+  /** Datasets of the last layer data update, holding the tables joined to the tile features */
+  tableJoinDatasets: KeplerDatasets = {};
+
   static findDefaultLayerProps(dataset: KeplerDataset): FindDefaultLayerPropsReturnValue {
     if (dataset.type !== DatasetType.VECTOR_TILE) {
       return {props: []};
@@ -233,7 +237,7 @@ export default class VectorTileLayer extends AbstractTileLayer<VectorTile, Featu
         return [];
       },
       getRowCount: (features: Feature[]): number => features.length,
-      getRowValue: this.accessRowValue
+      getRowValue: this.accessRowValue.bind(this)
     });
   }
 
@@ -320,7 +324,9 @@ export default class VectorTileLayer extends AbstractTileLayer<VectorTile, Featu
 
       radiusField: null,
       radiusDomain: [0, 1],
-      radiusScale: SCALE_TYPES.linear
+      radiusScale: SCALE_TYPES.linear,
+
+      tableJoin: props.tableJoin ?? null
     };
   }
 
@@ -328,8 +334,12 @@ export default class VectorTileLayer extends AbstractTileLayer<VectorTile, Featu
     object: {properties?: Record<string, Record<string, unknown>>},
     dataContainer: DataContainerInterface,
     fields: KeplerField[]
-  ): (Record<string, unknown> | null)[] {
-    return fields.map(f => object.properties?.[f.name] ?? null);
+  ): (Record<string, unknown> | number | null)[] {
+    return fields.map(f =>
+      f.joinedFrom
+        ? this.accessRowValue(f)(f, object as unknown as Feature)
+        : object.properties?.[f.name] ?? null
+    );
   }
 
   calculateLayerDomain(
@@ -381,6 +391,10 @@ export default class VectorTileLayer extends AbstractTileLayer<VectorTile, Featu
     field?: KeplerField,
     indexKey?: number | null
   ): (field: KeplerField, datum: Feature) => number | null {
+    if (field?.joinedFrom) {
+      return this.accessJoinedFieldValue(field);
+    }
+
     // if is indexed field
     if (isIndexedField(field) && indexKey !== null) {
       const fieldName = indexKey && field?.indexBy?.mappedValue[indexKey];
@@ -405,6 +419,33 @@ export default class VectorTileLayer extends AbstractTileLayer<VectorTile, Featu
     };
   }
 
+  /**
+   * Access the value of a field joined from a table, in the table row matching the feature key.
+   * The join is read from the current dataset field, the field saved in the layer config may be outdated
+   */
+  accessJoinedFieldValue(field: KeplerField): (field: KeplerField, datum: Feature) => any {
+    const currentField = this.tableJoinDatasets[this.config.dataId || '']?.fields.find(
+      f => f.name === field.name
+    );
+    const {dataId, tileKey, tableKey} = currentField?.joinedFrom || {};
+    const table = dataId ? this.tableJoinDatasets[dataId] : undefined;
+    const tableFieldIdx = table ? table.getColumnFieldIdx(field.name) : -1;
+    if (!table || !tileKey || !tableKey || tableFieldIdx < 0) {
+      return () => null;
+    }
+    const keyIndex = getTableKeyIndex(table, tableKey);
+
+    return (f, datum) => {
+      if (!datum.properties) {
+        // support picking & highlighting
+        return datum[f.fieldIdx] ?? null;
+      }
+      const key = datum.properties[tileKey];
+      const rowIdx = notNullorUndefined(key) ? keyIndex.get(String(key)) : undefined;
+      return rowIdx === undefined ? null : table.dataContainer.valueAt(rowIdx, tableFieldIdx);
+    };
+  }
+
   updateLayerMeta(dataset: KeplerDataset, datasets: KeplerDatasets): void {
     if (dataset.type !== DatasetType.VECTOR_TILE) {
       return;
@@ -428,6 +469,11 @@ export default class VectorTileLayer extends AbstractTileLayer<VectorTile, Featu
       return {tileSource: null};
     }
     const dataset = datasets[dataId];
+    if (this.tableJoinDatasets[dataId]?.fields !== dataset?.fields) {
+      // joined fields changed, stats of the loaded tiles are outdated
+      this.tileDataset.invalidateCache();
+    }
+    this.tableJoinDatasets = datasets;
 
     let tilesetDataUrl: string | undefined;
     let tileSource: LayerData['tileSource'] = null;
@@ -514,6 +560,7 @@ export default class VectorTileLayer extends AbstractTileLayer<VectorTile, Featu
     const {animation, visConfig} = this.config;
 
     this.setLayerDomain = layerCallbacks.onSetLayerDomain;
+    this.onTileStatsChange = layerCallbacks.onTileStatsChange;
 
     const defaultLayerProps = this.getDefaultDeckLayerProps(opts);
     const eleZoomFactor = this.getElevationZoomFactor(mapState);
@@ -571,9 +618,11 @@ export default class VectorTileLayer extends AbstractTileLayer<VectorTile, Featu
           updateTriggers: {
             getFilterValue: {
               ...gpuFilter.filterValueUpdateTriggers,
+              tableJoin: this.config.tableJoin,
               currentTime: animation.enabled ? animationConfig.currentTime : null
             },
             getFillColor: {
+              tableJoin: this.config.tableJoin,
               color: this.config.color,
               colorField: this.config.colorField,
               colorScale: this.config.colorScale,
@@ -582,12 +631,14 @@ export default class VectorTileLayer extends AbstractTileLayer<VectorTile, Featu
               currentTime: isIndexedField(colorField) ? animationConfig.currentTime : null
             },
             getElevation: {
+              tableJoin: this.config.tableJoin,
               heightField: this.config.heightField,
               heightScaleType: this.config.heightScale,
               heightRange: visConfig.heightRange,
               currentTime: isIndexedField(heightField) ? animationConfig.currentTime : null
             },
             getLineColor: {
+              tableJoin: this.config.tableJoin,
               strokeColor: visConfig.strokeColor,
               strokeColorField: this.config.strokeColorField,
               // @ts-expect-error prop not in LayerConfig
@@ -607,6 +658,7 @@ export default class VectorTileLayer extends AbstractTileLayer<VectorTile, Featu
               currentTime: isIndexedField(strokeColorField) ? animationConfig.currentTime : null
             },
             getLineWidth: {
+              tableJoin: this.config.tableJoin,
               sizeRange: visConfig.sizeRange,
               strokeWidth: visConfig.strokeWidth,
               sizeField: this.config.sizeField,
@@ -615,6 +667,7 @@ export default class VectorTileLayer extends AbstractTileLayer<VectorTile, Featu
               currentTime: isIndexedField(sizeField) ? animationConfig.currentTime : null
             },
             getPointRadius: {
+              tableJoin: this.config.tableJoin,
               radius: visConfig.radius,
               radiusField: this.config.radiusField,
               radiusScale: this.config.radiusScale,
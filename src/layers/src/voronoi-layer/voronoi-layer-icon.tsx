@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import React, {Component} from 'react';
+import PropTypes from 'prop-types';
+import {Base} from '../base';
+
+export default class VoronoiLayerIcon extends Component {
+  static propTypes = {
+    /** Set the height of the icon, ex. '16px' */
+    height: PropTypes.string,
+    colors: PropTypes.arrayOf(PropTypes.string)
+  };
+
+  static defaultProps = {
+    height: '16px',
+    predefinedClassName: 'voronoi-layer-icon',
+    totalColor: 3
+  };
+
+  render() {
+    return (
+      <Base {...this.props}>
+        <path d="M8,8H30L27,28L8,36Z" className="cr1" style={{opacity: 0.4}} />
+        <path d="M34,8H56V30L36,33L31,28Z" className="cr2" style={{opacity: 0.7}} />
+        <path d="M8,40L28,31L34,37L38,56H8Z" className="cr3" />
+        <path d="M39,36L56,34V56H42Z" className="cr1" />
+      </Base>
+    );
+  }
+}
@@ -0,0 +1,355 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {LineLayer, PolygonLayer} from '@deck.gl/layers';
+import WebMercatorViewport from 'viewport-mercator-project';
+
+import Layer, {
+  LayerBaseConfig,
+  LayerBaseConfigPartial,
+  LayerColorConfig,
+  LayerStrokeColorConfig,
+  VisualChannels
+} from '../base-layer';
+import {aggregateRequiredColumns, getFilterDataFunc, pointPosAccessor} from '../aggregation-layer';
+import VoronoiLayerIcon from './voronoi-layer-icon';
+import {getVoronoiDiagram, VoronoiDiagram, VoronoiSite} from './voronoi-utils';
+import {
+  CHANNEL_SCALES,
+  DEFAULT_COLOR_UI,
+  FILTER_TYPES,
+  LAYER_VIS_CONFIGS,
+  VORONOI_CLIP_MODES
+} from '@kepler.gl/constants';
+import {
+  ColorRange,
+  LayerColumn,
+  MapState,
+  Merge,
+  RGBColor,
+  VisConfigBoolean,
+  VisConfigColorRange,
+  VisConfigColorSelect,
+  VisConfigNumber,
+  VisConfigSelection
+} from '@kepler.gl/types';
+import {Datasets, KeplerTable} from '@kepler.gl/table';
+
+export type VoronoiLayerVisConfigSettings = {
+  opacity: VisConfigNumber;
+  colorRange: VisConfigColorRange;
+  filled: VisConfigBoolean;
+  stroked: VisConfigBoolean;
+  thickness: VisConfigNumber;
+  strokeColor: VisConfigColorSelect;
+  strokeColorRange: VisConfigColorRange;
+  voronoiClip: VisConfigSelection;
+  voronoiDelaunay: VisConfigBoolean;
+};
+
+export type VoronoiLayerColumnsConfig = {
+  lat: LayerColumn;
+  lng: LayerColumn;
+};
+
+export type VoronoiLayerVisConfig = {
+  opacity: number;
+  colorRange: ColorRange;
+  filled: boolean;
+  stroked: boolean;
+  thickness: number;
+  strokeColor: RGBColor;
+  strokeColorRange: ColorRange;
+  voronoiClip: keyof typeof VORONOI_CLIP_MODES;
+  voronoiDelaunay: boolean;
+};
+
+export type VoronoiLayerVisualChannelConfig = LayerColorConfig & LayerStrokeColorConfig;
+export type VoronoiLayerConfig = Merge<
+  LayerBaseConfig,
+  {columns: VoronoiLayerColumnsConfig; visConfig: VoronoiLayerVisConfig}
+> &
+  VoronoiLayerVisualChannelConfig;
+
+export type VoronoiLayerData = {
+  data: VoronoiSite[];
+  /** exterior ring of the polygon filter applied to this layer */
+  clipPolygon: number[][] | null;
+  [accessor: string]: any;
+};
+
+export const voronoiVisConfigs: {
+  opacity: 'opacity';
+  colorRange: 'colorRange';
+  filled: VisConfigBoolean;
+  stroked: 'stroked';
+  thickness: VisConfigNumber;
+  strokeColor: 'strokeColor';
+  strokeColorRange: 'strokeColorRange';
+  voronoiClip: 'voronoiClip';
+  voronoiDelaunay: 'voronoiDelaunay';
+} = {
+  opacity: 'opacity',
+  colorRange: 'colorRange',
+  filled: {
+    ...LAYER_VIS_CONFIGS.filled,
+    type: 'boolean',
+    label: 'Fill Color',
+    defaultValue: true,
+    property: 'filled'
+  },
+  stroked: 'stroked',
+  thickness: {
+    ...LAYER_VIS_CONFIGS.thickness,
+    defaultValue: 1
+  },
+  strokeColor: 'strokeColor',
+  strokeColorRange: 'strokeColorRange',
+  voronoiClip: 'voronoiClip',
+  voronoiDelaunay: 'voronoiDelaunay'
+};
+
+/** Padding of the sites extent used to clip cells, relative to the extent size */
+const BOUNDS_PADDING = 0.1;
+
+export default class VoronoiLayer extends Layer {
+  declare visConfigSettings: VoronoiLayerVisConfigSettings;
+  declare config: VoronoiLayerConfig;
+
+  // diagram of the last rendered sites and clip polygon
+  _diagramCache: {data: VoronoiSite[]; clipKey: string; diagram: VoronoiDiagram} | null = null;
+
+  constructor(props) {
+    super(props);
+
+    this.registerVisConfig(voronoiVisConfigs);
+    this.getPositionAccessor = dataContainer =>
+      pointPosAccessor(this.config.columns)(dataContainer);
+  }
+
+  get type(): 'voronoi' {
+    return 'voronoi';
+  }
+
+  get layerIcon() {
+    return VoronoiLayerIcon;
+  }
+
+  get requiredLayerColumns() {
+    return aggregateRequiredColumns;
+  }
+
+  get columnPairs() {
+    return this.defaultPointColumnPairs;
+  }
+
+  get noneLayerDataAffectingProps() {
+    return [...super.noneLayerDataAffectingProps, 'voronoiClip', 'voronoiDelaunay'];
+  }
+
+  get visualChannels(): VisualChannels {
+    const visualChannels = super.visualChannels;
+    return {
+      color: {
+        ...visualChannels.color,
+        accessor: 'getFillColor',
+        condition: config => config.visConfig.filled
+      },
+      strokeColor: {
+        property: 'strokeColor',
+        field: 'strokeColorField',
+        scale: 'strokeColorScale',
+        domain: 'strokeColorDomain',
+        range: 'strokeColorRange',
+        key: 'strokeColor',
+        channelScaleType: CHANNEL_SCALES.color,
+        accessor: 'getLineColor',
+        condition: config => config.visConfig.stroked,
+        nullValue: visualChannels.color.nullValue,
+        defaultValue: config => config.visConfig.strokeColor || config.color
+      }
+    };
+  }
+
+  getDefaultLayerConfig(props: LayerBaseConfigPartial) {
+    const defaultLayerConfig = super.getDefaultLayerConfig(props ?? {});
+    return {
+      ...defaultLayerConfig,
+
+      // add stroke color visual channel
+      strokeColorField: null,
+      strokeColorDomain: [0, 1],
+      strokeColorScale: 'quantile',
+      colorUI: {
+        ...defaultLayerConfig.colorUI,
+        strokeColorRange: DEFAULT_COLOR_UI
+      }
+    };
+  }
+
+  getDataUpdateTriggers(dataset: KeplerTable) {
+    const triggers = super.getDataUpdateTriggers(dataset);
+    return {
+      ...triggers,
+      getData: {...triggers.getData, filterRange: dataset.gpuFilter.filterRange}
+    };
+  }
+
+  /**
+   * Sites with valid positions, gpu filters are applied on cpu so cells of filtered sites are
+   * taken over by their neighbors instead of leaving holes
+   */
+  calculateDataAttribute(
+    {dataContainer, filteredIndex, gpuFilter}: KeplerTable,
+    getPosition
+  ): VoronoiSite[] {
+    const hasFilter = Object.values(gpuFilter.filterRange).some((arr: any) =>
+      arr.some(v => v !== 0)
+    );
+    const filterData = hasFilter
+      ? getFilterDataFunc(gpuFilter.filterRange, gpuFilter.filterValueAccessor(dataContainer)())
+      : null;
+    const data: VoronoiSite[] = [];
+
+    for (let i = 0; i < filteredIndex.length; i++) {
+      const index = filteredIndex[i];
+      const position = getPosition({index});
+      if (position.every(Number.isFinite) && (!filterData || filterData({index}))) {
+        data.push({index, position});
+      }
+    }
+    return data;
+  }
+
+  updateLayerMeta(dataset: KeplerTable, getPosition) {
+    const bounds = this.getPointsBounds(dataset.dataContainer, getPosition);
+    this.updateMeta({bounds});
+  }
+
+  /**
+   * Exterior ring of the first polygon filter applied to this layer
+   */
+  getClipPolygon(dataset: KeplerTable): number[][] | null {
+    const filter = (dataset.filterRecord?.cpu || []).find(
+      f => f.type === FILTER_TYPES.polygon && f.layerId?.includes(this.id)
+    );
+    const geometry = filter?.value?.geometry;
+    return geometry?.type === 'Polygon' ? geometry.coordinates[0] : null;
+  }
+
+  formatLayerData(datasets: Datasets, oldLayerData): VoronoiLayerData | Record<string, never> {
+    if (this.config.dataId === null) {
+      return {};
+    }
+    const dataset = datasets[this.config.dataId];
+    const {data} = this.updateData(datasets, oldLayerData);
+    const accessors = this.getAttributeAccessors({dataContainer: dataset.dataContainer});
+
+    return {
+      data,
+      clipPolygon: this.getClipPolygon(dataset),
+      ...accessors
+    };
+  }
+
+  /**
+   * Ring to clip cells to, based on the `voronoiClip` mode. Falls back to the padded extent
+   * of the sites when there is no polygon filter
+   */
+  getClipRing({data, clipPolygon}: VoronoiLayerData, mapState: MapState): number[][] | null {
+    const {voronoiClip} = this.config.visConfig;
+    if (voronoiClip === VORONOI_CLIP_MODES.polygon && clipPolygon) {
+      return clipPolygon;
+    }
+    if (voronoiClip === VORONOI_CLIP_MODES.viewport && mapState?.width && mapState?.height) {
+      const viewport = new WebMercatorViewport(mapState);
+      const corners: [number, number][] = [
+        [0, mapState.height],
+        [mapState.width, mapState.height],
+        [mapState.width, 0],
+        [0, 0]
+      ];
+      return corners.map(pixel => viewport.unproject(pixel));
+    }
+    if (!data.length) {
+      return null;
+    }
+    let [minLng, minLat] = data[0].position;
+    let [maxLng, maxLat] = data[0].position;
+    data.forEach(({position: [lng, lat]}) => {
+      minLng = Math.min(minLng, lng);
+      minLat = Math.min(minLat, lat);
+      maxLng = Math.max(maxLng, lng);
+      maxLat = Math.max(maxLat, lat);
+    });
+    const padLng = Math.max((maxLng - minLng) * BOUNDS_PADDING, 0.01);
+    const padLat = Math.max((maxLat - minLat) * BOUNDS_PADDING, 0.01);
+    return [
+      [minLng - padLng, minLat - padLat],
+      [maxLng + padLng, minLat - padLat],
+      [maxLng + padLng, maxLat + padLat],
+      [minLng - padLng, maxLat + padLat]
+    ];
+  }
+
+  /**
+   * Voronoi diagram of the sites clipped to a ring, memoized for the last sites and ring
+   */
+  getDiagram(data: VoronoiSite[], clipRing: number[][] | null): VoronoiDiagram {
+    const clipKey = JSON.stringify(clipRing);
+    const cache = this._diagramCache;
+    if (cache && cache.data === data && cache.clipKey === clipKey) {
+      return cache.diagram;
+    }
+    const diagram = clipRing ? getVoronoiDiagram(data, clipRing) : {cells: [], edges: []};
+    this._diagramCache = {data, clipKey, diagram};
+    return diagram;
+  }
+
+  getDefaultDeckLayerProps(opts): any {
+    return {
+      ...super.getDefaultDeckLayerProps(opts),
+      highlightColor: this.config.highlightColor,
+      // gpu filters are applied when computing cells
+      extensions: [],
+      autoHighlight: true
+    };
+  }
+
+  renderLayer(opts) {
+    const {data, mapState} = opts;
+    const {visConfig} = this.config;
+    const {cells, edges} = this.getDiagram(data.data, this.getClipRing(data, mapState));
+    const defaultLayerProps = this.getDefaultDeckLayerProps(opts);
+
+    return [
+      new PolygonLayer({
+        ...defaultLayerProps,
+        data: cells,
+        getPolygon: d => d.polygon,
+        getFillColor: data.getFillColor,
+        getLineColor: data.getLineColor,
+        filled: visConfig.filled,
+        stroked: visConfig.stroked,
+        getLineWidth: visConfig.thickness,
+        lineWidthUnits: 'pixels',
+        updateTriggers: this.getVisualChannelUpdateTriggers()
+      }),
+      ...(visConfig.voronoiDelaunay
+        ? [
+            new LineLayer({
+              ...defaultLayerProps,
+              id: `${this.id}-delaunay`,
+              data: edges,
+              pickable: false,
+              getSourcePosition: d => d[0],
+              getTargetPosition: d => d[1],
+              getColor: visConfig.strokeColor || this.config.color,
+              getWidth: visConfig.thickness,
+              updateTriggers: {getColor: visConfig.strokeColor || this.config.color}
+            })
+          ]
+        : [])
+    ];
+  }
+}
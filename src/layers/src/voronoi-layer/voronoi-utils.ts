@@ -0,0 +1,275 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {lngLatToWorld, worldToLngLat} from '../layer-utils';
+
+type Point = [number, number];
+
+export type VoronoiSite = {
+  /** index of the source row */
+  index: number;
+  /** `[lng, lat]` of the site */
+  position: number[];
+};
+
+export type VoronoiCell = {
+  /** index of the source row */
+  index: number;
+  /** closed counterclockwise ring in lng lat */
+  polygon: Point[];
+};
+
+export type VoronoiDiagram = {
+  cells: VoronoiCell[];
+  /** Delaunay edges between sites with adjacent cells, in lng lat */
+  edges: [Point, Point][];
+};
+
+/**
+ * A convex polygon in world coordinates, `tags[k]` is the site on the other side of the edge
+ * from vertex k to vertex k + 1, or -1 for edges of the clip extent
+ */
+type TaggedPolygon = {points: Point[]; tags: number[]};
+
+const EPSILON = 1e-12;
+
+function signedArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x0, y0] = points[i];
+    const [x1, y1] = points[(i + 1) % points.length];
+    area += x0 * y1 - x1 * y0;
+  }
+  return area / 2;
+}
+
+/**
+ * Sutherland-Hodgman clipping of a polygon by a half plane, keeps points where `side(p) <= 0`.
+ * New edges along the clip line are tagged with `tag`.
+ */
+function clipByHalfPlane(
+  {points, tags}: TaggedPolygon,
+  side: (p: Point) => number,
+  tag: number
+): TaggedPolygon {
+  const result: TaggedPolygon = {points: [], tags: []};
+  const n = points.length;
+
+  for (let k = 0; k < n; k++) {
+    const p = points[k];
+    const q = points[(k + 1) % n];
+    const sp = side(p);
+    const sq = side(q);
+
+    if (sp <= 0) {
+      result.points.push(p);
+      result.tags.push(tags[k]);
+    }
+    if (sp <= 0 !== sq <= 0) {
+      const t = sp / (sp - sq);
+      result.points.push([p[0] + (q[0] - p[0]) * t, p[1] + (q[1] - p[1]) * t]);
+      // exiting the half plane starts an edge along the clip line
+      result.tags.push(sp <= 0 ? tag : tags[k]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Intersect a clip ring with a convex counterclockwise cell
+ */
+function intersectWithCell(ring: Point[], cell: Point[]): Point[] {
+  let subject: TaggedPolygon = {points: ring, tags: ring.map(() => -1)};
+  for (let k = 0; k < cell.length && subject.points.length; k++) {
+    const [ux, uy] = cell[k];
+    const [vx, vy] = cell[(k + 1) % cell.length];
+    // inside is to the left of each edge
+    subject = clipByHalfPlane(
+      subject,
+      ([x, y]) => -((vx - ux) * (y - uy) - (vy - uy) * (x - ux)),
+      -1
+    );
+  }
+  return subject.points;
+}
+
+/**
+ * Compute Voronoi cells of point sites clipped to a polygon. Sites with identical positions
+ * share the same cell.
+ * @param sites - sites with `[lng, lat]` positions
+ * @param clipRing - ring in lng lat to clip the cells to, e.g. the viewport or a polygon filter
+ * @returns one cell per site that intersects the clip ring, and Delaunay edges between sites
+ * whose cells share an edge inside the bounding box of the clip ring
+ */
+export function getVoronoiDiagram(sites: VoronoiSite[], clipRing: number[][]): VoronoiDiagram {
+  const ring = clipRing
+    .filter(p => Number.isFinite(p[0]) && Number.isFinite(p[1]))
+    .map(lngLatToWorld);
+  // remove closing point and make counterclockwise
+  if (
+    ring.length > 1 &&
+    ring[0][0] === ring[ring.length - 1][0] &&
+    ring[0][1] === ring[ring.length - 1][1]
+  ) {
+    ring.pop();
+  }
+  if (ring.length < 3 || !sites.length) {
+    return {cells: [], edges: []};
+  }
+  if (signedArea(ring) < 0) {
+    ring.reverse();
+  }
+
+  // unique site positions
+  const positions: Point[] = [];
+  const siteIds: number[] = [];
+  const idByKey = new Map<string, number>();
+  sites.forEach(({position}) => {
+    const key = `${position[0]},${position[1]}`;
+    if (!idByKey.has(key)) {
+      idByKey.set(key, positions.length);
+      positions.push(lngLatToWorld(position));
+    }
+    siteIds.push(idByKey.get(key) as number);
+  });
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  ring.forEach(([x, y]) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  });
+  const extent: Point[] = [
+    [minX, minY],
+    [maxX, minY],
+    [maxX, maxY],
+    [minX, maxY]
+  ];
+
+  // grid index of sites, so each cell is only clipped by nearby sites
+  let gridMinX = Infinity;
+  let gridMinY = Infinity;
+  let gridMaxX = -Infinity;
+  let gridMaxY = -Infinity;
+  positions.forEach(([x, y]) => {
+    gridMinX = Math.min(gridMinX, x);
+    gridMinY = Math.min(gridMinY, y);
+    gridMaxX = Math.max(gridMaxX, x);
+    gridMaxY = Math.max(gridMaxY, y);
+  });
+  const gridWidth = gridMaxX - gridMinX;
+  const gridHeight = gridMaxY - gridMinY;
+  const cellSize =
+    Math.max(
+      Math.sqrt((gridWidth * gridHeight) / positions.length),
+      Math.max(gridWidth, gridHeight) / positions.length
+    ) || 1;
+  const cols = Math.floor((gridMaxX - gridMinX) / cellSize) + 1;
+  const rows = Math.floor((gridMaxY - gridMinY) / cellSize) + 1;
+  const getGridCell = ([x, y]: Point) => [
+    Math.floor((x - gridMinX) / cellSize),
+    Math.floor((y - gridMinY) / cellSize)
+  ];
+  // sites sorted by grid cell, sites of cell k are gridSites[gridStart[k]..gridStart[k + 1]]
+  const gridStart = new Uint32Array(cols * rows + 1);
+  const gridKeys = positions.map(position => {
+    const [col, row] = getGridCell(position);
+    return row * cols + col;
+  });
+  gridKeys.forEach(key => gridStart[key + 1]++);
+  for (let k = 0; k < cols * rows; k++) {
+    gridStart[k + 1] += gridStart[k];
+  }
+  const gridSites = new Uint32Array(positions.length);
+  const gridCursor = gridStart.slice(0, cols * rows);
+  gridKeys.forEach((key, id) => {
+    gridSites[gridCursor[key]++] = id;
+  });
+
+  const polygons: (Point[] | null)[] = [];
+  const edgeKeys = new Set<number>();
+  const edges: [Point, Point][] = [];
+
+  positions.forEach((site, i) => {
+    let cell: TaggedPolygon = {points: extent, tags: extent.map(() => -1)};
+    const [col, row] = getGridCell(site);
+    const maxRadius = Math.max(cols, rows);
+
+    const clipBySitesInGridCell = (x: number, y: number) => {
+      if (x < 0 || y < 0 || x >= cols || y >= rows) {
+        return;
+      }
+      const key = y * cols + x;
+      for (let k = gridStart[key]; k < gridStart[key + 1] && cell.points.length; k++) {
+        const j = gridSites[k];
+        const [bx, by] = positions[j];
+        const nx = bx - site[0];
+        const ny = by - site[1];
+        const c = (nx * (bx + site[0]) + ny * (by + site[1])) / 2;
+        const side = ([px, py]: Point) => nx * px + ny * py - c;
+        // only clip if a vertex is closer to the other site
+        if (j !== i && cell.points.some(p => side(p) > 0)) {
+          cell = clipByHalfPlane(cell, side, j);
+        }
+      }
+    };
+
+    // Search grid cells in square rings around the site, until every vertex is closer to the
+    // site than to any grid cell outside the rings searched so far
+    const isSearchComplete = (r: number) => {
+      const x0 = col - r > 0 ? gridMinX + (col - r) * cellSize : -Infinity;
+      const x1 = col + r < cols - 1 ? gridMinX + (col + r + 1) * cellSize : Infinity;
+      const y0 = row - r > 0 ? gridMinY + (row - r) * cellSize : -Infinity;
+      const y1 = row + r < rows - 1 ? gridMinY + (row + r + 1) * cellSize : Infinity;
+      return cell.points.every(
+        ([x, y]) => Math.min(x - x0, x1 - x, y - y0, y1 - y) >= Math.hypot(x - site[0], y - site[1])
+      );
+    };
+
+    clipBySitesInGridCell(col, row);
+    for (let r = 1; r <= maxRadius && cell.points.length && !isSearchComplete(r - 1); r++) {
+      for (let x = Math.max(col - r, 0); x <= Math.min(col + r, cols - 1); x++) {
+        clipBySitesInGridCell(x, row - r);
+        clipBySitesInGridCell(x, row + r);
+      }
+      for (let y = Math.max(row - r + 1, 0); y <= Math.min(row + r - 1, rows - 1); y++) {
+        clipBySitesInGridCell(col - r, y);
+        clipBySitesInGridCell(col + r, y);
+      }
+    }
+
+    // Delaunay edges from cell edges shared with other sites
+    cell.points.forEach((p, k) => {
+      const j = cell.tags[k];
+      const q = cell.points[(k + 1) % cell.points.length];
+      if (j >= 0 && Math.hypot(q[0] - p[0], q[1] - p[1]) > EPSILON) {
+        const key = Math.min(i, j) * positions.length + Math.max(i, j);
+        if (!edgeKeys.has(key)) {
+          edgeKeys.add(key);
+          edges.push([worldToLngLat(site), worldToLngLat(positions[j])]);
+        }
+      }
+    });
+
+    const clipped = cell.points.length >= 3 ? intersectWithCell(ring, cell.points) : [];
+    polygons.push(
+      clipped.length >= 3 && Math.abs(signedArea(clipped)) > EPSILON
+        ? [...clipped, clipped[0]].map(worldToLngLat)
+        : null
+    );
+  });
+
+  const cells: VoronoiCell[] = [];
+  sites.forEach(({index}, k) => {
+    const polygon = polygons[siteIds[k]];
+    if (polygon) {
+      cells.push({index, polygon});
+    }
+  });
+
+  return {cells, edges};
+}
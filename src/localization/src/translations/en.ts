@@ -27,7 +27,9 @@ export default {
     selectValue: 'Select A Value',
     enterValue: 'Enter a value',
     empty: 'empty',
-    selectLayer: 'Select a layer'
+    selectLayer: 'Select a layer',
+    selectFilters: 'Select filters',
+    selectDataset: 'Select a dataset'
   },
   misc: {
     by: '',
@@ -93,6 +95,15 @@ export default {
     newLayer: 'new layer',
     elevationByDescription: 'When off, height is based on count of points',
     colorByDescription: 'When off, color is based on count of points',
+    flowIncoming: 'Incoming',
+    flowOutgoing: 'Outgoing',
+    flowInternal: 'Within location',
+    contours: 'Contours',
+    contourRange: 'Value range',
+    createContourDataset: 'Create dataset from contours',
+    voronoiCells: 'Cells',
+    dots: 'Dots',
+    glyph: 'Glyph',
     aggregateBy: 'Aggregate {field} by',
     '3DModel': '3D Model',
     '3DModelOptions': '3D Model Options',
@@ -113,7 +124,14 @@ export default {
       s2: 'S2',
       '3d': '3D',
       vectortile: 'vector tile',
-      rastertile: 'raster tile'
+      rastertile: 'raster tile',
+      flow: 'flow',
+      contour: 'contour',
+      voronoi: 'voronoi',
+      quadkey: 'quadkey',
+      geohash: 'geohash',
+      dotdensity: 'dot density',
+      glyph: 'glyph'
     },
     layerUpdateError:
       'An error occurred during layer update: {errorMessage}. Make sure the format of the input data is valid.',
@@ -167,7 +185,27 @@ export default {
     allowHover: 'Allow Hover',
     showNeighborOnHover: 'Highlight Neighbors On Hover',
     showHighlightColor: 'Show highlight Color',
-    darkModeEnabled: 'Dark base map'
+    darkModeEnabled: 'Dark base map',
+    flowCurveness: 'Curveness',
+    flowArrows: 'Show arrows',
+    flowLocations: 'Show locations',
+    contourBands: 'Isobands',
+    contourLines: 'Isolines',
+    voronoiClip: 'Clip cells to',
+    voronoiDelaunay: 'Show Delaunay edges',
+    cellRollup: 'Roll up to parent cells',
+    cellRollupDescription:
+      'Aggregate finer cells into their parent cell at the selected resolution',
+    bivariateColorField: 'Bivariate Color Field',
+    bivariateColorFieldDescription:
+      'Select a second numeric field to color by both fields with a color matrix',
+    bivariateColorRange: 'Bivariate Color Palette',
+    bivariateClasses: 'Classes',
+    dotsPerUnit: 'Dots per unit',
+    dotsPerUnitDescription: 'Number of dots drawn for each unit of the count fields',
+    dotDensityFields: 'Count fields',
+    glyphType: 'Chart type',
+    glyphFields: 'Chart fields'
   },
   layerManager: {
     addData: 'Add Data',
@@ -202,7 +240,31 @@ export default {
     timeFilterSync: 'Synced datasets',
     timeLayerSync: 'Link with the layer timeline',
     timeLayerUnsync: 'Unlink with the layer timeline',
-    column: 'Column'
+    column: 'Column',
+    addFilterGroup: 'Add Filter Group',
+    filterGroup: 'Group',
+    operators: {
+      and: 'AND',
+      or: 'OR',
+      not: 'NOT'
+    }
+  },
+  derivedField: {
+    title: 'Add Field from Expression',
+    add: 'Add Field'
+  },
+  spatialJoin: {
+    title: 'Spatial Join',
+    joinType: 'Join',
+    polygonAttributes: 'Add polygon attributes to points',
+    pointAggregation: 'Aggregate points in polygons',
+    polygonDataset: 'Polygon dataset',
+    pointDataset: 'Point dataset',
+    polygonFields: 'Polygon fields (polygon index if empty)',
+    pointFields: 'Point fields to aggregate (points are always counted)',
+    aggregations: 'Aggregations',
+    join: 'Join',
+    noGeometry: 'This dataset has no point or polygon columns to join'
   },
   datasetTitle: {
     showDataTable: 'Show data table',
@@ -242,6 +304,8 @@ export default {
     timePlayback: 'Time Playback',
     timeFilterSync: 'Sync with a column from another dataset',
     cloudStorage: 'Cloud Storage',
+    undo: 'Undo',
+    redo: 'Redo',
     '3DMap': '3D Map',
     animationByWindow: 'Moving Time Window',
     animationByIncremental: 'Incremental Time Window',
@@ -262,6 +326,7 @@ export default {
   },
   toolbar: {
     exportImage: 'Export Image',
+    exportVideo: 'Export Video',
     exportData: 'Export Data',
     exportMap: 'Export Map',
     shareMapURL: 'Share Map URL',
@@ -285,6 +350,7 @@ export default {
       deleteDataset: 'Delete Dataset',
       addDataToMap: 'Add Data To Map',
       exportImage: 'Export Image',
+      exportVideo: 'Export Video',
       exportData: 'Export Data',
       exportMap: 'Export Map',
       addCustomMapboxStyle: 'Add Custom Map Style',
@@ -301,6 +367,8 @@ export default {
       defaultConfirm: 'Confirm'
     },
     exportImage: {
+      formatTitle: 'Format',
+      formatDescription: 'SVG and PDF write point, line, arc and polygon layers as vector paths.',
       ratioTitle: 'Ratio',
       ratioDescription: 'Choose the ratio for various usages.',
       ratioOriginalScreen: 'Original Screen',
@@ -312,6 +380,16 @@ export default {
       mapLegendTitle: 'Map Legend',
       mapLegendAdd: 'Add legend on map'
     },
+    exportVideo: {
+      sourceTitle: 'Animation',
+      sourceDescription: 'Choose the time filter or layer animation to record.',
+      layer: 'Layer Animation',
+      noAnimation: 'Add a time filter or a trip layer to export an animation.',
+      formatTitle: 'Format',
+      frameRateTitle: 'Frame Rate',
+      durationTitle: 'Duration',
+      rendering: 'Rendering frames...'
+    },
     exportData: {
       datasetTitle: 'Dataset',
       datasetSubtitle: 'Choose the datasets you want to export',
@@ -532,7 +610,23 @@ ${'```'}
     title: 'Layer Blending',
     additive: 'additive',
     normal: 'normal',
-    subtractive: 'subtractive'
+    subtractive: 'subtractive',
+    multiply: 'multiply',
+    screen: 'screen',
+    lighten: 'lighten',
+    darken: 'darken',
+    default: 'same as all layers',
+    blendingAndMask: 'Blending & Mask',
+    blendMode: 'Blend Mode',
+    maskLayer: 'Mask Layer',
+    noMask: 'none'
+  },
+  tableJoin: {
+    title: 'Join Table',
+    table: 'Table',
+    tileKey: 'Tile Key',
+    tableKey: 'Table Key',
+    noTable: 'none'
   },
   overlayBlending: {
     title: 'Map overlay blending',
@@ -573,7 +667,9 @@ ${'```'}
     hexagon: {
       worldUnitSize: 'Hexagon Radius (km)'
     },
-    hex_id: 'hex id'
+    hex_id: 'hex id',
+    quadkey: 'quadkey',
+    geohash: 'geohash'
   },
   color: {
     customPalette: 'Custom Palette',
@@ -648,6 +744,10 @@ ${'```'}
           targetColor: 'Target'
         }
       },
+      dotDensity: {
+        dotValue: '1 dot = {value}'
+      },
+
       default: {
         singleColor: {
           color: 'Fill color',
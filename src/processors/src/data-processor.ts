@@ -5,9 +5,11 @@ import * as arrow from 'apache-arrow';
 import {csvParseRows} from 'd3-dsv';
 import {DATA_TYPES as AnalyzerDATA_TYPES} from 'type-analyzer';
 import normalize from '@mapbox/geojson-normalize';
-import {parseSync} from '@loaders.gl/core';
+import {parse, parseSync} from '@loaders.gl/core';
+import {ParquetWasmLoader} from '@loaders.gl/parquet';
 import {ArrowTable} from '@loaders.gl/schema';
 import {WKBLoader} from '@loaders.gl/wkt';
+import {Proj4Projection} from '@math.gl/proj4';
 
 import {
   ALL_FIELD_TYPES,
@@ -35,6 +37,8 @@ import {
 import {KeplerGlSchema, ParsedDataset, SavedMap, LoadedMap} from '@kepler.gl/schemas';
 import {Feature} from '@nebula.gl/edit-modes';
 
+import {GeoPackageData, ShapefileData} from './types';
+
 // if any of these value occurs in csv, parse it to null;
 // const CSV_NULLS = ['', 'null', 'NULL', 'Null', 'NaN', '/N'];
 // matches empty string
@@ -356,6 +360,99 @@ export function processGeojson(rawData: unknown): ProcessorResult {
   return processRowObject(allDataRows);
 }
 
+/**
+ * Reproject coordinates of a GeoJSON geometry, returns a new geometry
+ * @param geometry GeoJSON geometry
+ * @param project function to project a single position
+ */
+export function reprojectGeometry(geometry: any, project: (position: number[]) => number[]): any {
+  if (!geometry) {
+    return geometry;
+  }
+  if (geometry.type === 'GeometryCollection') {
+    return {
+      ...geometry,
+      geometries: geometry.geometries.map(g => reprojectGeometry(g, project))
+    };
+  }
+  const projectCoordinates = coordinates =>
+    typeof coordinates[0] === 'number' ? project(coordinates) : coordinates.map(projectCoordinates);
+
+  return {...geometry, coordinates: projectCoordinates(geometry.coordinates)};
+}
+
+/**
+ * Reproject features from a source CRS to WGS84
+ * @param features GeoJSON features
+ * @param crs source CRS as well-known text or proj4 string, e.g. content of a `.prj` file
+ * @returns reprojected features
+ */
+export function reprojectFeatures<T extends {geometry: any}>(features: T[], crs: string): T[] {
+  const projection = new Proj4Projection({from: crs, to: 'WGS84'});
+  const project = (position: number[]) => {
+    const [x, y] = projection.project(position.slice(0, 2));
+    // keep altitude and measure values
+    return [x, y, ...position.slice(2)];
+  };
+
+  return features.map(f => ({...f, geometry: reprojectGeometry(f.geometry, project)}));
+}
+
+/**
+ * Process features read from a Shapefile. If the `.prj` CRS is provided,
+ * coordinates will be reprojected to WGS84
+ * @param rawData features and `.prj` content read from the Shapefile
+ * @returns dataset containing `fields` and `rows`
+ * @public
+ */
+export function processShapefile(rawData: ShapefileData): ProcessorResult {
+  if (!rawData || !Array.isArray(rawData.features)) {
+    throw new Error(
+      `Read File Failed: File is not a valid Shapefile. Read more about [supported file format](${GUIDES_FILE_FORMAT_DOC})`
+    );
+  }
+  const {features, prj} = rawData;
+  let reprojected = features;
+  if (prj) {
+    try {
+      reprojected = reprojectFeatures(features, prj);
+    } catch (error) {
+      throw new Error(`Read File Failed: Can not reproject Shapefile from .prj CRS ${prj}`);
+    }
+  }
+
+  return processGeojson({type: 'FeatureCollection', features: reprojected});
+}
+
+/**
+ * Process a feature table read from a GeoPackage.
+ * Each feature table in a GeoPackage is loaded as a separate dataset
+ * @param rawData feature tables read from the GeoPackage
+ * @param tableName name of the table to process, first table will be used if not provided
+ * @returns dataset containing `fields` and `rows`
+ * @public
+ */
+export function processGeoPackage(rawData: GeoPackageData, tableName?: string): ProcessorResult {
+  const table =
+    rawData && Array.isArray(rawData.tables)
+      ? tableName
+        ? rawData.tables.find(t => t.name === tableName)
+        : rawData.tables[0]
+      : null;
+
+  if (!table) {
+    throw new Error(
+      `Read File Failed: ${
+        tableName
+          ? `Table ${tableName} is not found in GeoPackage`
+          : 'GeoPackage has no feature table'
+      }`
+    );
+  }
+
+  return processGeojson({type: 'FeatureCollection', features: table.features});
+}
+
 /**
  * Process saved kepler.gl json to be pass to [`addDataToMap`](../actions/actions.md#adddatatomap).
  * The json object should contain `datasets` and `config`.
@@ -404,9 +501,44 @@ export function processArrowTable(arrowTable: ArrowTable): ProcessorResult | nul
   return processArrowBatches(arrowTable.data.batches);
 }
 
+/**
+ * Decode a Parquet or GeoParquet file into Arrow record batches and return a dataset.
+ * GeoParquet geometry columns are detected from the `geo` metadata of the file schema
+ *
+ * @param rawData content of the Parquet file, or an arrow table already decoded from it
+ * @returns dataset containing `fields` and `rows` or null
+ */
+export async function processParquet(
+  rawData: ArrayBuffer | ArrowTable | arrow.Table
+): Promise<ProcessorResult | null> {
+  if (rawData instanceof arrow.Table) {
+    return processArrowBatches(rawData.batches);
+  }
+  const arrowTable: ArrowTable =
+    rawData instanceof ArrayBuffer
+      ? ((await parse(rawData, ParquetWasmLoader, {
+          parquet: {shape: 'arrow-table'}
+        })) as ArrowTable)
+      : rawData;
+
+  return processArrowTable(arrowTable);
+}
+
+// GeoParquet column encodings, see https://geoparquet.org/releases/v1.1.0/
+const GEOPARQUET_ENCODINGS: Record<string, GEOARROW_EXTENSIONS> = {
+  wkb: GEOARROW_EXTENSIONS.WKB,
+  point: GEOARROW_EXTENSIONS.POINT,
+  linestring: GEOARROW_EXTENSIONS.LINESTRING,
+  polygon: GEOARROW_EXTENSIONS.POLYGON,
+  multipoint: GEOARROW_EXTENSIONS.MULTIPOINT,
+  multilinestring: GEOARROW_EXTENSIONS.MULTILINESTRING,
+  multipolygon: GEOARROW_EXTENSIONS.MULTIPOLYGON
+};
+
 /**
  * Extracts GeoArrow metadata from an Apache Arrow table schema.
  * For geoparquet files geoarrow metadata isn't present in fields, so extract extra info from schema.
+ * Both WKB and the native GeoArrow encodings of GeoParquet 1.1 are supported.
  * @param table The Apache Arrow table to extract metadata from.
  * @returns An object mapping column names to their GeoArrow encoding type.
  * @throws Logs an error message if parsing of metadata fails.
@@ -420,10 +552,13 @@ export function getGeoArrowMetadataFromSchema(table: arrow.Table): Record<string
       if (parsedGeoString.columns) {
         Object.keys(parsedGeoString.columns).forEach(columnName => {
           const columnData = parsedGeoString.columns[columnName];
-          if (columnData?.encoding === 'WKB') {
-            geoArrowMetadata[columnName] = GEOARROW_EXTENSIONS.WKB;
+          const extension =
+            typeof columnData?.encoding === 'string'
+              ? GEOPARQUET_ENCODINGS[columnData.encoding.toLowerCase()]
+              : null;
+          if (extension) {
+            geoArrowMetadata[columnName] = extension;
           }
-          // TODO potentially there are other types but no datasets to test
         });
       }
     }
@@ -542,7 +677,10 @@ export const DATASET_HANDLERS = {
   [DATASET_FORMATS.geojson]: processGeojson,
   [DATASET_FORMATS.csv]: processCsvData,
   [DATASET_FORMATS.arrow]: processArrowTable,
-  [DATASET_FORMATS.keplergl]: processKeplerglDataset
+  [DATASET_FORMATS.parquet]: processParquet,
+  [DATASET_FORMATS.keplergl]: processKeplerglDataset,
+  [DATASET_FORMATS.shapefile]: processShapefile,
+  [DATASET_FORMATS.geopackage]: processGeoPackage
 };
 
 export const Processors: {
@@ -550,9 +688,12 @@ export const Processors: {
   processCsvData: typeof processCsvData;
   processArrowTable: typeof processArrowTable;
   processArrowBatches: typeof processArrowBatches;
+  processParquet: typeof processParquet;
   processRowObject: typeof processRowObject;
   processKeplerglJSON: typeof processKeplerglJSON;
   processKeplerglDataset: typeof processKeplerglDataset;
+  processShapefile: typeof processShapefile;
+  processGeoPackage: typeof processGeoPackage;
   analyzerTypeToFieldType: typeof analyzerTypeToFieldType;
   getFieldsFromData: typeof getFieldsFromData;
   parseCsvRowsByFieldType: typeof parseCsvRowsByFieldType;
@@ -561,9 +702,12 @@ export const Processors: {
   processCsvData,
   processArrowTable,
   processArrowBatches,
+  processParquet,
   processRowObject,
   processKeplerglJSON,
   processKeplerglDataset,
+  processShapefile,
+  processGeoPackage,
   analyzerTypeToFieldType,
   getFieldsFromData,
   parseCsvRowsByFieldType
@@ -2,12 +2,17 @@
 // Copyright contributors to the kepler.gl project
 
 import * as arrow from 'apache-arrow';
-import {parseInBatches} from '@loaders.gl/core';
+import {parse, parseInBatches} from '@loaders.gl/core';
 import {JSONLoader, _JSONPath} from '@loaders.gl/json';
 import {CSVLoader} from '@loaders.gl/csv';
 import {GeoArrowLoader} from '@loaders.gl/arrow';
 import {ParquetWasmLoader} from '@loaders.gl/parquet';
+import {SHPLoader, DBFLoader} from '@loaders.gl/shapefile';
+import {GeoPackageLoader} from '@loaders.gl/geopackage';
+import {ZipLoader} from '@loaders.gl/zip';
+import {binaryToGeometry} from '@loaders.gl/gis';
 import {Loader} from '@loaders.gl/loader-utils';
+import {GeoJSONTable, Tables} from '@loaders.gl/schema';
 import {
   isPlainObject,
   generateHashIdFromString,
@@ -15,19 +20,21 @@ import {
   getError
 } from '@kepler.gl/utils';
 import {generateHashId} from '@kepler.gl/common-utils';
-import {DATASET_FORMATS} from '@kepler.gl/constants';
+import {DATASET_FORMATS, DatasetType} from '@kepler.gl/constants';
 import {AddDataToMapPayload, Feature, LoadedMap, ProcessorResult} from '@kepler.gl/types';
-import {KeplerTable} from '@kepler.gl/table';
+import {KeplerTable, getCOGMetadata, registerCOGFile} from '@kepler.gl/table';
 import {FeatureCollection} from '@turf/helpers';
 
 import {
   processArrowBatches,
   processGeojson,
+  processGeoPackage,
   processKeplerglJSON,
-  processRowObject
+  processRowObject,
+  processShapefile
 } from './data-processor';
 
-import {FileCacheItem, ValidKeplerGlMap} from './types';
+import {COGFileData, FileCacheItem, GeoPackageData, ShapefileData, ValidKeplerGlMap} from './types';
 
 const BATCH_TYPE = {
   METADATA: 'metadata',
@@ -59,6 +66,21 @@ const JSON_LOADER_OPTIONS = {
   ]
 };
 
+const GEOPACKAGE_LOADER_OPTIONS = {
+  shape: 'tables'
+};
+
+// reproject GeoPackage tables to WGS84 from the CRS in gpkg_spatial_ref_sys
+const GIS_LOADER_OPTIONS = {
+  reproject: true,
+  _targetCrs: 'WGS84'
+};
+
+// zipped Shapefiles and GeoPackages are not streamed, they are loaded in one batch
+const SHAPEFILE_EXTENSIONS = ['.zip', '.shp'];
+const GEOPACKAGE_EXTENSIONS = ['.gpkg'];
+const GEOTIFF_EXTENSIONS = ['.tif', '.tiff'];
+
 export type ProcessFileDataContent = {
   data: unknown;
   fileName: string;
@@ -104,6 +126,18 @@ export function isRowObject(json: any): boolean {
   return Array.isArray(json) && isPlainObject(json[0]);
 }
 
+export function isShapefileData(data: unknown): data is ShapefileData {
+  return isPlainObject(data) && data.type === 'shapefile' && Array.isArray(data.features);
+}
+
+export function isGeoPackageData(data: unknown): data is GeoPackageData {
+  return isPlainObject(data) && data.type === 'geopackage' && Array.isArray(data.tables);
+}
+
+export function isCOGFileData(data: unknown): data is COGFileData {
+  return isPlainObject(data) && (data as COGFileData).type === 'cog';
+}
+
 export function isKeplerGlMap(json: unknown): json is ValidKeplerGlMap {
   return Boolean(
     isPlainObject(json) &&
@@ -180,6 +214,104 @@ export async function* readBatch(
   }
 }
 
+const hasExtension = (fileName: string, extensions: string[]) =>
+  extensions.some(ext => fileName.toLowerCase().endsWith(ext));
+
+/**
+ * Read a Shapefile, either a single `.shp` file or a zip containing `.shp`, `.dbf`, `.prj` and `.cpg` files
+ * @param file - zip or shp file
+ * @returns features with attributes from the `.dbf` file and the source CRS from the `.prj` file
+ */
+export async function readShapefile(file: File): Promise<ShapefileData> {
+  const files: Record<string, ArrayBuffer> = hasExtension(file.name, ['.zip'])
+    ? await parse(file, ZipLoader)
+    : {[file.name]: await file.arrayBuffer()};
+
+  const fileNames = Object.keys(files);
+  const shpName = fileNames.find(name => hasExtension(name, ['.shp']));
+  if (!shpName) {
+    throw new Error('Can not find .shp file in zip');
+  }
+  // sidecar files share the same base name with the .shp file
+  const getSidecarFile = (ext: string) => {
+    const sidecarName = `${shpName.slice(0, -4)}.${ext}`.toLowerCase();
+    const name = fileNames.find(n => n.toLowerCase() === sidecarName);
+    return name ? files[name] : null;
+  };
+  const decodeText = (buffer: ArrayBuffer | null) =>
+    buffer ? new TextDecoder().decode(buffer).trim() : null;
+
+  const dbf = getSidecarFile('dbf');
+  const prj = decodeText(getSidecarFile('prj'));
+  const encoding = decodeText(getSidecarFile('cpg')) || 'latin1';
+
+  const shp = await parse(files[shpName], SHPLoader);
+  const properties = dbf ? await parse(dbf, DBFLoader, {dbf: {encoding}}) : null;
+  const rows = properties ? (Array.isArray(properties) ? properties : properties.data) : [];
+
+  const features = shp.geometries.reduce((accu, geometry, index) => {
+    // skip null shapes
+    if (geometry) {
+      accu.push({
+        type: 'Feature',
+        geometry: binaryToGeometry(geometry),
+        properties: rows[index] || {}
+      });
+    }
+    return accu;
+  }, [] as ShapefileData['features']);
+
+  return {type: 'shapefile', features, prj};
+}
+
+/**
+ * Read all feature tables of a GeoPackage, features are reprojected to WGS84
+ * @param file - gpkg file
+ * @returns feature tables
+ */
+export async function readGeoPackage(file: File): Promise<GeoPackageData> {
+  const result = await parse(file, GeoPackageLoader, {
+    geopackage: GEOPACKAGE_LOADER_OPTIONS,
+    gis: GIS_LOADER_OPTIONS
+  });
+
+  // `shape: 'tables'` returns all the tables of the GeoPackage
+  const tables = ((result as Tables<GeoJSONTable>)?.tables || []).map(({name, table}) => ({
+    name,
+    features: (table.features || []) as GeoPackageData['tables'][number]['features']
+  }));
+
+  return {type: 'geopackage', tables};
+}
+
+/**
+ * Read the header of a Cloud-Optimized GeoTIFF, the image is read by tiles when rendered
+ * @param file - tif file
+ * @returns COG metadata in the shape of a STAC Item
+ */
+export async function readCOGFile(file: File): Promise<COGFileData> {
+  const url = registerCOGFile(file);
+  const metadata = await getCOGMetadata(url, {name: file.name});
+  return {type: 'cog', metadata};
+}
+
+/**
+ * Read Shapefile, GeoPackage or GeoTIFF in one batch, so it can be consumed the same way as streamed files
+ */
+async function* readGisFileInBatch(file: File): AsyncGenerator {
+  const data = hasExtension(file.name, GEOPACKAGE_EXTENSIONS)
+    ? await readGeoPackage(file)
+    : hasExtension(file.name, GEOTIFF_EXTENSIONS)
+    ? await readCOGFile(file)
+    : await readShapefile(file);
+
+  yield {
+    data,
+    fileName: file.name,
+    progress: {percent: 1}
+  };
+}
+
 export async function readFileInBatches({
   file,
   loaders = [],
@@ -190,6 +322,16 @@ export async function readFileInBatches({
   loaders: Loader[];
   loadOptions: any;
 }): Promise<AsyncGenerator> {
+  if (
+    hasExtension(file.name, [
+      ...SHAPEFILE_EXTENSIONS,
+      ...GEOPACKAGE_EXTENSIONS,
+      ...GEOTIFF_EXTENSIONS
+    ])
+  ) {
+    return readGisFileInBatch(file);
+  }
+
   loaders = [JSONLoader, CSVLoader, GeoArrowLoader, ParquetWasmLoader, ...loaders];
   loadOptions = {
     csv: CSV_LOADER_OPTIONS,
@@ -221,6 +363,23 @@ export async function processFileData({
   // decide on which table class to use based on application config
   const table = getApplicationConfig().table ?? KeplerTable;
 
+  if (isGeoPackageData(data)) {
+    // each feature table in a GeoPackage is loaded as a separate dataset
+    return processGeoPackageTables(content, fileCache);
+  }
+
+  if (isCOGFileData(data)) {
+    // a GeoTIFF is added as a raster tile dataset without rows
+    return [
+      ...fileCache,
+      {
+        data: {fields: [], rows: []},
+        info: {id, label: fileName, format: DATASET_FORMATS.row, type: DatasetType.RASTER_TILE},
+        metadata: data.metadata
+      }
+    ];
+  }
+
   if (typeof table.getFileProcessor === 'function') {
     // use custom processors from table class
     const processorResult = table.getFileProcessor(data);
@@ -229,7 +388,10 @@ export async function processFileData({
   } else {
     // use default processors
     if (isArrowData(data)) {
-      format = DATASET_FORMATS.arrow;
+      // parquet and geoparquet files are decoded into arrow record batches by the parquet loader
+      format = hasExtension(fileName, ['.parquet'])
+        ? DATASET_FORMATS.parquet
+        : DATASET_FORMATS.arrow;
       processor = processArrowBatches;
     } else if (isKeplerGlMap(data)) {
       format = DATASET_FORMATS.keplergl;
@@ -241,6 +403,9 @@ export async function processFileData({
     } else if (isGeoJson(data)) {
       format = DATASET_FORMATS.geojson;
       processor = processGeojson;
+    } else if (isShapefileData(data)) {
+      format = DATASET_FORMATS.shapefile;
+      processor = processShapefile;
     }
   }
   if (format && processor) {
@@ -268,6 +433,39 @@ export async function processFileData({
   }
 }
 
+function processGeoPackageTables(
+  content: ProcessFileDataContent,
+  fileCache: FileCacheItem[]
+): FileCacheItem[] {
+  const {fileName, data} = content;
+  const {tables} = data as GeoPackageData;
+  if (!tables.length) {
+    throw new Error('Can not process uploaded file, GeoPackage has no feature table');
+  }
+
+  return tables.reduce((accu, {name}) => {
+    let result;
+    try {
+      result = processGeoPackage(data as GeoPackageData, name);
+    } catch (error) {
+      throw new Error(`Can not process uploaded file, ${getError(error as Error)}`);
+    }
+    const label = tables.length > 1 ? `${fileName} - ${name}` : fileName;
+
+    return [
+      ...accu,
+      {
+        data: result,
+        info: {
+          id: generateHashIdFromString(label),
+          label,
+          format: DATASET_FORMATS.geopackage
+        }
+      }
+    ];
+  }, fileCache);
+}
+
 export function filesToDataPayload(fileCache: FileCacheItem[]): AddDataToMapPayload[] {
   // seperate out files which could be a single datasets. or a keplergl map json
   const collection = fileCache.reduce<{
@@ -275,7 +473,7 @@ export function filesToDataPayload(fileCache: FileCacheItem[]): AddDataToMapPayl
     keplerMaps: AddDataToMapPayload[];
   }>(
     (accu, file) => {
-      const {data, info} = file;
+      const {data, info, metadata} = file;
       if (info?.format === DATASET_FORMATS.keplergl) {
         // if file contains a single kepler map dataset & config
         accu.keplerMaps.push({
@@ -291,7 +489,8 @@ export function filesToDataPayload(fileCache: FileCacheItem[]): AddDataToMapPayl
           info: {
             id: info?.id || generateHashId(4),
             ...(info || {})
-          }
+          },
+          ...(metadata ? {metadata} : {})
         };
         accu.datasets.push(newDataset);
       }
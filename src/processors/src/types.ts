@@ -1,13 +1,19 @@
 // SPDX-License-Identifier: MIT
 // Copyright contributors to the kepler.gl project
 
+import {Feature} from '@turf/helpers';
+import type {COGMetadata} from '@kepler.gl/table';
+
 export type FileCacheItem = {
   data: any;
   info: {
     id?: string;
     label: string;
     format: string;
+    /** dataset type, e.g. raster-tile for GeoTIFF files */
+    type?: string;
   };
+  metadata?: Record<string, any>;
 };
 
 export type ValidKeplerGlMap = {
@@ -15,3 +21,23 @@ export type ValidKeplerGlMap = {
   config: unknown;
   info: Record<string, string>;
 };
+
+/** Features read from a Shapefile, with the CRS from the `.prj` sidecar file */
+export type ShapefileData = {
+  type: 'shapefile';
+  features: Feature[];
+  // well-known text of the source CRS, read from the `.prj` file
+  prj?: string | null;
+};
+
+/** Feature tables read from a GeoPackage, already reprojected to WGS84 */
+export type GeoPackageData = {
+  type: 'geopackage';
+  tables: {name: string; features: Feature[]}[];
+};
+
+/** Header of a GeoTIFF file described as a STAC Item, the image is read by tiles when rendered */
+export type COGFileData = {
+  type: 'cog';
+  metadata: COGMetadata;
+};
@@ -3,6 +3,7 @@
 
 import {
   toggleModalUpdater,
+  addNotificationUpdater,
   loadFilesSuccessUpdater as uiStateLoadFilesSuccessUpdater,
   setMapControlSettingsUpdater as uiStateSetMapControlSettingsUpdater,
   toggleMapControlUpdater as uiStateToggleMapControlUpdater,
@@ -38,7 +39,7 @@ import {
 } from '@kepler.gl/actions';
 import {VisState} from '@kepler.gl/schemas';
 import {Layer} from '@kepler.gl/layers';
-import {isPlainObject} from '@kepler.gl/utils';
+import {errorNotification, isPlainObject} from '@kepler.gl/utils';
 import {findMapBounds} from './data-utils';
 import {BASE_MAP_COLOR_MODES, OVERLAY_BLENDINGS} from '@kepler.gl/constants';
 
@@ -106,9 +107,24 @@ export const defaultAddDataToMapOptions = {
   centerMap: true,
   keepExistingConfig: false,
   autoCreateLayers: true,
-  autoCreateTooltips: true
+  autoCreateTooltips: true,
+  strict: false
 };
 
+// number of validation errors to show in the notification of a rejected config
+const MAX_CONFIG_ERRORS_TO_NOTIFY = 3;
+
+const configErrorNotification = (message: string) =>
+  errorNotification({
+    message: `Failed to load map config: ${message}`,
+    id: 'load-map-config-error'
+  });
+
+const rejectConfigUpdater = (state: KeplerGlState, message: string): KeplerGlState => ({
+  ...state,
+  uiState: addNotificationUpdater(state.uiState, {payload: configErrorNotification(message)})
+});
+
 /**
  * Combine data and full configuration update in a single action
  *
@@ -118,7 +134,8 @@ export const defaultAddDataToMapOptions = {
  * @param {Object} action.payload `{datasets, options, config}`
  * @param action.payload.datasets - ***required** datasets can be a dataset or an array of datasets
  * Each dataset object needs to have `info` and `data` property.
- * @param [action.payload.options] option object `{centerMap: true}`
+ * @param [action.payload.options] option object `{centerMap: true}`, pass `{strict: true}` to reject
+ * the payload if config is not a valid saved config
  * @param [action.payload.config] map config
  * @param [action.payload.info] map info contains title and description
  * @returns nextState
@@ -165,11 +182,36 @@ export const addDataToMapUpdater = (
 
   // @ts-expect-error
   let parsedConfig: ParsedConfig = config;
+  let configError: Error | null = null;
+
+  if (options.strict && config) {
+    // in strict mode, reject the entire payload if config is not a valid saved config
+    const {valid, errors} = state.visState.schema.validateSavedConfig(config);
+    if (!valid) {
+      const messages = errors
+        .slice(0, MAX_CONFIG_ERRORS_TO_NOTIFY)
+        .map(({path, message}) => `${path} ${message}`);
+      if (errors.length > MAX_CONFIG_ERRORS_TO_NOTIFY) {
+        messages.push(`and ${errors.length - MAX_CONFIG_ERRORS_TO_NOTIFY} more errors`);
+      }
+      return rejectConfigUpdater(state, messages.join(', '));
+    }
+  }
 
   if (isValidConfig(config)) {
     // if passed in saved config
-    // @ts-expect-error
-    parsedConfig = state.visState.schema.parseSavedConfig(config);
+    try {
+      // @ts-expect-error
+      parsedConfig = state.visState.schema.loadSavedConfig(config);
+    } catch (error) {
+      if (options.strict) {
+        return rejectConfigUpdater(state, (error as Error).message);
+      }
+      // load datasets without the config that failed to migrate
+      // @ts-expect-error
+      parsedConfig = null;
+      configError = error as Error;
+    }
   }
   const oldLayers = state.visState.layers;
   const filterNewlyAddedLayers = (layers: Layer[]) =>
@@ -192,6 +234,15 @@ export const addDataToMapUpdater = (
     ),
 
     if_(Boolean(info), pick_('visState')(apply_<VisState, any>(setMapInfoUpdater, {info}))),
+    if_(
+      Boolean(configError),
+      pick_('uiState')(
+        apply_(
+          addNotificationUpdater,
+          payload_(configErrorNotification(configError?.message || ''))
+        )
+      )
+    ),
     // Note that fit bounds here won't be called in case datasets are created in Tasks.
     // A separate Task to update bounds is created once the datasets are ready.
     with_(({visState}) =>
@@ -10,6 +10,7 @@ import {uiStateReducerFactory} from './ui-state';
 import {providerStateReducerFactory} from './provider-state';
 
 import composers from './composers';
+import {isUndoableAction, takeVisStateSnapshot, updateUndoHistory} from './undo-history-utils';
 
 import {VisState} from '@kepler.gl/schemas';
 import {MapState, UiState} from '@kepler.gl/types';
@@ -41,10 +42,16 @@ const combined = (
 export const coreReducerFactory =
   (initialState: Partial<KeplerGlState> = {}, extraReducers = {}) =>
   (state, action) => {
-    if (composers[action.type]) {
-      return composers[action.type](state, action);
-    }
-    return combined(initialState, extraReducers)(state, action);
+    // layers are mutated by updaters, snapshot has to be taken before reducing
+    const snapshot =
+      state?.visState && isUndoableAction(action) ? takeVisStateSnapshot(state.visState) : null;
+
+    const nextState = composers[action.type]
+      ? composers[action.type](state, action)
+      : combined(initialState, extraReducers)(state, action);
+
+    const visState = updateUndoHistory(state?.visState, nextState.visState, action, snapshot);
+    return visState === nextState.visState ? nextState : {...nextState, visState};
   };
 
 export default coreReducerFactory();
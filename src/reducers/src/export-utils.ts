@@ -1,19 +1,34 @@
 // SPDX-License-Identifier: MIT
 // Copyright contributors to the kepler.gl project
 
-import {Blob} from 'global/window';
+import {Blob, console as Console} from 'global/window';
 import {csvFormatRows} from 'd3-dsv';
+import * as arrow from 'apache-arrow';
+import {parseGeometryFromArrow} from '@loaders.gl/arrow';
+import {encode, encodeSync, parseSync} from '@loaders.gl/core';
+import {binaryToGeometry, GeoArrowEncoding} from '@loaders.gl/gis';
+import {ParquetWasmWriter} from '@loaders.gl/parquet';
+import {BinaryGeometry} from '@loaders.gl/schema';
+import {WKBLoader, WKBWriter} from '@loaders.gl/wkt';
 
-import {EXPORT_DATA_TYPE} from '@kepler.gl/constants';
-import {Field} from '@kepler.gl/types';
+import {
+  ALL_FIELD_TYPES,
+  EXPORT_DATA_TYPE,
+  GEOARROW_EXTENSIONS,
+  GEOARROW_METADATA_KEY
+} from '@kepler.gl/constants';
+import {parseGeoJsonRawFeature} from '@kepler.gl/layers';
+import {Field, FieldPair} from '@kepler.gl/types';
 import KeplerTable, {Datasets} from '@kepler.gl/table';
 
 import {
   createIndexedDataContainer,
   DataContainerInterface,
+  DataRow,
   parseFieldValue,
   downloadFile
 } from '@kepler.gl/utils';
+import {notNullorUndefined} from '@kepler.gl/common-utils';
 import {getApplicationConfig} from '@kepler.gl/utils';
 
 interface StateType {
@@ -21,7 +36,17 @@ interface StateType {
   appName?: string;
 }
 
-export function exportData(state: StateType, options) {
+/**
+ * Download the selected datasets in the selected file format
+ * @param state
+ * @param options `uiState.exportData`
+ * @param onError called with the error when a dataset can't be exported
+ */
+export function exportData(
+  state: StateType,
+  options,
+  onError: (error: Error) => void = error => Console.error(error)
+) {
   const {visState, appName} = state;
   const {datasets} = visState;
   const {selectedDataset, dataType, filtered} = options;
@@ -36,23 +61,57 @@ export function exportData(state: StateType, options) {
   }
 
   selectedDatasets.forEach(selectedData => {
-    const {dataContainer, fields, label, filteredIdxCPU = []} = selectedData as KeplerTable;
-    const toExport = filtered
-      ? createIndexedDataContainer(dataContainer, filteredIdxCPU)
-      : dataContainer;
-
-    // start to export data according to selected data type
-    switch (dataType) {
-      case EXPORT_DATA_TYPE.CSV: {
-        const csv = formatCsv(toExport, fields);
-
-        const fileBlob = new Blob([csv], {type: 'text/csv'});
-        downloadFile(fileBlob, `${filename}_${label}.csv`);
-        break;
+    try {
+      const {
+        dataContainer,
+        fields,
+        fieldPairs = [],
+        label,
+        filteredIdxCPU = []
+      } = selectedData as KeplerTable;
+      const toExport = filtered
+        ? createIndexedDataContainer(dataContainer, filteredIdxCPU)
+        : dataContainer;
+
+      // start to export data according to selected data type
+      switch (dataType) {
+        case EXPORT_DATA_TYPE.CSV: {
+          const csv = formatCsv(toExport, fields);
+
+          const fileBlob = new Blob([csv], {type: 'text/csv'});
+          downloadFile(fileBlob, `${filename}_${label}.csv`);
+          break;
+        }
+        case EXPORT_DATA_TYPE.GEOJSON: {
+          const geojson = formatGeoJson(toExport, fields, fieldPairs);
+
+          const fileBlob = new Blob([JSON.stringify(geojson)], {type: 'application/geo+json'});
+          downloadFile(fileBlob, `${filename}_${label}.geojson`);
+          break;
+        }
+        case EXPORT_DATA_TYPE.ARROW: {
+          const ipc = arrow.tableToIPC(formatArrowTable(toExport, fields), 'file');
+
+          const fileBlob = new Blob([ipc], {type: 'application/vnd.apache.arrow.file'});
+          downloadFile(fileBlob, `${filename}_${label}.arrow`);
+          break;
+        }
+        case EXPORT_DATA_TYPE.PARQUET: {
+          // parquet is encoded by a wasm module, which is loaded asynchronously
+          formatParquet(toExport, fields)
+            .then(parquet => {
+              const fileBlob = new Blob([parquet], {type: 'application/vnd.apache.parquet'});
+              downloadFile(fileBlob, `${filename}_${label}.parquet`);
+            })
+            .catch(onError);
+          break;
+        }
+        // TODO: support more file types.
+        default:
+          break;
       }
-      // TODO: support more file types.
-      default:
-        break;
+    } catch (error) {
+      onError(error as Error);
     }
   });
 }
@@ -75,6 +134,219 @@ export function formatCsv(data: DataContainerInterface, fields: Field[]): string
   return csvFormatRows(formattedData);
 }
 
+/**
+ * Find the first geometry field of a dataset, geojson or geoarrow
+ * @param fields `dataset.fields`
+ * @returns index of the geometry field, -1 if not found
+ */
+export function getGeometryFieldIndex(fields: Field[]): number {
+  return fields.findIndex(
+    f => f.type === ALL_FIELD_TYPES.geojson || f.type === ALL_FIELD_TYPES.geoarrow
+  );
+}
+
+/**
+ * GeoArrow encoding of a geoarrow field, undefined for other fields
+ */
+function getGeoArrowEncoding(field: Field): GeoArrowEncoding | undefined {
+  return field.type === ALL_FIELD_TYPES.geoarrow
+    ? field.metadata?.get?.(GEOARROW_METADATA_KEY)
+    : undefined;
+}
+
+/**
+ * Parse a value of geojson or geoarrow field into a GeoJSON geometry.
+ * Supports GeoJSON feature, geometry, GeoJSON / WKT / hex WKB string, WKB binary
+ * and native GeoArrow geometries
+ * @param value value of the geometry field
+ * @param encoding GeoArrow encoding of the field
+ * @returns GeoJSON geometry or null
+ */
+export function parseGeometryValue(value: unknown, encoding?: GeoArrowEncoding): any {
+  if (!value) {
+    return null;
+  }
+  if (encoding && encoding !== GEOARROW_EXTENSIONS.WKB) {
+    // native geoarrow geometries are nested arrow vectors of coordinates,
+    // unsupported encodings throw so the export fails instead of writing empty geometries
+    return parseGeometryFromArrow(value, encoding);
+  }
+  if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+    try {
+      // WKBLoader parses binary geometries by default
+      const binaryGeo = parseSync(value, WKBLoader) as BinaryGeometry;
+      return binaryToGeometry(binaryGeo);
+    } catch (e) {
+      return null;
+    }
+  }
+  const feature = parseGeoJsonRawFeature(value);
+  return feature?.geometry || null;
+}
+
+/**
+ * On export data to GeoJSON. Geometry is read from the first geojson or geoarrow field,
+ * or from the first point field pair if the dataset doesn't have one.
+ * Rows without a valid geometry are written with a null geometry
+ * @param data
+ * @param fields `dataset.fields`
+ * @param fieldPairs `dataset.fieldPairs`
+ * @returns GeoJSON FeatureCollection
+ */
+export function formatGeoJson(
+  data: DataContainerInterface,
+  fields: Field[],
+  fieldPairs: FieldPair[] = []
+): {type: 'FeatureCollection'; features: any[]} {
+  const geometryIdx = getGeometryFieldIndex(fields);
+  const encoding = geometryIdx > -1 ? getGeoArrowEncoding(fields[geometryIdx]) : undefined;
+  const pointPair = geometryIdx < 0 ? fieldPairs[0]?.pair : null;
+
+  const getGeometry = (row: DataRow) => {
+    if (geometryIdx > -1) {
+      return parseGeometryValue(row.valueAt(geometryIdx), encoding);
+    }
+    if (pointPair) {
+      const lat = row.valueAt(pointPair.lat.fieldIdx);
+      const lng = row.valueAt(pointPair.lng.fieldIdx);
+      return notNullorUndefined(lat) && notNullorUndefined(lng)
+        ? {type: 'Point', coordinates: [Number(lng), Number(lat)]}
+        : null;
+    }
+    return null;
+  };
+
+  const features: any[] = [];
+  for (const row of data.rows(true)) {
+    const properties = fields.reduce((accu, field, i) => {
+      if (i !== geometryIdx) {
+        const value = row.valueAt(i);
+        accu[field.displayName || field.name] =
+          typeof value === 'bigint' ? value.toString() : value;
+      }
+      return accu;
+    }, {});
+
+    features.push({type: 'Feature', geometry: getGeometry(row), properties});
+  }
+
+  return {type: 'FeatureCollection', features};
+}
+
+// integers outside of Int32 range are written as Float64
+const isInt32 = (v: number) => v >= -2147483648 && v <= 2147483647;
+
+/**
+ * Create an arrow vector from values of a field
+ */
+function getArrowVector(values: any[], field: Field): arrow.Vector {
+  switch (field.type) {
+    case ALL_FIELD_TYPES.integer:
+      return arrow.vectorFromArray(
+        values,
+        values.every(v => !notNullorUndefined(v) || isInt32(v))
+          ? new arrow.Int32()
+          : new arrow.Float64()
+      );
+    case ALL_FIELD_TYPES.real:
+      return arrow.vectorFromArray(values, new arrow.Float64());
+    case ALL_FIELD_TYPES.boolean:
+      return arrow.vectorFromArray(values, new arrow.Bool());
+    case ALL_FIELD_TYPES.timestamp:
+      // epoch timestamps are kept as numbers, otherwise formatted strings
+      return values.every(v => !notNullorUndefined(v) || typeof v === 'number')
+        ? arrow.vectorFromArray(values, new arrow.Float64())
+        : arrow.vectorFromArray(
+            values.map(v => (notNullorUndefined(v) ? parseFieldValue(v, field.type, field) : null)),
+            new arrow.Utf8()
+          );
+    default:
+      return arrow.vectorFromArray(
+        values.map(v => (notNullorUndefined(v) ? parseFieldValue(v, field.type, field) : null)),
+        new arrow.Utf8()
+      );
+  }
+}
+
+/**
+ * On export data to Arrow. Geometry fields are written as WKB with GeoArrow extension metadata
+ * and GeoParquet `geo` schema metadata, so the geometry is preserved by downstream tools
+ * @param data
+ * @param fields `dataset.fields`
+ * @returns arrow table
+ */
+export function formatArrowTable(data: DataContainerInterface, fields: Field[]): arrow.Table {
+  const columns: any[][] = fields.map(() => []);
+  for (const row of data.rows(true)) {
+    row.values().forEach((v, i) => columns[i].push(v));
+  }
+
+  const geoColumns = {};
+  const vectors = fields.reduce((accu, field, i) => {
+    const name = field.displayName || field.name;
+    if (field.type === ALL_FIELD_TYPES.geojson || field.type === ALL_FIELD_TYPES.geoarrow) {
+      const encoding = getGeoArrowEncoding(field);
+      const wkb = columns[i].map(v => {
+        const geometry = parseGeometryValue(v, encoding);
+        return geometry ? new Uint8Array(encodeSync(geometry, WKBWriter)) : null;
+      });
+      accu[name] = arrow.vectorFromArray(wkb, new arrow.Binary());
+      geoColumns[name] = {encoding: 'WKB', geometry_types: []};
+    } else {
+      accu[name] = getArrowVector(columns[i], field);
+    }
+    return accu;
+  }, {});
+
+  const table = new arrow.Table(vectors);
+  const geoColumnNames = Object.keys(geoColumns);
+  if (!geoColumnNames.length) {
+    return table;
+  }
+
+  const schema = new arrow.Schema(
+    table.schema.fields.map(f =>
+      geoColumns[f.name]
+        ? new arrow.Field(
+            f.name,
+            f.type,
+            f.nullable,
+            new Map([[GEOARROW_METADATA_KEY, GEOARROW_EXTENSIONS.WKB]])
+          )
+        : f
+    ),
+    new Map([
+      [
+        'geo',
+        JSON.stringify({
+          version: '1.1.0',
+          primary_column: geoColumnNames[0],
+          columns: geoColumns
+        })
+      ]
+    ])
+  );
+
+  return new arrow.Table(
+    schema,
+    table.batches.map(batch => new arrow.RecordBatch(schema, batch.data))
+  );
+}
+
+/**
+ * On export data to Parquet, geometry fields are written as GeoParquet WKB columns
+ * @param data
+ * @param fields `dataset.fields`
+ * @returns parquet file content
+ */
+export async function formatParquet(
+  data: DataContainerInterface,
+  fields: Field[]
+): Promise<ArrayBuffer> {
+  const table = formatArrowTable(data, fields);
+  return encode({shape: 'arrow-table', data: table}, ParquetWasmWriter);
+}
+
 const exporters = {
   exportData
 };
@@ -64,9 +64,13 @@ export {getDefaultMapStyles} from './map-style-updaters';
 export type {MapboxStyleUrl, MapStyle} from './map-style-updaters';
 
 export * from './data-utils';
+export * from './spatial-join-utils';
+export * from './tile-filter-utils';
+export * from './table-join-utils';
 export * from './export-utils';
 export * from './interaction-utils';
 export * from './layer-utils';
+export * from './undo-history-utils';
 export * as providerStateUpdaters from './provider-state-updaters';
 
 export {enhanceReduxMiddleware} from './middleware';
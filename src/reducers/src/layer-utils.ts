@@ -23,7 +23,10 @@ import {
   Layer,
   LayerClassesType,
   OVERLAY_TYPE_CONST,
-  getEditorLayer
+  getEditorLayer,
+  applyLayerBlendModeAndMask,
+  getMaskDeckLayer,
+  getMaskId
 } from '@kepler.gl/layers';
 
 import KeplerTable from '@kepler.gl/table';
@@ -394,37 +397,54 @@ export function computeDeckLayers(
 
     const currentLayersForDeck = layersForDeck || prepareLayersForDeck(layers, layerData);
 
+    const renderLayerAtIndex = (layerIndex: number) =>
+      renderDeckGlLayer(
+        {
+          datasets,
+          layer: layers[layerIndex],
+          layerIndex,
+          data: layerData[layerIndex],
+          hoverInfo,
+          clicked,
+          mapState,
+          interactionConfig,
+          animationConfig,
+          mapLayers,
+          experimentalContext: {
+            hasShadowEffect
+          }
+        },
+        layerCallbacks ? bindLayerCallbacks(layerCallbacks, layerIndex) : {}
+      );
+
+    // layers used as masks by other layers are also drawn in the mask pass
+    const maskLayers: {[id: string]: any} = {};
+    layers.forEach(({id, config}) => {
+      const {maskLayerId} = config;
+      if (
+        currentLayersForDeck[id] &&
+        maskLayerId &&
+        !(maskLayerId in maskLayers) &&
+        currentLayersForDeck[maskLayerId]
+      ) {
+        const maskLayerIndex = layers.findIndex(l => l.id === maskLayerId);
+        maskLayers[maskLayerId] = getMaskDeckLayer(maskLayerId, renderLayerAtIndex(maskLayerIndex));
+      }
+    });
+
     dataLayers = layerOrder
       .slice()
       .reverse()
       .filter(id => currentLayersForDeck[id])
       .reduce((overlays, layerId) => {
         const layerIndex = layers.findIndex(({id}) => id === layerId);
-        const bindedLayerCallbacks = layerCallbacks
-          ? bindLayerCallbacks(layerCallbacks, layerIndex)
-          : {};
-        const layer = layers[layerIndex];
-        const data = layerData[layerIndex];
-        const layerOverlay = renderDeckGlLayer(
-          {
-            datasets,
-            layer,
-            layerIndex,
-            data,
-            hoverInfo,
-            clicked,
-            mapState,
-            interactionConfig,
-            animationConfig,
-            mapLayers,
-            experimentalContext: {
-              hasShadowEffect
-            }
-          },
-          bindedLayerCallbacks
-        );
-        return overlays.concat(layerOverlay || []);
-      }, []);
+        const {blendMode, maskLayerId} = layers[layerIndex].config;
+        const layerOverlay = applyLayerBlendModeAndMask(renderLayerAtIndex(layerIndex), {
+          blendMode,
+          maskId: maskLayerId && maskLayers[maskLayerId] ? getMaskId(maskLayerId) : null
+        });
+        return overlays.concat(layerOverlay);
+      }, Object.values(maskLayers).filter(Boolean));
   }
 
   if (!primaryMap) {
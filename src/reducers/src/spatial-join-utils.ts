@@ -0,0 +1,144 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {ALL_FIELD_TYPES, SPATIAL_JOIN_AGGREGATIONS, SPATIAL_JOIN_TYPES} from '@kepler.gl/constants';
+import {parseGeoJsonRawFeature} from '@kepler.gl/layers';
+import {KeplerTable, addTableColumns} from '@kepler.gl/table';
+import {Field, SpatialJoinOptions} from '@kepler.gl/types';
+import {aggregatePointsByPolygon, createPolygonIndex, getGeometryPolygons} from '@kepler.gl/utils';
+
+/**
+ * Name not used by any field of the dataset, `name`, `name_1`, `name_2`...
+ */
+function getUniqueFieldName(fields: {name: string}[], name: string): string {
+  let uniqueName = name;
+  for (let i = 1; fields.some(f => f.name === uniqueName); i++) {
+    uniqueName = `${name}_${i}`;
+  }
+  return uniqueName;
+}
+
+/**
+ * Index of the polygon containing each point of the point dataset, -1 for points outside of all polygons
+ */
+function joinPointsToPolygons(
+  pointDataset: KeplerTable,
+  polygonDataset: KeplerTable,
+  {pointColumns, polygonField}: SpatialJoinOptions
+): number[] {
+  const pair = pointColumns
+    ? pointDataset.fieldPairs.find(p => p.defaultName === pointColumns)
+    : pointDataset.fieldPairs[0];
+  if (!pair) {
+    throw new Error(`${pointDataset.label} has no lat / lng columns`);
+  }
+  const geoField = polygonDataset.fields.find(f =>
+    polygonField ? f.name === polygonField : f.type === ALL_FIELD_TYPES.geojson
+  );
+  if (!geoField) {
+    throw new Error(`${polygonDataset.label} has no geometry column`);
+  }
+
+  const polygons: ReturnType<typeof getGeometryPolygons>[] = [];
+  for (let i = 0; i < polygonDataset.dataContainer.numRows(); i++) {
+    const feature = parseGeoJsonRawFeature(geoField.valueAccessor({index: i}));
+    polygons.push(getGeometryPolygons(feature?.geometry));
+  }
+  const findPolygon = createPolygonIndex(polygons);
+
+  const {lat, lng} = pair.pair;
+  const polygonIndexes: number[] = [];
+  for (let i = 0; i < pointDataset.dataContainer.numRows(); i++) {
+    polygonIndexes.push(
+      findPolygon([
+        Number(pointDataset.dataContainer.valueAt(i, lng.fieldIdx)),
+        Number(pointDataset.dataContainer.valueAt(i, lat.fieldIdx))
+      ])
+    );
+  }
+  return polygonIndexes;
+}
+
+function getFieldsByName(dataset: KeplerTable, names: string[] = []): Field[] {
+  return names.map(name => {
+    const field = dataset.fields.find(f => f.name === name);
+    if (!field) {
+      throw new Error(`Field ${name} not found in ${dataset.label}`);
+    }
+    return field;
+  });
+}
+
+/**
+ * Join a point dataset and a polygon dataset by location.
+ * `polygonAttributes` adds fields of the polygon containing each point to the point dataset,
+ * `pointAggregation` adds counts, sums or averages of the points in each polygon to the polygon dataset.
+ * Throws an error when the datasets can't be joined
+ * @returns the updated point or polygon dataset, with the new columns
+ */
+export function spatialJoinDatasets(
+  pointDataset: KeplerTable,
+  polygonDataset: KeplerTable,
+  options: SpatialJoinOptions
+): KeplerTable {
+  const polygonIndexes = joinPointsToPolygons(pointDataset, polygonDataset, options);
+  const {joinType, fields = [], aggregations = []} = options;
+  const joinedDataset =
+    joinType === SPATIAL_JOIN_TYPES.polygonAttributes ? pointDataset : polygonDataset;
+
+  // names of the fields of the joined dataset and of the new columns
+  const usedNames: {name: string}[] = [...joinedDataset.fields];
+  const getColumn = (
+    field: Pick<Field, 'name' | 'type' | 'analyzerType'> & Partial<Field>,
+    values: unknown[]
+  ) => {
+    const column = {field: {...field, name: getUniqueFieldName(usedNames, field.name)}, values};
+    usedNames.push(column.field);
+    return column;
+  };
+
+  if (joinType === SPATIAL_JOIN_TYPES.polygonAttributes) {
+    const polygonFields = getFieldsByName(polygonDataset, fields);
+    const columns = polygonFields.length
+      ? polygonFields.map(({name, type, analyzerType, format, fieldIdx}) =>
+          getColumn(
+            {name, type, analyzerType, format},
+            polygonIndexes.map(polygonIndex =>
+              polygonIndex < 0 ? null : polygonDataset.dataContainer.valueAt(polygonIndex, fieldIdx)
+            )
+          )
+        )
+      : [
+          getColumn(
+            {name: 'polygon_index', type: ALL_FIELD_TYPES.integer, analyzerType: 'INT'},
+            polygonIndexes.map(polygonIndex => (polygonIndex < 0 ? null : polygonIndex))
+          )
+        ];
+    return addTableColumns(pointDataset, columns);
+  }
+
+  if (joinType === SPATIAL_JOIN_TYPES.pointAggregation) {
+    const polygonCount = polygonDataset.dataContainer.numRows();
+    const columns = [
+      getColumn(
+        {name: 'point_count', type: ALL_FIELD_TYPES.integer, analyzerType: 'INT'},
+        aggregatePointsByPolygon(polygonIndexes, polygonCount, SPATIAL_JOIN_AGGREGATIONS.count)
+      ),
+      ...getFieldsByName(pointDataset, fields).flatMap(({name, fieldIdx}) =>
+        aggregations
+          .filter(aggregation => aggregation !== SPATIAL_JOIN_AGGREGATIONS.count)
+          .map(aggregation =>
+            getColumn(
+              {name: `${name}_${aggregation}`, type: ALL_FIELD_TYPES.real, analyzerType: 'FLOAT'},
+              aggregatePointsByPolygon(polygonIndexes, polygonCount, aggregation, pointIndex =>
+                pointDataset.dataContainer.valueAt(pointIndex, fieldIdx)
+              )
+            )
+          )
+      )
+    ];
+    return addTableColumns(polygonDataset, columns);
+  }
+
+  throw new Error(`Unknown spatial join type ${joinType}`);
+}
@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {
+  Datasets,
+  copyTableAndUpdate,
+  getGpuFilterProps,
+  getTableJoinFields,
+  isTileDataset
+} from '@kepler.gl/table';
+import {Filter, TableJoin} from '@kepler.gl/types';
+
+type LayerWithTableJoin = {
+  config?: {dataId?: string | null; tableJoin?: Partial<TableJoin> | null};
+};
+
+/**
+ * Add the fields of the tables joined by vector tile layers to their tiled datasets,
+ * fields of joins no longer used by any layer are removed.
+ * Accepts layers and saved layers, so joined fields can be validated when merging a saved config
+ * @param datasets
+ * @param layers
+ * @param filters used to update the gpu filter of updated datasets
+ * @returns datasets, updated tiled datasets are copied
+ */
+export function updateTableJoinFields(
+  datasets: Datasets,
+  layers: LayerWithTableJoin[],
+  filters: Filter[]
+): Datasets {
+  return Object.values(datasets).reduce((accu, dataset) => {
+    if (!isTileDataset(dataset)) {
+      return accu;
+    }
+    const tableJoins = layers
+      .filter(l => l.config?.dataId === dataset.id)
+      .map(l => l.config?.tableJoin);
+    const fields = getTableJoinFields(dataset, tableJoins, datasets);
+    if (fields === dataset.fields) {
+      return accu;
+    }
+
+    return {
+      ...accu,
+      [dataset.id]: copyTableAndUpdate(dataset, {
+        fields,
+        gpuFilter: getGpuFilterProps(filters, dataset.id, fields, dataset.gpuFilter)
+      })
+    };
+  }, datasets);
+}
@@ -0,0 +1,150 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import isEqual from 'lodash/isEqual';
+
+import {BINS, FILTER_TYPES} from '@kepler.gl/constants';
+import {Layer, VectorTileLayer} from '@kepler.gl/layers';
+import {Datasets, isTileDataset} from '@kepler.gl/table';
+import {Field, Filter, RangeFilter, TimeRangeFilter} from '@kepler.gl/types';
+import {getBinThresholds, getDomainBinThresholds, isValidTimeDomain} from '@kepler.gl/utils';
+
+type TileStatsFilter = RangeFilter | TimeRangeFilter;
+
+function isTileStatsFilter(filter: Filter): filter is TileStatsFilter {
+  return filter.type === FILTER_TYPES.range || filter.type === FILTER_TYPES.timeRange;
+}
+
+/**
+ * Visible tile layer of a tiled dataset and the filtered field, the layer holds the tiles loaded in the viewport
+ */
+function getTileLayerAndField(
+  filter: Filter,
+  datasets: Datasets,
+  layers: Layer[],
+  datasetIdx: number
+): {layer: VectorTileLayer; field: Field} | null {
+  const dataId = filter.dataId[datasetIdx];
+  const dataset = datasets[dataId];
+  if (!dataset || !isTileDataset(dataset)) {
+    return null;
+  }
+  const layer = layers.find(
+    (l): l is VectorTileLayer =>
+      l instanceof VectorTileLayer && l.config.dataId === dataId && l.config.isVisible
+  );
+  const field = dataset.getColumnField(filter.name[datasetIdx]);
+  return layer && field ? {layer, field} : null;
+}
+
+/**
+ * Bin thresholds of the filter plot, matching the default range and time range filter plots
+ */
+function getFilterBinThresholds(filter: TileStatsFilter): number[] | null {
+  const domain = filter.domain as [number, number];
+  if (!isValidTimeDomain(domain)) {
+    return null;
+  }
+  if (filter.type === FILTER_TYPES.timeRange) {
+    const interval = (filter as TimeRangeFilter).plotType?.interval;
+    return interval ? getBinThresholds(interval, domain) : null;
+  }
+  return getDomainBinThresholds(domain, BINS);
+}
+
+/**
+ * Expand the domain of range and time range filters on tiled datasets to the values of the tiles
+ * loaded in the viewport. Tileset metadata may only hold a sample of the values,
+ * features outside of the filter domain would otherwise be hidden.
+ * @param filter
+ * @param datasets
+ * @param layers
+ * @returns filter with the merged domain
+ */
+export function mergeFilterDomainWithTileStats<F extends Filter>(
+  filter: F,
+  datasets: Datasets,
+  layers: Layer[]
+): F {
+  if (!isTileStatsFilter(filter)) {
+    return filter;
+  }
+  const [domain0, domain1] = filter.domain as [number, number];
+  let [min, max] = [domain0, domain1];
+
+  filter.dataId.forEach((_, datasetIdx) => {
+    const tileLayerAndField = getTileLayerAndField(filter, datasets, layers, datasetIdx);
+    const extent = tileLayerAndField?.layer.getTileFieldExtent(tileLayerAndField.field);
+    if (extent) {
+      min = Number.isFinite(min) ? Math.min(min, extent[0]) : extent[0];
+      max = Number.isFinite(max) ? Math.max(max, extent[1]) : extent[1];
+    }
+  });
+
+  if (min === domain0 && max === domain1) {
+    return filter;
+  }
+
+  // keep the filter value covering the whole domain when it did before
+  const [value0, value1] = filter.value as [number, number];
+  return {
+    ...filter,
+    domain: [min, max],
+    value: [
+      Number.isFinite(value0) && value0 > domain0 ? value0 : min,
+      Number.isFinite(value1) && value1 < domain1 ? value1 : max
+    ]
+  } as F;
+}
+
+/**
+ * Plot range and time range filters on tiled datasets with histograms of the tiles loaded in the viewport.
+ * Tiled datasets don't hold any row, so the default filter plots are empty.
+ * @param filter
+ * @param datasets
+ * @param layers
+ * @returns filter with updated `bins` or `timeBins`
+ */
+export function updateFilterPlotWithTileStats<F extends Filter>(
+  filter: F,
+  datasets: Datasets,
+  layers: Layer[]
+): F {
+  if (!isTileStatsFilter(filter)) {
+    return filter;
+  }
+  const thresholds = getFilterBinThresholds(filter);
+  if (!thresholds) {
+    return filter;
+  }
+
+  let newFilter: TileStatsFilter = filter;
+  filter.dataId.forEach((dataId, datasetIdx) => {
+    const tileLayerAndField = getTileLayerAndField(filter, datasets, layers, datasetIdx);
+    if (!tileLayerAndField) {
+      return;
+    }
+    const bins = tileLayerAndField.layer.getTileFieldHistogram(tileLayerAndField.field, thresholds);
+
+    if (newFilter.type === FILTER_TYPES.timeRange) {
+      const timeFilter = newFilter as TimeRangeFilter;
+      const {interval} = timeFilter.plotType;
+      if (!isEqual(timeFilter.timeBins?.[dataId]?.[interval], bins)) {
+        newFilter = {
+          ...timeFilter,
+          timeBins: {
+            ...timeFilter.timeBins,
+            [dataId]: {...timeFilter.timeBins?.[dataId], [interval]: bins}
+          }
+        };
+      }
+    } else {
+      const rangeFilter = newFilter as RangeFilter;
+      if (!isEqual(rangeFilter.bins?.[dataId], bins)) {
+        newFilter = {...rangeFilter, bins: {...rangeFilter.bins, [dataId]: bins}};
+      }
+    }
+  });
+
+  return newFilter as F;
+}
@@ -8,11 +8,15 @@ import {
   DELETE_DATA_ID,
   EXPORT_DATA_TYPE,
   EXPORT_HTML_MAP_MODES,
+  EXPORT_IMG_FORMATS,
   EXPORT_IMG_RATIOS,
   EXPORT_MAP_FORMATS,
+  EXPORT_VIDEO_FORMATS,
+  EXPORT_VIDEO_SOURCES,
   RESOLUTIONS,
   MAP_CONTROLS,
-  ExportImage
+  ExportImage,
+  ExportVideo
 } from '@kepler.gl/constants';
 import {LOCALE_CODES} from '@kepler.gl/localization';
 import {createNotification, errorNotification, calculateExportImageSize} from '@kepler.gl/utils';
@@ -119,6 +123,7 @@ export const DEFAULT_MAP_CONTROLS: MapControls = (
  * Default image export config
  * @memberof uiStateUpdaters
  * @constant
+ * @property format Default: `'PNG'`,
  * @property ratio Default: `'SCREEN'`,
  * @property resolution Default: `'ONE_X'`,
  * @property legend Default: `false`,
@@ -133,6 +138,7 @@ export const DEFAULT_MAP_CONTROLS: MapControls = (
  */
 export const DEFAULT_EXPORT_IMAGE: ExportImage = {
   // user options
+  format: EXPORT_IMG_FORMATS.PNG,
   ratio: EXPORT_IMG_RATIOS.SCREEN,
   resolution: RESOLUTIONS.ONE_X,
   legend: false,
@@ -157,6 +163,45 @@ export const DEFAULT_EXPORT_IMAGE: ExportImage = {
   escapeXhtmlForWebpack: true
 };
 
+/**
+ * Default video export config
+ * @memberof uiStateUpdaters
+ * @constant
+ * @property format Default: `'WEBM'`,
+ * @property source Default: `'FILTER'`,
+ * @property filterId Default: `null`,
+ * @property ratio Default: `'SCREEN'`,
+ * @property resolution Default: `'ONE_X'`,
+ * @property frameRate Default: `30`,
+ * @property duration Default: `5`,
+ * @property imageSize Default: {scale: 1, imageW: 0, imageH: 0},
+ * @property exporting Default: `false`
+ * @property progress Default: `0`
+ * @property error Default: `false`
+ * @public
+ */
+export const DEFAULT_EXPORT_VIDEO: ExportVideo = {
+  // user options
+  format: EXPORT_VIDEO_FORMATS.WEBM,
+  source: EXPORT_VIDEO_SOURCES.FILTER,
+  filterId: null,
+  ratio: EXPORT_IMG_RATIOS.SCREEN,
+  resolution: RESOLUTIONS.ONE_X,
+  frameRate: 30,
+  duration: 5,
+  mapH: 0,
+  mapW: 0,
+  imageSize: {
+    scale: 1,
+    imageW: 0,
+    imageH: 0
+  },
+  // exporting: used to attach video-plot-container to dom
+  exporting: false,
+  progress: 0,
+  error: false
+};
+
 export const DEFAULT_LOAD_FILES = {
   fileLoading: false
 };
@@ -227,6 +272,7 @@ export const DEFAULT_EXPORT_MAP: ExportMap = {
  * @property datasetKeyToRemove Default: `null`
  * @property visibleDropdown Default: `null`
  * @property exportImage Default: [`DEFAULT_EXPORT_IMAGE`](#default_export_image)
+ * @property exportVideo Default: [`DEFAULT_EXPORT_VIDEO`](#default_export_video)
  * @property exportData Default: [`DEFAULT_EXPORT_DATA`](#default_export_data)
  * @property exportMap Default: [`DEFAULT_EXPORT_MAP`](#default_export_map)
  * @property mapControls Default: [`DEFAULT_MAP_CONTROLS`](#default_map_controls)
@@ -244,6 +290,8 @@ export const INITIAL_UI_STATE: UiState = {
   visibleDropdown: null,
   // export image modal ui
   exportImage: DEFAULT_EXPORT_IMAGE,
+  // export video modal ui
+  exportVideo: DEFAULT_EXPORT_VIDEO,
   // export data modal ui
   exportData: DEFAULT_EXPORT_DATA,
   // html export
@@ -583,6 +631,46 @@ export const cleanupExportImageUpdater = (state: UiState): UiState => ({
   }
 });
 
+/**
+ * Update `exportVideo` settings, and recalculate output video size
+ * @memberof uiStateUpdaters
+ * @param state `uiState`
+ * @param action
+ * @param action.payload new export video settings
+ * @returns nextState
+ * @public
+ */
+export const setExportVideoSettingUpdater = (
+  state: UiState,
+  {payload: newSetting}: UIStateActions.SetExportVideoSettingUpdaterAction
+): UiState => {
+  const updated = {...state.exportVideo, ...newSetting};
+  const size = calculateExportImageSize(updated);
+
+  return {
+    ...state,
+    exportVideo: {
+      ...updated,
+      imageSize: size ? {...size, scale: size.scale || 1} : state.exportVideo.imageSize
+    }
+  };
+};
+
+/**
+ * Stop video exporting and reset progress
+ * @memberof uiStateUpdaters
+ * @public
+ */
+export const cleanupExportVideoUpdater = (state: UiState): UiState => ({
+  ...state,
+  exportVideo: {
+    ...state.exportVideo,
+    exporting: false,
+    progress: 0,
+    error: false
+  }
+});
+
 /**
  * Start image exporting flow
  * @memberof uiStateUpdaters
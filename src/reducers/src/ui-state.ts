@@ -27,6 +27,8 @@ const actionHandler = {
   [ActionTypes.SET_EXPORT_IMAGE_DATA_URI]: uiStateUpdaters.setExportImageDataUriUpdater,
   [ActionTypes.SET_EXPORT_IMAGE_ERROR]: uiStateUpdaters.setExportImageErrorUpdater,
   [ActionTypes.CLEANUP_EXPORT_IMAGE]: uiStateUpdaters.cleanupExportImageUpdater,
+  [ActionTypes.SET_EXPORT_VIDEO_SETTING]: uiStateUpdaters.setExportVideoSettingUpdater,
+  [ActionTypes.CLEANUP_EXPORT_VIDEO]: uiStateUpdaters.cleanupExportVideoUpdater,
   [ActionTypes.START_EXPORTING_IMAGE]: uiStateUpdaters.startExportingImageUpdater,
 
   [ActionTypes.SET_EXPORT_SELECTED_DATASET]: uiStateUpdaters.setExportSelectedDatasetUpdater,
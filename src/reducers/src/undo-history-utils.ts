@@ -0,0 +1,184 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {ActionTypes} from '@kepler.gl/actions';
+import {Layer} from '@kepler.gl/layers';
+import {UndoHistory, VisState, VisStateSnapshot} from '@kepler.gl/schemas';
+
+/** Max number of config changes that can be undone */
+export const MAX_UNDO_HISTORY = 50;
+
+export const INITIAL_UNDO_HISTORY: UndoHistory = {
+  past: [],
+  future: [],
+  groupKey: null
+};
+
+/**
+ * Config changes tracked by undo / redo. Hover, click and mouse events, animation ticks
+ * and data loading are not tracked
+ */
+export const UNDOABLE_ACTION_TYPES: string[] = [
+  ActionTypes.ADD_LAYER,
+  ActionTypes.DUPLICATE_LAYER,
+  ActionTypes.REMOVE_LAYER,
+  ActionTypes.REORDER_LAYER,
+  ActionTypes.LAYER_CONFIG_CHANGE,
+  ActionTypes.LAYER_VIS_CONFIG_CHANGE,
+  ActionTypes.LAYER_VISUAL_CHANNEL_CHANGE,
+  ActionTypes.LAYER_TYPE_CHANGE,
+  ActionTypes.LAYER_TEXT_LABEL_CHANGE,
+  ActionTypes.LAYER_TOGGLE_VISIBILITY,
+  ActionTypes.APPLY_LAYER_CONFIG,
+  ActionTypes.ADD_FILTER,
+  ActionTypes.REMOVE_FILTER,
+  ActionTypes.SET_FILTER,
+  ActionTypes.SET_FILTER_PLOT,
+  ActionTypes.SET_FILTER_VIEW,
+  ActionTypes.TOGGLE_FILTER_FEATURE,
+  ActionTypes.CREATE_OR_UPDATE_FILTER,
+  ActionTypes.INTERACTION_CONFIG_CHANGE,
+  ActionTypes.UPDATE_LAYER_BLENDING,
+  ActionTypes.UPDATE_OVERLAY_BLENDING
+];
+
+/**
+ * Actions replacing datasets or the entire config, undo history is cleared after them
+ */
+export const UNDO_HISTORY_RESET_ACTION_TYPES: string[] = [
+  ActionTypes.ADD_DATA_TO_MAP,
+  ActionTypes.UPDATE_VIS_DATA,
+  ActionTypes.REMOVE_DATASET,
+  ActionTypes.REPLACE_DATA_IN_MAP,
+  ActionTypes.RECEIVE_MAP_CONFIG,
+  ActionTypes.RESET_MAP_CONFIG,
+  ActionTypes.LOAD_FILES_SUCCESS
+];
+
+export function isUndoableAction(action: {type: string}): boolean {
+  return UNDOABLE_ACTION_TYPES.includes(action.type);
+}
+
+/**
+ * Consecutive actions with the same group key are undone in one step,
+ * e.g. all updates dispatched while dragging a slider
+ * @returns group key, null if the action should never be grouped
+ */
+export function getUndoGroupKey(action: any): string | null {
+  switch (action.type) {
+    case ActionTypes.LAYER_CONFIG_CHANGE:
+      return [action.type, action.oldLayer?.id, ...Object.keys(action.newConfig || {})].join(':');
+    case ActionTypes.LAYER_VIS_CONFIG_CHANGE:
+      return [action.type, action.oldLayer?.id, ...Object.keys(action.newVisConfig || {})].join(
+        ':'
+      );
+    case ActionTypes.LAYER_TEXT_LABEL_CHANGE:
+      return [action.type, action.oldLayer?.id, action.idx, action.prop].join(':');
+    case ActionTypes.SET_FILTER:
+      return [action.type, action.idx, action.valueIndex, ...[].concat(action.prop)].join(':');
+    default:
+      return null;
+  }
+}
+
+/**
+ * Layers are mutated by layer updaters, copy instances and config so the snapshot is not
+ * affected by later changes
+ */
+function copyLayer(layer: Layer): Layer {
+  const copy = Object.assign(Object.create(Object.getPrototypeOf(layer)), layer);
+  copy.config = {...layer.config};
+  return copy;
+}
+
+/**
+ * Take a snapshot of visState config that can be restored by undo / redo.
+ * Must be called before the state is reduced
+ */
+export function takeVisStateSnapshot(visState: VisState): VisStateSnapshot {
+  return {
+    layers: visState.layers.map(copyLayer),
+    layerData: visState.layerData,
+    layerOrder: visState.layerOrder,
+    filters: visState.filters,
+    filterGroups: visState.filterGroups,
+    datasets: visState.datasets,
+    interactionConfig: visState.interactionConfig,
+    layerBlending: visState.layerBlending,
+    overlayBlending: visState.overlayBlending,
+    splitMaps: visState.splitMaps,
+    animationConfig: visState.animationConfig
+  };
+}
+
+/**
+ * Apply a snapshot to visState, hover and click info are cleared since they may point to
+ * layers that no longer exist
+ */
+export function restoreVisStateSnapshot(visState: VisState, snapshot: VisStateSnapshot): VisState {
+  return {
+    ...visState,
+    ...snapshot,
+    hoverInfo: undefined,
+    clicked: undefined
+  };
+}
+
+function isSameDatasetIds(a: VisState, b: VisState): boolean {
+  const aIds = Object.keys(a.datasets);
+  const bIds = Object.keys(b.datasets);
+  return aIds.length === bIds.length && aIds.every(id => id in b.datasets);
+}
+
+/**
+ * Update undo history of `nextVisState` after `action` is reduced
+ * @param prevVisState - visState before the action
+ * @param nextVisState - visState after the action
+ * @param action
+ * @param snapshot - snapshot of `prevVisState` taken before reducing an undoable action
+ * @returns visState with updated undo history
+ */
+export function updateUndoHistory(
+  prevVisState: VisState | undefined,
+  nextVisState: VisState,
+  action: {type: string},
+  snapshot: VisStateSnapshot | null
+): VisState {
+  const history = nextVisState.undoHistory || INITIAL_UNDO_HISTORY;
+
+  if (
+    prevVisState &&
+    (history.past.length || history.future.length) &&
+    (UNDO_HISTORY_RESET_ACTION_TYPES.includes(action.type) ||
+      !isSameDatasetIds(prevVisState, nextVisState))
+  ) {
+    return {...nextVisState, undoHistory: INITIAL_UNDO_HISTORY};
+  }
+
+  if (!snapshot || !prevVisState || nextVisState === prevVisState) {
+    return nextVisState;
+  }
+
+  const groupKey = getUndoGroupKey(action);
+  if (groupKey && groupKey === history.groupKey && history.past.length) {
+    // keep the snapshot taken before the first action of the group
+    return {...nextVisState, undoHistory: {...history, future: []}};
+  }
+
+  return {
+    ...nextVisState,
+    undoHistory: {
+      past: [...history.past, snapshot].slice(-MAX_UNDO_HISTORY),
+      future: [],
+      groupKey
+    }
+  };
+}
+
+export function canUndo(visState: VisState): boolean {
+  return Boolean(visState.undoHistory?.past.length);
+}
+
+export function canRedo(visState: VisState): boolean {
+  return Boolean(visState.undoHistory?.future.length);
+}
@@ -5,6 +5,7 @@ import uniq from 'lodash/uniq';
 import pick from 'lodash/pick';
 import flattenDeep from 'lodash/flattenDeep';
 import deepmerge from 'deepmerge';
+import {console as Console} from 'global/window';
 import {
   arrayInsert,
   getInitialMapLayersForSplitMap,
@@ -16,8 +17,13 @@ import {
 
 import {Layer} from '@kepler.gl/layers';
 import {createEffect} from '@kepler.gl/effects';
-import {notNullorUndefined} from '@kepler.gl/common-utils';
-import {AGGREGATION_TYPES, LAYER_BLENDINGS, OVERLAY_BLENDINGS} from '@kepler.gl/constants';
+import {generateHashId, notNullorUndefined} from '@kepler.gl/common-utils';
+import {
+  AGGREGATION_TYPES,
+  FILTER_GROUP_OPERATORS,
+  LAYER_BLENDINGS,
+  OVERLAY_BLENDINGS
+} from '@kepler.gl/constants';
 import {CURRENT_VERSION, VisState, VisStateMergers, KeplerGLSchemaClass} from '@kepler.gl/schemas';
 
 import {
@@ -33,12 +39,20 @@ import {
   LayerColumns,
   LayerColumn,
   ParsedFilter,
+  DerivedField,
   NestedPartial,
   SavedAnimationConfig
 } from '@kepler.gl/types';
-import {KeplerTable, Datasets, assignGpuChannels, resetFilterGpuMode} from '@kepler.gl/table';
+import {
+  KeplerTable,
+  Datasets,
+  addDerivedField,
+  assignGpuChannels,
+  resetFilterGpuMode
+} from '@kepler.gl/table';
 
 import {getLayerOrderFromLayers} from './layer-utils';
+import {updateTableJoinFields} from './table-join-utils';
 
 /**
  * Merge loaded filters with current state, if no fields or data are loaded
@@ -75,7 +89,8 @@ export function mergeFilters<S extends VisState>(
     datasetsToFilter,
     updatedDatasets,
     updatedFilters,
-    state.layers
+    state.layers,
+    state.filterGroups
   );
 
   return {
@@ -87,6 +102,70 @@ export function mergeFilters<S extends VisState>(
   };
 }
 
+/**
+ * Merge loaded filter groups with current state. Filter groups don't depend on data,
+ * they are merged before filters so loaded filters can be composed right away
+ */
+export function mergeFilterGroups<S extends VisState>(
+  state: S,
+  filterGroupsToMerge: NonNullable<ParsedConfig['visState']>['filterGroups']
+): S {
+  if (!Array.isArray(filterGroupsToMerge) || !filterGroupsToMerge.length) {
+    return state;
+  }
+
+  const filterGroups = state.filterGroups || [];
+  const existingIds = filterGroups.map(g => g.id);
+  const newFilterGroups = filterGroupsToMerge.filter(
+    g => g?.id && FILTER_GROUP_OPERATORS[g.operator] && !existingIds.includes(g.id)
+  );
+
+  return {
+    ...state,
+    filterGroups: [...filterGroups, ...newFilterGroups]
+  };
+}
+
+/**
+ * Merge loaded derived fields, compute the field columns of datasets that are loaded,
+ * save the rest for later. Derived fields are merged before layers and filters
+ * so they can be used by them
+ */
+export function mergeDerivedFields<S extends VisState>(
+  state: S,
+  derivedFieldsToMerge: NonNullable<ParsedConfig['visState']>['derivedFields']
+): S {
+  if (!Array.isArray(derivedFieldsToMerge) || !derivedFieldsToMerge.length) {
+    return state;
+  }
+
+  const unmerged: DerivedField[] = [];
+  const merged: DerivedField[] = [];
+  const datasets = {...state.datasets};
+
+  derivedFieldsToMerge.forEach(derivedField => {
+    const {dataId, name, expression} = derivedField;
+    const dataset = datasets[dataId];
+    if (!dataset || state.isMergingDatasets[dataId]) {
+      unmerged.push(derivedField);
+      return;
+    }
+    try {
+      datasets[dataId] = addDerivedField(dataset, {name, expression});
+      merged.push({...derivedField, id: derivedField.id || generateHashId(6)});
+    } catch (error) {
+      Console.warn(`Failed to merge derived field ${name}: ${(error as Error).message}`);
+    }
+  });
+
+  return {
+    ...state,
+    datasets,
+    derivedFields: [...(state.derivedFields || []), ...merged],
+    derivedFieldToBeMerged: [...(state.derivedFieldToBeMerged || []), ...unmerged]
+  };
+}
+
 // replace dataId in saved Filter
 export function replaceFilterDatasetIds(
   savedFilter: Filter[],
@@ -276,8 +355,14 @@ export function mergeLayers<S extends VisState>(
     }
   });
 
-  const {validated: mergedLayer, failed} = validateLayersByDatasets(
+  // add fields of joined tables, so visual channels using them can be validated
+  const datasets = updateTableJoinFields(
     state.datasets,
+    [...state.layers, ...toMerge],
+    state.filters
+  );
+  const {validated: mergedLayer, failed} = validateLayersByDatasets(
+    datasets,
     state.layerClasses,
     toMerge
   );
@@ -292,6 +377,7 @@ export function mergeLayers<S extends VisState>(
 
   return {
     ...state,
+    datasets,
     layers: newLayers,
     layerOrder: newLayerOrder,
     preserveLayerOrder,
@@ -822,17 +908,24 @@ export function validateSavedVisualChannels(
   savedLayer: ParsedLayer,
   options: {throwOnError?: boolean} = {}
 ): null | Layer {
-  Object.values(newLayer.visualChannels).forEach(({field, scale, key}) => {
+  Object.values(newLayer.visualChannels).forEach(({field, scale, key, bivariate}) => {
     let foundField;
+    let foundField2;
     if (savedLayer.config) {
       if (savedLayer.config[field]) {
         foundField = fields.find(
           fd => savedLayer.config && fd.name === savedLayer.config[field].name
         );
       }
+      if (bivariate && savedLayer.config[bivariate.field]) {
+        foundField2 = fields.find(
+          fd => savedLayer.config && fd.name === savedLayer.config[bivariate.field].name
+        );
+      }
 
       const foundChannel = {
         ...(foundField ? {[field]: foundField} : {}),
+        ...(foundField2 && bivariate ? {[bivariate.field]: foundField2} : {}),
         ...(savedLayer.config[scale] ? {[scale]: savedLayer.config[scale]} : {})
       };
       if (Object.keys(foundChannel).length) {
@@ -951,7 +1044,10 @@ export function validateLayerWithData(
     isVisible: savedLayer.config.isVisible,
     hidden: savedLayer.config.hidden,
     columnMode: savedLayer.config.columnMode,
-    highlightColor: savedLayer.config.highlightColor
+    highlightColor: savedLayer.config.highlightColor,
+    blendMode: savedLayer.config.blendMode,
+    maskLayerId: savedLayer.config.maskLayerId,
+    tableJoin: savedLayer.config.tableJoin
   });
 
   const columnConfig = _getColumnConfigForValidation(newLayer);
@@ -1102,12 +1198,18 @@ function getValueWithHighestOccurrence<T>(arr: T[]): T | null {
 }
 
 export const VIS_STATE_MERGERS: VisStateMergers<any> = [
+  {
+    merge: mergeDerivedFields,
+    prop: 'derivedFields',
+    toMergeProp: 'derivedFieldToBeMerged'
+  },
   {
     merge: mergeLayers,
     prop: 'layers',
     toMergeProp: 'layerToBeMerged',
     preserveOrder: 'preserveLayerOrder'
   },
+  {merge: mergeFilterGroups, prop: 'filterGroups'},
   {
     merge: mergeFilters,
     prop: 'filters',
@@ -4,8 +4,28 @@
 import {createSelector} from 'reselect';
 
 // NOTE: default formats must match file-handler-test.js
-const DEFAULT_FILE_EXTENSIONS = ['csv', 'json', 'geojson', 'arrow', 'parquet'];
-const DEFAULT_FILE_FORMATS = ['CSV', 'Json', 'GeoJSON', 'Arrow', 'Parquet'];
+const DEFAULT_FILE_EXTENSIONS = [
+  'csv',
+  'json',
+  'geojson',
+  'arrow',
+  'parquet',
+  'zip',
+  'shp',
+  'gpkg',
+  'tif',
+  'tiff'
+];
+const DEFAULT_FILE_FORMATS = [
+  'CSV',
+  'Json',
+  'GeoJSON',
+  'Arrow',
+  'Parquet',
+  'Shapefile (zip)',
+  'GeoPackage',
+  'GeoTIFF (COG)'
+];
 
 export const getFileFormatNames = createSelector(
   state => state.loaders,
@@ -62,6 +62,7 @@ import {
   filterDatasetCPU,
   generatePolygonFilter,
   getDefaultFilter,
+  getDefaultFilterGroup,
   getFilterIdInFeature,
   getTimeWidgetTitleFormatter,
   isInRange,
@@ -78,6 +79,7 @@ import {
   getApplicationConfig
 } from '@kepler.gl/utils';
 import {generateHashId, toArray} from '@kepler.gl/common-utils';
+import {processGeojson} from '@kepler.gl/processors';
 // Mergers
 import {
   ANIMATION_WINDOW,
@@ -133,6 +135,8 @@ import {Loader} from '@loaders.gl/loader-utils';
 
 import {
   Datasets,
+  addDerivedField,
+  removeDerivedField,
   assignGpuChannel,
   copyTableAndUpdate,
   createNewDataEntry,
@@ -141,7 +145,15 @@ import {
   sortDatasetByColumn
 } from '@kepler.gl/table';
 import {findFieldsToShow} from './interaction-utils';
+import {spatialJoinDatasets} from './spatial-join-utils';
+import {mergeFilterDomainWithTileStats, updateFilterPlotWithTileStats} from './tile-filter-utils';
+import {updateTableJoinFields} from './table-join-utils';
 import {calculateLayerData, findDefaultLayer, getLayerOrderFromLayers} from './layer-utils';
+import {
+  INITIAL_UNDO_HISTORY,
+  restoreVisStateSnapshot,
+  takeVisStateSnapshot
+} from './undo-history-utils';
 import {getPropValueToMerger, hasPropsToMerge} from './merger-handler';
 import {mergeDatasetsByOrder} from './vis-state-merger';
 import {
@@ -281,8 +293,13 @@ export const INITIAL_VIS_STATE: VisState = {
 
   // filters
   filters: [],
+  filterGroups: [],
   filterToBeMerged: [],
 
+  // fields computed from expressions
+  derivedFields: [],
+  derivedFieldToBeMerged: [],
+
   // a collection of multiple dataset
   datasets: {},
   editingDataset: undefined,
@@ -334,7 +351,10 @@ export const INITIAL_VIS_STATE: VisState = {
   mergers: VIS_STATE_MERGERS,
 
   // kepler schemas
-  schema: KeplerGLSchema
+  schema: KeplerGLSchema,
+
+  // config changes that can be undone
+  undoHistory: INITIAL_UNDO_HISTORY
 };
 
 export const ACTION_TASK_FIT_BOUNDS = Task.fromCallback(
@@ -575,11 +595,30 @@ export function layerConfigChangeUpdater(
     newState = updateAnimationDomain(newState);
   }
 
-  return updateStateWithLayerAndData(newState, {
+  newState = updateStateWithLayerAndData(newState, {
     layer: newLayer,
     layerData,
     idx
   });
+
+  return 'tableJoin' in action.newConfig ? updateTableJoinFieldsUpdater(newState) : newState;
+}
+
+/**
+ * Update the fields joined to tiled datasets after the table joins of the layers changed,
+ * and recalculate the layers of updated datasets
+ * @param state
+ * @returns nextState
+ */
+function updateTableJoinFieldsUpdater<S extends VisState>(state: S): S {
+  const datasets = updateTableJoinFields(state.datasets, state.layers, state.filters);
+  const updatedDataIds = Object.keys(datasets).filter(
+    dataId => datasets[dataId] !== state.datasets[dataId]
+  );
+
+  return updatedDataIds.length
+    ? updateAllLayerDomainData({...state, datasets}, updatedDataIds)
+    : state;
 }
 
 export function layerAnimationChangeUpdater<S extends VisState>(state: S, action): S {
@@ -1229,6 +1268,11 @@ export function setFilterUpdater<S extends VisState>(
     datasetIdsToFilter = datasetIdsToFilter.concat(res.datasetIdsToFilter);
   }
 
+  if (props.includes('name')) {
+    // tileset metadata may not cover values of the tiles already loaded
+    newFilter = mergeFilterDomainWithTileStats(newFilter, newState.datasets, newState.layers);
+  }
+
   const enlargedFilter = state.filters.find(f => f.view === FILTER_VIEW_TYPES.enlarged);
 
   if (enlargedFilter && enlargedFilter.id !== newFilter.id) {
@@ -1244,13 +1288,18 @@ export function setFilterUpdater<S extends VisState>(
     uniq(datasetIdsToFilter),
     newState.datasets,
     newState.filters,
-    newState.layers
+    newState.layers,
+    newState.filterGroups
   );
 
   newState = set(['datasets'], filteredDatasets, newState);
 
   // need to update filterPlot after filter Dataset for plot to update on filtered result
-  const filterWithPLot = updateFilterPlot(newState.datasets, newState.filters[idx]);
+  const filterWithPLot = updateFilterPlotWithTileStats(
+    updateFilterPlot(newState.datasets, newState.filters[idx]),
+    newState.datasets,
+    newState.layers
+  );
 
   newState = set(['filters', idx], filterWithPLot, newState);
 
@@ -1401,6 +1450,14 @@ function _updateFilterProp(state, filter, prop, value, valueIndex, datasetIds?)
       break;
     }
 
+    case FILTER_UPDATER_PROPS.groupId: {
+      // only assign filter to an existing group, or remove it from its group
+      const groupId = state.filterGroups.find(g => g.id === value) ? value : null;
+      filter = set(['groupId'], groupId, filter);
+      datasetIdsToFilter = [...filter.dataId];
+      break;
+    }
+
     default:
       filter = set([prop], value, filter);
       datasetIdsToFilter = [...filter.dataId];
@@ -1436,7 +1493,11 @@ export const setFilterPlotUpdater = (
     }
   }
 
-  newFilter = updateFilterPlot(state.datasets, newFilter);
+  newFilter = updateFilterPlotWithTileStats(
+    updateFilterPlot(state.datasets, newFilter),
+    state.datasets,
+    state.layers
+  );
 
   return {
     ...state,
@@ -1726,7 +1787,13 @@ export const removeFilterUpdater = (
     ...state.filters.slice(idx + 1, state.filters.length)
   ];
 
-  const filteredDatasets = applyFiltersToDatasets(dataId, state.datasets, newFilters, state.layers);
+  const filteredDatasets = applyFiltersToDatasets(
+    dataId,
+    state.datasets,
+    newFilters,
+    state.layers,
+    state.filterGroups
+  );
   const newEditor =
     getFilterIdInFeature(state.editor.selectedFeature) === id
       ? {
@@ -1742,6 +1809,110 @@ export const removeFilterUpdater = (
   return updateAllLayerDomainData(newState, dataId, undefined);
 };
 
+function _getGroupedFilterDataIds(filters: Filter[]): string[] {
+  return uniq(filters.filter(f => f.groupId).flatMap(f => f.dataId));
+}
+
+/**
+ * Re-apply filters to datasets after filter groups have changed
+ */
+function _applyFilterGroupsUpdater(state: VisState, newState: VisState): VisState {
+  // datasets with filters that were or are in a group need to be re-filtered
+  const dataIds = uniq([
+    ..._getGroupedFilterDataIds(state.filters),
+    ..._getGroupedFilterDataIds(newState.filters)
+  ]);
+
+  if (!dataIds.length) {
+    return newState;
+  }
+
+  const filteredDatasets = applyFiltersToDatasets(
+    dataIds,
+    newState.datasets,
+    newState.filters,
+    newState.layers,
+    newState.filterGroups
+  );
+
+  return updateAllLayerDomainData(
+    set(['datasets'], filteredDatasets, newState),
+    dataIds,
+    undefined
+  );
+}
+
+/**
+ * Add a new filter group
+ * @memberof visStateUpdaters
+ * @public
+ */
+export const addFilterGroupUpdater = (
+  state: VisState,
+  action: VisStateActions.AddFilterGroupUpdaterAction
+): VisState => {
+  const {operator, parentId = null, id} = action;
+  if (parentId && !state.filterGroups.find(g => g.id === parentId)) {
+    Console.warn(`filter group ${parentId} does not exist`);
+    return state;
+  }
+
+  return {
+    ...state,
+    filterGroups: [...state.filterGroups, getDefaultFilterGroup({id, operator, parentId})]
+  };
+};
+
+/**
+ * Remove a filter group, filters and groups inside it are moved to its parent group
+ * @memberof visStateUpdaters
+ * @public
+ */
+export const removeFilterGroupUpdater = (
+  state: VisState,
+  action: VisStateActions.RemoveFilterGroupUpdaterAction
+): VisState => {
+  const {id} = action;
+  const filterGroup = state.filterGroups.find(g => g.id === id);
+  if (!filterGroup) {
+    return state;
+  }
+  const {parentId} = filterGroup;
+
+  const newState = {
+    ...state,
+    filterGroups: state.filterGroups
+      .filter(g => g.id !== id)
+      .map(g => (g.parentId === id ? {...g, parentId} : g)),
+    filters: state.filters.map(f => (f.groupId === id ? {...f, groupId: parentId} : f))
+  };
+
+  return _applyFilterGroupsUpdater(state, newState);
+};
+
+/**
+ * Change the boolean operator of a filter group
+ * @memberof visStateUpdaters
+ * @public
+ */
+export const setFilterGroupOperatorUpdater = (
+  state: VisState,
+  action: VisStateActions.SetFilterGroupOperatorUpdaterAction
+): VisState => {
+  const {id, operator} = action;
+  const filterGroup = state.filterGroups.find(g => g.id === id);
+  if (!filterGroup || filterGroup.operator === operator) {
+    return state;
+  }
+
+  const newState = {
+    ...state,
+    filterGroups: state.filterGroups.map(g => (g.id === id ? {...g, operator} : g))
+  };
+
+  return _applyFilterGroupsUpdater(state, newState);
+};
+
 /**
  * Add a new layer
  * @memberof visStateUpdaters
@@ -1816,7 +1987,12 @@ export function removeLayerUpdater<T extends VisState>(
   const layerToRemove = layers[idx];
   const newState = {
     ...state,
-    layers: filterOutById(layerToRemove.id)(layers),
+    layers: filterOutById<Layer>(layerToRemove.id)(layers).map(layer =>
+      // layers masked by the removed layer are no longer masked
+      layer.config.maskLayerId === layerToRemove.id
+        ? layer.updateLayerConfig({maskLayerId: null})
+        : layer
+    ),
     layerData: removeElementAtIndex(idx)(layerData),
     layerOrder: layerOrder.filter(layerId => layerId !== layerToRemove.id),
     clicked: layerToRemove.isLayerHovered(clicked) ? undefined : clicked,
@@ -1825,7 +2001,9 @@ export function removeLayerUpdater<T extends VisState>(
     // TODO: update filters, create helper to remove layer form filter (remove layerid and dataid) if mapped
   };
 
-  return updateAnimationDomain(newState);
+  return updateAnimationDomain(
+    layerToRemove.config.tableJoin ? updateTableJoinFieldsUpdater(newState) : newState
+  );
 }
 
 /**
@@ -1896,6 +2074,37 @@ export const duplicateLayerUpdater = (
   return updateAnimationDomain(nextState);
 };
 
+/**
+ * Add geometries generated by a layer as a new dataset, e.g. contour bands
+ * @memberof visStateUpdaters
+ * @public
+ */
+export const createDatasetFromLayerUpdater = (
+  state: VisState,
+  {id}: VisStateActions.CreateDatasetFromLayerUpdaterAction
+): VisState => {
+  const idx = state.layers.findIndex(l => l.id === id);
+  const layer = state.layers[idx];
+  const featureCollection = layer?.getExportFeatureCollection(state.layerData[idx]);
+  if (!featureCollection?.features.length) {
+    Console.warn(`layer ${id} has no geometries to create a dataset from`);
+    return state;
+  }
+
+  const data = processGeojson(featureCollection);
+  if (!data) {
+    return state;
+  }
+
+  return updateVisDataUpdater(state, {
+    datasets: {
+      info: {id: generateHashId(6), label: `${layer.config.label} (${layer.type})`},
+      data
+    },
+    options: {centerMap: false}
+  });
+};
+
 /**
  * Add a new effect
  * @memberof visStateUpdaters
@@ -2036,6 +2245,18 @@ export function removeDatasetUpdater<T extends VisState>(
     datasets: newDatasets
   });
 
+  // remove table joins to the removed dataset
+  if (newState.layers.some(l => l.config.tableJoin?.dataId === datasetKey)) {
+    newState = updateTableJoinFieldsUpdater({
+      ...newState,
+      layers: newState.layers.map(layer =>
+        layer.config.tableJoin?.dataId === datasetKey
+          ? layer.updateLayerConfig({tableJoin: null})
+          : layer
+      )
+    });
+  }
+
   // update filters
   const filters: Filter[] = [];
   for (const filter of newState.filters) {
@@ -2049,7 +2270,11 @@ export function removeDatasetUpdater<T extends VisState>(
     }
   }
 
-  newState = {...newState, filters};
+  newState = {
+    ...newState,
+    filters,
+    derivedFields: (newState.derivedFields || []).filter(d => d.dataId !== datasetKey)
+  };
 
   return removeDatasetFromInteractionConfig(newState, {dataId: datasetKey});
 }
@@ -3427,6 +3652,226 @@ export function setColumnDisplayFormatUpdater(
   return newState;
 }
 
+function _isFieldUsedByLayer(layer: Layer, fieldName: string): boolean {
+  const {columns = {}, textLabel = []} = layer.config;
+  return (
+    Object.values(columns).some(column => column?.value === fieldName) ||
+    Object.values(layer.visualChannels).some(
+      channel => layer.config[channel.field]?.name === fieldName
+    ) ||
+    textLabel.some(tl => tl.field?.name === fieldName)
+  );
+}
+
+/**
+ * Point layer and filter field references to the new field index after fields of a dataset are re-ordered
+ */
+function _updateFieldIndexes(state: VisState, dataId: string): VisState {
+  const {fields} = state.datasets[dataId];
+  const findField = (field: Field | null) =>
+    (field && fields.find(f => f.name === field.name)) || null;
+
+  const layers = state.layers.map(layer => {
+    if (layer.config.dataId !== dataId) {
+      return layer;
+    }
+    const columns = Object.entries(layer.config.columns || {}).reduce(
+      (accu, [key, column]) => ({
+        ...accu,
+        [key]: {...column, fieldIdx: fields.findIndex(f => f.name === column.value)}
+      }),
+      {}
+    );
+    const channelFields = Object.values(layer.visualChannels).reduce(
+      (accu, {field}) => ({...accu, [field]: findField(layer.config[field])}),
+      {}
+    );
+    const textLabel = layer.config.textLabel?.map(tl => ({...tl, field: findField(tl.field)}));
+
+    return layer.updateLayerConfig({
+      columns,
+      ...channelFields,
+      ...(textLabel ? {textLabel} : {})
+    });
+  });
+
+  const filters = state.filters.map(filter => {
+    const datasetIdx = filter.dataId.indexOf(dataId);
+    return datasetIdx < 0
+      ? filter
+      : {
+          ...filter,
+          fieldIdx: Object.assign([...filter.fieldIdx], {
+            [datasetIdx]: fields.findIndex(f => f.name === filter.name[datasetIdx])
+          })
+        };
+  });
+
+  return {...state, layers, filters};
+}
+
+/**
+ * Re-apply filters and recalculate layer data of a dataset after its data container has changed
+ */
+function _refreshDatasetUpdater(state: VisState, dataId: string): VisState {
+  const filteredDatasets = applyFiltersToDatasets(
+    [dataId],
+    state.datasets,
+    state.filters,
+    state.layers,
+    state.filterGroups
+  );
+
+  return updateAllLayerDomainData({...state, datasets: filteredDatasets}, dataId, undefined);
+}
+
+/**
+ * Add a field computed from an expression to a dataset.
+ * Shows an error notification if the expression is invalid.
+ * @memberof visStateUpdaters
+ * @public
+ */
+export function addDerivedFieldUpdater(
+  state: VisState,
+  {dataId, name, expression}: VisStateActions.AddDerivedFieldUpdaterAction
+): VisState {
+  const dataset = state.datasets[dataId];
+  if (!dataset) {
+    return state;
+  }
+
+  let newDataset;
+  try {
+    newDataset = addDerivedField(dataset, {name, expression});
+  } catch (error) {
+    return withTask(
+      state,
+      ACTION_TASK_ADD_NOTIFICATION().map(() =>
+        addNotification(
+          errorNotification({
+            message: `Failed to add field ${name}: ${(error as Error).message}`,
+            id: `derived-field-failed-${dataId}`
+          })
+        )
+      )
+    );
+  }
+
+  const newState = {
+    ...state,
+    datasets: {...state.datasets, [dataId]: newDataset},
+    derivedFields: [...state.derivedFields, {id: generateHashId(6), dataId, name, expression}]
+  };
+
+  return _refreshDatasetUpdater(newState, dataId);
+}
+
+/**
+ * Spatial join between a point dataset and a polygon dataset, adds the joined columns
+ * to the point dataset or to the polygon dataset depending on the join type.
+ * Shows an error notification if the datasets can't be joined.
+ * @memberof visStateUpdaters
+ * @public
+ */
+export function spatialJoinUpdater(
+  state: VisState,
+  {pointDataId, polygonDataId, options}: VisStateActions.SpatialJoinUpdaterAction
+): VisState {
+  const pointDataset = state.datasets[pointDataId];
+  const polygonDataset = state.datasets[polygonDataId];
+  if (!pointDataset || !polygonDataset) {
+    return state;
+  }
+
+  let newDataset;
+  try {
+    newDataset = spatialJoinDatasets(pointDataset, polygonDataset, options);
+  } catch (error) {
+    return withTask(
+      state,
+      ACTION_TASK_ADD_NOTIFICATION().map(() =>
+        addNotification(
+          errorNotification({
+            message: `Failed to join ${pointDataset.label} and ${polygonDataset.label}: ${
+              (error as Error).message
+            }`,
+            id: `spatial-join-failed-${pointDataId}-${polygonDataId}`
+          })
+        )
+      )
+    );
+  }
+
+  const newState = {
+    ...state,
+    datasets: {...state.datasets, [newDataset.id]: newDataset}
+  };
+
+  return _refreshDatasetUpdater(newState, newDataset.id);
+}
+
+/**
+ * Remove a derived field from a dataset. Fields used by layers or filters can't be removed.
+ * @memberof visStateUpdaters
+ * @public
+ */
+export function removeDerivedFieldUpdater(
+  state: VisState,
+  {dataId, name}: VisStateActions.RemoveDerivedFieldUpdaterAction
+): VisState {
+  const dataset = state.datasets[dataId];
+  if (!dataset || !state.derivedFields.find(d => d.dataId === dataId && d.name === name)) {
+    return state;
+  }
+
+  const isUsed =
+    state.layers.some(l => l.config.dataId === dataId && _isFieldUsedByLayer(l, name)) ||
+    state.filters.some(f => f.name[f.dataId.indexOf(dataId)] === name);
+
+  if (isUsed) {
+    return withTask(
+      state,
+      ACTION_TASK_ADD_NOTIFICATION().map(() =>
+        addNotification(
+          errorNotification({
+            message: `Field ${name} is used by a layer or a filter and can't be removed`,
+            id: `derived-field-in-use-${dataId}`
+          })
+        )
+      )
+    );
+  }
+
+  const {tooltip} = state.interactionConfig;
+  const fieldsToShow = tooltip.config.fieldsToShow[dataId];
+
+  let newState: VisState = {
+    ...state,
+    datasets: {...state.datasets, [dataId]: removeDerivedField(dataset, name)},
+    derivedFields: state.derivedFields.filter(d => !(d.dataId === dataId && d.name === name)),
+    ...(fieldsToShow
+      ? {
+          interactionConfig: {
+            ...state.interactionConfig,
+            tooltip: {
+              ...tooltip,
+              config: {
+                ...tooltip.config,
+                fieldsToShow: {
+                  ...tooltip.config.fieldsToShow,
+                  [dataId]: fieldsToShow.filter(f => f.name !== name)
+                }
+              }
+            }
+          }
+        }
+      : {})
+  };
+
+  newState = _updateFieldIndexes(newState, dataId);
+  return _refreshDatasetUpdater(newState, dataId);
+}
+
 /**
  * Update editor
  */
@@ -3523,6 +3968,51 @@ export function layerFilteredItemsChangeUpdater<S extends VisState>(
   };
 }
 
+/**
+ * Update domains and histograms of filters on the dataset of a tile layer
+ * with the stats of the tiles loaded in the viewport
+ */
+export function layerTileStatsChangeUpdater<S extends VisState>(
+  state: S,
+  action: VisStateActions.LayerTileStatsChangeAction
+): S {
+  const dataId = action.layer?.config.dataId;
+  if (!dataId) {
+    return state;
+  }
+
+  let datasetIdsToFilter: string[] = [];
+  const filters = state.filters.map(filter => {
+    if (!filter.dataId.includes(dataId)) {
+      return filter;
+    }
+    const newFilter = mergeFilterDomainWithTileStats(filter, state.datasets, state.layers);
+    if (newFilter !== filter) {
+      // gpu filter values are relative to the filter domain
+      datasetIdsToFilter = datasetIdsToFilter.concat(filter.dataId);
+    }
+    return updateFilterPlotWithTileStats(newFilter, state.datasets, state.layers);
+  });
+
+  if (filters.every((filter, i) => filter === state.filters[i])) {
+    return state;
+  }
+
+  let newState = set(['filters'], filters, state);
+  if (datasetIdsToFilter.length) {
+    const filteredDatasets = applyFiltersToDatasets(
+      uniq(datasetIdsToFilter),
+      newState.datasets,
+      newState.filters,
+      newState.layers,
+      newState.filterGroups
+    );
+    newState = set(['datasets'], filteredDatasets, newState);
+  }
+
+  return newState;
+}
+
 // eslint-disable-next-line max-statements
 export function syncTimeFilterWithLayerTimelineUpdater<S extends VisState>(
   state: S,
@@ -3703,6 +4193,60 @@ export const setLoadingIndicatorUpdater = (
   };
 };
 
+/**
+ * Datasets are filtered in place, apply the filters of a restored snapshot again
+ * so filtered indexes and gpu filter ranges match the restored filters
+ */
+function applyRestoredFilters(state: VisState): VisState {
+  const {datasets, filters, layers, filterGroups} = state;
+  return {
+    ...state,
+    datasets: applyFiltersToDatasets(Object.keys(datasets), datasets, filters, layers, filterGroups)
+  };
+}
+
+/**
+ * Restore visState config before the last tracked change
+ * @memberof visStateUpdaters
+ * @public
+ */
+export const undoUpdater = (state: VisState): VisState => {
+  const {past, future} = state.undoHistory || INITIAL_UNDO_HISTORY;
+  if (!past.length) {
+    return state;
+  }
+
+  return {
+    ...applyRestoredFilters(restoreVisStateSnapshot(state, past[past.length - 1])),
+    undoHistory: {
+      past: past.slice(0, -1),
+      future: [takeVisStateSnapshot(state), ...future],
+      groupKey: null
+    }
+  };
+};
+
+/**
+ * Re-apply the last change reverted by undo
+ * @memberof visStateUpdaters
+ * @public
+ */
+export const redoUpdater = (state: VisState): VisState => {
+  const {past, future} = state.undoHistory || INITIAL_UNDO_HISTORY;
+  if (!future.length) {
+    return state;
+  }
+
+  return {
+    ...applyRestoredFilters(restoreVisStateSnapshot(state, future[0])),
+    undoHistory: {
+      past: [...past, takeVisStateSnapshot(state)],
+      future: future.slice(1),
+      groupKey: null
+    }
+  };
+};
+
 function adjustAnimationConfigWithFilter<S extends VisState>(state: S, filterIdx: number): S {
   const filter = state.filters[filterIdx];
   if ((filter as TimeRangeFilter).syncedWithLayerTimeline) {
@@ -3765,6 +4309,10 @@ function adjustTimeFilterInterval(state, filter) {
 // layers, filters, interactions, layerBlending, overlayBlending, splitMaps, animationConfig, editor
 // replace it with another dataId
 function defaultReplaceParentDatasetIds(value: any, dataId: string, dataIdToReplace: string) {
+  if (!value) {
+    // props not saved when empty, e.g. filterGroups
+    return null;
+  }
   if (Array.isArray(value)) {
     // for layers, filters, call defaultReplaceParentDatasetIds on each item in array
     const replaced = value
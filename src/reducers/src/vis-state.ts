@@ -22,6 +22,8 @@ const actionHandler = {
 
   [ActionTypes.DUPLICATE_LAYER]: visStateUpdaters.duplicateLayerUpdater,
 
+  [ActionTypes.CREATE_DATASET_FROM_LAYER]: visStateUpdaters.createDatasetFromLayerUpdater,
+
   [ActionTypes.SET_FILTER_VIEW]: visStateUpdaters.setFilterViewUpdater,
 
   [ActionTypes.INTERACTION_CONFIG_CHANGE]: visStateUpdaters.interactionConfigChangeUpdater,
@@ -85,6 +87,12 @@ const actionHandler = {
 
   [ActionTypes.SET_FILTER_PLOT]: visStateUpdaters.setFilterPlotUpdater,
 
+  [ActionTypes.ADD_FILTER_GROUP]: visStateUpdaters.addFilterGroupUpdater,
+
+  [ActionTypes.REMOVE_FILTER_GROUP]: visStateUpdaters.removeFilterGroupUpdater,
+
+  [ActionTypes.SET_FILTER_GROUP_OPERATOR]: visStateUpdaters.setFilterGroupOperatorUpdater,
+
   [ActionTypes.SET_MAP_INFO]: visStateUpdaters.setMapInfoUpdater,
 
   [ActionTypes.SHOW_DATASET_TABLE]: visStateUpdaters.showDatasetTableUpdater,
@@ -139,6 +147,12 @@ const actionHandler = {
 
   [ActionTypes.SET_COLUMN_DISPLAY_FORMAT]: visStateUpdaters.setColumnDisplayFormatUpdater,
 
+  [ActionTypes.ADD_DERIVED_FIELD]: visStateUpdaters.addDerivedFieldUpdater,
+
+  [ActionTypes.REMOVE_DERIVED_FIELD]: visStateUpdaters.removeDerivedFieldUpdater,
+
+  [ActionTypes.SPATIAL_JOIN]: visStateUpdaters.spatialJoinUpdater,
+
   [ActionTypes.NEXT_FILE_BATCH]: visStateUpdaters.nextFileBatchUpdater,
 
   [ActionTypes.PROCESS_FILE_CONTENT]: visStateUpdaters.processFileContentUpdater,
@@ -148,6 +162,8 @@ const actionHandler = {
 
   [ActionTypes.LAYER_FILTERED_ITEMS_CHANGE]: visStateUpdaters.layerFilteredItemsChangeUpdater,
 
+  [ActionTypes.LAYER_TILE_STATS_CHANGE]: visStateUpdaters.layerTileStatsChangeUpdater,
+
   [ActionTypes.SYNC_TIME_FILTER_WITH_LAYER_TIMELINE]:
     visStateUpdaters.syncTimeFilterWithLayerTimelineUpdater,
 
@@ -163,7 +179,11 @@ const actionHandler = {
 
   [ActionTypes.CREATE_NEW_DATASET_SUCCESS]: visStateUpdaters.createNewDatasetSuccessUpdater,
 
-  [ActionTypes.SET_LOADING_INDICATOR]: visStateUpdaters.setLoadingIndicatorUpdater
+  [ActionTypes.SET_LOADING_INDICATOR]: visStateUpdaters.setLoadingIndicatorUpdater,
+
+  [ActionTypes.UNDO]: visStateUpdaters.undoUpdater,
+
+  [ActionTypes.REDO]: visStateUpdaters.redoUpdater
 };
 
 // construct vis-state reducer
@@ -10,6 +10,7 @@ import {ProtoDataset, RGBColor, JsonObject} from '@kepler.gl/types';
 import {KeplerTable} from '@kepler.gl/table';
 import {VERSIONS} from './versions';
 import Schema from './schema';
+import {JSONSchema, jsonSchemaArrayOf} from './json-schema';
 import {getFieldsFromData, getSampleForTypeAnalyze} from '@kepler.gl/common-utils';
 import {ArrowDataContainer, DataContainerInterface, FIELD_DISPLAY_FORMAT} from '@kepler.gl/utils';
 
@@ -28,7 +29,8 @@ export type ParsedField = {
 };
 
 export type SavedDatasetV1 = {
-  version: 'v1';
+  // v2 datasets share the v1 layout
+  version: 'v1' | 'v2';
   data: {
     id: string;
     label: string;
@@ -76,6 +78,10 @@ export class FieldSchema extends Schema {
   load(fields) {
     return {[this.key]: fields};
   }
+
+  getJSONSchema(): JSONSchema {
+    return jsonSchemaArrayOf({...super.getJSONSchema(), required: ['name', 'type']});
+  }
 }
 
 export const propertiesV0 = {
@@ -160,6 +166,17 @@ const getFieldsForSaving = (fields: KeplerTable['fields']) => {
   });
 };
 
+/**
+ * Derived fields are saved as expressions in the map config and rebuilt on load,
+ * so their columns are not saved with the data.
+ */
+const removeDerivedColumns = (allData: any[][], fields: KeplerTable['fields']): any[][] => {
+  const isDerived = fields.map(f => Boolean(f.expression));
+  return isDerived.some(Boolean)
+    ? allData.map(row => row.filter((_, columnIndex) => !isDerived[columnIndex]))
+    : allData;
+};
+
 export class DatasetSchema extends Schema {
   key = 'dataset';
 
@@ -167,13 +184,14 @@ export class DatasetSchema extends Schema {
     const datasetFlattened = dataset.dataContainer
       ? {
           ...dataset,
-          allData: getAllDataForSaving(dataset.dataContainer),
-          fields: getFieldsForSaving(dataset.fields),
+          allData: removeDerivedColumns(getAllDataForSaving(dataset.dataContainer), dataset.fields),
+          fields: getFieldsForSaving(dataset.fields.filter(f => !f.expression)),
           // we use flattenData to save arrow tables,
           // but once flattened it's not an arrow file anymore.
           metadata: {
             ...dataset.metadata,
-            ...(dataset.metadata.format === DATASET_FORMATS.arrow
+            ...(dataset.metadata.format === DATASET_FORMATS.arrow ||
+            dataset.metadata.format === DATASET_FORMATS.parquet
               ? {format: DATASET_FORMATS.row}
               : {})
           }
@@ -225,6 +243,9 @@ export class DatasetSchema extends Schema {
       ...(dataset.disableDataOperation ? {disableDataOperation: dataset.disableDataOperation} : {})
     };
   }
+  getJSONSchema(): JSONSchema {
+    return {...super.getJSONSchema(), required: ['id', 'allData', 'fields']};
+  }
 }
 
 export const datasetSchema = {
@@ -237,6 +258,11 @@ export const datasetSchema = {
     key: 'dataset',
     version: VERSIONS.v1,
     properties: propertiesV1
+  }),
+  [VERSIONS.v2]: new DatasetSchema({
+    key: 'dataset',
+    version: VERSIONS.v2,
+    properties: propertiesV1
   })
 };
 
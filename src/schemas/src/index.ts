@@ -10,10 +10,37 @@ export {
 } from './schema-manager';
 
 // eslint-disable-next-line prettier/prettier
-export type {SavedConfigV1, SavedMap, LoadedMap, SavedMapState} from './schema-manager';
-export {CURRENT_VERSION, VERSIONS} from './versions';
+export type {
+  SavedConfigV1,
+  SavedConfigV2,
+  SavedMap,
+  LoadedMap,
+  SavedMapState
+} from './schema-manager';
+export {CURRENT_VERSION, VERSIONS, VERSION_ORDER} from './versions';
+export {JSON_SCHEMA_DRAFT, getJSONPath, validateJSONSchema} from './json-schema';
+export type {
+  JSONSchema,
+  JSONSchemaType,
+  SchemaValidationError,
+  SchemaValidationResult
+} from './json-schema';
+export {
+  MIGRATION_SECTIONS,
+  SchemaMigrationError,
+  SchemaMigrationRegistry,
+  isSchemaMigrationError,
+  schemaMigrations
+} from './schema-migrations';
+export type {
+  MigrationSection,
+  SavedConfigToMigrate,
+  SectionMigrator,
+  SchemaMigrationErrorProps
+} from './schema-migrations';
 export {
   visStateSchemaV1,
+  visStateSchemaV2,
   FilterSchemaV0,
   LayerSchemaV0,
   InteractionSchemaV1,
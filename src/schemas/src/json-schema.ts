@@ -0,0 +1,121 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {isPlainObject} from '@kepler.gl/utils';
+
+export type JSONSchemaType = 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+
+/** Subset of JSON Schema (draft-07) generated from kepler.gl schemas */
+export type JSONSchema = {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: JSONSchemaType | JSONSchemaType[];
+  enum?: any[];
+  properties?: {[key: string]: JSONSchema};
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+};
+
+export type SchemaValidationError = {
+  /** JSON path of the invalid value, e.g. `$.config.config.visState.layers[0].type` */
+  path: string;
+  message: string;
+};
+
+export type SchemaValidationResult = {
+  valid: boolean;
+  errors: SchemaValidationError[];
+};
+
+export const JSON_SCHEMA_DRAFT = 'http://json-schema.org/draft-07/schema#';
+
+/**
+ * JSON Schema of an array of `items`
+ */
+export function jsonSchemaArrayOf(items: JSONSchema): JSONSchema {
+  return {type: 'array', items};
+}
+
+/**
+ * Append a property or an index to a JSON path
+ */
+export function getJSONPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function getValueType(value: any): JSONSchemaType | 'undefined' {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (isPlainObject(value)) {
+    return 'object';
+  }
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' ? type : 'undefined';
+}
+
+/**
+ * Validate a value against the JSON Schema subset generated by kepler.gl schemas
+ * @param schema
+ * @param value
+ * @param path - JSON path of value
+ * @returns validation errors with JSON paths, empty if the value is valid
+ */
+export function validateJSONSchema(
+  schema: JSONSchema,
+  value: any,
+  path = '$'
+): SchemaValidationError[] {
+  const valueType = getValueType(value);
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.includes(valueType as JSONSchemaType)) {
+      return [{path, message: `should be ${types.join(' or ')}, got ${valueType}`}];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [{path, message: `should be one of ${schema.enum.join(', ')}, got ${value}`}];
+  }
+
+  if (valueType === 'array' && schema.items) {
+    const items = schema.items;
+    return value.reduce(
+      (errors, item, i) => [...errors, ...validateJSONSchema(items, item, getJSONPath(path, i))],
+      []
+    );
+  }
+
+  if (valueType !== 'object') {
+    return [];
+  }
+
+  const {properties = {}, required = [], additionalProperties = true} = schema;
+  const errors: SchemaValidationError[] = required
+    .filter(key => !(key in value))
+    .map(key => ({path: getJSONPath(path, key), message: 'is required'}));
+
+  Object.keys(value).forEach(key => {
+    const propertyPath = getJSONPath(path, key);
+    if (properties[key]) {
+      errors.push(...validateJSONSchema(properties[key], value[key], propertyPath));
+    } else if (additionalProperties === false) {
+      errors.push({path: propertyPath, message: 'is not a valid property'});
+    } else if (isPlainObject(additionalProperties)) {
+      errors.push(
+        ...validateJSONSchema(additionalProperties as JSONSchema, value[key], propertyPath)
+      );
+    }
+  });
+
+  return errors;
+}
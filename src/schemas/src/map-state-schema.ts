@@ -32,6 +32,11 @@ const mapStateSchema = {
     version: VERSIONS.v1,
     properties: propertiesV1,
     key: 'mapState'
+  }),
+  [VERSIONS.v2]: new Schema({
+    version: VERSIONS.v2,
+    properties: propertiesV1,
+    key: 'mapState'
   })
 };
 
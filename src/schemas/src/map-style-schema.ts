@@ -3,6 +3,7 @@
 
 import {VERSIONS} from './versions';
 import Schema from './schema';
+import {JSONSchema} from './json-schema';
 
 export const customMapStylePropsV1 = {
   accessToken: null,
@@ -43,6 +44,10 @@ export class MapStyleSchemaV1 extends Schema {
       ? {[this.key]: mapStyles}
       : {};
   }
+  getJSONSchema(): JSONSchema {
+    // custom map styles keyed by style id
+    return {type: 'object', additionalProperties: CustomMapStyleSchema.getJSONSchema()};
+  }
 }
 
 // version v0
@@ -73,6 +78,11 @@ const mapStyleSchema = {
     version: VERSIONS.v1,
     properties: propertiesV1,
     key: 'mapStyle'
+  }),
+  [VERSIONS.v2]: new Schema({
+    version: VERSIONS.v2,
+    properties: propertiesV1,
+    key: 'mapStyle'
   })
 };
 
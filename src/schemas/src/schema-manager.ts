@@ -2,6 +2,7 @@
 // Copyright contributors to the kepler.gl project
 
 import {console as Console} from 'global/window';
+import omit from 'lodash/omit';
 
 import {Datasets} from '@kepler.gl/table';
 import datasetSchema from './dataset-schema';
@@ -10,8 +11,23 @@ import mapStateSchema from './map-state-schema';
 import {SavedDatasetV1, ParsedDataset} from './dataset-schema';
 import {visStateSchema} from './vis-state-schema';
 import uiStateSchema from './ui-state-schema';
-
-import {CURRENT_VERSION, VERSIONS} from './versions';
+import {
+  SchemaMigrationError,
+  SchemaMigrationRegistry,
+  SavedConfigToMigrate,
+  SectionMigrator,
+  schemaMigrations
+} from './schema-migrations';
+import {
+  JSONSchema,
+  JSON_SCHEMA_DRAFT,
+  SchemaValidationResult,
+  getJSONPath,
+  jsonSchemaArrayOf,
+  validateJSONSchema
+} from './json-schema';
+
+import {CURRENT_VERSION, VERSIONS, VERSION_ORDER} from './versions';
 import {isPlainObject} from '@kepler.gl/utils';
 
 import {MapInfo, SavedVisState, SavedMapStyle, ParsedConfig, BaseMapStyle} from '@kepler.gl/types';
@@ -54,9 +70,15 @@ export type SavedConfigV1 = {
   };
 };
 
+/** Schema for v2 saved configuration, v2 keeps the v1 layout */
+export type SavedConfigV2 = {
+  version: 'v2';
+  config: SavedConfigV1['config'];
+};
+
 export type SavedMap = {
   datasets: SavedDatasetV1[];
-  config: SavedConfigV1;
+  config: SavedConfigV1 | SavedConfigV2;
   info: {
     app: string;
     created_at: string;
@@ -85,31 +107,35 @@ export type KeplerGLSchemaProps = {
   reducers?: typeof reducerSchema;
   datasets?: typeof datasetSchema;
   validVersions?: typeof VERSIONS;
-  version?: 'v1';
+  version?: 'v1' | 'v2';
   composedReducerSchema?: ComposedReducerSchema;
+  migrations?: SchemaMigrationRegistry;
 };
 
 export class KeplerGLSchema {
   _validVersions: typeof VERSIONS;
-  _version: 'v1';
+  _version: 'v1' | 'v2';
   _reducerSchemas: typeof reducerSchema;
   _datasetSchema: typeof datasetSchema;
   _datasetLastSaved: SavedDatasetV1[] | null;
   _savedDataset: SavedDatasetV1[] | null;
   _composedReducerSchema: ComposedReducerSchema | null;
+  _migrations: SchemaMigrationRegistry;
 
   constructor({
     reducers = reducerSchema,
     datasets = datasetSchema,
     validVersions = VERSIONS,
     version = CURRENT_VERSION,
-    composedReducerSchema
+    composedReducerSchema,
+    migrations = schemaMigrations
   }: KeplerGLSchemaProps = {}) {
     this._validVersions = validVersions;
     this._version = version;
     this._reducerSchemas = reducers;
     this._datasetSchema = datasets;
     this._composedReducerSchema = composedReducerSchema || null;
+    this._migrations = migrations;
 
     this._datasetLastSaved = null;
     this._savedDataset = null;
@@ -215,7 +241,7 @@ export class KeplerGLSchema {
    * @param state - app state
    * @returns - config to save
    */
-  getConfigToSave(state: any): SavedConfigV1 {
+  getConfigToSave(state: any): SavedConfigV1 | SavedConfigV2 {
     const toSave =
       typeof this._composedReducerSchema?.save === 'function'
         ? this._composedReducerSchema.save(state)
@@ -252,29 +278,206 @@ export class KeplerGLSchema {
   }
 
   /**
-   * Parse saved App config
+   * Parse saved App config. The config is migrated to the current version before it is loaded
+   * @returns parsed config, null if the config failed to migrate or load
    */
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  parseSavedConfig({version, config}, state = {}): ParsedConfig | null {
-    const validVersion = this.validateVersion(version);
-    if (!validVersion) {
+  parseSavedConfig(savedConfig, state = {}): ParsedConfig | null {
+    try {
+      return this.loadSavedConfig(savedConfig);
+    } catch (error) {
+      Console.error((error as Error)?.message || error);
       return null;
     }
+  }
 
+  /**
+   * Migrate saved App config to the current version and load it, same as `parseSavedConfig`
+   * but throws when the config fails to migrate or load
+   * @throws {SchemaMigrationError} with the section and version that failed to migrate or load
+   */
+  loadSavedConfig({version, config}): ParsedConfig {
     const toLoad =
       typeof this._composedReducerSchema?.load === 'function'
         ? this._composedReducerSchema.load(config)
         : config;
 
-    return Object.keys(toLoad).reduce(
-      (accu, key) => ({
-        ...accu,
-        ...(key in this._reducerSchemas
-          ? this._reducerSchemas[key][validVersion].load(toLoad[key])
-          : {})
-      }),
-      {}
+    const migrated = this.migrateSavedConfig({version, config: toLoad});
+
+    return Object.keys(migrated.config).reduce((accu, key) => {
+      if (!(key in this._reducerSchemas)) {
+        return accu;
+      }
+      if (migrated.loadedSections?.includes(key)) {
+        // already loaded by its migrator, e.g. v0 sections
+        return {...accu, [key]: migrated.config[key]};
+      }
+      const schema = this._getReducerSchema(key, migrated.version);
+      try {
+        return {...accu, ...schema.load(migrated.config[key])};
+      } catch (error) {
+        throw new SchemaMigrationError({
+          message: `Failed to load ${key} ${migrated.version}: ${
+            (error as Error)?.message || error
+          }`,
+          section: key,
+          fromVersion: version,
+          toVersion: migrated.version,
+          cause: error
+        });
+      }
+    }, {});
+  }
+
+  /**
+   * Migrate saved config to the current version, without loading it
+   * @param savedConfig - saved config `{version, config}`
+   * @returns migrated saved config
+   * @throws {SchemaMigrationError} with the section and version that failed to migrate
+   */
+  migrateSavedConfig(savedConfig: SavedConfigToMigrate): SavedConfigToMigrate {
+    const {version} = savedConfig;
+    if (!version || !this._validVersions[version]) {
+      throw new SchemaMigrationError({
+        message: version
+          ? `${version} is not a valid version`
+          : 'There is no version number associated with this saved map',
+        fromVersion: version || null
+      });
+    }
+    return this._migrations.migrate(savedConfig, this._version);
+  }
+
+  /**
+   * JSON Schema of saved config `{version, config}` of the current version
+   */
+  getConfigJSONSchema(): JSONSchema {
+    return {
+      type: 'object',
+      properties: {
+        version: {type: 'string', enum: Object.keys(this._validVersions)},
+        config: {
+          type: 'object',
+          properties: Object.keys(this._reducerSchemas).reduce((accu, key) => {
+            const schema = this._getReducerSchema(key, this._version);
+            // custom reducer schemas may not describe their JSON Schema
+            return {...accu, [key]: schema?.getJSONSchema ? schema.getJSONSchema() : {}};
+          }, {}),
+          additionalProperties: false
+        }
+      },
+      required: ['version', 'config']
+    };
+  }
+
+  /**
+   * JSON Schema of a saved map `{datasets, config, info}` of the current version
+   */
+  getJSONSchema(): JSONSchema {
+    return {
+      $schema: JSON_SCHEMA_DRAFT,
+      title: 'kepler.gl saved map',
+      description: `kepler.gl saved map ${this._version}`,
+      type: 'object',
+      properties: {
+        datasets: jsonSchemaArrayOf({
+          type: 'object',
+          properties: {
+            version: {type: 'string', enum: Object.keys(this._validVersions)},
+            data: this._datasetSchema[this._version].getJSONSchema()
+          },
+          required: ['version', 'data']
+        }),
+        config: this.getConfigJSONSchema(),
+        info: {type: 'object'}
+      },
+      required: ['datasets', 'config']
+    };
+  }
+
+  /**
+   * Validate saved config `{version, config}`. Configs of older versions are validated after migration
+   * @param savedConfig
+   * @param path - JSON path of the saved config
+   * @returns errors with JSON paths of invalid values
+   */
+  validateSavedConfig(savedConfig: any, path = '$'): SchemaValidationResult {
+    let errors = validateJSONSchema(
+      {type: 'object', properties: {config: {type: 'object'}}, required: ['version', 'config']},
+      savedConfig,
+      path
+    );
+
+    if (!errors.length) {
+      let migrated;
+      try {
+        migrated = this.migrateSavedConfig(savedConfig);
+      } catch (error) {
+        const {section, message} = error as SchemaMigrationError;
+        const configPath = getJSONPath(path, 'config');
+        errors = [
+          {
+            path: section ? getJSONPath(configPath, section) : getJSONPath(path, 'version'),
+            message
+          }
+        ];
+      }
+      if (migrated) {
+        // sections already loaded by their migrator don't have the saved layout
+        const {version, config, loadedSections = []} = migrated;
+        errors = validateJSONSchema(
+          this.getConfigJSONSchema(),
+          {version, config: omit(config, loadedSections)},
+          path
+        );
+      }
+    }
+
+    return {valid: !errors.length, errors};
+  }
+
+  /**
+   * Validate saved map `{datasets, config, info}`
+   * @param savedMap
+   * @returns errors with JSON paths of invalid values
+   * @example
+   * const {valid, errors} = KeplerGlSchema.validate(savedMap);
+   * // errors: [{path: '$.config.config.visState.layers[0].id', message: 'is required'}]
+   */
+  validate(savedMap: any): SchemaValidationResult {
+    const jsonSchema = this.getJSONSchema();
+    // config is validated after migration
+    const errors = validateJSONSchema(
+      {...jsonSchema, properties: {...jsonSchema.properties, config: {}}},
+      savedMap
     );
+    if (isPlainObject(savedMap) && savedMap.config !== undefined) {
+      errors.push(...this.validateSavedConfig(savedMap.config, getJSONPath('$', 'config')).errors);
+    }
+
+    return {valid: !errors.length, errors};
+  }
+
+  /**
+   * Register section migrators, see `SchemaMigrationRegistry.register`
+   * @param migrators
+   */
+  registerMigration(migrators: SectionMigrator | SectionMigrator[]): KeplerGLSchema {
+    this._migrations.register(migrators);
+    return this;
+  }
+
+  /**
+   * Get the schema of a reducer, fall back to the latest version the reducer schema defines,
+   * custom reducer schemas may not define every version
+   */
+  _getReducerSchema(key: string, version: string) {
+    const schemas = this._reducerSchemas[key];
+    const versionIdx = VERSION_ORDER.indexOf(version);
+    const schemaVersion = VERSION_ORDER.slice(0, versionIdx + 1)
+      .reverse()
+      .find(v => schemas[v]);
+    return schemas[schemaVersion || version];
   }
 
   /**
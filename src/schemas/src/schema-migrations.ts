@@ -0,0 +1,278 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {isPlainObject} from '@kepler.gl/utils';
+
+import mapStateSchema from './map-state-schema';
+import mapStyleSchema from './map-style-schema';
+import uiStateSchema from './ui-state-schema';
+import {visStateSchemaV0} from './vis-state-schema';
+import {CURRENT_VERSION, VERSIONS, VERSION_ORDER} from './versions';
+
+/** Saved config sections that can be migrated, migrators of a version run in this order */
+export const MIGRATION_SECTIONS = ['visState', 'mapState', 'mapStyle', 'uiState'] as const;
+
+export type MigrationSection = (typeof MIGRATION_SECTIONS)[number];
+
+export type SavedConfigToMigrate = {
+  version: string;
+  config: {[key: string]: any};
+  /** sections already loaded by a `loaded` migrator, they are not loaded again */
+  loadedSections?: string[];
+};
+
+export type SectionMigrator = {
+  /** version of the saved section the migrator reads, the output is the next version */
+  from: string;
+  section: MigrationSection;
+  /** name of the migrator, used in error messages */
+  id?: string;
+  /** the migrator returns the section loaded by a schema, which is not loaded again */
+  loaded?: boolean;
+  /**
+   * @param sectionConfig - saved section e.g. `config.visState`
+   * @param config - the entire saved config, with sections migrated so far
+   * @returns migrated section
+   */
+  migrate: (sectionConfig: any, config: SavedConfigToMigrate['config']) => any;
+};
+
+export type SchemaMigrationErrorProps = {
+  message: string;
+  section?: string | null;
+  fromVersion?: string | null;
+  toVersion?: string | null;
+  migratorId?: string | null;
+  cause?: unknown;
+};
+
+/**
+ * Error thrown when a saved config can not be migrated or loaded.
+ * Carries the section and versions of the step that failed
+ */
+export class SchemaMigrationError extends Error {
+  name = 'SchemaMigrationError';
+  section: string | null;
+  fromVersion: string | null;
+  toVersion: string | null;
+  migratorId: string | null;
+  cause?: unknown;
+
+  constructor({
+    message,
+    section = null,
+    fromVersion = null,
+    toVersion = null,
+    migratorId = null,
+    cause
+  }: SchemaMigrationErrorProps) {
+    super(message);
+    this.section = section;
+    this.fromVersion = fromVersion;
+    this.toVersion = toVersion;
+    this.migratorId = migratorId;
+    this.cause = cause;
+  }
+}
+
+export function isSchemaMigrationError(error: any): error is SchemaMigrationError {
+  return Boolean(error) && error.name === 'SchemaMigrationError';
+}
+
+function getErrorMessage(error: any): string {
+  return error?.message || String(error);
+}
+
+/**
+ * Ordered registry of per-version, per-section migrators.
+ * A saved config is migrated one version at a time, for each version the migrators of
+ * each section run in registration order.
+ * @example
+ * import {schemaMigrations} from '@kepler.gl/schemas';
+ *
+ * schemaMigrations.register({
+ *   from: 'v1',
+ *   section: 'visState',
+ *   id: 'rename-my-layer',
+ *   migrate: visState => ({
+ *     ...visState,
+ *     layers: visState.layers.map(l => (l.type === 'myLayer' ? {...l, type: 'myLayerV2'} : l))
+ *   })
+ * });
+ */
+export class SchemaMigrationRegistry {
+  _versions: string[];
+  _migrators: {[version: string]: {[section: string]: SectionMigrator[]}};
+
+  constructor(versions: string[] = VERSION_ORDER) {
+    this._versions = versions;
+    this._migrators = {};
+  }
+
+  /**
+   * Add one or more migrators
+   * @param migrators
+   * @returns the registry
+   */
+  register(migrators: SectionMigrator | SectionMigrator[]): SchemaMigrationRegistry {
+    (Array.isArray(migrators) ? migrators : [migrators]).forEach(migrator => {
+      const {from, section, migrate} = migrator;
+      const fromIdx = this._versions.indexOf(from);
+      if (fromIdx < 0 || fromIdx === this._versions.length - 1) {
+        throw new Error(`Can not register migrator from ${from}, there is no next version`);
+      }
+      if (!MIGRATION_SECTIONS.includes(section)) {
+        throw new Error(`Can not register migrator for unknown section ${section}`);
+      }
+      if (typeof migrate !== 'function') {
+        throw new Error('migrate has to be a function');
+      }
+
+      this._migrators[from] = this._migrators[from] || {};
+      this._migrators[from][section] = [...(this._migrators[from][section] || []), migrator];
+    });
+
+    return this;
+  }
+
+  /**
+   * Remove migrators registered with `id`
+   * @param id
+   * @returns the registry
+   */
+  unregister(id: string): SchemaMigrationRegistry {
+    Object.values(this._migrators).forEach(sections => {
+      Object.keys(sections).forEach(section => {
+        sections[section] = sections[section].filter(m => m.id !== id);
+      });
+    });
+
+    return this;
+  }
+
+  /**
+   * Get migrators converting `section` from `version` to the next version
+   */
+  getMigrators(version: string, section: MigrationSection): SectionMigrator[] {
+    return this._migrators[version]?.[section] || [];
+  }
+
+  /**
+   * Migrate saved config to `toVersion`
+   * @param savedConfig - saved config `{version, config}`
+   * @param toVersion - target version, default to current version
+   * @returns migrated saved config
+   * @throws {SchemaMigrationError} when the version is invalid or a migrator fails
+   */
+  migrate(
+    {version, config}: SavedConfigToMigrate,
+    toVersion: string = CURRENT_VERSION
+  ): SavedConfigToMigrate {
+    const fromIdx = this._versions.indexOf(version);
+    const toIdx = this._versions.indexOf(toVersion);
+
+    if (fromIdx < 0) {
+      throw new SchemaMigrationError({
+        message: version
+          ? `${version} is not a valid version`
+          : 'There is no version number associated with this saved map',
+        fromVersion: version || null,
+        toVersion
+      });
+    }
+    if (toIdx < fromIdx) {
+      throw new SchemaMigrationError({
+        message: `Can not migrate saved config from ${version} to older version ${toVersion}`,
+        fromVersion: version,
+        toVersion
+      });
+    }
+
+    let migrated = config;
+    const loadedSections: string[] = [];
+    for (let i = fromIdx; i < toIdx; i++) {
+      const from = this._versions[i];
+      const to = this._versions[i + 1];
+
+      MIGRATION_SECTIONS.forEach(section => {
+        if (!migrated[section]) {
+          return;
+        }
+        this.getMigrators(from, section).forEach(migrator => {
+          const migratorName = migrator.id ? ` (${migrator.id})` : '';
+          let result;
+          try {
+            result = migrator.migrate(migrated[section], migrated);
+          } catch (error) {
+            throw new SchemaMigrationError({
+              message: `Failed to migrate ${section} from ${from} to ${to}${migratorName}: ${getErrorMessage(
+                error
+              )}`,
+              section,
+              fromVersion: from,
+              toVersion: to,
+              migratorId: migrator.id || null,
+              cause: error
+            });
+          }
+          if (!isPlainObject(result)) {
+            throw new SchemaMigrationError({
+              message: `Failed to migrate ${section} from ${from} to ${to}${migratorName}: migrator did not return an object`,
+              section,
+              fromVersion: from,
+              toVersion: to,
+              migratorId: migrator.id || null
+            });
+          }
+          migrated = {...migrated, [section]: result};
+          if (migrator.loaded && !loadedSections.includes(section)) {
+            loadedSections.push(section);
+          }
+        });
+      });
+    }
+
+    return {
+      version: toVersion,
+      config: migrated,
+      ...(loadedSections.length ? {loadedSections} : {})
+    };
+  }
+}
+
+/**
+ * v0 sections are converted by loading them with the v0 schemas, the same way v0 configs were parsed.
+ * visState is converted to the v1 layout, other sections are loaded
+ */
+const migratorsV0: SectionMigrator[] = [
+  {
+    from: VERSIONS.v0,
+    section: 'visState',
+    id: 'v0-vis-state',
+    migrate: visState => visStateSchemaV0.load(visState).visState
+  },
+  {
+    from: VERSIONS.v0,
+    section: 'mapState',
+    id: 'v0-map-state',
+    loaded: true,
+    migrate: mapState => mapStateSchema[VERSIONS.v0].load(mapState).mapState
+  },
+  {
+    from: VERSIONS.v0,
+    section: 'mapStyle',
+    id: 'v0-map-style',
+    loaded: true,
+    migrate: mapStyle => mapStyleSchema[VERSIONS.v0].load(mapStyle).mapStyle
+  },
+  {
+    from: VERSIONS.v0,
+    section: 'uiState',
+    id: 'v0-ui-state',
+    loaded: true,
+    migrate: uiState => uiStateSchema[VERSIONS.v0].load(uiState).uiState
+  }
+];
+
+/** Default registry used by `KeplerGlSchema`, register custom migrators here */
+export const schemaMigrations = new SchemaMigrationRegistry().register(migratorsV0);
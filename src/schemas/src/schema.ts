@@ -3,7 +3,8 @@
 
 import {console as Console} from 'global/window';
 
-import {CURRENT_VERSION} from './versions';
+import {CURRENT_LAYOUT_VERSIONS, CURRENT_VERSION} from './versions';
+import {JSONSchema} from './json-schema';
 
 export default class Schema {
   version: string;
@@ -77,7 +78,7 @@ export default class Schema {
   }
 
   _isCurrentVersion() {
-    return this.version === CURRENT_VERSION;
+    return CURRENT_LAYOUT_VERSIONS.includes(this.version);
   }
 
   outdatedVersionError() {
@@ -105,4 +106,25 @@ export default class Schema {
   load(node: any, parents: object[] = [], accumulator: any = {}): {[key: string]: any} {
     return this.loadPropertiesOrApplySchema(node, parents, accumulator);
   }
+
+  /**
+   * JSON Schema of the saved node, generated from `properties`.
+   * Properties without a schema accept any value, properties not listed are not allowed
+   */
+  getJSONSchema(): JSONSchema {
+    const {properties} = this;
+    if (!properties) {
+      return {type: 'object'};
+    }
+    const keys = Array.isArray(properties) ? properties : Object.keys(properties);
+
+    return {
+      type: 'object',
+      properties: keys.reduce((accu, key) => {
+        const schema = Array.isArray(properties) ? null : properties[key];
+        return {...accu, [key]: schema ? schema.getJSONSchema() : {}};
+      }, {}),
+      additionalProperties: false
+    };
+  }
 }
@@ -38,6 +38,11 @@ const uiStateSchema = {
     version: VERSIONS.v1,
     properties: propertiesV1,
     key: 'uiState'
+  }),
+  [VERSIONS.v2]: new Schema({
+    version: VERSIONS.v2,
+    properties: propertiesV1,
+    key: 'uiState'
   })
 };
 
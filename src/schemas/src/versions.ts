@@ -5,7 +5,20 @@ import keyMirror from 'keymirror';
 
 export const VERSIONS = keyMirror({
   v0: null,
-  v1: null
+  v1: null,
+  v2: null
 });
 
-export const CURRENT_VERSION = VERSIONS.v1;
+export const CURRENT_VERSION = VERSIONS.v2;
+
+/**
+ * Saved config versions in the order they were introduced.
+ * Migrations are applied one version at a time following this order
+ */
+export const VERSION_ORDER: string[] = Object.keys(VERSIONS);
+
+/**
+ * Versions that share the saved layout of the current version.
+ * v2 did not change any section layout, schemas tagged v1 are still used to save
+ */
+export const CURRENT_LAYOUT_VERSIONS: string[] = [VERSIONS.v1, VERSIONS.v2];
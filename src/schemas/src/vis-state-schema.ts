@@ -7,6 +7,7 @@ import {LAYER_VIS_CONFIGS, FILTER_VIEW_TYPES} from '@kepler.gl/constants';
 import {colorRangeBackwardCompatibility, isFilterValidToSave, findById} from '@kepler.gl/utils';
 import {notNullorUndefined} from '@kepler.gl/common-utils';
 import Schema from './schema';
+import {JSONSchema, jsonSchemaArrayOf} from './json-schema';
 import cloneDeep from 'lodash/cloneDeep';
 import {
   AddDataToMapOptions,
@@ -15,6 +16,8 @@ import {
   FileLoading,
   FileLoadingProgress,
   Filter,
+  FilterGroup,
+  DerivedField,
   InteractionConfig,
   MapInfo,
   ParsedFilter,
@@ -57,7 +60,10 @@ export interface VisState {
   effects: Effect[];
   effectOrder: string[];
   filters: Filter[];
+  filterGroups: FilterGroup[];
   filterToBeMerged: any[];
+  derivedFields: DerivedField[];
+  derivedFieldToBeMerged: DerivedField[];
   datasets: Datasets;
   editingDataset: string | undefined;
   interactionConfig: InteractionConfig;
@@ -87,8 +93,32 @@ export interface VisState {
   isMergingDatasets: {
     [datasetId: string]: boolean;
   };
+  undoHistory: UndoHistory;
 }
 
+/** Part of visState restored by undo / redo */
+export type VisStateSnapshot = Pick<
+  VisState,
+  | 'layers'
+  | 'layerData'
+  | 'layerOrder'
+  | 'filters'
+  | 'filterGroups'
+  | 'datasets'
+  | 'interactionConfig'
+  | 'layerBlending'
+  | 'overlayBlending'
+  | 'splitMaps'
+  | 'animationConfig'
+>;
+
+export type UndoHistory = {
+  past: VisStateSnapshot[];
+  future: VisStateSnapshot[];
+  /** key of the last tracked action, consecutive actions with the same key are undone together */
+  groupKey: string | null;
+};
+
 export type PostMergerPayload = {
   newDataIds: string[];
   options?: AddDataToMapOptions;
@@ -398,6 +428,11 @@ class TextLabelSchemaV1 extends Schema {
   load(textLabel) {
     return {textLabel: Array.isArray(textLabel) ? textLabel : [textLabel]};
   }
+
+  getJSONSchema(): JSONSchema {
+    // a single text label object is also accepted
+    return {type: ['array', 'object']};
+  }
 }
 
 const visualChannelModificationV1 = {
@@ -433,7 +468,16 @@ class VisualChannelSchemaV1 extends Schema {
           [visualChannels[key].field]: layer.config[visualChannels[key].field]
             ? pick(layer.config[visualChannels[key].field], ['name', 'type'])
             : null,
-          [visualChannels[key].scale]: layer.config[visualChannels[key].scale]
+          [visualChannels[key].scale]: layer.config[visualChannels[key].scale],
+          // only save second field of bivariate color when selected
+          ...(visualChannels[key].bivariate && layer.config[visualChannels[key].bivariate.field]
+            ? {
+                [visualChannels[key].bivariate.field]: pick(
+                  layer.config[visualChannels[key].bivariate.field],
+                  ['name', 'type']
+                )
+              }
+            : {})
         }),
         {}
       )
@@ -552,6 +596,9 @@ export const layerPropsV1 = {
         version: VERSIONS.v1
       }),
       hidden: null,
+      blendMode: null,
+      maskLayerId: null,
+      tableJoin: null,
       textLabel: new TextLabelSchemaV1({
         version: VERSIONS.v1,
         key: 'textLabel'
@@ -591,6 +638,10 @@ export class LayerSchemaV0 extends Schema {
         : []
     };
   }
+
+  getJSONSchema(): JSONSchema {
+    return jsonSchemaArrayOf({...super.getJSONSchema(), required: ['id', 'type', 'config']});
+  }
 }
 
 export class FilterSchemaV0 extends Schema {
@@ -622,6 +673,87 @@ export class FilterSchemaV0 extends Schema {
         })
     };
   }
+
+  getJSONSchema(): JSONSchema {
+    return jsonSchemaArrayOf({
+      ...super.getJSONSchema(),
+      required: ['dataId', 'id', 'name', 'type']
+    });
+  }
+}
+
+export const filterGroupPropsV1 = {
+  id: null,
+  operator: null,
+  parentId: null
+};
+
+export class FilterGroupSchema extends Schema {
+  key = 'filterGroups';
+  save(
+    filterGroups: FilterGroup[] | undefined
+  ): {filterGroups: FilterGroup[]} | Record<string, never> {
+    // only save filter groups when filters are composed
+    return filterGroups?.length
+      ? {
+          filterGroups: filterGroups.map(
+            filterGroup => this.savePropertiesOrApplySchema(filterGroup).filterGroups
+          )
+        }
+      : {};
+  }
+  load(filterGroups: FilterGroup[] | undefined): {filterGroups: FilterGroup[]} {
+    return {
+      filterGroups: Array.isArray(filterGroups)
+        ? filterGroups.map(filterGroup => ({
+            parentId: null,
+            ...this.loadPropertiesOrApplySchema(filterGroup).filterGroups
+          }))
+        : []
+    };
+  }
+
+  getJSONSchema(): JSONSchema {
+    return jsonSchemaArrayOf({...super.getJSONSchema(), required: ['id']});
+  }
+}
+
+export const derivedFieldPropsV1 = {
+  id: null,
+  dataId: null,
+  name: null,
+  expression: null
+};
+
+export class DerivedFieldSchema extends Schema {
+  key = 'derivedFields';
+  save(
+    derivedFields: DerivedField[] | undefined
+  ): {derivedFields: DerivedField[]} | Record<string, never> {
+    return derivedFields?.length
+      ? {
+          derivedFields: derivedFields.map(
+            derivedField => this.savePropertiesOrApplySchema(derivedField).derivedFields
+          )
+        }
+      : {};
+  }
+  load(derivedFields: DerivedField[] | undefined): {derivedFields: DerivedField[]} {
+    return {
+      derivedFields: Array.isArray(derivedFields)
+        ? derivedFields.map(
+            derivedField => this.loadPropertiesOrApplySchema(derivedField).derivedFields
+          )
+        : []
+    };
+  }
+
+  getJSONSchema(): JSONSchema {
+    return jsonSchemaArrayOf({
+      ...super.getJSONSchema(),
+      required: ['id', 'dataId', 'name', 'expression']
+    });
+  }
 }
 
 const interactionPropsV0 = ['tooltip', 'brush'];
@@ -740,6 +872,10 @@ export class DimensionFieldSchema extends Schema {
   load(field) {
     return {[this.key]: field};
   }
+
+  getJSONSchema(): JSONSchema {
+    return {...super.getJSONSchema(), type: ['object', 'null']};
+  }
 }
 
 export class SplitMapsSchema extends Schema {
@@ -772,6 +908,10 @@ export class SplitMapsSchema extends Schema {
       }))
     };
   }
+
+  getJSONSchema(): JSONSchema {
+    return jsonSchemaArrayOf({type: 'object'});
+  }
 }
 export class PlotTypeSchema extends Schema {
   key = 'plotType';
@@ -785,6 +925,11 @@ export class PlotTypeSchema extends Schema {
     }
     return {plotType};
   }
+
+  getJSONSchema(): JSONSchema {
+    // older configs save plotType as a string
+    return {type: ['object', 'string']};
+  }
 }
 
 export const effectPropsV1 = {
@@ -829,6 +974,16 @@ export class EffectsSchema extends Schema {
       })
     };
   }
+
+  getJSONSchema(): JSONSchema {
+    const {properties = {}, ...effectSchema} = super.getJSONSchema();
+    return jsonSchemaArrayOf({
+      ...effectSchema,
+      // older configs save type and parameters in config
+      properties: {...properties, config: {type: 'object'}},
+      required: ['id']
+    });
+  }
 }
 
 export const filterPropsV1 = {
@@ -859,7 +1014,10 @@ export const filterPropsV1 = {
   enabled: null,
 
   invertTrendColor: null,
-  timezone: null
+  timezone: null,
+
+  // boolean filter group
+  groupId: null
 };
 
 export const propertiesV0 = {
@@ -884,6 +1042,14 @@ export const propertiesV1 = {
     version: VERSIONS.v1,
     properties: filterPropsV1
   }),
+  filterGroups: new FilterGroupSchema({
+    version: VERSIONS.v1,
+    properties: filterGroupPropsV1
+  }),
+  derivedFields: new DerivedFieldSchema({
+    version: VERSIONS.v1,
+    properties: derivedFieldPropsV1
+  }),
   layers: new LayerSchemaV0({
     version: VERSIONS.v1,
     properties: layerPropsV1
@@ -946,16 +1112,25 @@ export const visStateSchemaV1 = new VisStateSchemaV1({
   key: 'visState'
 });
 
+// v2 keeps the v1 visState layout
+export const visStateSchemaV2 = new VisStateSchemaV1({
+  version: VERSIONS.v2,
+  properties: propertiesV1,
+  key: 'visState'
+});
+
 export const visStateSchema: {
   v0: typeof visStateSchemaV0;
   v1: typeof visStateSchemaV1;
+  v2: typeof visStateSchemaV2;
 } = {
   // @ts-expect-error
   [VERSIONS.v0]: {
     save: toSave => visStateSchemaV0.save(toSave),
     load: toLoad => visStateSchemaV1.load(visStateSchemaV0.load(toLoad)?.visState)
   },
-  [VERSIONS.v1]: visStateSchemaV1
+  [VERSIONS.v1]: visStateSchemaV1,
+  [VERSIONS.v2]: visStateSchemaV2
 };
 
 // test load v0
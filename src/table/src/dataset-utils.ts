@@ -10,6 +10,7 @@ import {
   DatasetType,
   RasterTileDatasetMetadata,
   PMTilesType,
+  RasterTileType,
   RemoteTileFormat,
   VectorTileDatasetMetadata
 } from '@kepler.gl/constants';
@@ -19,11 +20,12 @@ import {
   datasetColorMaker,
   getApplicationConfig
 } from '@kepler.gl/utils';
-import {PMTilesSource, PMTilesMetadata} from '@loaders.gl/pmtiles';
+import {PMTilesMetadata} from '@loaders.gl/pmtiles';
 import {/* MVTSource,*/ TileJSON} from '@loaders.gl/mvt';
 
-import {getMVTMetadata} from './tileset/tileset-utils';
+import {getMVTMetadata, getPMTilesMetadata} from './tileset/tileset-utils';
 import {parseRasterMetadata} from './tileset/raster-tile-utils';
+import {getCOGMetadata} from './tileset/cog-utils';
 import {
   parseVectorMetadata,
   getFieldsFromTile,
@@ -175,8 +177,7 @@ async function refreshVectorTileMetadata(
     if (remoteTileFormat === RemoteTileFormat.MVT) {
       rawMetadata = await getMVTMetadata(tilesetMetadataUrl);
     } else {
-      const tileSource = PMTilesSource.createDataSource(tilesetMetadataUrl, {});
-      rawMetadata = await tileSource.metadata;
+      rawMetadata = await getPMTilesMetadata(tilesetMetadataUrl);
     }
 
     if (rawMetadata) {
@@ -198,16 +199,18 @@ async function refreshVectorTileMetadata(
 }
 
 async function refreshRasterTileMetadata(datasetInfo: CreateTableProps): Promise<any | null> {
-  const {metadataUrl, pmtilesType} = (datasetInfo.opts.metadata as RasterTileDatasetMetadata) || {};
+  const {metadataUrl, pmtilesType, rasterTileType} =
+    (datasetInfo.opts.metadata as RasterTileDatasetMetadata) || {};
 
   if (typeof metadataUrl !== 'string') {
     return null;
   }
 
   try {
-    if (pmtilesType === PMTilesType.RASTER) {
-      const tileSource = PMTilesSource.createDataSource(metadataUrl, {});
-      const rawMetadata: PMTilesMetadata = await tileSource.metadata;
+    if (rasterTileType === RasterTileType.COG) {
+      return await getCOGMetadata(metadataUrl);
+    } else if (pmtilesType === PMTilesType.RASTER) {
+      const rawMetadata = await getPMTilesMetadata(metadataUrl);
 
       if (rawMetadata) {
         return parseVectorMetadata(rawMetadata);
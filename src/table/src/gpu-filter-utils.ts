@@ -221,9 +221,11 @@ export function getGpuFilterProps(
   const channels: (Filter | undefined)[] = [];
 
   for (let i = 0; i < MAX_GPU_FILTERS; i++) {
+    // filters in a boolean group are composed on cpu
     const filter = filters.find(
       f =>
         f.gpu &&
+        !f.groupId &&
         f.dataId.includes(dataId) &&
         f.gpuChannel &&
         f.gpuChannel[f.dataId.indexOf(dataId)] === i
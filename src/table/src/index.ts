@@ -9,7 +9,10 @@ export {
   pinTableColumns,
   sortDatasetByColumn,
   copyTable,
-  maybeToDate
+  maybeToDate,
+  addDerivedField,
+  removeDerivedField,
+  addTableColumns
 } from './kepler-table';
 /* eslint-disable prettier/prettier */
 export type {
@@ -25,4 +28,6 @@ export * from './gpu-filter-utils';
 export * from './dataset-utils';
 export * from './tileset/tileset-utils';
 export * from './tileset/vector-tile-utils';
+export * from './tileset/table-join-utils';
 export * from './tileset/raster-tile-utils';
+export * from './tileset/cog-utils';
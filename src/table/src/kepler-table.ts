@@ -3,6 +3,7 @@
 
 import Console from 'global/console';
 import {ascending, descending} from 'd3-array';
+import isEqual from 'lodash/isEqual';
 
 import {
   TRIP_POINT_FIELDS,
@@ -17,6 +18,7 @@ import {
   FieldPair,
   FieldDomain,
   Filter,
+  FilterGroup,
   ProtoDataset,
   FilterRecord,
   FilterDatasetOpt,
@@ -46,7 +48,11 @@ import {
   getOrdinalDomain,
   getQuantileDomain,
   DataContainerInterface,
-  FilterChanged
+  FilterChanged,
+  appendDataContainerColumn,
+  removeDataContainerColumn,
+  evaluateExpression,
+  getExpressionValuesType
 } from '@kepler.gl/utils';
 import {generateHashId, notNullorUndefined} from '@kepler.gl/common-utils';
 
@@ -138,6 +144,7 @@ class KeplerTable<F extends Field = Field> {
   gpuFilter: GpuFilter;
   filterRecord?: FilterRecord;
   filterRecordCPU?: FilterRecord;
+  filterGroups?: FilterGroup[];
   changedFilters?: FilterChanged;
 
   // table-injected metadata
@@ -345,15 +352,28 @@ class KeplerTable<F extends Field = Field> {
    * @param opt
    */
   filterTable(filters: Filter[], layers: Layer[], opt?: FilterDatasetOpt): KeplerTable<Field> {
-    const {dataContainer, id: dataId, filterRecord: oldFilterRecord, fields} = this;
+    const {
+      dataContainer,
+      id: dataId,
+      filterRecord: oldFilterRecord,
+      filterGroups: oldFilterGroups,
+      fields
+    } = this;
+    const filterGroups = opt?.filterGroups || [];
 
     // if there is no filters
     const filterRecord = getFilterRecord(dataId, filters, opt || {});
 
     this.filterRecord = filterRecord;
+    // filter groups are only kept once used, datasets filtered without groups are unchanged
+    if (filterGroups.length || oldFilterGroups) {
+      this.filterGroups = filterGroups;
+    }
     this.gpuFilter = getGpuFilterProps(filters, dataId, fields, this.gpuFilter);
 
     this.changedFilters = diffFilters(filterRecord, oldFilterRecord);
+    // re-filter everything if the boolean composition of filters has changed
+    const groupsChanged = !isEqual(filterGroups, oldFilterGroups || []);
 
     if (!filters.length) {
       this.filteredIndex = this.allIndexes;
@@ -364,8 +384,8 @@ class KeplerTable<F extends Field = Field> {
     // generate 2 sets of filter result
     // filteredIndex used to calculate layer data
     // filteredIndexForDomain used to calculate layer Domain
-    const shouldCalDomain = Boolean(this.changedFilters.dynamicDomain);
-    const shouldCalIndex = Boolean(this.changedFilters.cpu);
+    const shouldCalDomain = Boolean(this.changedFilters.dynamicDomain) || groupsChanged;
+    const shouldCalIndex = Boolean(this.changedFilters.cpu) || groupsChanged;
 
     let filterResult: FilterResult = {};
     if (shouldCalDomain || shouldCalIndex) {
@@ -383,7 +403,7 @@ class KeplerTable<F extends Field = Field> {
       }, {});
 
       filterResult = filterDataByFilterTypes(
-        {dynamicDomainFilters, cpuFilters, filterFuncs},
+        {dynamicDomainFilters, cpuFilters, filterFuncs, filterGroups},
         dataContainer
       );
     }
@@ -399,11 +419,17 @@ class KeplerTable<F extends Field = Field> {
    * Apply filters to a dataset all on CPU, assign to `filteredIdxCPU`, `filterRecordCPU`
    * @param filters
    * @param layers
+   * @param filterGroups
    */
-  filterTableCPU(filters: Filter[], layers: Layer[]): KeplerTable<Field> {
+  filterTableCPU(
+    filters: Filter[],
+    layers: Layer[],
+    filterGroups?: FilterGroup[]
+  ): KeplerTable<Field> {
     const opt = {
       cpuOnly: true,
-      ignoreDomain: true
+      ignoreDomain: true,
+      filterGroups
     };
 
     // no filter
@@ -425,6 +451,8 @@ class KeplerTable<F extends Field = Field> {
 
     copied.filterRecord = this.filterRecordCPU;
     copied.filteredIndex = this.filteredIdxCPU || [];
+    // filter groups are not tracked for cpu filtering, always re-apply them
+    copied.filterGroups = undefined;
 
     const filtered = copied.filterTable(filters, layers, opt);
 
@@ -491,12 +519,15 @@ class KeplerTable<F extends Field = Field> {
         return getOrdinalDomain(dataContainer, valueAccessor);
 
       case SCALE_TYPES.quantile:
+      case SCALE_TYPES.jenks:
+      case SCALE_TYPES.stdDev:
         return getQuantileDomain(filteredIndexForDomain, indexValueAccessor, sortFunction);
 
       case SCALE_TYPES.log:
         return getLogDomain(filteredIndexForDomain, indexValueAccessor);
 
       case SCALE_TYPES.quantize:
+      case SCALE_TYPES.equalInterval:
       case SCALE_TYPES.linear:
       case SCALE_TYPES.sqrt:
       case SCALE_TYPES.custom:
@@ -673,6 +704,108 @@ export function pinTableColumns(dataset: KeplerTable<Field>, column: string): Ke
   return copyTableAndUpdate(dataset, {pinnedColumns});
 }
 
+/**
+ * Rebuild fields of a table with a new data container, field value accessors are bound to the data container
+ */
+function getFieldsWithDataContainer(
+  fields: Field[],
+  dataContainer: DataContainerInterface
+): Field[] {
+  return fields.map((f, i) => ({
+    ...f,
+    fieldIdx: i,
+    valueAccessor: getFieldValueAccessor(f, i, dataContainer)
+  }));
+}
+
+/**
+ * Add columns of computed values to the table, e.g. derived fields or the result of a spatial join.
+ * Throws an error if a name is already used
+ * @param dataset
+ * @param columns field and values, one for each row, of the new columns
+ * @returns a copy of the table with the new fields
+ */
+export function addTableColumns(
+  dataset: KeplerTable<Field>,
+  columns: {
+    field: Pick<Field, 'name' | 'type' | 'analyzerType'> & Partial<Field>;
+    values: any[];
+  }[]
+): KeplerTable<Field> {
+  let {dataContainer} = dataset;
+  const fields = [...dataset.fields];
+
+  columns.forEach(({field, values}) => {
+    if (fields.find(f => f.name === field.name)) {
+      throw new Error(`Field "${field.name}" already exists in ${dataset.label}`);
+    }
+    const newField = {
+      id: field.name,
+      displayName: field.name,
+      format: '',
+      ...field,
+      fieldIdx: fields.length
+    } as Field;
+    dataContainer = appendDataContainerColumn(dataContainer, fields, values, newField);
+    fields.push(newField);
+  });
+
+  return copyTableAndUpdate(dataset, {
+    dataContainer,
+    fields: getFieldsWithDataContainer(fields, dataContainer)
+  });
+}
+
+/**
+ * Add a derived field computed from an expression, e.g. `fare / distance` or `hour(pickup_time)`.
+ * The expression is evaluated on every row and stored as a new column of the table.
+ * Throws an error if the name is already used or the expression is invalid
+ * @param dataset
+ * @param derivedField name and expression of the new field
+ * @returns a copy of the table with the new field
+ */
+export function addDerivedField(
+  dataset: KeplerTable<Field>,
+  {name, expression}: {name: string; expression: string}
+): KeplerTable<Field> {
+  if (!name) {
+    throw new Error('Derived field name is empty');
+  }
+
+  const {dataContainer, fields} = dataset;
+  const values = evaluateExpression(expression, fields, dataContainer);
+  const {type, analyzerType} = getExpressionValuesType(values);
+
+  return addTableColumns(dataset, [{field: {name, type, analyzerType, expression}, values}]);
+}
+
+/**
+ * Remove a derived field from the table, fields after it are moved one index back
+ * @param dataset
+ * @param name name of the derived field
+ * @returns a copy of the table without the field
+ */
+export function removeDerivedField(dataset: KeplerTable<Field>, name: string): KeplerTable<Field> {
+  const {dataContainer, fields} = dataset;
+  const fieldIdx = fields.findIndex(f => f.name === name && f.expression);
+  if (fieldIdx < 0) {
+    return dataset;
+  }
+
+  const newDataContainer = removeDataContainerColumn(dataContainer, fields, fieldIdx);
+  const newFields = getFieldsWithDataContainer(
+    fields.filter((_, i) => i !== fieldIdx),
+    newDataContainer
+  );
+
+  return copyTableAndUpdate(dataset, {
+    dataContainer: newDataContainer,
+    fields: newFields,
+    fieldPairs: findPointFieldPairs(newFields),
+    gpuFilter: getGpuFilterProps([], dataset.id, newFields, undefined)
+  });
+}
+
 export function copyTable(original: KeplerTable<Field>): KeplerTable<Field> {
   return Object.assign(Object.create(Object.getPrototypeOf(original)), original);
 }
@@ -0,0 +1,132 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {RasterTileType} from '@kepler.gl/constants';
+
+import {
+  cogCoordinatesToLngLat,
+  cogInfoToMetadata,
+  getBandMinMax,
+  getCOGDataType,
+  getCOGEPSGCode,
+  getCOGZoomRange,
+  isCOGMetadata,
+  lngLatToCOGCoordinates
+} from './cog-utils';
+
+describe('getCOGDataType', () => {
+  [
+    {sampleFormat: undefined, bits: 8, expected: 'uint8'},
+    {sampleFormat: 1, bits: 16, expected: 'uint16'},
+    {sampleFormat: 2, bits: 16, expected: 'int16'},
+    {sampleFormat: 3, bits: 32, expected: 'float32'},
+    {sampleFormat: 3, bits: 8, expected: null},
+    {sampleFormat: 1, bits: 1, expected: null}
+  ].forEach(({sampleFormat, bits, expected}) => {
+    it(`SampleFormat ${sampleFormat}, ${bits} bits`, () => {
+      expect(getCOGDataType(sampleFormat, bits)).toEqual(expected);
+    });
+  });
+});
+
+describe('getCOGEPSGCode', () => {
+  it('should prefer the projected CRS', () => {
+    expect(getCOGEPSGCode({GeographicTypeGeoKey: 4326, ProjectedCSTypeGeoKey: 32633})).toEqual(
+      32633
+    );
+  });
+
+  it('should return the geographic CRS', () => {
+    expect(getCOGEPSGCode({GeographicTypeGeoKey: 4326})).toEqual(4326);
+  });
+
+  it('should return web mercator aliases as 3857', () => {
+    expect(getCOGEPSGCode({ProjectedCSTypeGeoKey: 900913})).toEqual(3857);
+  });
+
+  it('should return null without geo keys', () => {
+    expect(getCOGEPSGCode(null)).toEqual(null);
+  });
+});
+
+describe('lngLatToCOGCoordinates', () => {
+  it('should not convert EPSG:4326 coordinates', () => {
+    expect(lngLatToCOGCoordinates([10, 20], 4326)).toEqual([10, 20]);
+  });
+
+  it('should convert to web mercator and back', () => {
+    const [x, y] = lngLatToCOGCoordinates([180, 0], 3857);
+    expect(x).toBeCloseTo(20037508.34, 1);
+    expect(y).toBeCloseTo(0, 6);
+
+    const [lng, lat] = cogCoordinatesToLngLat(lngLatToCOGCoordinates([-73.5, 45.2], 3857), 3857);
+    expect(lng).toBeCloseTo(-73.5, 6);
+    expect(lat).toBeCloseTo(45.2, 6);
+  });
+});
+
+describe('getCOGZoomRange', () => {
+  it('should get zoom range from the resolution and overviews', () => {
+    // ~10m pixels in web mercator
+    expect(getCOGZoomRange(10, 3857, 4)).toEqual([8, 13]);
+    // the same resolution in degrees
+    expect(getCOGZoomRange(10 / 111319.49, 4326, 1)).toEqual([11, 13]);
+  });
+
+  it('should clamp the zoom range', () => {
+    expect(getCOGZoomRange(0.001, 3857, 1)).toEqual([22, 24]);
+    expect(getCOGZoomRange(1000000, 3857, 1)).toEqual([0, 0]);
+  });
+});
+
+describe('getBandMinMax', () => {
+  it('should skip no data and NaN values', () => {
+    expect(getBandMinMax(new Float32Array([-9999, 2, NaN, 5, 3]), -9999)).toEqual([2, 5]);
+  });
+
+  it('should return null without valid values', () => {
+    expect(getBandMinMax(new Uint8Array([0, 0]), 0)).toEqual(null);
+  });
+});
+
+describe('cogInfoToMetadata', () => {
+  it('should describe a COG as a STAC Item', () => {
+    const metadata = cogInfoToMetadata({
+      name: 'image.tif',
+      url: 'https://example.com/image.tif',
+      epsg: 4326,
+      bbox: [10, 40, 11, 41],
+      resolution: 10 / 111319.49,
+      imageCount: 1,
+      isRgb: true,
+      bands: [
+        {dataType: 'uint8', noData: 0, minimum: 1, maximum: 255},
+        {dataType: 'uint8', noData: 0},
+        {dataType: 'uint8', noData: 0},
+        {description: 'NIR', dataType: 'uint8', noData: null}
+      ]
+    });
+
+    expect(isCOGMetadata(metadata)).toEqual(true);
+    expect(metadata.rasterTileType).toEqual(RasterTileType.COG);
+    expect(metadata.bbox).toEqual([10, 40, 11, 41]);
+    expect([metadata.minZoom, metadata.maxZoom]).toEqual([11, 13]);
+    expect(metadata.assets.data.href).toEqual('https://example.com/image.tif');
+    expect(metadata.assets.data['eo:bands']).toEqual([
+      {name: 'band_1', common_name: 'red'},
+      {name: 'band_2', common_name: 'green'},
+      {name: 'band_3', common_name: 'blue'},
+      {name: 'band_4', common_name: 'nir', description: 'NIR'}
+    ]);
+    expect(metadata.assets.data['raster:bands']).toEqual([
+      {data_type: 'uint8', nodata: 0, statistics: {minimum: 1, maximum: 255}},
+      {data_type: 'uint8', nodata: 0},
+      {data_type: 'uint8', nodata: 0},
+      {data_type: 'uint8'}
+    ]);
+  });
+
+  it('should not be detected as COG metadata for a STAC Item', () => {
+    expect(isCOGMetadata({type: 'Feature', assets: {}})).toEqual(false);
+  });
+});
@@ -0,0 +1,384 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import type {GeoTIFF, TypedArrayArrayWithDimensions} from 'geotiff';
+
+import {RasterTileType} from '@kepler.gl/constants';
+import {StacTypes} from '@kepler.gl/types';
+
+type DataTypeOfTheBand = StacTypes.DataTypeOfTheBand;
+
+const EO_EXTENSION = 'https://stac-extensions.github.io/eo/v1.1.0/schema.json';
+const RASTER_EXTENSION = 'https://stac-extensions.github.io/raster/v1.1.0/schema.json';
+const COG_MEDIA_TYPE = 'image/tiff; application=geotiff; profile=cloud-optimized';
+
+/** Asset of the STAC Item describing a standalone COG */
+export const COG_ASSET_ID = 'data';
+
+const WEB_MERCATOR = 3857;
+const WGS84 = 4326;
+/** EPSG codes used for web mercator before 3857 was assigned */
+const WEB_MERCATOR_ALIASES = [3785, 900913, 102100, 102113];
+
+const EARTH_RADIUS = 6378137;
+const EARTH_CIRCUMFERENCE = 2 * Math.PI * EARTH_RADIUS;
+const MAX_MERCATOR_LATITUDE = 85.051129;
+const MAX_COG_ZOOM = 24;
+/** Width of the tiles read from a COG, in pixels */
+export const COG_TILE_SIZE = 512;
+/** Statistics are computed from the smallest overview only if it's smaller than this */
+const MAX_STATISTICS_PIXELS = 1024 * 1024;
+
+/** eo:common_name values recognized in GDAL band descriptions */
+const EO_COMMON_NAMES = [
+  'coastal',
+  'blue',
+  'green',
+  'red',
+  'yellow',
+  'pan',
+  'rededge',
+  'nir',
+  'nir08',
+  'nir09',
+  'cirrus',
+  'swir16',
+  'swir22',
+  'lwir',
+  'lwir11',
+  'lwir12'
+];
+
+/**
+ * Metadata of a standalone COG, in the shape of a single asset STAC Item so it can be
+ * rendered with the same presets and band combinations as STAC raster tiles
+ */
+export type COGMetadata = StacTypes.CompleteSTACItem & {
+  rasterTileType: RasterTileType.COG;
+  /** [west, south, east, north] bounds of the image in degrees */
+  bbox: number[];
+  /** EPSG code of the GeoTIFF CRS, 4326 or 3857 */
+  epsg: number;
+  minZoom: number;
+  maxZoom: number;
+};
+
+export type COGBandInfo = {
+  description?: string | null;
+  dataType: DataTypeOfTheBand | null;
+  noData: number | null;
+  minimum?: number | null;
+  maximum?: number | null;
+};
+
+export type COGInfo = {
+  name: string;
+  url: string;
+  epsg: number;
+  /** Bounds of the full resolution image in the GeoTIFF CRS */
+  bbox: number[];
+  /** Width of a pixel of the full resolution image in CRS units */
+  resolution: number;
+  /** Number of images in the file, the full resolution image and its overviews */
+  imageCount: number;
+  /** Whether the first three bands are red, green and blue */
+  isRgb: boolean;
+  bands: COGBandInfo[];
+};
+
+/**
+ * Whether raster tile metadata describes a standalone COG
+ */
+export function isCOGMetadata(metadata: unknown): metadata is COGMetadata {
+  return (metadata as COGMetadata | null)?.rasterTileType === RasterTileType.COG;
+}
+
+/**
+ * STAC data type of a GeoTIFF sample
+ * @param sampleFormat - TIFF SampleFormat, 1 unsigned int, 2 signed int, 3 float
+ * @param bitsPerSample - TIFF BitsPerSample
+ */
+export function getCOGDataType(
+  sampleFormat: number | undefined,
+  bitsPerSample: number
+): DataTypeOfTheBand | null {
+  const prefix = {1: 'uint', 2: 'int', 3: 'float'}[sampleFormat || 1];
+  const dataType = `${prefix}${bitsPerSample}`;
+  return [
+    'uint8',
+    'uint16',
+    'uint32',
+    'int8',
+    'int16',
+    'int32',
+    'float16',
+    'float32',
+    'float64'
+  ].includes(dataType)
+    ? (dataType as DataTypeOfTheBand)
+    : null;
+}
+
+/**
+ * EPSG code of the CRS of a GeoTIFF, web mercator aliases are returned as 3857
+ * @param geoKeys - GeoKeys of the first image
+ */
+export function getCOGEPSGCode(geoKeys: Record<string, any> | null): number | null {
+  // a projected CRS takes precedence over the geographic CRS it is based on
+  const code = geoKeys?.ProjectedCSTypeGeoKey || geoKeys?.GeographicTypeGeoKey || null;
+  return WEB_MERCATOR_ALIASES.includes(code) ? WEB_MERCATOR : code;
+}
+
+/**
+ * Whether tiles can be read from a GeoTIFF in this CRS without reprojecting it
+ */
+export function isSupportedCOGEPSGCode(epsg: number | null): boolean {
+  return epsg === WGS84 || epsg === WEB_MERCATOR;
+}
+
+/**
+ * Convert a longitude and latitude to the CRS of a GeoTIFF
+ */
+export function lngLatToCOGCoordinates([lng, lat]: number[], epsg: number): [number, number] {
+  if (epsg !== WEB_MERCATOR) {
+    return [lng, lat];
+  }
+  const clampedLat = Math.max(-MAX_MERCATOR_LATITUDE, Math.min(MAX_MERCATOR_LATITUDE, lat));
+  return [
+    (EARTH_RADIUS * lng * Math.PI) / 180,
+    EARTH_RADIUS * Math.log(Math.tan(Math.PI / 4 + (clampedLat * Math.PI) / 360))
+  ];
+}
+
+/**
+ * Convert coordinates in the CRS of a GeoTIFF to a longitude and latitude
+ */
+export function cogCoordinatesToLngLat([x, y]: number[], epsg: number): [number, number] {
+  if (epsg !== WEB_MERCATOR) {
+    return [x, y];
+  }
+  return [
+    (x / EARTH_RADIUS) * (180 / Math.PI),
+    (2 * Math.atan(Math.exp(y / EARTH_RADIUS)) - Math.PI / 2) * (180 / Math.PI)
+  ];
+}
+
+/**
+ * Convert a [west, south, east, north] longitude and latitude bounding box to the CRS of a GeoTIFF
+ */
+export function lngLatBBoxToCOGBBox(bbox: number[], epsg: number): number[] {
+  return [
+    ...lngLatToCOGCoordinates([bbox[0], bbox[1]], epsg),
+    ...lngLatToCOGCoordinates([bbox[2], bbox[3]], epsg)
+  ];
+}
+
+/**
+ * Zoom range to request tiles of a COG.
+ * The max zoom is the first zoom with tiles as detailed as the full resolution image,
+ * below the min zoom tiles would be read from overviews much bigger than a tile
+ * @param resolution - width of a pixel in CRS units
+ * @param epsg - EPSG code of the CRS
+ * @param imageCount - number of images, the full resolution image and its overviews
+ */
+export function getCOGZoomRange(
+  resolution: number,
+  epsg: number,
+  imageCount: number
+): [number, number] {
+  const metersPerPixel =
+    epsg === WEB_MERCATOR ? resolution : (resolution * EARTH_CIRCUMFERENCE) / 360;
+  const maxZoom =
+    metersPerPixel > 0
+      ? Math.max(
+          0,
+          Math.min(
+            MAX_COG_ZOOM,
+            Math.ceil(Math.log2(EARTH_CIRCUMFERENCE / (COG_TILE_SIZE * metersPerPixel)))
+          )
+        )
+      : MAX_COG_ZOOM;
+  return [Math.max(0, maxZoom - Math.max(1, imageCount) - 1), maxZoom];
+}
+
+/**
+ * Min and max values of a band, ignoring no data values
+ */
+export function getBandMinMax(
+  values: ArrayLike<number>,
+  noData: number | null
+): [number, number] | null {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value !== noData && !Number.isNaN(value)) {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+  }
+  return min <= max ? [min, max] : null;
+}
+
+/**
+ * Describe a COG as a STAC Item with a single asset holding all bands
+ */
+export function cogInfoToMetadata(info: COGInfo): COGMetadata {
+  const {name, url, epsg, bbox, resolution, imageCount, isRgb, bands} = info;
+  const [west, south] = cogCoordinatesToLngLat([bbox[0], bbox[1]], epsg);
+  const [east, north] = cogCoordinatesToLngLat([bbox[2], bbox[3]], epsg);
+  const [minZoom, maxZoom] = getCOGZoomRange(resolution, epsg, imageCount);
+
+  const getCommonName = ({description}: COGBandInfo, index: number) => {
+    const fromDescription = description?.toLowerCase();
+    if (fromDescription && EO_COMMON_NAMES.includes(fromDescription)) {
+      return fromDescription;
+    }
+    return isRgb && bands.length >= 3 ? ['red', 'green', 'blue'][index] : undefined;
+  };
+
+  return {
+    type: 'Feature',
+    stac_version: '1.0.0',
+    stac_extensions: [EO_EXTENSION, RASTER_EXTENSION],
+    id: name,
+    bbox: [west, south, east, north],
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [west, south],
+          [east, south],
+          [east, north],
+          [west, north],
+          [west, south]
+        ]
+      ]
+    },
+    links: [],
+    properties: {datetime: null},
+    assets: {
+      [COG_ASSET_ID]: {
+        href: url,
+        type: COG_MEDIA_TYPE,
+        roles: ['data'],
+        'eo:bands': bands.map((band, index) => {
+          const commonName = getCommonName(band, index);
+          return {
+            name: `band_${index + 1}`,
+            ...(commonName ? {common_name: commonName} : {}),
+            ...(band.description ? {description: band.description} : {})
+          };
+        }),
+        'raster:bands': bands.map(({dataType, noData, minimum, maximum}) => ({
+          ...(dataType ? {data_type: dataType} : {}),
+          ...(noData !== null ? {nodata: noData} : {}),
+          ...(typeof minimum === 'number' && typeof maximum === 'number'
+            ? {statistics: {minimum, maximum}}
+            : {})
+        }))
+      }
+    },
+    rasterTileType: RasterTileType.COG,
+    epsg,
+    minZoom,
+    maxZoom
+    // the generated STAC types describe bbox as an object with an index signature
+  } as unknown as COGMetadata;
+}
+
+// local files dropped on the map are read through object urls
+const cogFiles = new Map<string, Blob>();
+const openedCOGs = new Map<string, Promise<GeoTIFF>>();
+
+/**
+ * Create an url to read a local GeoTIFF file the same way as a remote COG
+ */
+export function registerCOGFile(file: Blob): string {
+  const url = URL.createObjectURL(file);
+  cogFiles.set(url, file);
+  return url;
+}
+
+/**
+ * Open a COG, only its header is read. Remote files are read with HTTP range requests
+ */
+export function openCOG(url: string): Promise<GeoTIFF> {
+  let tiff = openedCOGs.get(url);
+  if (!tiff) {
+    const file = cogFiles.get(url);
+    tiff = import('geotiff').then(({fromBlob, fromUrl}) => (file ? fromBlob(file) : fromUrl(url)));
+    // don't keep failed requests, so the file can be opened again
+    tiff.catch(() => openedCOGs.delete(url));
+    openedCOGs.set(url, tiff);
+  }
+  return tiff;
+}
+
+/**
+ * Read the header and GDAL metadata of a COG and describe it as a STAC Item.
+ * Band statistics are read from the GDAL metadata, or computed from the smallest overview
+ * @param url - url of the COG
+ * @param options.name - name of the dataset, defaults to the file name
+ */
+export async function getCOGMetadata(
+  url: string,
+  options: {name?: string} = {}
+): Promise<COGMetadata> {
+  const tiff = await openCOG(url);
+  const image = await tiff.getImage();
+  const imageCount = await tiff.getImageCount();
+
+  const epsg = getCOGEPSGCode(image.getGeoKeys());
+  if (!epsg || !isSupportedCOGEPSGCode(epsg)) {
+    throw new Error(
+      `GeoTIFF in ${epsg ? `EPSG:${epsg}` : 'an unknown CRS'} is not supported, ` +
+        'reproject it to EPSG:4326 or EPSG:3857'
+    );
+  }
+
+  const noData = image.getGDALNoData();
+  const sampleCount = image.getSamplesPerPixel();
+  const bands: COGBandInfo[] = [];
+  for (let sample = 0; sample < sampleCount; sample++) {
+    const gdalMetadata = image.getGDALMetadata(sample) || {};
+    const minimum = parseFloat(gdalMetadata.STATISTICS_MINIMUM);
+    const maximum = parseFloat(gdalMetadata.STATISTICS_MAXIMUM);
+    bands.push({
+      description: gdalMetadata.DESCRIPTION || null,
+      dataType: getCOGDataType(image.getSampleFormat(sample), image.getBitsPerSample(sample)),
+      noData,
+      ...(Number.isFinite(minimum) && Number.isFinite(maximum) ? {minimum, maximum} : {})
+    });
+  }
+
+  if (bands.some(band => band.minimum === undefined)) {
+    const overview = await tiff.getImage(imageCount - 1);
+    if (overview.getWidth() * overview.getHeight() <= MAX_STATISTICS_PIXELS) {
+      // bands are read as separate arrays when not interleaved
+      const rasters = (await overview.readRasters({
+        interleave: false
+      })) as TypedArrayArrayWithDimensions;
+      bands.forEach((band, sample) => {
+        const minMax = band.minimum === undefined ? getBandMinMax(rasters[sample], noData) : null;
+        if (minMax) {
+          [band.minimum, band.maximum] = minMax;
+        }
+      });
+    }
+  }
+
+  const {PhotometricInterpretation, Compression} = image.fileDirectory;
+  return cogInfoToMetadata({
+    name: options.name || url.split(/[?#]/)[0].split('/').pop() || url,
+    url,
+    epsg,
+    bbox: image.getBoundingBox(),
+    resolution: Math.abs(image.getResolution()[0]),
+    imageCount,
+    // 2 is RGB, 6 is YCbCr which is decoded to RGB for JPEG compression (7)
+    isRgb:
+      PhotometricInterpretation === 2 || (PhotometricInterpretation === 6 && Compression === 7),
+    bands
+  });
+}
@@ -0,0 +1,102 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {Field, TableJoin} from '@kepler.gl/types';
+
+import KeplerTable, {Datasets} from '../kepler-table';
+import {getTableJoinFields, getTableKeyIndex, isValidTableJoin} from './table-join-utils';
+
+function createMockTable(id: string, fields: Partial<Field>[], rows: unknown[][]): KeplerTable {
+  const tableFields = fields.map((f, fieldIdx) => ({...f, fieldIdx} as Field));
+  return {
+    id,
+    fields: tableFields,
+    dataContainer: {
+      numRows: () => rows.length,
+      valueAt: (rowIdx: number, fieldIdx: number) => rows[rowIdx][fieldIdx]
+    },
+    getColumnFieldIdx: (name: string) => tableFields.findIndex(f => f.name === name),
+    getColumnFilterProps: (name: string) => ({domain: [name]})
+  } as unknown as KeplerTable;
+}
+
+const TILE_DATASET = createMockTable(
+  'tiles',
+  [
+    {name: 'admin_id', type: 'string'},
+    {name: 'population', type: 'integer'}
+  ],
+  []
+);
+
+const TABLE = createMockTable(
+  'metrics',
+  [
+    {name: 'id', type: 'integer'},
+    {name: 'gdp', type: 'real'},
+    {name: 'population', type: 'integer'},
+    {name: '_geojson', type: 'geojson'}
+  ],
+  [
+    [1, 10.5, 100, null],
+    [2, 20.5, 200, null],
+    [1, 30.5, 300, null],
+    [null, 40.5, 400, null]
+  ]
+);
+
+const DATASETS: Datasets = {tiles: TILE_DATASET, metrics: TABLE};
+
+const TABLE_JOIN: TableJoin = {dataId: 'metrics', tileKey: 'admin_id', tableKey: 'id'};
+
+describe('isValidTableJoin', () => {
+  it('should require a table and both keys', () => {
+    expect(isValidTableJoin(TABLE_JOIN)).toBe(true);
+    expect(isValidTableJoin({dataId: 'metrics', tileKey: 'admin_id'})).toBe(false);
+    expect(isValidTableJoin(null)).toBe(false);
+  });
+});
+
+describe('getTableKeyIndex', () => {
+  it('should index rows by key as strings, keeping the first row of duplicated keys', () => {
+    const keyIndex = getTableKeyIndex(TABLE, 'id');
+    expect(Array.from(keyIndex.entries())).toEqual([
+      ['1', 0],
+      ['2', 1]
+    ]);
+    expect(getTableKeyIndex(TABLE, 'id')).toBe(keyIndex);
+  });
+});
+
+describe('getTableJoinFields', () => {
+  it('should add the fields of the joined table', () => {
+    const fields = getTableJoinFields(TILE_DATASET, [TABLE_JOIN], DATASETS);
+    expect(fields.map(f => f.name)).toEqual(['admin_id', 'population', 'gdp']);
+    expect(fields[2]).toMatchObject({
+      fieldIdx: 2,
+      type: 'real',
+      filterProps: {domain: ['gdp']},
+      joinedFrom: TABLE_JOIN
+    });
+  });
+
+  it('should return the same fields when the joins did not change', () => {
+    const fields = getTableJoinFields(TILE_DATASET, [TABLE_JOIN], DATASETS);
+    const joinedDataset = {...TILE_DATASET, fields} as KeplerTable;
+    expect(getTableJoinFields(joinedDataset, [TABLE_JOIN], DATASETS)).toBe(fields);
+  });
+
+  it('should remove joined fields of removed or invalid joins', () => {
+    const fields = getTableJoinFields(TILE_DATASET, [TABLE_JOIN], DATASETS);
+    const joinedDataset = {...TILE_DATASET, fields} as KeplerTable;
+    expect(getTableJoinFields(joinedDataset, [], DATASETS).map(f => f.name)).toEqual([
+      'admin_id',
+      'population'
+    ]);
+    expect(
+      getTableJoinFields(joinedDataset, [{...TABLE_JOIN, tableKey: 'missing'}], DATASETS).map(
+        f => f.name
+      )
+    ).toEqual(['admin_id', 'population']);
+  });
+});
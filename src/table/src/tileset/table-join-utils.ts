@@ -0,0 +1,109 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {ALL_FIELD_TYPES} from '@kepler.gl/constants';
+import {Field, TableJoin} from '@kepler.gl/types';
+import {DataContainerInterface} from '@kepler.gl/utils';
+
+import {default as KeplerTable, Datasets, getFieldValueAccessor} from '../kepler-table';
+
+/** Field types of a table that can't be joined to vector tile features */
+const UNJOINABLE_FIELD_TYPES: string[] = [ALL_FIELD_TYPES.geojson, ALL_FIELD_TYPES.geoarrow];
+
+/** Row index by key, for each key field of each table */
+const tableKeyIndexCache = new WeakMap<DataContainerInterface, Map<string, Map<string, number>>>();
+
+export function isValidTableJoin(tableJoin?: Partial<TableJoin> | null): tableJoin is TableJoin {
+  return Boolean(tableJoin?.dataId && tableJoin.tileKey && tableJoin.tableKey);
+}
+
+/**
+ * Get the index of the table rows by the values of the key field, keys are compared as strings.
+ * The first row of duplicated keys is used.
+ * @param table
+ * @param tableKey name of the key field
+ * @returns map from key to row index
+ */
+export function getTableKeyIndex(table: KeplerTable, tableKey: string): Map<string, number> {
+  const {dataContainer} = table;
+  let tableIndexes = tableKeyIndexCache.get(dataContainer);
+  if (!tableIndexes) {
+    tableIndexes = new Map();
+    tableKeyIndexCache.set(dataContainer, tableIndexes);
+  }
+
+  let keyIndex = tableIndexes.get(tableKey);
+  if (!keyIndex) {
+    keyIndex = new Map();
+    const fieldIdx = table.getColumnFieldIdx(tableKey);
+    if (fieldIdx > -1) {
+      for (let rowIdx = 0; rowIdx < dataContainer.numRows(); rowIdx++) {
+        const key = dataContainer.valueAt(rowIdx, fieldIdx);
+        if (key !== null && key !== undefined && !keyIndex.has(String(key))) {
+          keyIndex.set(String(key), rowIdx);
+        }
+      }
+    }
+    tableIndexes.set(tableKey, keyIndex);
+  }
+  return keyIndex;
+}
+
+/**
+ * Get the fields of a tiled dataset with the fields of the joined tables.
+ * Joined fields keep the filter props of the table so they can be used in visual channels and filters,
+ * fields with the same name as an existing field are skipped.
+ * @param dataset tiled dataset
+ * @param tableJoins joins of the layers of the tiled dataset
+ * @param datasets all datasets
+ * @returns fields of the tiled dataset, the same array if the joined fields didn't change
+ */
+export function getTableJoinFields(
+  dataset: KeplerTable,
+  tableJoins: (Partial<TableJoin> | null | undefined)[],
+  datasets: Datasets
+): Field[] {
+  const tileFields = dataset.fields.filter(f => !f.joinedFrom);
+  const fields: Field[] = [...tileFields];
+
+  tableJoins.filter(isValidTableJoin).forEach(tableJoin => {
+    const table = datasets[tableJoin.dataId];
+    if (!table || table.id === dataset.id || table.getColumnFieldIdx(tableJoin.tableKey) < 0) {
+      return;
+    }
+    table.fields.forEach(field => {
+      if (
+        field.name === tableJoin.tableKey ||
+        UNJOINABLE_FIELD_TYPES.includes(field.type) ||
+        fields.some(f => f.name === field.name)
+      ) {
+        return;
+      }
+      const fieldIdx = fields.length;
+      fields.push({
+        ...field,
+        fieldIdx,
+        filterProps: table.getColumnFilterProps(field.name) ?? undefined,
+        valueAccessor: getFieldValueAccessor(field, fieldIdx, dataset.dataContainer),
+        joinedFrom: tableJoin
+      });
+    });
+  });
+
+  const joinedFields = fields.slice(tileFields.length);
+  const currentJoinedFields = dataset.fields.slice(tileFields.length);
+  const isUnchanged =
+    joinedFields.length === currentJoinedFields.length &&
+    joinedFields.every(
+      (f, i) =>
+        f.name === currentJoinedFields[i].name &&
+        f.type === currentJoinedFields[i].type &&
+        isSameTableJoin(f.joinedFrom, currentJoinedFields[i].joinedFrom)
+    );
+
+  return isUnchanged ? dataset.fields : fields;
+}
+
+function isSameTableJoin(a?: TableJoin, b?: TableJoin): boolean {
+  return a?.dataId === b?.dataId && a?.tileKey === b?.tileKey && a?.tableKey === b?.tableKey;
+}
@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {PMTilesSource} from '@loaders.gl/pmtiles';
+
+import {getPMTilesMetadata} from './tileset-utils';
+import {PMTILES_METADATA} from '../../../../test/fixtures/tile-metadata';
+
+function mockPMTilesSource(getMetadata: () => Promise<unknown>) {
+  return jest
+    .spyOn(PMTilesSource, 'createDataSource')
+    .mockImplementation(
+      () =>
+        ({metadata: getMetadata()} as unknown as ReturnType<typeof PMTilesSource.createDataSource>)
+    );
+}
+
+describe('getPMTilesMetadata', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return null without url', async () => {
+    const createDataSource = mockPMTilesSource(() => Promise.resolve(PMTILES_METADATA));
+    expect(await getPMTilesMetadata(null)).toBeNull();
+    expect(createDataSource).not.toHaveBeenCalled();
+  });
+
+  it('should read the metadata of the archive', async () => {
+    const createDataSource = mockPMTilesSource(() => Promise.resolve(PMTILES_METADATA));
+
+    expect(await getPMTilesMetadata('https://example.com/tiles.pmtiles')).toEqual(PMTILES_METADATA);
+    expect(createDataSource).toHaveBeenCalledWith('https://example.com/tiles.pmtiles', {});
+  });
+
+  it('should throw errors of reading the archive', async () => {
+    mockPMTilesSource(() => Promise.reject(new Error('Invalid magic number')));
+
+    await expect(getPMTilesMetadata('https://example.com/tiles.pmtiles')).rejects.toThrow(
+      'Invalid magic number'
+    );
+  });
+});
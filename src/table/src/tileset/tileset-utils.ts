@@ -2,6 +2,7 @@
 // Copyright contributors to the kepler.gl project
 
 import {TileJSONLoader, TileJSON} from '@loaders.gl/mvt';
+import {PMTilesSource, PMTilesMetadata} from '@loaders.gl/pmtiles';
 
 /**
  * MVTSource in current loaders ignores attribution
@@ -35,3 +36,18 @@ export async function getMVTMetadata(metadataURL: string | null): Promise<TileJS
 
   return metadata;
 }
+
+/**
+ * Read the header and the metadata of a PMTiles archive with range requests.
+ * Zoom range, bounds, center and tile type come from the header,
+ * layers and attributes from the json metadata.
+ * Errors of reading the archive are thrown, so callers can surface them
+ */
+export async function getPMTilesMetadata(
+  pmtilesURL: string | null
+): Promise<PMTilesMetadata | null> {
+  if (!pmtilesURL) return null;
+
+  const tileSource = PMTilesSource.createDataSource(pmtilesURL, {});
+  return (await tileSource.metadata) || null;
+}
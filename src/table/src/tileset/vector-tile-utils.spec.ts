@@ -201,6 +201,37 @@ test('parseMetadata, empty input', () => {
   });
 });
 
+test('parseMetadata, string attribute of time values', () => {
+  const metadata = parseMetadata({
+    metaJson: {
+      tilestats: {
+        layers: [
+          {
+            attributes: [
+              {attribute: 'date', type: 'string', values: ['2020-01-03', '2020-01-01']},
+              {attribute: 'name', type: 'string', values: ['spam', 'eggs']}
+            ]
+          }
+        ]
+      }
+    }
+  } as any);
+
+  expect(metadata?.fields[0]).toEqual(
+    expect.objectContaining({
+      name: 'date',
+      type: ALL_FIELD_TYPES.timestamp,
+      filterProps: expect.objectContaining({
+        domain: [Date.UTC(2020, 0, 1), Date.UTC(2020, 0, 3)],
+        type: FILTER_TYPES.timeRange,
+        mappedValue: [],
+        gpu: true
+      })
+    })
+  );
+  expect(metadata?.fields[1].type).toEqual(ALL_FIELD_TYPES.string);
+});
+
 describe('parseMetadata, bad cases', () => {
   [
     {name: 'empty string', input: '', expected: null},
@@ -21,18 +21,27 @@ import {
   DatasetType,
   ALL_FIELD_TYPES,
   FILTER_TYPES,
+  FILTER_VIEW_TYPES,
   PMTilesType,
   RemoteTileFormat
 } from '@kepler.gl/constants';
 
 import {Feature, Field as KeplerField, KeplerLayer} from '@kepler.gl/types';
-import {clamp, formatNumberByStep, getNumericStepSize, timeToUnixMilli} from '@kepler.gl/utils';
+import {
+  clamp,
+  formatNumberByStep,
+  getNumericStepSize,
+  getTimeWidgetTitleFormatter,
+  timeToUnixMilli,
+  TimestampStepMap
+} from '@kepler.gl/utils';
 
 import {
   FilterProps,
   NumericFieldFilterProps,
   BooleanFieldFilterProps,
   StringFieldFilterProps,
+  TimeFieldFilterProps,
   default as KeplerDataset
 } from '../kepler-table';
 
@@ -506,7 +515,8 @@ function compare(num1: number | undefined, num2: number | undefined, operator: s
 
 export function getFilterProps(
   fieldType: string,
-  attribute: TippecanoeLayerAttribute
+  attribute: TippecanoeLayerAttribute,
+  format = ''
 ): FilterProps {
   switch (fieldType) {
     case ALL_FIELD_TYPES.real:
@@ -529,6 +539,26 @@ export function getFilterProps(
       return filterProps;
     }
 
+    case ALL_FIELD_TYPES.timestamp: {
+      // the domain is merged with values of loaded tiles, attribute values are only a sample
+      const [min, max] = getAttributeTimeDomain(attribute, format);
+      // in case equal timestamp add 1 second padding to prevent break
+      const domain: [number, number] = [min, max > min ? max : min + 1000];
+      const step = TimestampStepMap.find(f => f.max >= max - min)?.step ?? 0.01;
+      const filterProps: TimeFieldFilterProps = {
+        domain,
+        value: domain,
+        step,
+        mappedValue: [],
+        defaultTimeFormat: getTimeWidgetTitleFormatter(domain),
+        type: FILTER_TYPES.timeRange,
+        view: FILTER_VIEW_TYPES.enlarged,
+        fixedDomain: true,
+        gpu: true
+      };
+      return filterProps;
+    }
+
     case ALL_FIELD_TYPES.boolean: {
       const filterProps: BooleanFieldFilterProps = {
         domain: [true, false],
@@ -559,6 +589,19 @@ function attributeToField(attribute: TippecanoeLayerAttribute = {values: []}): V
   // min: 0.24375
   // type: "number"
   const fieldTypes = attributeTypeToFieldType(attribute.type);
+  const timeType =
+    fieldTypes.type === ALL_FIELD_TYPES.string ? getAttributeTimeType(attribute) : null;
+  if (timeType) {
+    // string attribute of time values, e.g. "2020-01-01 12:00"
+    return {
+      name: attribute.attribute as string,
+      id: attribute.attribute as string,
+      format: timeType.format,
+      filterProps: getFilterProps(ALL_FIELD_TYPES.timestamp, attribute, timeType.format),
+      type: ALL_FIELD_TYPES.timestamp,
+      analyzerType: timeType.type
+    };
+  }
   return {
     name: attribute.attribute as string,
     id: attribute.attribute as string,
@@ -568,6 +611,27 @@ function attributeToField(attribute: TippecanoeLayerAttribute = {values: []}): V
   };
 }
 
+/**
+ * Analyze the sample values of a string attribute, returns the time type and format if all of them are time
+ */
+function getAttributeTimeType(
+  attribute: TippecanoeLayerAttribute
+): {type: string; format: string} | null {
+  const values = ((attribute.values ?? []) as (string | number)[]).filter(notNullOrUndefined);
+  if (!values.length || values.some(v => typeof v !== 'string')) {
+    return null;
+  }
+  const analyzedType = containValidTime(values as string[]);
+  return analyzedType ? {type: analyzedType.type, format: analyzedType.format} : null;
+}
+
+function getAttributeTimeDomain(attribute: TippecanoeLayerAttribute, format: string): number[] {
+  const timestamps = ((attribute.values ?? []) as (string | number)[])
+    .map(v => timeToUnixMilli(v, format))
+    .filter(Number.isFinite) as number[];
+  return timestamps.length ? [Math.min(...timestamps), Math.max(...timestamps)] : [NaN, NaN];
+}
+
 function getAttributeDomain(type: string | null, attribute: TippecanoeLayerAttribute): number[] {
   switch (type) {
     case ALL_FIELD_TYPES.real:
@@ -598,6 +662,15 @@ function mergeAttributeDomain(field: KeplerField, attribute: TippecanoeLayerAttr
       }
       return;
     }
+    case ALL_FIELD_TYPES.timestamp: {
+      const domain = field.filterProps?.domain;
+      if (domain) {
+        const [min, max] = getAttributeTimeDomain(attribute, field.format);
+        domain[0] = compare(min, domain[0], 'min');
+        domain[1] = compare(max, domain[1], 'max');
+      }
+      return;
+    }
     default:
       return;
   }
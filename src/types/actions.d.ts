@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: MIT
 // Copyright contributors to the kepler.gl project
 
-import {SavedMap, ParsedConfig, SavedConfigV1, MinSavedConfigV1} from './schemas';
+import {SavedMap, ParsedConfig, SavedConfigV1, SavedConfigV2, MinSavedConfigV1} from './schemas';
 
 /** EXPORT_FILE_TO_CLOUD */
 export type MapData = {
@@ -68,6 +68,8 @@ export type AddDataToMapOptions = {
   keepExistingConfig?: boolean;
   autoCreateLayers?: boolean;
   autoCreateTooltips?: boolean;
+  // reject config that fails validation instead of dropping invalid parts
+  strict?: boolean;
 };
 
 export type AddDataToMapPayload = {
@@ -77,6 +79,6 @@ export type AddDataToMapPayload = {
   // as the field is called `datasets`
   datasets: ProtoDataset[] | ProtoDataset;
   options?: AddDataToMapOptions;
-  config?: ParsedConfig | SavedConfigV1 | MinSavedConfigV1;
+  config?: ParsedConfig | SavedConfigV1 | SavedConfigV2 | MinSavedConfigV1;
   info?: Partial<MapInfo>;
 };
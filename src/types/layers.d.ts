@@ -30,6 +30,12 @@ export type LayerBaseConfig = {
   aggregatedBins?: AggregatedBin[];
 
   columnMode?: string;
+  /** blend mode of the layer, overrides the global layer blending */
+  blendMode?: string | null;
+  /** id of the layer used as a mask, the layer is only drawn inside the mask layer */
+  maskLayerId?: string | null;
+  /** join of the features of a vector tile layer to the rows of a table */
+  tableJoin?: Partial<TableJoin> | null;
   heightField?: VisualChannelField;
   heightDomain?: VisualChannelDomain;
   heightScale?: string;
@@ -134,6 +140,22 @@ export type Field = {
   displayFormat?: string;
   isLoadingStats?: boolean;
   indexBy?: IndexBy;
+  // expression of a derived field computed from other fields
+  expression?: string;
+  // join of a vector tile field, values are read from the table row matching the feature key
+  joinedFrom?: TableJoin;
+};
+
+/**
+ * Join of vector tile features to the rows of a table with the same key
+ */
+export type TableJoin = {
+  /** id of the joined table */
+  dataId: string;
+  /** name of the feature property holding the key */
+  tileKey: string;
+  /** name of the table field holding the key */
+  tableKey: string;
 };
 
 export type FieldPair = {
@@ -191,6 +213,16 @@ export type ColorRange = {
   reversed?: boolean;
   colorMap?: ColorMap | null;
   colorLegends?: ColorLegends;
+  // colors of a bivariate color range are a cols x rows matrix, row major starting from
+  // the lowest class of both fields
+  bivariate?: BivariateColorMatrix;
+};
+
+export type BivariateColorMatrix = {
+  // number of classes of the first field
+  cols: number;
+  // number of classes of the second field
+  rows: number;
 };
 
 export type MiniColorRange = {
@@ -287,7 +319,19 @@ export type VisConfigColorRange = VisConfig & {
   defaultValue: ColorRange;
 };
 
+/** A field of the dataset rendered with a color */
+export type FieldColor = {
+  name: string;
+  color: RGBColor;
+};
+
+export type VisConfigFieldColors = VisConfig & {
+  type: 'field-colors';
+  defaultValue: FieldColor[];
+};
+
 export type LayerVisConfigTypes =
+  | VisConfigFieldColors
   | VisConfigBoolean
   | VisConfigNumber
   | VisConfigRange
@@ -341,6 +385,18 @@ export type LayerVisConfigSettings = {
   allowHover: VisConfigBoolean;
   showNeighborOnHover: VisConfigBoolean;
   showHighlightColor: VisConfigBoolean;
+  flowCurveness: VisConfigNumber;
+  flowArrows: VisConfigBoolean;
+  flowLocations: VisConfigBoolean;
+  contourBands: VisConfigBoolean;
+  contourLines: VisConfigBoolean;
+  voronoiClip: VisConfigSelection;
+  voronoiDelaunay: VisConfigBoolean;
+  cellRollup: VisConfigBoolean;
+  dotsPerUnit: VisConfigNumber;
+  dotDensityFields: VisConfigFieldColors;
+  glyphType: VisConfigSelection;
+  glyphFields: VisConfigFieldColors;
   [key: string]: LayerVisConfigTypes;
 };
 
@@ -412,6 +468,7 @@ export type LayerTextConfig = {
 export type LayerCallbacks = {
   onLayerHover?: (idx: number, value: any) => void;
   onSetLayerDomain?: (idx: number, value: any) => void;
+  onTileStatsChange?: (idx: number) => void;
   onFilteredItemsChange?: (
     idx: number,
     event: {
@@ -424,6 +481,7 @@ export type LayerCallbacks = {
 export type BindedLayerCallbacks = {
   onLayerHover?: (value: any) => void;
   onSetLayerDomain?: (value: any) => void;
+  onTileStatsChange?: () => void;
   onFilteredItemsChange?: (event: {id: string; count: number}) => void;
 };
 
@@ -464,6 +522,14 @@ export type VisualChannel = {
   supportedFieldTypes?: Array<SupportedFieldTypes>;
 
   aggregation?: VisualChannelAggregation;
+
+  // second field of a bivariate color channel
+  bivariate?: VisualChannelBivariate;
+};
+
+export type VisualChannelBivariate = {
+  field: string;
+  domain: string;
 };
 
 export type VisualChannels = {[key: string]: VisualChannel};
@@ -117,6 +117,42 @@ export type FilterBase<L extends LineChart> = {
 
   // polygon
   layerId?: string[];
+
+  // filter group this filter belongs to
+  groupId?: string | null;
+};
+
+export type FilterGroupOperator = 'and' | 'or' | 'not';
+
+export type FilterGroup = {
+  id: string;
+  operator: FilterGroupOperator;
+  // id of the parent group, top level groups are combined with ungrouped filters using AND
+  parentId: string | null;
+};
+
+export type DerivedField = {
+  id: string;
+  dataId: string;
+  name: string;
+  // expression evaluated on each row, e.g. `fare / distance` or `hour(pickup_time)`
+  expression: string;
+};
+
+export type SpatialJoinOptions = {
+  /** `polygonAttributes` or `pointAggregation` */
+  joinType: string;
+  /**
+   * polygonAttributes: polygon fields added to the points, the polygon row index is added when empty.
+   * pointAggregation: numeric point fields to aggregate, points are always counted
+   */
+  fields?: string[];
+  /** pointAggregation: `sum` and / or `average` of each field */
+  aggregations?: string[];
+  /** name of the lat / lng field pair of the points, the first pair by default */
+  pointColumns?: string;
+  /** name of the geojson field of the polygons, the first geojson field by default */
+  polygonField?: string;
 };
 
 export type RangeFilter = FilterBase<LineChart> &
@@ -371,6 +407,7 @@ export type BaseMapStyle = {
 };
 
 export declare type ExportImage = {
+  format?: 'PNG' | 'SVG' | 'PDF';
   ratio: 'SCREEN' | 'FOUR_BY_THREE' | 'SIXTEEN_BY_NINE' | 'CUSTOM';
   resolution: 'ONE_X' | 'TWO_X';
   legend: boolean;
@@ -389,6 +426,26 @@ export declare type ExportImage = {
   center: boolean;
 };
 
+export declare type ExportVideo = {
+  format: 'WEBM' | 'GIF';
+  source: 'FILTER' | 'LAYER';
+  filterId: string | null;
+  ratio: 'SCREEN' | 'FOUR_BY_THREE' | 'SIXTEEN_BY_NINE' | 'CUSTOM';
+  resolution: 'ONE_X' | 'TWO_X';
+  frameRate: number;
+  duration: number;
+  mapH: number;
+  mapW: number;
+  imageSize: {
+    scale: number;
+    imageW: number;
+    imageH: number;
+  };
+  exporting: boolean;
+  progress: number;
+  error: Error | false;
+};
+
 export type ExportData = {
   selectedDataset: string;
   dataType: string;
@@ -466,6 +523,8 @@ export type UiState = {
   visibleDropdown: string | null;
   // export image modal ui
   exportImage: ExportImage;
+  // export video modal ui
+  exportVideo: ExportVideo;
   // export data modal ui
   exportData: ExportData;
   // html export
@@ -551,6 +610,8 @@ export type FilterDatasetOpt = {
   cpuOnly?: boolean;
   // ignore filter for domain calculation
   ignoreDomain?: boolean;
+  // boolean groups used to compose filters
+  filterGroups?: FilterGroup[];
 };
 
 /* DUPLICATES OF FILTER TYPES ABOVE, REMOVE ONCE TYPES ABOVE ARE FIXED */
@@ -3,9 +3,17 @@
 
 import {RGBColor, Merge, RequireFrom} from './types';
 
-import {Filter, InteractionConfig, AnimationConfig, SplitMap, Feature} from './reducers';
+import {
+  Filter,
+  FilterGroup,
+  DerivedField,
+  InteractionConfig,
+  AnimationConfig,
+  SplitMap,
+  Feature
+} from './reducers';
 
-import {LayerTextLabel} from './layers';
+import {LayerTextLabel, TableJoin} from './layers';
 
 export type SavedFilter = {
   dataId: Filter['dataId'];
@@ -25,6 +33,7 @@ export type SavedFilter = {
   layerId: Filter['layerId'];
   syncedWithLayerTimeline: Filter['syncedWithLayerTimeline'];
   syncTimelineMode: Filter['syncTimelineMode'];
+  groupId?: Filter['groupId'];
 };
 export type MinSavedFilter = RequireFrom<SavedFilter, 'dataId' | 'id' | 'name' | 'type' | 'value'>;
 export type ParsedFilter = SavedFilter | MinSavedFilter;
@@ -64,6 +73,9 @@ export type SavedLayer = {
     isVisible: boolean;
     visConfig: Record<string, any>;
     hidden: boolean;
+    blendMode?: string | null;
+    maskLayerId?: string | null;
+    tableJoin?: Partial<TableJoin> | null;
     textLabel: Merge<LayerTextLabel, {field: {name: string; type: string} | null}>;
   };
   visualChannels: SavedVisualChannels;
@@ -96,8 +108,14 @@ export type SavedEditor = {
   visible: boolean;
 };
 
+export type SavedFilterGroup = FilterGroup;
+
+export type SavedDerivedField = DerivedField;
+
 export type SavedVisState = {
   filters: SavedFilter[];
+  filterGroups?: SavedFilterGroup[];
+  derivedFields?: SavedDerivedField[];
   layers: SavedLayer[];
   effects: SavedEffect[];
   interactionConfig: SavedInteractionConfig;
@@ -111,6 +129,8 @@ export type SavedVisState = {
 // Min saved config can be passed to addDataToMap
 export type MinSavedVisStateV1 = {
   filters?: MinSavedFilter[];
+  filterGroups?: SavedFilterGroup[];
+  derivedFields?: SavedDerivedField[];
   layers?: MinSavedLayer[];
   effects?: SavedEffect[];
   interactionConfig?: Partial<SavedInteractionConfig>;
@@ -125,6 +145,8 @@ export type ParsedVisState = {
   layers?: ParsedLayer[];
   effects?: ParsedEffect[];
   filters?: ParsedFilter[];
+  filterGroups?: SavedFilterGroup[];
+  derivedFields?: SavedDerivedField[];
   effects?: ParsedEffect[];
   interactionConfig?: Partial<SavedInteractionConfig>;
   layerBlending?: string;
@@ -197,9 +219,15 @@ export type SavedConfigV1 = {
   };
 };
 
+/** Schema for v2 saved configuration, v2 keeps the v1 layout */
+export type SavedConfigV2 = {
+  version: 'v2';
+  config: SavedConfigV1['config'];
+};
+
 // supported by addDataToMap
 export type MinSavedConfigV1 = {
-  version: 'v1';
+  version: 'v1' | 'v2';
   config: {
     visState?: MinSavedVisStateV1;
     mapState?: MinSavedMapStateV1;
@@ -227,7 +255,8 @@ export type ParsedField = {
 };
 
 export type SavedDatasetV1 = {
-  version: 'v1';
+  // v2 datasets share the v1 layout
+  version: 'v1' | 'v2';
   data: {
     id: string;
     label: string;
@@ -251,7 +280,7 @@ export type ParsedDataset = {
 
 export type SavedMap = {
   datasets: SavedDatasetV1[];
-  config: SavedConfigV1;
+  config: SavedConfigV1 | SavedConfigV2;
   info: {
     app: string;
     created_at: string;
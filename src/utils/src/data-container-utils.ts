@@ -1,6 +1,9 @@
 // SPDX-License-Identifier: MIT
 // Copyright contributors to the kepler.gl project
 
+import * as arrow from 'apache-arrow';
+import {ALL_FIELD_TYPES} from '@kepler.gl/constants';
+
 import {ArrowDataContainer} from './arrow-data-container';
 import {RowDataContainer} from './row-data-container';
 import {IndexedDataContainer} from './indexed-data-container';
@@ -75,3 +78,100 @@ export function getSampleData(
 
   return createIndexedDataContainer(dataContainer, indices);
 }
+
+// integers outside of Int32 range are stored as Float64
+const isInt32 = (v: number) => v >= -2147483648 && v <= 2147483647;
+
+/**
+ * Get arrow data type to store values of a field
+ */
+function getArrowTypeForField(field: ProtoDatasetField, values: any[]): arrow.DataType {
+  switch (field.type) {
+    case ALL_FIELD_TYPES.integer:
+      return values.every(v => v === null || v === undefined || isInt32(v))
+        ? new arrow.Int32()
+        : new arrow.Float64();
+    case ALL_FIELD_TYPES.real:
+      return new arrow.Float64();
+    case ALL_FIELD_TYPES.boolean:
+      return new arrow.Bool();
+    default:
+      return new arrow.Utf8();
+  }
+}
+
+/**
+ * Creates a new data container with an extra column appended after the existing ones.
+ * @param dataContainer Data container to copy.
+ * @param fields Fields of the data container.
+ * @param values Values of the new column, one for each row.
+ * @param field Field of the new column.
+ * @returns A new data container, the original data container is not modified.
+ */
+export function appendDataContainerColumn(
+  dataContainer: DataContainerInterface,
+  fields: ProtoDatasetField[],
+  values: any[],
+  field: ProtoDatasetField
+): DataContainerInterface {
+  const newFields = [...fields, field];
+
+  if (dataContainer instanceof ArrowDataContainer) {
+    const cols = [...Array(dataContainer.numColumns()).keys()].map(i => dataContainer.getColumn(i));
+    const vector = arrow.vectorFromArray(
+      field.type === ALL_FIELD_TYPES.string
+        ? values.map(v => (v === null ? v : String(v)))
+        : values,
+      getArrowTypeForField(field, values)
+    );
+    return new ArrowDataContainer({cols: [...cols, vector], fields: newFields});
+  }
+
+  if (dataContainer instanceof IndexedDataContainer) {
+    // append to the parent data container, rows not in the index get null values
+    const parent = dataContainer._parentDataContainer;
+    const parentValues = new Array(parent.numRows()).fill(null);
+    dataContainer._indices.forEach((rowIndex, i) => {
+      parentValues[rowIndex] = values[i];
+    });
+    return createIndexedDataContainer(
+      appendDataContainerColumn(parent, fields, parentValues, field),
+      dataContainer._indices
+    );
+  }
+
+  const rows = dataContainer.flattenData().map((row, i) => [...row, values[i]]);
+  return new RowDataContainer({rows, fields: newFields});
+}
+
+/**
+ * Creates a new data container without the column at the specified index.
+ * @param dataContainer Data container to copy.
+ * @param fields Fields of the data container.
+ * @param columnIndex Index of the column to remove.
+ * @returns A new data container, the original data container is not modified.
+ */
+export function removeDataContainerColumn(
+  dataContainer: DataContainerInterface,
+  fields: ProtoDatasetField[],
+  columnIndex: number
+): DataContainerInterface {
+  const newFields = fields.filter((_, i) => i !== columnIndex);
+
+  if (dataContainer instanceof ArrowDataContainer) {
+    const cols = [...Array(dataContainer.numColumns()).keys()]
+      .filter(i => i !== columnIndex)
+      .map(i => dataContainer.getColumn(i));
+    return new ArrowDataContainer({cols, fields: newFields});
+  }
+
+  if (dataContainer instanceof IndexedDataContainer) {
+    return createIndexedDataContainer(
+      removeDataContainerColumn(dataContainer._parentDataContainer, fields, columnIndex),
+      dataContainer._indices
+    );
+  }
+
+  const rows = dataContainer.flattenData().map(row => row.filter((_, i) => i !== columnIndex));
+  return new RowDataContainer({rows, fields: newFields});
+}
@@ -1,12 +1,18 @@
 // SPDX-License-Identifier: MIT
 // Copyright contributors to the kepler.gl project
 
-import {bisectLeft, quantileSorted as d3Quantile, extent} from 'd3-array';
+import {bisectLeft, quantileSorted as d3Quantile, extent, mean, deviation} from 'd3-array';
 import uniq from 'lodash/uniq';
 import moment from 'moment';
 
 import {notNullorUndefined, toArray} from '@kepler.gl/common-utils';
-import {ALL_FIELD_TYPES, SCALE_FUNC, SCALE_TYPES, NO_VALUE_COLOR} from '@kepler.gl/constants';
+import {
+  ALL_FIELD_TYPES,
+  CLASSIFICATION_SCALE_TYPES,
+  SCALE_FUNC,
+  SCALE_TYPES,
+  NO_VALUE_COLOR
+} from '@kepler.gl/constants';
 // import {FilterProps, KeplerTable} from '@kepler.gl/layers';
 import {
   AggregatedBin,
@@ -97,6 +103,122 @@ export function getLogDomain(data: any[], valueAccessor: dataValueAccessor): [nu
   return [d0 === 0 ? 1e-5 : d0, d1];
 }
 
+// max number of values to compute jenks natural breaks, the algorithm is O(n^2)
+const JENKS_MAX_SAMPLE_SIZE = 1000;
+
+/**
+ * Evenly sample a sorted array, keeping the first and the last values
+ */
+function sampleSortedValues(values: number[], size: number): number[] {
+  if (values.length <= size) {
+    return values;
+  }
+  return Array.from(
+    {length: size},
+    (_, i) => values[Math.round((i * (values.length - 1)) / (size - 1))]
+  );
+}
+
+/**
+ * return breaks that divide a linear domain into classes of equal interval
+ */
+export function getEqualIntervalBreaks(domain: number[], numClasses: number): number[] {
+  const [min, max] = [domain[0], domain[domain.length - 1]];
+  if (!isNumber(min) || !isNumber(max) || numClasses < 2) {
+    return [];
+  }
+  const step = (max - min) / numClasses;
+  return Array.from({length: numClasses - 1}, (_, i) => min + step * (i + 1));
+}
+
+/**
+ * return jenks natural breaks of sorted values, computed with Fisher's exact optimization
+ * which minimizes the sum of squared deviations of each class. Each break is the first value of a class
+ */
+export function getJenksBreaks(sortedValues: number[], numClasses: number): number[] {
+  const values = sampleSortedValues(sortedValues, JENKS_MAX_SAMPLE_SIZE);
+  const n = values.length;
+  if (!n || numClasses < 2) {
+    return [];
+  }
+  if (numClasses >= n) {
+    return values.slice(1);
+  }
+
+  // lowerClassLimits[i][j] is the (1-based) index of the first value of class j,
+  // when the first i values are divided into j classes
+  const lowerClassLimits = Array.from({length: n + 1}, () => new Array(numClasses + 1).fill(0));
+  const variances = Array.from({length: n + 1}, (_, i) =>
+    new Array(numClasses + 1).fill(i === 0 ? 0 : Infinity)
+  );
+
+  for (let i = 1; i <= n; i++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let variance = 0;
+    for (let m = 1; m <= i; m++) {
+      const lowerIndex = i - m + 1;
+      const value = values[lowerIndex - 1];
+      sum += value;
+      sumSquares += value * value;
+      variance = sumSquares - (sum * sum) / m;
+
+      if (lowerIndex > 1) {
+        for (let j = 2; j <= numClasses; j++) {
+          const total = variance + variances[lowerIndex - 1][j - 1];
+          if (variances[i][j] >= total) {
+            lowerClassLimits[i][j] = lowerIndex;
+            variances[i][j] = total;
+          }
+        }
+      }
+    }
+    lowerClassLimits[i][1] = 1;
+    variances[i][1] = variance;
+  }
+
+  const breaks: number[] = [];
+  let k = n;
+  for (let j = numClasses; j > 1; j--) {
+    const lowerIndex = lowerClassLimits[k][j];
+    breaks.unshift(values[lowerIndex - 1]);
+    k = lowerIndex - 1;
+  }
+  return breaks;
+}
+
+/**
+ * return breaks of classes one standard deviation wide, centered on the mean of values
+ */
+export function getStdDevBreaks(values: number[], numClasses: number): number[] {
+  const avg = mean(values);
+  const std = deviation(values);
+  if (avg === undefined || !std || numClasses < 2) {
+    return [];
+  }
+  return Array.from({length: numClasses - 1}, (_, i) => avg + (i + 1 - numClasses / 2) * std);
+}
+
+/**
+ * return threshold breaks of a classification scale, by the number of classes
+ */
+export function getClassificationBreaks(
+  scaleType: string,
+  domain: number[],
+  numClasses: number
+): number[] {
+  switch (scaleType) {
+    case SCALE_TYPES.jenks:
+      return getJenksBreaks(domain, numClasses);
+    case SCALE_TYPES.stdDev:
+      return getStdDevBreaks(domain, numClasses);
+    case SCALE_TYPES.equalInterval:
+      return getEqualIntervalBreaks(domain, numClasses);
+    default:
+      return [];
+  }
+}
+
 export type DomainStops = {
   stops: number[];
   z: number[];
@@ -165,6 +287,15 @@ export function getScaleFunction(
   domain: (number | undefined)[] | string[] | IterableIterator<any>,
   fixed?: boolean
 ): D3ScaleFunction {
+  if (!fixed && CLASSIFICATION_SCALE_TYPES.includes(scale)) {
+    const colors = Array.from(range);
+    const breaks = getClassificationBreaks(scale, domain as number[], colors.length);
+    const classScale = SCALE_FUNC[scale]()
+      .domain(breaks)
+      .range(colors.slice(0, breaks.length + 1));
+    classScale.scaleType = scale;
+    return classScale;
+  }
   const scaleFunction = SCALE_FUNC[fixed ? 'linear' : scale]()
     .domain(domain)
     .range(fixed ? domain : range);
@@ -237,7 +368,7 @@ export function getQuantLegends(scale: D3ScaleFunction, labelFormat: LabelFormat
   const thresholdLabelFormat = (n, type) =>
     n && labelFormat ? labelFormat(n) : n ? formatNumber(n, type) : 'no value';
   const labels =
-    scale.scaleType === 'threshold'
+    scale.scaleType === 'threshold' || CLASSIFICATION_SCALE_TYPES.includes(scale.scaleType)
       ? getThresholdLabels(scale, thresholdLabelFormat)
       : scale.scaleType === 'custom'
       ? getThresholdLabels(scale, customScaleLabelFormat)
@@ -695,6 +826,39 @@ export function getCategoricalColorScale(
   return scale as any;
 }
 
+/**
+ * Get bivariate color scale, each field is classified with a quantile or quantize scale
+ * and the classes pick a color from the color matrix
+ * @param scaleType - quantile or quantize
+ * @param domain - domain of the first field
+ * @param domain2 - domain of the second field
+ * @param colorRange - bivariate color range
+ * @returns color of a pair of values, or null if the color range is not bivariate
+ */
+export function getBivariateColorScale(
+  scaleType: string,
+  domain: VisualChannelDomain,
+  domain2: VisualChannelDomain,
+  colorRange: ColorRange
+): ((value: number, value2: number) => RGBColor) | null {
+  if (!colorRange.bivariate) {
+    return null;
+  }
+  const {cols, rows} = colorRange.bivariate;
+  const colors = colorRange.colors.map(hexToRgb);
+  const type = scaleType === SCALE_TYPES.quantize ? SCALE_TYPES.quantize : SCALE_TYPES.quantile;
+  const getClasses = (d: VisualChannelDomain, n: number) =>
+    getScaleFunction(
+      type,
+      Array.from({length: n}, (_, i) => i),
+      d as number[]
+    );
+  const getCol = getClasses(domain, cols);
+  const getRow = getClasses(domain2, rows);
+
+  return (value, value2) => colors[getRow(value2) * cols + getCol(value)] ?? NO_VALUE_COLOR;
+}
+
 /**
  * initialize customPalette by custom scale or customOrdinal scale
  */
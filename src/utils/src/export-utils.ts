@@ -1,7 +1,8 @@
 // SPDX-License-Identifier: MIT
 // Copyright contributors to the kepler.gl project
 
-import {Blob, URL, atob, Uint8Array, ArrayBuffer, document} from 'global/window';
+import {Blob, URL, atob, btoa, Uint8Array, ArrayBuffer, document, DOMParser} from 'global/window';
+import Console from 'global/console';
 import get from 'lodash/get';
 
 import {
@@ -9,6 +10,7 @@ import {
   EXPORT_IMG_RATIO_OPTIONS,
   RESOLUTIONS,
   EXPORT_IMG_RATIOS,
+  EXPORT_IMG_FORMATS,
   FourByThreeRatioOption,
   OneXResolutionOption,
   ExportImage
@@ -125,15 +127,53 @@ export function downloadFile(fileBlob: Blob, fileName: string) {
  */
 export function exportImage(
   uiStateExportImage: ExportImage,
-  filename = getApplicationConfig().defaultImageName
+  filename = getApplicationConfig().defaultImageName,
+  onError: (err: Error) => void = err => Console.error(err)
 ) {
-  const {imageDataUri} = uiStateExportImage;
-  if (imageDataUri) {
+  const {imageDataUri, format, imageSize} = uiStateExportImage;
+  if (!imageDataUri) {
+    return;
+  }
+  if (format === EXPORT_IMG_FORMATS.PDF) {
+    convertSvgToPdf(imageDataUri, {width: imageSize.imageW, height: imageSize.imageH})
+      .then(file => downloadFile(file, filename))
+      .catch(onError);
+  } else {
     const file = dataURItoBlob(imageDataUri);
     downloadFile(file, filename);
   }
 }
 
+/**
+ * Encode an svg document as a base64 data uri
+ */
+export function svgToDataUri(svg: string): string {
+  return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+}
+
+/**
+ * Convert an svg data uri to a vector pdf, page size matches the svg size
+ */
+export async function convertSvgToPdf(
+  svgDataUri: string,
+  {width, height}: {width: number; height: number}
+): Promise<Blob> {
+  const svg = decodeURIComponent(escape(atob(svgDataUri.split(',')[1])));
+  const svgElement = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+
+  // pdf libraries are only loaded when exporting pdf
+  const [{jsPDF}] = await Promise.all([import('jspdf'), import('svg2pdf.js')]);
+  const doc = new jsPDF({
+    orientation: width > height ? 'landscape' : 'portrait',
+    unit: 'px',
+    format: [width, height],
+    hotfixes: ['px_scaling']
+  });
+  await doc.svg(svgElement, {x: 0, y: 0, width, height});
+
+  return doc.output('blob');
+}
+
 export function exportToJsonString(data) {
   try {
     return JSON.stringify(data);
@@ -0,0 +1,265 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {document} from 'global/window';
+import {Muxer, ArrayBufferTarget} from 'webm-muxer';
+import {GIFEncoder, quantize, applyPalette} from 'gifenc';
+
+import {
+  ANIMATION_WINDOW,
+  EXPORT_VIDEO_FORMATS,
+  EXPORT_VIDEO_SOURCES,
+  FILTER_TYPES,
+  ExportVideo
+} from '@kepler.gl/constants';
+import {AnimationConfig, Filter, TimeRangeFilter} from '@kepler.gl/types';
+
+import {getBinThresholds} from './plot';
+
+export type VideoEncoderOptions = {
+  format: keyof typeof EXPORT_VIDEO_FORMATS;
+  width: number;
+  height: number;
+  frameRate: number;
+};
+
+export type KeplerVideoEncoder = {
+  addFrame: (canvas: HTMLCanvasElement, frameIdx: number) => void;
+  finalize: () => Promise<Blob>;
+};
+
+export type AnimationFrameProps = {
+  domain: [number, number];
+  value: number | number[];
+  animationWindow?: string;
+  // bin thresholds of an interval animation
+  steps?: number[] | null;
+};
+
+export type VideoAnimation = AnimationFrameProps & {
+  // index of the animated filter, null when animating layers
+  filterIdx: number | null;
+};
+
+const VIDEO_MIME_TYPES = {
+  [EXPORT_VIDEO_FORMATS.WEBM]: 'video/webm',
+  [EXPORT_VIDEO_FORMATS.GIF]: 'image/gif'
+};
+
+// insert a key frame every 2 seconds
+const KEY_FRAME_INTERVAL_SECONDS = 2;
+
+/**
+ * Number of frames to render for a video of `duration` seconds
+ */
+export function getVideoFrameCount(duration: number, frameRate: number): number {
+  return Math.max(1, Math.round(duration * frameRate));
+}
+
+/**
+ * Compute the animation value of a frame. Frames are evenly spaced across the animation domain,
+ * so a video always renders the same frames regardless of how fast the browser can draw them.
+ * The first frame starts at domain[0] and the last frame ends at domain[1].
+ * @param frameIdx index of the frame
+ * @param frameCount total number of frames
+ * @param animation domain, current value and animation window of the filter or layer animation
+ * @returns animation value of the frame, a range for a time range filter, or a point
+ */
+export function getAnimationFrameValue(
+  frameIdx: number,
+  frameCount: number,
+  {domain, value, animationWindow, steps}: AnimationFrameProps
+): number | number[] {
+  const [d0, d1] = domain;
+  const t = frameCount > 1 ? Math.min(1, Math.max(0, frameIdx / (frameCount - 1))) : 0;
+
+  if (animationWindow === ANIMATION_WINDOW.interval && Array.isArray(steps) && steps.length > 1) {
+    const idx = Math.min(steps.length - 2, Math.floor(t * (steps.length - 1)));
+    return [steps[idx], steps[idx + 1] - 1];
+  }
+
+  if (Array.isArray(value)) {
+    if (animationWindow === ANIMATION_WINDOW.incremental) {
+      return [value[0], value[0] + (d1 - value[0]) * t];
+    }
+    // slide a window of the current width through the domain
+    const windowWidth = Math.min(value[1] - value[0], d1 - d0);
+    const value0 = d0 + (d1 - d0 - windowWidth) * t;
+    return [value0, value0 + windowWidth];
+  }
+
+  return d0 + (d1 - d0) * t;
+}
+
+/**
+ * Time range filters that can drive a video export
+ */
+export function getVideoAnimationFilters(filters: Filter[]): TimeRangeFilter[] {
+  return filters.filter(
+    (f): f is TimeRangeFilter => f.type === FILTER_TYPES.timeRange && Array.isArray(f.domain)
+  );
+}
+
+/**
+ * Resolve the filter or layer animation to export from current visState
+ * @returns animation domain, value and window, or null if there is nothing to animate
+ */
+export function getVideoAnimation(
+  {filters, animationConfig}: {filters: Filter[]; animationConfig: AnimationConfig},
+  {source, filterId}: Pick<ExportVideo, 'source' | 'filterId'>
+): VideoAnimation | null {
+  if (source === EXPORT_VIDEO_SOURCES.LAYER) {
+    const {domain, currentTime} = animationConfig;
+    return domain
+      ? {
+          domain,
+          value: currentTime ?? domain[0],
+          animationWindow: ANIMATION_WINDOW.point,
+          filterIdx: null
+        }
+      : null;
+  }
+
+  const animatable = getVideoAnimationFilters(filters);
+  const filter = animatable.find(f => f.id === filterId) || animatable[0];
+  if (!filter) {
+    return null;
+  }
+
+  return {
+    domain: filter.domain as [number, number],
+    value: filter.value,
+    animationWindow: filter.animationWindow,
+    steps:
+      filter.animationWindow === ANIMATION_WINDOW.interval && filter.plotType?.interval
+        ? getBinThresholds(filter.plotType.interval, filter.domain)
+        : null,
+    filterIdx: filters.indexOf(filter)
+  };
+}
+
+/**
+ * Draw all canvases inside the container, e.g. base map, deck.gl and top map style canvases,
+ * to a single output canvas. Canvases are drawn in DOM order at their position in the container.
+ */
+export function captureMapCanvas(
+  container: HTMLElement,
+  width: number,
+  height: number,
+  outCanvas?: HTMLCanvasElement
+): HTMLCanvasElement {
+  const canvas: HTMLCanvasElement = outCanvas || document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to create canvas 2d context');
+  }
+  ctx.clearRect(0, 0, width, height);
+
+  const containerRect = container.getBoundingClientRect();
+  container.querySelectorAll('canvas').forEach(source => {
+    const rect = source.getBoundingClientRect();
+    if (!rect.width || !rect.height) {
+      return;
+    }
+    ctx.drawImage(
+      source,
+      rect.left - containerRect.left,
+      rect.top - containerRect.top,
+      rect.width,
+      rect.height
+    );
+  });
+
+  return canvas;
+}
+
+/**
+ * Whether the browser is able to encode the requested video format
+ */
+export function isVideoExportSupported(format: keyof typeof EXPORT_VIDEO_FORMATS): boolean {
+  if (format === EXPORT_VIDEO_FORMATS.WEBM) {
+    return typeof window !== 'undefined' && 'VideoEncoder' in window && 'VideoFrame' in window;
+  }
+  return true;
+}
+
+function createWebmEncoder({width, height, frameRate}: VideoEncoderOptions): KeplerVideoEncoder {
+  // vp9 requires even dimensions
+  const videoW = width - (width % 2);
+  const videoH = height - (height % 2);
+  const frameDuration = 1e6 / frameRate;
+  let encoderError: Error | null = null;
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: {codec: 'V_VP9', width: videoW, height: videoH, frameRate}
+  });
+
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: err => {
+      encoderError = err;
+    }
+  });
+  encoder.configure({codec: 'vp09.00.10.08', width: videoW, height: videoH, framerate: frameRate});
+
+  return {
+    addFrame: (canvas, frameIdx) => {
+      if (encoderError) {
+        throw encoderError;
+      }
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(frameIdx * frameDuration),
+        duration: Math.round(frameDuration),
+        visibleRect: {x: 0, y: 0, width: videoW, height: videoH}
+      });
+      encoder.encode(frame, {
+        keyFrame: frameIdx % Math.round(frameRate * KEY_FRAME_INTERVAL_SECONDS) === 0
+      });
+      frame.close();
+    },
+    finalize: async () => {
+      await encoder.flush();
+      encoder.close();
+      if (encoderError) {
+        throw encoderError;
+      }
+      muxer.finalize();
+      return new Blob([muxer.target.buffer], {type: VIDEO_MIME_TYPES[EXPORT_VIDEO_FORMATS.WEBM]});
+    }
+  };
+}
+
+function createGifEncoder({width, height, frameRate}: VideoEncoderOptions): KeplerVideoEncoder {
+  const gif = GIFEncoder();
+  const delay = Math.round(1000 / frameRate);
+
+  return {
+    addFrame: canvas => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('Failed to read canvas 2d context');
+      }
+      const {data} = ctx.getImageData(0, 0, width, height);
+      const palette = quantize(data, 256);
+      const index = applyPalette(data, palette);
+      gif.writeFrame(index, width, height, {palette, delay});
+    },
+    finalize: async () => {
+      gif.finish();
+      return new Blob([gif.bytes()], {type: VIDEO_MIME_TYPES[EXPORT_VIDEO_FORMATS.GIF]});
+    }
+  };
+}
+
+/**
+ * Create an encoder that collects canvas frames and produces a WebM (WebCodecs) or GIF blob
+ */
+export function createVideoEncoder(options: VideoEncoderOptions): KeplerVideoEncoder {
+  return options.format === EXPORT_VIDEO_FORMATS.GIF
+    ? createGifEncoder(options)
+    : createWebmEncoder(options);
+}
@@ -0,0 +1,501 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {ALL_FIELD_TYPES} from '@kepler.gl/constants';
+import {notNullorUndefined} from '@kepler.gl/common-utils';
+import {Field} from '@kepler.gl/types';
+
+import {DataContainerInterface} from './data-container-interface';
+import {timeToUnixMilli} from './data-utils';
+
+/**
+ * Evaluate a compiled expression on a row of the data container
+ */
+export type ExpressionEvaluator = (dc: DataContainerInterface, rowIndex: number) => any;
+
+type Token = {
+  type: 'number' | 'string' | 'identifier' | 'operator' | 'paren' | 'comma';
+  value: string;
+  position: number;
+  // identifier quoted with backticks
+  quoted?: boolean;
+};
+
+type ExpressionNode = (dc: DataContainerInterface, rowIndex: number) => any;
+
+type ExpressionFunction = {
+  minArgs: number;
+  maxArgs: number;
+  func: (...args: any[]) => any;
+};
+
+// longer operators first, so `<=` is not read as `<`
+const OPERATORS = [
+  '<=',
+  '>=',
+  '==',
+  '!=',
+  '&&',
+  '||',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '^',
+  '<',
+  '>',
+  '=',
+  '!'
+];
+
+const KEYWORD_OPERATORS = {
+  and: '&&',
+  or: '||',
+  not: '!'
+};
+
+const CONSTANTS = {
+  true: true,
+  false: false,
+  null: null
+};
+
+const isNil = (v: any) => !notNullorUndefined(v) || Number.isNaN(v);
+
+// returns null if any of the arguments is null, so missing values propagate through the expression
+const nullSafe =
+  (func: (...args: any[]) => any) =>
+  (...args: any[]) =>
+    args.some(isNil) ? null : func(...args);
+
+const toDate = (value: number) => new Date(value);
+
+/**
+ * Functions supported in derived field expressions.
+ * Time functions take timestamps in milliseconds and use UTC, same as time filters
+ */
+export const EXPRESSION_FUNCTIONS: {[name: string]: ExpressionFunction} = {
+  abs: {minArgs: 1, maxArgs: 1, func: nullSafe(Math.abs)},
+  ceil: {minArgs: 1, maxArgs: 1, func: nullSafe(Math.ceil)},
+  floor: {minArgs: 1, maxArgs: 1, func: nullSafe(Math.floor)},
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    func: nullSafe((v: number, digits = 0) => {
+      const factor = Math.pow(10, digits);
+      return Math.round(v * factor) / factor;
+    })
+  },
+  sqrt: {minArgs: 1, maxArgs: 1, func: nullSafe(Math.sqrt)},
+  exp: {minArgs: 1, maxArgs: 1, func: nullSafe(Math.exp)},
+  log: {minArgs: 1, maxArgs: 1, func: nullSafe(Math.log)},
+  log10: {minArgs: 1, maxArgs: 1, func: nullSafe(Math.log10)},
+  pow: {minArgs: 2, maxArgs: 2, func: nullSafe(Math.pow)},
+  min: {minArgs: 1, maxArgs: Infinity, func: nullSafe(Math.min)},
+  max: {minArgs: 1, maxArgs: Infinity, func: nullSafe(Math.max)},
+  coalesce: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    func: (...args) => {
+      const found = args.find(v => !isNil(v));
+      return found === undefined ? null : found;
+    }
+  },
+  if: {minArgs: 3, maxArgs: 3, func: (cond, a, b) => (cond ? a : b)},
+  lower: {minArgs: 1, maxArgs: 1, func: nullSafe(v => String(v).toLowerCase())},
+  upper: {minArgs: 1, maxArgs: 1, func: nullSafe(v => String(v).toUpperCase())},
+  length: {minArgs: 1, maxArgs: 1, func: nullSafe(v => String(v).length)},
+  concat: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    func: (...args) => args.map(v => (isNil(v) ? '' : String(v))).join('')
+  },
+  year: {minArgs: 1, maxArgs: 1, func: nullSafe(v => toDate(v).getUTCFullYear())},
+  month: {minArgs: 1, maxArgs: 1, func: nullSafe(v => toDate(v).getUTCMonth() + 1)},
+  day: {minArgs: 1, maxArgs: 1, func: nullSafe(v => toDate(v).getUTCDate())},
+  dayofweek: {minArgs: 1, maxArgs: 1, func: nullSafe(v => toDate(v).getUTCDay())},
+  hour: {minArgs: 1, maxArgs: 1, func: nullSafe(v => toDate(v).getUTCHours())},
+  minute: {minArgs: 1, maxArgs: 1, func: nullSafe(v => toDate(v).getUTCMinutes())},
+  second: {minArgs: 1, maxArgs: 1, func: nullSafe(v => toDate(v).getUTCSeconds())}
+};
+
+const BINARY_OPERATIONS: {[op: string]: (a: any, b: any) => any} = {
+  '+': (a, b) =>
+    isNil(a) || isNil(b)
+      ? null
+      : typeof a === 'string' || typeof b === 'string'
+      ? `${a}${b}`
+      : a + b,
+  '-': nullSafe((a, b) => a - b),
+  '*': nullSafe((a, b) => a * b),
+  // division by zero returns null instead of Infinity
+  '/': nullSafe((a, b) => (b === 0 ? null : a / b)),
+  '%': nullSafe((a, b) => (b === 0 ? null : a % b)),
+  '^': nullSafe((a, b) => Math.pow(a, b)),
+  '==': (a, b) => a === b,
+  '=': (a, b) => a === b,
+  '!=': (a, b) => a !== b,
+  '<': nullSafe((a, b) => a < b),
+  '<=': nullSafe((a, b) => a <= b),
+  '>': nullSafe((a, b) => a > b),
+  '>=': nullSafe((a, b) => a >= b)
+};
+
+function expressionError(message: string, position?: number): Error {
+  return new Error(Number.isFinite(position) ? `${message} at position ${position}` : message);
+}
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = expression.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+      if (!match) {
+        throw expressionError(`Unexpected character "${char}"`, i);
+      }
+      tokens.push({type: 'number', value: match[0], position: i});
+      i += match[0].length;
+    } else if (char === '"' || char === "'" || char === '`') {
+      // strings are quoted with ' or ", field names with spaces are quoted with `
+      const end = expression.indexOf(char, i + 1);
+      if (end < 0) {
+        throw expressionError(`Unterminated quote ${char}`, i);
+      }
+      tokens.push({
+        type: char === '`' ? 'identifier' : 'string',
+        value: expression.slice(i + 1, end),
+        position: i,
+        quoted: char === '`'
+      });
+      i = end + 1;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const match = expression.slice(i).match(/^[A-Za-z_$][A-Za-z0-9_$.]*/);
+      const value = (match as RegExpMatchArray)[0];
+      const keyword = KEYWORD_OPERATORS[value.toLowerCase()];
+      tokens.push(
+        keyword
+          ? {type: 'operator', value: keyword, position: i}
+          : {type: 'identifier', value, position: i}
+      );
+      i += value.length;
+    } else if (char === '(' || char === ')') {
+      tokens.push({type: 'paren', value: char, position: i});
+      i++;
+    } else if (char === ',') {
+      tokens.push({type: 'comma', value: char, position: i});
+      i++;
+    } else {
+      const op = OPERATORS.find(o => expression.startsWith(o, i));
+      if (!op) {
+        throw expressionError(`Unexpected character "${char}"`, i);
+      }
+      tokens.push({type: 'operator', value: op, position: i});
+      i += op.length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser, compiles tokens into a tree of closures
+ */
+class ExpressionParser {
+  tokens: Token[];
+  fields: Field[];
+  current = 0;
+  fieldsUsed: string[] = [];
+
+  constructor(tokens: Token[], fields: Field[]) {
+    this.tokens = tokens;
+    this.fields = fields;
+  }
+
+  peek(): Token | undefined {
+    return this.tokens[this.current];
+  }
+
+  match(type: Token['type'], ...values: string[]): Token | null {
+    const token = this.peek();
+    if (token && token.type === type && (!values.length || values.includes(token.value))) {
+      this.current++;
+      return token;
+    }
+    return null;
+  }
+
+  expect(type: Token['type'], value: string): Token {
+    const token = this.match(type, value);
+    if (!token) {
+      const next = this.peek();
+      throw expressionError(
+        next ? `Expected "${value}" but found "${next.value}"` : `Expected "${value}"`,
+        next?.position
+      );
+    }
+    return token;
+  }
+
+  parse(): ExpressionNode {
+    if (!this.tokens.length) {
+      throw expressionError('Expression is empty');
+    }
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next) {
+      throw expressionError(`Unexpected "${next.value}"`, next.position);
+    }
+    return node;
+  }
+
+  parseBinary(
+    parseOperand: () => ExpressionNode,
+    operators: string[],
+    operation: (op: string, left: ExpressionNode, right: ExpressionNode) => ExpressionNode
+  ): ExpressionNode {
+    let left = parseOperand();
+    let token = this.match('operator', ...operators);
+    while (token) {
+      left = operation(token.value, left, parseOperand());
+      token = this.match('operator', ...operators);
+    }
+    return left;
+  }
+
+  parseOr(): ExpressionNode {
+    return this.parseBinary(
+      () => this.parseAnd(),
+      ['||'],
+      (_, left, right) => (dc, i) => Boolean(left(dc, i) || right(dc, i))
+    );
+  }
+
+  parseAnd(): ExpressionNode {
+    return this.parseBinary(
+      () => this.parseNot(),
+      ['&&'],
+      (_, left, right) => (dc, i) => Boolean(left(dc, i) && right(dc, i))
+    );
+  }
+
+  parseNot(): ExpressionNode {
+    if (this.match('operator', '!')) {
+      const operand = this.parseNot();
+      return (dc, i) => !operand(dc, i);
+    }
+    return this.parseComparison();
+  }
+
+  parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const token = this.match('operator', '==', '=', '!=', '<', '<=', '>', '>=');
+    if (!token) {
+      return left;
+    }
+    const right = this.parseAdditive();
+    const operation = BINARY_OPERATIONS[token.value];
+    return (dc, i) => operation(left(dc, i), right(dc, i));
+  }
+
+  parseAdditive(): ExpressionNode {
+    return this.parseBinary(
+      () => this.parseMultiplicative(),
+      ['+', '-'],
+      (op, left, right) => {
+        const operation = BINARY_OPERATIONS[op];
+        return (dc, i) => operation(left(dc, i), right(dc, i));
+      }
+    );
+  }
+
+  parseMultiplicative(): ExpressionNode {
+    return this.parseBinary(
+      () => this.parseUnary(),
+      ['*', '/', '%'],
+      (op, left, right) => {
+        const operation = BINARY_OPERATIONS[op];
+        return (dc, i) => operation(left(dc, i), right(dc, i));
+      }
+    );
+  }
+
+  parseUnary(): ExpressionNode {
+    if (this.match('operator', '-')) {
+      const operand = this.parseUnary();
+      return (dc, i) => {
+        const v = operand(dc, i);
+        return isNil(v) ? null : -v;
+      };
+    }
+    return this.parsePower();
+  }
+
+  parsePower(): ExpressionNode {
+    const base = this.parsePrimary();
+    if (this.match('operator', '^')) {
+      // right associative
+      const exponent = this.parseUnary();
+      const operation = BINARY_OPERATIONS['^'];
+      return (dc, i) => operation(base(dc, i), exponent(dc, i));
+    }
+    return base;
+  }
+
+  parsePrimary(): ExpressionNode {
+    const token = this.peek();
+    if (!token) {
+      throw expressionError('Unexpected end of expression');
+    }
+    this.current++;
+
+    switch (token.type) {
+      case 'number': {
+        const value = Number(token.value);
+        return () => value;
+      }
+      case 'string': {
+        const {value} = token;
+        return () => value;
+      }
+      case 'paren': {
+        if (token.value !== '(') {
+          break;
+        }
+        const node = this.parseOr();
+        this.expect('paren', ')');
+        return node;
+      }
+      case 'identifier': {
+        const next = this.peek();
+        if (next?.type === 'paren' && next.value === '(' && !token.quoted) {
+          return this.parseFunction(token);
+        }
+        return this.parseIdentifier(token);
+      }
+      default:
+        break;
+    }
+    throw expressionError(`Unexpected "${token.value}"`, token.position);
+  }
+
+  parseFunction(token: Token): ExpressionNode {
+    const name = token.value.toLowerCase();
+    const func = EXPRESSION_FUNCTIONS[name];
+    if (!func) {
+      throw expressionError(`Unknown function "${token.value}"`, token.position);
+    }
+    this.expect('paren', '(');
+    const args: ExpressionNode[] = [];
+    if (!this.match('paren', ')')) {
+      do {
+        args.push(this.parseOr());
+      } while (this.match('comma'));
+      this.expect('paren', ')');
+    }
+    if (args.length < func.minArgs || args.length > func.maxArgs) {
+      throw expressionError(
+        `Function "${name}" expects ${
+          func.minArgs === func.maxArgs ? func.minArgs : `at least ${func.minArgs}`
+        } argument(s) but got ${args.length}`,
+        token.position
+      );
+    }
+    return (dc, i) => func.func(...args.map(arg => arg(dc, i)));
+  }
+
+  parseIdentifier(token: Token): ExpressionNode {
+    const field = this.fields.find(f => f.name === token.value);
+    if (field) {
+      if (!this.fieldsUsed.includes(field.name)) {
+        this.fieldsUsed.push(field.name);
+      }
+      const {fieldIdx} = field;
+      // timestamps are evaluated in milliseconds, so they can be used in time functions
+      return field.type === ALL_FIELD_TYPES.timestamp
+        ? (dc, i) => timeToUnixMilli(dc.valueAt(i, fieldIdx), field.format)
+        : (dc, i) => dc.valueAt(i, fieldIdx);
+    }
+    const constant = token.value.toLowerCase();
+    if (Object.prototype.hasOwnProperty.call(CONSTANTS, constant) && !token.quoted) {
+      const value = CONSTANTS[constant];
+      return () => value;
+    }
+    throw expressionError(`Unknown field "${token.value}"`, token.position);
+  }
+}
+
+/**
+ * Compile an expression such as `fare / distance` or `hour(pickup_time)` into an evaluator
+ * that can be called on each row of a data container. Fields are referenced by name,
+ * field names with spaces or special characters can be quoted with backticks.
+ * Throws an error describing the problem if the expression is invalid
+ * @param expression
+ * @param fields fields of the dataset the expression is evaluated on
+ * @returns evaluator and names of fields used by the expression
+ */
+export function compileExpression(
+  expression: string,
+  fields: Field[]
+): {evaluate: ExpressionEvaluator; fieldsUsed: string[]} {
+  const parser = new ExpressionParser(tokenize(expression || ''), fields);
+  const evaluate = parser.parse();
+  return {evaluate, fieldsUsed: parser.fieldsUsed};
+}
+
+/**
+ * Validate an expression against dataset fields
+ * @returns error message if the expression is invalid, otherwise null
+ */
+export function validateExpression(expression: string, fields: Field[]): string | null {
+  try {
+    compileExpression(expression, fields);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+/**
+ * Evaluate an expression on every row of the data container
+ */
+export function evaluateExpression(
+  expression: string,
+  fields: Field[],
+  dataContainer: DataContainerInterface
+): any[] {
+  const {evaluate} = compileExpression(expression, fields);
+  const numRows = dataContainer.numRows();
+  const values = new Array(numRows);
+  for (let i = 0; i < numRows; i++) {
+    const value = evaluate(dataContainer, i);
+    values[i] = Number.isNaN(value) ? null : value;
+  }
+  return values;
+}
+
+/**
+ * Find the field type and analyzer type of evaluated expression values
+ */
+export function getExpressionValuesType(values: any[]): {type: string; analyzerType: string} {
+  const nonNull = values.filter(v => notNullorUndefined(v));
+
+  if (nonNull.length && nonNull.every(v => typeof v === 'boolean')) {
+    return {type: ALL_FIELD_TYPES.boolean, analyzerType: 'BOOLEAN'};
+  }
+  if (nonNull.length && nonNull.every(v => typeof v === 'number')) {
+    return nonNull.every(Number.isInteger)
+      ? {type: ALL_FIELD_TYPES.integer, analyzerType: 'INT'}
+      : {type: ALL_FIELD_TYPES.real, analyzerType: 'FLOAT'};
+  }
+  return {type: ALL_FIELD_TYPES.string, analyzerType: 'STRING'};
+}
@@ -15,7 +15,8 @@ import {
   ANIMATION_WINDOW,
   PLOT_TYPES,
   LAYER_TYPES,
-  FILTER_VIEW_TYPES
+  FILTER_VIEW_TYPES,
+  FILTER_GROUP_OPERATORS
 } from '@kepler.gl/constants';
 // import {VisState} from '@kepler.gl/schemas';
 import * as ScaleUtils from './data-scale-utils';
@@ -27,6 +28,8 @@ import {
   ParsedFilter,
   Filter,
   FilterBase,
+  FilterGroup,
+  FilterGroupOperator,
   PolygonFilter,
   FieldDomain,
   TimeRangeFieldDomain,
@@ -85,7 +88,8 @@ export const TimestampStepMap = [
 export const FILTER_UPDATER_PROPS = keyMirror({
   dataId: null,
   name: null,
-  layerId: null
+  layerId: null,
+  groupId: null
 });
 
 export const FILTER_COMPONENTS = {
@@ -147,6 +151,25 @@ export function getDefaultFilter({
   };
 }
 
+/**
+ * Generates a filter group with a boolean operator
+ */
+export function getDefaultFilterGroup({
+  id,
+  operator = FILTER_GROUP_OPERATORS.and as FilterGroupOperator,
+  parentId = null
+}: {
+  id?: string;
+  operator?: FilterGroupOperator;
+  parentId?: string | null;
+} = {}): FilterGroup {
+  return {
+    id: id || generateHashId(FILTER_ID_LENGTH),
+    operator,
+    parentId
+  };
+}
+
 /**
  * Check if a filter is valid based on the given dataId
  * @param  filter to validate
@@ -382,12 +405,14 @@ export const getPolygonFilterFunctor = (layer, filter, dataContainer) => {
   switch (layer.type) {
     case LAYER_TYPES.point:
     case LAYER_TYPES.icon:
+    case LAYER_TYPES.voronoi:
       return data => {
         const pos = getPosition(data);
         return pos.every(Number.isFinite) && isInPolygon(pos, filter.value);
       };
     case LAYER_TYPES.arc:
     case LAYER_TYPES.line:
+    case LAYER_TYPES.flow:
       return data => {
         const pos = getPosition(data);
         return (
@@ -414,6 +439,13 @@ export const getPolygonFilterFunctor = (layer, filter, dataContainer) => {
         const pos = getCentroid({id});
         return pos.every(Number.isFinite) && isInPolygon(pos, filter.value);
       };
+    case LAYER_TYPES.quadkey:
+    case LAYER_TYPES.geohash:
+      return data => {
+        // centroids of cells are computed in updateLayerMeta
+        const centroid = layer.dataToFeature?.centroids?.[data.index];
+        return Boolean(centroid) && isInPolygon(centroid, filter.value);
+      };
     case LAYER_TYPES.geojson:
       return data => {
         return layer.isInPolygon(data, data.index, filter.value);
@@ -498,17 +530,98 @@ export function updateFilterDataId(dataId: string | string[]): FilterBase<LineCh
   return getDefaultFilter({dataId});
 }
 
+export type FilterGroupNode = {
+  operator: FilterGroupOperator;
+  filters: Filter[];
+  children: FilterGroupNode[];
+};
+
+function isEmptyFilterGroupNode(node: FilterGroupNode): boolean {
+  return !node.filters.length && !node.children.length;
+}
+
+function evaluateFilterGroupNode(
+  node: FilterGroupNode,
+  filterFuncCaller: (filter: Filter) => boolean
+): boolean {
+  const evaluateChild = (child: FilterGroupNode) =>
+    evaluateFilterGroupNode(child, filterFuncCaller);
+
+  switch (node.operator) {
+    case FILTER_GROUP_OPERATORS.or:
+      return node.filters.some(filterFuncCaller) || node.children.some(evaluateChild);
+    case FILTER_GROUP_OPERATORS.not:
+      return !(node.filters.every(filterFuncCaller) && node.children.every(evaluateChild));
+    case FILTER_GROUP_OPERATORS.and:
+    default:
+      return node.filters.every(filterFuncCaller) && node.children.every(evaluateChild);
+  }
+}
+
+/**
+ * Build a tree of filter groups out of a flat list of filters and groups.
+ * Filters and groups referring to a missing group are moved to the top level,
+ * groups without any filters to apply are dropped.
+ */
+export function getFilterGroupTree(
+  filters: Filter[],
+  filterGroups: FilterGroup[] = []
+): FilterGroupNode {
+  const groupIds = new Set(filterGroups.map(g => g.id));
+  const getParentGroupId = (id?: string | null) => (id && groupIds.has(id) ? id : null);
+  const visited = new Set<string>();
+
+  const buildNode = (groupId: string | null, operator: FilterGroupOperator): FilterGroupNode => {
+    if (groupId) {
+      visited.add(groupId);
+    }
+    return {
+      operator,
+      filters: filters.filter(f => getParentGroupId(f.groupId) === groupId),
+      children: filterGroups
+        .filter(g => !visited.has(g.id) && getParentGroupId(g.parentId) === groupId)
+        .map(g => buildNode(g.id, g.operator))
+        .filter(node => !isEmptyFilterGroupNode(node))
+    };
+  };
+
+  return buildNode(null, FILTER_GROUP_OPERATORS.and as FilterGroupOperator);
+}
+
+/**
+ * Compose filters of a dataset into a single predicate based on filter groups.
+ * Without groups, all filters are combined with AND.
+ * @param filters filters to compose
+ * @param filterGroups boolean groups filters can belong to
+ * @param filterFuncCaller call the filter function of a filter on the current row
+ * @returns a predicate of the current row
+ */
+export function getFilterGroupsPredicate(
+  filters: Filter[],
+  filterGroups: FilterGroup[] | undefined,
+  filterFuncCaller: (filter: Filter) => boolean
+): () => boolean {
+  if (!filterGroups?.length || !filters.some(f => f.groupId)) {
+    return () => filters.every(filterFuncCaller);
+  }
+
+  const tree = getFilterGroupTree(filters, filterGroups);
+  return () => evaluateFilterGroupNode(tree, filterFuncCaller);
+}
+
 export function filterDataByFilterTypes(
   {
     dynamicDomainFilters,
     cpuFilters,
-    filterFuncs
+    filterFuncs,
+    filterGroups
   }: {
     dynamicDomainFilters: Filter[] | null;
     cpuFilters: Filter[] | null;
     filterFuncs: {
       [key: string]: filterFunction;
     };
+    filterGroups?: FilterGroup[];
   },
   dataContainer: DataContainerInterface
 ): FilterResult {
@@ -518,16 +631,22 @@ export function filterDataByFilterTypes(
   const filterContext = {index: -1, dataContainer};
   const filterFuncCaller = (filter: Filter) => filterFuncs[filter.id](filterContext);
 
+  const matchDomainFilters =
+    dynamicDomainFilters &&
+    getFilterGroupsPredicate(dynamicDomainFilters, filterGroups, filterFuncCaller);
+  const matchCpuFilters =
+    cpuFilters && getFilterGroupsPredicate(cpuFilters, filterGroups, filterFuncCaller);
+
   const numRows = dataContainer.numRows();
   for (let i = 0; i < numRows; ++i) {
     filterContext.index = i;
 
-    const matchForDomain = dynamicDomainFilters && dynamicDomainFilters.every(filterFuncCaller);
+    const matchForDomain = matchDomainFilters && matchDomainFilters();
     if (matchForDomain) {
       filteredIndexForDomain.push(filterContext.index);
     }
 
-    const matchForRender = cpuFilters && cpuFilters.every(filterFuncCaller);
+    const matchForRender = matchCpuFilters && matchCpuFilters();
     if (matchForRender) {
       filteredIndex.push(filterContext.index);
     }
@@ -561,7 +680,8 @@ export function getFilterRecord(
         : filterRecord.dynamicDomain
       ).push(f);
 
-      (f.gpu && !opt.cpuOnly ? filterRecord.gpu : filterRecord.cpu).push(f);
+      // filters in a boolean group can only be composed on cpu
+      (f.gpu && !f.groupId && !opt.cpuOnly ? filterRecord.gpu : filterRecord.cpu).push(f);
     }
   });
 
@@ -588,7 +708,7 @@ export function diffFilters(
         filterChanged = set([record, filter.id], 'added', filterChanged);
       } else {
         // check  what has changed
-        ['name', 'value', 'dataId'].forEach(prop => {
+        ['name', 'value', 'dataId', 'groupId'].forEach(prop => {
           if (filter[prop] !== oldFilter[prop]) {
             filterChanged = set([record, filter.id], `${prop}_changed`, filterChanged);
           }
@@ -892,6 +1012,8 @@ export function updateFilterPlot<K extends KeplerTableModel<K, any>>(
  * @param datasetIds list of dataset ids to be filtered
  * @param datasets all datasets
  * @param filters all filters to be applied to datasets
+ * @param layers all layers
+ * @param filterGroups boolean groups used to compose filters
  * @return datasets - new updated datasets
  */
 export function applyFiltersToDatasets<
@@ -901,7 +1023,8 @@ export function applyFiltersToDatasets<
   datasetIds: string[],
   datasets: {[id: string]: K},
   filters: Filter[],
-  layers?: L[]
+  layers?: L[],
+  filterGroups?: FilterGroup[]
 ): {[id: string]: K} {
   const dataIds = toArray(datasetIds);
   return dataIds.reduce((acc, dataId) => {
@@ -911,7 +1034,7 @@ export function applyFiltersToDatasets<
 
     return {
       ...acc,
-      [dataId]: table.filterTable(appliedFilters, layersToFilter, {})
+      [dataId]: table.filterTable(appliedFilters, layersToFilter, {filterGroups})
     };
   }, datasets);
 }
@@ -1115,6 +1238,7 @@ export function generatePolygonFilter<
 interface StateType<K extends KeplerTableModel<K, L>, L> {
   layers: L[];
   filters: Filter[];
+  filterGroups?: FilterGroup[];
   datasets: {[id: string]: K};
 }
 
@@ -1129,7 +1253,11 @@ export function filterDatasetCPU<T extends StateType<K, L>, K extends KeplerTabl
     return state;
   }
 
-  const cpuFilteredDataset = dataset.filterTableCPU(datasetFilters, state.layers);
+  const cpuFilteredDataset = dataset.filterTableCPU(
+    datasetFilters,
+    state.layers,
+    state.filterGroups
+  );
 
   return set(['datasets', dataId], cpuFilteredDataset, state);
 }
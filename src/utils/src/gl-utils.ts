@@ -2,24 +2,42 @@
 // Copyright contributors to the kepler.gl project
 
 import {setParameters} from '@luma.gl/core';
-import {LAYER_BLENDINGS} from '@kepler.gl/constants';
+import {LAYER_BLENDINGS, LAYER_BLEND_MODES} from '@kepler.gl/constants';
 import GL from '@luma.gl/constants';
 
 const getGlConst = d => GL[d];
 
-export function setLayerBlending(gl, layerBlending) {
-  const blending = LAYER_BLENDINGS[layerBlending];
-  const {blendFunc, blendEquation} = blending;
+/**
+ * Get the luma.gl blending parameters of a layer blending or a layer blend mode
+ */
+export function getBlendingParameters(blending?: {
+  blendFunc?: string[];
+  blendEquation?: string | string[];
+}) {
+  const {blendFunc, blendEquation} = blending || {};
+
+  return blendFunc
+    ? {
+        blendFunc: blendFunc.map(getGlConst),
+        blendEquation: Array.isArray(blendEquation)
+          ? blendEquation.map(getGlConst)
+          : getGlConst(blendEquation)
+      }
+    : {};
+}
 
+export function setLayerBlending(gl, layerBlending) {
   setParameters(gl, {
     [GL.BLEND]: true,
-    ...(blendFunc
-      ? {
-          blendFunc: blendFunc.map(getGlConst),
-          blendEquation: Array.isArray(blendEquation)
-            ? blendEquation.map(getGlConst)
-            : getGlConst(blendEquation)
-        }
-      : {})
+    ...getBlendingParameters(LAYER_BLENDINGS[layerBlending])
   });
 }
+
+/**
+ * Get the deck.gl `parameters` prop that applies the blend mode of a single layer,
+ * returns null when the layer uses the global layer blending
+ */
+export function getLayerBlendModeParameters(blendMode?: string | null) {
+  const blending = blendMode ? LAYER_BLEND_MODES[blendMode] : null;
+  return blending ? {blend: true, ...getBlendingParameters(blending)} : null;
+}
@@ -36,6 +36,7 @@ export {getFrequency, getMode, aggregate} from './aggregation';
 export {
   adjustValueToAnimationWindow,
   getBinThresholds,
+  getDomainBinThresholds,
   histogramFromThreshold,
   histogramFromValues,
   histogramFromDomain,
@@ -68,6 +69,7 @@ export {
 export {exportMapToHTML} from './export-map-html';
 export {
   calculateExportImageSize,
+  convertSvgToPdf,
   convertToPng,
   dataURItoBlob,
   downloadFile,
@@ -79,10 +81,26 @@ export {
   default as exporters,
   getMapJSON,
   getScaleFromImageSize,
-  isMSEdge
+  isMSEdge,
+  svgToDataUri
 } from './export-utils';
+export {
+  captureMapCanvas,
+  createVideoEncoder,
+  getAnimationFrameValue,
+  getVideoAnimation,
+  getVideoAnimationFilters,
+  getVideoFrameCount,
+  isVideoExportSupported
+} from './export-video-utils';
+export type {
+  AnimationFrameProps,
+  KeplerVideoEncoder,
+  VideoAnimation,
+  VideoEncoderOptions
+} from './export-video-utils';
 export {getFormatValue, getDefaultTimeFormat} from './format';
-export {setLayerBlending} from './gl-utils';
+export {getBlendingParameters, getLayerBlendModeParameters, setLayerBlending} from './gl-utils';
 export {flattenMessages, mergeMessages} from './locale-utils';
 export {isValidMapInfo} from './map-info-utils';
 export {
@@ -134,8 +152,12 @@ export {
   DataForm,
   createDataContainer,
   createIndexedDataContainer,
+  appendDataContainerColumn,
+  removeDataContainerColumn,
   getSampleData as getSampleContainerData
 } from './data-container-utils';
+export * from './expression-utils';
+export * from './spatial-join-utils';
 export * from './filter-utils';
 export type {FilterChanged, FilterResult, dataValueAccessor} from './filter-utils';
 
@@ -161,6 +183,11 @@ export {
   getQuantLegends,
   getCategoricalColorMap,
   getCategoricalColorScale,
+  getBivariateColorScale,
+  getEqualIntervalBreaks,
+  getJenksBreaks,
+  getStdDevBreaks,
+  getClassificationBreaks,
   initCustomPaletteByCustomScale,
   colorMapToCategoricalColorBreaks,
   resetCategoricalColorMapByIndex,
@@ -160,6 +160,16 @@ export function histogramFromDomain(
   }));
 }
 
+/**
+ * Thresholds of the bins splitting the domain at nice ticks, as in histogramFromDomain
+ * @param domain
+ * @param numBins
+ */
+export function getDomainBinThresholds(domain: [number, number], numBins: number): number[] {
+  const [min, max] = domain;
+  return [min, ...ticks(min, max, numBins).filter(t => t > min && t < max), max];
+}
+
 /**
  * @param filter
  * @param datasets
@@ -0,0 +1,175 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import {SPATIAL_JOIN_AGGREGATIONS} from '@kepler.gl/constants';
+
+type Ring = number[][];
+/** rings of a polygon, the first is the exterior ring and the rest are holes */
+export type PolygonRings = Ring[];
+
+type BBox = [number, number, number, number];
+
+/** Max number of cells of the polygon index in each direction */
+const MAX_INDEX_CELLS = 256;
+
+/**
+ * Polygons of a geojson geometry, other geometry types have no polygons
+ */
+export function getGeometryPolygons(geometry: any): PolygonRings[] {
+  switch (geometry?.type) {
+    case 'Polygon':
+      return geometry.coordinates?.length ? [geometry.coordinates] : [];
+    case 'MultiPolygon':
+      return (geometry.coordinates || []).filter(rings => rings?.length);
+    case 'GeometryCollection':
+      return (geometry.geometries || []).flatMap(getGeometryPolygons);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Whether a point is inside a polygon with holes, by the even odd rule
+ */
+export function isPointInPolygon([x, y]: number[], rings: PolygonRings): boolean {
+  let inside = false;
+  rings.forEach(ring => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  });
+  return inside;
+}
+
+/**
+ * Bounding box of the exterior rings of polygons, null when there are no coordinates
+ */
+function getPolygonsBBox(polygons: PolygonRings[]): BBox | null {
+  let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+  polygons.forEach(([exterior]) =>
+    (exterior || []).forEach(([x, y]) => {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    })
+  );
+  return minX <= maxX && minY <= maxY ? [minX, minY, maxX, maxY] : null;
+}
+
+/**
+ * Create a function returning the index of the first feature containing a point, or -1.
+ * Bounding boxes of the features are stored in a grid so each point is only tested
+ * against the features around it
+ * @param features polygons of each feature, e.g. each row of a polygon dataset
+ */
+export function createPolygonIndex(features: PolygonRings[][]): (point: number[] | null) => number {
+  const bboxes = features.map(getPolygonsBBox);
+  const extent = bboxes.reduce<BBox | null>(
+    (accu, bbox) =>
+      bbox && accu
+        ? [
+            Math.min(accu[0], bbox[0]),
+            Math.min(accu[1], bbox[1]),
+            Math.max(accu[2], bbox[2]),
+            Math.max(accu[3], bbox[3])
+          ]
+        : bbox || accu,
+    null
+  );
+  if (!extent) {
+    return () => -1;
+  }
+
+  const [minX, minY, maxX, maxY] = extent;
+  const size = Math.max(1, Math.min(MAX_INDEX_CELLS, Math.ceil(Math.sqrt(features.length))));
+  const cellWidth = (maxX - minX) / size || 1;
+  const cellHeight = (maxY - minY) / size || 1;
+  const toCol = (x: number) => Math.min(size - 1, Math.floor((x - minX) / cellWidth));
+  const toRow = (y: number) => Math.min(size - 1, Math.floor((y - minY) / cellHeight));
+
+  // features are added in order, so the first match of a cell is the first feature
+  const cells: number[][] = new Array(size * size);
+  bboxes.forEach((bbox, index) => {
+    if (!bbox) {
+      return;
+    }
+    for (let row = toRow(bbox[1]); row <= toRow(bbox[3]); row++) {
+      for (let col = toCol(bbox[0]); col <= toCol(bbox[2]); col++) {
+        const cell = row * size + col;
+        (cells[cell] = cells[cell] || []).push(index);
+      }
+    }
+  });
+
+  return point => {
+    if (!point || !Number.isFinite(point[0]) || !Number.isFinite(point[1])) {
+      return -1;
+    }
+    const [x, y] = point;
+    if (x < minX || x > maxX || y < minY || y > maxY) {
+      return -1;
+    }
+    const candidates = cells[toRow(y) * size + toCol(x)] || [];
+    const found = candidates.find(index => {
+      const [bMinX, bMinY, bMaxX, bMaxY] = bboxes[index] as BBox;
+      return (
+        x >= bMinX &&
+        x <= bMaxX &&
+        y >= bMinY &&
+        y <= bMaxY &&
+        features[index].some(rings => isPointInPolygon(point, rings))
+      );
+    });
+    return found === undefined ? -1 : found;
+  };
+}
+
+/**
+ * Aggregate values of the points joined to each polygon
+ * @param polygonIndexes index of the polygon containing each point, -1 when outside of all polygons
+ * @param polygonCount number of polygons
+ * @param aggregation count, sum or average
+ * @param getValue value of a point, not needed to count points
+ * @returns one value for each polygon, average of a polygon without values is null
+ */
+export function aggregatePointsByPolygon(
+  polygonIndexes: number[],
+  polygonCount: number,
+  aggregation: string,
+  getValue?: (pointIndex: number) => unknown
+): (number | null)[] {
+  const counts = new Array(polygonCount).fill(0);
+  const sums = new Array(polygonCount).fill(0);
+
+  polygonIndexes.forEach((polygonIndex, pointIndex) => {
+    if (polygonIndex < 0) {
+      return;
+    }
+    if (aggregation === SPATIAL_JOIN_AGGREGATIONS.count) {
+      counts[polygonIndex]++;
+      return;
+    }
+    const value = getValue ? getValue(pointIndex) : null;
+    const num = Number(value);
+    if (value !== null && value !== '' && Number.isFinite(num)) {
+      counts[polygonIndex]++;
+      sums[polygonIndex] += num;
+    }
+  });
+
+  switch (aggregation) {
+    case SPATIAL_JOIN_AGGREGATIONS.count:
+      return counts;
+    case SPATIAL_JOIN_AGGREGATIONS.sum:
+      return sums;
+    case SPATIAL_JOIN_AGGREGATIONS.average:
+      return sums.map((sum, i) => (counts[i] ? sum / counts[i] : null));
+    default:
+      return new Array(polygonCount).fill(null);
+  }
+}
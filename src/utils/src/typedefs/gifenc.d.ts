@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+declare module 'gifenc' {
+  export type Palette = number[][];
+  export function GIFEncoder(): {
+    writeFrame: (
+      index: Uint8Array,
+      width: number,
+      height: number,
+      options?: {palette?: Palette; delay?: number; repeat?: number; transparent?: boolean}
+    ) => void;
+    finish: () => void;
+    bytes: () => Uint8Array;
+  };
+  export function quantize(rgba: Uint8ClampedArray, maxColors: number): Palette;
+  export function applyPalette(rgba: Uint8ClampedArray, palette: Palette): Uint8Array;
+}
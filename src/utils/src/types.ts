@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: MIT
 // Copyright contributors to the kepler.gl project
 
-import {Filter, Field, FilterDatasetOpt} from '@kepler.gl/types';
+import {Filter, FilterGroup, Field, FilterDatasetOpt} from '@kepler.gl/types';
 
 import {DataContainerInterface} from './data-container-interface';
 
@@ -12,7 +12,7 @@ export interface KeplerTableModel<K, L, F extends Field = any> {
   filterTable(filters: Filter[], layers: L[], opt?: FilterDatasetOpt): K;
   getColumnFilterProps(columnName: string): Field['filterProps'] | null | undefined;
   dataContainer: DataContainerInterface;
-  filterTableCPU(filters: Filter[], layers: L[]): K;
+  filterTableCPU(filters: Filter[], layers: L[], filterGroups?: FilterGroup[]): K;
   getColumnField(fieldName: string): Field | undefined;
   gpuFilter: {
     filterRange: number[][];
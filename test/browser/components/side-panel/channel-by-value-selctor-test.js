@@ -218,8 +218,8 @@ test('Components -> ChannelByValueSelector -> ColorScaleSelector -> ColorBreakDi
   // scale optons
   t.equal(
     wrapper.find(ColorScaleSelector).at(0).find('.list__item').length,
-    4,
-    'should render 4 scale options'
+    7,
+    'should render 7 scale options'
   );
 
   t.equal(wrapper.find(ColorBreaksPanel).length, 1, 'Should render 1 ColorBreaksPanel');
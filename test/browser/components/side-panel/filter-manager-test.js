@@ -109,7 +109,12 @@ test('Components -> FilterManager.mount -> with prop', t => {
 
   t.ok(wrapper.find('.filter-manager').length === 1, 'should render Filter Manager');
   t.ok(wrapper.find(SourceDataCatalog).length === 1, 'should render SourceDataCatalog');
-  t.equal(wrapper.find(Button).length, 2, 'should render 2 buttons');
+  t.equal(wrapper.find(Button).length, 3, 'should render 3 buttons');
+  t.equal(
+    wrapper.find('.add-filter-group-button').hostNodes().length,
+    1,
+    'should render add filter group button'
+  );
   t.ok(wrapper.find(FilterPanel).length === 2, 'should render 2 FilterPanel');
 
   // stateless component don't have a instance()
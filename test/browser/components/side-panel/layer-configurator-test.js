@@ -89,6 +89,7 @@ test('Components -> LayerConfigurator.mount -> default prop 1', t => {
   const expectedArgs = {
     layer: expectedLayer,
     dataset: expectedDataset,
+    datasets: StateWFiles.visState.datasets,
     visConfiguratorProps: {
       layer: expectedLayer,
       fields: expectedDataset.fields,
@@ -107,7 +108,8 @@ test('Components -> LayerConfigurator.mount -> default prop 1', t => {
       fields: expectedDataset.fields,
       onChange: updateLayerVisualChannelConfig,
       setColorUI: updateLayerColorUI
-    }
+    },
+    createDatasetFromLayer: undefined
   };
 
   const args = spy.args[0][0];
@@ -115,7 +117,7 @@ test('Components -> LayerConfigurator.mount -> default prop 1', t => {
   t.deepEqual(
     Object.keys(args).sort(),
     Object.keys(expectedArgs).sort(),
-    'render layer method should receive 5 arguments'
+    'render layer method should receive 7 arguments'
   );
 
   t.equal(args.layer, expectedArgs.layer, 'render layer method should receive corrent layer arg');
@@ -124,6 +126,12 @@ test('Components -> LayerConfigurator.mount -> default prop 1', t => {
     expectedArgs.dataset,
     'render layer method should receive corrent dataset arg'
   );
+  t.equal(args.datasets, expectedArgs.datasets, 'render layer method should receive datasets arg');
+  t.equal(
+    args.createDatasetFromLayer,
+    expectedArgs.createDatasetFromLayer,
+    'render layer method should receive createDatasetFromLayer arg'
+  );
   t.deepEqual(
     args.visConfiguratorProps,
     expectedArgs.visConfiguratorProps,
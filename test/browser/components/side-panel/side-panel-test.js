@@ -45,7 +45,12 @@ const SaveExportDropdown = appInjector.get(SaveExportDropdownFactory);
 import {InitialState} from 'test/helpers/mock-state';
 
 // Constants
-import {EXPORT_DATA_ID, EXPORT_MAP_ID, EXPORT_IMAGE_ID} from '@kepler.gl/constants';
+import {
+  EXPORT_DATA_ID,
+  EXPORT_MAP_ID,
+  EXPORT_IMAGE_ID,
+  EXPORT_VIDEO_ID
+} from '@kepler.gl/constants';
 
 // default props from initial state
 const defaultProps = {
@@ -307,18 +312,30 @@ test('Components -> SidePanel -> PanelHeader', t => {
   // action item
   t.equal(
     header.find('.side-panel__panel-header__action').length,
-    1,
-    'should render 1 header action item'
+    3,
+    'should render undo, redo and save header action items'
+  );
+
+  // Undo / Redo
+  t.equal(
+    header.find('.side-panel__panel-header__action').at(0).prop('id'),
+    'undo-action',
+    'should render undo action first'
+  );
+  t.equal(
+    header.find('.side-panel__panel-header__action').at(1).prop('id'),
+    'redo-action',
+    'should render redo action second'
   );
 
   // Share
   t.equal(
-    header.find('.side-panel__panel-header__action').at(0).find('p').text(),
+    header.find('.side-panel__panel-header__action').at(2).find('p').text(),
     'Share',
     'should only render Save action'
   );
 
-  header.find('.side-panel__panel-header__action').at(0).simulate('click');
+  header.find('.side-panel__panel-header__action').at(2).simulate('click');
 
   t.ok(showExportDropdown.calledWith('save'), 'should call toggleSidePanel with share');
 
@@ -338,6 +355,49 @@ test('Components -> SidePanel -> PanelHeader', t => {
   t.end();
 });
 
+test('Components -> SidePanel -> PanelHeader -> Undo / Redo', t => {
+  const undo = sinon.spy();
+  const redo = sinon.spy();
+  const visStateActions = {
+    ...VisStateActions,
+    undo,
+    redo
+  };
+
+  let wrapper;
+  t.doesNotThrow(() => {
+    wrapper = mountWithTheme(
+      <IntlWrapper>
+        <SidePanel {...defaultProps} visStateActions={visStateActions} />
+      </IntlWrapper>
+    );
+  }, 'SidePanel should not fail without undo history');
+
+  wrapper.find('#undo-action').first().simulate('click');
+  wrapper.find('#redo-action').first().simulate('click');
+  t.ok(undo.notCalled, 'should not call undo when there is nothing to undo');
+  t.ok(redo.notCalled, 'should not call redo when there is nothing to redo');
+
+  t.doesNotThrow(() => {
+    wrapper = mountWithTheme(
+      <IntlWrapper>
+        <SidePanel
+          {...defaultProps}
+          visStateActions={visStateActions}
+          undoHistory={{past: [{}], future: [{}], groupKey: null}}
+        />
+      </IntlWrapper>
+    );
+  }, 'SidePanel should not fail with undo history');
+
+  wrapper.find('#undo-action').first().simulate('click');
+  t.ok(undo.calledOnce, 'should call undo');
+  wrapper.find('#redo-action').first().simulate('click');
+  t.ok(redo.calledOnce, 'should call redo');
+
+  t.end();
+});
+
 test('Components -> SidePanel -> PanelHeader -> ExportDropDown', t => {
   const toggleModal = sinon.spy();
   const startExportingImage = sinon.spy();
@@ -364,7 +424,7 @@ test('Components -> SidePanel -> PanelHeader -> ExportDropDown', t => {
   }, 'SidePanel should not fail');
 
   t.ok(wrapper.find(SaveExportDropdown).length === 1, 'should render SaveExportDropdown');
-  t.equal(wrapper.find(ToolbarItem).length, 3, 'should render 3 ToolbarItem');
+  t.equal(wrapper.find(ToolbarItem).length, 4, 'should render 4 ToolbarItem');
 
   // export image
   t.equal(
@@ -376,22 +436,31 @@ test('Components -> SidePanel -> PanelHeader -> ExportDropDown', t => {
   wrapper.find(ToolbarItem).at(0).find('.toolbar-item').simulate('click');
   t.ok(toggleModal.calledWith(EXPORT_IMAGE_ID), 'Should call toggleModal with EXPORT_IMAGE_ID');
 
-  // export data
+  // export video
   t.equal(
     wrapper.find(ToolbarItem).at(1).find('.toolbar-item__title').text(),
+    'Export Video',
+    'Should render Export Video'
+  );
+  wrapper.find(ToolbarItem).at(1).find('.toolbar-item').simulate('click');
+  t.ok(toggleModal.calledWith(EXPORT_VIDEO_ID), 'Should call toggleModal with EXPORT_VIDEO_ID');
+
+  // export data
+  t.equal(
+    wrapper.find(ToolbarItem).at(2).find('.toolbar-item__title').text(),
     'Export Data',
     'Should render Export Data'
   );
-  wrapper.find(ToolbarItem).at(1).find('.toolbar-item').simulate('click');
+  wrapper.find(ToolbarItem).at(2).find('.toolbar-item').simulate('click');
   t.ok(toggleModal.calledWith(EXPORT_DATA_ID), 'Should call toggleModal with EXPORT_DATA_ID');
 
   // export map
   t.equal(
-    wrapper.find(ToolbarItem).at(2).find('.toolbar-item__title').text(),
+    wrapper.find(ToolbarItem).at(3).find('.toolbar-item__title').text(),
     'Export Map',
     'Should render Export Map'
   );
-  wrapper.find(ToolbarItem).at(2).find('.toolbar-item').simulate('click');
+  wrapper.find(ToolbarItem).at(3).find('.toolbar-item').simulate('click');
   t.ok(toggleModal.calledWith(EXPORT_MAP_ID), 'Should call toggleModal with EXPORT_MAP_ID');
 
   t.end();
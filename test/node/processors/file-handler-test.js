@@ -2,7 +2,13 @@
 // Copyright contributors to the kepler.gl project
 
 import test from 'tape';
-import {isKeplerGlMap, makeProgressIterator, filesToDataPayload} from '@kepler.gl/processors';
+import {
+  isKeplerGlMap,
+  isShapefileData,
+  isGeoPackageData,
+  makeProgressIterator,
+  filesToDataPayload
+} from '@kepler.gl/processors';
 import {parsedFields, parsedRows} from 'test/fixtures/row-object';
 import {
   savedStateV1InteractionCoordinate as keplerglMap,
@@ -31,6 +37,19 @@ test('#file-handler -> isKeplerGlMap', t => {
   t.end();
 });
 
+test('#file-handler -> isShapefileData, isGeoPackageData', t => {
+  t.equal(
+    isShapefileData({type: 'shapefile', features: [], prj: null}),
+    true,
+    'should be shapefile data'
+  );
+  t.equal(isShapefileData({type: 'FeatureCollection', features: []}), false, 'should be geojson');
+  t.equal(isGeoPackageData({type: 'geopackage', tables: []}), true, 'should be geopackage data');
+  t.equal(isGeoPackageData({type: 'geopackage'}), false, 'should not be geopackage data');
+
+  t.end();
+});
+
 test('#file-handler -> makeProgressIterator', async t => {
   // mock AsyncIterator returned by loarder.gl patchInBatches
   // Ideally should run this in browser-headless
@@ -5,8 +5,10 @@
 
 import {drainTasksForTesting, succeedTaskWithValues} from 'react-palm/tasks';
 import test from 'tape';
+import cloneDeep from 'lodash/cloneDeep';
+import omit from 'lodash/omit';
 
-import {registerEntry} from '@kepler.gl/actions';
+import {addDerivedField, registerEntry} from '@kepler.gl/actions';
 import {processCsvData} from '@kepler.gl/processors';
 import keplerGlReducer, {
   addDataToMapUpdater,
@@ -531,6 +533,78 @@ test('#composerStateReducer - replaceDataInMapUpdater', t => {
   t.end();
 });
 
+test('#composerStateReducer - replaceDataInMapUpdater: derivedFields', t => {
+  const dataIdToReplace = 'dataset_to_replace';
+  const datasets = {
+    data: processCsvData(testCsvData),
+    info: {
+      id: sampleConfig.dataId
+    }
+  };
+  const datasetToUse = {
+    data: processCsvData(dataWithNulls),
+    info: {
+      id: dataIdToReplace
+    }
+  };
+  const state = keplerGlReducer({}, registerEntry({id: 'test'})).test;
+
+  let oldState = addDataToMapUpdater(state, {
+    payload: {
+      datasets,
+      config: sampleConfig.config
+    }
+  });
+  oldState = {...oldState, visState: applyExistingDatasetTasks(visStateReducer, oldState.visState)};
+
+  // replace dataset without derived fields
+  let nextState = replaceDataInMapUpdater(oldState, {
+    payload: {datasetToReplaceId: sampleConfig.dataId, datasetToUse}
+  });
+  nextState = {
+    ...nextState,
+    visState: applyExistingDatasetTasks(visStateReducer, nextState.visState)
+  };
+  t.deepEqual(nextState.visState.derivedFields, [], 'should not add derived fields');
+  t.deepEqual(
+    nextState.visState.derivedFieldToBeMerged,
+    [],
+    'should not have derived fields to merge'
+  );
+
+  // replace dataset with derived fields
+  oldState = {
+    ...oldState,
+    visState: visStateReducer(
+      oldState.visState,
+      addDerivedField(sampleConfig.dataId, 'lat_x2', '`gps_data.lat` * 2')
+    )
+  };
+  nextState = replaceDataInMapUpdater(oldState, {
+    payload: {datasetToReplaceId: sampleConfig.dataId, datasetToUse}
+  });
+  nextState = {
+    ...nextState,
+    visState: applyExistingDatasetTasks(visStateReducer, nextState.visState)
+  };
+
+  t.deepEqual(
+    nextState.visState.derivedFields.map(({dataId, name, expression}) => ({
+      dataId,
+      name,
+      expression
+    })),
+    [{dataId: dataIdToReplace, name: 'lat_x2', expression: '`gps_data.lat` * 2'}],
+    'should replace derived field dataId'
+  );
+  t.deepEqual(nextState.visState.derivedFieldToBeMerged, [], 'should reset derivedFieldToBeMerged');
+  t.ok(
+    nextState.visState.datasets[dataIdToReplace].getColumnField('lat_x2'),
+    'should add derived field to the new dataset'
+  );
+  t.end();
+});
+
 test('#composerStateReducer - replaceDataInMapUpdater: same dataId', t => {
   const datasets = {
     data: processCsvData(testCsvData),
@@ -722,3 +796,78 @@ test('#composerStateReducer - replaceDataInMapUpdater: syncedTimeFilter & no mat
   t.deepEqual(nextState.visState.splitMapsToBeMerged, [], 'should reset splitMapsToBeMerged');
   t.end();
 });
+
+function getStrictModeTestState() {
+  const datasets = {
+    data: processCsvData(testCsvData),
+    info: {
+      id: sampleConfig.dataId
+    }
+  };
+  const state = keplerGlReducer({}, registerEntry({id: 'test'})).test;
+  const config = cloneDeep(sampleConfig.config);
+  const invalidConfig = {
+    ...config,
+    config: {
+      ...config.config,
+      visState: {
+        ...config.config.visState,
+        layers: [omit(config.config.visState.layers[0], 'type')],
+        unknownProp: true
+      }
+    }
+  };
+
+  return {state, datasets, config, invalidConfig};
+}
+
+test('#composerStateReducer - addDataToMapUpdater: strict', t => {
+  const {state, datasets, config} = getStrictModeTestState();
+
+  let nextState = addDataToMapUpdater(state, {
+    payload: {datasets, config, options: {strict: true}}
+  });
+  nextState = {
+    ...nextState,
+    visState: applyExistingDatasetTasks(visStateReducer, nextState.visState)
+  };
+  t.ok(nextState.visState.datasets[sampleConfig.dataId], 'should add data in strict mode');
+  t.equal(nextState.uiState.notifications.length, 0, 'should load valid config in strict mode');
+
+  t.end();
+});
+
+test('#composerStateReducer - addDataToMapUpdater: strict with invalid config', t => {
+  const {state, datasets, invalidConfig} = getStrictModeTestState();
+
+  const rejectedState = addDataToMapUpdater(state, {
+    payload: {datasets, config: invalidConfig, options: {strict: true}}
+  });
+  t.equal(rejectedState.visState, state.visState, 'should not add data with invalid config');
+  t.equal(rejectedState.uiState.notifications.length, 1, 'should add error notification');
+  t.equal(
+    rejectedState.uiState.notifications[0].message,
+    'Failed to load map config: $.config.visState.layers[0].type is required, $.config.visState.unknownProp is not a valid property',
+    'should list invalid paths'
+  );
+
+  t.end();
+});
+
+test('#composerStateReducer - addDataToMapUpdater: invalid config not strict', t => {
+  const {state, datasets, invalidConfig} = getStrictModeTestState();
+
+  let looseState = addDataToMapUpdater(state, {
+    payload: {datasets, config: invalidConfig}
+  });
+  looseState = {
+    ...looseState,
+    visState: applyExistingDatasetTasks(visStateReducer, looseState.visState)
+  };
+  t.ok(
+    looseState.visState.datasets[sampleConfig.dataId],
+    'should add data with invalid config when not strict'
+  );
+
+  t.end();
+});
@@ -9,6 +9,8 @@ import './ui-state-test';
 import './composer-state-test';
 import './provider-state-test';
 import './root-test';
+import './undo-history-test';
+import './spatial-join-test';
 
 // test mergers
 import './vis-state-merger-test';
@@ -308,7 +308,7 @@ test("#mapStyleReducer -> RECEIVE_MAP_CONFIG (custom: 'LOCAL')", t => {
 
   const savedConfig = SchemaManager.getConfigToSave({mapStyle: resultState1});
   const expectedSaved = {
-    version: 'v1',
+    version: 'v2',
     config: {
       mapStyle: {
         styleType: 'smoothie_the_cat',
@@ -403,7 +403,7 @@ test("#mapStyleReducer -> RECEIVE_MAP_CONFIG (custom: 'MANAGED')", t => {
 
   const savedConfig = SchemaManager.getConfigToSave({mapStyle: stateToSave.mapStyle});
   const expectedSaved = {
-    version: 'v1',
+    version: 'v2',
     config: {
       mapStyle: {
         styleType: 'smoothie_the_cat',
@@ -568,7 +568,7 @@ test('#mapStyleReducer -> RECEIVE_MAP_CONFIG (custom: true (legacy backwards sup
 
   const savedConfig = SchemaManager.getConfigToSave({mapStyle: resultState1});
   const expectedSaved = {
-    version: 'v1',
+    version: 'v2',
     config: {
       mapStyle: {
         styleType: 'smoothie_the_cat',
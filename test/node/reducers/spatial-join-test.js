@@ -0,0 +1,106 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import test from 'tape';
+import {processCsvData, processGeojson} from '@kepler.gl/processors';
+import {spatialJoinDatasets} from '@kepler.gl/reducers';
+import {createNewDataEntryMock} from '../../helpers/table-utils';
+
+const pointsCsv = `name,lat,lng,value
+a,1,1,10
+b,2,2,20
+c,1,11,5
+d,50,50,100`;
+
+const square = (x, name) => ({
+  type: 'Feature',
+  properties: {zone: name},
+  geometry: {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [x, 0],
+        [x + 10, 0],
+        [x + 10, 10],
+        [x, 10],
+        [x, 0]
+      ]
+    ]
+  }
+});
+
+async function getDatasets() {
+  const points = await createNewDataEntryMock({
+    info: {id: 'points', label: 'points'},
+    data: processCsvData(pointsCsv)
+  });
+  const polygons = await createNewDataEntryMock({
+    info: {id: 'polygons', label: 'polygons'},
+    data: processGeojson({
+      type: 'FeatureCollection',
+      features: [square(0, 'west'), square(10, 'east'), square(20, 'empty')]
+    })
+  });
+  return {points: points.points, polygons: polygons.polygons};
+}
+
+test('spatialJoin -> polygonAttributes', async t => {
+  const {points, polygons} = await getDatasets();
+
+  const joined = spatialJoinDatasets(points, polygons, {
+    joinType: 'polygonAttributes',
+    fields: ['zone']
+  });
+  t.equal(joined.id, 'points', 'should add columns to the point dataset');
+  t.deepEqual(
+    [0, 1, 2, 3].map(i => joined.getValue('zone', i)),
+    ['west', 'west', 'east', null],
+    'should add the attribute of the polygon containing each point'
+  );
+
+  const withIndex = spatialJoinDatasets(joined, polygons, {joinType: 'polygonAttributes'});
+  t.deepEqual(
+    [0, 1, 2, 3].map(i => withIndex.getValue('polygon_index', i)),
+    [0, 0, 1, null],
+    'should add the polygon index when no field is selected'
+  );
+
+  const joinedAgain = spatialJoinDatasets(joined, polygons, {
+    joinType: 'polygonAttributes',
+    fields: ['zone']
+  });
+  t.ok(
+    joinedAgain.fields.find(f => f.name === 'zone_1'),
+    'should not overwrite an existing field'
+  );
+  t.end();
+});
+
+test('spatialJoin -> pointAggregation', async t => {
+  const {points, polygons} = await getDatasets();
+
+  const joined = spatialJoinDatasets(points, polygons, {
+    joinType: 'pointAggregation',
+    fields: ['value'],
+    aggregations: ['sum', 'average']
+  });
+  t.equal(joined.id, 'polygons', 'should add columns to the polygon dataset');
+  t.deepEqual(
+    ['point_count', 'value_sum', 'value_average'].map(name =>
+      [0, 1, 2].map(i => joined.getValue(name, i))
+    ),
+    [
+      [2, 1, 0],
+      [30, 5, 0],
+      [15, 5, null]
+    ],
+    'should count and aggregate points in each polygon'
+  );
+
+  t.throws(
+    () => spatialJoinDatasets(polygons, polygons, {joinType: 'pointAggregation'}),
+    /no lat \/ lng columns/,
+    'should throw when the point dataset has no point columns'
+  );
+  t.end();
+});
@@ -15,6 +15,8 @@ import {
   setExportDataType,
   setExportFiltered,
   startExportingImage,
+  setExportVideoSetting,
+  cleanupExportVideo,
   addNotification,
   removeNotification,
   loadFiles,
@@ -28,6 +30,8 @@ import {
 } from '@kepler.gl/reducers';
 import {
   EXPORT_DATA_TYPE,
+  EXPORT_IMG_RATIOS,
+  EXPORT_VIDEO_FORMATS,
   RESOLUTIONS,
   DEFAULT_NOTIFICATION_TOPICS,
   DEFAULT_NOTIFICATION_TYPES
@@ -172,6 +176,60 @@ test('#uiStateReducer -> START_EXPORTING_IMAGE', t => {
   t.end();
 });
 
+test('#uiStateReducer -> SET_EXPORT_VIDEO_SETTING', t => {
+  const newReducer = reducer(
+    INITIAL_UI_STATE,
+    setExportVideoSetting({format: EXPORT_VIDEO_FORMATS.GIF, frameRate: 15})
+  );
+
+  t.deepEqual(
+    newReducer,
+    {
+      ...INITIAL_UI_STATE,
+      exportVideo: {
+        ...INITIAL_UI_STATE.exportVideo,
+        format: EXPORT_VIDEO_FORMATS.GIF,
+        frameRate: 15
+      }
+    },
+    'should set format and frame rate, keep imageSize when map size is unknown'
+  );
+
+  const nextState = reducer(
+    newReducer,
+    setExportVideoSetting({
+      mapW: 800,
+      mapH: 600,
+      ratio: EXPORT_IMG_RATIOS.SIXTEEN_BY_NINE,
+      resolution: RESOLUTIONS.TWO_X
+    })
+  );
+
+  t.deepEqual(
+    nextState.exportVideo.imageSize,
+    {scale: 2, imageW: 1600, imageH: 900},
+    'should calculate video size from map size, ratio and resolution'
+  );
+
+  t.end();
+});
+
+test('#uiStateReducer -> CLEANUP_EXPORT_VIDEO', t => {
+  const exportingState = reducer(
+    INITIAL_UI_STATE,
+    setExportVideoSetting({exporting: true, progress: 0.5, duration: 10})
+  );
+  const newReducer = reducer(exportingState, cleanupExportVideo());
+
+  t.deepEqual(
+    newReducer.exportVideo,
+    {...INITIAL_UI_STATE.exportVideo, duration: 10},
+    'should reset exporting, progress and error but keep user settings'
+  );
+
+  t.end();
+});
+
 test('#uiStateReducer -> TOGGLE_MAP_CONTROL', t => {
   const newReducer = reducer(INITIAL_UI_STATE, toggleMapControl('mapLegend'));
 
@@ -0,0 +1,216 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import test from 'tape';
+import cloneDeep from 'lodash/cloneDeep';
+import {
+  keplerGlReducerCore as keplerGlReducer,
+  getUndoGroupKey,
+  INITIAL_UNDO_HISTORY,
+  MAX_UNDO_HISTORY
+} from '@kepler.gl/reducers';
+import {
+  addFilter,
+  layerConfigChange,
+  layerVisConfigChange,
+  onLayerHover,
+  redo,
+  removeFilter,
+  removeLayer,
+  reorderLayer,
+  setFilter,
+  undo
+} from '@kepler.gl/actions';
+import {StateWFiles, StateWFilters, testCsvDataId} from 'test/helpers/mock-state';
+
+function getState(mockState = StateWFiles) {
+  const state = cloneDeep(mockState);
+  return {...state, visState: {...state.visState, undoHistory: INITIAL_UNDO_HISTORY}};
+}
+
+test('#undoHistory -> undo / redo layer config change', t => {
+  const initialState = getState();
+  const layer = initialState.visState.layers[0];
+  const oldLabel = layer.config.label;
+
+  const nextState = keplerGlReducer(initialState, layerConfigChange(layer, {label: 'new label'}));
+  t.equal(nextState.visState.layers[0].config.label, 'new label', 'should change layer label');
+  t.equal(nextState.visState.undoHistory.past.length, 1, 'should track layer config change');
+
+  const undone = keplerGlReducer(nextState, undo());
+  t.equal(undone.visState.layers[0].config.label, oldLabel, 'should restore layer label');
+  t.equal(undone.visState.undoHistory.past.length, 0, 'should pop past');
+  t.equal(undone.visState.undoHistory.future.length, 1, 'should push future');
+
+  const redone = keplerGlReducer(undone, redo());
+  t.equal(redone.visState.layers[0].config.label, 'new label', 'should re-apply layer label');
+  t.equal(redone.visState.undoHistory.past.length, 1, 'should push past');
+  t.equal(redone.visState.undoHistory.future.length, 0, 'should pop future');
+
+  t.equal(keplerGlReducer(initialState, undo()).visState, initialState.visState, 'noop undo');
+  t.equal(keplerGlReducer(initialState, redo()).visState, initialState.visState, 'noop redo');
+
+  t.end();
+});
+
+test('#undoHistory -> remove and reorder layers', t => {
+  const initialState = getState();
+  const {layers, layerOrder} = initialState.visState;
+
+  const removed = keplerGlReducer(initialState, removeLayer(layers[0].id));
+  t.equal(removed.visState.layers.length, layers.length - 1, 'should remove layer');
+
+  const reordered = keplerGlReducer(
+    removed,
+    reorderLayer([...removed.visState.layerOrder].reverse())
+  );
+  t.equal(reordered.visState.undoHistory.past.length, 2, 'should track 2 changes');
+
+  const undoReorder = keplerGlReducer(reordered, undo());
+  t.deepEqual(
+    undoReorder.visState.layerOrder,
+    removed.visState.layerOrder,
+    'should restore layer order'
+  );
+
+  const undoRemove = keplerGlReducer(undoReorder, undo());
+  t.equal(undoRemove.visState.layers.length, layers.length, 'should restore removed layer');
+  t.equal(undoRemove.visState.layers[0].id, layers[0].id, 'should restore removed layer id');
+  t.deepEqual(undoRemove.visState.layerOrder, layerOrder, 'should restore layer order');
+
+  const changed = keplerGlReducer(
+    undoRemove,
+    layerConfigChange(undoRemove.visState.layers[1], {label: 'abc'})
+  );
+  t.equal(changed.visState.undoHistory.future.length, 0, 'new change should clear future');
+
+  t.end();
+});
+
+test('#undoHistory -> undo / redo filter changes', t => {
+  const initialState = getState(StateWFilters);
+  const {filters, datasets} = initialState.visState;
+  const oldValue = filters[0].value;
+  // datasets are filtered in place, keep copies of the filter result
+  const oldFilterRange = cloneDeep(datasets[testCsvDataId].gpuFilter.filterRange);
+  const newValue = [oldValue[0], oldValue[0] + (oldValue[1] - oldValue[0]) / 2];
+
+  const nextState = keplerGlReducer(initialState, setFilter(0, 'value', newValue));
+  const newFilterRange = cloneDeep(
+    nextState.visState.datasets[testCsvDataId].gpuFilter.filterRange
+  );
+  t.notDeepEqual(newFilterRange, oldFilterRange, 'should update gpu filter range');
+
+  const undone = keplerGlReducer(nextState, undo());
+  t.deepEqual(undone.visState.filters[0].value, oldValue, 'should restore filter value');
+  t.deepEqual(
+    undone.visState.datasets[testCsvDataId].gpuFilter.filterRange,
+    oldFilterRange,
+    'should restore gpu filter range'
+  );
+
+  const redone = keplerGlReducer(undone, redo());
+  t.deepEqual(redone.visState.filters[0].value, newValue, 'should re-apply filter value');
+  t.deepEqual(
+    redone.visState.datasets[testCsvDataId].gpuFilter.filterRange,
+    newFilterRange,
+    'should re-apply gpu filter range'
+  );
+
+  t.end();
+});
+
+test('#undoHistory -> undo add and remove filter', t => {
+  const initialState = getState(StateWFilters);
+  const {filters, datasets} = initialState.visState;
+  const geojsonDataId = filters[1].dataId[0];
+  const oldFilteredIndex = [...datasets[geojsonDataId].filteredIndex];
+  const allIndexes = datasets[geojsonDataId].allIndexes;
+  t.ok(oldFilteredIndex.length < allIndexes.length, 'RATE filter should filter geojson data');
+
+  const removed = keplerGlReducer(initialState, removeFilter(1));
+  t.equal(removed.visState.filters.length, filters.length - 1, 'should remove filter');
+  t.deepEqual(
+    removed.visState.datasets[geojsonDataId].filteredIndex,
+    allIndexes,
+    'should not filter geojson data'
+  );
+
+  const undoRemove = keplerGlReducer(removed, undo());
+  t.deepEqual(
+    undoRemove.visState.filters.map(f => f.id),
+    filters.map(f => f.id),
+    'should restore removed filter'
+  );
+  t.deepEqual(
+    undoRemove.visState.datasets[geojsonDataId].filteredIndex,
+    oldFilteredIndex,
+    'should filter geojson data with restored filter'
+  );
+
+  const added = keplerGlReducer(undoRemove, addFilter(testCsvDataId));
+  t.equal(added.visState.filters.length, filters.length + 1, 'should add filter');
+
+  const undoAdd = keplerGlReducer(added, undo());
+  t.equal(undoAdd.visState.filters.length, filters.length, 'should remove added filter');
+  t.equal(undoAdd.visState.undoHistory.future.length, 1, 'should push future');
+
+  t.end();
+});
+
+test('#undoHistory -> group and ignore actions', t => {
+  const initialState = getState();
+  const layer = initialState.visState.layers[0];
+  const oldOpacity = layer.config.visConfig.opacity;
+
+  let nextState = keplerGlReducer(initialState, layerVisConfigChange(layer, {opacity: 0.1}));
+  nextState = keplerGlReducer(
+    nextState,
+    layerVisConfigChange(nextState.visState.layers[0], {opacity: 0.2})
+  );
+  nextState = keplerGlReducer(
+    nextState,
+    layerVisConfigChange(nextState.visState.layers[0], {opacity: 0.3})
+  );
+  t.equal(nextState.visState.undoHistory.past.length, 1, 'should group slider updates');
+  t.equal(
+    keplerGlReducer(nextState, undo()).visState.layers[0].config.visConfig.opacity,
+    oldOpacity,
+    'should undo grouped updates at once'
+  );
+
+  const hovered = keplerGlReducer(nextState, onLayerHover({picked: false}));
+  t.equal(hovered.visState.undoHistory, nextState.visState.undoHistory, 'should ignore hover');
+
+  t.equal(
+    getUndoGroupKey(layerVisConfigChange(layer, {opacity: 1})),
+    getUndoGroupKey(layerVisConfigChange(layer, {opacity: 0})),
+    'should group same vis config prop'
+  );
+  t.notEqual(
+    getUndoGroupKey(layerVisConfigChange(layer, {opacity: 1})),
+    getUndoGroupKey(layerVisConfigChange(layer, {thickness: 1})),
+    'should not group different vis config props'
+  );
+  t.equal(getUndoGroupKey(removeLayer(layer.id)), null, 'should not group remove layer');
+
+  t.end();
+});
+
+test('#undoHistory -> history limit', t => {
+  let nextState = getState();
+  for (let i = 0; i < MAX_UNDO_HISTORY + 5; i++) {
+    nextState = keplerGlReducer(
+      nextState,
+      reorderLayer([...nextState.visState.layerOrder].reverse())
+    );
+  }
+
+  t.equal(
+    nextState.visState.undoHistory.past.length,
+    MAX_UNDO_HISTORY,
+    'should keep at most MAX_UNDO_HISTORY changes'
+  );
+
+  t.end();
+});
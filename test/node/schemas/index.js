@@ -7,3 +7,5 @@ import './map-state-schema-test';
 import './map-style-schema-test';
 import './dataset-schema-test';
 import './schema-conversion-test';
+import './schema-migrations-test';
+import './json-schema-test';
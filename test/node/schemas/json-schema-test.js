@@ -0,0 +1,110 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import test from 'tape';
+import cloneDeep from 'lodash/cloneDeep';
+import SchemaManager, {getJSONPath, validateJSONSchema} from '@kepler.gl/schemas';
+import {StateWFilesFiltersLayerColor} from 'test/helpers/mock-state';
+
+test('#jsonSchema -> getJSONPath', t => {
+  t.equal(getJSONPath('$', 'config'), '$.config', 'should append property');
+  t.equal(getJSONPath('$.layers', 2), '$.layers[2]', 'should append index');
+  t.equal(getJSONPath('$', 'my key'), '$["my key"]', 'should quote property');
+  t.end();
+});
+
+test('#jsonSchema -> validateJSONSchema', t => {
+  const schema = {
+    type: 'object',
+    properties: {
+      id: {type: 'string'},
+      items: {type: 'array', items: {type: ['number', 'null']}},
+      mode: {enum: ['a', 'b']}
+    },
+    required: ['id'],
+    additionalProperties: false
+  };
+
+  t.deepEqual(validateJSONSchema(schema, {id: 'x', items: [1, null]}), [], 'should be valid');
+  t.deepEqual(
+    validateJSONSchema(schema, {items: [1, 'two'], mode: 'c', other: 1}),
+    [
+      {path: '$.id', message: 'is required'},
+      {path: '$.items[1]', message: 'should be number or null, got string'},
+      {path: '$.mode', message: 'should be one of a, b, got c'},
+      {path: '$.other', message: 'is not a valid property'}
+    ],
+    'should return errors with json path'
+  );
+  t.deepEqual(
+    validateJSONSchema(schema, []),
+    [{path: '$', message: 'should be object, got array'}],
+    'should validate type'
+  );
+  t.end();
+});
+
+test('#KeplerGLSchema -> getJSONSchema', t => {
+  const jsonSchema = SchemaManager.getJSONSchema();
+
+  t.equal(jsonSchema.$schema, 'http://json-schema.org/draft-07/schema#', 'should be draft-07');
+  t.deepEqual(jsonSchema.required, ['datasets', 'config'], 'should require datasets and config');
+
+  const configSchema = jsonSchema.properties.config.properties.config;
+  t.deepEqual(
+    Object.keys(configSchema.properties),
+    ['visState', 'mapState', 'mapStyle', 'uiState'],
+    'should describe all reducer schemas'
+  );
+
+  const layersSchema = configSchema.properties.visState.properties.layers;
+  t.equal(layersSchema.type, 'array', 'layers should be array');
+  t.deepEqual(layersSchema.items.required, ['id', 'type', 'config'], 'should require layer props');
+  t.deepEqual(
+    Object.keys(layersSchema.items.properties),
+    ['id', 'type', 'config', 'visualChannels'],
+    'should generate layer props from layer schema'
+  );
+  t.deepEqual(
+    configSchema.properties.mapState.properties.zoom,
+    {},
+    'should accept any value for leaf props'
+  );
+
+  const fieldsSchema = jsonSchema.properties.datasets.items.properties.data.properties.fields;
+  t.equal(fieldsSchema.type, 'array', 'fields should be array');
+
+  t.doesNotThrow(() => JSON.stringify(jsonSchema), 'should be serializable');
+  t.end();
+});
+
+test('#KeplerGLSchema -> validate', t => {
+  const savedMap = SchemaManager.save(cloneDeep(StateWFilesFiltersLayerColor));
+
+  t.deepEqual(SchemaManager.validate(savedMap), {valid: true, errors: []}, 'saved map is valid');
+
+  const invalidMap = cloneDeep(savedMap);
+  delete invalidMap.config.config.visState.layers[0].id;
+  invalidMap.config.config.visState.filters = {};
+  invalidMap.config.config.mapState.zoomLevel = 3;
+  invalidMap.datasets[0].data.fields[0] = {name: 'a'};
+
+  t.deepEqual(
+    SchemaManager.validate(invalidMap).errors,
+    [
+      {path: '$.datasets[0].data.fields[0].type', message: 'is required'},
+      {path: '$.config.config.visState.filters', message: 'should be array, got object'},
+      {path: '$.config.config.visState.layers[0].id', message: 'is required'},
+      {path: '$.config.config.mapState.zoomLevel', message: 'is not a valid property'}
+    ],
+    'should report invalid values with json path'
+  );
+
+  t.deepEqual(
+    SchemaManager.validate({datasets: [], config: {version: 'v8', config: {}}}).errors,
+    [{path: '$.config.version', message: 'v8 is not a valid version'}],
+    'should report invalid version'
+  );
+
+  t.end();
+});
@@ -0,0 +1,220 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import test from 'tape';
+import cloneDeep from 'lodash/cloneDeep';
+import SchemaManager, {
+  CURRENT_VERSION,
+  KeplerGLSchemaClass,
+  SchemaMigrationError,
+  SchemaMigrationRegistry,
+  isSchemaMigrationError,
+  schemaMigrations
+} from '@kepler.gl/schemas';
+import {InitialState} from 'test/helpers/mock-state';
+
+const savedConfigV1 = {
+  version: 'v1',
+  config: {
+    visState: {
+      layers: [{id: 'a', type: 'myLayer', config: {dataId: 'd', label: 'a'}}],
+      filters: []
+    },
+    mapState: {latitude: 10, longitude: 20, zoom: 3}
+  }
+};
+
+test('#SchemaMigrationRegistry -> register', t => {
+  const registry = new SchemaMigrationRegistry();
+  const migrate = s => s;
+
+  t.throws(
+    () => registry.register({from: 'v5', section: 'visState', migrate}),
+    /Can not register migrator from v5/,
+    'should not register migrator from unknown version'
+  );
+  t.throws(
+    () => registry.register({from: CURRENT_VERSION, section: 'visState', migrate}),
+    /there is no next version/,
+    'should not register migrator from current version'
+  );
+  t.throws(
+    () => registry.register({from: 'v1', section: 'datasets', migrate}),
+    /unknown section datasets/,
+    'should not register migrator for unknown section'
+  );
+
+  const m1 = {from: 'v1', section: 'visState', id: 'm1', migrate};
+  const m2 = {from: 'v1', section: 'visState', id: 'm2', migrate};
+  registry.register([m1, m2]);
+  t.deepEqual(registry.getMigrators('v1', 'visState'), [m1, m2], 'should keep register order');
+  t.deepEqual(registry.getMigrators('v1', 'mapState'), [], 'should have no mapState migrator');
+
+  registry.unregister('m1');
+  t.deepEqual(registry.getMigrators('v1', 'visState'), [m2], 'should unregister migrator');
+
+  t.end();
+});
+
+test('#SchemaMigrationRegistry -> migrate', t => {
+  const registry = new SchemaMigrationRegistry().register([
+    {
+      from: 'v1',
+      section: 'visState',
+      migrate: visState => ({
+        ...visState,
+        layers: visState.layers.map(l => ({...l, type: `${l.type}V2`}))
+      })
+    },
+    {
+      from: 'v1',
+      section: 'visState',
+      migrate: visState => ({...visState, layers: visState.layers.map(l => ({...l, step: 2}))})
+    },
+    {
+      from: 'v1',
+      section: 'mapState',
+      migrate: (mapState, config) => ({...mapState, layerCount: config.visState.layers.length})
+    },
+    {
+      from: 'v1',
+      section: 'uiState',
+      migrate: () => {
+        throw new Error('should not be called without uiState');
+      }
+    }
+  ]);
+
+  const migrated = registry.migrate(cloneDeep(savedConfigV1));
+
+  t.equal(migrated.version, 'v2', 'should migrate to current version');
+  t.deepEqual(
+    migrated.config.visState.layers[0],
+    {id: 'a', type: 'myLayerV2', config: {dataId: 'd', label: 'a'}, step: 2},
+    'should apply visState migrators in order'
+  );
+  t.equal(
+    migrated.config.mapState.layerCount,
+    1,
+    'should pass migrated config to migrators of next section'
+  );
+  t.notOk('uiState' in migrated.config, 'should skip missing section');
+  t.notOk('loadedSections' in migrated, 'should not report loaded sections');
+
+  const loadedMigrated = new SchemaMigrationRegistry()
+    .register({from: 'v1', section: 'mapState', loaded: true, migrate: mapState => mapState})
+    .migrate(cloneDeep(savedConfigV1));
+  t.deepEqual(loadedMigrated.loadedSections, ['mapState'], 'should report loaded sections');
+
+  t.deepEqual(
+    registry.migrate(savedConfigV1, 'v1'),
+    savedConfigV1,
+    'should not migrate to same version'
+  );
+
+  t.end();
+});
+
+test('#SchemaMigrationRegistry -> migrate errors', t => {
+  const registry = new SchemaMigrationRegistry().register([
+    {from: 'v1', section: 'visState', migrate: s => s},
+    {
+      from: 'v1',
+      section: 'mapState',
+      id: 'broken-map-state',
+      migrate: () => {
+        throw new Error('zoom is missing');
+      }
+    }
+  ]);
+
+  try {
+    registry.migrate(savedConfigV1);
+    t.fail('should throw');
+  } catch (error) {
+    t.ok(error instanceof SchemaMigrationError, 'should throw SchemaMigrationError');
+    t.ok(isSchemaMigrationError(error), 'should be a migration error');
+    t.equal(error.section, 'mapState', 'should report failed section');
+    t.equal(error.fromVersion, 'v1', 'should report from version');
+    t.equal(error.toVersion, 'v2', 'should report to version');
+    t.equal(error.migratorId, 'broken-map-state', 'should report migrator id');
+    t.equal(
+      error.message,
+      'Failed to migrate mapState from v1 to v2 (broken-map-state): zoom is missing',
+      'should have precise message'
+    );
+  }
+
+  const badOutput = new SchemaMigrationRegistry().register({
+    from: 'v1',
+    section: 'visState',
+    migrate: () => null
+  });
+  t.throws(
+    () => badOutput.migrate(savedConfigV1),
+    /Failed to migrate visState from v1 to v2: migrator did not return an object/,
+    'should validate migrator output'
+  );
+
+  t.throws(
+    () => registry.migrate({version: 'v8', config: {}}),
+    /v8 is not a valid version/,
+    'should throw on invalid version'
+  );
+  t.throws(
+    () => registry.migrate({version: 'v2', config: {}}, 'v1'),
+    /to older version v1/,
+    'should not migrate to older version'
+  );
+
+  t.end();
+});
+
+test('#KeplerGLSchema -> parseSavedConfig with migrations', t => {
+  const schema = new KeplerGLSchemaClass({
+    migrations: new SchemaMigrationRegistry()
+  }).registerMigration({
+    from: 'v1',
+    section: 'mapState',
+    migrate: mapState => ({...mapState, zoom: mapState.zoom + 1})
+  });
+
+  const parsed = schema.parseSavedConfig(savedConfigV1);
+  t.deepEqual(
+    parsed.mapState,
+    {latitude: 10, longitude: 20, zoom: 4},
+    'should migrate v1 mapState before loading'
+  );
+  t.equal(parsed.visState.layers[0].type, 'myLayer', 'should load visState');
+
+  const savedConfig = SchemaManager.getConfigToSave(cloneDeep(InitialState));
+  t.equal(savedConfig.version, 'v2', 'should save current version');
+  t.deepEqual(
+    schema.parseSavedConfig(savedConfig).mapState,
+    SchemaManager.parseSavedConfig(savedConfig).mapState,
+    'should not migrate current version'
+  );
+
+  t.equal(
+    schema.parseSavedConfig({version: 'v8', config: {}}),
+    null,
+    'should return null for invalid version'
+  );
+  t.throws(
+    () => schema.loadSavedConfig({version: 'v8', config: {}}),
+    /v8 is not a valid version/,
+    'loadSavedConfig should throw for invalid version'
+  );
+  t.throws(
+    () => schema.loadSavedConfig({config: {}}),
+    /There is no version number/,
+    'loadSavedConfig should throw for missing version'
+  );
+
+  t.ok(
+    schemaMigrations.getMigrators('v0', 'visState').length,
+    'default registry should migrate v0 visState'
+  );
+
+  t.end();
+});
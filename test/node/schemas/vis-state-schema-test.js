@@ -149,6 +149,35 @@ test('#visStateSchema -> v1 -> save and validate filters', t => {
   t.end();
 });
 
+test('#visStateSchema -> v1 -> save load filterGroups', t => {
+  const initialState = cloneDeep(StateWFilesFiltersLayerColor);
+
+  t.equal(
+    SchemaManager.getConfigToSave(initialState).config.visState.filterGroups,
+    undefined,
+    'should not save filterGroups when filters are not composed'
+  );
+
+  let nextState = keplerGlReducer(initialState, VisStateActions.addFilterGroup('or', null, 'g1'));
+  nextState = keplerGlReducer(nextState, VisStateActions.setFilter(0, 'groupId', 'g1'));
+  const savedState = SchemaManager.getConfigToSave(nextState);
+  const vsToSave = savedState.config.visState;
+  const vsLoaded = SchemaManager.parseSavedConfig(savedState).visState;
+
+  const expectedFilterGroups = [{id: 'g1', operator: 'or', parentId: null}];
+
+  t.deepEqual(
+    Object.keys(vsToSave),
+    ['filters', 'filterGroups', ...expectedVisStateEntries.slice(1)],
+    'visState should save filterGroups after filters'
+  );
+  t.deepEqual(vsToSave.filterGroups, expectedFilterGroups, 'should save filterGroups');
+  t.deepEqual(vsLoaded.filterGroups, expectedFilterGroups, 'should load filterGroups');
+  t.equal(vsToSave.filters[0].groupId, 'g1', 'should save groupId of filter');
+
+  t.end();
+});
+
 test('#visStateSchema -> v1 -> save load interaction', t => {
   const initialState = cloneDeep(StateWFilesFiltersLayerColor);
   const savedState = SchemaManager.getConfigToSave(initialState);
@@ -0,0 +1,133 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import test from 'tape';
+import {
+  aggregateCells,
+  findCellFields,
+  geohashIsValid,
+  getGeohashBounds,
+  getQuadkeyBounds,
+  quadkeyIsValid,
+  quadkeyToTile,
+  GEOHASH_INDEX_SYSTEM,
+  QUADKEY_INDEX_SYSTEM
+} from '@kepler.gl/layers';
+
+function closeTo(actual, expected, epsilon = 1e-6) {
+  return (
+    actual.length === expected.length && actual.every((v, i) => Math.abs(v - expected[i]) < epsilon)
+  );
+}
+
+test('cellUtils -> quadkey', t => {
+  t.ok(quadkeyIsValid('0231'), 'should accept quadkey');
+  t.notOk(quadkeyIsValid('0241'), 'should reject digits above 3');
+  t.notOk(quadkeyIsValid(''), 'should reject empty string');
+  t.notOk(quadkeyIsValid(231), 'should reject number');
+
+  t.deepEqual(quadkeyToTile('0231'), {x: 3, y: 6, z: 4}, 'should decode tile coordinates');
+  t.ok(
+    closeTo(getQuadkeyBounds('0'), [-180, 0, 0, 85.0511287798]),
+    'should get bounds of the north west quadrant'
+  );
+  t.ok(
+    closeTo(QUADKEY_INDEX_SYSTEM.getCentroid('3'), [90, -66.5132604431]),
+    'should get center of tile in web mercator'
+  );
+
+  const boundary = QUADKEY_INDEX_SYSTEM.getBoundary('1');
+  t.equal(boundary.length, 5, 'should return a closed ring');
+  t.deepEqual(boundary[0], boundary[4], 'should close the ring');
+  t.equal(QUADKEY_INDEX_SYSTEM.getParent('0231', 2), '02', 'should get parent quadkey');
+
+  t.end();
+});
+
+test('cellUtils -> geohash', t => {
+  t.ok(geohashIsValid('ezs42'), 'should accept geohash');
+  t.notOk(geohashIsValid('ezs4a'), 'should reject letters not in geohash alphabet');
+  t.notOk(geohashIsValid('ezs42ezs42ezs'), 'should reject geohash longer than 12');
+
+  t.deepEqual(getGeohashBounds('s'), [0, 0, 45, 45], 'should decode single character');
+  const [lng, lat] = GEOHASH_INDEX_SYSTEM.getCentroid('ezs42');
+  t.ok(
+    Math.abs(lng + 5.603) < 0.001 && Math.abs(lat - 42.605) < 0.001,
+    'should decode geohash center'
+  );
+  t.equal(GEOHASH_INDEX_SYSTEM.getResolution('ezs42'), 5, 'should get resolution');
+  t.equal(GEOHASH_INDEX_SYSTEM.getParent('ezs42', 3), 'ezs', 'should get parent geohash');
+
+  t.end();
+});
+
+test('cellUtils -> aggregateCells', t => {
+  const ids = ['0231', '0230', '023', '1', null, 'x', '0231'];
+  const getId = ({index}) => ids[index];
+  const filteredIndex = ids.map((_, i) => i);
+
+  let cells = aggregateCells(filteredIndex, getId, QUADKEY_INDEX_SYSTEM, null);
+  t.deepEqual(
+    cells.map(({id, points}) => [id, points.map(p => p.index)]),
+    [
+      ['0231', [0, 6]],
+      ['0230', [1]],
+      ['023', [2]],
+      ['1', [3]]
+    ],
+    'should group rows by cell and skip invalid ids'
+  );
+  t.deepEqual(cells[3].polygon, QUADKEY_INDEX_SYSTEM.getBoundary('1'), 'should set cell boundary');
+
+  cells = aggregateCells(filteredIndex, getId, QUADKEY_INDEX_SYSTEM, 3);
+  t.deepEqual(
+    cells.map(({id, points}) => [id, points.map(p => p.index)]),
+    [
+      ['023', [0, 1, 2, 6]],
+      ['1', [3]]
+    ],
+    'should roll up finer cells into parent cells'
+  );
+
+  cells = aggregateCells(filteredIndex, getId, QUADKEY_INDEX_SYSTEM, 3, ({index}) => index !== 0);
+  t.deepEqual(
+    cells.map(({id, points}) => [id, points.map(p => p.index)]),
+    [
+      ['023', [1, 2, 6]],
+      ['1', [3]]
+    ],
+    'should skip filtered rows'
+  );
+
+  t.end();
+});
+
+test('cellUtils -> findCellFields', t => {
+  const fields = [
+    {name: 'GeoHash', type: 'string', fieldIdx: 0},
+    {name: 'gh', type: 'string', fieldIdx: 1},
+    {name: 'geohash_id', type: 'integer', fieldIdx: 2}
+  ];
+  const rows = [
+    ['9Q8YY', 'abc', 1],
+    [null, '9q8', 2]
+  ];
+  const dataContainer = {
+    numRows: () => rows.length,
+    valueAt: (row, col) => rows[row][col]
+  };
+  const names = ['geohash', 'gh', 'geohash_id'];
+
+  t.deepEqual(
+    findCellFields(fields, dataContainer, names, geohashIsValid).map(f => f.name),
+    ['GeoHash'],
+    'should find string fields by name with valid values'
+  );
+  t.deepEqual(
+    findCellFields(fields, undefined, names, geohashIsValid).map(f => f.name),
+    ['GeoHash', 'gh'],
+    'should find fields by name without data'
+  );
+
+  t.end();
+});
@@ -0,0 +1,106 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import test from 'tape';
+import {getContourBands, getContourGrid, getContourLines, getContourRings} from '@kepler.gl/layers';
+
+// 5 x 5 grid with a peak in the center
+const values = [
+  ...[0, 0, 0, 0, 0],
+  ...[0, 1, 1, 1, 0],
+  ...[0, 1, 3, 1, 0],
+  ...[0, 1, 1, 1, 0],
+  ...[0, 0, 0, 0, 0]
+];
+
+const grid = {width: 5, height: 5, cellSize: 0.001, origin: [256, 256], cells: []};
+
+test('contourUtils -> getContourRings', t => {
+  const rings = getContourRings(values, 5, 5, 2);
+  t.equal(rings.length, 1, 'should create 1 ring around the peak');
+  t.deepEqual(
+    rings[0],
+    [
+      [2, 1.5],
+      [1.5, 2],
+      [2, 2.5],
+      [2.5, 2],
+      [2, 1.5]
+    ],
+    'should interpolate ring between cell centers'
+  );
+
+  t.equal(getContourRings(values, 5, 5, 0).length, 1, 'should close rings at the grid border');
+  t.equal(getContourRings(values, 5, 5, 5).length, 0, 'should not create rings above max');
+
+  const holeRings = getContourRings([1, 1, 1, 1, 0, 1, 1, 1, 1], 3, 3, 0.5);
+  t.equal(holeRings.length, 2, 'should create exterior ring and hole');
+
+  t.equal(getContourRings([1, 0, 0, 1], 2, 2, 0.6).length, 2, 'should separate saddle');
+  t.equal(getContourRings([1, 0.4, 0.4, 1], 2, 2, 0.6).length, 1, 'should connect saddle');
+
+  t.end();
+});
+
+test('contourUtils -> getContourBands', t => {
+  const bands = getContourBands(grid, values, [0, 0.5, 2]);
+
+  t.deepEqual(
+    bands.map(b => [b.threshold, b.upperThreshold]),
+    [
+      [0, 0.5],
+      [0.5, 2],
+      [2, null]
+    ],
+    'should create a band for each threshold'
+  );
+  t.deepEqual(
+    bands.map(b => b.polygons.map(p => p.length)),
+    [[2], [2], [1]],
+    'lower bands should have a hole'
+  );
+
+  const [exterior] = bands[2].polygons[0];
+  t.deepEqual(exterior[0], exterior[exterior.length - 1], 'ring should be closed');
+  t.ok(
+    exterior.every(([lng, lat]) => Math.abs(lng) < 1 && Math.abs(lat) < 1),
+    'should convert to lng lat'
+  );
+
+  const lines = getContourLines(grid, values, [0.5, 2]);
+  t.deepEqual(
+    lines.map(l => [l.threshold, l.lines.length]),
+    [
+      [0.5, 1],
+      [2, 1]
+    ],
+    'should create isolines'
+  );
+
+  t.end();
+});
+
+test('contourUtils -> getContourGrid', t => {
+  const positions = [
+    [0, 0],
+    [0.001, 0.001],
+    [0.02, 0],
+    [null, 0]
+  ];
+  const points = positions.map((_, index) => ({index}));
+  const result = getContourGrid(points, ({index}) => positions[index], 1000);
+
+  t.deepEqual([result.width, result.height], [3, 1], 'should create grid by cell size');
+  t.deepEqual(
+    result.cells.map(c => c.length),
+    [2, 0, 1],
+    'should bin points into cells'
+  );
+  t.equal(
+    getContourGrid([], () => [0, 0], 1000),
+    null,
+    'should return null without points'
+  );
+
+  t.end();
+});
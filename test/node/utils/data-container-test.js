@@ -2,8 +2,16 @@
 // Copyright contributors to the kepler.gl project
 
 import test from 'tape';
+import * as arrow from 'apache-arrow';
 
-import {createDataContainer, createIndexedDataContainer} from '@kepler.gl/utils';
+import {
+  ArrowDataContainer,
+  DataForm,
+  appendDataContainerColumn,
+  createDataContainer,
+  createIndexedDataContainer,
+  removeDataContainerColumn
+} from '@kepler.gl/utils';
 
 const data = [
   [10, 20], // 0
@@ -120,3 +128,88 @@ test('IndexedDataContainer', t => {
 
   t.end();
 });
+
+const fields = [
+  {name: 'a', type: 'integer'},
+  {name: 'b', type: 'integer'}
+];
+const newField = {name: 'c', type: 'integer'};
+
+test('appendDataContainerColumn / removeDataContainerColumn -> RowDataContainer', t => {
+  const dc = createDataContainer(data);
+  const appended = appendDataContainerColumn(dc, fields, [1, 2, 3, 4, 5, 6], newField);
+
+  t.equal(appended.numColumns(), 3, 'should append a column');
+  t.deepEqual(appended.rowAsArray(5), [120, 130, 6], 'should append values of the column');
+  t.equal(dc.numColumns(), 2, 'should not modify the original data container');
+
+  const removed = removeDataContainerColumn(appended, [...fields, newField], 0);
+  t.equal(removed.numColumns(), 2, 'should remove a column');
+  t.deepEqual(removed.rowAsArray(5), [130, 6], 'should remove values of the column');
+
+  t.end();
+});
+
+test('appendDataContainerColumn / removeDataContainerColumn -> IndexedDataContainer', t => {
+  const parent = createDataContainer(data);
+  const dc = createIndexedDataContainer(parent, indices);
+  const appended = appendDataContainerColumn(dc, fields, [1, 2, 3], newField);
+
+  t.equal(appended.constructor, dc.constructor, 'should keep an indexed data container');
+  t.equal(appended.numRows(), 3, 'should keep indexed rows');
+  t.deepEqual(
+    appended.flattenData(),
+    [
+      [30, 40, 1],
+      [80, 90, 2],
+      [120, 130, 3]
+    ],
+    'should append values to indexed rows'
+  );
+  t.equal(parent.numColumns(), 2, 'should not modify the parent data container');
+
+  const removed = removeDataContainerColumn(appended, [...fields, newField], 1);
+  t.equal(removed.constructor, dc.constructor, 'should keep an indexed data container');
+  t.deepEqual(
+    removed.flattenData(),
+    [
+      [30, 1],
+      [80, 2],
+      [120, 3]
+    ],
+    'should remove values of the column'
+  );
+
+  t.end();
+});
+
+test('appendDataContainerColumn / removeDataContainerColumn -> ArrowDataContainer', t => {
+  const cols = [0, 1].map(i =>
+    arrow.vectorFromArray(
+      data.map(row => row[i]),
+      new arrow.Int32()
+    )
+  );
+  const dc = createDataContainer(cols, {inputDataFormat: DataForm.COLS_ARRAY, fields});
+
+  const appended = appendDataContainerColumn(dc, fields, [1, 2, 3, 4, 5, null], newField);
+  t.ok(appended instanceof ArrowDataContainer, 'should keep an arrow data container');
+  t.ok(
+    arrow.DataType.isInt(appended.getColumn(2).type),
+    'should store integer field as an integer arrow column'
+  );
+  t.deepEqual(appended.rowAsArray(4), [100, 110, 5], 'should append values of the column');
+  t.equal(appended.valueAt(5, 2), null, 'should keep null values');
+
+  const largeInteger = appendDataContainerColumn(dc, fields, [1, 2, 3, 4, 5, 2 ** 40], newField);
+  t.ok(
+    arrow.DataType.isFloat(largeInteger.getColumn(2).type),
+    'should store integers out of Int32 range as float'
+  );
+
+  const removed = removeDataContainerColumn(appended, [...fields, newField], 0);
+  t.ok(removed instanceof ArrowDataContainer, 'should keep an arrow data container');
+  t.deepEqual(removed.rowAsArray(4), [110, 5], 'should remove values of the column');
+
+  t.end();
+});
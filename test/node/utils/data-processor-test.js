@@ -27,10 +27,13 @@ import {
 import testCsvObjectData, {objCsvFields, objCsvRows} from 'test/fixtures/test-csv-object';
 import testCsvH3Data, {expectedFields as expectedHexFields} from 'test/fixtures/test-hex-id-data';
 import {
+  getGeoArrowMetadataFromSchema,
   parseCsvRowsByFieldType,
   processCsvData,
   processGeojson,
-  processRowObject
+  processGeoPackage,
+  processRowObject,
+  processShapefile
 } from '@kepler.gl/processors';
 
 import {validateInputData, createDataContainer} from '@kepler.gl/utils';
@@ -42,9 +45,10 @@ import {
   getSampleForTypeAnalyze
 } from '@kepler.gl/common-utils';
 
-import {formatCsv} from '@kepler.gl/reducers';
+import {formatCsv, formatGeoJson, formatArrowTable} from '@kepler.gl/reducers';
+import {findPointFieldPairs} from '@kepler.gl/table';
 
-import {ALL_FIELD_TYPES} from '@kepler.gl/constants';
+import {ALL_FIELD_TYPES, GEOARROW_EXTENSIONS, GEOARROW_METADATA_KEY} from '@kepler.gl/constants';
 import {cmpFields} from '../../helpers/comparison-utils';
 
 test('Processor -> getFieldsFromData', t => {
@@ -405,6 +409,164 @@ test('Processor => processGeojson: parse rows', t => {
   t.end();
 });
 
+const WEB_MERCATOR_PRJ =
+  'PROJCS["WGS_1984_Web_Mercator_Auxiliary_Sphere",GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",' +
+  'SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],' +
+  'PROJECTION["Mercator_Auxiliary_Sphere"],PARAMETER["False_Easting",0.0],PARAMETER["False_Northing",0.0],' +
+  'PARAMETER["Central_Meridian",0.0],PARAMETER["Standard_Parallel_1",0.0],' +
+  'PARAMETER["Auxiliary_Sphere_Type",0.0],UNIT["Meter",1.0]]';
+
+const shapefileFeatures = [
+  {
+    type: 'Feature',
+    geometry: {type: 'Point', coordinates: [-13625505.673096687, 4551210.919691888]},
+    properties: {name: 'a', value: 1}
+  },
+  {
+    type: 'Feature',
+    geometry: {
+      type: 'LineString',
+      coordinates: [
+        [-13625505.673096687, 4551210.919691888],
+        [-13636637.622176014, 4537132.130042938]
+      ]
+    },
+    properties: {name: 'b', value: 2}
+  }
+];
+
+const roundCoordinates = coordinates =>
+  typeof coordinates[0] === 'number'
+    ? coordinates.map(c => Math.round(c * 1e6) / 1e6)
+    : coordinates.map(roundCoordinates);
+
+test('Processor => processShapefile', t => {
+  const {fields, rows} = processShapefile({
+    type: 'shapefile',
+    features: shapefileFeatures,
+    prj: WEB_MERCATOR_PRJ
+  });
+
+  t.deepEqual(
+    fields.map(f => f.name),
+    ['_geojson', 'name', 'value'],
+    'should create geojson field and property fields'
+  );
+  t.equal(rows.length, 2, 'should have 2 rows');
+  t.deepEqual(
+    roundCoordinates(rows[0][0].geometry.coordinates),
+    [-122.4, 37.8],
+    'should reproject point to WGS84'
+  );
+  t.deepEqual(
+    roundCoordinates(rows[1][0].geometry.coordinates),
+    [
+      [-122.4, 37.8],
+      [-122.5, 37.7]
+    ],
+    'should reproject line to WGS84'
+  );
+  t.deepEqual(
+    shapefileFeatures[0].geometry.coordinates,
+    [-13625505.673096687, 4551210.919691888],
+    'should not modify input features'
+  );
+
+  const wgs84 = processShapefile({
+    type: 'shapefile',
+    features: [{type: 'Feature', geometry: {type: 'Point', coordinates: [1, 2]}, properties: {}}],
+    prj: null
+  });
+  t.deepEqual(wgs84.rows[0][0].geometry.coordinates, [1, 2], 'should not reproject without .prj');
+
+  t.throws(
+    () => processShapefile({type: 'shapefile', features: shapefileFeatures, prj: 'NOT A CRS'}),
+    /Can not reproject Shapefile/,
+    'should throw when .prj can not be parsed'
+  );
+
+  t.end();
+});
+
+test('Processor => processGeoPackage', t => {
+  const geopackage = {
+    type: 'geopackage',
+    tables: [
+      {
+        name: 'points',
+        features: [
+          {type: 'Feature', geometry: {type: 'Point', coordinates: [1, 2]}, properties: {id: 1}}
+        ]
+      },
+      {
+        name: 'lines',
+        features: [
+          {
+            type: 'Feature',
+            geometry: {
+              type: 'LineString',
+              coordinates: [
+                [1, 2],
+                [3, 4]
+              ]
+            },
+            properties: {label: 'line'}
+          }
+        ]
+      }
+    ]
+  };
+
+  t.deepEqual(
+    processGeoPackage(cloneDeep(geopackage)).fields.map(f => f.name),
+    ['_geojson', 'id'],
+    'should process first table by default'
+  );
+  t.deepEqual(
+    processGeoPackage(cloneDeep(geopackage), 'lines').fields.map(f => f.name),
+    ['_geojson', 'label'],
+    'should process table by name'
+  );
+  t.throws(
+    () => processGeoPackage(cloneDeep(geopackage), 'polygons'),
+    /Table polygons is not found/,
+    'should throw when table is not found'
+  );
+
+  t.end();
+});
+
+test('Processor => getGeoArrowMetadataFromSchema', t => {
+  const geo = {
+    version: '1.1.0',
+    primary_column: 'geometry',
+    columns: {
+      geometry: {encoding: 'WKB', geometry_types: ['Polygon']},
+      centroid: {encoding: 'point', geometry_types: ['Point']},
+      route: {encoding: 'multilinestring', geometry_types: ['MultiLineString']},
+      other: {encoding: 'unknown'}
+    }
+  };
+  const mockTable = {schema: {metadata: new Map([['geo', JSON.stringify(geo)]])}};
+
+  t.deepEqual(
+    getGeoArrowMetadataFromSchema(mockTable),
+    {
+      geometry: GEOARROW_EXTENSIONS.WKB,
+      centroid: GEOARROW_EXTENSIONS.POINT,
+      route: GEOARROW_EXTENSIONS.MULTILINESTRING
+    },
+    'should read WKB and native GeoParquet encodings'
+  );
+  t.deepEqual(
+    getGeoArrowMetadataFromSchema({schema: {metadata: new Map()}}),
+    {},
+    'should return empty metadata without geo metadata'
+  );
+
+  t.end();
+});
+
 test('Processor -> parseCsvRowsByFieldType -> real', t => {
   const field = {
     type: ALL_FIELD_TYPES.real
@@ -713,6 +875,151 @@ test('Processor -> formatCsv', t => {
   t.end();
 });
 
+test('Processor -> formatGeoJson', t => {
+  const geojsonFc = {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        properties: {TRIPS: 11, name: 'a'},
+        geometry: {type: 'Point', coordinates: [-122, 37]}
+      },
+      {
+        type: 'Feature',
+        properties: {TRIPS: 10, name: 'b'},
+        geometry: {
+          type: 'LineString',
+          coordinates: [
+            [-122, 37],
+            [-122.1, 37.1]
+          ]
+        }
+      }
+    ]
+  };
+  const geojsonResult = processGeojson(cloneDeep(geojsonFc));
+  const geojsonDc = createDataContainer(geojsonResult.rows, {fields: geojsonResult.fields});
+
+  t.deepEqual(
+    formatGeoJson(geojsonDc, geojsonResult.fields),
+    {
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          geometry: {type: 'Point', coordinates: [-122, 37]},
+          properties: {TRIPS: 11, name: 'a'}
+        },
+        {
+          type: 'Feature',
+          geometry: {
+            type: 'LineString',
+            coordinates: [
+              [-122, 37],
+              [-122.1, 37.1]
+            ]
+          },
+          properties: {TRIPS: 10, name: 'b'}
+        }
+      ]
+    },
+    'should format geojson from geojson field'
+  );
+
+  const csvResult = processCsvData('lat,lng,value\n37.1,-122.1,1\n,-122.2,2');
+  const csvDc = createDataContainer(csvResult.rows, {fields: csvResult.fields});
+
+  t.deepEqual(
+    formatGeoJson(csvDc, csvResult.fields, findPointFieldPairs(csvResult.fields)),
+    {
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          geometry: {type: 'Point', coordinates: [-122.1, 37.1]},
+          properties: {lat: 37.1, lng: -122.1, value: 1}
+        },
+        {
+          type: 'Feature',
+          geometry: null,
+          properties: {lat: null, lng: -122.2, value: 2}
+        }
+      ]
+    },
+    'should format geojson from point field pair'
+  );
+
+  t.end();
+});
+
+test('Processor -> formatGeoJson -> native geoarrow', t => {
+  const geometryField = {
+    name: 'geometry',
+    type: ALL_FIELD_TYPES.geoarrow,
+    fieldIdx: 0,
+    metadata: new Map([[GEOARROW_METADATA_KEY, GEOARROW_EXTENSIONS.POINT]])
+  };
+  const fields = [geometryField, {name: 'value', type: ALL_FIELD_TYPES.integer, fieldIdx: 1}];
+  const dataContainer = createDataContainer(
+    [
+      [new Float64Array([-122, 37]), 1],
+      [null, 2]
+    ],
+    {fields}
+  );
+
+  t.deepEqual(
+    formatGeoJson(dataContainer, fields).features,
+    [
+      {type: 'Feature', geometry: {type: 'Point', coordinates: [-122, 37]}, properties: {value: 1}},
+      {type: 'Feature', geometry: null, properties: {value: 2}}
+    ],
+    'should decode native geoarrow points'
+  );
+
+  const unsupportedFields = [
+    {...geometryField, metadata: new Map([[GEOARROW_METADATA_KEY, 'geoarrow.box']])},
+    fields[1]
+  ];
+  t.throws(
+    () => formatGeoJson(dataContainer, unsupportedFields),
+    /GeoArrow encoding not supported/,
+    'should reject unsupported geoarrow encodings'
+  );
+
+  t.end();
+});
+
+test('Processor -> formatArrowTable', t => {
+  const csvResult = processCsvData(
+    'id,value,flag,name,geometry\n1,1.5,true,a,POINT (-122 37)\n2,,false,,'
+  );
+  const dataContainer = createDataContainer(csvResult.rows, {fields: csvResult.fields});
+  const table = formatArrowTable(dataContainer, csvResult.fields);
+
+  t.equal(table.numRows, 2, 'should export all rows');
+  t.deepEqual(
+    table.schema.fields.map(f => String(f.type)),
+    ['Int32', 'Float64', 'Bool', 'Utf8', 'Binary'],
+    'should create arrow column types from field types'
+  );
+  t.equal(table.getChild('value').get(1), null, 'should keep null values');
+  t.equal(
+    table.schema.fields[4].metadata.get('ARROW:extension:name'),
+    'geoarrow.wkb',
+    'should add geoarrow metadata to geometry column'
+  );
+  t.deepEqual(
+    JSON.parse(table.schema.metadata.get('geo')).columns,
+    {geometry: {encoding: 'WKB', geometry_types: []}},
+    'should add geoparquet metadata'
+  );
+  t.ok(table.getChild('geometry').get(0) instanceof Uint8Array, 'should encode geometry as wkb');
+  t.equal(table.getChild('geometry').get(1), null, 'should write null geometry');
+
+  t.end();
+});
+
 test('Processor -> analyzerTypeToFieldType', t => {
   Object.keys(DATA_TYPES).forEach(atype => {
     const spy = sinon.spy(Console, 'warn');
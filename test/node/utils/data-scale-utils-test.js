@@ -15,10 +15,20 @@ import {
   getDomainStepsbyZoom,
   getQuantLabelFormat,
   getHistogramDomain,
-  getQuantLegends
+  getQuantLegends,
+  getBivariateColorScale,
+  getEqualIntervalBreaks,
+  getJenksBreaks,
+  getStdDevBreaks,
+  getScaleFunction
 } from '@kepler.gl/utils';
 import {StateWFilesFiltersLayerColor} from 'test/helpers/mock-state';
-import {SCALE_FUNC} from '@kepler.gl/constants';
+import {
+  SCALE_FUNC,
+  BIVARIATE_COLOR_PALETTES,
+  DEFAULT_COLOR_RANGE,
+  bivariatePaletteToColorRange
+} from '@kepler.gl/constants';
 
 function numberSort(a, b) {
   return a - b;
@@ -251,3 +261,78 @@ test('DataScaleUtils -> getQuantLegends', t => {
   );
   t.end();
 });
+
+test('DataScaleUtils -> getBivariateColorScale', t => {
+  const colorRange = {
+    name: 'test',
+    type: 'bivariate',
+    colors: ['#000000', '#0000FF', '#00FF00', '#00FFFF', '#FF0000', '#FF00FF'],
+    bivariate: {cols: 2, rows: 3}
+  };
+
+  t.equal(
+    getBivariateColorScale('quantize', [0, 10], [0, 30], DEFAULT_COLOR_RANGE),
+    null,
+    'should return null if color range is not bivariate'
+  );
+
+  const scale = getBivariateColorScale('quantize', [0, 10], [0, 30], colorRange);
+  t.deepEqual(scale(1, 1), [0, 0, 0], 'should map low - low to first color');
+  t.deepEqual(scale(9, 1), [0, 0, 255], 'should map first field to columns');
+  t.deepEqual(scale(1, 15), [0, 255, 0], 'should map second field to rows');
+  t.deepEqual(scale(9, 29), [255, 0, 255], 'should map high - high to last color');
+
+  const quantileScale = getBivariateColorScale(
+    'quantile',
+    [1, 2, 3, 100],
+    [1, 2, 3, 4, 5, 600],
+    colorRange
+  );
+  t.deepEqual(quantileScale(3, 5), [255, 0, 255], 'should classify fields by quantiles');
+  t.deepEqual(quantileScale(1, 3), [0, 255, 0], 'should classify fields by quantiles');
+
+  const paletteRange = bivariatePaletteToColorRange(BIVARIATE_COLOR_PALETTES[0], {
+    cols: 3,
+    rows: 3
+  });
+  t.equal(paletteRange.colors.length, 9, 'should create 3 x 3 color matrix');
+  t.deepEqual(paletteRange.bivariate, {cols: 3, rows: 3}, 'should save matrix size');
+  t.ok(
+    paletteRange.colors.every(c => /^#[0-9A-F]{6}$/.test(c)),
+    'should create uppercase hex colors'
+  );
+
+  t.end();
+});
+
+test('DataScaleUtils -> classification breaks', t => {
+  t.deepEqual(
+    getEqualIntervalBreaks([0, 100], 4),
+    [25, 50, 75],
+    'should compute equal interval breaks'
+  );
+  t.deepEqual(getEqualIntervalBreaks([0, 100], 1), [], 'should not break a single class');
+
+  const values = [1, 2, 2, 3, 10, 11, 12, 30, 31, 33];
+  t.deepEqual(getJenksBreaks(values, 3), [10, 30], 'should compute jenks natural breaks');
+  t.deepEqual(getJenksBreaks([1, 5], 4), [5], 'should put each value in a class');
+  t.deepEqual(getJenksBreaks([], 4), [], 'should return empty breaks for empty values');
+
+  t.deepEqual(
+    getStdDevBreaks([2, 4, 4, 4, 5, 5, 7, 9], 4),
+    [5 - 2.138089935299395, 5, 5 + 2.138089935299395],
+    'should compute breaks of one standard deviation around the mean'
+  );
+  t.deepEqual(getStdDevBreaks([3, 3, 3], 4), [], 'should return empty breaks without deviation');
+
+  const scale = getScaleFunction('jenks', ['a', 'b', 'c'], values);
+  t.deepEqual(scale.domain(), [10, 30], 'should use jenks breaks as threshold domain');
+  t.deepEqual(
+    [1, 10, 29, 33].map(scale),
+    ['a', 'b', 'b', 'c'],
+    'should map values to jenks classes'
+  );
+  t.equal(scale.scaleType, 'jenks', 'should set scaleType');
+
+  t.end();
+});
@@ -0,0 +1,74 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import test from 'tape';
+import {generateDots} from '@kepler.gl/layers';
+import {isPointInPolygon} from '@kepler.gl/utils';
+
+const square = [
+  [
+    [0, 0],
+    [10, 0],
+    [10, 10],
+    [0, 10],
+    [0, 0]
+  ]
+];
+const hole = [
+  [4, 4],
+  [6, 4],
+  [6, 6],
+  [4, 6],
+  [4, 4]
+];
+
+test('dotDensityUtils -> generateDots', t => {
+  const values = [
+    [100, 50],
+    [20, 0],
+    [null, 10]
+  ];
+  const polygons = [[square], [[...square, hole]], []];
+  const args = {
+    indexes: [0, 1, 2],
+    getPolygons: index => polygons[index],
+    getValue: (index, fieldIndex) => values[index][fieldIndex],
+    numFields: 2,
+    dotsPerUnit: 0.1
+  };
+
+  const {dots, dotsPerUnit} = generateDots(args);
+  t.equal(dotsPerUnit, 0.1, 'should keep dots per unit');
+  t.deepEqual(
+    [
+      dots.filter(d => d.index === 0 && d.fieldIndex === 0).length,
+      dots.filter(d => d.index === 0 && d.fieldIndex === 1).length,
+      dots.filter(d => d.index === 1 && d.fieldIndex === 0).length
+    ],
+    [10, 5, 2],
+    'should generate dots in proportion to the values'
+  );
+  t.notOk(
+    dots.some(d => d.index === 2 || (d.index === 1 && d.fieldIndex === 1)),
+    'should skip missing values, zeros and features without polygons'
+  );
+  t.ok(
+    dots.every(d => isPointInPolygon(d.position, polygons[d.index][0])),
+    'dots should be inside their polygons'
+  );
+  t.deepEqual(generateDots(args).dots, dots, 'should generate the same dots with the same seed');
+  t.notDeepEqual(
+    generateDots({...args, seed: 1}).dots,
+    dots,
+    'should generate other dots with another seed'
+  );
+
+  const {dots: filteredDots} = generateDots({...args, indexes: [0]});
+  const positions = dots.filter(d => d.index === 0).map(d => d.position.join(','));
+  t.ok(
+    filteredDots.every(d => positions.includes(d.position.join(','))),
+    'dots of a feature should stay in place when other features are filtered'
+  );
+
+  t.end();
+});
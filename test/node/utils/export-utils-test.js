@@ -10,9 +10,11 @@ import {
   exportToJsonString,
   getScaleFromImageSize,
   isMSEdge,
-  calculateExportImageSize
+  calculateExportImageSize,
+  getVideoFrameCount,
+  getAnimationFrameValue
 } from '@kepler.gl/utils';
-import {EXPORT_IMG_RATIOS, RESOLUTIONS} from '@kepler.gl/constants';
+import {ANIMATION_WINDOW, EXPORT_IMG_RATIOS, RESOLUTIONS} from '@kepler.gl/constants';
 
 test('exportUtils -> ExportJson', t => {
   const state = keplerGlReducer(undefined, registerEntry({id: 'test'})).test;
@@ -136,3 +138,74 @@ test('exportUtils -> exportToJsonString', t => {
   t.equal(exportToJsonString({test: 1}), '{"test":1}', 'Should convert object to string');
   t.end();
 });
+
+test('exportUtils -> getVideoFrameCount', t => {
+  t.equal(getVideoFrameCount(5, 30), 150, 'should render 150 frames for 5s at 30fps');
+  t.equal(getVideoFrameCount(0.01, 10), 1, 'should render at least 1 frame');
+  t.end();
+});
+
+test('exportUtils -> getAnimationFrameValue', t => {
+  const domain = [0, 100];
+
+  t.deepEqual(
+    [0, 2, 4].map(i =>
+      getAnimationFrameValue(i, 5, {domain, value: [0, 20], animationWindow: ANIMATION_WINDOW.free})
+    ),
+    [
+      [0, 20],
+      [40, 60],
+      [80, 100]
+    ],
+    'free window should slide through the domain'
+  );
+
+  t.deepEqual(
+    [0, 2, 4].map(i =>
+      getAnimationFrameValue(i, 5, {
+        domain,
+        value: [10, 30],
+        animationWindow: ANIMATION_WINDOW.incremental
+      })
+    ),
+    [
+      [10, 10],
+      [10, 55],
+      [10, 100]
+    ],
+    'incremental window should keep start and grow to the end of domain'
+  );
+
+  t.deepEqual(
+    [0, 1, 4].map(i =>
+      getAnimationFrameValue(i, 5, {domain, value: 20, animationWindow: ANIMATION_WINDOW.point})
+    ),
+    [0, 25, 100],
+    'point should move from domain start to end'
+  );
+
+  t.deepEqual(
+    [0, 2, 4].map(i =>
+      getAnimationFrameValue(i, 5, {
+        domain,
+        value: [0, 49],
+        animationWindow: ANIMATION_WINDOW.interval,
+        steps: [0, 50, 100]
+      })
+    ),
+    [
+      [0, 49],
+      [50, 99],
+      [50, 99]
+    ],
+    'interval should step through bins'
+  );
+
+  t.deepEqual(
+    getAnimationFrameValue(3, 1, {domain, value: [0, 20], animationWindow: ANIMATION_WINDOW.free}),
+    [0, 20],
+    'single frame should render the start of the domain'
+  );
+
+  t.end();
+});
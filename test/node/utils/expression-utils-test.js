@@ -0,0 +1,111 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import test from 'tape';
+
+import {
+  compileExpression,
+  evaluateExpression,
+  validateExpression,
+  getExpressionValuesType,
+  createDataContainer
+} from '@kepler.gl/utils';
+
+const fields = [
+  {name: 'fare', type: 'real', fieldIdx: 0, format: ''},
+  {name: 'distance', type: 'real', fieldIdx: 1, format: ''},
+  {name: 'pickup_time', type: 'timestamp', fieldIdx: 2, format: 'YYYY-M-D H:m:s'},
+  {name: 'vendor name', type: 'string', fieldIdx: 3, format: ''}
+];
+
+const rows = [
+  [10, 2, '2016-09-17 00:09:55', 'Uber'],
+  [12.5, 5, '2016-09-17 13:30:08', 'lyft'],
+  [null, 0, '2016-09-18 23:00:00', null]
+];
+
+const dataContainer = createDataContainer(rows, {fields});
+
+test('expressionUtils -> evaluateExpression', t => {
+  const testCases = [
+    {expression: 'fare / distance', expected: [5, 2.5, null]},
+    {expression: 'fare + distance * 2', expected: [14, 22.5, null]},
+    {expression: '(fare + distance) * 2', expected: [24, 35, null]},
+    {expression: 'distance ^ 2', expected: [4, 25, 0]},
+    {expression: '-fare', expected: [-10, -12.5, null]},
+    {expression: 'hour(pickup_time)', expected: [0, 13, 23]},
+    {expression: 'day(pickup_time)', expected: [17, 17, 18]},
+    {expression: 'distance > 2 and fare < 20', expected: [false, true, false]},
+    {expression: 'not (distance >= 2) || distance == 5', expected: [false, true, true]},
+    {expression: 'if(distance > 2, "far", "near")', expected: ['near', 'far', 'near']},
+    {expression: 'upper(`vendor name`)', expected: ['UBER', 'LYFT', null]},
+    {expression: "concat(`vendor name`, '-', distance)", expected: ['Uber-2', 'lyft-5', '-0']},
+    {expression: 'coalesce(fare, 0)', expected: [10, 12.5, 0]},
+    {expression: 'round(fare / 3, 2)', expected: [3.33, 4.17, null]},
+    {expression: 'max(fare, distance, 11)', expected: [11, 12.5, null]}
+  ];
+
+  testCases.forEach(({expression, expected}) => {
+    t.deepEqual(
+      evaluateExpression(expression, fields, dataContainer),
+      expected,
+      `should evaluate ${expression}`
+    );
+  });
+
+  t.end();
+});
+
+test('expressionUtils -> compileExpression', t => {
+  const {fieldsUsed} = compileExpression('fare / distance + fare', fields);
+  t.deepEqual(fieldsUsed, ['fare', 'distance'], 'should return fields used by expression');
+
+  const testCases = [
+    {expression: '', error: 'Expression is empty'},
+    {expression: 'fare /', error: 'Unexpected end of expression'},
+    {expression: 'fare * tip', error: 'Unknown field "tip" at position 7'},
+    {expression: 'sin(fare)', error: 'Unknown function "sin" at position 0'},
+    {
+      expression: 'pow(fare)',
+      error: 'Function "pow" expects 2 argument(s) but got 1 at position 0'
+    },
+    {expression: '(fare + 1', error: 'Expected ")"'},
+    {expression: 'fare # 2', error: 'Unexpected character "#" at position 5'},
+    {expression: 'fare 2', error: 'Unexpected "2" at position 5'},
+    {expression: '`vendor name', error: 'Unterminated quote ` at position 0'}
+  ];
+
+  testCases.forEach(({expression, error}) => {
+    t.throws(() => compileExpression(expression, fields), Error, `should throw for ${expression}`);
+    t.equal(validateExpression(expression, fields), error, `should return error for ${expression}`);
+  });
+
+  t.equal(validateExpression('fare * 2', fields), null, 'should validate expression');
+
+  t.end();
+});
+
+test('expressionUtils -> getExpressionValuesType', t => {
+  t.deepEqual(
+    getExpressionValuesType([1, 2, null]),
+    {type: 'integer', analyzerType: 'INT'},
+    'should detect integer'
+  );
+  t.deepEqual(
+    getExpressionValuesType([1.5, 2]),
+    {type: 'real', analyzerType: 'FLOAT'},
+    'should detect real'
+  );
+  t.deepEqual(
+    getExpressionValuesType([true, null, false]),
+    {type: 'boolean', analyzerType: 'BOOLEAN'},
+    'should detect boolean'
+  );
+  t.deepEqual(
+    getExpressionValuesType(['a', 1]),
+    {type: 'string', analyzerType: 'STRING'},
+    'should fallback to string'
+  );
+
+  t.end();
+});
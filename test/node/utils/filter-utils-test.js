@@ -18,7 +18,9 @@ import {
   getTimestampFieldDomain,
   scaleSourceDomainToDestination,
   mergeFilterWithTimeline,
-  createDataContainer
+  createDataContainer,
+  getFilterGroupTree,
+  getFilterGroupsPredicate
 } from '@kepler.gl/utils';
 
 import {FILTER_TYPES} from '@kepler.gl/constants';
@@ -456,6 +458,87 @@ test('filterUtils -> diffFilters', t => {
   t.end();
 });
 
+test('filterUtils -> getFilterGroupTree', t => {
+  const filters = [
+    {id: 'f1', groupId: null},
+    {id: 'f2', groupId: 'g1'},
+    {id: 'f3', groupId: 'g2'},
+    {id: 'f4', groupId: 'missing'}
+  ];
+  const filterGroups = [
+    {id: 'g1', operator: 'or', parentId: null},
+    {id: 'g2', operator: 'not', parentId: 'g1'},
+    {id: 'g3', operator: 'and', parentId: null}
+  ];
+
+  t.deepEqual(
+    getFilterGroupTree(filters, filterGroups),
+    {
+      operator: 'and',
+      filters: [filters[0], filters[3]],
+      children: [
+        {
+          operator: 'or',
+          filters: [filters[1]],
+          children: [{operator: 'not', filters: [filters[2]], children: []}]
+        }
+      ]
+    },
+    'should build filter group tree, move filters of missing group to top level and drop empty groups'
+  );
+
+  t.end();
+});
+
+test('filterUtils -> getFilterGroupsPredicate', t => {
+  const filters = [
+    {id: 'a', groupId: 'g1'},
+    {id: 'b', groupId: 'g1'},
+    {id: 'c', groupId: 'g2'}
+  ];
+  const testCases = [
+    {
+      operators: {g1: 'and', g2: 'and'},
+      results: {'a,b,c': true, 'a,c': false, 'a,b': false, '': false}
+    },
+    {
+      operators: {g1: 'or', g2: 'and'},
+      results: {'a,b,c': true, 'a,c': true, 'b,c': true, c: false, a: false}
+    },
+    {
+      operators: {g1: 'or', g2: 'not'},
+      results: {'a,b,c': false, a: true, 'a,b': true, '': false}
+    }
+  ];
+
+  testCases.forEach(({operators, results}) => {
+    const filterGroups = [
+      {id: 'g1', operator: operators.g1, parentId: null},
+      {id: 'g2', operator: operators.g2, parentId: null}
+    ];
+    Object.keys(results).forEach(matched => {
+      const matchedIds = matched.split(',');
+      const predicate = getFilterGroupsPredicate(filters, filterGroups, f =>
+        matchedIds.includes(f.id)
+      );
+      t.equal(
+        predicate(),
+        results[matched],
+        `${operators.g1}(a, b) and ${operators.g2}(c) should be ${results[matched]} when [${matched}] match`
+      );
+    });
+  });
+
+  const ungroupedPredicate = getFilterGroupsPredicate(
+    [{id: 'a'}, {id: 'b'}],
+    [],
+    f => f.id === 'a'
+  );
+  t.equal(ungroupedPredicate(), false, 'should combine filters without group with and');
+
+  t.end();
+});
+
 test('filterUtils -> getTimestampFieldDomain', t => {
   const timeData = {
     zero: {
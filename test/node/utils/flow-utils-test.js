@@ -0,0 +1,125 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import test from 'tape';
+import {
+  aggregateFlows,
+  getFlowClusterLevels,
+  getFlowClusterLevel,
+  getFlowCurve,
+  getFlowPoints,
+  getAggregatedValueDomain
+} from '@kepler.gl/layers';
+
+const A = [0, 0];
+const B = [10, 10];
+const C = [0.0001, 0];
+
+// [lng0, lat0, z0, lng1, lat1, z1]
+const rows = [
+  [...A, 0, ...B, 0],
+  [...A, 0, ...B, 0],
+  [...B, 0, ...A, 0],
+  [...A, 0, ...A, 0],
+  [...C, 0, ...B, 0],
+  [null, null, 0, ...B, 0]
+];
+const getPosition = ({index}) => rows[index];
+
+test('flowUtils -> aggregateFlows', t => {
+  const {locations, flows} = aggregateFlows([0, 1, 2, 3, 4, 5], getPosition);
+
+  t.equal(locations.length, 3, 'should create 3 locations');
+  t.equal(flows.length, 3, 'should create 3 flows');
+
+  const a = locations.find(l => l.id === '0,0');
+  t.deepEqual(
+    [a.incoming, a.outgoing, a.internal],
+    [1, 2, 1],
+    'should count incoming, outgoing and internal rows'
+  );
+
+  const ab = flows.find(f => f.source === '0,0' && f.target === '10,10');
+  t.equal(ab.count, 2, 'should aggregate rows of the same origin and destination');
+  t.deepEqual(
+    ab.points.map(p => p.index),
+    [0, 1],
+    'should keep rows of the flow'
+  );
+
+  const filtered = aggregateFlows([0, 1, 2, 3, 4], getPosition, ({index}) => index !== 0);
+  t.equal(
+    filtered.flows.find(f => f.source === '0,0' && f.target === '10,10').count,
+    1,
+    'should apply filterData'
+  );
+
+  t.end();
+});
+
+test('flowUtils -> getFlowClusterLevels', t => {
+  const aggregation = aggregateFlows([0, 1, 2, 3, 4], getPosition);
+  const levels = getFlowClusterLevels(aggregation, 40);
+
+  t.ok(levels.length > 2, 'should create multiple cluster levels');
+  t.equal(levels[0].locations.length, 1, 'should cluster all locations at zoom 0');
+  t.equal(levels[0].flows.length, 0, 'flows within a cluster should not be rendered');
+  t.equal(levels[0].locations[0].internal, 5, 'should count flows within a cluster as internal');
+
+  const last = levels[levels.length - 1];
+  t.equal(last.locations, aggregation.locations, 'last level should hold unclustered locations');
+  t.equal(last.flows, aggregation.flows, 'last level should hold unclustered flows');
+
+  const level = levels.find(l => l.locations.length === 2);
+  t.ok(level, 'should cluster nearby locations A and C');
+  const merged = level.flows.find(f => f.count === 3);
+  t.ok(merged, 'should merge flows A -> B and C -> B');
+  t.equal(merged.children.length, 2, 'should keep merged flows as children');
+  t.deepEqual(
+    getFlowPoints(merged)
+      .map(p => p.index)
+      .sort(),
+    [0, 1, 4],
+    'should get rows of merged flows'
+  );
+
+  t.equal(getFlowClusterLevel(levels, 0.5), levels[0], 'should get level by zoom');
+  t.equal(getFlowClusterLevel(levels, 100), last, 'should get last level at high zoom');
+  t.equal(getFlowClusterLevel([], 1), null, 'should return null without levels');
+  t.deepEqual(
+    getFlowClusterLevels({locations: [], flows: []}, 40),
+    [],
+    'should return empty levels without flows'
+  );
+
+  t.end();
+});
+
+test('aggregationLayer -> getAggregatedValueDomain', t => {
+  t.deepEqual(getAggregatedValueDomain([3, 1, null, 2], 'linear'), [1, 3], 'should get extent');
+  t.deepEqual(getAggregatedValueDomain([], 'linear'), [0, 1], 'should get default domain');
+  t.deepEqual(
+    getAggregatedValueDomain(['b', 'a', 'b'], 'ordinal'),
+    ['a', 'b'],
+    'should get unique'
+  );
+  t.deepEqual(getAggregatedValueDomain([3, 1, 2], 'quantile'), [1, 2, 3], 'should sort values');
+  t.end();
+});
+
+test('flowUtils -> getFlowCurve', t => {
+  const flow = {sourcePosition: [0, 0], targetPosition: [10, 0]};
+
+  const straight = getFlowCurve(flow, 0, 4);
+  t.equal(straight.path.length, 5, 'should create segments + 1 points');
+  t.ok(Math.abs(straight.midpoint[0] - 5) < 1e-6, 'midpoint should be in the middle');
+  t.ok(Math.abs(straight.midpoint[1]) < 1e-6, 'straight flow should not bend');
+  t.equal(straight.angle, 0, 'should point to the target');
+
+  const curved = getFlowCurve(flow, 0.2, 4);
+  t.ok(curved.midpoint[1] < 0, 'should bend to the right of the flow direction');
+  t.deepEqual(curved.path[0].map(Math.round), [0, 0], 'should start at source');
+  t.deepEqual(curved.path[4].map(Math.round), [10, 0], 'should end at target');
+
+  t.end();
+});
@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import test from 'tape';
+import GL from '@luma.gl/constants';
+import {getBlendingParameters, getLayerBlendModeParameters} from '@kepler.gl/utils';
+import {LAYER_BLENDINGS} from '@kepler.gl/constants';
+
+test('glUtils -> getBlendingParameters', t => {
+  t.deepEqual(
+    getBlendingParameters(LAYER_BLENDINGS.additive),
+    {blendFunc: [GL.SRC_ALPHA, GL.DST_ALPHA], blendEquation: GL.FUNC_ADD},
+    'should map blending to gl constants'
+  );
+  t.deepEqual(getBlendingParameters(undefined), {}, 'should return empty parameters');
+  t.end();
+});
+
+test('glUtils -> getLayerBlendModeParameters', t => {
+  t.equal(getLayerBlendModeParameters(null), null, 'no blend mode should use global blending');
+  t.equal(getLayerBlendModeParameters('unknown'), null, 'unknown blend mode should be ignored');
+  t.deepEqual(
+    getLayerBlendModeParameters('darken'),
+    {blend: true, blendFunc: [GL.ONE, GL.ONE], blendEquation: GL.MIN},
+    'should return parameters of darken blend mode'
+  );
+  t.deepEqual(
+    getLayerBlendModeParameters('multiply'),
+    {
+      blend: true,
+      blendFunc: [GL.DST_COLOR, GL.ONE_MINUS_SRC_ALPHA, GL.ONE, GL.ONE_MINUS_SRC_ALPHA],
+      blendEquation: [GL.FUNC_ADD, GL.FUNC_ADD]
+    },
+    'should return parameters of multiply blend mode'
+  );
+  t.end();
+});
@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import test from 'tape';
+import {getGlyphSlices, getGlyphValue, normalizeGlyphValues} from '@kepler.gl/layers';
+
+test('glyphUtils -> getGlyphValue', t => {
+  t.equal(getGlyphValue(12), 12, 'should keep positive number');
+  t.equal(getGlyphValue('3.5'), 3.5, 'should parse numeric string');
+  t.equal(getGlyphValue(-2), 0, 'negative value should be 0');
+  t.equal(getGlyphValue(null), 0, 'null should be 0');
+  t.equal(getGlyphValue('abc'), 0, 'non numeric value should be 0');
+  t.end();
+});
+
+test('glyphUtils -> normalizeGlyphValues', t => {
+  t.deepEqual(normalizeGlyphValues([1, 3], 'pie', 0), [0.25, 0.75], 'pie should use shares');
+  t.deepEqual(normalizeGlyphValues([2, 2], 'donut', 0), [0.5, 0.5], 'donut should use shares');
+  t.deepEqual(normalizeGlyphValues([0, 0], 'pie', 0), [0, 0], 'pie without total should be empty');
+  t.deepEqual(
+    normalizeGlyphValues([5, 10], 'bar', 20),
+    [0.25, 0.5],
+    'bar should use heights relative to the max value'
+  );
+  t.deepEqual(normalizeGlyphValues([5, 10], 'bar', 0), [0, 0], 'bar without max should be empty');
+  t.end();
+});
+
+test('glyphUtils -> getGlyphSlices', t => {
+  const fieldColors = [
+    {name: 'a', color: [255, 0, 0]},
+    {name: 'b', color: [0, 255, 0]},
+    {name: 'c', color: [0, 0, 255]}
+  ];
+  t.deepEqual(
+    getGlyphSlices(fieldColors, [30, 10, null]),
+    [
+      {name: 'a', color: [255, 0, 0], value: 30, share: 0.75},
+      {name: 'b', color: [0, 255, 0], value: 10, share: 0.25},
+      {name: 'c', color: [0, 0, 255], value: null, share: 0}
+    ],
+    'should compute the share of each slice'
+  );
+  t.end();
+});
@@ -7,6 +7,7 @@ import './kepler-table-test';
 import './kepler-table-utils-test';
 import './data-container-test';
 import './filter-utils-test';
+import './expression-utils-test';
 import './gpu-filter-utils-test';
 import './layer-utils-test';
 import './data-scale-utils-test';
@@ -18,7 +19,17 @@ import './aggregation-test';
 import './color-util-test';
 import './util-test';
 import './export-utils-test';
+import './vector-export-utils-test';
 import './s2-utils-test';
+import './flow-utils-test';
+import './contour-utils-test';
+import './voronoi-utils-test';
+import './cell-utils-test';
+import './dot-density-utils-test';
+import './glyph-utils-test';
+import './gl-utils-test';
+import './spatial-join-utils-test';
+import './raster-tile-utils-test';
 import './editor-utils-test';
 import './kepler-gl-utils-test';
 import './timeline-test';
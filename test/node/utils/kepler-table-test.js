@@ -6,7 +6,7 @@ import moment from 'moment';
 import testData, {numericRangesCsv, testFields} from 'test/fixtures/test-csv-data';
 
 import {preciseRound, getFilterFunction} from '@kepler.gl/utils';
-import {findPointFieldPairs} from '@kepler.gl/table';
+import {findPointFieldPairs, addDerivedField, removeDerivedField} from '@kepler.gl/table';
 import {processCsvData} from '@kepler.gl/processors';
 import {FILTER_TYPES} from '@kepler.gl/constants';
 
@@ -247,6 +247,66 @@ test('KeplerTable -> getColumnFilterDomain -> numeric', async t => {
   t.end();
 });
 
+test('KeplerTable -> addDerivedField / removeDerivedField', async t => {
+  const data = processCsvData(numericRangesCsv);
+  const dataset = (
+    await createNewDataEntryMock({
+      info: {id: 'test'},
+      data
+    })
+  ).test;
+  const numFields = dataset.fields.length;
+
+  const withRatio = addDerivedField(dataset, {name: 'ratio', expression: 'medium / negative'});
+  const ratioField = withRatio.fields[numFields];
+
+  t.equal(withRatio.fields.length, numFields + 1, 'should add a field');
+  t.equal(ratioField.name, 'ratio', 'should add field with name');
+  t.equal(ratioField.type, 'integer', 'should detect field type from values');
+  t.equal(ratioField.fieldIdx, numFields, 'should set fieldIdx');
+  t.equal(ratioField.expression, 'medium / negative', 'should save expression in field');
+  t.deepEqual(
+    [0, 1, 2, 3].map(i => withRatio.getValue('ratio', i)),
+    [-1, -1, -1, -1],
+    'should compute derived values'
+  );
+  t.equal(dataset.fields.length, numFields, 'should not modify original dataset');
+
+  const withScaled = addDerivedField(withRatio, {
+    name: 'scaled',
+    expression: 'smallest * 2 + ratio'
+  });
+  t.equal(withScaled.fields[numFields + 1].type, 'real', 'should detect real field type');
+  t.deepEqual(
+    [0, 1, 2, 3].map(i => withScaled.getValue('scaled', i)),
+    [-1, -0.99998, -0.9999, -0.99802],
+    'should compute derived field from another derived field'
+  );
+
+  t.throws(
+    () => addDerivedField(dataset, {name: 'ratio2', expression: 'medium / tip'}),
+    /Unknown field "tip"/,
+    'should throw when expression is invalid'
+  );
+  t.throws(
+    () => addDerivedField(withRatio, {name: 'ratio', expression: 'medium'}),
+    /already exists/,
+    'should throw when field name exists'
+  );
+
+  const removed = removeDerivedField(withScaled, 'ratio');
+  t.deepEqual(
+    removed.fields.map(f => f.name),
+    [...dataset.fields.map(f => f.name), 'scaled'],
+    'should remove derived field'
+  );
+  t.equal(removed.fields[numFields].fieldIdx, numFields, 'should update fieldIdx');
+  t.equal(removed.getValue('scaled', 1), -0.99998, 'should keep values of fields after it');
+  t.equal(removeDerivedField(removed, 'medium'), removed, 'should not remove regular field');
+
+  t.end();
+});
+
 test('KeplerTable -> findPointFieldPairs', t => {
   const TASE_CASE = [
     {
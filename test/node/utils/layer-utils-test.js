@@ -779,6 +779,43 @@ test('layerUtils -> findDefaultLayer:IconLayer', t => {
   t.end();
 });
 
+test('layerUtils -> findDefaultLayer: QuadkeyLayer, GeohashLayer', t => {
+  const fields = [
+    {name: 'quadkey', type: 'string', fieldIdx: 0},
+    {name: 'geohash', type: 'string', fieldIdx: 1},
+    {name: 'gh', type: 'string', fieldIdx: 2},
+    {name: 'count', type: 'integer', fieldIdx: 3}
+  ];
+  const dataContainer = createDataContainer([
+    ['0231', '9q8yy', 'not a geohash', 1],
+    ['02310', null, 'abc', 2],
+    ['1', '9q8', 'ilo', 3]
+  ]);
+
+  const layers = findDefaultLayer(
+    {fields, fieldPairs: [], id: 'meow', label: 'cells', dataContainer},
+    LayerClasses
+  );
+  const quadkeyLayers = layers.filter(l => l.type === 'quadkey');
+  const geohashLayers = layers.filter(l => l.type === 'geohash');
+
+  t.equal(quadkeyLayers.length, 1, 'should find 1 quadkey layer');
+  t.deepEqual(
+    quadkeyLayers[0].config.columns.quadkey,
+    {value: 'quadkey', fieldIdx: 0},
+    'should set quadkey column'
+  );
+  t.equal(geohashLayers.length, 1, 'should skip field with invalid geohash values');
+  t.deepEqual(
+    geohashLayers[0].config.columns.geohash,
+    {value: 'geohash', fieldIdx: 1},
+    'should set geohash column'
+  );
+  t.equal(geohashLayers[0].config.label, 'cells', 'should use dataset label');
+
+  t.end();
+});
+
 test('layerUtils -> findDefaultLayer: TripLayer', t => {
   const stateWTrip = StateWTripGeojson;
   t.equal(stateWTrip.visState.layers.length, 1, 'should find one layer');
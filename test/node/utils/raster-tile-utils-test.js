@@ -0,0 +1,171 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import test from 'tape';
+import {
+  BandCombination,
+  getBandCombinationValue,
+  getBandNames,
+  getLinearRescalingFactor,
+  getPercentileRange,
+  getPixelHistogram,
+  getPixelValues,
+  getViewportPixelSample
+} from '@kepler.gl/layers';
+
+const STAC_ITEM = {
+  type: 'Feature',
+  stac_version: '1.0.0',
+  assets: {
+    visual: {
+      href: 'https://example.com/visual.tif',
+      'eo:bands': [
+        {name: 'B4', common_name: 'red'},
+        {name: 'B3', common_name: 'green'},
+        {common_name: 'blue'}
+      ]
+    },
+    nir: {
+      href: 'https://example.com/nir.tif',
+      'eo:bands': [{name: 'B8', common_name: 'nir'}]
+    }
+  }
+};
+
+// 2 x 2 tile with 2 bands, the last pixel is masked
+const makeTile = () => ({
+  bbox: {west: 0, south: 0, east: 2, north: 2},
+  content: {
+    images: {
+      imageBands: [
+        {data: new Uint16Array([1, 2, 3, 4]), width: 2, height: 2},
+        {data: new Uint16Array([10, 20, 30, 40]), width: 2, height: 2}
+      ],
+      imageMask: {data: new Uint8Array([255, 255, 255, 0]), width: 2, height: 2}
+    },
+    pixels: {epsg: 4326, bandNames: ['red', 'nir']}
+  }
+});
+
+test('rasterTileUtils -> getBandNames', t => {
+  t.deepEqual(
+    getBandNames(STAC_ITEM, ['visual'], [0, 1, 2]),
+    ['B4', 'B3', 'blue'],
+    'should use band names of a single asset'
+  );
+  t.deepEqual(
+    getBandNames(STAC_ITEM, ['visual', 'nir'], [0, 0]),
+    ['B4', 'B8'],
+    'should use band names of each asset'
+  );
+  t.deepEqual(
+    getBandNames(STAC_ITEM, ['visual'], [5]),
+    ['visual_6'],
+    'should name unknown bands by asset and index'
+  );
+  t.end();
+});
+
+test('rasterTileUtils -> getPixelValues', t => {
+  const tile = makeTile();
+  t.deepEqual(
+    getPixelValues(tile, [1.5, 1.5]),
+    [
+      {name: 'red', value: 2},
+      {name: 'nir', value: 20}
+    ],
+    'should get values of the north east pixel'
+  );
+  t.deepEqual(
+    getPixelValues(tile, [0.5, 0.5]),
+    [
+      {name: 'red', value: 3},
+      {name: 'nir', value: 30}
+    ],
+    'should get values of the south west pixel'
+  );
+  t.equal(getPixelValues(tile, [1.5, 0.5]), null, 'masked pixel should have no values');
+  t.equal(getPixelValues(tile, [3, 0.5]), null, 'pixel outside of the tile should have no values');
+  t.equal(
+    getPixelValues({...tile, content: {...tile.content, pixels: undefined}}, [0.5, 0.5]),
+    null,
+    'tile without pixel info should have no values'
+  );
+  t.end();
+});
+
+test('rasterTileUtils -> getBandCombinationValue', t => {
+  t.equal(
+    getBandCombinationValue(BandCombination.NormalizedDifference, [3000, 1000]),
+    0.5,
+    'should compute normalized difference'
+  );
+  t.equal(
+    getBandCombinationValue(BandCombination.SoilAdjustedVegetationIndex, [0.5, 0]),
+    0.5 / 1.5,
+    'should compute SAVI'
+  );
+  t.equal(
+    getBandCombinationValue(BandCombination.ModifiedSoilAdjustedVegetationIndex, [0, 0]),
+    0,
+    'should compute MSAVI'
+  );
+  t.equal(getBandCombinationValue(BandCombination.Rgb, [1, 2, 3]), null, 'rgb is not an index');
+  t.end();
+});
+
+test('rasterTileUtils -> getViewportPixelSample', t => {
+  const tile = makeTile();
+  t.deepEqual(
+    Array.from(getViewportPixelSample([{data: tile.content}, null])),
+    [1, 10, 2, 20, 3, 30],
+    'should sample valid pixels of all bands'
+  );
+  t.deepEqual(
+    Array.from(getViewportPixelSample([{data: tile.content}], 4)),
+    [1, 10, 3, 30],
+    'should sample pixels with a regular step'
+  );
+  t.end();
+});
+
+test('rasterTileUtils -> getPixelHistogram', t => {
+  const bins = getPixelHistogram([0, 1, 4, 5, 9, 12], [0, 10], 2);
+  t.deepEqual(
+    bins.map(({x0, x1, count}) => ({x0, x1, count})),
+    [
+      {x0: 0, x1: 5, count: 3},
+      {x0: 5, x1: 10, count: 3}
+    ],
+    'should count values in each bin, values out of the domain in the last bin'
+  );
+  t.deepEqual(
+    getPixelHistogram([1, 2], [1, 1], 2).map(({count}) => count),
+    [0, 0],
+    'empty domain should have empty bins'
+  );
+  t.end();
+});
+
+test('rasterTileUtils -> getPercentileRange', t => {
+  const values = Array.from({length: 101}, (_, i) => 100 - i);
+  t.deepEqual(getPercentileRange(values, [0, 100]), [0, 100], 'should get min and max');
+  t.deepEqual(getPercentileRange(values, [2, 98]), [2, 98], 'should get percentiles');
+  t.equal(getPercentileRange([], [2, 98]), null, 'no values should have no range');
+  t.end();
+});
+
+test('rasterTileUtils -> getLinearRescalingFactor', t => {
+  t.deepEqual(
+    getLinearRescalingFactor([100, 300], [0, 1000]),
+    [0.1, 0.3],
+    'should be relative to the pixel value range'
+  );
+  t.deepEqual(
+    getLinearRescalingFactor([-20, 60], [-10, 90]),
+    [0, 0.7],
+    'should clamp to the pixel value range'
+  );
+  t.equal(getLinearRescalingFactor([5, 5], [0, 10]), null, 'empty range should have no factor');
+  t.end();
+});
@@ -0,0 +1,102 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import test from 'tape';
+import {
+  aggregatePointsByPolygon,
+  createPolygonIndex,
+  getGeometryPolygons,
+  isPointInPolygon
+} from '@kepler.gl/utils';
+
+const square = [
+  [
+    [0, 0],
+    [10, 0],
+    [10, 10],
+    [0, 10],
+    [0, 0]
+  ]
+];
+const hole = [
+  [4, 4],
+  [6, 4],
+  [6, 6],
+  [4, 6],
+  [4, 4]
+];
+const rightSquare = [square[0].map(([x, y]) => [x + 10, y])];
+
+test('spatialJoinUtils -> getGeometryPolygons', t => {
+  t.deepEqual(getGeometryPolygons({type: 'Polygon', coordinates: square}), [square], 'polygon');
+  t.deepEqual(
+    getGeometryPolygons({type: 'MultiPolygon', coordinates: [square, square]}),
+    [square, square],
+    'multi polygon'
+  );
+  t.deepEqual(
+    getGeometryPolygons({
+      type: 'GeometryCollection',
+      geometries: [
+        {type: 'Point', coordinates: [0, 0]},
+        {type: 'Polygon', coordinates: square}
+      ]
+    }),
+    [square],
+    'geometry collection should only return polygons'
+  );
+  t.deepEqual(getGeometryPolygons({type: 'LineString', coordinates: [[0, 0]]}), [], 'line');
+  t.deepEqual(getGeometryPolygons(null), [], 'null geometry');
+  t.end();
+});
+
+test('spatialJoinUtils -> isPointInPolygon', t => {
+  const withHole = [...square, hole];
+  t.ok(isPointInPolygon([2, 2], square), 'point inside');
+  t.notOk(isPointInPolygon([12, 2], square), 'point outside');
+  t.ok(isPointInPolygon([2, 2], withHole), 'point inside, outside of the hole');
+  t.notOk(isPointInPolygon([5, 5], withHole), 'point in the hole');
+  t.end();
+});
+
+test('spatialJoinUtils -> createPolygonIndex', t => {
+  const findPolygon = createPolygonIndex([
+    [square],
+    [[...square, hole], rightSquare],
+    [],
+    [square]
+  ]);
+  t.equal(findPolygon([2, 2]), 0, 'should return the first polygon containing the point');
+  t.equal(findPolygon([15, 5]), 1, 'should find point in a multi polygon');
+  t.equal(findPolygon([25, 5]), -1, 'point outside of the polygons');
+  t.equal(findPolygon([Number.NaN, 5]), -1, 'invalid point');
+  t.equal(findPolygon(null), -1, 'missing point');
+
+  const findInHole = createPolygonIndex([[[...square, hole]]]);
+  t.equal(findInHole([5, 5]), -1, 'point in a hole');
+  t.equal(createPolygonIndex([[], []])([1, 1]), -1, 'no polygons');
+  t.end();
+});
+
+test('spatialJoinUtils -> aggregatePointsByPolygon', t => {
+  const polygonIndexes = [0, 0, 1, -1, 0];
+  const values = [1, 3, null, 10, 'abc'];
+  const getValue = i => values[i];
+
+  t.deepEqual(
+    aggregatePointsByPolygon(polygonIndexes, 3, 'count'),
+    [3, 1, 0],
+    'should count points in each polygon'
+  );
+  t.deepEqual(
+    aggregatePointsByPolygon(polygonIndexes, 3, 'sum', getValue),
+    [4, 0, 0],
+    'should sum values, ignoring points outside and invalid values'
+  );
+  t.deepEqual(
+    aggregatePointsByPolygon(polygonIndexes, 3, 'average', getValue),
+    [2, null, null],
+    'average of polygons without values should be null'
+  );
+  t.end();
+});
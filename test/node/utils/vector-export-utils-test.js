@@ -0,0 +1,161 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import test from 'tape';
+import {
+  KeplerGlLayers,
+  isVectorExportLayer,
+  getLayerSvgElements,
+  getScaleBarDistance,
+  getMapSvg
+} from '@kepler.gl/layers';
+
+const {PointLayer, HeatmapLayer, GeojsonLayer} = KeplerGlLayers;
+
+const mapState = {
+  longitude: 0,
+  latitude: 0,
+  zoom: 0,
+  pitch: 0,
+  bearing: 0,
+  width: 512,
+  height: 512
+};
+
+const pointLayerData = {
+  data: [
+    {index: 0, position: [0, 0]},
+    {index: 1, position: [90, 0]},
+    {index: 2, position: [0, 0]}
+  ],
+  getPosition: d => d.position,
+  getFillColor: [255, 0, 0],
+  getLineColor: [0, 0, 0],
+  getRadius: 1,
+  // the third point is filtered out by a polygon filter
+  getFiltered: d => (d.index === 2 ? 0 : 1),
+  getFilterValue: d => [d.index * 10, 0, 0, 0]
+};
+
+test('vectorExportUtils -> isVectorExportLayer', t => {
+  t.equal(isVectorExportLayer(new PointLayer({dataId: 'a'})), true, 'point layer is vector');
+  t.equal(isVectorExportLayer(new HeatmapLayer({dataId: 'a'})), false, 'heatmap is raster');
+
+  const geojsonLayer = new GeojsonLayer({dataId: 'a'});
+  t.equal(isVectorExportLayer(geojsonLayer), true, 'geojson layer is vector');
+  geojsonLayer.updateLayerVisConfig({enable3d: true});
+  t.equal(isVectorExportLayer(geojsonLayer), false, 'extruded geojson layer is raster');
+
+  t.end();
+});
+
+test('vectorExportUtils -> getScaleBarDistance', t => {
+  t.deepEqual(
+    getScaleBarDistance(10, 100),
+    {meters: 1000, width: 100, label: '1 km'},
+    'should fit 1 km in 100px'
+  );
+  t.deepEqual(
+    getScaleBarDistance(2, 100),
+    {meters: 200, width: 100, label: '200 m'},
+    'should fit 200 m in 100px'
+  );
+  t.deepEqual(
+    getScaleBarDistance(1, 100),
+    {meters: 100, width: 100, label: '100 m'},
+    'should use exact power of 10'
+  );
+  t.equal(getScaleBarDistance(3, 100).meters, 200, 'should round down to 1, 2 or 5 x 10^n');
+  t.end();
+});
+
+test('vectorExportUtils -> getLayerSvgElements', t => {
+  const layer = new PointLayer({dataId: 'a', isVisible: true, label: 'points'});
+
+  const elements = getLayerSvgElements(layer, pointLayerData, mapState);
+  t.equal(elements.length, 2, 'should skip points removed by getFiltered');
+  t.ok(
+    elements[0].startsWith('<circle cx="256" cy="256"'),
+    'should project [0, 0] to the center of the map'
+  );
+  t.ok(elements[1].includes('cx="384"'), 'should project [90, 0] to 3/4 of the map width');
+  t.ok(elements[0].includes('fill="rgb(255,0,0)"'), 'should write fill color');
+
+  const filtered = getLayerSvgElements(layer, pointLayerData, mapState, [
+    [0, 5],
+    [0, 0],
+    [0, 0],
+    [0, 0]
+  ]);
+  t.equal(filtered.length, 1, 'should apply gpu filter range');
+
+  t.deepEqual(
+    getLayerSvgElements(new HeatmapLayer({dataId: 'a'}), pointLayerData, mapState),
+    [],
+    'should not vectorize heatmap layer'
+  );
+
+  const geojsonLayer = new GeojsonLayer({dataId: 'a', isVisible: true});
+  const polygonElements = getLayerSvgElements(
+    geojsonLayer,
+    {
+      data: [
+        {
+          type: 'Feature',
+          properties: {index: 0},
+          geometry: {
+            type: 'Polygon',
+            coordinates: [
+              [
+                [0, 0],
+                [90, 0],
+                [90, 10],
+                [0, 0]
+              ]
+            ]
+          }
+        }
+      ],
+      getFillColor: [0, 0, 255],
+      getLineColor: [0, 0, 0],
+      getLineWidth: 1,
+      getPointRadius: 1
+    },
+    mapState
+  );
+  t.equal(polygonElements.length, 1, 'should write polygon');
+  t.ok(
+    polygonElements[0].startsWith('<path d="M256 256L384 256L384 '),
+    'should write polygon ring as path'
+  );
+  t.ok(polygonElements[0].includes('Z"'), 'should close polygon ring');
+
+  t.end();
+});
+
+test('vectorExportUtils -> getMapSvg', t => {
+  const pointLayer = new PointLayer({dataId: 'a', isVisible: true, label: 'points & more'});
+  const heatmapLayer = new HeatmapLayer({dataId: 'a', isVisible: true, label: 'heat'});
+
+  const svg = getMapSvg({
+    layers: [pointLayer, heatmapLayer],
+    layerData: [pointLayerData, {data: pointLayerData.data}],
+    layerOrder: [heatmapLayer.id, pointLayer.id],
+    mapState,
+    backgroundDataUri: 'data:image/png;base64,abc',
+    title: 'My <Map>',
+    legend: true
+  });
+
+  t.ok(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"'), 'should create svg');
+  t.ok(svg.includes('width="512" height="512"'), 'should use map size');
+  t.ok(svg.includes('xlink:href="data:image/png;base64,abc"'), 'should add raster background');
+  t.ok(svg.includes(`<g class="layer" id="${pointLayer.id}">`), 'should write point layer');
+  t.notOk(svg.includes(`id="${heatmapLayer.id}"`), 'should keep heatmap in raster background');
+  t.ok(svg.includes('My &lt;Map&gt;'), 'should write escaped title');
+  t.ok(svg.includes('points &amp; more'), 'should write escaped layer name in legend');
+  t.ok(svg.includes('class="scale-bar"'), 'should write scale bar');
+  t.ok(svg.endsWith('</svg>'), 'should close svg');
+
+  t.end();
+});
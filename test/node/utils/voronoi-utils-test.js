@@ -0,0 +1,102 @@
+// SPDX-License-Identifier: MIT
+// Copyright contributors to the kepler.gl project
+
+import test from 'tape';
+import {getVoronoiDiagram} from '@kepler.gl/layers';
+
+const square = [
+  [0, 0],
+  [1, 0],
+  [1, 1],
+  [0, 1],
+  [0, 0]
+];
+
+function ringArea(ring) {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area / 2;
+}
+
+test('voronoiUtils -> getVoronoiDiagram', t => {
+  const {cells, edges} = getVoronoiDiagram(
+    [
+      {index: 0, position: [0.25, 0.5]},
+      {index: 1, position: [0.75, 0.5]}
+    ],
+    square
+  );
+  t.equal(cells.length, 2, 'should create a cell per site');
+  t.deepEqual(
+    cells.map(c => c.index),
+    [0, 1],
+    'should keep source row index'
+  );
+  t.ok(
+    cells[0].polygon.every(([lng]) => lng <= 0.5 + 1e-9),
+    'should split cells at the bisector'
+  );
+  t.ok(Math.abs(ringArea(cells[0].polygon) - 0.5) < 1e-6, 'should clip cell to the square');
+  t.ok(ringArea(cells[1].polygon) > 0, 'cells should be counterclockwise');
+  t.deepEqual(
+    cells[0].polygon[0],
+    cells[0].polygon[cells[0].polygon.length - 1],
+    'should close polygon ring'
+  );
+  t.equal(edges.length, 1, 'should create 1 Delaunay edge');
+
+  t.deepEqual(getVoronoiDiagram([], square), {cells: [], edges: []}, 'should handle no sites');
+  t.deepEqual(
+    getVoronoiDiagram([{index: 0, position: [0.5, 0.5]}], square.slice(0, 2)),
+    {cells: [], edges: []},
+    'should handle invalid clip ring'
+  );
+
+  t.end();
+});
+
+test('voronoiUtils -> getVoronoiDiagram -> Delaunay edges', t => {
+  const sites = [
+    [0.2, 0.2],
+    [0.8, 0.2],
+    [0.5, 0.8],
+    [0.2, 0.2]
+  ].map((position, index) => ({index, position}));
+  const {cells, edges} = getVoronoiDiagram(sites, square);
+
+  t.equal(cells.length, 4, 'should create a cell for duplicated sites');
+  t.deepEqual(cells[3].polygon, cells[0].polygon, 'duplicated sites should share the cell');
+  t.equal(edges.length, 3, 'should create Delaunay triangle');
+
+  const total = cells.slice(0, 3).reduce((accu, c) => accu + ringArea(c.polygon), 0);
+  t.ok(Math.abs(total - ringArea(square)) < 1e-6, 'cells should cover the clip polygon');
+
+  t.end();
+});
+
+test('voronoiUtils -> getVoronoiDiagram -> clip polygon', t => {
+  const triangle = [
+    [0, 0],
+    [0.5, 1],
+    [1, 0],
+    [0, 0]
+  ];
+  const sites = [
+    [0.5, 0.2],
+    [0.2, 0.1],
+    [0.8, 0.1],
+    [0.5, 2]
+  ].map((position, index) => ({index, position}));
+  const {cells} = getVoronoiDiagram(sites, triangle);
+
+  t.equal(cells.length, 3, 'should drop cells outside the clip polygon');
+  const total = cells.reduce((accu, c) => accu + ringArea(c.polygon), 0);
+  t.ok(
+    Math.abs(total - Math.abs(ringArea(triangle))) < 1e-4,
+    'cells should cover the clip polygon'
+  );
+
+  t.end();
+});